@@ -0,0 +1,280 @@
+import {
+  BarController,
+  BarElement,
+  CategoryScale,
+  Chart,
+  Filler,
+  Legend,
+  LinearScale,
+  LineController,
+  LineElement,
+  PointElement,
+  Title,
+  Tooltip,
+} from "chart.js";
+
+Chart.register(
+  BarController,
+  BarElement,
+  LineController,
+  LineElement,
+  PointElement,
+  LinearScale,
+  CategoryScale,
+  Title,
+  Tooltip,
+  Filler,
+  Legend,
+);
+
+// NPS runs from -100 to 100: below 0 (red), 0-29 (yellow), 30+ (green)
+export const getNpsColor = (
+  score: number | null,
+  goodScore = 30,
+  fairScore = 0,
+): string => {
+  if (score === null) return "rgba(255, 255, 255, 0.3)";
+  if (score >= goodScore) return "oklch(0.78452 0.132 181.911)";
+  if (score >= fairScore) return "oklch(0.83242 0.139 82.95)";
+  return "oklch(0.71785 0.17 13.118)";
+};
+
+/**
+ * The axis, label and colour thresholds of a score chart
+ * Defaults to NPS; other survey types send their own.
+ */
+interface ScoreChartScale {
+  label: string;
+  min: number;
+  max: number;
+  stepSize: number;
+  goodScore: number;
+  fairScore: number;
+  categoryLabels: { promoter: string; passive: string; detractor: string };
+}
+
+const NPS_CHART_SCALE: ScoreChartScale = {
+  label: "NPS",
+  min: -100,
+  max: 100,
+  stepSize: 50,
+  goodScore: 30,
+  fairScore: 0,
+  categoryLabels: {
+    promoter: "Promoters",
+    passive: "Passives",
+    detractor: "Detractors",
+  },
+};
+
+const gradientLinePlugin = {
+  id: "gradientLine",
+  beforeDatasetsDraw(chart: Chart) {
+    const { ctx } = chart;
+    const meta = chart.getDatasetMeta(0);
+    const dataset = chart.data.datasets[0];
+
+    if (!meta.data || meta.data.length < 2) return;
+
+    ctx.save();
+    ctx.lineWidth = 3;
+
+    for (let i = 0; i < meta.data.length - 1; i++) {
+      const point1 = meta.data[i];
+      const point2 = meta.data[i + 1];
+
+      // Weeks without responses have no NPS and leave a gap
+      if (!point1 || !point2) continue;
+      if (dataset.data[i] === null || dataset.data[i + 1] === null) continue;
+
+      const x1 = point1.x;
+      const y1 = point1.y;
+      const x2 = point2.x;
+      const y2 = point2.y;
+
+      // Score charts colour their points for their own scale
+      const pointColors = (dataset as { pointBackgroundColor?: unknown })
+        .pointBackgroundColor;
+      const colorAt = (index: number) =>
+        Array.isArray(pointColors)
+          ? (pointColors[index] as string)
+          : getNpsColor(dataset.data[index] as number | null);
+      const gradient = ctx.createLinearGradient(x1, y1, x2, y2);
+      const color1 = colorAt(i);
+      const color2 = colorAt(i + 1);
+
+      gradient.addColorStop(0, color1);
+      gradient.addColorStop(1, color2);
+
+      ctx.beginPath();
+      ctx.strokeStyle = gradient;
+      ctx.moveTo(x1, y1);
+
+      if ((dataset as { tension?: number }).tension) {
+        const cp1x = x1 + (x2 - x1) / 3;
+        const cp1y = y1;
+        const cp2x = x1 + (2 * (x2 - x1)) / 3;
+        const cp2y = y2;
+        ctx.bezierCurveTo(cp1x, cp1y, cp2x, cp2y, x2, y2);
+      } else {
+        ctx.lineTo(x2, y2);
+      }
+
+      ctx.stroke();
+    }
+
+    ctx.restore();
+  },
+};
+
+Chart.register(gradientLinePlugin);
+
+/**
+ * Read the JSON a template put in a canvas's data-chart-data attribute
+ */
+export const readChartData = <T>(id: string): [HTMLCanvasElement, T] | null => {
+  const canvas = document.getElementById(id) as HTMLCanvasElement;
+  if (!canvas) return null;
+
+  const chartData = canvas.dataset.chartData;
+  if (!chartData) return null;
+
+  return [canvas, JSON.parse(chartData) as T];
+};
+
+/**
+ * Draw a score over time as a line coloured by score
+ * Expects labels, values (null for periods without responses), an optional
+ * scale, and a tooltip per point with the date range and category counts.
+ */
+export const renderNpsChart = (id: string) => {
+  const found = readChartData<{
+    labels: string[];
+    values: (number | null)[];
+    scale?: ScoreChartScale;
+    tooltips: {
+      dateRange: string;
+      score: string;
+      responseCount: number;
+      promoters: number;
+      passives: number;
+      detractors: number;
+    }[];
+  }>(id);
+  if (!found) return;
+
+  const [canvas, data] = found;
+  const scale = data.scale ?? NPS_CHART_SCALE;
+  const colorFor = (value: number | null) =>
+    getNpsColor(value, scale.goodScore, scale.fairScore);
+
+  const pointColors = data.values.map(colorFor);
+
+  new Chart(canvas, {
+    type: "line",
+    data: {
+      labels: data.labels,
+      datasets: [
+        {
+          label: `${scale.label} Score`,
+          data: data.values,
+          fill: false,
+          tension: 0.4,
+          borderWidth: 0,
+          pointRadius: 7,
+          pointHoverRadius: 10,
+          pointBackgroundColor: pointColors,
+          pointBorderColor: "#ffffff",
+          pointBorderWidth: 3,
+          pointHoverBorderWidth: 4,
+        },
+      ],
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: {
+        intersect: false,
+        mode: "index",
+      },
+      plugins: {
+        legend: {
+          display: false,
+        },
+        tooltip: {
+          backgroundColor: "#ffffff",
+          titleColor: "#1f2937",
+          bodyColor: "#374151",
+          borderColor: (context) => {
+            const index = context.tooltip.dataPoints[0].dataIndex;
+            return colorFor(data.values[index]);
+          },
+          borderWidth: 2,
+          padding: 16,
+          displayColors: false,
+          titleFont: {
+            size: 14,
+            weight: "bold",
+          },
+          bodyFont: {
+            size: 13,
+          },
+          callbacks: {
+            title: (context) => {
+              const index = context[0].dataIndex;
+              return data.tooltips[index].dateRange;
+            },
+            label: (context) => {
+              const index = context.dataIndex;
+              const tooltip = data.tooltips[index];
+              const { promoter, passive, detractor } = scale.categoryLabels;
+              return [
+                `${scale.label}: ${tooltip.score}`,
+                `Responses: ${tooltip.responseCount}`,
+                `${promoter}: ${tooltip.promoters} · ${passive}: ${tooltip.passives} · ${detractor}: ${tooltip.detractors}`,
+              ];
+            },
+          },
+        },
+      },
+      scales: {
+        y: {
+          min: scale.min,
+          max: scale.max,
+          grid: {
+            color: "rgba(255, 255, 255, 0.1)",
+            drawTicks: false,
+          },
+          border: {
+            display: false,
+          },
+          ticks: {
+            color: "rgba(255, 255, 255, 0.7)",
+            padding: 8,
+            stepSize: scale.stepSize,
+            font: {
+              size: 13,
+            },
+          },
+        },
+        x: {
+          grid: {
+            display: false,
+          },
+          border: {
+            display: false,
+          },
+          ticks: {
+            color: "rgba(255, 255, 255, 0.7)",
+            maxRotation: 0,
+            autoSkip: true,
+            maxTicksLimit: 8,
+            font: {
+              size: 13,
+            },
+          },
+        },
+      },
+    },
+  });
+};
@@ -1,16 +1,16 @@
 // Page scripts
 import { init as initDashboard } from "@client/pages/dashboard";
+import { init as initSurveyAnalytics } from "@client/pages/survey-analytics";
 import { init as initSurveyNew } from "@client/pages/survey-new";
 import { init as initTeam } from "@client/pages/team";
-import { init as initWebhooks } from "@client/pages/webhooks";
 
 const page = document.body.dataset.page;
 
 const pages: Record<string, () => void> = {
   dashboard: initDashboard,
+  "survey-analytics": initSurveyAnalytics,
   "survey-new": initSurveyNew,
   team: initTeam,
-  webhooks: initWebhooks,
 };
 
 if (page && pages[page]) {
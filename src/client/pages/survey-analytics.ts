@@ -0,0 +1,161 @@
+import { readChartData, renderNpsChart } from "@client/charts";
+import type { NpsCategory } from "@server/utils/nps";
+import { Chart } from "chart.js";
+
+const scaleStyle = {
+  grid: {
+    color: "rgba(255, 255, 255, 0.1)",
+    drawTicks: false,
+  },
+  border: {
+    display: false,
+  },
+  ticks: {
+    color: "rgba(255, 255, 255, 0.7)",
+    padding: 8,
+    font: {
+      size: 13,
+    },
+  },
+};
+
+const CATEGORY_COLORS: Record<NpsCategory, string> = {
+  promoter: "oklch(0.78452 0.132 181.911)",
+  passive: "oklch(0.83242 0.139 82.95)",
+  detractor: "oklch(0.71785 0.17 13.118)",
+};
+
+const renderScoreHistogram = () => {
+  const found = readChartData<{
+    labels: string[];
+    counts: number[];
+    categories: NpsCategory[];
+  }>("score-histogram");
+  if (!found) return;
+
+  const [canvas, data] = found;
+
+  new Chart(canvas, {
+    type: "bar",
+    data: {
+      labels: data.labels,
+      datasets: [
+        {
+          label: "Responses",
+          data: data.counts,
+          backgroundColor: data.categories.map(
+            (category) => CATEGORY_COLORS[category],
+          ),
+          borderRadius: 4,
+        },
+      ],
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: {
+          display: false,
+        },
+      },
+      scales: {
+        y: {
+          ...scaleStyle,
+          beginAtZero: true,
+          ticks: { ...scaleStyle.ticks, precision: 0 },
+        },
+        x: {
+          ...scaleStyle,
+          grid: {
+            display: false,
+          },
+        },
+      },
+    },
+  });
+};
+
+const renderRateChart = () => {
+  const found = readChartData<{
+    labels: string[];
+    responseRates: (number | null)[];
+    commentRates: (number | null)[];
+  }>("rate-chart");
+  if (!found) return;
+
+  const [canvas, data] = found;
+
+  new Chart(canvas, {
+    type: "line",
+    data: {
+      labels: data.labels,
+      datasets: [
+        {
+          label: "Response rate",
+          data: data.responseRates,
+          borderColor: CATEGORY_COLORS.promoter,
+          backgroundColor: CATEGORY_COLORS.promoter,
+          tension: 0.4,
+        },
+        {
+          label: "Comment rate",
+          data: data.commentRates,
+          borderColor: CATEGORY_COLORS.passive,
+          backgroundColor: CATEGORY_COLORS.passive,
+          tension: 0.4,
+        },
+      ],
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: {
+        intersect: false,
+        mode: "index",
+      },
+      plugins: {
+        legend: {
+          labels: {
+            color: "rgba(255, 255, 255, 0.7)",
+          },
+        },
+        tooltip: {
+          callbacks: {
+            label: (context) =>
+              `${context.dataset.label}: ${context.parsed.y ?? "—"}%`,
+          },
+        },
+      },
+      scales: {
+        y: {
+          ...scaleStyle,
+          min: 0,
+          max: 100,
+          ticks: {
+            ...scaleStyle.ticks,
+            stepSize: 25,
+            callback: (value) => `${value}%`,
+          },
+        },
+        x: {
+          ...scaleStyle,
+          grid: {
+            display: false,
+          },
+          ticks: {
+            ...scaleStyle.ticks,
+            maxRotation: 0,
+            autoSkip: true,
+            maxTicksLimit: 8,
+          },
+        },
+      },
+    },
+  });
+};
+
+export const init = () => {
+  renderScoreHistogram();
+  renderNpsChart("nps-chart");
+  renderRateChart();
+};
@@ -1,3 +1,18 @@
+import {
+  BRAND_COLOR_PATTERN,
+  getContrastTextColor,
+} from "@server/utils/branding";
+import type { NpsCategory } from "@server/utils/nps";
+import {
+  DEFAULT_SURVEY_TYPE,
+  describeCategory,
+  formatScore,
+  getCategoryScores,
+  isSurveyType,
+  SURVEY_SCALES,
+  type SurveyType,
+} from "@server/utils/survey-types";
+
 function slugify(text: string): string {
   return text
     .toLowerCase()
@@ -7,7 +22,139 @@ function slugify(text: string): string {
     .replace(/^-+|-+$/g, "");
 }
 
+const SCORE_CLASSES = ["text-success", "text-warning", "text-error"];
+const CATEGORY_SCORE_CLASSES: Record<string, string> = {
+  promoter: "text-success",
+  passive: "text-warning",
+  detractor: "text-error",
+};
+
+// Keep the thank you page preview in step with the branding fields
+function initBrandingPreview(): void {
+  const preview = document.querySelector(
+    '[data-element="branding-preview"]',
+  ) as HTMLElement | null;
+  if (!preview) return;
+
+  const field = (name: string) =>
+    document.querySelector(`[data-branding="${name}"]`) as
+      | HTMLInputElement
+      | HTMLTextAreaElement
+      | null;
+  const part = (name: string) =>
+    preview.querySelector(`[data-preview="${name}"]`) as HTMLElement | null;
+  // A blank field falls back to its placeholder, which holds the default
+  const textOf = (name: string) => {
+    const input = field(name);
+    return input?.value.trim() || input?.placeholder || "";
+  };
+
+  const tabs = preview.querySelectorAll(
+    '[data-action="preview-category"]',
+  ) as NodeListOf<HTMLElement>;
+  let category: NpsCategory = "promoter";
+  let score = 10;
+  let surveyType: SurveyType = DEFAULT_SURVEY_TYPE;
+
+  // A score from the middle of the category's range to show in the preview
+  const sampleScore = (type: SurveyType, of: NpsCategory) => {
+    const scores = getCategoryScores(type, of);
+    return of === "detractor" ? scores[0] : scores[scores.length - 1];
+  };
+
+  const update = () => {
+    const headline = part("headline");
+    if (headline) headline.textContent = textOf(`${category}_headline`);
+
+    const body = part("body");
+    const bodyText = field(`${category}_body`)?.value.trim() ?? "";
+    if (body) {
+      body.textContent = bodyText;
+      body.classList.toggle("hidden", !bodyText);
+    }
+
+    const prompt = part("comment-prompt");
+    if (prompt) prompt.textContent = textOf("comment_prompt");
+
+    const scoreEl = part("score");
+    if (scoreEl) {
+      scoreEl.textContent = formatScore(surveyType, score);
+      scoreEl.classList.remove(...SCORE_CLASSES);
+      scoreEl.classList.add(CATEGORY_SCORE_CLASSES[category]);
+    }
+
+    const logo = part("logo") as HTMLImageElement | null;
+    const logoUrl = field("logo_url")?.value.trim() ?? "";
+    if (logo) {
+      const showLogo = logoUrl.startsWith("https://");
+      if (showLogo) logo.src = logoUrl;
+      logo.classList.toggle("hidden", !showLogo);
+    }
+
+    const color = field("brand_color")?.value.trim() ?? "";
+    const brandColor = BRAND_COLOR_PATTERN.test(color) ? color : null;
+    const card = part("card");
+    if (card)
+      card.style.borderTop = brandColor ? `4px solid ${brandColor}` : "";
+    const button = part("button");
+    if (button) {
+      button.style.backgroundColor = brandColor ?? "";
+      button.style.borderColor = brandColor ?? "";
+      button.style.color = brandColor ? getContrastTextColor(brandColor) : "";
+    }
+  };
+
+  const selectTab = (tab: HTMLElement) => {
+    category = (tab.dataset.category ?? "promoter") as NpsCategory;
+    score = sampleScore(surveyType, category) ?? 10;
+    tabs.forEach((other) => {
+      other.classList.toggle("tab-active", other === tab);
+    });
+    update();
+  };
+
+  tabs.forEach((tab) => {
+    tab.addEventListener("click", () => selectTab(tab));
+  });
+
+  // Relabel the categories for the chosen scale, hiding any it lacks
+  const typeSelect = document.querySelector(
+    '[data-action="survey-type"]',
+  ) as HTMLSelectElement | null;
+  typeSelect?.addEventListener("change", () => {
+    if (!isSurveyType(typeSelect.value)) return;
+    surveyType = typeSelect.value;
+
+    const labels = SURVEY_SCALES[surveyType].categoryLabels;
+    document.querySelectorAll("[data-category]").forEach((element) => {
+      const el = element as HTMLElement;
+      const of = el.dataset.category as NpsCategory;
+      const empty = getCategoryScores(surveyType, of).length === 0;
+      el.classList.toggle("hidden", empty);
+
+      const label = el.querySelector("[data-category-label]");
+      if (label) label.textContent = describeCategory(surveyType, of);
+      else if (el.dataset.action === "preview-category")
+        el.textContent = labels[of];
+    });
+
+    const current = Array.from(tabs).find(
+      (tab) =>
+        tab.dataset.category === category && !tab.classList.contains("hidden"),
+    );
+    selectTab(current ?? tabs[0]);
+  });
+
+  document.querySelectorAll("[data-branding]").forEach((input) => {
+    input.addEventListener("input", update);
+  });
+
+  update();
+}
+
 export function init(): void {
+  initBrandingPreview();
+
   // Auto-populate Survey ID from Survey Name
   const titleInput = document.getElementById("title") as HTMLInputElement;
   const surveyIdInput = document.getElementById("surveyId") as HTMLInputElement;
@@ -63,6 +63,7 @@ type BaseLayoutProps = {
   name: string;
   children: React.ReactNode;
   theme?: string;
+  lang?: string;
 };
 
 /**
@@ -74,9 +75,10 @@ export function BaseLayout({
   description,
   name,
   children,
+  lang = "en",
 }: BaseLayoutProps) {
   return (
-    <html lang="en" data-theme="night">
+    <html lang={lang} data-theme="night">
       <head>
         <meta charSet="utf-8" />
         <meta
@@ -10,7 +10,7 @@ import {
   UserPlus,
   X,
 } from "lucide-react";
-import { isAdminOrOwner } from "../middleware/access";
+import { isAdminOrOwner, isSystemAdmin } from "../middleware/access";
 import type { AuthContext } from "../middleware/auth";
 import { CsrfField } from "./csrf-field";
 
@@ -29,11 +29,22 @@ const authNavLinks = [
 const settingsLinks = [
   { href: "/settings/api-keys", label: "API Keys", adminOnly: true },
   { href: "/settings/webhooks", label: "Webhooks", adminOnly: true },
+  { href: "/settings/billing", label: "Billing", adminOnly: true },
+  { href: "/settings/retention", label: "Data Retention", adminOnly: true },
   { href: "/settings/profile", label: "Profile", adminOnly: false },
   { href: "/settings/team", label: "Team", adminOnly: true },
   { href: "/settings/support", label: "Support", adminOnly: false },
 ];
 
+const systemAdminLinks = [{ href: "/admin/jobs", label: "Jobs" }];
+
+const getSettingsLinks = (auth?: AuthContext) => [
+  ...settingsLinks.filter(
+    ({ adminOnly }) => !adminOnly || (auth && isAdminOrOwner(auth)),
+  ),
+  ...(auth && isSystemAdmin(auth) ? systemAdminLinks : []),
+];
+
 type NavProps = {
   page: string;
   auth?: AuthContext;
@@ -105,16 +116,11 @@ export const Nav = ({ page, auth, csrfToken }: NavProps) => (
               </svg>
             </button>
             <ul className="menu dropdown-content bg-base-300 rounded-b-box z-[1] mt-2 w-40 p-2 shadow-sm">
-              {settingsLinks
-                .filter(
-                  ({ adminOnly }) =>
-                    !adminOnly || (auth && isAdminOrOwner(auth)),
-                )
-                .map(({ href, label }) => (
-                  <li key={href}>
-                    <a href={href}>{label}</a>
-                  </li>
-                ))}
+              {getSettingsLinks(auth).map(({ href, label }) => (
+                <li key={href}>
+                  <a href={href}>{label}</a>
+                </li>
+              ))}
               <li>
                 <form method="POST" action="/auth/logout">
                   <CsrfField token={csrfToken || null} />
@@ -218,16 +224,11 @@ export const Nav = ({ page, auth, csrfToken }: NavProps) => (
                       Settings
                     </summary>
                     <ul>
-                      {settingsLinks
-                        .filter(
-                          ({ adminOnly }) =>
-                            !adminOnly || (auth && isAdminOrOwner(auth)),
-                        )
-                        .map(({ href, label }) => (
-                          <li key={href}>
-                            <a href={href}>{label}</a>
-                          </li>
-                        ))}
+                      {getSettingsLinks(auth).map(({ href, label }) => (
+                        <li key={href}>
+                          <a href={href}>{label}</a>
+                        </li>
+                      ))}
                     </ul>
                   </details>
                 </li>
@@ -1 +1,4 @@
+export { responsesApi } from "./responses";
+export { subjectsApi } from "./subjects";
 export { surveysApi } from "./surveys";
+export { webhooksApi } from "./webhooks";
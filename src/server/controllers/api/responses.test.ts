@@ -0,0 +1,306 @@
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  test,
+} from "bun:test";
+import { SQL } from "bun";
+import type { ResponsePage } from "../../services/surveys";
+import { createBunRequest } from "../../test-utils/bun-request";
+import {
+  cleanupTestData,
+  createTestApiKey,
+  createTestBusiness,
+} from "../../test-utils/helpers";
+import { encodeResponseCursor } from "../../utils/cursor";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("../../services/database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+const responsePage: ResponsePage = {
+  responses: [
+    {
+      id: "11111111-1111-1111-1111-111111111111",
+      survey_id: "onboarding",
+      subject_id: "user-1",
+      score: 9,
+      comment: "Great",
+      responded_at: new Date("2025-01-15T10:30:00Z"),
+    },
+  ],
+  next_cursor: "11111111-1111-1111-1111-111111111111",
+};
+
+// Mock the survey service
+const mockFindSurvey = mock((_businessId: string, surveyId: string) =>
+  surveyId === "onboarding" ? { id: "survey-uuid", survey_id: surveyId } : null,
+);
+const mockListResponses = mock(async (): Promise<ResponsePage> => {
+  return responsePage;
+});
+
+mock.module("../../services/surveys", () => ({
+  findSurvey: mockFindSurvey,
+  listResponses: mockListResponses,
+}));
+
+import { responsesApi } from "./responses";
+
+describe("Responses API", () => {
+  let businessId: string;
+  let token: string;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    businessId = await createTestBusiness(connection, "API Business");
+    token = await createTestApiKey(connection, businessId);
+  });
+
+  afterEach(() => {
+    mockFindSurvey.mockClear();
+    mockListResponses.mockClear();
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const apiRequest = (path: string, params: Record<string, string> = {}) =>
+    createBunRequest(
+      `http://localhost:3000${path}`,
+      { headers: { Authorization: `Bearer ${token}` } },
+      params,
+    );
+
+  describe("GET /api/v1/responses", () => {
+    test("requires authentication", async () => {
+      const request = createBunRequest(
+        "http://localhost:3000/api/v1/responses",
+      );
+      const response = await responsesApi.listResponses(request);
+
+      expect(response.status).toBe(401);
+      expect(mockListResponses).not.toHaveBeenCalled();
+    });
+
+    test("returns a page of responses with pagination metadata", async () => {
+      const response = await responsesApi.listResponses(
+        apiRequest("/api/v1/responses"),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockListResponses).toHaveBeenCalledWith(businessId, {
+        limit: 50,
+        min_score: undefined,
+        max_score: undefined,
+        responded_after: undefined,
+        responded_before: undefined,
+      });
+      expect(data).toEqual({
+        data: [
+          {
+            id: "11111111-1111-1111-1111-111111111111",
+            survey_id: "onboarding",
+            subject_id: "user-1",
+            score: 9,
+            comment: "Great",
+            follow_up: null,
+            responded_at: "2025-01-15T10:30:00.000Z",
+          },
+        ],
+        pagination: {
+          limit: 50,
+          has_more: true,
+          next_cursor: "11111111-1111-1111-1111-111111111111",
+        },
+      });
+    });
+
+    test("passes filters through to the service", async () => {
+      const cursor = encodeResponseCursor({
+        responded_at: "2025-01-20 08:00:00.123456+00",
+        id: "22222222-2222-2222-2222-222222222222",
+      });
+      const response = await responsesApi.listResponses(
+        apiRequest(
+          `/api/v1/responses?survey_id=onboarding&min_score=0&max_score=6&subject_id=user-1&has_comment=true&responded_after=2025-01-01T00:00:00Z&responded_before=2025-02-01T00:00:00Z&limit=10&cursor=${cursor}`,
+        ),
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockFindSurvey).toHaveBeenCalledWith(businessId, "onboarding");
+      expect(mockListResponses).toHaveBeenCalledWith(businessId, {
+        limit: 10,
+        cursor,
+        survey_id: "survey-uuid",
+        min_score: 0,
+        max_score: 6,
+        subject_id: "user-1",
+        has_comment: true,
+        responded_after: new Date("2025-01-01T00:00:00Z"),
+        responded_before: new Date("2025-02-01T00:00:00Z"),
+      });
+    });
+
+    test("returns 404 for an unknown survey_id filter", async () => {
+      const response = await responsesApi.listResponses(
+        apiRequest("/api/v1/responses?survey_id=missing"),
+      );
+
+      expect(response.status).toBe(404);
+      expect(mockListResponses).not.toHaveBeenCalled();
+    });
+
+    test.each([
+      ["min_score=11"],
+      ["max_score=-1"],
+      ["min_score=8&max_score=2"],
+      ["has_comment=yes"],
+      ["responded_after=not-a-date"],
+      ["limit=0"],
+      ["limit=500"],
+      ["cursor=not-a-cursor"],
+      ["cursor=11111111-1111-1111-1111-111111111111"],
+      ["subject_id=bad%20id"],
+    ])("rejects invalid query %s", async (query) => {
+      const response = await responsesApi.listResponses(
+        apiRequest(`/api/v1/responses?${query}`),
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockListResponses).not.toHaveBeenCalled();
+    });
+
+    test("returns 400 when the service rejects the cursor", async () => {
+      mockListResponses.mockImplementationOnce(async () => {
+        throw new Error("Invalid cursor");
+      });
+
+      const response = await responsesApi.listResponses(
+        apiRequest(
+          `/api/v1/responses?cursor=${encodeResponseCursor({
+            responded_at: "2025-01-20 08:00:00+00",
+            id: "33333333-3333-3333-3333-333333333333",
+          })}`,
+        ),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Invalid cursor");
+    });
+  });
+
+  describe("GET /api/v1/surveys/:survey_id/responses", () => {
+    test("scopes the listing to the survey", async () => {
+      const response = await responsesApi.listSurveyResponses(
+        apiRequest("/api/v1/surveys/onboarding/responses?has_comment=false", {
+          survey_id: "onboarding",
+        }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockListResponses).toHaveBeenCalledWith(
+        businessId,
+        expect.objectContaining({
+          survey_id: "survey-uuid",
+          has_comment: false,
+        }),
+      );
+    });
+
+    test("returns 404 for unknown surveys", async () => {
+      const response = await responsesApi.listSurveyResponses(
+        apiRequest("/api/v1/surveys/missing/responses", {
+          survey_id: "missing",
+        }),
+      );
+
+      expect(response.status).toBe(404);
+      expect(mockListResponses).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /api/v1/surveys/:survey_id/responses/export", () => {
+    test("streams the survey's responses as NDJSON", async () => {
+      // The survey service is mocked, so point it at a real survey row
+      const [survey] = await connection`
+        INSERT INTO surveys (business_id, survey_id, title)
+        VALUES (${businessId}, 'onboarding', 'Onboarding')
+        RETURNING id, survey_id
+      `;
+      mockFindSurvey.mockImplementationOnce(() => survey);
+      const [link] = await connection`
+        INSERT INTO survey_links (token, survey_id, subject_id, score, expires_at)
+        VALUES (${crypto.randomUUID()}, ${survey.id}, 'user-1', 6, ${new Date(Date.now() + 86400000)})
+        RETURNING id
+      `;
+      await connection`
+        INSERT INTO responses (survey_link_id, comment)
+        VALUES (${link.id}, 'Slow')
+      `;
+
+      const response = await responsesApi.exportSurveyResponses(
+        apiRequest(
+          "/api/v1/surveys/onboarding/responses/export?format=ndjson&responded_after=2020-01-01T00:00:00Z",
+          { survey_id: "onboarding" },
+        ),
+      );
+      const [row] = (await response.text())
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-disposition")).toBe(
+        'attachment; filename="onboarding-responses.ndjson"',
+      );
+      expect(row).toMatchObject({
+        survey_id: "onboarding",
+        subject_id: "user-1",
+        score: 6,
+        category: "detractor",
+        comment: "Slow",
+      });
+    });
+
+    test("rejects unknown formats and dates", async () => {
+      const formatResponse = await responsesApi.exportSurveyResponses(
+        apiRequest("/api/v1/surveys/onboarding/responses/export?format=xml", {
+          survey_id: "onboarding",
+        }),
+      );
+      const dateResponse = await responsesApi.exportSurveyResponses(
+        apiRequest(
+          "/api/v1/surveys/onboarding/responses/export?responded_before=soon",
+          { survey_id: "onboarding" },
+        ),
+      );
+
+      expect(formatResponse.status).toBe(400);
+      expect(dateResponse.status).toBe(400);
+    });
+
+    test("returns 404 for unknown surveys", async () => {
+      const response = await responsesApi.exportSurveyResponses(
+        apiRequest("/api/v1/surveys/missing/responses/export", {
+          survey_id: "missing",
+        }),
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import type { BunRequest } from "bun";
+import { getApiAuthContext, requireApiAuth } from "../../middleware/api-auth";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  getExportFilename,
+  streamResponseExport,
+} from "../../services/exports";
+import {
+  findSurvey,
+  listResponses,
+  type ResponseFilters,
+  type ResponseListItem,
+  type ResponsePage,
+} from "../../services/surveys";
+import { decodeResponseCursor } from "../../utils/cursor";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Shape a response for API output
+ */
+const serializeResponse = (response: ResponseListItem) => ({
+  id: response.id,
+  survey_id: response.survey_id,
+  subject_id: response.subject_id,
+  score: response.score,
+  comment: response.comment,
+  follow_up: response.follow_up ?? null,
+  responded_at: new Date(response.responded_at).toISOString(),
+});
+
+const buildListResponse = (page: ResponsePage, limit: number): Response =>
+  Response.json({
+    data: page.responses.map(serializeResponse),
+    pagination: {
+      limit,
+      has_more: page.next_cursor !== null,
+      next_cursor: page.next_cursor,
+    },
+  });
+
+const parseScore = (value: string | null): number | null | undefined => {
+  if (value === null) return undefined;
+  if (!/^\d+$/.test(value)) return null;
+  const score = Number.parseInt(value, 10);
+  return score <= 10 ? score : null;
+};
+
+const parseDate = (value: string | null): Date | null | undefined => {
+  if (value === null) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Validate list query parameters
+ * Returns an error message, or the filters to pass to the service
+ */
+const parseResponseFilters = (
+  url: URL,
+): { error: string } | { filters: ResponseFilters & { limit: number } } => {
+  const params = url.searchParams;
+  const filters: ResponseFilters & { limit: number } = {
+    limit: DEFAULT_LIMIT,
+  };
+
+  const limit = params.get("limit");
+  if (limit !== null) {
+    const parsed = Number.parseInt(limit, 10);
+    if (!/^\d+$/.test(limit) || parsed < 1 || parsed > MAX_LIMIT) {
+      return { error: `limit must be an integer between 1 and ${MAX_LIMIT}` };
+    }
+    filters.limit = parsed;
+  }
+
+  const cursor = params.get("cursor");
+  if (cursor !== null) {
+    if (!decodeResponseCursor(cursor)) {
+      return { error: "Invalid cursor" };
+    }
+    filters.cursor = cursor;
+  }
+
+  const minScore = parseScore(params.get("min_score"));
+  const maxScore = parseScore(params.get("max_score"));
+  if (minScore === null || maxScore === null) {
+    return {
+      error: "min_score and max_score must be integers between 0 and 10",
+    };
+  }
+  if (minScore !== undefined && maxScore !== undefined && minScore > maxScore) {
+    return { error: "min_score cannot be greater than max_score" };
+  }
+  filters.min_score = minScore;
+  filters.max_score = maxScore;
+
+  const subjectId = params.get("subject_id");
+  if (subjectId !== null) {
+    if (!/^[a-zA-Z0-9_-]+$/.test(subjectId)) {
+      return {
+        error:
+          "subject_id must contain only letters, numbers, underscores, and hyphens",
+      };
+    }
+    filters.subject_id = subjectId;
+  }
+
+  const hasComment = params.get("has_comment");
+  if (hasComment !== null) {
+    if (hasComment !== "true" && hasComment !== "false") {
+      return { error: "has_comment must be true or false" };
+    }
+    filters.has_comment = hasComment === "true";
+  }
+
+  const respondedAfter = parseDate(params.get("responded_after"));
+  const respondedBefore = parseDate(params.get("responded_before"));
+  if (respondedAfter === null || respondedBefore === null) {
+    return {
+      error: "responded_after and responded_before must be ISO 8601 dates",
+    };
+  }
+  filters.responded_after = respondedAfter;
+  filters.responded_before = respondedBefore;
+
+  return { filters };
+};
+
+export const responsesApi = {
+  /**
+   * List responses across all surveys for the authenticated business
+   */
+  async listResponses(req: Request): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const url = new URL(req.url);
+      const parsed = parseResponseFilters(url);
+      if ("error" in parsed) {
+        return Response.json({ error: parsed.error }, { status: 400 });
+      }
+
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const { filters } = parsed;
+
+      // Optional survey filter uses the public survey_id
+      const surveyId = url.searchParams.get("survey_id");
+      if (surveyId !== null) {
+        const survey = await findSurvey(auth.business.id, surveyId);
+        if (!survey) {
+          return Response.json({ error: "Survey not found" }, { status: 404 });
+        }
+        filters.survey_id = survey.id;
+      }
+
+      const page = await listResponses(auth.business.id, filters);
+
+      return buildListResponse(page, filters.limit);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Invalid cursor") {
+        return Response.json({ error: "Invalid cursor" }, { status: 400 });
+      }
+      console.error("Error listing responses:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+
+  /**
+   * List responses for a single survey
+   */
+  async listSurveyResponses<T extends `${string}:survey_id${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const parsed = parseResponseFilters(new URL(req.url));
+      if ("error" in parsed) {
+        return Response.json({ error: parsed.error }, { status: 400 });
+      }
+
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const survey = await findSurvey(auth.business.id, req.params.survey_id);
+      if (!survey) {
+        return Response.json({ error: "Survey not found" }, { status: 404 });
+      }
+
+      const { filters } = parsed;
+      const page = await listResponses(auth.business.id, {
+        ...filters,
+        survey_id: survey.id,
+      });
+
+      return buildListResponse(page, filters.limit);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Invalid cursor") {
+        return Response.json({ error: "Invalid cursor" }, { status: 400 });
+      }
+      console.error("Error listing survey responses:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+
+  /**
+   * Stream every response for a survey as CSV or NDJSON, oldest first
+   */
+  async exportSurveyResponses<T extends `${string}:survey_id${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const params = new URL(req.url).searchParams;
+
+      const format = (params.get("format") ?? "csv") as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        return Response.json(
+          { error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` },
+          { status: 400 },
+        );
+      }
+
+      const respondedAfter = parseDate(params.get("responded_after"));
+      const respondedBefore = parseDate(params.get("responded_before"));
+      if (respondedAfter === null || respondedBefore === null) {
+        return Response.json(
+          {
+            error:
+              "responded_after and responded_before must be ISO 8601 dates",
+          },
+          { status: 400 },
+        );
+      }
+
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const survey = await findSurvey(auth.business.id, req.params.survey_id);
+      if (!survey) {
+        return Response.json({ error: "Survey not found" }, { status: 404 });
+      }
+
+      const stream = streamResponseExport(
+        auth.business.id,
+        {
+          survey_id: survey.id,
+          responded_after: respondedAfter,
+          responded_before: respondedBefore,
+        },
+        format,
+      );
+
+      return new Response(stream, {
+        headers: {
+          "Content-Type": EXPORT_CONTENT_TYPES[format],
+          "Content-Disposition": `attachment; filename="${getExportFilename(survey.survey_id, format)}"`,
+        },
+      });
+    } catch (error) {
+      console.error("Error exporting survey responses:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+};
@@ -0,0 +1,149 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { SQL } from "bun";
+import { createBunRequest } from "../../test-utils/bun-request";
+import {
+  cleanupTestData,
+  createTestApiKey,
+  createTestBusiness,
+} from "../../test-utils/helpers";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("../../services/database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import { verifyErasureReceipt } from "../../services/subjects";
+import { createTestWebhook } from "../../test-utils/webhooks";
+import { subjectsApi } from "./subjects";
+
+describe("Subjects API", () => {
+  let businessId: string;
+  let token: string;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    businessId = await createTestBusiness(connection, "API Business");
+    token = await createTestApiKey(connection, businessId);
+
+    const [survey] = await connection`
+      INSERT INTO surveys (business_id, survey_id, title)
+      VALUES (${businessId}, 'onboarding', 'Onboarding')
+      RETURNING id
+    `;
+    for (let score = 0; score <= 10; score++) {
+      await connection`
+        INSERT INTO survey_links (token, survey_id, subject_id, score, expires_at)
+        VALUES (
+          ${crypto.randomUUID()}, ${survey.id}, 'customer-1', ${score},
+          ${new Date(Date.now() + 86400000)}
+        )
+      `;
+    }
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const apiRequest = (
+    path: string,
+    params: Record<string, string>,
+    init: RequestInit = {},
+  ) =>
+    createBunRequest(
+      `http://localhost:3000${path}`,
+      {
+        ...init,
+        headers: { Authorization: `Bearer ${token}` },
+      },
+      params,
+    );
+
+  describe("GET /api/v1/subjects/:subject_id/export", () => {
+    test("requires authentication", async () => {
+      const request = createBunRequest(
+        "http://localhost:3000/api/v1/subjects/customer-1/export",
+        {},
+        { subject_id: "customer-1" },
+      );
+      const response = await subjectsApi.exportSubject(request);
+
+      expect(response.status).toBe(401);
+    });
+
+    test("exports the subject's links and deliveries", async () => {
+      await createTestWebhook(businessId, {
+        surveyId: "onboarding",
+        subjectId: "customer-1",
+        status: "delivered",
+      });
+
+      const response = await subjectsApi.exportSubject(
+        apiRequest("/api/v1/subjects/customer-1/export", {
+          subject_id: "customer-1",
+        }),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.subject_id).toBe("customer-1");
+      expect(body.links).toHaveLength(11);
+      expect(body.responses).toEqual([]);
+      expect(body.webhook_deliveries).toHaveLength(1);
+    });
+
+    test("returns 404 for unknown surveys and 400 for bad subject ids", async () => {
+      const unknownSurvey = await subjectsApi.exportSubject(
+        apiRequest("/api/v1/subjects/customer-1/export?survey_id=missing", {
+          subject_id: "customer-1",
+        }),
+      );
+      const badSubject = await subjectsApi.exportSubject(
+        apiRequest("/api/v1/subjects/bad%20id/export", {
+          subject_id: "bad id",
+        }),
+      );
+
+      expect(unknownSurvey.status).toBe(404);
+      expect(badSubject.status).toBe(400);
+    });
+  });
+
+  describe("DELETE /api/v1/subjects/:subject_id", () => {
+    test("erases the subject and returns a signed receipt", async () => {
+      await createTestWebhook(businessId, {
+        surveyId: "onboarding",
+        subjectId: "customer-1",
+        status: "pending",
+      });
+
+      const response = await subjectsApi.eraseSubject(
+        apiRequest(
+          "/api/v1/subjects/customer-1?survey_id=onboarding",
+          { subject_id: "customer-1" },
+          { method: "DELETE" },
+        ),
+      );
+      const receipt = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(receipt.survey_id).toBe("onboarding");
+      expect(receipt.survey_links_deleted).toBe(11);
+      expect(receipt.webhook_deliveries_cancelled).toBe(1);
+      expect(verifyErasureReceipt(receipt)).toBe(true);
+
+      const [row] = await connection`
+        SELECT COUNT(*)::int AS count FROM survey_links
+        WHERE subject_id = 'customer-1'
+      `;
+      expect(row.count).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import type { BunRequest } from "bun";
+import { getApiAuthContext, requireApiAuth } from "../../middleware/api-auth";
+import { eraseSubjectData, exportSubjectData } from "../../services/subjects";
+
+const SUBJECT_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export const subjectsApi = {
+  /**
+   * Export everything held about a subject, optionally for one survey
+   */
+  async exportSubject<T extends `${string}:subject_id${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const subjectId = req.params.subject_id;
+      if (!SUBJECT_ID_PATTERN.test(subjectId)) {
+        return Response.json(
+          {
+            error: "subject_id must be alphanumeric with dashes or underscores",
+          },
+          { status: 400 },
+        );
+      }
+
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const surveyId = new URL(req.url).searchParams.get("survey_id");
+      const data = await exportSubjectData(
+        auth.business.id,
+        subjectId,
+        surveyId,
+      );
+
+      return Response.json(data);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Survey not found") {
+        return Response.json({ error: error.message }, { status: 404 });
+      }
+      console.error("Error exporting subject data:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+
+  /**
+   * Erase everything held about a subject, optionally for one survey
+   * Responds with a signed erasure receipt.
+   */
+  async eraseSubject<T extends `${string}:subject_id${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const subjectId = req.params.subject_id;
+      if (!SUBJECT_ID_PATTERN.test(subjectId)) {
+        return Response.json(
+          {
+            error: "subject_id must be alphanumeric with dashes or underscores",
+          },
+          { status: 400 },
+        );
+      }
+
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const surveyId = new URL(req.url).searchParams.get("survey_id");
+      const receipt = await eraseSubjectData(
+        auth.business.id,
+        subjectId,
+        surveyId,
+      );
+
+      return Response.json(receipt);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Survey not found") {
+        return Response.json({ error: error.message }, { status: 404 });
+      }
+      console.error("Error erasing subject data:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+};
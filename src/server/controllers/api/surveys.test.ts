@@ -0,0 +1,1120 @@
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  test,
+} from "bun:test";
+import { SQL } from "bun";
+import type { MintLinksRequest, Survey } from "../../services/surveys";
+import { createBunRequest } from "../../test-utils/bun-request";
+import {
+  cleanupTestData,
+  createTestApiKey,
+  createTestBusiness,
+} from "../../test-utils/helpers";
+import type { Locale } from "../../utils/i18n";
+import { getScaleScores } from "../../utils/survey-types";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("../../services/database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+const buildSurvey = (overrides: Partial<Survey> = {}): Survey => ({
+  id: "survey-uuid",
+  business_id: "business-uuid",
+  survey_id: "onboarding",
+  title: "Onboarding Survey",
+  description: null,
+  ttl_days: 30,
+  redirect_url: null,
+  redirect_timing: null,
+  type: "nps",
+  branding: null,
+  translations: null,
+  follow_up: null,
+  created_at: new Date("2025-01-15T10:30:00Z"),
+  ...overrides,
+});
+
+// Mock the survey service
+const mockListSurveys = mock(() => [buildSurvey()]);
+const mockFindSurvey = mock((_businessId: string, surveyId: string) =>
+  surveyId === "onboarding" ? buildSurvey() : null,
+);
+const mockCreateSurvey = mock(
+  (
+    _businessId: string,
+    surveyId: string,
+    options: Partial<Survey> & { title: string },
+  ) =>
+    buildSurvey({
+      survey_id: surveyId,
+      title: options.title,
+      description: options.description ?? null,
+      type: options.type ?? "nps",
+      ttl_days: options.ttl_days ?? 30,
+      redirect_url: options.redirect_url ?? null,
+      redirect_timing: options.redirect_timing ?? null,
+      branding: options.branding ?? null,
+      translations: options.translations ?? null,
+      follow_up: options.follow_up ?? null,
+    }),
+);
+const mockUpdateSurvey = mock((survey: Survey, updates: Partial<Survey>) => ({
+  ...survey,
+  ...updates,
+}));
+const mockDeleteSurvey = mock(
+  (_businessId: string, surveyId: string) => surveyId === "onboarding",
+);
+// Subjects named existing-* already have links, minted in German
+const mockMintSurveyLinks = mock(
+  (survey: Survey, request: MintLinksRequest) => {
+    const existing = request.subject_id.startsWith("existing");
+    return {
+      links: Object.fromEntries(
+        getScaleScores(survey.type).map((score) => [
+          score.toString(),
+          `http://localhost:3000/r/${request.subject_id}-${score}`,
+        ]),
+      ),
+      expires_at: "2025-02-14T10:30:00.000Z",
+      response: null,
+      created: !existing,
+      lang: existing ? "de" : (request.lang ?? null),
+    };
+  },
+);
+const mockMintSurveyLinksBatch = mock(
+  (_survey: Survey, subjectIds: string[], _ttlDays?: number, lang?: Locale) =>
+    [...new Set(subjectIds)].map((subjectId) => ({
+      subject_id: subjectId,
+      links: { "0": `http://localhost:3000/r/${subjectId}-0` },
+      expires_at: "2025-02-14T10:30:00.000Z",
+      response: null,
+      created: !subjectId.startsWith("existing"),
+      lang: subjectId.startsWith("existing") ? "de" : (lang ?? null),
+    })),
+);
+
+mock.module("../../services/surveys", () => ({
+  listSurveys: mockListSurveys,
+  findSurvey: mockFindSurvey,
+  createSurvey: mockCreateSurvey,
+  updateSurvey: mockUpdateSurvey,
+  deleteSurvey: mockDeleteSurvey,
+  mintSurveyLinks: mockMintSurveyLinks,
+  mintSurveyLinksBatch: mockMintSurveyLinksBatch,
+}));
+
+import { createWebhookEndpoint } from "../../services/webhooks";
+import { surveysApi } from "./surveys";
+
+describe("Surveys API", () => {
+  let businessId: string;
+  let token: string;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    businessId = await createTestBusiness(connection, "API Business");
+    token = await createTestApiKey(connection, businessId);
+  });
+
+  afterEach(() => {
+    mockListSurveys.mockClear();
+    mockFindSurvey.mockClear();
+    mockCreateSurvey.mockClear();
+    mockUpdateSurvey.mockClear();
+    mockDeleteSurvey.mockClear();
+    mockMintSurveyLinks.mockClear();
+    mockMintSurveyLinksBatch.mockClear();
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const apiRequest = (
+    path: string,
+    method = "GET",
+    body?: unknown,
+    params: Record<string, string> = {},
+  ) =>
+    createBunRequest(
+      `http://localhost:3000${path}`,
+      {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      params,
+    );
+
+  describe("GET /api/v1/surveys", () => {
+    test("requires authentication", async () => {
+      const request = createBunRequest("http://localhost:3000/api/v1/surveys");
+      const response = await surveysApi.listSurveys(request);
+
+      expect(response.status).toBe(401);
+      expect(mockListSurveys).not.toHaveBeenCalled();
+    });
+
+    test("lists surveys for the authenticated business", async () => {
+      const response = await surveysApi.listSurveys(
+        apiRequest("/api/v1/surveys"),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockListSurveys).toHaveBeenCalledWith(businessId);
+      expect(data.data).toEqual([
+        {
+          survey_id: "onboarding",
+          title: "Onboarding Survey",
+          description: null,
+          type: "nps",
+          ttl_days: 30,
+          redirect_url: null,
+          redirect_timing: null,
+          branding: null,
+          translations: null,
+          follow_up: null,
+          created_at: "2025-01-15T10:30:00.000Z",
+        },
+      ]);
+    });
+  });
+
+  describe("POST /api/v1/surveys", () => {
+    test("creates a survey", async () => {
+      const response = await surveysApi.createSurvey(
+        apiRequest("/api/v1/surveys", "POST", {
+          survey_id: "checkout",
+          title: "Checkout Survey",
+          description: "After purchase",
+          ttl_days: 14,
+          redirect_url: "https://example.com/thanks",
+          redirect_timing: "post_comment",
+        }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(mockCreateSurvey).toHaveBeenCalledWith(businessId, "checkout", {
+        title: "Checkout Survey",
+        description: "After purchase",
+        type: "nps",
+        ttl_days: 14,
+        redirect_url: "https://example.com/thanks",
+        redirect_timing: "post_comment",
+      });
+      expect(data.survey_id).toBe("checkout");
+      expect(data.redirect_timing).toBe("post_comment");
+    });
+
+    test("creates a survey with branding", async () => {
+      const response = await surveysApi.createSurvey(
+        apiRequest("/api/v1/surveys", "POST", {
+          survey_id: "branded",
+          title: "Branded Survey",
+          branding: {
+            brand_color: "#1E40AF",
+            comment_prompt: "Anything else?",
+          },
+        }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(mockCreateSurvey).toHaveBeenCalledWith(
+        businessId,
+        "branded",
+        expect.objectContaining({
+          branding: {
+            brand_color: "#1e40af",
+            comment_prompt: "Anything else?",
+          },
+        }),
+      );
+      expect(data.branding).toEqual({
+        brand_color: "#1e40af",
+        comment_prompt: "Anything else?",
+      });
+    });
+
+    test("rejects invalid branding", async () => {
+      const response = await surveysApi.createSurvey(
+        apiRequest("/api/v1/surveys", "POST", {
+          survey_id: "branded",
+          title: "Branded Survey",
+          branding: { logo_url: "http://example.com/logo.png" },
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("logo_url must use https");
+      expect(mockCreateSurvey).not.toHaveBeenCalled();
+    });
+
+    test("creates a survey of another type", async () => {
+      const response = await surveysApi.createSurvey(
+        apiRequest("/api/v1/surveys", "POST", {
+          survey_id: "support",
+          title: "Support CSAT",
+          type: "csat",
+        }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(mockCreateSurvey).toHaveBeenCalledWith(
+        businessId,
+        "support",
+        expect.objectContaining({ type: "csat" }),
+      );
+      expect(data.type).toBe("csat");
+    });
+
+    test("rejects unknown survey types", async () => {
+      const response = await surveysApi.createSurvey(
+        apiRequest("/api/v1/surveys", "POST", {
+          survey_id: "stars",
+          title: "Star Rating",
+          type: "stars",
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe(
+        "type must be one of: nps, csat, ces, binary",
+      );
+      expect(mockCreateSurvey).not.toHaveBeenCalled();
+    });
+
+    test("rejects missing survey_id", async () => {
+      const response = await surveysApi.createSurvey(
+        apiRequest("/api/v1/surveys", "POST", { title: "No ID" }),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("survey_id");
+      expect(mockCreateSurvey).not.toHaveBeenCalled();
+    });
+
+    test("rejects uppercase survey_id", async () => {
+      const response = await surveysApi.createSurvey(
+        apiRequest("/api/v1/surveys", "POST", {
+          survey_id: "Upper",
+          title: "Upper",
+        }),
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    test("rejects short titles", async () => {
+      const response = await surveysApi.createSurvey(
+        apiRequest("/api/v1/surveys", "POST", {
+          survey_id: "short",
+          title: "x",
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("title");
+    });
+
+    test("rejects invalid redirect_url", async () => {
+      const response = await surveysApi.createSurvey(
+        apiRequest("/api/v1/surveys", "POST", {
+          survey_id: "redirect",
+          title: "Redirect",
+          redirect_url: "not-a-url",
+          redirect_timing: "post_comment",
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("redirect_url");
+    });
+
+    test("rejects redirect_timing without redirect_url", async () => {
+      const response = await surveysApi.createSurvey(
+        apiRequest("/api/v1/surveys", "POST", {
+          survey_id: "redirect",
+          title: "Redirect",
+          redirect_timing: "pre_comment",
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("redirect_url");
+    });
+
+    test("returns 409 when the survey already exists", async () => {
+      const response = await surveysApi.createSurvey(
+        apiRequest("/api/v1/surveys", "POST", {
+          survey_id: "onboarding",
+          title: "Duplicate",
+        }),
+      );
+
+      expect(response.status).toBe(409);
+      expect(mockCreateSurvey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /api/v1/surveys/:survey_id", () => {
+    test("returns the survey", async () => {
+      const response = await surveysApi.getSurvey(
+        apiRequest("/api/v1/surveys/onboarding", "GET", undefined, {
+          survey_id: "onboarding",
+        }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockFindSurvey).toHaveBeenCalledWith(businessId, "onboarding");
+      expect(data.survey_id).toBe("onboarding");
+      expect(data.id).toBeUndefined();
+    });
+
+    test("returns 404 for unknown surveys", async () => {
+      const response = await surveysApi.getSurvey(
+        apiRequest("/api/v1/surveys/missing", "GET", undefined, {
+          survey_id: "missing",
+        }),
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("PATCH /api/v1/surveys/:survey_id", () => {
+    test("updates the provided fields", async () => {
+      const response = await surveysApi.updateSurvey(
+        apiRequest(
+          "/api/v1/surveys/onboarding",
+          "PATCH",
+          { title: "Renamed", ttl_days: 60 },
+          { survey_id: "onboarding" },
+        ),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockUpdateSurvey).toHaveBeenCalledWith(buildSurvey(), {
+        title: "Renamed",
+        ttl_days: 60,
+      });
+      expect(data.title).toBe("Renamed");
+      expect(data.ttl_days).toBe(60);
+    });
+
+    test("clears branding with null", async () => {
+      const response = await surveysApi.updateSurvey(
+        apiRequest(
+          "/api/v1/surveys/onboarding",
+          "PATCH",
+          { branding: null },
+          { survey_id: "onboarding" },
+        ),
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockUpdateSurvey).toHaveBeenCalledWith(buildSurvey(), {
+        branding: null,
+      });
+      expect((await response.json()).branding).toBeNull();
+    });
+
+    test("updates translations", async () => {
+      const response = await surveysApi.updateSurvey(
+        apiRequest(
+          "/api/v1/surveys/onboarding",
+          "PATCH",
+          { translations: { de: { promoter_headline: "Danke!" } } },
+          { survey_id: "onboarding" },
+        ),
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockUpdateSurvey).toHaveBeenCalledWith(buildSurvey(), {
+        translations: { de: { promoter_headline: "Danke!" } },
+      });
+      expect((await response.json()).translations).toEqual({
+        de: { promoter_headline: "Danke!" },
+      });
+    });
+
+    test("rejects translations for unsupported locales", async () => {
+      const response = await surveysApi.updateSurvey(
+        apiRequest(
+          "/api/v1/surveys/onboarding",
+          "PATCH",
+          { translations: { fr: { promoter_headline: "Merci !" } } },
+          { survey_id: "onboarding" },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("Unsupported locale: fr");
+      expect(mockUpdateSurvey).not.toHaveBeenCalled();
+    });
+
+    test("sets a follow-up question", async () => {
+      const response = await surveysApi.updateSurvey(
+        apiRequest(
+          "/api/v1/surveys/onboarding",
+          "PATCH",
+          {
+            follow_up: {
+              question: "What mattered most?",
+              options: { detractor: ["Price", "Bugs"] },
+            },
+          },
+          { survey_id: "onboarding" },
+        ),
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockUpdateSurvey).toHaveBeenCalledWith(buildSurvey(), {
+        follow_up: {
+          question: "What mattered most?",
+          options: { promoter: [], passive: [], detractor: ["Price", "Bugs"] },
+        },
+      });
+    });
+
+    test("rejects a follow-up question without options", async () => {
+      const response = await surveysApi.updateSurvey(
+        apiRequest(
+          "/api/v1/surveys/onboarding",
+          "PATCH",
+          { follow_up: { question: "What mattered most?", options: {} } },
+          { survey_id: "onboarding" },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe(
+        "follow_up needs options for at least one category",
+      );
+      expect(mockUpdateSurvey).not.toHaveBeenCalled();
+    });
+
+    test("rejects changing survey_id", async () => {
+      const response = await surveysApi.updateSurvey(
+        apiRequest(
+          "/api/v1/surveys/onboarding",
+          "PATCH",
+          { survey_id: "renamed" },
+          { survey_id: "onboarding" },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockUpdateSurvey).not.toHaveBeenCalled();
+    });
+
+    test("rejects changing type", async () => {
+      const response = await surveysApi.updateSurvey(
+        apiRequest(
+          "/api/v1/surveys/onboarding",
+          "PATCH",
+          { type: "csat" },
+          { survey_id: "onboarding" },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("type cannot be changed");
+      expect(mockUpdateSurvey).not.toHaveBeenCalled();
+    });
+
+    test("rejects invalid ttl_days", async () => {
+      const response = await surveysApi.updateSurvey(
+        apiRequest(
+          "/api/v1/surveys/onboarding",
+          "PATCH",
+          { ttl_days: 0 },
+          { survey_id: "onboarding" },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    test("rejects setting redirect_timing without a redirect_url", async () => {
+      const response = await surveysApi.updateSurvey(
+        apiRequest(
+          "/api/v1/surveys/onboarding",
+          "PATCH",
+          { redirect_timing: "post_comment" },
+          { survey_id: "onboarding" },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockUpdateSurvey).not.toHaveBeenCalled();
+    });
+
+    test("returns 404 for unknown surveys", async () => {
+      const response = await surveysApi.updateSurvey(
+        apiRequest(
+          "/api/v1/surveys/missing",
+          "PATCH",
+          { title: "Nope" },
+          { survey_id: "missing" },
+        ),
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /api/v1/surveys/:survey_id", () => {
+    test("deletes the survey", async () => {
+      const response = await surveysApi.deleteSurvey(
+        apiRequest("/api/v1/surveys/onboarding", "DELETE", undefined, {
+          survey_id: "onboarding",
+        }),
+      );
+
+      expect(response.status).toBe(204);
+      expect(mockDeleteSurvey).toHaveBeenCalledWith(businessId, "onboarding");
+    });
+
+    test("returns 404 for unknown surveys", async () => {
+      const response = await surveysApi.deleteSurvey(
+        apiRequest("/api/v1/surveys/missing", "DELETE", undefined, {
+          survey_id: "missing",
+        }),
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("POST /api/v1/links/mint", () => {
+    test("requires authentication", async () => {
+      const request = createBunRequest(
+        "http://localhost:3000/api/v1/links/mint",
+        {
+          method: "POST",
+          body: JSON.stringify({}),
+        },
+      );
+      const response = await surveysApi.mintLinks(request);
+
+      expect(response.status).toBe(401);
+    });
+
+    test("mints links in the requested language", async () => {
+      const response = await surveysApi.mintLinks(
+        apiRequest("/api/v1/links/mint", "POST", {
+          survey_id: "onboarding",
+          subject_id: "user-1",
+          ttl_days: 14,
+          lang: "pt",
+        }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(mockMintSurveyLinks).toHaveBeenCalledWith(buildSurvey(), {
+        subject_id: "user-1",
+        ttl_days: 14,
+        redirect_url: undefined,
+        lang: "pt-BR",
+      });
+      expect(data).toEqual({
+        links: expect.any(Object),
+        expires_at: "2025-02-14T10:30:00.000Z",
+        response: null,
+        created: true,
+      });
+      expect(Object.keys(data.links)).toHaveLength(11);
+    });
+
+    test("adds an email snippet when asked", async () => {
+      const response = await surveysApi.mintLinks(
+        apiRequest("/api/v1/links/mint", "POST", {
+          survey_id: "onboarding",
+          subject_id: "user-1",
+          include_html: true,
+          html_style: "color_scale",
+        }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.html).toContain('href="http://localhost:3000/r/user-1-0"');
+      expect(data.html).toContain("background-color:#dc2626");
+      expect(data.text).toContain(
+        "0 (Not likely): http://localhost:3000/r/user-1-0",
+      );
+    });
+
+    test("writes the email snippet in the requested language", async () => {
+      const response = await surveysApi.mintLinks(
+        apiRequest("/api/v1/links/mint", "POST", {
+          survey_id: "onboarding",
+          subject_id: "user-1",
+          lang: "de",
+          include_html: true,
+        }),
+      );
+      const data = await response.json();
+
+      expect(data.text).toContain(
+        "0 (Unwahrscheinlich): http://localhost:3000/r/user-1-0",
+      );
+      expect(data.html).not.toContain("Not likely");
+    });
+
+    test("writes the snippet for existing links in their own language", async () => {
+      const response = await surveysApi.mintLinks(
+        apiRequest("/api/v1/links/mint", "POST", {
+          survey_id: "onboarding",
+          subject_id: "existing-1",
+          lang: "pt",
+          include_html: true,
+        }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.created).toBe(false);
+      expect(data.text).toContain(
+        "0 (Unwahrscheinlich): http://localhost:3000/r/existing-1-0",
+      );
+    });
+
+    test("leaves the snippet out unless include_html is set", async () => {
+      const response = await surveysApi.mintLinks(
+        apiRequest("/api/v1/links/mint", "POST", {
+          survey_id: "onboarding",
+          subject_id: "user-1",
+          html_style: "compact",
+        }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.html).toBeUndefined();
+      expect(data.text).toBeUndefined();
+    });
+
+    test.each([
+      [
+        "csat",
+        ["1", "2", "3", "4", "5"],
+        [
+          "1 (Very dissatisfied): http://localhost:3000/r/user-1-1",
+          "5 (Very satisfied): http://localhost:3000/r/user-1-5",
+        ],
+      ],
+      [
+        "ces",
+        ["1", "2", "3", "4", "5", "6", "7"],
+        [
+          "1 (Very difficult): http://localhost:3000/r/user-1-1",
+          "7 (Very easy): http://localhost:3000/r/user-1-7",
+        ],
+      ],
+      [
+        "binary",
+        ["0", "1"],
+        [
+          "👍 Yes: http://localhost:3000/r/user-1-1",
+          "👎 No: http://localhost:3000/r/user-1-0",
+        ],
+      ],
+    ] as const)(
+      "follows the %s scale and labels",
+      async (type, scores, lines) => {
+        mockFindSurvey.mockImplementationOnce(() => buildSurvey({ type }));
+
+        const response = await surveysApi.mintLinks(
+          apiRequest("/api/v1/links/mint", "POST", {
+            survey_id: "onboarding",
+            subject_id: "user-1",
+            include_html: true,
+          }),
+        );
+        const data = await response.json();
+
+        expect(response.status).toBe(201);
+        expect(Object.keys(data.links)).toEqual([...scores]);
+        expect(data.html.match(/<a href=/g)).toHaveLength(scores.length);
+        for (const line of lines) {
+          expect(data.text).toContain(line);
+        }
+      },
+    );
+
+    test("rejects invalid include_html and lang", async () => {
+      for (const body of [
+        { include_html: "yes" },
+        { include_html: true, html_style: "stars" },
+        { lang: "fr" },
+      ]) {
+        const response = await surveysApi.mintLinks(
+          apiRequest("/api/v1/links/mint", "POST", {
+            survey_id: "onboarding",
+            subject_id: "user-1",
+            ...body,
+          }),
+        );
+
+        expect(response.status).toBe(400);
+      }
+      expect(mockMintSurveyLinks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/v1/links/mint/batch", () => {
+    test("requires authentication", async () => {
+      const request = createBunRequest(
+        "http://localhost:3000/api/v1/links/mint/batch",
+        { method: "POST", body: JSON.stringify({}) },
+      );
+      const response = await surveysApi.mintLinksBatch(request);
+
+      expect(response.status).toBe(401);
+    });
+
+    test("mints links and reports per-item errors in request order", async () => {
+      const response = await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+          subject_ids: ["user-1", "bad id", "user-2", 42],
+          ttl_days: 14,
+        }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(mockMintSurveyLinksBatch).toHaveBeenCalledWith(
+        buildSurvey(),
+        ["user-1", "user-2"],
+        14,
+        undefined,
+      );
+      expect(data.succeeded).toBe(2);
+      expect(data.failed).toBe(2);
+      expect(
+        data.results.map((r: { subject_id: unknown }) => r.subject_id),
+      ).toEqual(["user-1", "bad id", "user-2", 42]);
+      expect(data.results[0].links["0"]).toBe(
+        "http://localhost:3000/r/user-1-0",
+      );
+      expect(data.results[1].error).toContain("subject_id");
+      expect(data.results[3].error).toContain("subject_id");
+    });
+
+    test("mints every subject's links in the requested language", async () => {
+      const response = await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+          subject_ids: ["user-1"],
+          lang: "pt",
+        }),
+      );
+
+      expect(response.status).toBe(201);
+      expect(mockMintSurveyLinksBatch).toHaveBeenCalledWith(
+        buildSurvey(),
+        ["user-1"],
+        undefined,
+        "pt-BR",
+      );
+    });
+
+    test("adds an email snippet to each result when asked", async () => {
+      const response = await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+          subject_ids: ["user-1", "bad id"],
+          include_html: true,
+          html_style: "color_scale",
+        }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.results[0].html).toContain(
+        'href="http://localhost:3000/r/user-1-0"',
+      );
+      expect(data.results[0].html).toContain("background-color:#dc2626");
+      expect(data.results[0].text).toContain(
+        "0 (Not likely): http://localhost:3000/r/user-1-0",
+      );
+      expect(data.results[1].html).toBeUndefined();
+    });
+
+    test("writes the email snippet in the requested language", async () => {
+      const response = await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+          subject_ids: ["user-1"],
+          lang: "de",
+          include_html: true,
+        }),
+      );
+      const data = await response.json();
+
+      expect(data.results[0].text).toContain(
+        "0 (Unwahrscheinlich): http://localhost:3000/r/user-1-0",
+      );
+      expect(data.results[0].html).not.toContain("Not likely");
+    });
+
+    test("writes the snippet for existing links in their own language", async () => {
+      const response = await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+          subject_ids: ["existing-1", "user-1"],
+          include_html: true,
+        }),
+      );
+      const data = await response.json();
+
+      expect(data.results[0].text).toContain("0 (Unwahrscheinlich)");
+      expect(data.results[0].lang).toBeUndefined();
+      expect(data.results[1].text).toContain("0 (Not likely)");
+    });
+
+    test("leaves the snippet out unless include_html is set", async () => {
+      const response = await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+          subject_ids: ["user-1"],
+          html_style: "compact",
+        }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.results[0].html).toBeUndefined();
+      expect(data.results[0].text).toBeUndefined();
+    });
+
+    test("rejects unknown snippet styles", async () => {
+      const response = await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+          subject_ids: ["user-1"],
+          include_html: true,
+          html_style: "stars",
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe(
+        "html_style must be one of: buttons, color_scale, compact",
+      );
+      expect(mockMintSurveyLinksBatch).not.toHaveBeenCalled();
+    });
+
+    test("rejects unsupported languages", async () => {
+      const response = await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+          subject_ids: ["user-1"],
+          lang: "fr",
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe(
+        "lang must be one of: en, de, pt-BR",
+      );
+      expect(mockMintSurveyLinksBatch).not.toHaveBeenCalled();
+    });
+
+    test("rejects missing subject_ids", async () => {
+      const response = await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockMintSurveyLinksBatch).not.toHaveBeenCalled();
+    });
+
+    test("rejects empty and oversized batches", async () => {
+      for (const subjectIds of [
+        [],
+        Array.from({ length: 5001 }, (_, index) => `user-${index}`),
+      ]) {
+        const response = await surveysApi.mintLinksBatch(
+          apiRequest("/api/v1/links/mint/batch", "POST", {
+            survey_id: "onboarding",
+            subject_ids: subjectIds,
+          }),
+        );
+
+        expect(response.status).toBe(400);
+      }
+      expect(mockMintSurveyLinksBatch).not.toHaveBeenCalled();
+    });
+
+    test("rejects invalid ttl_days", async () => {
+      const response = await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+          subject_ids: ["user-1"],
+          ttl_days: 400,
+        }),
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    test("returns 404 for unknown surveys", async () => {
+      const response = await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "missing",
+          subject_ids: ["user-1"],
+        }),
+      );
+
+      expect(response.status).toBe(404);
+      expect(mockMintSurveyLinksBatch).not.toHaveBeenCalled();
+    });
+  });
+  describe("webhook events", () => {
+    const queuedEvents = async () =>
+      connection`
+        SELECT event_type, survey_id, payload
+        FROM webhook_queue
+        WHERE business_id = ${businessId}
+        ORDER BY created_at ASC
+      `;
+
+    beforeEach(async () => {
+      await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+      });
+    });
+
+    test("queues survey.created when a survey is created", async () => {
+      await surveysApi.createSurvey(
+        apiRequest("/api/v1/surveys", "POST", {
+          survey_id: "checkout",
+          title: "Checkout Survey",
+        }),
+      );
+
+      const events = await queuedEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0].event_type).toBe("survey.created");
+      expect(events[0].payload).toEqual({
+        survey_id: "checkout",
+        title: "Checkout Survey",
+      });
+    });
+
+    test("queues survey.deleted only when the survey exists", async () => {
+      await surveysApi.deleteSurvey(
+        apiRequest("/api/v1/surveys/missing", "DELETE", undefined, {
+          survey_id: "missing",
+        }),
+      );
+      expect(await queuedEvents()).toHaveLength(0);
+
+      await surveysApi.deleteSurvey(
+        apiRequest("/api/v1/surveys/onboarding", "DELETE", undefined, {
+          survey_id: "onboarding",
+        }),
+      );
+
+      const events = await queuedEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0].event_type).toBe("survey.deleted");
+      expect(events[0].survey_id).toBe("onboarding");
+    });
+
+    test("queues links.minted only when a single mint creates links", async () => {
+      await surveysApi.mintLinks(
+        apiRequest("/api/v1/links/mint", "POST", {
+          survey_id: "onboarding",
+          subject_id: "existing-1",
+        }),
+      );
+      expect(await queuedEvents()).toHaveLength(0);
+
+      await surveysApi.mintLinks(
+        apiRequest("/api/v1/links/mint", "POST", {
+          survey_id: "onboarding",
+          subject_id: "user-1",
+        }),
+      );
+
+      const events = await queuedEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0].event_type).toBe("links.minted");
+      expect(events[0].payload).toEqual({
+        survey_id: "onboarding",
+        subject_ids: ["user-1"],
+        expires_at: "2025-02-14T10:30:00.000Z",
+      });
+    });
+
+    test("queues one links.minted event per batch", async () => {
+      await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+          subject_ids: ["user-1", "bad id", "user-2"],
+        }),
+      );
+
+      const events = await queuedEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0].event_type).toBe("links.minted");
+      expect(events[0].payload).toEqual({
+        survey_id: "onboarding",
+        subject_ids: ["user-1", "user-2"],
+        expires_at: "2025-02-14T10:30:00.000Z",
+      });
+    });
+
+    test("only announces subjects whose links were just minted", async () => {
+      await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+          subject_ids: ["existing-1"],
+        }),
+      );
+      expect(await queuedEvents()).toHaveLength(0);
+
+      await surveysApi.mintLinksBatch(
+        apiRequest("/api/v1/links/mint/batch", "POST", {
+          survey_id: "onboarding",
+          subject_ids: ["existing-1", "user-3"],
+        }),
+      );
+
+      const events = await queuedEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0].payload.subject_ids).toEqual(["user-3"]);
+    });
+  });
+});
@@ -1,9 +1,227 @@
+import type { BunRequest } from "bun";
 import { getApiAuthContext, requireApiAuth } from "../../middleware/api-auth";
 import {
+  createSurvey,
+  deleteSurvey,
   findSurvey,
+  listSurveys,
   type MintLinksRequest,
+  type MintLinksResponse,
   mintSurveyLinks,
+  mintSurveyLinksBatch,
+  type Survey,
+  type UpdateSurveyOptions,
+  updateSurvey,
 } from "../../services/surveys";
+import { queueWebhookEvent } from "../../services/webhooks";
+import { parseSurveyBranding } from "../../utils/branding";
+import {
+  buildEmailSnippet,
+  DEFAULT_EMAIL_SNIPPET_STYLE,
+  EMAIL_SNIPPET_STYLES,
+  type EmailSnippet,
+  type EmailSnippetStyle,
+  isEmailSnippetStyle,
+} from "../../utils/email-snippet";
+import { parseFollowUpConfig } from "../../utils/follow-up";
+import {
+  type Locale,
+  matchLocale,
+  parseSurveyTranslations,
+  SUPPORTED_LOCALES,
+} from "../../utils/i18n";
+import {
+  DEFAULT_SURVEY_TYPE,
+  isSurveyType,
+  SURVEY_TYPES,
+} from "../../utils/survey-types";
+
+const MAX_MINT_BATCH_SIZE = 5000;
+
+const SUBJECT_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Shape a survey for API output (internal ids are not exposed)
+ */
+const serializeSurvey = (survey: Survey) => ({
+  survey_id: survey.survey_id,
+  title: survey.title,
+  description: survey.description,
+  type: survey.type,
+  ttl_days: survey.ttl_days,
+  redirect_url: survey.redirect_url,
+  redirect_timing: survey.redirect_timing,
+  branding: survey.branding,
+  translations: survey.translations,
+  follow_up: survey.follow_up,
+  created_at: new Date(survey.created_at).toISOString(),
+});
+
+/**
+ * Validate an optional mint-time lang, mapping tags like "de-AT" to a supported locale
+ */
+const parseLinkLang = (
+  lang: unknown,
+): { error: string } | { lang: Locale | undefined } => {
+  if (lang === undefined || lang === null) {
+    return { lang: undefined };
+  }
+  const locale = typeof lang === "string" ? matchLocale(lang) : null;
+  if (!locale) {
+    return { error: `lang must be one of: ${SUPPORTED_LOCALES.join(", ")}` };
+  }
+  return { lang: locale };
+};
+
+/**
+ * Validate the optional email snippet flags
+ * The style is null unless include_html is true.
+ */
+const parseSnippetStyle = (
+  includeHtml: unknown,
+  htmlStyle: unknown,
+): { error: string } | { style: EmailSnippetStyle | null } => {
+  if (includeHtml !== undefined && typeof includeHtml !== "boolean") {
+    return { error: "include_html must be a boolean" };
+  }
+  if (htmlStyle !== undefined && !isEmailSnippetStyle(htmlStyle)) {
+    return {
+      error: `html_style must be one of: ${EMAIL_SNIPPET_STYLES.join(", ")}`,
+    };
+  }
+  return {
+    style: includeHtml ? (htmlStyle ?? DEFAULT_EMAIL_SNIPPET_STYLE) : null,
+  };
+};
+
+/**
+ * Shape a mint result for output, adding the email snippet when one was
+ * asked for
+ * The snippet copy uses the lang the links were minted with, which for
+ * existing links may not be this request's, falling back to English.
+ */
+const withSnippet = <T extends MintLinksResponse>(
+  { lang, ...result }: T,
+  survey: Survey,
+  style: EmailSnippetStyle | null,
+): Omit<T, "lang"> | (Omit<T, "lang"> & EmailSnippet) =>
+  style
+    ? {
+        ...result,
+        ...buildEmailSnippet(
+          survey.type,
+          result.links,
+          style,
+          lang ?? undefined,
+        ),
+      }
+    : result;
+
+/**
+ * Validate the editable survey fields from a JSON body
+ * Returns an error message, or the cleaned fields that were provided
+ */
+const parseUpdateSurveyOptions = (
+  body: Record<string, unknown>,
+  requireTitle: boolean,
+): { error: string } | { fields: UpdateSurveyOptions } => {
+  const fields: UpdateSurveyOptions = {};
+  const {
+    title,
+    description,
+    ttl_days,
+    redirect_url,
+    redirect_timing,
+    branding,
+    translations,
+    follow_up,
+  } = body;
+
+  if (title !== undefined || requireTitle) {
+    if (typeof title !== "string" || !title.trim()) {
+      return { error: "title is required" };
+    }
+    if (title.trim().length < 2 || title.trim().length > 100) {
+      return { error: "title must be between 2 and 100 characters" };
+    }
+    fields.title = title.trim();
+  }
+
+  if (description !== undefined) {
+    if (description !== null && typeof description !== "string") {
+      return { error: "description must be a string" };
+    }
+    if (description && description.length > 500) {
+      return { error: "description must be less than 500 characters" };
+    }
+    fields.description = description?.trim() || null;
+  }
+
+  if (ttl_days !== undefined) {
+    if (
+      typeof ttl_days !== "number" ||
+      !Number.isInteger(ttl_days) ||
+      ttl_days < 1 ||
+      ttl_days > 365
+    ) {
+      return { error: "ttl_days must be an integer between 1 and 365" };
+    }
+    fields.ttl_days = ttl_days;
+  }
+
+  if (redirect_timing !== undefined) {
+    if (
+      redirect_timing !== null &&
+      redirect_timing !== "pre_comment" &&
+      redirect_timing !== "post_comment"
+    ) {
+      return {
+        error: "redirect_timing must be one of: pre_comment, post_comment",
+      };
+    }
+    fields.redirect_timing = redirect_timing;
+  }
+
+  if (redirect_url !== undefined) {
+    if (redirect_url !== null) {
+      if (typeof redirect_url !== "string") {
+        return { error: "redirect_url must be a string" };
+      }
+      try {
+        new URL(redirect_url);
+      } catch {
+        return { error: "Invalid redirect_url format" };
+      }
+    }
+    fields.redirect_url = redirect_url;
+  }
+
+  if (branding !== undefined) {
+    const parsedBranding = parseSurveyBranding(branding);
+    if ("error" in parsedBranding) {
+      return parsedBranding;
+    }
+    fields.branding = parsedBranding.branding;
+  }
+
+  if (translations !== undefined) {
+    const parsedTranslations = parseSurveyTranslations(translations);
+    if ("error" in parsedTranslations) {
+      return parsedTranslations;
+    }
+    fields.translations = parsedTranslations.translations;
+  }
+
+  if (follow_up !== undefined) {
+    const parsedFollowUp = parseFollowUpConfig(follow_up);
+    if ("error" in parsedFollowUp) {
+      return parsedFollowUp;
+    }
+    fields.follow_up = parsedFollowUp.followUp;
+  }
+
+  return { fields };
+};
 
 export const surveysApi = {
   /**
@@ -16,7 +234,15 @@ export const surveysApi = {
 
     try {
       const body = await req.json();
-      const { survey_id, subject_id, ttl_days, redirect_url } = body;
+      const {
+        survey_id,
+        subject_id,
+        ttl_days,
+        redirect_url,
+        lang,
+        include_html,
+        html_style,
+      } = body;
 
       // Extract the MintLinksRequest fields
       const request: MintLinksRequest = {
@@ -65,6 +291,18 @@ export const surveysApi = {
         }
       }
 
+      // Validate the respondent locale if provided
+      const parsedLang = parseLinkLang(lang);
+      if ("error" in parsedLang) {
+        return Response.json({ error: parsedLang.error }, { status: 400 });
+      }
+      request.lang = parsedLang.lang;
+
+      const snippet = parseSnippetStyle(include_html, html_style);
+      if ("error" in snippet) {
+        return Response.json({ error: snippet.error }, { status: 400 });
+      }
+
       // Get authenticated business
       const auth = await getApiAuthContext(req);
       if (!auth.business) {
@@ -83,10 +321,402 @@ export const surveysApi = {
       // Generate the links
       const result = await mintSurveyLinks(survey, request);
 
-      return Response.json(result, { status: 201 });
+      if (result.created) {
+        await queueWebhookEvent(auth.business.id, "links.minted", {
+          survey_id: survey.survey_id,
+          subject_ids: [subject_id],
+          expires_at: result.expires_at,
+        });
+      }
+
+      return Response.json(withSnippet(result, survey, snippet.style), {
+        status: 201,
+      });
     } catch (error) {
       console.error("Error minting links:", error);
       return Response.json({ error: "Internal server error" }, { status: 500 });
     }
   },
+
+  /**
+   * Generate NPS survey links for many subject_ids in one request
+   * Invalid subject_ids are reported per item without failing the batch
+   */
+  async mintLinksBatch(req: Request): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const body = await req.json();
+      const {
+        survey_id,
+        subject_ids,
+        ttl_days,
+        lang,
+        include_html,
+        html_style,
+      } = body;
+
+      if (!survey_id || subject_ids === undefined) {
+        return Response.json(
+          { error: "Missing required fields: survey_id and subject_ids" },
+          { status: 400 },
+        );
+      }
+
+      if (!SUBJECT_ID_PATTERN.test(survey_id)) {
+        return Response.json(
+          {
+            error:
+              "survey_id must contain only letters, numbers, underscores, and hyphens",
+          },
+          { status: 400 },
+        );
+      }
+
+      if (
+        !Array.isArray(subject_ids) ||
+        subject_ids.length === 0 ||
+        subject_ids.length > MAX_MINT_BATCH_SIZE
+      ) {
+        return Response.json(
+          {
+            error: `subject_ids must be an array of 1 to ${MAX_MINT_BATCH_SIZE} items`,
+          },
+          { status: 400 },
+        );
+      }
+
+      if (ttl_days !== undefined) {
+        if (!Number.isInteger(ttl_days) || ttl_days < 1 || ttl_days > 365) {
+          return Response.json(
+            { error: "ttl_days must be an integer between 1 and 365" },
+            { status: 400 },
+          );
+        }
+      }
+
+      const parsedLang = parseLinkLang(lang);
+      if ("error" in parsedLang) {
+        return Response.json({ error: parsedLang.error }, { status: 400 });
+      }
+
+      const snippet = parseSnippetStyle(include_html, html_style);
+      if ("error" in snippet) {
+        return Response.json({ error: snippet.error }, { status: 400 });
+      }
+
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const survey = await findSurvey(auth.business.id, survey_id);
+      if (!survey) {
+        return Response.json(
+          { error: "Survey not found. Please create the survey first." },
+          { status: 404 },
+        );
+      }
+
+      const validSubjectIds = subject_ids.filter(
+        (subjectId): subjectId is string =>
+          typeof subjectId === "string" && SUBJECT_ID_PATTERN.test(subjectId),
+      );
+      const minted = await mintSurveyLinksBatch(
+        survey,
+        validSubjectIds,
+        ttl_days,
+        parsedLang.lang,
+      );
+      const mintedBySubject = new Map(
+        minted.map((result) => [result.subject_id, result]),
+      );
+
+      // Subjects minted by this request share one expiry; ones that already
+      // had links were announced when those were minted
+      const created = minted.filter((result) => result.created);
+      if (created.length > 0) {
+        await queueWebhookEvent(auth.business.id, "links.minted", {
+          survey_id: survey.survey_id,
+          subject_ids: created.map((result) => result.subject_id),
+          expires_at: created[0].expires_at,
+        });
+      }
+
+      // One result per input item, in request order
+      const results = subject_ids.map((subjectId: unknown) => {
+        const result =
+          typeof subjectId === "string"
+            ? mintedBySubject.get(subjectId)
+            : undefined;
+        if (result) {
+          return withSnippet(result, survey, snippet.style);
+        }
+        return {
+          subject_id: subjectId,
+          error:
+            "subject_id must contain only letters, numbers, underscores, and hyphens",
+        };
+      });
+      const failed = results.filter((result) => "error" in result).length;
+
+      return Response.json(
+        {
+          results,
+          succeeded: results.length - failed,
+          failed,
+        },
+        { status: 201 },
+      );
+    } catch (error) {
+      console.error("Error minting links in batch:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+  /**
+   * List all surveys for the authenticated business
+   */
+  async listSurveys(req: Request): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const surveys = await listSurveys(auth.business.id);
+
+      return Response.json({ data: surveys.map(serializeSurvey) });
+    } catch (error) {
+      console.error("Error listing surveys:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+
+  /**
+   * Create a new survey
+   */
+  async createSurvey(req: Request): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const body = await req.json();
+      const { survey_id, type = DEFAULT_SURVEY_TYPE } = body;
+
+      if (!survey_id || typeof survey_id !== "string") {
+        return Response.json(
+          { error: "Missing required field: survey_id" },
+          { status: 400 },
+        );
+      }
+
+      // Survey IDs are stored lowercase (enforced by the database)
+      if (!/^[a-z0-9_-]+$/.test(survey_id)) {
+        return Response.json(
+          {
+            error:
+              "survey_id must contain only lowercase letters, numbers, underscores, and hyphens",
+          },
+          { status: 400 },
+        );
+      }
+
+      if (!isSurveyType(type)) {
+        return Response.json(
+          { error: `type must be one of: ${SURVEY_TYPES.join(", ")}` },
+          { status: 400 },
+        );
+      }
+
+      const parsed = parseUpdateSurveyOptions(body, true);
+      if ("error" in parsed) {
+        return Response.json({ error: parsed.error }, { status: 400 });
+      }
+
+      const { fields } = parsed;
+      if (fields.redirect_timing && !fields.redirect_url) {
+        return Response.json(
+          { error: "redirect_url is required when redirect_timing is set" },
+          { status: 400 },
+        );
+      }
+
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const existingSurvey = await findSurvey(auth.business.id, survey_id);
+      if (existingSurvey) {
+        return Response.json(
+          { error: "A survey with this survey_id already exists" },
+          { status: 409 },
+        );
+      }
+
+      const survey = await createSurvey(auth.business.id, survey_id, {
+        title: fields.title as string,
+        description: fields.description ?? undefined,
+        type,
+        ttl_days: fields.ttl_days,
+        redirect_url: fields.redirect_url ?? undefined,
+        redirect_timing: fields.redirect_timing ?? undefined,
+        branding: fields.branding,
+        translations: fields.translations,
+        follow_up: fields.follow_up,
+      });
+
+      await queueWebhookEvent(auth.business.id, "survey.created", {
+        survey_id: survey.survey_id,
+        title: survey.title,
+      });
+
+      return Response.json(serializeSurvey(survey), { status: 201 });
+    } catch (error) {
+      console.error("Error creating survey:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+
+  /**
+   * Get a single survey by survey_id
+   */
+  async getSurvey<T extends `${string}:survey_id${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const survey = await findSurvey(auth.business.id, req.params.survey_id);
+      if (!survey) {
+        return Response.json({ error: "Survey not found" }, { status: 404 });
+      }
+
+      return Response.json(serializeSurvey(survey));
+    } catch (error) {
+      console.error("Error fetching survey:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+
+  /**
+   * Update a survey's editable fields
+   */
+  async updateSurvey<T extends `${string}:survey_id${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const body = await req.json();
+
+      if (
+        body.survey_id !== undefined &&
+        body.survey_id !== req.params.survey_id
+      ) {
+        return Response.json(
+          { error: "survey_id cannot be changed" },
+          { status: 400 },
+        );
+      }
+
+      const parsed = parseUpdateSurveyOptions(body, false);
+      if ("error" in parsed) {
+        return Response.json({ error: parsed.error }, { status: 400 });
+      }
+
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const survey = await findSurvey(auth.business.id, req.params.survey_id);
+      if (!survey) {
+        return Response.json({ error: "Survey not found" }, { status: 404 });
+      }
+
+      // Changing the scale would strand responses scored on the old one
+      if (body.type !== undefined && body.type !== survey.type) {
+        return Response.json(
+          { error: "type cannot be changed" },
+          { status: 400 },
+        );
+      }
+
+      const { fields } = parsed;
+      const redirectTiming =
+        fields.redirect_timing !== undefined
+          ? fields.redirect_timing
+          : survey.redirect_timing;
+      const redirectUrl =
+        fields.redirect_url !== undefined
+          ? fields.redirect_url
+          : survey.redirect_url;
+      if (redirectTiming && !redirectUrl) {
+        return Response.json(
+          { error: "redirect_url is required when redirect_timing is set" },
+          { status: 400 },
+        );
+      }
+
+      const updated = await updateSurvey(survey, fields);
+
+      return Response.json(serializeSurvey(updated));
+    } catch (error) {
+      console.error("Error updating survey:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+
+  /**
+   * Delete a survey and all of its links and responses
+   */
+  async deleteSurvey<T extends `${string}:survey_id${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const survey = await findSurvey(auth.business.id, req.params.survey_id);
+      if (!survey) {
+        return Response.json({ error: "Survey not found" }, { status: 404 });
+      }
+
+      // Queue before deleting so endpoints scoped to this survey still match
+      await queueWebhookEvent(auth.business.id, "survey.deleted", {
+        survey_id: survey.survey_id,
+        title: survey.title,
+      });
+
+      const deleted = await deleteSurvey(
+        auth.business.id,
+        req.params.survey_id,
+      );
+      if (!deleted) {
+        return Response.json({ error: "Survey not found" }, { status: 404 });
+      }
+
+      return new Response(null, { status: 204 });
+    } catch (error) {
+      console.error("Error deleting survey:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
 };
@@ -0,0 +1,216 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { SQL } from "bun";
+import { createBunRequest } from "../../test-utils/bun-request";
+import {
+  cleanupTestData,
+  createTestApiKey,
+  createTestBusiness,
+} from "../../test-utils/helpers";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("../../services/database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import {
+  getWebhookDelivery,
+  MAX_WEBHOOK_ATTEMPTS,
+  updateWebhookAfterAttempt,
+} from "../../services/webhooks";
+import { createTestWebhook } from "../../test-utils/webhooks";
+import { webhooksApi } from "./webhooks";
+
+describe("Webhooks API", () => {
+  let businessId: string;
+  let token: string;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    businessId = await createTestBusiness(connection, "API Business");
+    token = await createTestApiKey(connection, businessId);
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const apiRequest = (
+    path: string,
+    params: Record<string, string> = {},
+    init: RequestInit = {},
+  ) =>
+    createBunRequest(
+      `http://localhost:3000${path}`,
+      {
+        ...init,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+      },
+      params,
+    );
+
+  const createDeadDelivery = async () => {
+    const id = await createTestWebhook(businessId);
+    await updateWebhookAfterAttempt(
+      id,
+      false,
+      502,
+      "Bad Gateway",
+      MAX_WEBHOOK_ATTEMPTS,
+    );
+    return id;
+  };
+
+  describe("GET /api/v1/webhooks/deliveries", () => {
+    test("requires authentication", async () => {
+      const request = createBunRequest(
+        "http://localhost:3000/api/v1/webhooks/deliveries",
+      );
+      const response = await webhooksApi.listDeliveries(request);
+
+      expect(response.status).toBe(401);
+    });
+
+    test("lists deliveries filtered by status", async () => {
+      const deadId = await createDeadDelivery();
+      await createTestWebhook(businessId, { status: "delivered" });
+
+      const response = await webhooksApi.listDeliveries(
+        apiRequest("/api/v1/webhooks/deliveries?status=dead"),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0].id).toBe(deadId);
+      expect(body.data[0].status).toBe("dead");
+      expect(body.data[0].response_status_code).toBe(502);
+    });
+
+    test("rejects unknown statuses and limits", async () => {
+      const statusResponse = await webhooksApi.listDeliveries(
+        apiRequest("/api/v1/webhooks/deliveries?status=lost"),
+      );
+      const limitResponse = await webhooksApi.listDeliveries(
+        apiRequest("/api/v1/webhooks/deliveries?limit=500"),
+      );
+
+      expect(statusResponse.status).toBe(400);
+      expect(limitResponse.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/v1/webhooks/deliveries/:delivery_id", () => {
+    test("returns the event and every attempt", async () => {
+      const id = await createTestWebhook(businessId, { score: 9 });
+      await updateWebhookAfterAttempt(id, false, 500, "Oops", 1);
+      await updateWebhookAfterAttempt(id, true, 200, "OK", 2);
+
+      const response = await webhooksApi.getDelivery(
+        apiRequest(`/api/v1/webhooks/deliveries/${id}`, { delivery_id: id }),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.status).toBe("delivered");
+      expect(body.event.data.score).toBe(9);
+      expect(
+        body.attempt_log.map(
+          (attempt: { status_code: number }) => attempt.status_code,
+        ),
+      ).toEqual([500, 200]);
+      expect(body.attempt_log[0].error_class).toBe("http_error");
+      expect(body.attempt_log[1].error_class).toBeNull();
+    });
+
+    test("returns 404 for unknown or malformed ids", async () => {
+      const otherBusinessId = await createTestBusiness(connection, "Other");
+      const otherId = await createTestWebhook(otherBusinessId);
+
+      for (const id of [otherId, "not-a-uuid"]) {
+        const response = await webhooksApi.getDelivery(
+          apiRequest(`/api/v1/webhooks/deliveries/${id}`, { delivery_id: id }),
+        );
+        expect(response.status).toBe(404);
+      }
+    });
+  });
+
+  describe("POST /api/v1/webhooks/deliveries/:delivery_id/redeliver", () => {
+    test("queues the delivery again", async () => {
+      const id = await createDeadDelivery();
+
+      const response = await webhooksApi.redeliver(
+        apiRequest(
+          `/api/v1/webhooks/deliveries/${id}/redeliver`,
+          { delivery_id: id },
+          { method: "POST" },
+        ),
+      );
+
+      expect(response.status).toBe(202);
+      const delivery = await getWebhookDelivery(businessId, id);
+      expect(delivery?.status).toBe("pending");
+    });
+
+    test("returns 409 when the delivery is already queued", async () => {
+      const id = await createTestWebhook(businessId);
+
+      const response = await webhooksApi.redeliver(
+        apiRequest(
+          `/api/v1/webhooks/deliveries/${id}/redeliver`,
+          { delivery_id: id },
+          { method: "POST" },
+        ),
+      );
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe("POST /api/v1/webhooks/deliveries/redeliver", () => {
+    test("queues failed deliveries since the given time", async () => {
+      const id = await createDeadDelivery();
+
+      const response = await webhooksApi.redeliverFailed(
+        apiRequest(
+          "/api/v1/webhooks/deliveries/redeliver",
+          {},
+          {
+            method: "POST",
+            body: JSON.stringify({
+              since: new Date(Date.now() - 60_000).toISOString(),
+            }),
+          },
+        ),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(202);
+      expect(body.redelivered).toBe(1);
+      const delivery = await getWebhookDelivery(businessId, id);
+      expect(delivery?.status).toBe("pending");
+    });
+
+    test("requires a valid since date", async () => {
+      const response = await webhooksApi.redeliverFailed(
+        apiRequest(
+          "/api/v1/webhooks/deliveries/redeliver",
+          {},
+          { method: "POST", body: JSON.stringify({ since: "yesterday" }) },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import type { BunRequest } from "bun";
+import { getApiAuthContext, requireApiAuth } from "../../middleware/api-auth";
+import {
+  buildWebhookEvent,
+  getRecentWebhookDeliveries,
+  getWebhookDelivery,
+  listWebhookAttempts,
+  redeliverFailedWebhooks,
+  redeliverWebhook,
+  type WebhookAttempt,
+  type WebhookDeliveryStatus,
+  type WebhookQueueItem,
+} from "../../services/webhooks";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+  "pending",
+  "processing",
+  "delivered",
+  "failed",
+  "held",
+  "dead",
+  "paused",
+];
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const toIsoString = (date: Date | null): string | null =>
+  date ? new Date(date).toISOString() : null;
+
+/**
+ * Shape a delivery for API output
+ */
+const serializeDelivery = (delivery: WebhookQueueItem) => ({
+  id: delivery.id,
+  event_id: delivery.event_id,
+  event_type: delivery.event_type,
+  endpoint_id: delivery.endpoint_id,
+  url: delivery.webhook_url,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  last_attempt_at: toIsoString(delivery.last_attempt_at),
+  next_retry_at: toIsoString(delivery.next_retry_at),
+  response_status_code: delivery.response_status_code,
+  created_at: new Date(delivery.created_at).toISOString(),
+});
+
+const serializeAttempt = (attempt: WebhookAttempt) => ({
+  status_code: attempt.status_code,
+  error_class: attempt.error_class,
+  duration_ms: attempt.duration_ms,
+  request_headers: attempt.request_headers,
+  response_body: attempt.response_body,
+  response_body_truncated: attempt.response_body_truncated,
+  attempted_at: new Date(attempt.attempted_at).toISOString(),
+});
+
+export const webhooksApi = {
+  /**
+   * List recent webhook deliveries, optionally filtered by status
+   */
+  async listDeliveries(req: Request): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const params = new URL(req.url).searchParams;
+
+      let limit = DEFAULT_LIMIT;
+      const limitParam = params.get("limit");
+      if (limitParam !== null) {
+        const parsed = Number.parseInt(limitParam, 10);
+        if (!/^\d+$/.test(limitParam) || parsed < 1 || parsed > MAX_LIMIT) {
+          return Response.json(
+            { error: `limit must be an integer between 1 and ${MAX_LIMIT}` },
+            { status: 400 },
+          );
+        }
+        limit = parsed;
+      }
+
+      const status = params.get("status");
+      if (
+        status !== null &&
+        !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)
+      ) {
+        return Response.json(
+          { error: `status must be one of: ${DELIVERY_STATUSES.join(", ")}` },
+          { status: 400 },
+        );
+      }
+
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const deliveries = await getRecentWebhookDeliveries(
+        auth.business.id,
+        limit,
+        (status as WebhookDeliveryStatus) ?? undefined,
+      );
+
+      return Response.json({ data: deliveries.map(serializeDelivery) });
+    } catch (error) {
+      console.error("Error listing webhook deliveries:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+
+  /**
+   * Get a delivery with its payload and every attempt made
+   */
+  async getDelivery<T extends `${string}:delivery_id${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const deliveryId = req.params.delivery_id;
+      const delivery = UUID_PATTERN.test(deliveryId)
+        ? await getWebhookDelivery(auth.business.id, deliveryId)
+        : null;
+      if (!delivery) {
+        return Response.json(
+          { error: "Webhook delivery not found" },
+          { status: 404 },
+        );
+      }
+
+      const attempts = await listWebhookAttempts(delivery.id);
+
+      return Response.json({
+        ...serializeDelivery(delivery),
+        event: buildWebhookEvent(delivery),
+        attempt_log: attempts.map(serializeAttempt),
+      });
+    } catch (error) {
+      console.error("Error getting webhook delivery:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+
+  /**
+   * Send a delivered, failed or dead delivery again
+   */
+  async redeliver<T extends `${string}:delivery_id${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const deliveryId = req.params.delivery_id;
+      if (!UUID_PATTERN.test(deliveryId)) {
+        return Response.json(
+          { error: "Webhook delivery not found" },
+          { status: 404 },
+        );
+      }
+
+      const status = await redeliverWebhook(auth.business.id, deliveryId);
+
+      return Response.json({ id: deliveryId, status }, { status: 202 });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === "Webhook delivery not found") {
+          return Response.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message === "Webhook delivery is already queued") {
+          return Response.json({ error: error.message }, { status: 409 });
+        }
+      }
+      console.error("Error redelivering webhook:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+
+  /**
+   * Send every failed or dead delivery since a point in time again
+   */
+  async redeliverFailed(req: Request): Promise<Response> {
+    const authCheck = await requireApiAuth(req);
+    if (authCheck) return authCheck;
+
+    try {
+      const body = await req.json();
+      const { since, endpoint_id } = body;
+
+      const sinceDate = typeof since === "string" ? new Date(since) : null;
+      if (!sinceDate || Number.isNaN(sinceDate.getTime())) {
+        return Response.json(
+          { error: "since must be an ISO 8601 date" },
+          { status: 400 },
+        );
+      }
+
+      if (
+        endpoint_id !== undefined &&
+        endpoint_id !== null &&
+        (typeof endpoint_id !== "string" || !UUID_PATTERN.test(endpoint_id))
+      ) {
+        return Response.json(
+          { error: "endpoint_id must be a webhook endpoint id" },
+          { status: 400 },
+        );
+      }
+
+      const auth = await getApiAuthContext(req);
+      if (!auth.business) {
+        return Response.json({ error: "Business not found" }, { status: 404 });
+      }
+
+      const count = await redeliverFailedWebhooks(auth.business.id, sinceDate, {
+        endpointId: endpoint_id ?? null,
+      });
+
+      return Response.json({ redelivered: count }, { status: 202 });
+    } catch (error) {
+      console.error("Error redelivering failed webhooks:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+};
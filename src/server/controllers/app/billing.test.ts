@@ -0,0 +1,168 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { SQL } from "bun";
+import {
+  createSession,
+  createSessionCookie,
+  createUser,
+} from "../../services/auth";
+import { createCsrfToken } from "../../services/csrf";
+import { createBunRequest } from "../../test-utils/bun-request";
+import { cleanupTestData, randomEmail } from "../../test-utils/helpers";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("../../services/database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import { grantCredits } from "../../services/credits";
+import { billing } from "./billing";
+
+describe("Billing Controller", () => {
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const createTestSession = async () => {
+    const user = await createUser(randomEmail(), "Test Business");
+    const sessionId = await createSession(user.id);
+    return [sessionId, user.business_id] as const;
+  };
+
+  const postBilling = async (
+    sessionId: string,
+    fields: Record<string, string>,
+  ) => {
+    const csrfToken = await createCsrfToken(
+      sessionId,
+      "POST",
+      "/settings/billing",
+    );
+    const formData = new FormData();
+    formData.append("_csrf", csrfToken);
+    for (const [key, value] of Object.entries(fields)) {
+      formData.append(key, value);
+    }
+
+    const request = createBunRequest("http://localhost:3000/settings/billing", {
+      method: "POST",
+      headers: {
+        Origin: "http://localhost:3000",
+        Cookie: createSessionCookie(sessionId),
+      },
+      body: formData,
+    });
+    return billing.index(request);
+  };
+
+  describe("GET /settings/billing", () => {
+    test("renders balance and ledger history", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      await grantCredits(businessId, 1000, "Starter pack");
+
+      const request = createBunRequest(
+        "http://localhost:3000/settings/billing",
+        { headers: { Cookie: createSessionCookie(sessionId) } },
+      );
+      const response = await billing.index(request);
+      const html = await response.text();
+
+      expect(response.headers.get("content-type")).toBe("text/html");
+      expect(html).toContain("Billing");
+      expect(html).toContain("1,000");
+      expect(html).toContain("Starter pack");
+      expect(html).toContain("zero_balance_behavior");
+    });
+
+    test("warns when webhooks are on hold", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      await connection`
+        INSERT INTO credit_balances (business_id, balance)
+        VALUES (${businessId}, -3)
+      `;
+
+      const request = createBunRequest(
+        "http://localhost:3000/settings/billing",
+        { headers: { Cookie: createSessionCookie(sessionId) } },
+      );
+      const response = await billing.index(request);
+      const html = await response.text();
+
+      expect(html).toContain("Webhooks are on hold");
+    });
+
+    test("redirects unauthenticated users", async () => {
+      const request = createBunRequest(
+        "http://localhost:3000/settings/billing",
+      );
+      const response = await billing.index(request);
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get("location")).toBe("/login");
+    });
+  });
+
+  describe("POST /settings/billing", () => {
+    test("updates the zero balance behavior", async () => {
+      const [sessionId, businessId] = await createTestSession();
+
+      const response = await postBilling(sessionId, {
+        action: "update_behavior",
+        zero_balance_behavior: "refuse",
+      });
+      const html = await response.text();
+
+      expect(html).toContain("Billing settings updated");
+
+      const [business] = await connection`
+        SELECT zero_balance_behavior FROM businesses WHERE id = ${businessId}
+      `;
+      expect(business.zero_balance_behavior).toBe("refuse");
+    });
+
+    test("rejects unknown behaviors", async () => {
+      const [sessionId] = await createTestSession();
+
+      const response = await postBilling(sessionId, {
+        action: "update_behavior",
+        zero_balance_behavior: "ignore",
+      });
+      const html = await response.text();
+
+      expect(html).toContain("Invalid zero balance behavior");
+    });
+
+    test("rejects requests without a CSRF token", async () => {
+      const [sessionId] = await createTestSession();
+      const formData = new FormData();
+      formData.append("action", "update_behavior");
+      formData.append("zero_balance_behavior", "refuse");
+
+      const request = createBunRequest(
+        "http://localhost:3000/settings/billing",
+        {
+          method: "POST",
+          headers: {
+            Origin: "http://localhost:3000",
+            Cookie: createSessionCookie(sessionId),
+          },
+          body: formData,
+        },
+      );
+      const response = await billing.index(request);
+      const html = await response.text();
+
+      expect(html).toContain("Invalid request");
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { isAdminOrOwner } from "../../middleware/access";
+import { getAuthContext, requireAuth } from "../../middleware/auth";
+import { getSessionIdFromCookies } from "../../services/auth";
+import {
+  getCreditLedger,
+  getCreditSummary,
+  updateZeroBalanceBehavior,
+  type ZeroBalanceBehavior,
+} from "../../services/credits";
+import { createCsrfToken, verifyCsrfToken } from "../../services/csrf";
+import { findCreditPack, getPaymentService } from "../../services/payments";
+import { Billing, type BillingState } from "../../templates/billing";
+import { redirect, render } from "../../utils/response";
+
+const ZERO_BALANCE_BEHAVIORS: ZeroBalanceBehavior[] = [
+  "hold_webhooks",
+  "refuse",
+];
+
+export const billing = {
+  async index(req: Request): Promise<Response> {
+    // Check authentication
+    const authResponse = await requireAuth(req);
+    if (authResponse) return authResponse;
+
+    const auth = await getAuthContext(req);
+
+    if (!auth.business) {
+      return new Response("Business not found", { status: 404 });
+    }
+
+    // Check admin access
+    if (!isAdminOrOwner(auth)) {
+      return redirect("/");
+    }
+
+    if (req.method === "POST") {
+      return await handleBillingActions(req, auth.business.id);
+    }
+
+    const purchase = new URL(req.url).searchParams.get("purchase");
+
+    return await renderBillingPage(req, auth.business.id, {
+      purchased: purchase === "success",
+      cancelled: purchase === "cancelled",
+    });
+  },
+};
+
+async function handleBillingActions(
+  req: Request,
+  businessId: string,
+): Promise<Response> {
+  const formData = await req.formData();
+  const action = formData.get("action") as string;
+  const csrfToken = formData.get("_csrf") as string;
+
+  // Validate CSRF token
+  const cookieHeader = req.headers.get("cookie");
+  const sessionId = getSessionIdFromCookies(cookieHeader);
+
+  if (!sessionId || !csrfToken) {
+    return renderBillingPage(req, businessId, { error: "Invalid request" });
+  }
+
+  const isValidCsrf = await verifyCsrfToken(
+    sessionId,
+    "POST",
+    "/settings/billing",
+    csrfToken,
+  );
+  if (!isValidCsrf) {
+    return renderBillingPage(req, businessId, {
+      error: "Invalid security token",
+    });
+  }
+
+  try {
+    switch (action) {
+      case "update_behavior": {
+        const behavior = formData.get("zero_balance_behavior") as string;
+
+        if (!ZERO_BALANCE_BEHAVIORS.includes(behavior as ZeroBalanceBehavior)) {
+          return renderBillingPage(req, businessId, {
+            error: "Invalid zero balance behavior",
+          });
+        }
+
+        await updateZeroBalanceBehavior(
+          businessId,
+          behavior as ZeroBalanceBehavior,
+        );
+
+        return renderBillingPage(req, businessId, { updated: true });
+      }
+
+      case "checkout": {
+        const packId = formData.get("pack_id") as string;
+
+        if (!findCreditPack(packId)) {
+          return renderBillingPage(req, businessId, {
+            error: "Unknown credit pack",
+          });
+        }
+
+        const session = await getPaymentService().createCheckout(
+          businessId,
+          packId,
+        );
+
+        return redirect(session.url);
+      }
+
+      default:
+        return renderBillingPage(req, businessId, { error: "Invalid action" });
+    }
+  } catch (error) {
+    return renderBillingPage(req, businessId, {
+      error:
+        error instanceof Error
+          ? error.message
+          : "An error occurred while processing your request",
+    });
+  }
+}
+
+async function renderBillingPage(
+  req: Request,
+  businessId: string,
+  state?: BillingState,
+): Promise<Response> {
+  const auth = await getAuthContext(req);
+  const [summary, ledger, csrfToken] = await Promise.all([
+    getCreditSummary(businessId),
+    getCreditLedger(businessId),
+    generateCsrfToken(req),
+  ]);
+
+  if (!summary) {
+    return new Response("Business not found", { status: 404 });
+  }
+
+  return render(
+    <Billing
+      auth={auth}
+      summary={summary}
+      ledger={ledger}
+      state={state}
+      csrfToken={csrfToken}
+    />,
+  );
+}
+
+async function generateCsrfToken(req: Request): Promise<string | null> {
+  const cookieHeader = req.headers.get("cookie");
+  const sessionId = getSessionIdFromCookies(cookieHeader);
+
+  if (!sessionId) return null;
+
+  return await createCsrfToken(sessionId, "POST", "/settings/billing");
+}
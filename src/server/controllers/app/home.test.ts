@@ -38,11 +38,25 @@ const mockGetDashboardStats = mock(() => ({
     delta7d: 10,
     delta30d: 25,
   },
-  averageNps: {
+  nps: {
     value7d: 42,
     value30d: 38,
     delta7d: 5,
     delta30d: -2,
+    breakdown7d: {
+      score: 42,
+      promoters: 80,
+      passives: 47,
+      detractors: 23,
+      total: 150,
+    },
+    breakdown30d: {
+      score: 38,
+      promoters: 210,
+      passives: 140,
+      detractors: 70,
+      total: 420,
+    },
   },
   responseRate: {
     value7d: 75,
@@ -61,6 +75,7 @@ const mockGetDashboardStats = mock(() => ({
 const mockGetLatestResponses = mock(() => [
   {
     surveyName: "Product Feedback",
+    surveyType: "nps",
     subjectId: "subject-1",
     score: 9,
     comment: "Great product!",
@@ -68,6 +83,7 @@ const mockGetLatestResponses = mock(() => [
   },
   {
     surveyName: "Service Quality",
+    surveyType: "nps",
     subjectId: "subject-2",
     score: 7,
     comment: "Good service",
@@ -80,14 +96,20 @@ const mockGetWeeklyNpsData = mock(() => [
     weekLabel: "2024-W01",
     weekStart: new Date("2024-01-01"),
     weekEnd: new Date("2024-01-07"),
-    averageNps: 40,
+    nps: 40,
+    promoters: 5,
+    passives: 4,
+    detractors: 1,
     responseCount: 10,
   },
   {
     weekLabel: "2024-W02",
     weekStart: new Date("2024-01-08"),
     weekEnd: new Date("2024-01-14"),
-    averageNps: 45,
+    nps: 47,
+    promoters: 9,
+    passives: 4,
+    detractors: 2,
     responseCount: 15,
   },
 ]);
@@ -193,11 +215,25 @@ describe("Home Controller", () => {
           delta7d: 10,
           delta30d: 25,
         },
-        averageNps: {
+        nps: {
           value7d: 42,
           value30d: 38,
           delta7d: 5,
           delta30d: -2,
+          breakdown7d: {
+            score: 42,
+            promoters: 80,
+            passives: 47,
+            detractors: 23,
+            total: 150,
+          },
+          breakdown30d: {
+            score: 38,
+            promoters: 210,
+            passives: 140,
+            detractors: 70,
+            total: 420,
+          },
         },
         responseRate: {
           value7d: 75,
@@ -224,7 +260,8 @@ describe("Home Controller", () => {
       const html = await response.text();
 
       expect(html).toContain("42");
-      expect(html).toContain("Average NPS");
+      expect(html).toContain("NPS");
+      expect(html).toContain("80 promoters");
     });
 
     test("displays latest responses in dashboard", async () => {
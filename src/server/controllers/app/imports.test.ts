@@ -0,0 +1,189 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { randomUUID } from "node:crypto";
+import { SQL } from "bun";
+import {
+  createSession,
+  createSessionCookie,
+  createUser,
+} from "../../services/auth";
+import { createCsrfToken } from "../../services/csrf";
+import { createBunRequest } from "../../test-utils/bun-request";
+import { cleanupTestData, randomEmail } from "../../test-utils/helpers";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("../../services/database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import { imports } from "./imports";
+
+const IMPORT_URL = "http://localhost:3000/surveys/legacy/import";
+
+const CSV = [
+  "email,rating,submitted,feedback",
+  "cust_1,9,2024-03-15,Great",
+  "cust_2,4,2024-03-16,",
+  "not valid,4,2024-03-16,",
+].join("\n");
+
+describe("Survey Import Controller", () => {
+  let sessionId: string;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    const user = await createUser(randomEmail(), "Test Business");
+    sessionId = await createSession(user.id);
+    await connection`
+      INSERT INTO surveys (id, business_id, survey_id, title)
+      VALUES (${randomUUID()}, ${user.business_id}, 'legacy', 'Legacy Survey')
+    `;
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const postImport = async (fields: Record<string, string | File>) => {
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      formData.append(key, value);
+    }
+    formData.append(
+      "_csrf",
+      await createCsrfToken(sessionId, "POST", "/surveys/legacy/import"),
+    );
+
+    const request = createBunRequest(
+      IMPORT_URL,
+      {
+        method: "POST",
+        headers: {
+          Origin: "http://localhost:3000",
+          Cookie: createSessionCookie(sessionId),
+        },
+        body: formData,
+      },
+      { surveyId: "legacy" },
+    );
+    const response = await imports.index(request);
+    return [response, await response.text()] as const;
+  };
+
+  const mappedFields = {
+    csv: CSV,
+    filename: "legacy.csv",
+    map_subject_id: "0",
+    map_score: "1",
+    map_responded_at: "2",
+    map_comment: "3",
+  };
+
+  test("shows the upload form", async () => {
+    const request = createBunRequest(
+      IMPORT_URL,
+      { headers: { Cookie: createSessionCookie(sessionId) } },
+      { surveyId: "legacy" },
+    );
+    const response = await imports.index(request);
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(html).toContain("Import Responses - ClickNPS");
+    expect(html).toContain('name="file"');
+    expect(html).toContain("No imports yet");
+  });
+
+  test("returns 404 for an unknown survey", async () => {
+    const request = createBunRequest(
+      "http://localhost:3000/surveys/missing/import",
+      { headers: { Cookie: createSessionCookie(sessionId) } },
+      { surveyId: "missing" },
+    );
+    const response = await imports.index(request);
+    expect(response.status).toBe(404);
+  });
+
+  test("suggests a column mapping after upload", async () => {
+    const [response, html] = await postImport({
+      action: "upload",
+      file: new File([CSV], "legacy.csv", { type: "text/csv" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(html).toContain("Match the columns");
+    expect(html).toContain("legacy.csv");
+    expect(html).toContain('<option value="1" selected="">rating</option>');
+  });
+
+  test("shows errors for files it cannot read", async () => {
+    const [, html] = await postImport({
+      action: "upload",
+      file: new File(["email,rating\n"], "empty.csv", { type: "text/csv" }),
+    });
+    expect(html).toContain(
+      "The file needs a header row and at least one response",
+    );
+  });
+
+  test("previews without writing, then commits", async () => {
+    const [, previewHtml] = await postImport({
+      ...mappedFields,
+      action: "preview",
+    });
+    expect(previewHtml).toContain("Ready to import: <!-- -->2");
+    expect(previewHtml).toContain("Row <!-- -->4<!-- -->: <!-- -->subject_id");
+
+    const [{ before }] = await connection`
+      SELECT COUNT(*)::int AS before FROM responses
+    `;
+    expect(before).toBe(0);
+
+    const [, commitHtml] = await postImport({
+      ...mappedFields,
+      action: "commit",
+    });
+    expect(commitHtml).toContain("Imported 2 responses");
+    expect(commitHtml).toContain("1 rows were skipped");
+
+    const [{ after }] = await connection`
+      SELECT COUNT(*)::int AS after FROM responses
+    `;
+    expect(after).toBe(2);
+  });
+
+  test("keeps the upload when the mapping is incomplete", async () => {
+    const [, html] = await postImport({
+      ...mappedFields,
+      map_score: "",
+      action: "preview",
+    });
+    expect(html).toContain("Choose the column that holds score");
+    expect(html).toContain("Match the columns");
+  });
+
+  test("rejects requests without a valid CSRF token", async () => {
+    const formData = new FormData();
+    formData.append("action", "preview");
+    const request = createBunRequest(
+      IMPORT_URL,
+      {
+        method: "POST",
+        headers: {
+          Origin: "http://localhost:3000",
+          Cookie: createSessionCookie(sessionId),
+        },
+        body: formData,
+      },
+      { surveyId: "legacy" },
+    );
+    const response = await imports.index(request);
+    expect(response.status).toBe(403);
+  });
+});
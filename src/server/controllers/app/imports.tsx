@@ -0,0 +1,217 @@
+import type { BunRequest } from "bun";
+import {
+  type AuthContext,
+  getAuthContext,
+  requireAuth,
+} from "../../middleware/auth";
+import { csrfProtection } from "../../middleware/csrf";
+import { getSessionIdFromCookies } from "../../services/auth";
+import { createCsrfToken } from "../../services/csrf";
+import {
+  commitResponseImport,
+  getImportSurvey,
+  IMPORT_FIELDS,
+  type ImportFile,
+  type ImportMapping,
+  type ImportSurvey,
+  listResponseImports,
+  MAX_IMPORT_BYTES,
+  parseImportFile,
+  previewResponseImport,
+  suggestImportMapping,
+} from "../../services/imports";
+import {
+  type ImportUpload,
+  SurveyImport,
+  type SurveyImportState,
+} from "../../templates/survey-import";
+import { render } from "../../utils/response";
+
+export const imports = {
+  /**
+   * Import historical responses into a survey
+   * Each POST moves through one step: upload, preview (a dry run) or commit.
+   * The file is carried in the form between steps and only stored on commit.
+   */
+  async index<T extends `${string}:surveyId${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authRequired = await requireAuth(req);
+    if (authRequired) return authRequired;
+
+    const auth = await getAuthContext(req);
+    if (!auth.business) {
+      return new Response("Business not found", { status: 404 });
+    }
+
+    const survey = await getImportSurvey(auth.business.id, req.params.surveyId);
+    if (!survey) {
+      return new Response("Survey not found", {
+        status: 404,
+        headers: { "content-type": "text/html" },
+      });
+    }
+
+    if (req.method === "POST") {
+      const csrfCheck = await csrfProtection(req, {
+        path: `/surveys/${survey.survey_id}/import`,
+      });
+      if (csrfCheck) return csrfCheck;
+
+      const state = await handleImportStep(
+        await req.formData(),
+        auth.business.id,
+        auth.user?.id ?? null,
+        survey,
+      );
+      return renderImportPage(req, auth, survey, state);
+    }
+
+    return renderImportPage(req, auth, survey, { step: "upload" });
+  },
+};
+
+const formText = (formData: FormData, name: string): string => {
+  const value = formData.get(name);
+  return typeof value === "string" ? value : "";
+};
+
+// A blank select leaves the field unmapped; anything unparseable is rejected
+// by validateImportMapping as a column the file does not have
+const parseMapping = (formData: FormData): ImportMapping => {
+  const mapping = {} as ImportMapping;
+  for (const field of IMPORT_FIELDS) {
+    const value = formText(formData, `map_${field}`);
+    const column = Number.parseInt(value, 10);
+    mapping[field] = value === "" ? null : Number.isNaN(column) ? -1 : column;
+  }
+  return mapping;
+};
+
+async function handleImportStep(
+  formData: FormData,
+  businessId: string,
+  userId: string | null,
+  survey: ImportSurvey,
+): Promise<SurveyImportState> {
+  const action = formText(formData, "action");
+
+  if (action === "upload") {
+    const file = formData.get("file");
+    if (!(file instanceof File) || file.size === 0) {
+      return { step: "upload", error: "Choose a CSV file to upload" };
+    }
+    if (file.size > MAX_IMPORT_BYTES) {
+      return {
+        step: "upload",
+        error: `The file is larger than ${MAX_IMPORT_BYTES / 1024 / 1024} MB; split it into smaller files`,
+      };
+    }
+
+    const csv = await file.text();
+    try {
+      const { headers } = parseImportFile(csv);
+      return {
+        step: "map",
+        upload: {
+          csv,
+          filename: file.name || null,
+          headers,
+          mapping: suggestImportMapping(headers),
+        },
+      };
+    } catch (error) {
+      return { step: "upload", error: errorMessage(error) };
+    }
+  }
+
+  // Later steps post the file back as text
+  const csv = formText(formData, "csv");
+  if (csv.length > MAX_IMPORT_BYTES) {
+    return { step: "upload", error: "The file is too large" };
+  }
+
+  let file: ImportFile;
+  try {
+    file = parseImportFile(csv);
+  } catch (error) {
+    return { step: "upload", error: errorMessage(error) };
+  }
+
+  const upload: ImportUpload = {
+    csv,
+    filename: formText(formData, "filename") || null,
+    headers: file.headers,
+    mapping: parseMapping(formData),
+  };
+
+  try {
+    switch (action) {
+      case "map":
+        return { step: "map", upload };
+
+      case "preview": {
+        const preview = await previewResponseImport(
+          survey,
+          file,
+          upload.mapping,
+        );
+        return { step: "preview", upload, preview };
+      }
+
+      case "commit": {
+        const result = await commitResponseImport(
+          businessId,
+          survey,
+          file,
+          upload.mapping,
+          upload.filename,
+          userId,
+        );
+        return { step: "done", result };
+      }
+
+      default:
+        return { step: "upload", error: "Invalid action" };
+    }
+  } catch (error) {
+    return { step: "map", upload, error: errorMessage(error) };
+  }
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error
+    ? error.message
+    : "An error occurred while processing your request";
+
+async function renderImportPage(
+  req: Request,
+  auth: AuthContext,
+  survey: ImportSurvey,
+  state: SurveyImportState,
+): Promise<Response> {
+  const sessionId = getSessionIdFromCookies(req.headers.get("cookie"));
+
+  let csrfToken: string | null = null;
+  let createCsrfTokenValue: string | null = null;
+
+  if (sessionId) {
+    const [createToken, logoutToken] = await Promise.all([
+      createCsrfToken(sessionId, "POST", `/surveys/${survey.survey_id}/import`),
+      createCsrfToken(sessionId, "POST", "/auth/logout"),
+    ]);
+    createCsrfTokenValue = createToken;
+    csrfToken = logoutToken;
+  }
+
+  return render(
+    <SurveyImport
+      auth={auth}
+      survey={survey}
+      imports={await listResponseImports(survey.id)}
+      state={state}
+      createCsrfToken={createCsrfTokenValue}
+      csrfToken={csrfToken}
+    />,
+  );
+}
@@ -1,11 +1,16 @@
 export { about } from "./about";
 export { apiKeys } from "./api-keys";
+export { billing } from "./billing";
 export { docs } from "./docs";
 export { home } from "./home";
+export { imports } from "./imports";
 export { invites } from "./invites";
+export { jobs } from "./jobs";
+export { payments } from "./payments";
 export { pricing } from "./pricing";
 export { profile } from "./profile";
 export { responses } from "./responses";
+export { retention } from "./retention";
 export { support } from "./support";
 export { surveys } from "./surveys";
 export { team } from "./team";
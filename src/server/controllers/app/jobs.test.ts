@@ -0,0 +1,184 @@
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  test,
+} from "bun:test";
+import { SQL } from "bun";
+import {
+  createSession,
+  createSessionCookie,
+  createUser,
+} from "../../services/auth";
+import { createCsrfToken } from "../../services/csrf";
+import { createBunRequest } from "../../test-utils/bun-request";
+import { cleanupTestData, randomEmail } from "../../test-utils/helpers";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("../../services/database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import {
+  clearJobDefinitions,
+  defineJob,
+  syncJobSchedules,
+} from "../../services/jobs";
+import { jobs } from "./jobs";
+
+describe("Jobs Controller", () => {
+  let adminEmail: string;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    adminEmail = randomEmail();
+    process.env.ADMIN_EMAILS = `ops@example.com, ${adminEmail.toUpperCase()}`;
+
+    defineJob({
+      name: "test.cleanup",
+      schedule: "0 * * * *",
+      handler: async () => {},
+    });
+    await syncJobSchedules();
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_EMAILS;
+    clearJobDefinitions();
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const createTestSession = async (email = adminEmail) => {
+    const user = await createUser(email, "Test Business");
+    return await createSession(user.id);
+  };
+
+  const getJobsPage = async (sessionId: string, query = "") => {
+    const request = createBunRequest(
+      `http://localhost:3000/admin/jobs${query}`,
+      {
+        headers: { Cookie: createSessionCookie(sessionId) },
+      },
+    );
+    const response = await jobs.index(request);
+    return [response, await response.text()] as const;
+  };
+
+  const postJobs = async (
+    sessionId: string,
+    fields: Record<string, string>,
+  ) => {
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      formData.append(key, value);
+    }
+    formData.append(
+      "_csrf",
+      await createCsrfToken(sessionId, "POST", "/admin/jobs"),
+    );
+
+    const request = createBunRequest("http://localhost:3000/admin/jobs", {
+      method: "POST",
+      headers: {
+        Origin: "http://localhost:3000",
+        Cookie: createSessionCookie(sessionId),
+      },
+      body: formData,
+    });
+    const response = await jobs.index(request);
+    return await response.text();
+  };
+
+  test("shows schedules and recent jobs to system admins", async () => {
+    const sessionId = await createTestSession();
+    await connection`
+      INSERT INTO jobs (name, status, last_error)
+      VALUES ('test.cleanup', 'failed', 'Connection refused')
+    `;
+
+    const [response, html] = await getJobsPage(sessionId);
+
+    expect(response.status).toBe(200);
+    expect(html).toContain("Background Jobs - ClickNPS");
+    expect(html).toContain("test.cleanup");
+    expect(html).toContain("0 * * * *");
+    expect(html).toContain("Connection refused");
+    expect(html).toContain("Retry");
+  });
+
+  test("redirects business owners who are not system admins", async () => {
+    const sessionId = await createTestSession(randomEmail());
+
+    const [response] = await getJobsPage(sessionId);
+
+    expect(response.status).toBe(303);
+    expect(response.headers.get("location")).toBe("/");
+  });
+
+  test("filters recent jobs by status", async () => {
+    const sessionId = await createTestSession();
+    await connection`
+      INSERT INTO jobs (name, status, last_error)
+      VALUES
+        ('test.cleanup', 'failed', 'Connection refused'),
+        ('test.cleanup', 'completed', NULL)
+    `;
+
+    const [, html] = await getJobsPage(sessionId, "?status=completed");
+
+    expect(html).not.toContain("Connection refused");
+    expect(html).toContain("completed");
+  });
+
+  test("queues a scheduled job to run now", async () => {
+    const sessionId = await createTestSession();
+
+    const html = await postJobs(sessionId, {
+      action: "run_now",
+      name: "test.cleanup",
+    });
+
+    expect(html).toContain("test.cleanup has been queued");
+    const [job] = await connection`SELECT status FROM jobs`;
+    expect(job.status).toBe("pending");
+
+    const again = await postJobs(sessionId, {
+      action: "run_now",
+      name: "test.cleanup",
+    });
+    expect(again).toContain("Job is already queued or running");
+  });
+
+  test("retries a failed job", async () => {
+    const sessionId = await createTestSession();
+    const [failed] = await connection`
+      INSERT INTO jobs (name, status, attempts)
+      VALUES ('test.cleanup', 'failed', 3)
+      RETURNING id
+    `;
+
+    const html = await postJobs(sessionId, {
+      action: "retry",
+      id: failed.id,
+      name: "test.cleanup",
+    });
+
+    expect(html).toContain("test.cleanup will be retried shortly");
+    const [job] = await connection`SELECT status, attempts FROM jobs`;
+    expect(job.status).toBe("pending");
+    expect(job.attempts).toBe(0);
+  });
+});
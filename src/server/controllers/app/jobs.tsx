@@ -0,0 +1,147 @@
+import { isSystemAdmin } from "../../middleware/access";
+import {
+  type AuthContext,
+  getAuthContext,
+  requireAuth,
+} from "../../middleware/auth";
+import { getSessionIdFromCookies } from "../../services/auth";
+import { createCsrfToken, verifyCsrfToken } from "../../services/csrf";
+import {
+  type JobStatus,
+  listJobSchedules,
+  listRecentJobs,
+  retryJob,
+  runScheduledJobNow,
+} from "../../services/jobs";
+import { JobsStatus } from "../../templates/jobs";
+import { redirect, render } from "../../utils/response";
+
+export interface JobsState {
+  queued?: {
+    name: string;
+  };
+  retried?: {
+    name: string;
+  };
+  error?: string;
+}
+
+const JOB_STATUSES: JobStatus[] = ["pending", "running", "completed", "failed"];
+
+export const jobs = {
+  async index(req: Request): Promise<Response> {
+    // Check authentication
+    const authResponse = await requireAuth(req);
+    if (authResponse) return authResponse;
+
+    const auth = await getAuthContext(req);
+
+    // Jobs span every business, so only system admins may see them
+    if (!isSystemAdmin(auth)) {
+      return redirect("/");
+    }
+
+    if (req.method === "POST") {
+      return await handleJobActions(req, auth);
+    }
+
+    return await renderJobs(req, auth);
+  },
+};
+
+async function handleJobActions(
+  req: Request,
+  auth: AuthContext,
+): Promise<Response> {
+  const formData = await req.formData();
+  const action = formData.get("action") as string;
+  const csrfToken = formData.get("_csrf") as string;
+
+  // Validate CSRF token
+  const cookieHeader = req.headers.get("cookie");
+  const sessionId = getSessionIdFromCookies(cookieHeader);
+
+  if (!sessionId || !csrfToken) {
+    return renderJobs(req, auth, { error: "Invalid request" });
+  }
+
+  const isValidCsrf = await verifyCsrfToken(
+    sessionId,
+    "POST",
+    "/admin/jobs",
+    csrfToken,
+  );
+  if (!isValidCsrf) {
+    return renderJobs(req, auth, { error: "Invalid security token" });
+  }
+
+  try {
+    switch (action) {
+      case "run_now": {
+        const name = formData.get("name") as string;
+        if (!name) {
+          return renderJobs(req, auth, { error: "Invalid job name" });
+        }
+
+        await runScheduledJobNow(name);
+        return renderJobs(req, auth, { queued: { name } });
+      }
+
+      case "retry": {
+        const id = formData.get("id") as string;
+        const name = formData.get("name") as string;
+        if (!id) {
+          return renderJobs(req, auth, { error: "Invalid job ID" });
+        }
+
+        await retryJob(id);
+        return renderJobs(req, auth, { retried: { name } });
+      }
+
+      default:
+        return renderJobs(req, auth, { error: "Invalid action" });
+    }
+  } catch (error) {
+    return renderJobs(req, auth, {
+      error:
+        error instanceof Error
+          ? error.message
+          : "An error occurred while processing your request",
+    });
+  }
+}
+
+async function renderJobs(
+  req: Request,
+  auth: AuthContext,
+  state?: JobsState,
+): Promise<Response> {
+  const status = new URL(req.url).searchParams.get("status") as JobStatus;
+  const statusFilter = JOB_STATUSES.includes(status) ? status : undefined;
+
+  const [schedules, recentJobs, csrfToken] = await Promise.all([
+    listJobSchedules(),
+    listRecentJobs(50, statusFilter),
+    generateCsrfToken(req),
+  ]);
+
+  return render(
+    <JobsStatus
+      auth={auth}
+      schedules={schedules}
+      recentJobs={recentJobs}
+      statusFilter={statusFilter}
+      state={state}
+      csrfToken={csrfToken}
+    />,
+  );
+}
+
+async function generateCsrfToken(req: Request): Promise<string | null> {
+  const cookieHeader = req.headers.get("cookie");
+  const sessionId = getSessionIdFromCookies(cookieHeader);
+
+  if (!sessionId) return null;
+
+  return await createCsrfToken(sessionId, "POST", "/admin/jobs");
+}
@@ -0,0 +1,214 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { SQL } from "bun";
+import {
+  createSession,
+  createSessionCookie,
+  createUser,
+} from "../../services/auth";
+import { createCsrfToken } from "../../services/csrf";
+import { createBunRequest } from "../../test-utils/bun-request";
+import { cleanupTestData, randomEmail } from "../../test-utils/helpers";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("../../services/database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import { getCreditSummary } from "../../services/credits";
+import { FakePaymentProvider } from "../../services/payment-providers/fake";
+import { PaymentService, setPaymentService } from "../../services/payments";
+import { billing } from "./billing";
+import { payments } from "./payments";
+
+describe("Payments Controller", () => {
+  let provider: FakePaymentProvider;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    provider = new FakePaymentProvider("test_secret");
+    setPaymentService(new PaymentService(provider));
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const createTestSession = async () => {
+    const user = await createUser(randomEmail(), "Test Business");
+    const sessionId = await createSession(user.id);
+    return [sessionId, user.business_id] as const;
+  };
+
+  const startCheckout = async (sessionId: string, packId: string) => {
+    const csrfToken = await createCsrfToken(
+      sessionId,
+      "POST",
+      "/settings/billing",
+    );
+    const formData = new FormData();
+    formData.append("_csrf", csrfToken);
+    formData.append("action", "checkout");
+    formData.append("pack_id", packId);
+
+    const request = createBunRequest("http://localhost:3000/settings/billing", {
+      method: "POST",
+      headers: {
+        Origin: "http://localhost:3000",
+        Cookie: createSessionCookie(sessionId),
+      },
+      body: formData,
+    });
+    return billing.index(request);
+  };
+
+  describe("purchase flow", () => {
+    test("checkout redirects to the provider and the fake checkout grants credits", async () => {
+      const [sessionId, businessId] = await createTestSession();
+
+      const checkoutResponse = await startCheckout(sessionId, "credits_1k");
+      expect(checkoutResponse.status).toBe(303);
+
+      const checkoutUrl = checkoutResponse.headers.get("location") ?? "";
+      expect(checkoutUrl).toContain("/billing/fake-checkout?session_id=");
+
+      const completeResponse = await payments.fakeCheckout(
+        createBunRequest(checkoutUrl, {
+          headers: { Cookie: createSessionCookie(sessionId) },
+        }),
+      );
+      expect(completeResponse.status).toBe(303);
+      expect(completeResponse.headers.get("location")).toBe(
+        "/settings/billing?purchase=success",
+      );
+
+      const summary = await getCreditSummary(businessId);
+      expect(summary?.balance).toBe(1000);
+    });
+
+    test("rejects unknown packs", async () => {
+      const [sessionId] = await createTestSession();
+
+      const response = await startCheckout(sessionId, "credits_unknown");
+      const html = await response.text();
+
+      expect(html).toContain("Unknown credit pack");
+    });
+  });
+
+  describe("POST /webhooks/payments", () => {
+    test("grants credits for a signed webhook exactly once", async () => {
+      const [, businessId] = await createTestSession();
+      const session = await new PaymentService(provider).createCheckout(
+        businessId,
+        "credits_5k",
+      );
+      const { payload, headers } = provider.createCompletedWebhook(session.id);
+
+      const send = () =>
+        payments.webhook(
+          createBunRequest("http://localhost:3000/webhooks/payments", {
+            method: "POST",
+            headers,
+            body: payload,
+          }),
+        );
+
+      const first = await send();
+      expect(first.status).toBe(200);
+      expect(await first.json()).toEqual({ received: true, result: "granted" });
+
+      const second = await send();
+      expect(await second.json()).toEqual({
+        received: true,
+        result: "duplicate",
+      });
+
+      const summary = await getCreditSummary(businessId);
+      expect(summary?.balance).toBe(5000);
+    });
+
+    test("rejects webhooks with an invalid signature", async () => {
+      const response = await payments.webhook(
+        createBunRequest("http://localhost:3000/webhooks/payments", {
+          method: "POST",
+          body: JSON.stringify({
+            type: "checkout.completed",
+            session_id: "fake_cs_1",
+          }),
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: "Invalid webhook signature",
+      });
+    });
+  });
+
+  describe("GET /billing/fake-checkout", () => {
+    const startFakeCheckout = async (businessId: string) => {
+      const session = await new PaymentService(provider).createCheckout(
+        businessId,
+        "credits_1k",
+      );
+      return `http://localhost:3000/billing/fake-checkout?session_id=${session.id}`;
+    };
+
+    test("redirects unauthenticated users to login", async () => {
+      const [, businessId] = await createTestSession();
+
+      const response = await payments.fakeCheckout(
+        createBunRequest(await startFakeCheckout(businessId)),
+      );
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get("location")).toBe("/login");
+      expect((await getCreditSummary(businessId))?.balance).toBe(0);
+    });
+
+    test("does not complete another business's checkout", async () => {
+      const [, businessId] = await createTestSession();
+      const [otherSessionId] = await createTestSession();
+
+      const response = await payments.fakeCheckout(
+        createBunRequest(await startFakeCheckout(businessId), {
+          headers: { Cookie: createSessionCookie(otherSessionId) },
+        }),
+      );
+
+      expect(response.status).toBe(404);
+      expect((await getCreditSummary(businessId))?.balance).toBe(0);
+    });
+
+    test("is not found without the fake provider", async () => {
+      const originalEnv = process.env.NODE_ENV;
+      const originalProvider = process.env.PAYMENT_PROVIDER;
+      process.env.NODE_ENV = "production";
+      delete process.env.PAYMENT_PROVIDER;
+
+      try {
+        const response = await payments.fakeCheckout(
+          createBunRequest(
+            "http://localhost:3000/billing/fake-checkout?session_id=fake_cs_1",
+          ),
+        );
+
+        expect(response.status).toBe(404);
+      } finally {
+        process.env.NODE_ENV = originalEnv;
+        if (originalProvider === undefined) {
+          delete process.env.PAYMENT_PROVIDER;
+        } else {
+          process.env.PAYMENT_PROVIDER = originalProvider;
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { isAdminOrOwner } from "../../middleware/access";
+import { getAuthContext, requireAuth } from "../../middleware/auth";
+import { FakePaymentProvider } from "../../services/payment-providers/fake";
+import {
+  getPaymentProviderName,
+  getPaymentService,
+} from "../../services/payments";
+import { redirect } from "../../utils/response";
+
+/**
+ * Whether PAYMENT_PROVIDER selects the fake provider, treating a missing or
+ * unknown setting as no
+ */
+const isFakeProviderSelected = (): boolean => {
+  try {
+    return getPaymentProviderName() === "fake";
+  } catch {
+    return false;
+  }
+};
+
+export const payments = {
+  /**
+   * Receive signed webhooks from the payment provider
+   */
+  async webhook(req: Request): Promise<Response> {
+    try {
+      const payload = await req.text();
+      const result = await getPaymentService().handleWebhook(
+        payload,
+        req.headers,
+      );
+
+      return Response.json({ received: true, result });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message === "Invalid webhook signature"
+      ) {
+        return Response.json({ error: error.message }, { status: 400 });
+      }
+
+      console.error("Error handling payment webhook:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  },
+
+  /**
+   * Complete a checkout with the local fake provider
+   * The provider is resolved per request so a missing PAYMENT_PROVIDER only
+   * affects billing; anything but the fake provider gets a 404. Like the
+   * billing page, only the business's admins can complete its checkouts.
+   */
+  async fakeCheckout(req: Request): Promise<Response> {
+    if (!isFakeProviderSelected()) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const authResponse = await requireAuth(req);
+    if (authResponse) return authResponse;
+
+    const auth = await getAuthContext(req);
+
+    if (!auth.business) {
+      return new Response("Business not found", { status: 404 });
+    }
+
+    if (!isAdminOrOwner(auth)) {
+      return redirect("/");
+    }
+
+    const service = getPaymentService();
+    const provider = service.getProvider();
+
+    if (!(provider instanceof FakePaymentProvider)) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const sessionId = new URL(req.url).searchParams.get("session_id");
+    if (!sessionId) {
+      return new Response("Missing session_id", { status: 400 });
+    }
+    if (!(await service.isCheckoutForBusiness(auth.business.id, sessionId))) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const { payload, headers } = provider.createCompletedWebhook(sessionId);
+    const result = await service.handleWebhook(payload, headers);
+
+    return redirect(
+      result === "ignored"
+        ? "/settings/billing?purchase=cancelled"
+        : "/settings/billing?purchase=success",
+    );
+  },
+};
@@ -130,6 +130,120 @@ describe("Responses Controller", () => {
       expect(responsesData[0].comment).toBeNull();
     });
 
+    it("should apply the survey's branding to the thank you page", async () => {
+      const setup = await createTestSurveySetup(testBusinessId);
+      const token = setup.tokens[3];
+
+      const branding = {
+        logo_url: "https://example.com/logo.png",
+        brand_color: "#ffcc00",
+        detractor_headline: "We're sorry to hear that",
+        detractor_body: "Our team reads every comment.",
+        promoter_headline: "Not shown for detractors",
+        comment_prompt: "What should we fix first?",
+      };
+      await connection`
+        UPDATE surveys SET branding = ${branding}
+        WHERE business_id = ${testBusinessId} AND survey_id = ${setup.surveyId}
+      `;
+
+      const req = createBunRequest(
+        `http://localhost:3000/r/${token}`,
+        { method: "GET" },
+        { token },
+      );
+
+      const response = await responses.capture(req);
+      const html = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(html).toContain('src="https://example.com/logo.png"');
+      expect(html).toContain("We&#x27;re sorry to hear that");
+      expect(html).toContain("Our team reads every comment.");
+      expect(html).not.toContain("Not shown for detractors");
+      expect(html).toContain("What should we fix first?");
+      expect(html).toContain("background-color:#ffcc00");
+      expect(html).toContain("color:#000000");
+    });
+
+    it("should show the thank you page in the link's language", async () => {
+      const setup = await createTestSurveySetup(testBusinessId);
+      await connection`
+        UPDATE survey_links SET lang = 'de'
+        WHERE subject_id = ${setup.subjectId}
+      `;
+      const token = setup.tokens[10];
+
+      const req = createBunRequest(
+        `http://localhost:3000/r/${token}`,
+        { method: "GET", headers: { "Accept-Language": "pt-BR" } },
+        { token },
+      );
+
+      const response = await responses.capture(req);
+      const html = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(html).toContain('<html lang="de"');
+      expect(html).toContain("Vielen Dank, dass Sie uns weiterempfehlen!");
+      expect(html).toContain("Kommentar senden");
+    });
+
+    it("should follow Accept-Language and the survey's overrides", async () => {
+      const setup = await createTestSurveySetup(testBusinessId);
+      const translations = {
+        "pt-BR": { passive_headline: "Valeu pelo retorno!" },
+      };
+      await connection`
+        UPDATE surveys SET translations = ${translations}
+        WHERE business_id = ${testBusinessId} AND survey_id = ${setup.surveyId}
+      `;
+      const token = setup.tokens[8];
+
+      const req = createBunRequest(
+        `http://localhost:3000/r/${token}`,
+        {
+          method: "GET",
+          headers: { "Accept-Language": "fr;q=0.9, pt;q=0.8, en;q=0.5" },
+        },
+        { token },
+      );
+
+      const response = await responses.capture(req);
+      const html = await response.text();
+
+      expect(html).toContain('<html lang="pt-BR"');
+      expect(html).toContain("Valeu pelo retorno!");
+      expect(html).toContain("Enviar comentário");
+    });
+
+    it("should refuse responses when credits run out in refuse mode", async () => {
+      const setup = await createTestSurveySetup(testBusinessId);
+      const token = setup.tokens[7];
+
+      await connection`
+        UPDATE businesses SET zero_balance_behavior = 'refuse'
+        WHERE id = ${testBusinessId}
+      `;
+
+      const req = createBunRequest(
+        `http://localhost:3000/r/${token}`,
+        { method: "GET" },
+        { token },
+      );
+
+      const response = await responses.capture(req);
+
+      expect(response.status).toBe(402);
+
+      const responsesData = await connection`
+        SELECT * FROM responses WHERE survey_link_id IN (
+          SELECT id FROM survey_links WHERE token = ${token}
+        )
+      `;
+      expect(responsesData).toHaveLength(0);
+    });
+
     it("should handle already responded scenario within 180s (show comment form)", async () => {
       const setup = await createTestSurveySetup(testBusinessId);
       const token = setup.tokens[8]; // Score of 8
@@ -691,10 +805,8 @@ describe("Responses Controller", () => {
 
       // Set up webhook for this business
       await connection`
-        UPDATE businesses
-        SET webhook_url = 'https://example.com/webhook',
-            webhook_secret = 'test-secret'
-        WHERE id = ${setup.businessId}
+        INSERT INTO webhook_endpoints (business_id, url, secret)
+        VALUES (${setup.businessId}, 'https://example.com/webhook', 'test-secret')
       `;
 
       // 1. Capture initial response
@@ -735,6 +847,7 @@ describe("Responses Controller", () => {
         WHERE business_id = ${setup.businessId}
           AND survey_id = ${setup.surveyId}
           AND subject_id = ${setup.subjectId}
+          AND event_type = 'response.created'
       `;
       expect(updatedWebhook).toHaveLength(1);
       const updatedScheduledFor = new Date(updatedWebhook[0].scheduled_for);
@@ -744,5 +857,350 @@ describe("Responses Controller", () => {
         initialScheduledFor.getTime(),
       );
     });
+
+    it("should queue response.comment_added for comments after delivery", async () => {
+      const setup = await createTestSurveySetup(testBusinessId);
+      const token = setup.tokens[9];
+
+      await connection`
+        INSERT INTO webhook_endpoints (business_id, url, secret)
+        VALUES (${setup.businessId}, 'https://example.com/webhook', 'test-secret')
+      `;
+
+      await responses.capture(
+        createBunRequest(
+          `http://localhost:3000/r/${token}`,
+          { method: "GET" },
+          { token },
+        ),
+      );
+
+      // response.created has already gone out without a comment
+      await connection`
+        UPDATE webhook_queue SET status = 'delivered'
+        WHERE business_id = ${setup.businessId}
+      `;
+
+      const formData = new FormData();
+      formData.append("comment", "Late thoughts");
+      await responses.addComment(
+        createBunRequest(
+          `http://localhost:3000/r/${token}/comment`,
+          { method: "POST", body: formData },
+          { token },
+        ),
+      );
+
+      const events = await connection`
+        SELECT event_type, score, comment FROM webhook_queue
+        WHERE business_id = ${setup.businessId}
+        ORDER BY created_at ASC
+      `;
+      expect(events).toHaveLength(2);
+      expect(events[0].event_type).toBe("response.created");
+      expect(events[0].comment).toBeNull();
+      expect(events[1].event_type).toBe("response.comment_added");
+      expect(events[1].score).toBe(9);
+      expect(events[1].comment).toBe("Late thoughts");
+    });
+
+    it("should fold comments into a pending response.created only", async () => {
+      const setup = await createTestSurveySetup(testBusinessId);
+      const token = setup.tokens[9];
+
+      await connection`
+        INSERT INTO webhook_endpoints (business_id, url, secret)
+        VALUES (${setup.businessId}, 'https://example.com/webhook', 'test-secret')
+      `;
+
+      await responses.capture(
+        createBunRequest(
+          `http://localhost:3000/r/${token}`,
+          { method: "GET" },
+          { token },
+        ),
+      );
+
+      const formData = new FormData();
+      formData.append("comment", "Quick thoughts");
+      await responses.addComment(
+        createBunRequest(
+          `http://localhost:3000/r/${token}/comment`,
+          { method: "POST", body: formData },
+          { token },
+        ),
+      );
+
+      const events = await connection`
+        SELECT event_type, comment FROM webhook_queue
+        WHERE business_id = ${setup.businessId}
+      `;
+      expect(events).toHaveLength(1);
+      expect(events[0].event_type).toBe("response.created");
+      expect(events[0].comment).toBe("Quick thoughts");
+    });
+
+    it("should decide between folding and comment_added per endpoint", async () => {
+      const setup = await createTestSurveySetup(testBusinessId);
+      const token = setup.tokens[9];
+
+      const [delivered, pending, commentsOnly] = await connection`
+        INSERT INTO webhook_endpoints (business_id, url, secret)
+        VALUES
+          (${setup.businessId}, 'https://example.com/delivered', 'test-secret'),
+          (${setup.businessId}, 'https://example.com/pending', 'test-secret'),
+          (${setup.businessId}, 'https://example.com/comments', 'test-secret')
+        RETURNING id
+      `;
+      await connection`
+        INSERT INTO webhook_endpoint_events (endpoint_id, event_type)
+        VALUES (${commentsOnly.id}, 'response.comment_added')
+      `;
+
+      await responses.capture(
+        createBunRequest(
+          `http://localhost:3000/r/${token}`,
+          { method: "GET" },
+          { token },
+        ),
+      );
+      // Only the first endpoint has received response.created so far
+      await connection`
+        UPDATE webhook_queue SET status = 'delivered'
+        WHERE endpoint_id = ${delivered.id}
+      `;
+
+      const formData = new FormData();
+      formData.append("comment", "Mixed timing");
+      await responses.addComment(
+        createBunRequest(
+          `http://localhost:3000/r/${token}/comment`,
+          { method: "POST", body: formData },
+          { token },
+        ),
+      );
+
+      const events = await connection`
+        SELECT endpoint_id, event_type, comment FROM webhook_queue
+        WHERE business_id = ${setup.businessId}
+      `;
+      const eventsFor = (endpointId: string) =>
+        events
+          .filter(
+            (event: { endpoint_id: string }) =>
+              event.endpoint_id === endpointId,
+          )
+          .map((event: { event_type: string; comment: string | null }) => [
+            event.event_type,
+            event.comment,
+          ])
+          .sort();
+
+      expect(eventsFor(delivered.id)).toEqual([
+        ["response.comment_added", "Mixed timing"],
+        ["response.created", null],
+      ]);
+      expect(eventsFor(pending.id)).toEqual([
+        ["response.created", "Mixed timing"],
+      ]);
+      expect(eventsFor(commentsOnly.id)).toEqual([
+        ["response.comment_added", "Mixed timing"],
+      ]);
+    });
+
+    it("should queue response.created when the comment records the response", async () => {
+      const setup = await createTestSurveySetup(testBusinessId);
+      const token = setup.tokens[6];
+
+      await connection`
+        INSERT INTO webhook_endpoints (business_id, url, secret)
+        VALUES (${setup.businessId}, 'https://example.com/webhook', 'test-secret')
+      `;
+
+      const formData = new FormData();
+      formData.append("comment", "Direct comment");
+      await responses.addComment(
+        createBunRequest(
+          `http://localhost:3000/r/${token}/comment`,
+          { method: "POST", body: formData },
+          { token },
+        ),
+      );
+
+      const events = await connection`
+        SELECT event_type, score, comment FROM webhook_queue
+        WHERE business_id = ${setup.businessId}
+      `;
+      expect(events).toHaveLength(1);
+      expect(events[0].event_type).toBe("response.created");
+      expect(events[0].score).toBe(6);
+      expect(events[0].comment).toBe("Direct comment");
+    });
+  });
+
+  describe("Follow-up Questions", () => {
+    const followUp = {
+      question: "What mattered most?",
+      options: {
+        promoter: ["Speed", "Support"],
+        passive: [],
+        detractor: ["Price", "Bugs"],
+      },
+    };
+
+    const mintFollowUpToken = async (score: number): Promise<string> => {
+      const survey = await createSurvey(testBusinessId, "follow-up-survey", {
+        title: "Follow-up Survey",
+        follow_up: followUp,
+      });
+      const mintResult = await mintSurveyLinks(survey, {
+        subject_id: "user-1",
+      });
+      return mintResult.links[score.toString()].split("/r/")[1];
+    };
+
+    it("should offer the options for the respondent's category", async () => {
+      const token = await mintFollowUpToken(3);
+
+      const response = await responses.capture(
+        createBunRequest(
+          `http://localhost:3000/r/${token}`,
+          { method: "GET" },
+          { token },
+        ),
+      );
+
+      const html = await response.text();
+      expect(html).toContain("What mattered most?");
+      expect(html).toContain('name="follow_up" value="Price"');
+      expect(html).toContain('name="follow_up" value="Bugs"');
+      expect(html).not.toContain('value="Speed"');
+    });
+
+    it("should not ask when the category has no options", async () => {
+      const token = await mintFollowUpToken(8);
+
+      const response = await responses.capture(
+        createBunRequest(
+          `http://localhost:3000/r/${token}`,
+          { method: "GET" },
+          { token },
+        ),
+      );
+
+      const html = await response.text();
+      expect(html).not.toContain("What mattered most?");
+      expect(html).not.toContain('name="follow_up"');
+    });
+
+    it("should store an answer and fold it into the pending webhook", async () => {
+      const token = await mintFollowUpToken(10);
+
+      await connection`
+        INSERT INTO webhook_endpoints (business_id, url, secret)
+        VALUES (${testBusinessId}, 'https://example.com/webhook', 'test-secret')
+      `;
+
+      await responses.capture(
+        createBunRequest(
+          `http://localhost:3000/r/${token}`,
+          { method: "GET" },
+          { token },
+        ),
+      );
+
+      const formData = new FormData();
+      formData.append("comment", "");
+      formData.append("follow_up", "Support");
+      const response = await responses.addComment(
+        createBunRequest(
+          `http://localhost:3000/r/${token}/comment`,
+          { method: "POST", body: formData },
+          { token },
+        ),
+      );
+
+      expect(response.status).toBe(303);
+      expect(
+        decodeURIComponent(response.headers.get("Location") ?? ""),
+      ).toContain('"commented":true');
+
+      const [stored] = await connection`
+        SELECT comment, follow_up FROM responses WHERE survey_link_id IN (
+          SELECT id FROM survey_links WHERE token = ${token}
+        )
+      `;
+      expect(stored.comment).toBeNull();
+      expect(stored.follow_up).toEqual({
+        question: "What mattered most?",
+        answer: "Support",
+      });
+
+      const events = await connection`
+        SELECT event_type, comment, follow_up FROM webhook_queue
+        WHERE business_id = ${testBusinessId}
+        ORDER BY created_at ASC
+      `;
+      expect(events).toHaveLength(1);
+      expect(events[0].event_type).toBe("response.created");
+      expect(events[0].follow_up).toEqual(stored.follow_up);
+    });
+
+    it("should ignore an answer that was not offered", async () => {
+      const token = await mintFollowUpToken(10);
+
+      await responses.capture(
+        createBunRequest(
+          `http://localhost:3000/r/${token}`,
+          { method: "GET" },
+          { token },
+        ),
+      );
+
+      const formData = new FormData();
+      formData.append("follow_up", "Price");
+      const response = await responses.addComment(
+        createBunRequest(
+          `http://localhost:3000/r/${token}/comment`,
+          { method: "POST", body: formData },
+          { token },
+        ),
+      );
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get("Location")).toBe(`/r/${token}`);
+
+      const [stored] = await connection`
+        SELECT follow_up FROM responses WHERE survey_link_id IN (
+          SELECT id FROM survey_links WHERE token = ${token}
+        )
+      `;
+      expect(stored.follow_up).toBeNull();
+    });
+  });
+
+  describe("Survey Types", () => {
+    it("should show the score on the survey's own scale", async () => {
+      const survey = await createSurvey(testBusinessId, "csat-survey", {
+        title: "Support CSAT",
+        type: "csat",
+      });
+      const mintResult = await mintSurveyLinks(survey, {
+        subject_id: "ticket-1",
+      });
+      const token = mintResult.links["4"].split("/r/")[1];
+
+      const response = await responses.capture(
+        createBunRequest(
+          `http://localhost:3000/r/${token}`,
+          { method: "GET" },
+          { token },
+        ),
+      );
+
+      const html = await response.text();
+      expect(html).toContain('text-success" data-preview="score">4/5');
+      expect(html).toContain("Thank you, we&#x27;re glad to hear it!");
+    });
   });
 });
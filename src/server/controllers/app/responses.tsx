@@ -7,13 +7,18 @@ import {
   hasExistingResponseForSurvey,
   recordResponse,
   updateResponseComment,
+  updateResponseFollowUp,
 } from "../../services/surveys";
 import {
   queueWebhookDelivery,
+  queueWebhookEvent,
   refreshPendingWebhookTimer,
   updatePendingWebhookComment,
+  updatePendingWebhookFollowUp,
 } from "../../services/webhooks";
 import { ThankYouPage } from "../../templates/thank-you";
+import { resolveFollowUpAnswer } from "../../utils/follow-up";
+import { getMessages, negotiateLocale, resolveLocale } from "../../utils/i18n";
 import { stateHelpers } from "../../utils/state";
 
 interface ResponseState {
@@ -22,6 +27,22 @@ interface ResponseState {
 
 const responseStateHelpers = stateHelpers<ResponseState>();
 
+/**
+ * Shown when the business has no credits and refuses new responses
+ */
+const creditsExhaustedResponse = (message: string): Response =>
+  new Response(message, { status: 402 });
+
+/**
+ * Shown for unknown or expired tokens, in the browser's language
+ */
+const linkNotFoundResponse = (req: Request): Response =>
+  new Response(
+    getMessages(negotiateLocale(req.headers.get("accept-language")))
+      .link_not_found,
+    { status: 404 },
+  );
+
 export const responses = {
   /**
    * Capture NPS response and show thank you page
@@ -44,12 +65,15 @@ export const responses = {
       const linkWithDetails = await findSurveyLinkWithDetails(token);
 
       if (!linkWithDetails) {
-        return new Response("Response link not found or expired", {
-          status: 404,
-        });
+        return linkNotFoundResponse(req);
       }
 
       const { surveyLink, survey } = linkWithDetails;
+      const locale = resolveLocale(
+        surveyLink.lang,
+        req.headers.get("accept-language"),
+      );
+      const messages = getMessages(locale, survey);
 
       // Check for duplicate response across all score links for this survey+subject
       const alreadyResponded = await hasExistingResponseForSurvey(
@@ -80,11 +104,16 @@ export const responses = {
         // Still show thank you page but indicate already responded
         const html = renderToString(
           <ThankYouPage
+            surveyType={survey.type}
             score={originalScore}
             alreadyResponded={true}
             withinCommentWindow={withinCommentWindow}
             token={token}
             state={state}
+            branding={survey.branding}
+            followUp={survey.follow_up}
+            locale={locale}
+            messages={messages}
           />,
         );
         return new Response(html, {
@@ -92,14 +121,25 @@ export const responses = {
         });
       }
 
-      // Record the response
-      await recordResponse(surveyLink.id);
+      // Record the response (debits one credit)
+      try {
+        await recordResponse(surveyLink.id);
+      } catch (error) {
+        if (
+          error instanceof Error &&
+          error.message === "Insufficient credits"
+        ) {
+          return creditsExhaustedResponse(messages.not_accepting_responses);
+        }
+        throw error;
+      }
 
       // Queue webhook delivery (180s delay)
       await queueWebhookDelivery(
         survey.business_id,
         {
           survey_id: survey.survey_id,
+          survey_type: survey.type,
           subject_id: surveyLink.subject_id,
           score: surveyLink.score,
           comment: null, // Will be updated if comment is added
@@ -118,10 +158,15 @@ export const responses = {
       // Show thank you page with comment form
       const html = renderToString(
         <ThankYouPage
+          surveyType={survey.type}
           score={surveyLink.score}
           alreadyResponded={false}
           token={token}
           state={state}
+          branding={survey.branding}
+          followUp={survey.follow_up}
+          locale={locale}
+          messages={messages}
         />,
       );
 
@@ -135,7 +180,7 @@ export const responses = {
   },
 
   /**
-   * Add optional comment to existing response
+   * Add optional comment and follow-up answer to existing response
    */
   async addComment<T extends `${string}:token${string}`>(
     req: BunRequest<T>,
@@ -148,9 +193,10 @@ export const responses = {
 
     try {
       const formData = await req.formData();
-      const comment = formData.get("comment") as string;
+      const comment = ((formData.get("comment") as string | null) ?? "").trim();
+      const followUpAnswer = (formData.get("follow_up") as string | null) ?? "";
 
-      if (!comment || comment.trim().length === 0) {
+      if (!comment && !followUpAnswer) {
         return new Response("", {
           status: 303,
           headers: { Location: `/r/${token}` },
@@ -161,31 +207,116 @@ export const responses = {
       const linkWithDetails = await findSurveyLinkWithDetails(token);
 
       if (!linkWithDetails) {
-        return new Response("Response link not found or expired", {
-          status: 404,
-        });
+        return linkNotFoundResponse(req);
       }
 
       const { surveyLink, survey } = linkWithDetails;
+      const messages = getMessages(
+        resolveLocale(surveyLink.lang, req.headers.get("accept-language")),
+        survey,
+      );
+
+      // The answer must be one offered for the score the respondent chose
+      const previousResponse = await getExistingResponse(
+        surveyLink.survey_id,
+        surveyLink.subject_id,
+      );
+      const followUp = resolveFollowUpAnswer(
+        survey.follow_up,
+        survey.type,
+        previousResponse?.score ?? surveyLink.score,
+        followUpAnswer,
+      );
+
+      if (!comment && !followUp) {
+        return new Response("", {
+          status: 303,
+          headers: { Location: `/r/${token}` },
+        });
+      }
 
       // Check if response exists and update with comment
       const responseExists = await hasExistingResponse(surveyLink.id);
 
       if (!responseExists) {
         // Create response with comment if it doesn't exist yet
-        await recordResponse(surveyLink.id, comment.trim());
+        try {
+          await recordResponse(surveyLink.id, comment || undefined, followUp);
+        } catch (error) {
+          if (
+            error instanceof Error &&
+            error.message === "Insufficient credits"
+          ) {
+            return creditsExhaustedResponse(messages.not_accepting_responses);
+          }
+          throw error;
+        }
+
+        // Queue webhook delivery, as capture would have (180s delay)
+        await queueWebhookDelivery(
+          survey.business_id,
+          {
+            survey_id: survey.survey_id,
+            survey_type: survey.type,
+            subject_id: surveyLink.subject_id,
+            score: surveyLink.score,
+            comment: comment || null,
+            follow_up: followUp,
+          },
+          180,
+        );
       } else {
-        // Update existing response with comment
-        await updateResponseComment(surveyLink.id, comment.trim());
-      }
+        // Update existing response with comment and follow-up answer
+        if (comment) {
+          await updateResponseComment(surveyLink.id, comment);
+        }
+        if (followUp) {
+          await updateResponseFollowUp(surveyLink.id, followUp);
+        }
 
-      // Update pending webhook with comment
-      await updatePendingWebhookComment(
-        survey.business_id,
-        survey.survey_id,
-        surveyLink.subject_id,
-        comment.trim(),
-      );
+        // Endpoints with a pending response.created get the comment folded
+        // in; every other subscribed endpoint gets response.comment_added
+        const updatedEndpointIds = new Set<string>();
+        if (comment) {
+          for (const endpointId of await updatePendingWebhookComment(
+            survey.business_id,
+            survey.survey_id,
+            surveyLink.subject_id,
+            comment,
+          )) {
+            updatedEndpointIds.add(endpointId);
+          }
+        }
+        if (followUp) {
+          for (const endpointId of await updatePendingWebhookFollowUp(
+            survey.business_id,
+            survey.survey_id,
+            surveyLink.subject_id,
+            followUp,
+          )) {
+            updatedEndpointIds.add(endpointId);
+          }
+        }
+
+        const response = await getExistingResponse(
+          surveyLink.survey_id,
+          surveyLink.subject_id,
+        );
+        await queueWebhookEvent(
+          survey.business_id,
+          "response.comment_added",
+          {
+            survey_id: survey.survey_id,
+            survey_type: survey.type,
+            subject_id: surveyLink.subject_id,
+            score: response?.score ?? surveyLink.score,
+            comment: response?.comment ?? (comment || null),
+            follow_up: response?.follow_up ?? followUp,
+          },
+          0,
+          [...updatedEndpointIds],
+        );
+      }
 
       // Check if we're within the comment window and need to refresh webhook timer
       const existingResponse = await getExistingResponse(
@@ -0,0 +1,232 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { SQL } from "bun";
+import {
+  createSession,
+  createSessionCookie,
+  createUser,
+} from "../../services/auth";
+import { createCsrfToken } from "../../services/csrf";
+import { createBunRequest } from "../../test-utils/bun-request";
+import { cleanupTestData, randomEmail } from "../../test-utils/helpers";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("../../services/database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import {
+  getBusinessRetentionPolicy,
+  listSurveyRetentionPolicies,
+  purgeBusinessData,
+} from "../../services/retention";
+import {
+  createSurvey,
+  mintSurveyLinks,
+  type Survey,
+} from "../../services/surveys";
+import { retention } from "./retention";
+
+describe("Retention Settings Controller", () => {
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const createTestSession = async () => {
+    const user = await createUser(randomEmail(), "Test Business");
+    const sessionId = await createSession(user.id);
+    return [sessionId, user.business_id] as const;
+  };
+
+  const getRetentionPage = async (sessionId: string) => {
+    const request = createBunRequest(
+      "http://localhost:3000/settings/retention",
+      {
+        headers: { Cookie: createSessionCookie(sessionId) },
+      },
+    );
+    const response = await retention.index(request);
+    return [response, await response.text()] as const;
+  };
+
+  const postRetentionRequest = async (
+    sessionId: string,
+    fields: Record<string, string>,
+  ) => {
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      formData.append(key, value);
+    }
+    formData.append(
+      "_csrf",
+      await createCsrfToken(sessionId, "POST", "/settings/retention"),
+    );
+
+    const request = createBunRequest(
+      "http://localhost:3000/settings/retention",
+      {
+        method: "POST",
+        headers: {
+          Origin: "http://localhost:3000",
+          Cookie: createSessionCookie(sessionId),
+        },
+        body: formData,
+      },
+    );
+    return await retention.index(request);
+  };
+
+  const postRetention = async (
+    sessionId: string,
+    fields: Record<string, string>,
+  ) => {
+    const response = await postRetentionRequest(sessionId, fields);
+    return await response.text();
+  };
+
+  const createAnsweredLinks = async (survey: Survey, subjectId: string) => {
+    const minted = await mintSurveyLinks(survey, { subject_id: subjectId });
+    const token = minted.links["10"].split("/r/")[1];
+    const [link] = await connection`
+      SELECT id FROM survey_links WHERE token = ${token}
+    `;
+    await connection`
+      INSERT INTO responses (survey_link_id, comment)
+      VALUES (${link.id}, 'Forget me')
+    `;
+  };
+
+  test("shows the active policy and the last purge", async () => {
+    const [sessionId, businessId] = await createTestSession();
+    await createSurvey(businessId, "onboarding", { title: "Onboarding" });
+
+    let [response, html] = await getRetentionPage(sessionId);
+    expect(response.status).toBe(200);
+    expect(html).toContain("Data Retention - ClickNPS");
+    expect(html).toContain("Kept forever");
+    expect(html).toContain("No purge has run yet");
+    expect(html).toContain("onboarding");
+
+    await postRetention(sessionId, {
+      action: "update_business",
+      comment_retention_days: "90",
+      response_retention_days: "730",
+    });
+    await purgeBusinessData(businessId);
+
+    [, html] = await getRetentionPage(sessionId);
+    expect(html).toContain("Comments: <!-- -->90 days");
+    expect(html).toContain("Responses: <!-- -->2 years");
+    expect(html).toContain("Responses deleted");
+    expect(html).not.toContain("No purge has run yet");
+  });
+
+  test("saves the business policy", async () => {
+    const [sessionId, businessId] = await createTestSession();
+
+    const html = await postRetention(sessionId, {
+      action: "update_business",
+      comment_retention_days: "90",
+      response_retention_days: "",
+    });
+
+    expect(html).toContain("Retention policy saved");
+    expect(await getBusinessRetentionPolicy(businessId)).toEqual({
+      comment_retention_days: 90,
+      response_retention_days: null,
+    });
+  });
+
+  test("saves a survey override", async () => {
+    const [sessionId, businessId] = await createTestSession();
+    const survey = await createSurvey(businessId, "onboarding", {
+      title: "Onboarding",
+    });
+
+    const html = await postRetention(sessionId, {
+      action: "update_survey",
+      survey_id: survey.id,
+      comment_retention_days: "",
+      response_retention_days: "365",
+    });
+
+    expect(html).toContain("Survey retention saved");
+    const [policy] = await listSurveyRetentionPolicies(businessId);
+    expect(policy.response_retention_days).toBe(365);
+  });
+
+  test("rejects invalid retention periods", async () => {
+    const [sessionId] = await createTestSession();
+
+    const html = await postRetention(sessionId, {
+      action: "update_business",
+      comment_retention_days: "ninety",
+      response_retention_days: "",
+    });
+
+    expect(html).toContain("Retention must be a whole number of days");
+  });
+
+  test("exports a subject's data as a download", async () => {
+    const [sessionId, businessId] = await createTestSession();
+    const survey = await createSurvey(businessId, "onboarding", {
+      title: "Onboarding",
+    });
+    await createAnsweredLinks(survey, "customer-1");
+
+    const response = await postRetentionRequest(sessionId, {
+      action: "export_subject",
+      subject_id: "customer-1",
+      subject_survey_id: "",
+    });
+    const data = await response.json();
+
+    expect(response.headers.get("Content-Disposition")).toContain(
+      'filename="subject-customer-1.json"',
+    );
+    expect(data.subject_id).toBe("customer-1");
+    expect(data.links).toHaveLength(11);
+    expect(data.responses[0].comment).toBe("Forget me");
+  });
+
+  test("erases a subject after confirmation", async () => {
+    const [sessionId, businessId] = await createTestSession();
+    const survey = await createSurvey(businessId, "onboarding", {
+      title: "Onboarding",
+    });
+    await createAnsweredLinks(survey, "customer-1");
+
+    let html = await postRetention(sessionId, {
+      action: "erase_subject",
+      subject_id: "customer-1",
+      subject_survey_id: "onboarding",
+    });
+    expect(html).toContain("Confirm the erasure to continue");
+
+    html = await postRetention(sessionId, {
+      action: "erase_subject",
+      subject_id: "customer-1",
+      subject_survey_id: "onboarding",
+      confirm: "yes",
+    });
+    expect(html).toContain("Erased subject customer-1");
+    expect(html).toContain("Erasure receipt");
+    expect(html).toContain("signature");
+
+    const [row] = await connection`
+      SELECT COUNT(*)::int AS count FROM survey_links
+      WHERE subject_id = 'customer-1'
+    `;
+    expect(row.count).toBe(0);
+  });
+});
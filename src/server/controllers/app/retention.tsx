@@ -0,0 +1,223 @@
+import { isAdminOrOwner } from "../../middleware/access";
+import { getAuthContext, requireAuth } from "../../middleware/auth";
+import { getSessionIdFromCookies } from "../../services/auth";
+import { createCsrfToken, verifyCsrfToken } from "../../services/csrf";
+import {
+  getBusinessRetentionPolicy,
+  getLastRetentionPurge,
+  listSurveyRetentionPolicies,
+  type RetentionPolicy,
+  setRetentionPolicy,
+} from "../../services/retention";
+import { eraseSubjectData, exportSubjectData } from "../../services/subjects";
+import { Retention, type RetentionState } from "../../templates/retention";
+import { redirect, render } from "../../utils/response";
+
+export const retention = {
+  async index(req: Request): Promise<Response> {
+    // Check authentication
+    const authResponse = await requireAuth(req);
+    if (authResponse) return authResponse;
+
+    const auth = await getAuthContext(req);
+
+    if (!auth.business) {
+      return new Response("Business not found", { status: 404 });
+    }
+
+    // Check admin access
+    if (!isAdminOrOwner(auth)) {
+      return redirect("/");
+    }
+
+    if (req.method === "POST") {
+      return await handleRetentionActions(
+        req,
+        auth.business.id,
+        auth.user?.id ?? null,
+      );
+    }
+
+    return await renderRetentionPage(req, auth.business.id);
+  },
+};
+
+// A blank field keeps data forever, or on a survey inherits the business
+// setting; anything else must be a number of days
+const parseRetentionDays = (value: FormDataEntryValue | null) => {
+  const text = typeof value === "string" ? value.trim() : "";
+  return text === "" ? null : Number(text);
+};
+
+const parsePolicy = (formData: FormData): RetentionPolicy => ({
+  comment_retention_days: parseRetentionDays(
+    formData.get("comment_retention_days"),
+  ),
+  response_retention_days: parseRetentionDays(
+    formData.get("response_retention_days"),
+  ),
+});
+
+const SUBJECT_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+const parseSubjectId = (formData: FormData): string | null => {
+  const value = formData.get("subject_id");
+  const subjectId = typeof value === "string" ? value.trim() : "";
+  return SUBJECT_ID_PATTERN.test(subjectId) ? subjectId : null;
+};
+
+// The survey select is blank for requests covering every survey
+const parseSubjectSurveyId = (formData: FormData): string | null => {
+  const value = formData.get("subject_survey_id");
+  return typeof value === "string" && value !== "" ? value : null;
+};
+
+async function handleRetentionActions(
+  req: Request,
+  businessId: string,
+  userId: string | null,
+): Promise<Response> {
+  const formData = await req.formData();
+  const action = formData.get("action") as string;
+  const csrfToken = formData.get("_csrf") as string;
+
+  // Validate CSRF token
+  const cookieHeader = req.headers.get("cookie");
+  const sessionId = getSessionIdFromCookies(cookieHeader);
+
+  if (!sessionId || !csrfToken) {
+    return renderRetentionPage(req, businessId, { error: "Invalid request" });
+  }
+
+  const isValidCsrf = await verifyCsrfToken(
+    sessionId,
+    "POST",
+    "/settings/retention",
+    csrfToken,
+  );
+  if (!isValidCsrf) {
+    return renderRetentionPage(req, businessId, {
+      error: "Invalid security token",
+    });
+  }
+
+  try {
+    switch (action) {
+      case "update_business": {
+        await setRetentionPolicy(
+          businessId,
+          null,
+          parsePolicy(formData),
+          userId,
+        );
+        return renderRetentionPage(req, businessId, { updated: "business" });
+      }
+
+      case "update_survey": {
+        const surveyId = formData.get("survey_id") as string;
+        if (!surveyId) {
+          return renderRetentionPage(req, businessId, {
+            error: "Invalid survey ID",
+          });
+        }
+
+        await setRetentionPolicy(
+          businessId,
+          surveyId,
+          parsePolicy(formData),
+          userId,
+        );
+        return renderRetentionPage(req, businessId, { updated: "survey" });
+      }
+
+      case "export_subject": {
+        const subjectId = parseSubjectId(formData);
+        if (!subjectId) {
+          return renderRetentionPage(req, businessId, {
+            error: "Invalid subject ID",
+          });
+        }
+
+        const data = await exportSubjectData(
+          businessId,
+          subjectId,
+          parseSubjectSurveyId(formData),
+        );
+        return new Response(JSON.stringify(data, null, 2), {
+          headers: {
+            "Content-Type": "application/json",
+            "Content-Disposition": `attachment; filename="subject-${subjectId}.json"`,
+          },
+        });
+      }
+
+      case "erase_subject": {
+        const subjectId = parseSubjectId(formData);
+        if (!subjectId) {
+          return renderRetentionPage(req, businessId, {
+            error: "Invalid subject ID",
+          });
+        }
+        if (formData.get("confirm") !== "yes") {
+          return renderRetentionPage(req, businessId, {
+            error: "Confirm the erasure to continue",
+          });
+        }
+
+        const receipt = await eraseSubjectData(
+          businessId,
+          subjectId,
+          parseSubjectSurveyId(formData),
+          userId,
+        );
+        return renderRetentionPage(req, businessId, { receipt });
+      }
+
+      default:
+        return renderRetentionPage(req, businessId, {
+          error: "Invalid action",
+        });
+    }
+  } catch (error) {
+    return renderRetentionPage(req, businessId, {
+      error:
+        error instanceof Error
+          ? error.message
+          : "An error occurred while processing your request",
+    });
+  }
+}
+
+async function renderRetentionPage(
+  req: Request,
+  businessId: string,
+  state?: RetentionState,
+): Promise<Response> {
+  const auth = await getAuthContext(req);
+  const [policy, surveys, lastPurge, csrfToken] = await Promise.all([
+    getBusinessRetentionPolicy(businessId),
+    listSurveyRetentionPolicies(businessId),
+    getLastRetentionPurge(businessId),
+    generateCsrfToken(req),
+  ]);
+
+  return render(
+    <Retention
+      auth={auth}
+      policy={policy}
+      surveys={surveys}
+      lastPurge={lastPurge}
+      state={state}
+      csrfToken={csrfToken}
+    />,
+  );
+}
+
+async function generateCsrfToken(req: Request): Promise<string | null> {
+  const cookieHeader = req.headers.get("cookie");
+  const sessionId = getSessionIdFromCookies(cookieHeader);
+
+  if (!sessionId) return null;
+
+  return await createCsrfToken(sessionId, "POST", "/settings/retention");
+}
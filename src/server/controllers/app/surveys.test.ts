@@ -36,6 +36,7 @@ const mockListSurveys = mock(() => [
     survey_id: "customer-satisfaction",
     title: "Customer Satisfaction",
     description: "Q4 customer satisfaction survey",
+    type: "nps",
     ttl_days: 30,
     redirect_url: null,
     redirect_timing: null,
@@ -47,6 +48,7 @@ const mockListSurveys = mock(() => [
     survey_id: "employee-nps",
     title: "Employee NPS",
     description: null,
+    type: "nps",
     ttl_days: 14,
     redirect_url: null,
     redirect_timing: null,
@@ -62,6 +64,7 @@ const mockFindSurvey = mock((businessId: string, surveyId: string) => {
       survey_id: surveyId,
       title: "Existing Survey",
       description: null,
+      type: "nps",
       ttl_days: 30,
       redirect_url: null,
       redirect_timing: null,
@@ -88,6 +91,7 @@ const mockCreateSurvey = mock(
     survey_id: surveyId,
     title: options?.title || null,
     description: options?.description || null,
+    type: "nps",
     ttl_days: options?.ttl_days || 30,
     redirect_url: options?.redirect_url || null,
     redirect_timing: options?.redirect_timing || null,
@@ -110,6 +114,8 @@ const mockMintSurveyLinks = mock(() => ({
     "10": "http://localhost:3000/r/token10",
   },
   expires_at: "2025-10-20T10:00:00.000Z",
+  response: null,
+  created: true,
 }));
 
 const mockGetSurveyResponses = mock((surveyId: string) => {
@@ -139,7 +145,11 @@ const mockGetSurveyStats = mock(() => [
     survey_id: "survey-1",
     response_count: 2,
     comment_count: 1,
-    average_nps: 8.5,
+    type: "nps",
+    score: 50,
+    promoters: 1,
+    passives: 1,
+    detractors: 0,
     unique_subjects_count: 3,
     response_rate: 67,
   },
@@ -147,7 +157,11 @@ const mockGetSurveyStats = mock(() => [
     survey_id: "survey-2",
     response_count: 0,
     comment_count: 0,
-    average_nps: null,
+    type: "nps",
+    score: null,
+    promoters: 0,
+    passives: 0,
+    detractors: 0,
     unique_subjects_count: 0,
     response_rate: null,
   },
@@ -269,6 +283,9 @@ describe("Surveys Controller", () => {
       expect(html).toContain("input");
       expect(html).toContain("textarea");
       expect(html).toContain("Back to Surveys");
+      expect(html).toContain('name="brandColor"');
+      expect(html).toContain('name="promoterHeadline"');
+      expect(html).toContain('data-element="branding-preview"');
     });
 
     test("redirects unauthenticated users", async () => {
@@ -314,7 +331,10 @@ describe("Surveys Controller", () => {
         {
           title: "Customer Satisfaction",
           description: "Q4 customer satisfaction survey",
+          type: "nps",
           ttl_days: 14,
+          branding: null,
+          follow_up: null,
         },
       );
 
@@ -355,7 +375,10 @@ describe("Surveys Controller", () => {
         {
           title: "Simple Survey",
           description: undefined,
+          type: "nps",
           ttl_days: 30,
+          branding: null,
+          follow_up: null,
         },
       );
 
@@ -456,7 +479,10 @@ describe("Surveys Controller", () => {
         {
           title: "Test Survey",
           description: undefined,
+          type: "nps",
           ttl_days: 30,
+          branding: null,
+          follow_up: null,
         },
       );
 
@@ -464,6 +490,244 @@ describe("Surveys Controller", () => {
       expect(response.headers.get("location")).toContain("/surveys");
     });
 
+    test("creates survey with thank you page branding", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const cookieHeader = createSessionCookie(sessionId);
+      const csrfToken = await createCsrfToken(
+        sessionId,
+        "POST",
+        "/surveys/new",
+      );
+
+      const mockFormData = new FormData();
+      mockFormData.set("title", "Branded Survey");
+      mockFormData.set("surveyId", "branded-survey");
+      mockFormData.set("ttlDays", "30");
+      mockFormData.set("logoUrl", "https://example.com/logo.png");
+      mockFormData.set("brandColor", "#1E40AF");
+      mockFormData.set("promoterHeadline", "You made our day!");
+      mockFormData.set("detractorBody", "");
+      mockFormData.set("_csrf", csrfToken);
+
+      const request = createBunRequest("http://localhost:3000/surveys/new", {
+        method: "POST",
+        headers: {
+          Origin: "http://localhost:3000",
+          Cookie: cookieHeader,
+        },
+        body: mockFormData,
+      });
+
+      const response = await surveys.create(request);
+
+      expect(mockCreateSurvey).toHaveBeenCalledWith(
+        businessId,
+        "branded-survey",
+        {
+          title: "Branded Survey",
+          description: undefined,
+          type: "nps",
+          ttl_days: 30,
+          branding: {
+            logo_url: "https://example.com/logo.png",
+            brand_color: "#1e40af",
+            promoter_headline: "You made our day!",
+          },
+          follow_up: null,
+        },
+      );
+      expect(response.status).toBe(303);
+    });
+
+    test("rejects invalid branding", async () => {
+      const [sessionId] = await createTestSession();
+      const cookieHeader = createSessionCookie(sessionId);
+      const csrfToken = await createCsrfToken(
+        sessionId,
+        "POST",
+        "/surveys/new",
+      );
+
+      const mockFormData = new FormData();
+      mockFormData.set("title", "Branded Survey");
+      mockFormData.set("surveyId", "branded-survey");
+      mockFormData.set("ttlDays", "30");
+      mockFormData.set("brandColor", "blue");
+      mockFormData.set("_csrf", csrfToken);
+
+      const request = createBunRequest("http://localhost:3000/surveys/new", {
+        method: "POST",
+        headers: {
+          Origin: "http://localhost:3000",
+          Cookie: cookieHeader,
+        },
+        body: mockFormData,
+      });
+
+      const response = await surveys.create(request);
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get("location")).toContain("/surveys/new");
+      expect(mockCreateSurvey).not.toHaveBeenCalled();
+    });
+
+    test("creates survey with a follow-up question", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const cookieHeader = createSessionCookie(sessionId);
+      const csrfToken = await createCsrfToken(
+        sessionId,
+        "POST",
+        "/surveys/new",
+      );
+
+      const mockFormData = new FormData();
+      mockFormData.set("title", "Follow-up Survey");
+      mockFormData.set("surveyId", "follow-up-survey");
+      mockFormData.set("ttlDays", "30");
+      mockFormData.set("followUpQuestion", "What should we improve?");
+      mockFormData.set("promoterFollowUpOptions", "");
+      mockFormData.set("detractorFollowUpOptions", "Price\r\nSupport\n\nSpeed");
+      mockFormData.set("_csrf", csrfToken);
+
+      const request = createBunRequest("http://localhost:3000/surveys/new", {
+        method: "POST",
+        headers: {
+          Origin: "http://localhost:3000",
+          Cookie: cookieHeader,
+        },
+        body: mockFormData,
+      });
+
+      const response = await surveys.create(request);
+
+      expect(mockCreateSurvey).toHaveBeenCalledWith(
+        businessId,
+        "follow-up-survey",
+        {
+          title: "Follow-up Survey",
+          description: undefined,
+          type: "nps",
+          ttl_days: 30,
+          branding: null,
+          follow_up: {
+            question: "What should we improve?",
+            options: {
+              promoter: [],
+              passive: [],
+              detractor: ["Price", "Support", "Speed"],
+            },
+          },
+        },
+      );
+      expect(response.status).toBe(303);
+    });
+
+    test("rejects a follow-up question without options", async () => {
+      const [sessionId] = await createTestSession();
+      const cookieHeader = createSessionCookie(sessionId);
+      const csrfToken = await createCsrfToken(
+        sessionId,
+        "POST",
+        "/surveys/new",
+      );
+
+      const mockFormData = new FormData();
+      mockFormData.set("title", "Follow-up Survey");
+      mockFormData.set("surveyId", "follow-up-survey");
+      mockFormData.set("ttlDays", "30");
+      mockFormData.set("followUpQuestion", "What should we improve?");
+      mockFormData.set("_csrf", csrfToken);
+
+      const request = createBunRequest("http://localhost:3000/surveys/new", {
+        method: "POST",
+        headers: {
+          Origin: "http://localhost:3000",
+          Cookie: cookieHeader,
+        },
+        body: mockFormData,
+      });
+
+      const response = await surveys.create(request);
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get("location")).toContain("/surveys/new");
+      expect(mockCreateSurvey).not.toHaveBeenCalled();
+    });
+
+    test("creates a survey of another type", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const cookieHeader = createSessionCookie(sessionId);
+      const csrfToken = await createCsrfToken(
+        sessionId,
+        "POST",
+        "/surveys/new",
+      );
+
+      const mockFormData = new FormData();
+      mockFormData.set("title", "Support CSAT");
+      mockFormData.set("surveyId", "support-csat");
+      mockFormData.set("ttlDays", "30");
+      mockFormData.set("type", "csat");
+      mockFormData.set("_csrf", csrfToken);
+
+      const request = createBunRequest("http://localhost:3000/surveys/new", {
+        method: "POST",
+        headers: {
+          Origin: "http://localhost:3000",
+          Cookie: cookieHeader,
+        },
+        body: mockFormData,
+      });
+
+      const response = await surveys.create(request);
+
+      expect(mockCreateSurvey).toHaveBeenCalledWith(
+        businessId,
+        "support-csat",
+        {
+          title: "Support CSAT",
+          description: undefined,
+          type: "csat",
+          ttl_days: 30,
+          branding: null,
+          follow_up: null,
+        },
+      );
+      expect(response.status).toBe(303);
+    });
+
+    test("rejects an unknown survey type", async () => {
+      const [sessionId] = await createTestSession();
+      const cookieHeader = createSessionCookie(sessionId);
+      const csrfToken = await createCsrfToken(
+        sessionId,
+        "POST",
+        "/surveys/new",
+      );
+
+      const mockFormData = new FormData();
+      mockFormData.set("title", "Star Survey");
+      mockFormData.set("surveyId", "star-survey");
+      mockFormData.set("ttlDays", "30");
+      mockFormData.set("type", "stars");
+      mockFormData.set("_csrf", csrfToken);
+
+      const request = createBunRequest("http://localhost:3000/surveys/new", {
+        method: "POST",
+        headers: {
+          Origin: "http://localhost:3000",
+          Cookie: cookieHeader,
+        },
+        body: mockFormData,
+      });
+
+      const response = await surveys.create(request);
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get("location")).toContain("/surveys/new");
+      expect(mockCreateSurvey).not.toHaveBeenCalled();
+    });
+
     test("prevents creating survey with existing ID", async () => {
       const [sessionId] = await createTestSession();
       const cookieHeader = createSessionCookie(sessionId);
@@ -559,6 +823,7 @@ describe("Surveys Controller", () => {
             "10": "http://localhost:3000/r/token10",
           },
           expires_at: "2025-10-20T10:00:00.000Z",
+          htmlStyle: "compact",
         },
       };
       const encodedState = encodeURIComponent(JSON.stringify(stateData));
@@ -586,6 +851,11 @@ describe("Surveys Controller", () => {
       }
 
       expect(html).toContain("10/20/2025");
+
+      // The email snippet uses the chosen style
+      expect(html).toContain("Email Snippet");
+      expect(html).toContain('data-element="email-snippet-preview"');
+      expect(html).toContain("text-decoration:underline");
     });
 
     test("redirects unauthenticated users", async () => {
@@ -647,6 +917,9 @@ describe("Surveys Controller", () => {
         "/surveys/existing-survey/mint",
       );
       expect(response.headers.get("location")).toContain("state=");
+      expect(
+        decodeURIComponent(response.headers.get("location") ?? ""),
+      ).toContain('"htmlStyle":"buttons"');
     });
 
     test("uses survey default TTL when not provided", async () => {
@@ -868,6 +1141,7 @@ describe("Surveys Controller", () => {
         survey_id: "empty-survey",
         title: "Empty Survey",
         description: null,
+        type: "nps",
         ttl_days: 30,
         redirect_url: null,
         redirect_timing: null,
@@ -920,4 +1194,188 @@ describe("Surveys Controller", () => {
       expect(await response.text()).toContain("Survey not found");
     });
   });
+
+  describe("GET /surveys/:surveyId/analytics", () => {
+    const analyticsRequest = (sessionId: string, query = "") =>
+      createBunRequest(
+        `http://localhost:3000/surveys/existing-survey/analytics${query}`,
+        { headers: { Cookie: createSessionCookie(sessionId) } },
+        { surveyId: "existing-survey" },
+      );
+
+    test("shows the distribution and trend charts", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const [survey] = await connection`
+        INSERT INTO surveys (business_id, survey_id, title)
+        VALUES (${businessId}, 'existing-survey', 'Existing Survey')
+        RETURNING *
+      `;
+      mockFindSurvey.mockImplementationOnce(() => survey);
+      const [link] = await connection`
+        INSERT INTO survey_links (token, survey_id, subject_id, score, expires_at)
+        VALUES (${crypto.randomUUID()}, ${survey.id}, 'customer-1', 10, ${new Date(Date.now() + 86400000)})
+        RETURNING id
+      `;
+      await connection`
+        INSERT INTO responses (survey_link_id, comment)
+        VALUES (${link.id}, 'Great')
+      `;
+
+      const response = await surveys.analytics(
+        analyticsRequest(sessionId, "?granularity=month"),
+      );
+      const html = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(html).toContain("Survey Analytics - ClickNPS");
+      expect(html).toContain('id="score-histogram"');
+      expect(html).toContain('id="nps-chart"');
+      expect(html).toContain('id="rate-chart"');
+      expect(html).toContain('tab tab-active">Monthly');
+    });
+
+    test("shows empty states and defaults to weekly", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const [survey] = await connection`
+        INSERT INTO surveys (business_id, survey_id, title)
+        VALUES (${businessId}, 'existing-survey', 'Existing Survey')
+        RETURNING *
+      `;
+      mockFindSurvey.mockImplementationOnce(() => survey);
+
+      const response = await surveys.analytics(
+        analyticsRequest(sessionId, "?granularity=hourly"),
+      );
+      const html = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(html).toContain("No data available");
+      expect(html).not.toContain('id="nps-chart"');
+      expect(html).toContain('tab tab-active">Weekly');
+    });
+
+    test("returns 404 for non-existent survey", async () => {
+      const [sessionId] = await createTestSession();
+
+      const response = await surveys.analytics(
+        createBunRequest(
+          "http://localhost:3000/surveys/non-existent/analytics",
+          { headers: { Cookie: createSessionCookie(sessionId) } },
+          { surveyId: "non-existent" },
+        ),
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("GET /surveys/:surveyId/responses/export", () => {
+    // The survey service is mocked, so point it at a real survey row
+    const createExportSurvey = async (businessId: string) => {
+      const [survey] = await connection`
+        INSERT INTO surveys (business_id, survey_id, title)
+        VALUES (${businessId}, 'existing-survey', 'Existing Survey')
+        RETURNING *
+      `;
+      mockFindSurvey.mockImplementationOnce(() => survey);
+
+      for (const [subjectId, respondedAt] of [
+        ["customer-jan", "2025-01-15T10:00:00Z"],
+        ["customer-feb", "2025-02-15T10:00:00Z"],
+      ]) {
+        const [link] = await connection`
+          INSERT INTO survey_links (token, survey_id, subject_id, score, expires_at)
+          VALUES (${crypto.randomUUID()}, ${survey.id}, ${subjectId}, 9, ${new Date(Date.now() + 86400000)})
+          RETURNING id
+        `;
+        await connection`
+          INSERT INTO responses (survey_link_id, responded_at)
+          VALUES (${link.id}, ${new Date(respondedAt)})
+        `;
+      }
+    };
+
+    const exportRequest = (sessionId: string, query: string) =>
+      createBunRequest(
+        `http://localhost:3000/surveys/existing-survey/responses/export${query}`,
+        { headers: { Cookie: createSessionCookie(sessionId) } },
+        { surveyId: "existing-survey" },
+      );
+
+    test("downloads responses in the date range as CSV", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      await createExportSurvey(businessId);
+
+      const response = await surveys.exportResponses(
+        exportRequest(sessionId, "?format=csv&from=2025-02-01&to=2025-02-15"),
+      );
+      const csv = await response.text();
+
+      expect(response.headers.get("content-type")).toBe(
+        "text/csv; charset=utf-8",
+      );
+      expect(response.headers.get("content-disposition")).toBe(
+        'attachment; filename="existing-survey-responses.csv"',
+      );
+      expect(csv).toContain("customer-feb");
+      expect(csv).not.toContain("customer-jan");
+    });
+
+    test("downloads NDJSON", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      await createExportSurvey(businessId);
+
+      const response = await surveys.exportResponses(
+        exportRequest(sessionId, "?format=ndjson"),
+      );
+      const lines = (await response.text()).trim().split("\n");
+
+      expect(response.headers.get("content-type")).toBe("application/x-ndjson");
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0]).subject_id).toBe("customer-jan");
+    });
+
+    test("rejects unknown formats and malformed dates", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const survey = {
+        id: crypto.randomUUID(),
+        business_id: businessId,
+        survey_id: "existing-survey",
+        title: "Existing Survey",
+        description: null,
+        type: "nps",
+        ttl_days: 30,
+        redirect_url: null,
+        redirect_timing: null,
+        created_at: new Date(),
+      };
+      mockFindSurvey
+        .mockImplementationOnce(() => survey)
+        .mockImplementationOnce(() => survey);
+
+      const formatResponse = await surveys.exportResponses(
+        exportRequest(sessionId, "?format=xlsx"),
+      );
+      const dateResponse = await surveys.exportResponses(
+        exportRequest(sessionId, "?from=01/02/2025"),
+      );
+
+      expect(formatResponse.status).toBe(400);
+      expect(dateResponse.status).toBe(400);
+    });
+
+    test("returns 404 for non-existent survey", async () => {
+      const [sessionId] = await createTestSession();
+
+      const response = await surveys.exportResponses(
+        createBunRequest(
+          "http://localhost:3000/surveys/non-existent/responses/export",
+          { headers: { Cookie: createSessionCookie(sessionId) } },
+          { surveyId: "non-existent" },
+        ),
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
 });
@@ -1,8 +1,22 @@
 import type { BunRequest } from "bun";
 import { getAuthContext, requireAuth } from "../../middleware/auth";
 import { csrfProtection } from "../../middleware/csrf";
+import {
+  getSurveyAnalytics,
+  getSurveyTrend,
+  TREND_GRANULARITIES,
+  type TrendGranularity,
+} from "../../services/analytics";
 import { getSessionIdFromCookies } from "../../services/auth";
 import { createCsrfToken } from "../../services/csrf";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  getExportFilename,
+  type ResponseExportFilters,
+  streamResponseExport,
+} from "../../services/exports";
 import {
   createSurvey,
   findSurvey,
@@ -11,6 +25,8 @@ import {
   listSurveys,
   mintSurveyLinks,
 } from "../../services/surveys";
+import { queueWebhookEvent } from "../../services/webhooks";
+import { SurveyAnalytics } from "../../templates/survey-analytics";
 import type { SurveyMintState } from "../../templates/survey-mint";
 import { SurveyMint } from "../../templates/survey-mint";
 import type { SurveyNewState } from "../../templates/survey-new";
@@ -18,13 +34,35 @@ import { SurveyNew } from "../../templates/survey-new";
 import { SurveyResponses } from "../../templates/survey-responses";
 import type { SurveysState } from "../../templates/surveys";
 import { Surveys } from "../../templates/surveys";
+import { BRANDING_FIELDS, parseSurveyBranding } from "../../utils/branding";
+import {
+  DEFAULT_EMAIL_SNIPPET_STYLE,
+  isEmailSnippetStyle,
+} from "../../utils/email-snippet";
+import { parseFollowUpConfig } from "../../utils/follow-up";
+import { matchLocale } from "../../utils/i18n";
+import { NPS_CATEGORIES } from "../../utils/nps";
 import { redirect, render } from "../../utils/response";
 import { stateHelpers } from "../../utils/state";
+import { DEFAULT_SURVEY_TYPE, isSurveyType } from "../../utils/survey-types";
 
 const surveysStateHelpers = stateHelpers<SurveysState>();
 const surveyNewStateHelpers = stateHelpers<SurveyNewState>();
 const surveyMintStateHelpers = stateHelpers<SurveyMintState>();
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a YYYY-MM-DD date input as the start of that day in UTC
+ * Returns undefined when blank and null when malformed
+ */
+const parseDateInput = (value: string | null): Date | null | undefined => {
+  if (!value) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
 export const surveys = {
   async index(req: BunRequest): Promise<Response> {
     const authRequired = await requireAuth(req);
@@ -115,6 +153,8 @@ export const surveys = {
       const ttlDaysStr = formData.get("ttlDays")?.toString()?.trim();
       const redirectUrl = formData.get("redirectUrl")?.toString()?.trim();
       const redirectTiming = formData.get("redirectTiming")?.toString()?.trim();
+      const type =
+        formData.get("type")?.toString()?.trim() || DEFAULT_SURVEY_TYPE;
 
       // Validate required fields
       if (!title || !surveyId || !ttlDaysStr) {
@@ -163,6 +203,14 @@ export const surveys = {
         );
       }
 
+      if (!isSurveyType(type)) {
+        return redirect(
+          surveyNewStateHelpers.buildRedirectUrlWithState("/surveys/new", {
+            error: "Invalid survey type",
+          }),
+        );
+      }
+
       // Validate redirect timing if provided
       if (
         redirectTiming &&
@@ -198,6 +246,50 @@ export const surveys = {
         }
       }
 
+      // Thank you page branding, posted as camelCase fields (logo_url -> logoUrl)
+      const brandingResult = parseSurveyBranding(
+        Object.fromEntries(
+          BRANDING_FIELDS.map((field) => [
+            field,
+            formData
+              .get(
+                field.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase()),
+              )
+              ?.toString(),
+          ]),
+        ),
+      );
+      if ("error" in brandingResult) {
+        return redirect(
+          surveyNewStateHelpers.buildRedirectUrlWithState("/surveys/new", {
+            error: brandingResult.error,
+          }),
+        );
+      }
+
+      // Follow-up question, with one answer per line for each category
+      const followUpQuestion = formData.get("followUpQuestion")?.toString();
+      const followUpResult = followUpQuestion?.trim()
+        ? parseFollowUpConfig({
+            question: followUpQuestion,
+            options: Object.fromEntries(
+              NPS_CATEGORIES.map((category) => [
+                category,
+                (
+                  formData.get(`${category}FollowUpOptions`)?.toString() ?? ""
+                ).split("\n"),
+              ]),
+            ),
+          })
+        : { followUp: null };
+      if ("error" in followUpResult) {
+        return redirect(
+          surveyNewStateHelpers.buildRedirectUrlWithState("/surveys/new", {
+            error: followUpResult.error,
+          }),
+        );
+      }
+
       const auth = await getAuthContext(req);
       if (!auth.business) {
         return new Response("Business not found", { status: 404 });
@@ -214,9 +306,10 @@ export const surveys = {
       }
 
       // Create the survey
-      await createSurvey(auth.business.id, surveyId, {
+      const survey = await createSurvey(auth.business.id, surveyId, {
         title,
         description,
+        type,
         ttl_days: ttlDays,
         redirect_url:
           redirectTiming && redirectTiming !== "" && redirectUrl
@@ -226,6 +319,13 @@ export const surveys = {
           redirectTiming && redirectTiming !== ""
             ? (redirectTiming as "pre_comment" | "post_comment")
             : undefined,
+        branding: brandingResult.branding,
+        follow_up: followUpResult.followUp,
+      });
+
+      await queueWebhookEvent(auth.business.id, "survey.created", {
+        survey_id: survey.survey_id,
+        title: survey.title,
       });
 
       const successState: SurveysState = {
@@ -312,6 +412,10 @@ export const surveys = {
       const formData = await req.formData();
       const subjectId = formData.get("subjectId")?.toString()?.trim();
       const ttlDaysStr = formData.get("ttlDays")?.toString()?.trim();
+      const langStr = formData.get("lang")?.toString()?.trim();
+      const htmlStyle =
+        formData.get("htmlStyle")?.toString()?.trim() ||
+        DEFAULT_EMAIL_SNIPPET_STYLE;
 
       // Validate required fields
       if (!subjectId) {
@@ -354,6 +458,30 @@ export const surveys = {
         }
       }
 
+      // Blank follows the respondent's browser
+      const lang = langStr ? matchLocale(langStr) : null;
+      if (langStr && !lang) {
+        return redirect(
+          surveyMintStateHelpers.buildRedirectUrlWithState(
+            `/surveys/${surveyId}/mint`,
+            {
+              error: "Unsupported language",
+            },
+          ),
+        );
+      }
+
+      if (!isEmailSnippetStyle(htmlStyle)) {
+        return redirect(
+          surveyMintStateHelpers.buildRedirectUrlWithState(
+            `/surveys/${surveyId}/mint`,
+            {
+              error: "Unsupported email snippet style",
+            },
+          ),
+        );
+      }
+
       const auth = await getAuthContext(req);
       if (!auth.business) {
         return new Response("Business not found", { status: 404 });
@@ -376,13 +504,24 @@ export const surveys = {
       const result = await mintSurveyLinks(survey, {
         subject_id: subjectId,
         ttl_days: ttlDays,
+        lang: lang ?? undefined,
       });
 
+      if (result.created) {
+        await queueWebhookEvent(auth.business.id, "links.minted", {
+          survey_id: survey.survey_id,
+          subject_ids: [subjectId],
+          expires_at: result.expires_at,
+        });
+      }
+
       const successState: SurveyMintState = {
         success: {
           subjectId,
           links: result.links,
           expires_at: result.expires_at,
+          htmlStyle,
+          lang: result.lang ?? undefined,
         },
       };
 
@@ -460,4 +599,109 @@ export const surveys = {
       />,
     );
   },
+
+  /**
+   * Score distribution, score trend and response rates for one survey
+   * The trend is daily, weekly or monthly; weekly unless asked otherwise.
+   */
+  async analytics<T extends `${string}:surveyId${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authRequired = await requireAuth(req);
+    if (authRequired) return authRequired;
+
+    const auth = await getAuthContext(req);
+
+    let csrfToken: string | null = null;
+    const sessionId = getSessionIdFromCookies(req.headers.get("cookie"));
+    if (sessionId) {
+      csrfToken = await createCsrfToken(sessionId, "POST", "/auth/logout");
+    }
+
+    if (!auth.business) {
+      return new Response("Business not found", { status: 404 });
+    }
+
+    const survey = await findSurvey(auth.business.id, req.params.surveyId);
+    if (!survey) {
+      return new Response("Survey not found", {
+        status: 404,
+        headers: { "content-type": "text/html" },
+      });
+    }
+
+    const requested = new URL(req.url).searchParams.get("granularity");
+    const granularity = TREND_GRANULARITIES.includes(
+      requested as TrendGranularity,
+    )
+      ? (requested as TrendGranularity)
+      : "week";
+
+    const [analytics, trend] = await Promise.all([
+      getSurveyAnalytics(survey.id, survey.type),
+      getSurveyTrend(survey.id, survey.type, granularity),
+    ]);
+
+    return render(
+      <SurveyAnalytics
+        auth={auth}
+        survey={survey}
+        analytics={analytics}
+        trend={trend}
+        granularity={granularity}
+        csrfToken={csrfToken}
+      />,
+    );
+  },
+
+  /**
+   * Download a survey's responses as CSV or NDJSON
+   * The from and to dates are inclusive days in UTC.
+   */
+  async exportResponses<T extends `${string}:surveyId${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authRequired = await requireAuth(req);
+    if (authRequired) return authRequired;
+
+    const auth = await getAuthContext(req);
+    if (!auth.business) {
+      return new Response("Business not found", { status: 404 });
+    }
+
+    const survey = await findSurvey(auth.business.id, req.params.surveyId);
+    if (!survey) {
+      return new Response("Survey not found", { status: 404 });
+    }
+
+    const params = new URL(req.url).searchParams;
+    const format = (params.get("format") || "csv") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return new Response("Unsupported export format", { status: 400 });
+    }
+
+    const from = parseDateInput(params.get("from"));
+    const to = parseDateInput(params.get("to"));
+    if (from === null || to === null) {
+      return new Response("Dates must be in YYYY-MM-DD format", {
+        status: 400,
+      });
+    }
+
+    const filters: ResponseExportFilters = {
+      survey_id: survey.id,
+      responded_after: from,
+      responded_before: to ? new Date(to.getTime() + DAY_MS) : undefined,
+    };
+
+    return new Response(
+      streamResponseExport(auth.business.id, filters, format),
+      {
+        headers: {
+          "Content-Type": EXPORT_CONTENT_TYPES[format],
+          "Content-Disposition": `attachment; filename="${getExportFilename(survey.survey_id, format)}"`,
+        },
+      },
+    );
+  },
 };
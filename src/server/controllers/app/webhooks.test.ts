@@ -18,6 +18,7 @@ import { createBunRequest } from "../../test-utils/bun-request";
 import { cleanupTestData, randomEmail } from "../../test-utils/helpers";
 import {
   clearWebhookQueue,
+  createTestWebhook,
   mockWebhookEndpoint,
 } from "../../test-utils/webhooks";
 
@@ -32,19 +33,15 @@ mock.module("../../services/database", () => ({
   },
 }));
 
-// Mock the webhook service
-const mockUpdateWebhookSettings = mock();
-const mockGetWebhookSettings = mock();
-const mockSendTestWebhook = mock();
-const mockGetRecentWebhookDeliveries = mock();
-
-mock.module("../../services/webhooks", () => ({
-  updateWebhookSettings: mockUpdateWebhookSettings,
-  getWebhookSettings: mockGetWebhookSettings,
-  sendTestWebhook: mockSendTestWebhook,
-  getRecentWebhookDeliveries: mockGetRecentWebhookDeliveries,
-}));
-
+import { listAuditEntries } from "../../services/audit";
+import { createSurvey } from "../../services/surveys";
+import {
+  createWebhookEndpoint,
+  getWebhookDelivery,
+  listWebhookEndpoints,
+  MAX_WEBHOOK_ATTEMPTS,
+  updateWebhookAfterAttempt,
+} from "../../services/webhooks";
 import { webhooks } from "./webhooks";
 
 describe("Webhook Settings Controller", () => {
@@ -58,10 +55,6 @@ describe("Webhook Settings Controller", () => {
 
   afterEach(() => {
     mockEndpoint.cleanup();
-    mockUpdateWebhookSettings.mockClear();
-    mockGetWebhookSettings.mockClear();
-    mockSendTestWebhook.mockClear();
-    mockGetRecentWebhookDeliveries.mockClear();
   });
 
   afterAll(async () => {
@@ -72,31 +65,65 @@ describe("Webhook Settings Controller", () => {
   const createTestSession = async () => {
     const user = await createUser(randomEmail(), "Test Business");
     const sessionId = await createSession(user.id);
-    return [sessionId, user.business_id] as const;
+    return [sessionId, user.business_id, user.id] as const;
+  };
+
+  const getWebhooksPage = async (sessionId: string) => {
+    const request = createBunRequest(
+      "http://localhost:3000/settings/webhooks",
+      {
+        headers: { Cookie: createSessionCookie(sessionId) },
+      },
+    );
+    const response = await webhooks.index(request);
+    return [response, await response.text()] as const;
+  };
+
+  const postWebhooks = async (
+    sessionId: string,
+    fields: Record<string, string | string[]>,
+    csrf: "valid" | "invalid" | "missing" = "valid",
+  ) => {
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        formData.append(key, item);
+      }
+    }
+    if (csrf === "valid") {
+      formData.append(
+        "_csrf",
+        await createCsrfToken(sessionId, "POST", "/settings/webhooks"),
+      );
+    } else if (csrf === "invalid") {
+      formData.append("_csrf", "invalid-token");
+    }
+
+    const request = createBunRequest(
+      "http://localhost:3000/settings/webhooks",
+      {
+        method: "POST",
+        headers: {
+          Origin: "http://localhost:3000",
+          Cookie: createSessionCookie(sessionId),
+        },
+        body: formData,
+      },
+    );
+    const response = await webhooks.index(request);
+    return response.text();
   };
 
   describe("GET /settings/webhooks", () => {
     test("renders webhooks settings page for authenticated user", async () => {
-      const [sessionId, businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-
-      mockGetWebhookSettings.mockReturnValue(null);
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
+      const [sessionId] = await createTestSession();
 
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          headers: { Cookie: cookieHeader },
-        },
-      );
-      const response = await webhooks.index(request);
-      const html = await response.text();
+      const [response, html] = await getWebhooksPage(sessionId);
 
-      expect(mockGetWebhookSettings).toHaveBeenCalledWith(businessId);
-      expect(mockGetRecentWebhookDeliveries).toHaveBeenCalledWith(businessId);
       expect(response.headers.get("content-type")).toBe("text/html");
       expect(html).toContain("Webhooks");
-      expect(html).toContain("Configure webhook delivery");
+      expect(html).toContain("No webhook endpoints configured");
+      expect(html).toContain("Add Endpoint");
       expect(html).toContain("webhook_url");
     });
 
@@ -110,54 +137,43 @@ describe("Webhook Settings Controller", () => {
       expect(response.headers.get("location")).toBe("/login");
     });
 
-    test("shows existing webhook settings", async () => {
-      const [sessionId, _businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-
-      mockGetWebhookSettings.mockReturnValue({
-        webhook_url: "https://example.com/webhook",
-        webhook_secret: "whk_test_secret_123",
+    test("lists endpoints with masked secrets and survey scope", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const survey = await createSurvey(businessId, "onboarding", {
+        title: "Onboarding Survey",
+      });
+      await createWebhookEndpoint(businessId, {
+        url: "https://example.com/all",
+        secret: "whk_test_secret_123",
+        description: "Data warehouse",
+      });
+      await createWebhookEndpoint(businessId, {
+        url: "https://example.com/onboarding",
+        surveyIds: [survey.id],
       });
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
 
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          headers: { Cookie: cookieHeader },
-        },
-      );
-      const response = await webhooks.index(request);
-      const html = await response.text();
+      const [, html] = await getWebhooksPage(sessionId);
 
-      expect(html).toContain("https://example.com/webhook");
+      expect(html).toContain("https://example.com/all");
+      expect(html).toContain("Data warehouse");
       expect(html).toContain("whk_•••••••••••_123");
+      expect(html).not.toContain("whk_test_secret_123");
+      expect(html).toContain("All surveys");
+      expect(html).toContain("https://example.com/onboarding");
+      expect(html).toContain("Onboarding Survey");
     });
 
     test("shows recent webhook deliveries", async () => {
-      const [sessionId, _businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
+      const [sessionId, businessId] = await createTestSession();
+      const id = await createTestWebhook(businessId, {
+        surveyId: "test-survey",
+        status: "delivered",
+      });
+      await connection`
+        UPDATE webhook_queue SET response_status_code = 200 WHERE id = ${id}
+      `;
 
-      mockGetWebhookSettings.mockReturnValue(null);
-      mockGetRecentWebhookDeliveries.mockReturnValue([
-        {
-          id: "webhook-1",
-          survey_id: "test-survey",
-          subject_id: "test-user",
-          status: "delivered",
-          attempts: 1,
-          response_status_code: 200,
-          created_at: new Date(),
-        },
-      ]);
-
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          headers: { Cookie: cookieHeader },
-        },
-      );
-      const response = await webhooks.index(request);
-      const html = await response.text();
+      const [, html] = await getWebhooksPage(sessionId);
 
       expect(html).toContain("Recent Webhook Deliveries");
       expect(html).toContain("test-survey");
@@ -166,345 +182,433 @@ describe("Webhook Settings Controller", () => {
     });
   });
 
-  describe("POST /settings/webhooks - update", () => {
-    test("updates webhook settings successfully", async () => {
+  describe("POST /settings/webhooks - create", () => {
+    test("creates an endpoint and shows the secret once", async () => {
       const [sessionId, businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-      const csrfToken = await createCsrfToken(
-        sessionId,
-        "POST",
-        "/settings/webhooks",
-      );
 
-      mockUpdateWebhookSettings.mockReturnValue({
+      const html = await postWebhooks(sessionId, {
+        action: "create",
         webhook_url: "https://example.com/webhook",
         webhook_secret: "custom_secret",
+        description: "Support CRM",
       });
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
-
-      const formData = new FormData();
-      formData.append("action", "update");
-      formData.append("webhook_url", "https://example.com/webhook");
-      formData.append("webhook_secret", "custom_secret");
-      formData.append("_csrf", csrfToken);
 
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          method: "POST",
-          headers: {
-            Origin: "http://localhost:3000",
-            Cookie: cookieHeader,
-          },
-          body: formData,
-        },
-      );
-
-      const response = await webhooks.index(request);
-      const html = await response.text();
-
-      expect(mockUpdateWebhookSettings).toHaveBeenCalledWith(
-        businessId,
-        "https://example.com/webhook",
-        "custom_secret",
-      );
-      expect(html).toContain("Webhook Settings Updated Successfully");
+      expect(html).toContain("Webhook Endpoint Added Successfully");
       expect(html).toContain("https://example.com/webhook");
       expect(html).toContain("custom_secret"); // Full secret should be shown once
       expect(html).toContain("copy this now");
+
+      const endpoints = await listWebhookEndpoints(businessId);
+      expect(endpoints).toHaveLength(1);
+      expect(endpoints[0].secret).toBe("custom_secret");
+      expect(endpoints[0].description).toBe("Support CRM");
     });
 
     test("auto-generates secret when not provided", async () => {
       const [sessionId, businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-      const csrfToken = await createCsrfToken(
-        sessionId,
-        "POST",
-        "/settings/webhooks",
-      );
 
-      mockUpdateWebhookSettings.mockReturnValue({
+      const html = await postWebhooks(sessionId, {
+        action: "create",
         webhook_url: "https://example.com/webhook",
-        webhook_secret: "whk_auto_generated_secret_123",
+        webhook_secret: "",
       });
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
 
-      const formData = new FormData();
-      formData.append("action", "update");
-      formData.append("webhook_url", "https://example.com/webhook");
-      formData.append("webhook_secret", ""); // Empty secret
-      formData.append("_csrf", csrfToken);
+      const [endpoint] = await listWebhookEndpoints(businessId);
+      expect(endpoint.secret).toStartWith("whk_");
+      expect(html).toContain(endpoint.secret);
+    });
 
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          method: "POST",
-          headers: {
-            Origin: "http://localhost:3000",
-            Cookie: cookieHeader,
-          },
-          body: formData,
-        },
-      );
+    test("scopes the endpoint to selected surveys", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const first = await createSurvey(businessId, "first", {
+        title: "First",
+      });
+      const second = await createSurvey(businessId, "second", {
+        title: "Second",
+      });
 
-      const response = await webhooks.index(request);
-      const html = await response.text();
+      await postWebhooks(sessionId, {
+        action: "create",
+        webhook_url: "https://example.com/webhook",
+        survey_ids: [first.id, second.id],
+      });
 
-      expect(mockUpdateWebhookSettings).toHaveBeenCalledWith(
-        businessId,
-        "https://example.com/webhook",
-        null,
-      );
-      expect(html).toContain("Webhook Settings Updated Successfully");
-      expect(html).toContain("whk_auto_generated_secret_123");
-      expect(html).toContain("copy this now");
+      const [endpoint] = await listWebhookEndpoints(businessId);
+      expect(endpoint.surveys.map((s) => s.survey_id).sort()).toEqual([
+        "first",
+        "second",
+      ]);
     });
 
     test("validates webhook URL format", async () => {
-      const [sessionId, _businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-      const csrfToken = await createCsrfToken(
-        sessionId,
-        "POST",
-        "/settings/webhooks",
-      );
+      const [sessionId, businessId] = await createTestSession();
 
-      mockGetWebhookSettings.mockReturnValue(null);
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
+      const html = await postWebhooks(sessionId, {
+        action: "create",
+        webhook_url: "invalid-url",
+      });
 
-      const formData = new FormData();
-      formData.append("action", "update");
-      formData.append("webhook_url", "invalid-url");
-      formData.append("_csrf", csrfToken);
+      expect(html).toContain("Invalid webhook URL format");
+      expect(await listWebhookEndpoints(businessId)).toHaveLength(0);
+    });
 
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          method: "POST",
-          headers: {
-            Origin: "http://localhost:3000",
-            Cookie: cookieHeader,
-          },
-          body: formData,
-        },
-      );
+    test("requires webhook URL", async () => {
+      const [sessionId, businessId] = await createTestSession();
 
-      const response = await webhooks.index(request);
-      const html = await response.text();
+      const html = await postWebhooks(sessionId, {
+        action: "create",
+        webhook_url: "",
+      });
 
-      expect(mockUpdateWebhookSettings).not.toHaveBeenCalled();
-      expect(html).toContain("Invalid webhook URL format");
+      expect(html).toContain("Webhook URL is required");
+      expect(await listWebhookEndpoints(businessId)).toHaveLength(0);
     });
 
-    test("requires webhook URL", async () => {
-      const [sessionId, _businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-      const csrfToken = await createCsrfToken(
+    test("rejects invalid CSRF token", async () => {
+      const [sessionId, businessId] = await createTestSession();
+
+      const html = await postWebhooks(
         sessionId,
-        "POST",
-        "/settings/webhooks",
+        { action: "create", webhook_url: "https://example.com/webhook" },
+        "invalid",
       );
 
-      mockGetWebhookSettings.mockReturnValue(null);
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
+      expect(html).toContain("Invalid security token");
+      expect(await listWebhookEndpoints(businessId)).toHaveLength(0);
+    });
+  });
 
-      const formData = new FormData();
-      formData.append("action", "update");
-      formData.append("webhook_url", "");
-      formData.append("_csrf", csrfToken);
+  describe("POST /settings/webhooks - update and delete", () => {
+    test("updates an endpoint and keeps the secret", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/old",
+        secret: "kept_secret",
+      });
 
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          method: "POST",
-          headers: {
-            Origin: "http://localhost:3000",
-            Cookie: cookieHeader,
-          },
-          body: formData,
-        },
-      );
+      const html = await postWebhooks(sessionId, {
+        action: "update",
+        endpoint_id: endpoint.id,
+        webhook_url: "https://example.com/new",
+      });
 
-      const response = await webhooks.index(request);
-      const html = await response.text();
+      expect(html).toContain("Webhook Endpoint Updated Successfully");
+      expect(html).not.toContain("copy this now");
 
-      expect(mockUpdateWebhookSettings).not.toHaveBeenCalled();
-      expect(html).toContain("Webhook URL is required");
+      const [updated] = await listWebhookEndpoints(businessId);
+      expect(updated.url).toBe("https://example.com/new");
+      expect(updated.secret).toBe("kept_secret");
     });
 
-    test("rejects invalid CSRF token", async () => {
-      const [sessionId, _businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
+    test("rotates the secret with an overlap window", async () => {
+      const [sessionId, businessId, userId] = await createTestSession();
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "old_secret",
+      });
 
-      mockGetWebhookSettings.mockReturnValue(null);
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
+      const html = await postWebhooks(sessionId, {
+        action: "rotate",
+        endpoint_id: endpoint.id,
+        overlap_hours: "24",
+        webhook_secret: "new_secret",
+      });
 
-      const formData = new FormData();
-      formData.append("action", "update");
-      formData.append("webhook_url", "https://example.com/webhook");
-      formData.append("_csrf", "invalid-token");
+      expect(html).toContain("Webhook Secret Rotated");
+      expect(html).toContain("new_secret");
+      expect(html).toContain("keeps signing deliveries until");
 
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          method: "POST",
-          headers: {
-            Origin: "http://localhost:3000",
-            Cookie: cookieHeader,
-          },
-          body: formData,
-        },
-      );
+      const [updated] = await listWebhookEndpoints(businessId);
+      expect(updated.secret).toBe("new_secret");
+      expect(updated.secondary_secret).toBe("old_secret");
 
-      const response = await webhooks.index(request);
-      const html = await response.text();
+      const [entry] = await listAuditEntries(businessId);
+      expect(entry.action).toBe("webhook.secret_rotated");
+      expect(entry.user_id).toBe(userId);
+    });
 
-      expect(mockUpdateWebhookSettings).not.toHaveBeenCalled();
-      expect(html).toContain("Invalid security token");
+    test("rejects an invalid overlap", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "old_secret",
+      });
+
+      const html = await postWebhooks(sessionId, {
+        action: "rotate",
+        endpoint_id: endpoint.id,
+        overlap_hours: "1000",
+      });
+
+      expect(html).toContain("Overlap must be between 0 and 720 hours");
+      const [unchanged] = await listWebhookEndpoints(businessId);
+      expect(unchanged.secret).toBe("old_secret");
     });
-  });
 
-  describe("POST /settings/webhooks - test", () => {
-    test("sends test webhook successfully", async () => {
+    test("retires the previous secret", async () => {
       const [sessionId, businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-      const csrfToken = await createCsrfToken(
-        sessionId,
-        "POST",
-        "/settings/webhooks",
-      );
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "old_secret",
+      });
 
-      mockSendTestWebhook.mockReturnValue({
-        success: true,
-        statusCode: 200,
-        responseBody: "OK",
+      const rotatedHtml = await postWebhooks(sessionId, {
+        action: "rotate",
+        endpoint_id: endpoint.id,
+        overlap_hours: "24",
       });
-      mockGetWebhookSettings.mockReturnValue({
-        webhook_url: mockEndpoint.url,
-        webhook_secret: "test_secret",
+      expect(rotatedHtml).toContain("Retire Previous Secret");
+
+      const html = await postWebhooks(sessionId, {
+        action: "retire_secret",
+        endpoint_id: endpoint.id,
       });
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
 
-      const formData = new FormData();
-      formData.append("action", "test");
-      formData.append("_csrf", csrfToken);
+      expect(html).toContain("no longer signs deliveries");
+      const [updated] = await listWebhookEndpoints(businessId);
+      expect(updated.secondary_secret).toBeNull();
+    });
 
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          method: "POST",
-          headers: {
-            Origin: "http://localhost:3000",
-            Cookie: cookieHeader,
-          },
-          body: formData,
-        },
-      );
+    test("rejects unknown signature versions", async () => {
+      const [sessionId] = await createTestSession();
 
-      const response = await webhooks.index(request);
-      const html = await response.text();
+      const html = await postWebhooks(sessionId, {
+        action: "create",
+        webhook_url: "https://example.com/webhook",
+        signature_version: "3",
+      });
+
+      expect(html).toContain("Invalid signature version");
+    });
+
+    test("deletes an endpoint", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+      });
+
+      const html = await postWebhooks(sessionId, {
+        action: "delete",
+        endpoint_id: endpoint.id,
+      });
+
+      expect(html).toContain("has been deleted");
+      expect(await listWebhookEndpoints(businessId)).toHaveLength(0);
+    });
+  });
+
+  describe("POST /settings/webhooks - test", () => {
+    test("sends test webhook successfully", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: mockEndpoint.url,
+        secret: "test_secret",
+      });
+
+      const html = await postWebhooks(sessionId, {
+        action: "test",
+        endpoint_id: endpoint.id,
+      });
 
-      expect(mockSendTestWebhook).toHaveBeenCalledWith(businessId);
       expect(html).toContain("Test Webhook Sent Successfully");
       expect(html).toContain("200"); // Status code
+      expect(mockEndpoint.getReceivedWebhooks()).toHaveLength(1);
     });
 
     test("handles test webhook failure", async () => {
-      const [sessionId, _businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-      const csrfToken = await createCsrfToken(
-        sessionId,
-        "POST",
-        "/settings/webhooks",
-      );
+      const [sessionId, businessId] = await createTestSession();
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "http://localhost:99999/webhook",
+      });
 
-      mockSendTestWebhook.mockReturnValue({
-        success: false,
-        statusCode: 0,
-        responseBody: "Connection failed",
+      const html = await postWebhooks(sessionId, {
+        action: "test",
+        endpoint_id: endpoint.id,
       });
-      mockGetWebhookSettings.mockReturnValue({
-        webhook_url: "http://localhost:99999", // Non-existent endpoint
-        webhook_secret: "test_secret",
+
+      expect(html).toContain("Test Webhook Failed");
+      expect(html).toContain("No response");
+    });
+
+    test("handles unknown endpoints", async () => {
+      const [sessionId] = await createTestSession();
+
+      const html = await postWebhooks(sessionId, {
+        action: "test",
+        endpoint_id: crypto.randomUUID(),
       });
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
 
-      const formData = new FormData();
-      formData.append("action", "test");
-      formData.append("_csrf", csrfToken);
+      expect(html).toContain("Webhook endpoint not found");
+    });
+  });
 
+  describe("Delivery details and redelivery", () => {
+    const getDeliveryPage = async (sessionId: string, deliveryId: string) => {
       const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          method: "POST",
-          headers: {
-            Origin: "http://localhost:3000",
-            Cookie: cookieHeader,
-          },
-          body: formData,
-        },
+        `http://localhost:3000/settings/webhooks/deliveries/${deliveryId}`,
+        { headers: { Cookie: createSessionCookie(sessionId) } },
+        { deliveryId },
       );
+      const response = await webhooks.delivery(request);
+      return [response, await response.text()] as const;
+    };
 
-      const response = await webhooks.index(request);
-      const html = await response.text();
+    test("shows every attempt for a delivery", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const id = await createTestWebhook(businessId);
+      await updateWebhookAfterAttempt(id, false, 502, "Upstream down", 1);
+      await updateWebhookAfterAttempt(id, false, 504, "Timed out", 2);
+
+      const [response, html] = await getDeliveryPage(sessionId, id);
+
+      expect(response.status).toBe(200);
+      expect(html).toContain("HTTP 502");
+      expect(html).toContain("Upstream down");
+      expect(html).toContain("HTTP 504");
+      expect(html).toContain("Timed out");
+      expect(html).toContain("Your endpoint returned an error status");
+      expect(html).toContain("Redeliver Now");
+    });
 
-      expect(html).toContain("Test Webhook Failed");
-      expect(html).toContain("Connection failed");
+    test("shows request headers, duration and error class in the timeline", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const id = await createTestWebhook(businessId);
+      await updateWebhookAfterAttempt(id, false, 0, "Connection refused", 1, {
+        requestHeaders: { "X-ClickNPS-Delivery-Id": id },
+        durationMs: 42,
+        errorClass: "connection_error",
+      });
+
+      const [, html] = await getDeliveryPage(sessionId, id);
+
+      expect(html).toContain("timeline");
+      expect(html).toContain("42 ms");
+      expect(html).toContain("Could not connect to your endpoint");
+      expect(html).toContain(`X-ClickNPS-Delivery-Id: ${id}`);
     });
 
-    test("handles sendTestWebhook service errors", async () => {
+    test("returns 404 for another business's delivery", async () => {
+      const [sessionId] = await createTestSession();
+      const [, otherBusinessId] = await createTestSession();
+      const id = await createTestWebhook(otherBusinessId);
+
+      const [response] = await getDeliveryPage(sessionId, id);
+
+      expect(response.status).toBe(404);
+    });
+
+    test("redelivers a single dead delivery", async () => {
       const [sessionId, businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-      const csrfToken = await createCsrfToken(
-        sessionId,
-        "POST",
-        "/settings/webhooks",
+      const id = await createTestWebhook(businessId);
+      await updateWebhookAfterAttempt(
+        id,
+        false,
+        500,
+        "Error",
+        MAX_WEBHOOK_ATTEMPTS,
       );
 
-      mockSendTestWebhook.mockImplementation(() => {
-        throw new Error("Webhook not configured");
+      const html = await postWebhooks(sessionId, {
+        action: "redeliver",
+        delivery_id: id,
       });
-      mockGetWebhookSettings.mockReturnValue(null);
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
 
-      const formData = new FormData();
-      formData.append("action", "test");
-      formData.append("_csrf", csrfToken);
+      expect(html).toContain("1 delivery queued for redelivery.");
+      const delivery = await getWebhookDelivery(businessId, id);
+      expect(delivery?.status).toBe("pending");
+    });
 
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          method: "POST",
-          headers: {
-            Origin: "http://localhost:3000",
-            Cookie: cookieHeader,
-          },
-          body: formData,
-        },
+    test("redelivers all failed deliveries since a time", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const first = await createTestWebhook(businessId);
+      const second = await createTestWebhook(businessId);
+      await updateWebhookAfterAttempt(first, false, 503, "", 1);
+      await updateWebhookAfterAttempt(
+        second,
+        false,
+        503,
+        "",
+        MAX_WEBHOOK_ATTEMPTS,
       );
 
-      const response = await webhooks.index(request);
-      const html = await response.text();
+      const html = await postWebhooks(sessionId, {
+        action: "redeliver_failed",
+        since: new Date(Date.now() - 60_000).toISOString(),
+        endpoint_id: "",
+      });
+
+      expect(html).toContain("2 deliveries queued for redelivery.");
+    });
+
+    test("requires a start time for bulk redelivery", async () => {
+      const [sessionId] = await createTestSession();
+
+      const html = await postWebhooks(sessionId, {
+        action: "redeliver_failed",
+        since: "",
+      });
+
+      expect(html).toContain("Choose when the failures started");
+    });
+  });
+
+  describe("Paused endpoints", () => {
+    test("shows a paused endpoint and resumes it", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+      });
+      await connection`
+        UPDATE webhook_endpoints
+        SET paused_at = CURRENT_TIMESTAMP, consecutive_failures = 20
+        WHERE id = ${endpoint.id}
+      `;
+      const id = await createTestWebhook(businessId, {
+        endpointId: endpoint.id,
+        status: "paused",
+      });
+
+      const [, pageHtml] = await getWebhooksPage(sessionId);
+      expect(pageHtml).toContain("after 20 failed attempts in a row");
+      expect(pageHtml).toContain("1 delivery is waiting");
+      expect(pageHtml).toContain("resume_endpoint");
+
+      const html = await postWebhooks(sessionId, {
+        action: "resume_endpoint",
+        endpoint_id: endpoint.id,
+      });
+
+      expect(html).toContain("has been resumed");
+      expect(html).toContain("1 waiting delivery will be sent in order.");
+      const delivery = await getWebhookDelivery(businessId, id);
+      expect(delivery?.status).toBe("pending");
+    });
+
+    test("rejects resuming an endpoint that is not paused", async () => {
+      const [sessionId, businessId] = await createTestSession();
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+      });
+
+      const html = await postWebhooks(sessionId, {
+        action: "resume_endpoint",
+        endpoint_id: endpoint.id,
+      });
 
-      expect(mockSendTestWebhook).toHaveBeenCalledWith(businessId);
-      expect(html).toContain("Webhook not configured");
+      expect(html).toContain("Webhook endpoint is not paused");
     });
   });
 
   describe("Security", () => {
     test("redirects unauthenticated POST requests", async () => {
       const formData = new FormData();
-      formData.append("action", "update");
+      formData.append("action", "create");
       formData.append("webhook_url", "https://example.com/webhook");
-      formData.append("_csrf", "csrf-token-123");
 
       const request = createBunRequest(
         "http://localhost:3000/settings/webhooks",
         {
           method: "POST",
-          headers: {
-            Origin: "http://localhost:3000",
-          },
           body: formData,
         },
       );
@@ -517,128 +621,52 @@ describe("Webhook Settings Controller", () => {
 
     test("rejects requests without CSRF token", async () => {
       const [sessionId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-
-      mockGetWebhookSettings.mockReturnValue(null);
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
-
-      const formData = new FormData();
-      formData.append("action", "update");
-      formData.append("webhook_url", "https://example.com/webhook");
 
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          method: "POST",
-          headers: {
-            Origin: "http://localhost:3000",
-            Cookie: cookieHeader,
-          },
-          body: formData,
-        },
+      const html = await postWebhooks(
+        sessionId,
+        { action: "create", webhook_url: "https://example.com/webhook" },
+        "missing",
       );
 
-      const response = await webhooks.index(request);
-      const html = await response.text();
-
       expect(html).toContain("Invalid request");
     });
 
     test("rejects unknown actions", async () => {
       const [sessionId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-      const csrfToken = await createCsrfToken(
-        sessionId,
-        "POST",
-        "/settings/webhooks",
-      );
-
-      mockGetWebhookSettings.mockReturnValue(null);
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
 
-      const formData = new FormData();
-      formData.append("action", "unknown");
-      formData.append("_csrf", csrfToken);
-
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          method: "POST",
-          headers: {
-            Origin: "http://localhost:3000",
-            Cookie: cookieHeader,
-          },
-          body: formData,
-        },
-      );
-
-      const response = await webhooks.index(request);
-      const html = await response.text();
+      const html = await postWebhooks(sessionId, { action: "unknown" });
 
       expect(html).toContain("Invalid action");
     });
   });
 
   describe("Business Isolation", () => {
-    test("only fetches webhook settings for the authenticated business", async () => {
-      const [sessionId, businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-
-      mockGetWebhookSettings.mockReturnValue(null);
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
+    test("cannot modify another business's endpoints", async () => {
+      const [sessionId] = await createTestSession();
+      const [, otherBusinessId] = await createTestSession();
+      const endpoint = await createWebhookEndpoint(otherBusinessId, {
+        url: "https://example.com/other",
+      });
 
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          headers: { Cookie: cookieHeader },
-        },
-      );
-      await webhooks.index(request);
+      const html = await postWebhooks(sessionId, {
+        action: "delete",
+        endpoint_id: endpoint.id,
+      });
 
-      expect(mockGetWebhookSettings).toHaveBeenCalledWith(businessId);
-      expect(mockGetRecentWebhookDeliveries).toHaveBeenCalledWith(businessId);
+      expect(html).toContain("Webhook endpoint not found");
+      expect(await listWebhookEndpoints(otherBusinessId)).toHaveLength(1);
     });
 
-    test("scopes all mutations by business ID", async () => {
-      const [sessionId, businessId] = await createTestSession();
-      const cookieHeader = createSessionCookie(sessionId);
-      const csrfToken = await createCsrfToken(
-        sessionId,
-        "POST",
-        "/settings/webhooks",
-      );
-
-      mockUpdateWebhookSettings.mockReturnValue({
-        webhook_url: "https://example.com/webhook",
-        webhook_secret: "test_secret",
+    test("only lists endpoints for the authenticated business", async () => {
+      const [sessionId] = await createTestSession();
+      const [, otherBusinessId] = await createTestSession();
+      await createWebhookEndpoint(otherBusinessId, {
+        url: "https://example.com/other-business",
       });
-      mockGetRecentWebhookDeliveries.mockReturnValue([]);
-
-      const formData = new FormData();
-      formData.append("action", "update");
-      formData.append("webhook_url", "https://example.com/webhook");
-      formData.append("webhook_secret", "test_secret");
-      formData.append("_csrf", csrfToken);
 
-      const request = createBunRequest(
-        "http://localhost:3000/settings/webhooks",
-        {
-          method: "POST",
-          headers: {
-            Origin: "http://localhost:3000",
-            Cookie: cookieHeader,
-          },
-          body: formData,
-        },
-      );
+      const [, html] = await getWebhooksPage(sessionId);
 
-      await webhooks.index(request);
-
-      expect(mockUpdateWebhookSettings).toHaveBeenCalledWith(
-        businessId,
-        "https://example.com/webhook",
-        "test_secret",
-      );
+      expect(html).not.toContain("https://example.com/other-business");
     });
   });
 });
@@ -1,17 +1,36 @@
+import type { BunRequest } from "bun";
 import { isAdminOrOwner } from "../../middleware/access";
 import { getAuthContext, requireAuth } from "../../middleware/auth";
 import { getSessionIdFromCookies } from "../../services/auth";
 import { createCsrfToken, verifyCsrfToken } from "../../services/csrf";
+import { listSurveys } from "../../services/surveys";
 import {
+  buildWebhookEvent,
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
   getRecentWebhookDeliveries,
-  getWebhookSettings,
+  getWebhookDelivery,
+  getWebhookEndpoint,
+  listWebhookAttempts,
+  listWebhookEndpoints,
+  MAX_SECRET_OVERLAP_HOURS,
+  redeliverFailedWebhooks,
+  redeliverWebhook,
+  resumeWebhookEndpoint,
+  retireSecondaryWebhookSecret,
+  rotateWebhookSecret,
   sendTestWebhook,
-  updateWebhookSettings,
+  updateWebhookEndpoint,
+  type WebhookEndpointInput,
 } from "../../services/webhooks";
+import { WebhookDelivery } from "../../templates/webhook-delivery";
 import type { WebhookState } from "../../templates/webhooks";
 import { Webhooks } from "../../templates/webhooks";
 import { redirect, render } from "../../utils/response";
 
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export const webhooks = {
   async index(req: Request): Promise<Response> {
     // Check authentication
@@ -30,36 +49,120 @@ export const webhooks = {
     }
 
     if (req.method === "POST") {
-      return await handleWebhookActions(req, auth.business.id);
+      return await handleWebhookActions(
+        req,
+        auth.business.id,
+        auth.user?.id ?? null,
+      );
     }
 
     // GET request - display the page
-    const [webhookSettings, recentDeliveries, csrfToken] = await Promise.all([
-      getWebhookSettings(auth.business.id),
-      getRecentWebhookDeliveries(auth.business.id),
+    return await renderWebhooksPage(req, auth.business.id);
+  },
+
+  async delivery<T extends `${string}:deliveryId${string}`>(
+    req: BunRequest<T>,
+  ): Promise<Response> {
+    const authResponse = await requireAuth(req);
+    if (authResponse) return authResponse;
+
+    const auth = await getAuthContext(req);
+
+    if (!auth.business) {
+      return new Response("Business not found", { status: 404 });
+    }
+
+    if (!isAdminOrOwner(auth)) {
+      return redirect("/");
+    }
+
+    const deliveryId = req.params.deliveryId;
+    const delivery = UUID_PATTERN.test(deliveryId)
+      ? await getWebhookDelivery(auth.business.id, deliveryId)
+      : null;
+    if (!delivery) {
+      return new Response("Webhook delivery not found", {
+        status: 404,
+        headers: { "content-type": "text/html" },
+      });
+    }
+
+    const [attempts, csrfToken] = await Promise.all([
+      listWebhookAttempts(delivery.id),
       generateCsrfToken(req),
     ]);
 
     return render(
-      <Webhooks
+      <WebhookDelivery
         auth={auth}
-        webhookSettings={
-          webhookSettings || { webhook_url: null, webhook_secret: null }
-        }
-        recentDeliveries={recentDeliveries}
+        delivery={delivery}
+        event={buildWebhookEvent(delivery)}
+        attempts={attempts}
         csrfToken={csrfToken}
       />,
     );
   },
 };
 
+/**
+ * Read and validate the endpoint fields shared by create and update
+ */
+function parseEndpointForm(
+  formData: FormData,
+): WebhookEndpointInput | { error: string } {
+  const webhookUrl = formData.get("webhook_url") as string;
+  const webhookSecret = formData.get("webhook_secret") as string;
+  const description = formData.get("description") as string;
+  const signatureVersion = formData.get("signature_version") as string;
+  const payloadVersion = formData.get("payload_version") as string;
+
+  if (!webhookUrl?.trim()) {
+    return { error: "Webhook URL is required" };
+  }
+
+  // Validate URL format
+  try {
+    new URL(webhookUrl.trim());
+  } catch {
+    return { error: "Invalid webhook URL format" };
+  }
+
+  if (description && description.trim().length > 255) {
+    return { error: "Description must be 255 characters or less" };
+  }
+
+  if (signatureVersion && !["1", "2"].includes(signatureVersion)) {
+    return { error: "Invalid signature version" };
+  }
+
+  if (payloadVersion && !["1", "2"].includes(payloadVersion)) {
+    return { error: "Invalid payload version" };
+  }
+
+  return {
+    url: webhookUrl.trim(),
+    secret: webhookSecret?.trim() || null,
+    description: description?.trim() || null,
+    surveyIds: formData.getAll("survey_ids").map(String).filter(Boolean),
+    events: formData.getAll("events").map(String).filter(Boolean),
+    signatureVersion: signatureVersion
+      ? (Number(signatureVersion) as 1 | 2)
+      : undefined,
+    payloadVersion: payloadVersion
+      ? (Number(payloadVersion) as 1 | 2)
+      : undefined,
+  };
+}
+
 async function handleWebhookActions(
   req: Request,
   businessId: string,
+  userId: string | null,
 ): Promise<Response> {
   const formData = await req.formData();
   const action = formData.get("action") as string;
   const csrfToken = formData.get("_csrf") as string;
+  const endpointId = formData.get("endpoint_id") as string;
 
   // Validate CSRF token
   const cookieHeader = req.headers.get("cookie");
@@ -81,55 +184,205 @@ async function handleWebhookActions(
 
   try {
     switch (action) {
+      case "create": {
+        const input = parseEndpointForm(formData);
+        if ("error" in input) {
+          return createErrorResponse(req, businessId, input.error);
+        }
+
+        const endpoint = await createWebhookEndpoint(businessId, input);
+
+        return createSuccessResponse(req, businessId, {
+          created: { url: endpoint.url, secret: endpoint.secret },
+        });
+      }
+
       case "update": {
-        const webhookUrl = formData.get("webhook_url") as string;
+        if (!endpointId) {
+          return createErrorResponse(
+            req,
+            businessId,
+            "Webhook endpoint not found",
+          );
+        }
+
+        const input = parseEndpointForm(formData);
+        if ("error" in input) {
+          return createErrorResponse(req, businessId, input.error);
+        }
+
+        const endpoint = await updateWebhookEndpoint(
+          businessId,
+          endpointId,
+          input,
+        );
+
+        return createSuccessResponse(req, businessId, {
+          updated: { url: endpoint.url },
+        });
+      }
+
+      case "rotate": {
+        if (!endpointId) {
+          return createErrorResponse(
+            req,
+            businessId,
+            "Webhook endpoint not found",
+          );
+        }
+
+        const overlapHours = Number(formData.get("overlap_hours") ?? "");
+        if (
+          !Number.isInteger(overlapHours) ||
+          overlapHours < 0 ||
+          overlapHours > MAX_SECRET_OVERLAP_HOURS
+        ) {
+          return createErrorResponse(
+            req,
+            businessId,
+            `Overlap must be between 0 and ${MAX_SECRET_OVERLAP_HOURS} hours`,
+          );
+        }
+
         const webhookSecret = formData.get("webhook_secret") as string;
+        const endpoint = await rotateWebhookSecret(businessId, endpointId, {
+          secret: webhookSecret?.trim() || null,
+          overlapHours,
+          userId,
+        });
+
+        return createSuccessResponse(req, businessId, {
+          rotated: {
+            url: endpoint.url,
+            secret: endpoint.secret,
+            previousExpiresAt: endpoint.secondary_secret_expires_at,
+          },
+        });
+      }
+
+      case "delete": {
+        const endpoint = endpointId
+          ? await getWebhookEndpoint(businessId, endpointId)
+          : null;
+        if (!endpoint) {
+          return createErrorResponse(
+            req,
+            businessId,
+            "Webhook endpoint not found",
+          );
+        }
+
+        await deleteWebhookEndpoint(businessId, endpoint.id);
 
-        if (!webhookUrl?.trim()) {
+        return createSuccessResponse(req, businessId, {
+          deleted: { url: endpoint.url },
+        });
+      }
+
+      case "retire_secret": {
+        const endpoint = endpointId
+          ? await getWebhookEndpoint(businessId, endpointId)
+          : null;
+        if (!endpoint) {
           return createErrorResponse(
             req,
             businessId,
-            "Webhook URL is required",
+            "Webhook endpoint not found",
           );
         }
 
-        // Validate URL format
-        try {
-          new URL(webhookUrl.trim());
-        } catch {
+        await retireSecondaryWebhookSecret(businessId, endpoint.id, userId);
+
+        return createSuccessResponse(req, businessId, {
+          retired: { url: endpoint.url },
+        });
+      }
+
+      case "resume_endpoint": {
+        const endpoint = endpointId
+          ? await getWebhookEndpoint(businessId, endpointId)
+          : null;
+        if (!endpoint) {
           return createErrorResponse(
             req,
             businessId,
-            "Invalid webhook URL format",
+            "Webhook endpoint not found",
           );
         }
 
-        const result = await updateWebhookSettings(
+        const count = await resumeWebhookEndpoint(
           businessId,
-          webhookUrl.trim(),
-          webhookSecret?.trim() || null,
+          endpoint.id,
+          userId,
         );
 
         return createSuccessResponse(req, businessId, {
-          updated: {
-            webhook_url: result.webhook_url ?? "",
-            webhook_secret: result.webhook_secret ?? "",
-          },
+          resumed: { url: endpoint.url, count },
+        });
+      }
+
+      case "redeliver": {
+        const deliveryId = formData.get("delivery_id") as string;
+        if (!deliveryId || !UUID_PATTERN.test(deliveryId)) {
+          return createErrorResponse(
+            req,
+            businessId,
+            "Webhook delivery not found",
+          );
+        }
+
+        await redeliverWebhook(businessId, deliveryId);
+
+        return createSuccessResponse(req, businessId, {
+          redelivered: { count: 1 },
+        });
+      }
+
+      case "redeliver_failed": {
+        const since = new Date((formData.get("since") as string) ?? "");
+        if (Number.isNaN(since.getTime())) {
+          return createErrorResponse(
+            req,
+            businessId,
+            "Choose when the failures started",
+          );
+        }
+
+        const count = await redeliverFailedWebhooks(businessId, since, {
+          endpointId: endpointId || null,
+          userId,
+        });
+
+        return createSuccessResponse(req, businessId, {
+          redelivered: { count },
         });
       }
 
       case "test": {
-        const result = await sendTestWebhook(businessId);
+        const endpoint = endpointId
+          ? await getWebhookEndpoint(businessId, endpointId)
+          : null;
+        if (!endpoint) {
+          return createErrorResponse(
+            req,
+            businessId,
+            "Webhook endpoint not found",
+          );
+        }
+
+        const result = await sendTestWebhook(businessId, endpoint.id);
 
         if (result.success) {
           return createSuccessResponse(req, businessId, {
             testSuccess: {
+              url: endpoint.url,
               statusCode: result.statusCode,
             },
           });
         }
         return createSuccessResponse(req, businessId, {
           testError: {
+            url: endpoint.url,
             statusCode: result.statusCode,
             message: result.responseBody,
           },
@@ -150,14 +403,15 @@ async function handleWebhookActions(
   }
 }
 
-async function createSuccessResponse(
+async function renderWebhooksPage(
   req: Request,
   businessId: string,
-  state: WebhookState,
+  state?: WebhookState,
 ): Promise<Response> {
   const auth = await getAuthContext(req);
-  const [webhookSettings, recentDeliveries, csrfToken] = await Promise.all([
-    getWebhookSettings(businessId),
+  const [endpoints, surveys, recentDeliveries, csrfToken] = await Promise.all([
+    listWebhookEndpoints(businessId),
+    listSurveys(businessId),
     getRecentWebhookDeliveries(businessId),
     generateCsrfToken(req),
   ]);
@@ -165,9 +419,8 @@ async function createSuccessResponse(
   return render(
     <Webhooks
       auth={auth}
-      webhookSettings={
-        webhookSettings || { webhook_url: null, webhook_secret: null }
-      }
+      endpoints={endpoints}
+      surveys={surveys}
       recentDeliveries={recentDeliveries}
       state={state}
       csrfToken={csrfToken}
@@ -175,29 +428,20 @@ async function createSuccessResponse(
   );
 }
 
+async function createSuccessResponse(
+  req: Request,
+  businessId: string,
+  state: WebhookState,
+): Promise<Response> {
+  return renderWebhooksPage(req, businessId, state);
+}
+
 async function createErrorResponse(
   req: Request,
   businessId: string,
   error: string,
 ): Promise<Response> {
-  const auth = await getAuthContext(req);
-  const [webhookSettings, recentDeliveries, csrfToken] = await Promise.all([
-    getWebhookSettings(businessId),
-    getRecentWebhookDeliveries(businessId),
-    generateCsrfToken(req),
-  ]);
-
-  return render(
-    <Webhooks
-      auth={auth}
-      webhookSettings={
-        webhookSettings || { webhook_url: null, webhook_secret: null }
-      }
-      recentDeliveries={recentDeliveries}
-      state={{ error }}
-      csrfToken={csrfToken}
-    />,
-  );
+  return renderWebhooksPage(req, businessId, { error });
 }
 
 async function generateCsrfToken(req: Request): Promise<string | null> {
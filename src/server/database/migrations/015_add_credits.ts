@@ -0,0 +1,84 @@
+/**
+ * Add response credits
+ * Creates credit_balances and the append-only credit_ledger, adds the
+ * zero-balance behaviour setting to businesses, and allows held webhooks.
+ * Existing businesses get an opening grant.
+ */
+import type { SQL } from "bun";
+
+// Credits every business that predates billing starts with, so its first
+// responses after deploy don't hold its webhooks
+export const OPENING_GRANT_CREDITS = 1000;
+
+/**
+ * Give every business without a balance an opening grant, recorded in the ledger
+ */
+export const seedOpeningGrants = async (db: SQL): Promise<void> => {
+  await db`
+    WITH seeded AS (
+      INSERT INTO credit_balances (business_id, balance)
+      SELECT id, ${OPENING_GRANT_CREDITS}::int FROM businesses
+      ON CONFLICT (business_id) DO NOTHING
+      RETURNING business_id, balance
+    )
+    INSERT INTO credit_ledger (business_id, entry_type, amount, balance_after, description)
+    SELECT business_id, 'grant', balance, balance, 'Opening balance'
+    FROM seeded
+  `;
+};
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    ALTER TABLE businesses
+    ADD COLUMN zero_balance_behavior VARCHAR(20) NOT NULL DEFAULT 'hold_webhooks'
+      CHECK (zero_balance_behavior IN ('hold_webhooks', 'refuse'))
+  `;
+
+  await db`
+    CREATE TABLE credit_balances (
+      business_id UUID PRIMARY KEY REFERENCES businesses(id) ON DELETE CASCADE,
+      balance INTEGER NOT NULL DEFAULT 0,
+      updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  // Ledger rows are never updated or deleted; response_id has no FK so
+  // debits survive response deletion
+  await db`
+    CREATE TABLE credit_ledger (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+      entry_type VARCHAR(20) NOT NULL CHECK (entry_type IN ('grant', 'debit')),
+      amount INTEGER NOT NULL,
+      balance_after INTEGER NOT NULL,
+      description TEXT NULL,
+      response_id UUID NULL,
+      created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await db`CREATE INDEX idx_credit_ledger_business_id ON credit_ledger(business_id, created_at DESC)`;
+
+  await seedOpeningGrants(db);
+
+  await db`
+    ALTER TABLE webhook_queue
+    DROP CONSTRAINT webhook_queue_status_check,
+    ADD CONSTRAINT webhook_queue_status_check
+      CHECK (status IN ('pending', 'processing', 'delivered', 'failed', 'held'))
+  `;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`UPDATE webhook_queue SET status = 'pending' WHERE status = 'held'`;
+  await db`
+    ALTER TABLE webhook_queue
+    DROP CONSTRAINT webhook_queue_status_check,
+    ADD CONSTRAINT webhook_queue_status_check
+      CHECK (status IN ('pending', 'processing', 'delivered', 'failed'))
+  `;
+
+  await db`DROP TABLE IF EXISTS credit_ledger`;
+  await db`DROP TABLE IF EXISTS credit_balances`;
+  await db`ALTER TABLE businesses DROP COLUMN IF EXISTS zero_balance_behavior`;
+};
@@ -0,0 +1,29 @@
+/**
+ * Add credit purchases
+ * Tracks checkout sessions so payment webhooks grant credits exactly once
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    CREATE TABLE credit_purchases (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+      provider VARCHAR(20) NOT NULL,
+      provider_session_id VARCHAR(255) NOT NULL,
+      pack_id VARCHAR(50) NOT NULL,
+      credits INTEGER NOT NULL CHECK (credits > 0),
+      amount_cents INTEGER NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed')),
+      created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+      completed_at TIMESTAMPTZ NULL,
+      UNIQUE (provider, provider_session_id)
+    )
+  `;
+
+  await db`CREATE INDEX idx_credit_purchases_business_id ON credit_purchases(business_id)`;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`DROP TABLE IF EXISTS credit_purchases`;
+};
@@ -0,0 +1,82 @@
+/**
+ * Add webhook endpoints
+ * Replaces the single business-wide webhook URL with multiple endpoints that
+ * can each be scoped to specific surveys
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    CREATE TABLE webhook_endpoints (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      description VARCHAR(255) NULL,
+      all_surveys BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await db`CREATE INDEX idx_webhook_endpoints_business_id ON webhook_endpoints(business_id)`;
+
+  // Only consulted when all_surveys is false, so deleting the last scoped
+  // survey leaves the endpoint receiving nothing rather than everything
+  await db`
+    CREATE TABLE webhook_endpoint_surveys (
+      endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+      survey_id UUID NOT NULL REFERENCES surveys(id) ON DELETE CASCADE,
+      PRIMARY KEY (endpoint_id, survey_id)
+    )
+  `;
+
+  await db`
+    ALTER TABLE webhook_queue
+    ADD COLUMN endpoint_id UUID NULL REFERENCES webhook_endpoints(id) ON DELETE SET NULL
+  `;
+
+  await db`
+    INSERT INTO webhook_endpoints (business_id, url, secret)
+    SELECT id, webhook_url, webhook_secret
+    FROM businesses
+    WHERE webhook_url IS NOT NULL AND webhook_secret IS NOT NULL
+  `;
+
+  await db`
+    UPDATE webhook_queue wq
+    SET endpoint_id = we.id
+    FROM webhook_endpoints we
+    WHERE we.business_id = wq.business_id AND we.url = wq.webhook_url
+  `;
+
+  await db`
+    ALTER TABLE businesses
+    DROP COLUMN webhook_url,
+    DROP COLUMN webhook_secret
+  `;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`
+    ALTER TABLE businesses
+    ADD COLUMN webhook_url TEXT NULL,
+    ADD COLUMN webhook_secret TEXT NULL
+  `;
+
+  // Only one URL fits the old schema, so keep each business's oldest endpoint
+  await db`
+    UPDATE businesses b
+    SET webhook_url = we.url, webhook_secret = we.secret
+    FROM (
+      SELECT DISTINCT ON (business_id) business_id, url, secret
+      FROM webhook_endpoints
+      ORDER BY business_id, created_at ASC
+    ) we
+    WHERE we.business_id = b.id
+  `;
+
+  await db`ALTER TABLE webhook_queue DROP COLUMN IF EXISTS endpoint_id`;
+  await db`DROP TABLE IF EXISTS webhook_endpoint_surveys`;
+  await db`DROP TABLE IF EXISTS webhook_endpoints`;
+};
@@ -0,0 +1,64 @@
+/**
+ * Add webhook event types
+ * Queue items carry a typed event with its own payload, and endpoints can
+ * subscribe to a subset of event types and choose their payload version
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  // Fan-out copies of one event share its event_id; response events build
+  // their data from the score/comment columns, other events from payload
+  await db`
+    ALTER TABLE webhook_queue
+    ADD COLUMN event_id UUID NOT NULL DEFAULT gen_random_uuid(),
+    ADD COLUMN event_type VARCHAR(50) NOT NULL DEFAULT 'response.created',
+    ADD COLUMN payload JSONB NULL,
+    ALTER COLUMN subject_id DROP NOT NULL,
+    ALTER COLUMN score DROP NOT NULL
+  `;
+
+  await db`CREATE INDEX idx_webhook_queue_event_id ON webhook_queue(event_id)`;
+
+  // An endpoint with no rows here receives every event type
+  await db`
+    CREATE TABLE webhook_endpoint_events (
+      endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+      event_type VARCHAR(50) NOT NULL,
+      PRIMARY KEY (endpoint_id, event_type)
+    )
+  `;
+
+  // Endpoints choose between the event envelope and the flat body that
+  // response webhooks were sent as before it
+  await db`
+    ALTER TABLE webhook_endpoints
+    ADD COLUMN payload_version SMALLINT NOT NULL DEFAULT 2
+      CHECK (payload_version IN (1, 2))
+  `;
+
+  // Existing endpoints only ever received response.created with the flat
+  // body, so keep them on exactly that rather than surprising them
+  await db`UPDATE webhook_endpoints SET payload_version = 1`;
+  await db`
+    INSERT INTO webhook_endpoint_events (endpoint_id, event_type)
+    SELECT id, 'response.created' FROM webhook_endpoints
+  `;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`DROP TABLE IF EXISTS webhook_endpoint_events`;
+  await db`ALTER TABLE webhook_endpoints DROP COLUMN IF EXISTS payload_version`;
+
+  // Only response.created fits the old schema
+  await db`DELETE FROM webhook_queue WHERE event_type <> 'response.created'`;
+
+  await db`DROP INDEX IF EXISTS idx_webhook_queue_event_id`;
+  await db`
+    ALTER TABLE webhook_queue
+    DROP COLUMN IF EXISTS event_id,
+    DROP COLUMN IF EXISTS event_type,
+    DROP COLUMN IF EXISTS payload,
+    ALTER COLUMN subject_id SET NOT NULL,
+    ALTER COLUMN score SET NOT NULL
+  `;
+};
@@ -0,0 +1,26 @@
+/**
+ * Add webhook signature v2
+ * Endpoints choose a signature version and can keep a previous secret
+ * active while receivers switch to a new one
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    ALTER TABLE webhook_endpoints
+    ADD COLUMN signature_version SMALLINT NOT NULL DEFAULT 2
+      CHECK (signature_version IN (1, 2)),
+    ADD COLUMN secondary_secret TEXT NULL
+  `;
+
+  // Existing receivers verify the body-only signature, so keep them on v1
+  await db`UPDATE webhook_endpoints SET signature_version = 1`;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`
+    ALTER TABLE webhook_endpoints
+    DROP COLUMN IF EXISTS signature_version,
+    DROP COLUMN IF EXISTS secondary_secret
+  `;
+};
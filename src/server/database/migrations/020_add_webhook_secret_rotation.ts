@@ -0,0 +1,35 @@
+/**
+ * Add webhook secret rotation
+ * Gives the previous webhook secret an expiry and creates the audit_log table
+ * for recording account changes such as secrets expiring
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    ALTER TABLE webhook_endpoints
+    ADD COLUMN secondary_secret_expires_at TIMESTAMPTZ NULL
+  `;
+
+  // user_id is NULL for entries written by background work
+  await db`
+    CREATE TABLE audit_log (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+      user_id UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+      action VARCHAR(100) NOT NULL,
+      details JSONB NOT NULL DEFAULT '{}',
+      created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await db`CREATE INDEX idx_audit_log_business_id ON audit_log(business_id, created_at DESC)`;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`DROP TABLE IF EXISTS audit_log`;
+  await db`
+    ALTER TABLE webhook_endpoints
+    DROP COLUMN IF EXISTS secondary_secret_expires_at
+  `;
+};
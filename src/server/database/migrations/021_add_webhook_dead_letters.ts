@@ -0,0 +1,54 @@
+/**
+ * Add webhook dead letters and attempt history
+ * Deliveries that run out of retries move to a terminal dead status, and
+ * every delivery attempt is kept so it can be inspected before redelivering
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    ALTER TABLE webhook_queue
+    DROP CONSTRAINT webhook_queue_status_check,
+    ADD CONSTRAINT webhook_queue_status_check
+      CHECK (status IN ('pending', 'processing', 'delivered', 'failed', 'held', 'dead'))
+  `;
+
+  // The retry worker already skipped these, so they were dead in all but name
+  await db`
+    UPDATE webhook_queue
+    SET status = 'dead', next_retry_at = NULL
+    WHERE status = 'failed' AND attempts >= 7
+  `;
+
+  await db`
+    CREATE TABLE webhook_attempts (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      queue_id UUID NOT NULL REFERENCES webhook_queue(id) ON DELETE CASCADE,
+      status_code INTEGER NOT NULL,
+      response_body TEXT NULL,
+      attempted_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await db`CREATE INDEX idx_webhook_attempts_queue_id ON webhook_attempts(queue_id, attempted_at)`;
+
+  // Only the last attempt was stored before this table existed
+  await db`
+    INSERT INTO webhook_attempts (queue_id, status_code, response_body, attempted_at)
+    SELECT id, COALESCE(response_status_code, 0), response_body, last_attempt_at
+    FROM webhook_queue
+    WHERE last_attempt_at IS NOT NULL
+  `;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`DROP TABLE IF EXISTS webhook_attempts`;
+
+  await db`UPDATE webhook_queue SET status = 'failed' WHERE status = 'dead'`;
+  await db`
+    ALTER TABLE webhook_queue
+    DROP CONSTRAINT webhook_queue_status_check,
+    ADD CONSTRAINT webhook_queue_status_check
+      CHECK (status IN ('pending', 'processing', 'delivered', 'failed', 'held'))
+  `;
+};
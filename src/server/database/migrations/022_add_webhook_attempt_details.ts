@@ -0,0 +1,33 @@
+/**
+ * Add webhook attempt details
+ * Records the request headers, duration and error class of each attempt, and
+ * whether the stored response body was cut short
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    ALTER TABLE webhook_attempts
+    ADD COLUMN request_headers JSONB NOT NULL DEFAULT '{}',
+    ADD COLUMN duration_ms INTEGER NULL,
+    ADD COLUMN error_class VARCHAR(50) NULL,
+    ADD COLUMN response_body_truncated BOOLEAN NOT NULL DEFAULT false
+  `;
+
+  // Older attempts only tell us whether the receiver answered
+  await db`
+    UPDATE webhook_attempts
+    SET error_class = 'http_error'
+    WHERE status_code > 0 AND (status_code < 200 OR status_code >= 300)
+  `;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`
+    ALTER TABLE webhook_attempts
+    DROP COLUMN IF EXISTS request_headers,
+    DROP COLUMN IF EXISTS duration_ms,
+    DROP COLUMN IF EXISTS error_class,
+    DROP COLUMN IF EXISTS response_body_truncated
+  `;
+};
@@ -0,0 +1,37 @@
+/**
+ * Add automatic webhook endpoint pausing
+ * Tracks consecutive failed attempts per endpoint and adds a paused queue
+ * status for deliveries held while their endpoint is paused
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    ALTER TABLE webhook_endpoints
+    ADD COLUMN consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN paused_at TIMESTAMPTZ NULL
+  `;
+
+  await db`
+    ALTER TABLE webhook_queue
+    DROP CONSTRAINT webhook_queue_status_check,
+    ADD CONSTRAINT webhook_queue_status_check
+      CHECK (status IN ('pending', 'processing', 'delivered', 'failed', 'held', 'dead', 'paused'))
+  `;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`UPDATE webhook_queue SET status = 'pending' WHERE status = 'paused'`;
+  await db`
+    ALTER TABLE webhook_queue
+    DROP CONSTRAINT webhook_queue_status_check,
+    ADD CONSTRAINT webhook_queue_status_check
+      CHECK (status IN ('pending', 'processing', 'delivered', 'failed', 'held', 'dead'))
+  `;
+
+  await db`
+    ALTER TABLE webhook_endpoints
+    DROP COLUMN IF EXISTS consecutive_failures,
+    DROP COLUMN IF EXISTS paused_at
+  `;
+};
@@ -0,0 +1,36 @@
+/**
+ * Add webhook queue leases
+ * A worker claims rows for a limited time so rows left in processing by a
+ * crashed worker can be picked up again
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    ALTER TABLE webhook_queue
+    ADD COLUMN locked_by VARCHAR(100) NULL,
+    ADD COLUMN locked_until TIMESTAMPTZ NULL
+  `;
+
+  // Rows already stuck in processing have no owner left to finish them
+  await db`
+    UPDATE webhook_queue
+    SET locked_until = updated_at
+    WHERE status = 'processing'
+  `;
+
+  await db`
+    CREATE INDEX idx_webhook_queue_locked_until
+    ON webhook_queue(locked_until)
+    WHERE status = 'processing'
+  `;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`DROP INDEX IF EXISTS idx_webhook_queue_locked_until`;
+  await db`
+    ALTER TABLE webhook_queue
+    DROP COLUMN IF EXISTS locked_by,
+    DROP COLUMN IF EXISTS locked_until
+  `;
+};
@@ -0,0 +1,48 @@
+/**
+ * Add background jobs
+ * Jobs are queued runs of a named handler, claimed by any worker; schedules
+ * enqueue a job for each registered recurring job when it falls due
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    CREATE TABLE jobs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      name VARCHAR(100) NOT NULL,
+      payload JSONB NOT NULL DEFAULT '{}',
+      status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 3,
+      run_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      locked_by VARCHAR(100) NULL,
+      locked_until TIMESTAMPTZ NULL,
+      started_at TIMESTAMPTZ NULL,
+      finished_at TIMESTAMPTZ NULL,
+      result JSONB NULL,
+      last_error TEXT NULL,
+      created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await db`
+    CREATE TABLE job_schedules (
+      name VARCHAR(100) PRIMARY KEY,
+      schedule VARCHAR(100) NOT NULL,
+      next_run_at TIMESTAMPTZ NOT NULL,
+      last_job_id UUID NULL REFERENCES jobs(id) ON DELETE SET NULL,
+      created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await db`CREATE INDEX idx_jobs_status_run_at ON jobs(status, run_at)`;
+  await db`CREATE INDEX idx_jobs_name_created_at ON jobs(name, created_at)`;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`DROP TABLE IF EXISTS job_schedules`;
+  await db`DROP TABLE IF EXISTS jobs`;
+};
@@ -0,0 +1,34 @@
+/**
+ * Add data retention policies
+ * A row with no survey is the business-wide policy; a survey row overrides
+ * it for that survey. Null days keep the data forever (or, on a survey row,
+ * inherit the business setting).
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    CREATE TABLE retention_policies (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+      survey_id UUID NULL REFERENCES surveys(id) ON DELETE CASCADE,
+      comment_retention_days INTEGER NULL CHECK (comment_retention_days > 0),
+      response_retention_days INTEGER NULL CHECK (response_retention_days > 0),
+      created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await db`
+    CREATE UNIQUE INDEX idx_retention_policies_business
+    ON retention_policies(business_id) WHERE survey_id IS NULL
+  `;
+  await db`
+    CREATE UNIQUE INDEX idx_retention_policies_survey
+    ON retention_policies(survey_id) WHERE survey_id IS NOT NULL
+  `;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`DROP TABLE IF EXISTS retention_policies`;
+};
@@ -0,0 +1,50 @@
+/**
+ * Add historical response imports
+ * Imported responses get a synthetic, already-expired link tagged with the
+ * import they came from. Only minted links are unique per subject and score,
+ * so a subject can have several imported responses and still be sent links.
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    CREATE TABLE response_imports (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+      survey_id UUID NOT NULL REFERENCES surveys(id) ON DELETE CASCADE,
+      user_id UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+      filename TEXT NULL,
+      row_count INTEGER NOT NULL,
+      created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await db`CREATE INDEX idx_response_imports_survey_id ON response_imports(survey_id)`;
+
+  await db`
+    ALTER TABLE survey_links
+    ADD COLUMN import_id UUID NULL REFERENCES response_imports(id) ON DELETE CASCADE
+  `;
+
+  await db`
+    ALTER TABLE survey_links
+    DROP CONSTRAINT unique_survey_subject_score
+  `;
+  await db`
+    CREATE UNIQUE INDEX unique_survey_subject_score
+    ON survey_links(survey_id, subject_id, score)
+    WHERE import_id IS NULL
+  `;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`DELETE FROM survey_links WHERE import_id IS NOT NULL`;
+  await db`DROP INDEX IF EXISTS unique_survey_subject_score`;
+  await db`
+    ALTER TABLE survey_links
+    ADD CONSTRAINT unique_survey_subject_score
+    UNIQUE (survey_id, subject_id, score)
+  `;
+  await db`ALTER TABLE survey_links DROP COLUMN IF EXISTS import_id`;
+  await db`DROP TABLE IF EXISTS response_imports`;
+};
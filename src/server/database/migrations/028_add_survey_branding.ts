@@ -0,0 +1,13 @@
+/**
+ * Add per-survey branding for the hosted thank-you page
+ * Holds the logo, brand color and copy overrides; null uses ClickNPS defaults.
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`ALTER TABLE surveys ADD COLUMN branding JSONB NULL`;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`ALTER TABLE surveys DROP COLUMN IF EXISTS branding`;
+};
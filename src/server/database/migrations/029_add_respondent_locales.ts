@@ -0,0 +1,16 @@
+/**
+ * Add respondent locales
+ * survey_links.lang is the locale chosen at mint time (null follows the
+ * browser), and surveys.translations holds per-locale string overrides.
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`ALTER TABLE survey_links ADD COLUMN lang TEXT NULL`;
+  await db`ALTER TABLE surveys ADD COLUMN translations JSONB NULL`;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`ALTER TABLE surveys DROP COLUMN IF EXISTS translations`;
+  await db`ALTER TABLE survey_links DROP COLUMN IF EXISTS lang`;
+};
@@ -0,0 +1,18 @@
+/**
+ * Add follow-up questions
+ * surveys.follow_up holds the question and per-category options; responses
+ * and queued response webhooks keep the answer with the question as asked.
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`ALTER TABLE surveys ADD COLUMN follow_up JSONB NULL`;
+  await db`ALTER TABLE responses ADD COLUMN follow_up JSONB NULL`;
+  await db`ALTER TABLE webhook_queue ADD COLUMN follow_up JSONB NULL`;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`ALTER TABLE webhook_queue DROP COLUMN IF EXISTS follow_up`;
+  await db`ALTER TABLE responses DROP COLUMN IF EXISTS follow_up`;
+  await db`ALTER TABLE surveys DROP COLUMN IF EXISTS follow_up`;
+};
@@ -0,0 +1,21 @@
+/**
+ * Add survey types
+ * Every scale (NPS 0-10, CSAT 1-5, CES 1-7, binary 0-1) fits the existing
+ * 0-10 score checks; minting and imports keep scores on the survey's scale.
+ * Queued response webhooks carry the type so consumers can read the score.
+ */
+import type { SQL } from "bun";
+
+export const up = async (db: SQL): Promise<void> => {
+  await db`
+    ALTER TABLE surveys
+    ADD COLUMN type VARCHAR(20) NOT NULL DEFAULT 'nps'
+    CHECK (type IN ('nps', 'csat', 'ces', 'binary'))
+  `;
+  await db`ALTER TABLE webhook_queue ADD COLUMN survey_type VARCHAR(20) NULL`;
+};
+
+export const down = async (db: SQL): Promise<void> => {
+  await db`ALTER TABLE webhook_queue DROP COLUMN IF EXISTS survey_type`;
+  await db`ALTER TABLE surveys DROP COLUMN IF EXISTS type`;
+};
@@ -177,6 +177,10 @@ const seedResponses = async (businessId: string) => {
           ttl_days: survey.ttl_days || 30,
           redirect_url: null,
           redirect_timing: null,
+          type: "nps",
+          branding: null,
+          translations: null,
+          follow_up: null,
           created_at: new Date(),
         },
         { subject_id: subjectId, ttl_days: 365 },
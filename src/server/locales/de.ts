@@ -0,0 +1,45 @@
+import type { Messages } from "./en";
+
+export const de: Messages = {
+  page_title: "Vielen Dank - ClickNPS",
+  page_description:
+    "Vielen Dank für Ihr Feedback. Ihre Antwort hilft uns, unseren Service zu verbessern.",
+  promoter_headline: "Vielen Dank, dass Sie uns weiterempfehlen!",
+  passive_headline: "Vielen Dank für Ihr Feedback!",
+  detractor_headline: "Vielen Dank für Ihr ehrliches Feedback!",
+  positive_headline: "Vielen Dank, das freut uns!",
+  promoter_body: "",
+  passive_body: "",
+  detractor_body: "",
+  you_selected: "Ihre Bewertung:",
+  comment_prompt: "Möchten Sie uns mehr erzählen? (optional)",
+  comment_prompt_followup: "Teilen Sie uns Ihre Gedanken mit (optional)",
+  comment_placeholder: "Was hat Ihnen gefallen, was können wir besser machen?",
+  submit_comment: "Kommentar senden",
+  commented_title: "Kommentar erfolgreich gesendet!",
+  commented_description:
+    "Vielen Dank, dass Sie sich die Zeit für Ihr ausführliches Feedback genommen haben.",
+  already_recorded_title: "Antwort bereits erfasst",
+  already_recorded_description:
+    "Wir haben Ihr Feedback zu dieser Umfrage bereits erhalten. Vielen Dank für Ihre Antwort!",
+  add_context_title: "Ergänzen Sie Ihre Antwort",
+  add_context_description:
+    "Ihre Bewertung wurde gespeichert. Sie können noch einen Kommentar hinzufügen, wenn Sie möchten.",
+  powered_by: "Bereitgestellt von",
+  link_not_found: "Antwortlink nicht gefunden oder abgelaufen",
+  not_accepting_responses: "Diese Umfrage nimmt derzeit keine Antworten an",
+  snippet_nps_question:
+    "Wie wahrscheinlich ist es, dass Sie uns einem Freund oder Kollegen empfehlen?",
+  snippet_nps_low: "Unwahrscheinlich",
+  snippet_nps_high: "Sehr wahrscheinlich",
+  snippet_csat_question: "Wie zufrieden waren Sie mit Ihrer Erfahrung?",
+  snippet_csat_low: "Sehr unzufrieden",
+  snippet_csat_high: "Sehr zufrieden",
+  snippet_ces_question:
+    "Wie einfach war es, das zu bekommen, was Sie brauchten?",
+  snippet_ces_low: "Sehr schwierig",
+  snippet_ces_high: "Sehr einfach",
+  snippet_binary_question: "War das hilfreich?",
+  snippet_binary_low: "Nein",
+  snippet_binary_high: "Ja",
+};
@@ -0,0 +1,52 @@
+/**
+ * English strings for the respondent-facing pages and email snippets
+ * Every other catalog must provide the same keys.
+ */
+export const en = {
+  page_title: "Thank You - ClickNPS",
+  page_description:
+    "Thank you for your feedback. Your response helps us improve our service.",
+  promoter_headline: "Thank you for being a promoter!",
+  passive_headline: "Thank you for your feedback!",
+  detractor_headline: "Thank you for your honest feedback!",
+  // Replaces promoter_headline on scales other than NPS
+  positive_headline: "Thank you, we're glad to hear it!",
+  // Bodies are blank by default; surveys can set them through branding
+  promoter_body: "",
+  passive_body: "",
+  detractor_body: "",
+  you_selected: "You selected:",
+  comment_prompt: "Care to share more details? (optional)",
+  comment_prompt_followup: "Share your thoughts (optional)",
+  comment_placeholder: "Tell us what worked well or what could be improved...",
+  submit_comment: "Submit Comment",
+  commented_title: "Comment submitted successfully!",
+  commented_description:
+    "Thank you for taking the time to share your detailed feedback with us.",
+  already_recorded_title: "Response already recorded",
+  already_recorded_description:
+    "We've already captured your feedback for this survey. Thank you for your response!",
+  add_context_title: "Add more context to your response",
+  add_context_description:
+    "Your score has been recorded. You still have time to add additional comments if you'd like.",
+  powered_by: "Powered by",
+  link_not_found: "Response link not found or expired",
+  not_accepting_responses: "This survey is not accepting responses right now",
+  // Email snippet question and scale end labels, per survey type
+  snippet_nps_question:
+    "How likely are you to recommend us to a friend or colleague?",
+  snippet_nps_low: "Not likely",
+  snippet_nps_high: "Very likely",
+  snippet_csat_question: "How satisfied were you with your experience?",
+  snippet_csat_low: "Very dissatisfied",
+  snippet_csat_high: "Very satisfied",
+  snippet_ces_question: "How easy was it to get what you needed?",
+  snippet_ces_low: "Very difficult",
+  snippet_ces_high: "Very easy",
+  snippet_binary_question: "Was this helpful?",
+  snippet_binary_low: "No",
+  snippet_binary_high: "Yes",
+};
+
+export type Messages = typeof en;
+export type MessageKey = keyof Messages;
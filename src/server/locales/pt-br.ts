@@ -0,0 +1,45 @@
+import type { Messages } from "./en";
+
+export const ptBR: Messages = {
+  page_title: "Obrigado - ClickNPS",
+  page_description:
+    "Obrigado pelo seu feedback. Sua resposta nos ajuda a melhorar nosso serviço.",
+  promoter_headline: "Obrigado por nos recomendar!",
+  passive_headline: "Obrigado pelo seu feedback!",
+  detractor_headline: "Obrigado pelo seu feedback sincero!",
+  positive_headline: "Obrigado, ficamos felizes em saber!",
+  promoter_body: "",
+  passive_body: "",
+  detractor_body: "",
+  you_selected: "Sua nota:",
+  comment_prompt: "Quer nos contar mais? (opcional)",
+  comment_prompt_followup: "Compartilhe sua opinião (opcional)",
+  comment_placeholder: "Conte o que funcionou bem ou o que podemos melhorar...",
+  submit_comment: "Enviar comentário",
+  commented_title: "Comentário enviado com sucesso!",
+  commented_description:
+    "Obrigado por dedicar seu tempo para compartilhar um feedback detalhado conosco.",
+  already_recorded_title: "Resposta já registrada",
+  already_recorded_description:
+    "Já recebemos seu feedback para esta pesquisa. Obrigado pela sua resposta!",
+  add_context_title: "Complemente sua resposta",
+  add_context_description:
+    "Sua nota foi registrada. Você ainda pode adicionar um comentário, se quiser.",
+  powered_by: "Desenvolvido por",
+  link_not_found: "Link de resposta não encontrado ou expirado",
+  not_accepting_responses:
+    "Esta pesquisa não está aceitando respostas no momento",
+  snippet_nps_question:
+    "Qual a probabilidade de você nos recomendar a um amigo ou colega?",
+  snippet_nps_low: "Pouco provável",
+  snippet_nps_high: "Muito provável",
+  snippet_csat_question: "Quão satisfeito você ficou com sua experiência?",
+  snippet_csat_low: "Muito insatisfeito",
+  snippet_csat_high: "Muito satisfeito",
+  snippet_ces_question: "Quão fácil foi conseguir o que você precisava?",
+  snippet_ces_low: "Muito difícil",
+  snippet_ces_high: "Muito fácil",
+  snippet_binary_question: "Isso foi útil?",
+  snippet_binary_low: "Não",
+  snippet_binary_high: "Sim",
+};
@@ -1,7 +1,8 @@
 import { runMigrations } from "./database/migrate";
 import { apiRoutes } from "./routes/api";
 import { appRoutes } from "./routes/app";
-import { startWebhookWorker } from "./services/queue-worker";
+import { startJobRunner } from "./services/jobs";
+import { registerScheduledJobs } from "./services/scheduled-jobs";
 
 await runMigrations();
 
@@ -34,5 +35,8 @@ const server = Bun.serve({
 
 console.log(`Server running at http://localhost:${server.port}`);
 
-// Start the webhook queue worker
-startWebhookWorker();
+// Start background jobs, unless they run separately (see worker.ts)
+if (process.env.RUN_BACKGROUND_JOBS !== "false") {
+  registerScheduledJobs();
+  await startJobRunner();
+}
@@ -14,3 +14,16 @@ export function isOwner(auth: AuthContext): boolean {
 export function isMember(auth: AuthContext): boolean {
   return auth?.user?.role === "member";
 }
+
+/**
+ * Whether the user operates this ClickNPS install, rather than a business
+ * Listed by email in ADMIN_EMAILS; only they see system-wide pages.
+ */
+export function isSystemAdmin(auth: AuthContext): boolean {
+  const email = auth?.user?.email?.toLowerCase();
+  if (!email) return false;
+
+  return (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .some((entry) => entry.trim().toLowerCase() === email);
+}
@@ -1,8 +1,52 @@
-import { surveysApi } from "../controllers/api";
+import {
+  responsesApi,
+  subjectsApi,
+  surveysApi,
+  webhooksApi,
+} from "../controllers/api";
 import { createRouteHandler } from "../utils/route-handler";
 
 export const apiRoutes = {
   "/api/v1/links/mint": createRouteHandler({
     POST: surveysApi.mintLinks,
   }),
+  "/api/v1/links/mint/batch": createRouteHandler({
+    POST: surveysApi.mintLinksBatch,
+  }),
+  "/api/v1/surveys": createRouteHandler({
+    GET: surveysApi.listSurveys,
+    POST: surveysApi.createSurvey,
+  }),
+  "/api/v1/surveys/:survey_id": createRouteHandler({
+    GET: surveysApi.getSurvey,
+    PATCH: surveysApi.updateSurvey,
+    DELETE: surveysApi.deleteSurvey,
+  }),
+  "/api/v1/surveys/:survey_id/responses": createRouteHandler({
+    GET: responsesApi.listSurveyResponses,
+  }),
+  "/api/v1/surveys/:survey_id/responses/export": createRouteHandler({
+    GET: responsesApi.exportSurveyResponses,
+  }),
+  "/api/v1/responses": createRouteHandler({
+    GET: responsesApi.listResponses,
+  }),
+  "/api/v1/subjects/:subject_id": createRouteHandler({
+    DELETE: subjectsApi.eraseSubject,
+  }),
+  "/api/v1/subjects/:subject_id/export": createRouteHandler({
+    GET: subjectsApi.exportSubject,
+  }),
+  "/api/v1/webhooks/deliveries": createRouteHandler({
+    GET: webhooksApi.listDeliveries,
+  }),
+  "/api/v1/webhooks/deliveries/redeliver": createRouteHandler({
+    POST: webhooksApi.redeliverFailed,
+  }),
+  "/api/v1/webhooks/deliveries/:delivery_id": createRouteHandler({
+    GET: webhooksApi.getDelivery,
+  }),
+  "/api/v1/webhooks/deliveries/:delivery_id/redeliver": createRouteHandler({
+    POST: webhooksApi.redeliver,
+  }),
 };
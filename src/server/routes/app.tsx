@@ -1,12 +1,17 @@
 import {
   about,
   apiKeys,
+  billing,
   docs,
   home,
+  imports,
   invites,
+  jobs,
+  payments,
   pricing,
   profile,
   responses,
+  retention,
   support,
   surveys,
   team,
@@ -32,9 +37,19 @@ export const appRoutes = {
     GET: surveys.mintForm,
     POST: surveys.mint,
   }),
+  "/surveys/:surveyId/analytics": createRouteHandler({
+    GET: surveys.analytics,
+  }),
   "/surveys/:surveyId/responses": createRouteHandler({
     GET: surveys.responses,
   }),
+  "/surveys/:surveyId/responses/export": createRouteHandler({
+    GET: surveys.exportResponses,
+  }),
+  "/surveys/:surveyId/import": createRouteHandler({
+    GET: imports.index,
+    POST: imports.index,
+  }),
   "/settings/api-keys": createRouteHandler({
     GET: apiKeys.index,
     POST: apiKeys.index,
@@ -43,6 +58,24 @@ export const appRoutes = {
     GET: webhooks.index,
     POST: webhooks.index,
   }),
+  "/settings/webhooks/deliveries/:deliveryId": createRouteHandler({
+    GET: webhooks.delivery,
+  }),
+  "/settings/billing": createRouteHandler({
+    GET: billing.index,
+    POST: billing.index,
+  }),
+  // Completes checkouts without payment; 404s unless the fake provider is in use
+  "/billing/fake-checkout": createRouteHandler({
+    GET: payments.fakeCheckout,
+  }),
+  "/webhooks/payments": createRouteHandler({
+    POST: payments.webhook,
+  }),
+  "/settings/retention": createRouteHandler({
+    GET: retention.index,
+    POST: retention.index,
+  }),
   "/settings/profile": createRouteHandler({
     GET: profile.index,
     POST: profile.update,
@@ -55,6 +88,10 @@ export const appRoutes = {
     GET: support.index,
     POST: support.submit,
   }),
+  "/admin/jobs": createRouteHandler({
+    GET: jobs.index,
+    POST: jobs.index,
+  }),
   "/invites/accept": createRouteHandler({
     GET: invites.acceptForm,
     POST: invites.accept,
@@ -61,6 +61,8 @@ mock.module("./database", () => ({
 import {
   getDashboardStats,
   getLatestResponses,
+  getSurveyAnalytics,
+  getSurveyTrend,
   getWeeklyNpsData,
 } from "./analytics";
 
@@ -91,8 +93,9 @@ describe("Analytics Service - Dashboard with PostgreSQL", () => {
 
     expect(stats.totalResponses.value7d).toBe(0);
     expect(stats.totalResponses.value30d).toBe(0);
-    expect(stats.averageNps.value7d).toBe(0);
-    expect(stats.averageNps.value30d).toBe(0);
+    expect(stats.nps.value7d).toBeNull();
+    expect(stats.nps.value30d).toBeNull();
+    expect(stats.nps.delta7d).toBe(0);
     expect(stats.responseRate.value7d).toBe(0);
     expect(stats.responseRate.value30d).toBe(0);
     expect(stats.comments.value7d).toBe(0);
@@ -131,7 +134,14 @@ describe("Analytics Service - Dashboard with PostgreSQL", () => {
     const stats = await getDashboardStats(testBusinessId);
 
     expect(stats.totalResponses.value7d).toBe(2);
-    expect(stats.averageNps.value7d).toBe(8);
+    expect(stats.nps.value7d).toBe(50);
+    expect(stats.nps.breakdown7d).toEqual({
+      score: 50,
+      promoters: 1,
+      passives: 1,
+      detractors: 0,
+      total: 2,
+    });
     expect(stats.responseRate.value7d).toBe(100);
     expect(stats.comments.value7d).toBe(1);
   });
@@ -162,10 +172,53 @@ describe("Analytics Service - Dashboard with PostgreSQL", () => {
     const stats = await getDashboardStats(testBusinessId);
 
     expect(stats.totalResponses.value30d).toBe(1);
-    expect(stats.averageNps.value30d).toBe(10);
+    expect(stats.nps.value30d).toBe(100);
     expect(stats.comments.value30d).toBe(1);
   });
 
+  it("should report NPS deltas in points", async () => {
+    const surveyId = randomUUID();
+    const now = new Date();
+    const twoDaysAgo = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000);
+    const nineDaysAgo = new Date(now.getTime() - 9 * 24 * 60 * 60 * 1000);
+    const expiresAt = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    await connection`
+      INSERT INTO surveys (id, business_id, survey_id, title)
+      VALUES (${surveyId}, ${testBusinessId}, 'test-survey', 'Test Survey')
+    `;
+
+    // Current week: 2 promoters, 1 detractor, 1 passive -> NPS 25
+    // Previous week: 1 promoter, 1 detractor -> NPS 0
+    const responses = [
+      { score: 10, respondedAt: twoDaysAgo },
+      { score: 9, respondedAt: twoDaysAgo },
+      { score: 3, respondedAt: twoDaysAgo },
+      { score: 8, respondedAt: twoDaysAgo },
+      { score: 9, respondedAt: nineDaysAgo },
+      { score: 0, respondedAt: nineDaysAgo },
+    ];
+
+    for (const [index, response] of responses.entries()) {
+      const linkId = randomUUID();
+      await connection`
+        INSERT INTO survey_links (id, token, survey_id, subject_id, score, expires_at)
+        VALUES (${linkId}, ${`token-${randomUUID()}`}, ${surveyId}, ${`user${index}`}, ${response.score}, ${expiresAt})
+      `;
+      await connection`
+        INSERT INTO responses (id, survey_link_id, responded_at)
+        VALUES (${randomUUID()}, ${linkId}, ${response.respondedAt.toISOString()})
+      `;
+    }
+
+    const stats = await getDashboardStats(testBusinessId);
+
+    expect(stats.nps.value7d).toBe(25);
+    expect(stats.nps.delta7d).toBe(25);
+    expect(stats.nps.value30d).toBe(17);
+    expect(stats.nps.breakdown30d.detractors).toBe(2);
+  });
+
   it("should calculate deltas correctly", async () => {
     const surveyId = randomUUID();
     const now = new Date();
@@ -290,7 +343,7 @@ describe("Analytics Service - Dashboard with PostgreSQL", () => {
     expect(weeklyData[11].weekLabel).toBe("This week");
   });
 
-  it("should calculate weekly NPS averages correctly", async () => {
+  it("should calculate weekly NPS correctly", async () => {
     const surveyId = randomUUID();
     const now = new Date();
     const threeDaysAgo = new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000);
@@ -324,11 +377,14 @@ describe("Analytics Service - Dashboard with PostgreSQL", () => {
     const weeklyData = await getWeeklyNpsData(testBusinessId, 12);
 
     const thisWeek = weeklyData[11];
-    expect(thisWeek.averageNps).toBe(8);
+    expect(thisWeek.nps).toBe(50);
+    expect(thisWeek.promoters).toBe(1);
+    expect(thisWeek.passives).toBe(1);
+    expect(thisWeek.detractors).toBe(0);
     expect(thisWeek.responseCount).toBe(2);
 
     const lastWeek = weeklyData[10];
-    expect(lastWeek.averageNps).toBe(10);
+    expect(lastWeek.nps).toBe(100);
     expect(lastWeek.responseCount).toBe(1);
   });
 
@@ -339,11 +395,11 @@ describe("Analytics Service - Dashboard with PostgreSQL", () => {
       expect(week).toHaveProperty("weekLabel");
       expect(week).toHaveProperty("weekStart");
       expect(week).toHaveProperty("weekEnd");
-      expect(week).toHaveProperty("averageNps");
+      expect(week).toHaveProperty("nps");
       expect(week).toHaveProperty("responseCount");
 
       if (week.responseCount === 0) {
-        expect(week.averageNps).toBeNull();
+        expect(week.nps).toBeNull();
       }
     });
   });
@@ -357,4 +413,159 @@ describe("Analytics Service - Dashboard with PostgreSQL", () => {
       );
     }
   });
+
+  describe("survey analytics", () => {
+    let surveyId: string;
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    beforeEach(async () => {
+      surveyId = randomUUID();
+      await connection`
+        INSERT INTO surveys (id, business_id, survey_id, title)
+        VALUES (${surveyId}, ${testBusinessId}, 'trend-survey', 'Trend Survey')
+      `;
+    });
+
+    // Mint one link, answered when respondedAt is given
+    const createLink = async (
+      subjectId: string,
+      score: number,
+      createdAt: Date,
+      respondedAt: Date | null = null,
+      comment: string | null = null,
+    ) => {
+      const linkId = randomUUID();
+      await connection`
+        INSERT INTO survey_links (id, token, survey_id, subject_id, score, expires_at, created_at)
+        VALUES (${linkId}, ${`token-${randomUUID()}`}, ${surveyId}, ${subjectId}, ${score}, ${new Date(Date.now() + 7 * DAY_MS)}, ${createdAt})
+      `;
+      if (respondedAt) {
+        await connection`
+          INSERT INTO responses (survey_link_id, responded_at, comment)
+          VALUES (${linkId}, ${respondedAt}, ${comment})
+        `;
+      }
+    };
+
+    it("should summarise a survey with no data", async () => {
+      const analytics = await getSurveyAnalytics(surveyId, "nps");
+
+      expect(analytics.distribution).toEqual(Array(11).fill(0));
+      expect(analytics.breakdown.score).toBeNull();
+      expect(analytics.commentRate).toBeNull();
+      expect(analytics.responseRate).toBeNull();
+    });
+
+    it("should count scores, comments and respondents", async () => {
+      const now = new Date();
+      await createLink("user1", 10, now, now, "Great");
+      await createLink("user1", 9, now);
+      await createLink("user2", 3, now, now);
+      await createLink("user3", 9, now, now, "");
+      await createLink("user4", 8, now);
+
+      const analytics = await getSurveyAnalytics(surveyId, "nps");
+
+      expect(analytics.distribution[10]).toBe(1);
+      expect(analytics.distribution[9]).toBe(1);
+      expect(analytics.distribution[3]).toBe(1);
+      expect(analytics.distribution[8]).toBe(0);
+      expect(analytics.breakdown.score).toBe(33);
+      expect(analytics.commentCount).toBe(1);
+      expect(analytics.commentRate).toBe(33);
+      expect(analytics.subjectsMinted).toBe(4);
+      expect(analytics.respondents).toBe(3);
+      expect(analytics.responseRate).toBe(75);
+    });
+
+    it("should leave imported responses out of the response rate", async () => {
+      const now = new Date();
+      const importId = randomUUID();
+      await connection`
+        INSERT INTO response_imports (id, business_id, survey_id, row_count)
+        VALUES (${importId}, ${testBusinessId}, ${surveyId}, 1)
+      `;
+      const linkId = randomUUID();
+      await connection`
+        INSERT INTO survey_links (id, token, survey_id, subject_id, score, expires_at, import_id)
+        VALUES (${linkId}, ${`token-${randomUUID()}`}, ${surveyId}, 'legacy', 10, ${now}, ${importId})
+      `;
+      await connection`
+        INSERT INTO responses (survey_link_id, responded_at) VALUES (${linkId}, ${now})
+      `;
+      await createLink("user1", 0, now);
+
+      const analytics = await getSurveyAnalytics(surveyId, "nps");
+
+      expect(analytics.breakdown.total).toBe(1);
+      expect(analytics.subjectsMinted).toBe(1);
+      expect(analytics.responseRate).toBe(0);
+    });
+
+    it("should bucket the trend by the requested granularity", async () => {
+      const now = new Date();
+      const twoDaysAgo = new Date(now.getTime() - 2 * DAY_MS);
+      await createLink("user1", 10, twoDaysAgo, twoDaysAgo, "Great");
+      await createLink("user2", 2, twoDaysAgo, now);
+      await createLink("user3", 9, twoDaysAgo);
+      await createLink("user4", 9, now);
+
+      const daily = await getSurveyTrend(surveyId, "nps", "day");
+
+      expect(daily).toHaveLength(30);
+      expect(daily[29].periodStart.getTime()).toBeLessThanOrEqual(
+        now.getTime(),
+      );
+      expect(daily[29].periodEnd.getTime()).toBeGreaterThan(now.getTime());
+
+      expect(daily[27].responseCount).toBe(1);
+      expect(daily[27].score).toBe(100);
+      expect(daily[27].commentRate).toBe(100);
+      expect(daily[27].subjectsMinted).toBe(3);
+      expect(daily[27].respondents).toBe(2);
+      expect(daily[27].responseRate).toBe(67);
+
+      expect(daily[29].responseCount).toBe(1);
+      expect(daily[29].score).toBe(-100);
+      expect(daily[29].commentRate).toBe(0);
+      expect(daily[29].subjectsMinted).toBe(1);
+      expect(daily[29].responseRate).toBe(0);
+
+      expect(daily[28].score).toBeNull();
+      expect(daily[28].responseRate).toBeNull();
+
+      const monthly = await getSurveyTrend(surveyId, "nps", "month", 3);
+      expect(monthly).toHaveLength(3);
+      expect(monthly[2].periodStart.getUTCDate()).toBe(1);
+      expect(monthly.reduce((sum, point) => sum + point.responseCount, 0)).toBe(
+        2,
+      );
+    });
+
+    it("should score other survey types on their own scale", async () => {
+      const now = new Date();
+      await createLink("user1", 5, now, now);
+      await createLink("user2", 4, now, now);
+      await createLink("user3", 3, now, now);
+      await createLink("user4", 1, now, now);
+
+      const csat = await getSurveyAnalytics(surveyId, "csat");
+
+      expect(csat.scores).toEqual([1, 2, 3, 4, 5]);
+      expect(csat.distribution).toEqual([1, 0, 1, 1, 1]);
+      expect(csat.breakdown).toEqual({
+        score: 50,
+        promoters: 2,
+        passives: 1,
+        detractors: 1,
+        total: 4,
+      });
+
+      const ces = await getSurveyTrend(surveyId, "ces", "day", 1);
+      expect(ces[0].score).toBe(3.3);
+      expect(ces[0].promoters).toBe(1);
+      expect(ces[0].passives).toBe(1);
+      expect(ces[0].detractors).toBe(2);
+    });
+  });
 });
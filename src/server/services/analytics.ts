@@ -1,3 +1,11 @@
+import { calculateNps, type NpsBreakdown } from "../utils/nps";
+import {
+  calculateSurveyScore,
+  getScaleScores,
+  SURVEY_SCALES,
+  type SurveyType,
+  tallyScores,
+} from "../utils/survey-types";
 import { db } from "./database";
 
 export type VisitorStats = {
@@ -22,15 +30,25 @@ export interface KpiMetric {
   delta30d: number;
 }
 
+export interface NpsKpiMetric {
+  value7d: number | null;
+  value30d: number | null;
+  delta7d: number; // Change in NPS points
+  delta30d: number;
+  breakdown7d: NpsBreakdown;
+  breakdown30d: NpsBreakdown;
+}
+
 export interface DashboardStats {
   totalResponses: KpiMetric;
-  averageNps: KpiMetric;
+  nps: NpsKpiMetric;
   responseRate: KpiMetric;
   comments: KpiMetric;
 }
 
 export interface LatestResponse {
   surveyName: string;
+  surveyType: SurveyType;
   subjectId: string;
   score: number;
   comment: string | null;
@@ -41,10 +59,38 @@ export interface WeeklyNpsData {
   weekLabel: string;
   weekStart: Date;
   weekEnd: Date;
-  averageNps: number | null;
+  nps: number | null;
+  promoters: number;
+  passives: number;
+  detractors: number;
   responseCount: number;
 }
 
+interface PeriodStatsRow {
+  response_count: string;
+  comment_count: string;
+  promoters: string;
+  passives: string;
+  detractors: string;
+  unique_subjects: string;
+  respondents: string;
+}
+
+const toNpsBreakdown = (row: {
+  promoters: string;
+  passives: string;
+  detractors: string;
+}): NpsBreakdown =>
+  calculateNps({
+    promoters: Number(row.promoters) || 0,
+    passives: Number(row.passives) || 0,
+    detractors: Number(row.detractors) || 0,
+  });
+
+/**
+ * Business-wide KPIs for the last 7 and 30 days against the periods before
+ * Only NPS surveys count toward NPS; other scales don't mix with it.
+ */
 export const getDashboardStats = async (
   businessId: string,
 ): Promise<DashboardStats> => {
@@ -58,7 +104,9 @@ export const getDashboardStats = async (
     SELECT
       COUNT(r.id) as response_count,
       COUNT(CASE WHEN r.comment IS NOT NULL AND r.comment != '' THEN 1 END) as comment_count,
-      AVG(CASE WHEN r.id IS NOT NULL THEN sl.score END) as average_nps,
+      COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score >= 9 THEN 1 END) as promoters,
+      COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score BETWEEN 7 AND 8 THEN 1 END) as passives,
+      COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score <= 6 THEN 1 END) as detractors,
       COUNT(DISTINCT sl.subject_id) as unique_subjects,
       COUNT(DISTINCT CASE WHEN r.id IS NOT NULL THEN sl.subject_id END) as respondents
     FROM surveys s
@@ -71,7 +119,9 @@ export const getDashboardStats = async (
     SELECT
       COUNT(r.id) as response_count,
       COUNT(CASE WHEN r.comment IS NOT NULL AND r.comment != '' THEN 1 END) as comment_count,
-      AVG(CASE WHEN r.id IS NOT NULL THEN sl.score END) as average_nps,
+      COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score >= 9 THEN 1 END) as promoters,
+      COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score BETWEEN 7 AND 8 THEN 1 END) as passives,
+      COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score <= 6 THEN 1 END) as detractors,
       COUNT(DISTINCT sl.subject_id) as unique_subjects,
       COUNT(DISTINCT CASE WHEN r.id IS NOT NULL THEN sl.subject_id END) as respondents
     FROM surveys s
@@ -86,7 +136,9 @@ export const getDashboardStats = async (
     SELECT
       COUNT(r.id) as response_count,
       COUNT(CASE WHEN r.comment IS NOT NULL AND r.comment != '' THEN 1 END) as comment_count,
-      AVG(CASE WHEN r.id IS NOT NULL THEN sl.score END) as average_nps,
+      COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score >= 9 THEN 1 END) as promoters,
+      COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score BETWEEN 7 AND 8 THEN 1 END) as passives,
+      COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score <= 6 THEN 1 END) as detractors,
       COUNT(DISTINCT sl.subject_id) as unique_subjects,
       COUNT(DISTINCT CASE WHEN r.id IS NOT NULL THEN sl.subject_id END) as respondents
     FROM surveys s
@@ -99,7 +151,9 @@ export const getDashboardStats = async (
     SELECT
       COUNT(r.id) as response_count,
       COUNT(CASE WHEN r.comment IS NOT NULL AND r.comment != '' THEN 1 END) as comment_count,
-      AVG(CASE WHEN r.id IS NOT NULL THEN sl.score END) as average_nps,
+      COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score >= 9 THEN 1 END) as promoters,
+      COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score BETWEEN 7 AND 8 THEN 1 END) as passives,
+      COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score <= 6 THEN 1 END) as detractors,
       COUNT(DISTINCT sl.subject_id) as unique_subjects,
       COUNT(DISTINCT CASE WHEN r.id IS NOT NULL THEN sl.subject_id END) as respondents
     FROM surveys s
@@ -110,37 +164,13 @@ export const getDashboardStats = async (
     WHERE s.business_id = ${businessId}
   `;
 
-  const current7d = stats7d[0] as {
-    response_count: string;
-    comment_count: string;
-    average_nps: string | null;
-    unique_subjects: string;
-    respondents: string;
-  };
+  const current7d = stats7d[0] as PeriodStatsRow;
 
-  const previous7d = statsPrev7d[0] as {
-    response_count: string;
-    comment_count: string;
-    average_nps: string | null;
-    unique_subjects: string;
-    respondents: string;
-  };
+  const previous7d = statsPrev7d[0] as PeriodStatsRow;
 
-  const current30d = stats30d[0] as {
-    response_count: string;
-    comment_count: string;
-    average_nps: string | null;
-    unique_subjects: string;
-    respondents: string;
-  };
+  const current30d = stats30d[0] as PeriodStatsRow;
 
-  const previous30d = statsPrev30d[0] as {
-    response_count: string;
-    comment_count: string;
-    average_nps: string | null;
-    unique_subjects: string;
-    respondents: string;
-  };
+  const previous30d = statsPrev30d[0] as PeriodStatsRow;
 
   const calculateDelta = (current: number, previous: number): number => {
     if (previous === 0) return current > 0 ? 100 : 0;
@@ -160,14 +190,18 @@ export const getDashboardStats = async (
   const responseCount30d = Number(current30d.response_count) || 0;
   const responseCountPrev30d = Number(previous30d.response_count) || 0;
 
-  const avgNps7d = current7d.average_nps ? Number(current7d.average_nps) : 0;
-  const avgNpsPrev7d = previous7d.average_nps
-    ? Number(previous7d.average_nps)
-    : 0;
-  const avgNps30d = current30d.average_nps ? Number(current30d.average_nps) : 0;
-  const avgNpsPrev30d = previous30d.average_nps
-    ? Number(previous30d.average_nps)
-    : 0;
+  const nps7d = toNpsBreakdown(current7d);
+  const npsPrev7d = toNpsBreakdown(previous7d);
+  const nps30d = toNpsBreakdown(current30d);
+  const npsPrev30d = toNpsBreakdown(previous30d);
+
+  const calculateNpsDelta = (
+    current: NpsBreakdown,
+    previous: NpsBreakdown,
+  ): number => {
+    if (current.score === null || previous.score === null) return 0;
+    return current.score - previous.score;
+  };
 
   const responseRate7d = calculateResponseRate(
     Number(current7d.respondents),
@@ -198,17 +232,13 @@ export const getDashboardStats = async (
       delta7d: calculateDelta(responseCount7d, responseCountPrev7d),
       delta30d: calculateDelta(responseCount30d, responseCountPrev30d),
     },
-    averageNps: {
-      value7d: Math.round(avgNps7d * 10) / 10,
-      value30d: Math.round(avgNps30d * 10) / 10,
-      delta7d: calculateDelta(
-        Math.round(avgNps7d * 10),
-        Math.round(avgNpsPrev7d * 10),
-      ),
-      delta30d: calculateDelta(
-        Math.round(avgNps30d * 10),
-        Math.round(avgNpsPrev30d * 10),
-      ),
+    nps: {
+      value7d: nps7d.score,
+      value30d: nps30d.score,
+      delta7d: calculateNpsDelta(nps7d, npsPrev7d),
+      delta30d: calculateNpsDelta(nps30d, npsPrev30d),
+      breakdown7d: nps7d,
+      breakdown30d: nps30d,
     },
     responseRate: {
       value7d: responseRate7d,
@@ -232,6 +262,7 @@ export const getLatestResponses = async (
   const result = await db`
     SELECT
       s.title as survey_name,
+      s.type as survey_type,
       sl.subject_id,
       sl.score,
       r.comment,
@@ -247,12 +278,14 @@ export const getLatestResponses = async (
   return result.map(
     (row: {
       survey_name: string;
+      survey_type: SurveyType;
       subject_id: string;
       score: number;
       comment: string | null;
       responded_at: string;
     }) => ({
       surveyName: row.survey_name,
+      surveyType: row.survey_type,
       subjectId: row.subject_id,
       score: row.score,
       comment: row.comment,
@@ -261,6 +294,9 @@ export const getLatestResponses = async (
   );
 };
 
+/**
+ * NPS for each of the last few weeks, across the business's NPS surveys
+ */
 export const getWeeklyNpsData = async (
   businessId: string,
   weeks = 12,
@@ -280,7 +316,9 @@ export const getWeeklyNpsData = async (
     const result = await db`
       SELECT
         COUNT(r.id) as response_count,
-        AVG(CASE WHEN r.id IS NOT NULL THEN sl.score END) as average_nps
+        COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score >= 9 THEN 1 END) as promoters,
+        COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score BETWEEN 7 AND 8 THEN 1 END) as passives,
+        COUNT(CASE WHEN r.id IS NOT NULL AND s.type = 'nps' AND sl.score <= 6 THEN 1 END) as detractors
       FROM surveys s
       LEFT JOIN survey_links sl ON s.id = sl.survey_id
       LEFT JOIN responses r ON sl.id = r.survey_link_id
@@ -291,11 +329,13 @@ export const getWeeklyNpsData = async (
 
     const row = result[0] as {
       response_count: string;
-      average_nps: string | null;
+      promoters: string;
+      passives: string;
+      detractors: string;
     };
 
     const responseCount = Number(row.response_count) || 0;
-    const averageNps = row.average_nps ? Number(row.average_nps) : null;
+    const nps = toNpsBreakdown(row);
 
     const weekLabel =
       i === 0 ? "This week" : i === 1 ? "Last week" : `${i}w ago`;
@@ -304,10 +344,214 @@ export const getWeeklyNpsData = async (
       weekLabel,
       weekStart,
       weekEnd,
-      averageNps: averageNps ? Math.round(averageNps * 10) / 10 : null,
+      nps: nps.score,
+      promoters: nps.promoters,
+      passives: nps.passives,
+      detractors: nps.detractors,
       responseCount,
     });
   }
 
   return weeklyData;
 };
+
+export const TREND_GRANULARITIES = ["day", "week", "month"] as const;
+
+export type TrendGranularity = (typeof TREND_GRANULARITIES)[number];
+
+// Periods shown on the trend charts at each granularity
+export const TREND_PERIODS: Record<TrendGranularity, number> = {
+  day: 30,
+  week: 12,
+  month: 12,
+};
+
+export interface SurveyAnalytics {
+  scores: number[]; // Every score on the survey's scale
+  distribution: number[]; // Responses for each of those scores
+  breakdown: NpsBreakdown; // Category split; score is the type's headline score
+  commentCount: number;
+  commentRate: number | null; // % of responses with a comment
+  subjectsMinted: number; // Subjects sent links, excluding imports
+  respondents: number; // Of those subjects, how many responded
+  responseRate: number | null;
+}
+
+export interface SurveyTrendPoint {
+  periodStart: Date;
+  periodEnd: Date; // Exclusive
+  score: number | null; // The type's headline score
+  promoters: number;
+  passives: number;
+  detractors: number;
+  responseCount: number;
+  commentCount: number;
+  commentRate: number | null;
+  subjectsMinted: number; // Subjects sent links during the period
+  respondents: number; // Of those subjects, how many have responded since
+  responseRate: number | null;
+}
+
+const toRate = (part: number, whole: number): number | null =>
+  whole > 0 ? Math.round((part / whole) * 100) : null;
+
+/**
+ * All-time score distribution, headline score, comment rate and response rate
+ * for one survey
+ * Imported responses count toward scores and comments, but not the response
+ * rate: they were never sent through ClickNPS.
+ */
+export const getSurveyAnalytics = async (
+  surveyId: string,
+  type: SurveyType,
+): Promise<SurveyAnalytics> => {
+  const scores = await db`
+    SELECT
+      sl.score,
+      COUNT(*) as response_count,
+      COUNT(CASE WHEN r.comment IS NOT NULL AND r.comment != '' THEN 1 END) as comment_count
+    FROM responses r
+    JOIN survey_links sl ON r.survey_link_id = sl.id
+    WHERE sl.survey_id = ${surveyId}
+    GROUP BY sl.score
+  `;
+
+  const [subjects] = await db`
+    SELECT
+      COUNT(DISTINCT sl.subject_id) as subjects_minted,
+      COUNT(DISTINCT CASE WHEN r.id IS NOT NULL THEN sl.subject_id END) as respondents
+    FROM survey_links sl
+    LEFT JOIN responses r ON sl.id = r.survey_link_id
+    WHERE sl.survey_id = ${surveyId} AND sl.import_id IS NULL
+  `;
+
+  const scaleScores = getScaleScores(type);
+  const counts = new Map<number, number>();
+  let commentCount = 0;
+  for (const row of scores as {
+    score: number;
+    response_count: string;
+    comment_count: string;
+  }[]) {
+    counts.set(row.score, Number(row.response_count));
+    commentCount += Number(row.comment_count);
+  }
+
+  const distribution = scaleScores.map((score) => counts.get(score) ?? 0);
+  const breakdown = calculateSurveyScore(
+    type,
+    tallyScores(
+      type,
+      [...counts].map(([score, count]) => ({ score, count })),
+    ),
+  );
+  const subjectsMinted = Number(subjects.subjects_minted) || 0;
+  const respondents = Number(subjects.respondents) || 0;
+
+  return {
+    scores: scaleScores,
+    distribution,
+    breakdown,
+    commentCount,
+    commentRate: toRate(commentCount, breakdown.total),
+    subjectsMinted,
+    respondents,
+    responseRate: toRate(respondents, subjectsMinted),
+  };
+};
+
+/**
+ * Headline score, comment rate and response rate for one survey over recent periods
+ * Periods are calendar days, ISO weeks or months in UTC, oldest first, ending
+ * with the current one. Responses fall in the period they were given; the
+ * response rate follows the subjects sent links in each period.
+ */
+export const getSurveyTrend = async (
+  surveyId: string,
+  type: SurveyType,
+  granularity: TrendGranularity,
+  periods = TREND_PERIODS[granularity],
+): Promise<SurveyTrendPoint[]> => {
+  const step = `1 ${granularity}`;
+  const { promoterMin, passiveMin } = SURVEY_SCALES[type];
+
+  const result = await db`
+    WITH periods AS (
+      SELECT
+        start AT TIME ZONE 'UTC' as period_start,
+        (start + ${step}::interval) AT TIME ZONE 'UTC' as period_end
+      FROM generate_series(
+        date_trunc(${granularity}, now() AT TIME ZONE 'UTC') - ${periods - 1}::int * ${step}::interval,
+        date_trunc(${granularity}, now() AT TIME ZONE 'UTC'),
+        ${step}::interval
+      ) AS start
+    )
+    SELECT p.period_start, p.period_end, rs.*, ms.*
+    FROM periods p
+    LEFT JOIN LATERAL (
+      SELECT
+        COUNT(*) as response_count,
+        COUNT(CASE WHEN r.comment IS NOT NULL AND r.comment != '' THEN 1 END) as comment_count,
+        COUNT(CASE WHEN sl.score >= ${promoterMin}::int THEN 1 END) as promoters,
+        COUNT(CASE WHEN sl.score >= ${passiveMin}::int AND sl.score < ${promoterMin}::int THEN 1 END) as passives,
+        COUNT(CASE WHEN sl.score < ${passiveMin}::int THEN 1 END) as detractors,
+        COALESCE(SUM(sl.score), 0) as score_sum
+      FROM responses r
+      JOIN survey_links sl ON r.survey_link_id = sl.id
+      WHERE sl.survey_id = ${surveyId}
+        AND r.responded_at >= p.period_start
+        AND r.responded_at < p.period_end
+    ) rs ON true
+    LEFT JOIN LATERAL (
+      SELECT
+        COUNT(DISTINCT sl.subject_id) as subjects_minted,
+        COUNT(DISTINCT CASE WHEN r.id IS NOT NULL THEN sl.subject_id END) as respondents
+      FROM survey_links sl
+      LEFT JOIN responses r ON sl.id = r.survey_link_id
+      WHERE sl.survey_id = ${surveyId}
+        AND sl.import_id IS NULL
+        AND sl.created_at >= p.period_start
+        AND sl.created_at < p.period_end
+    ) ms ON true
+    ORDER BY p.period_start
+  `;
+
+  return result.map(
+    (
+      row: {
+        period_start: Date;
+        period_end: Date;
+        response_count: string;
+        comment_count: string;
+        subjects_minted: string;
+        respondents: string;
+        score_sum: string;
+      } & Parameters<typeof toNpsBreakdown>[0],
+    ) => {
+      const breakdown = calculateSurveyScore(type, {
+        promoters: Number(row.promoters) || 0,
+        passives: Number(row.passives) || 0,
+        detractors: Number(row.detractors) || 0,
+        scoreSum: Number(row.score_sum) || 0,
+      });
+      const commentCount = Number(row.comment_count) || 0;
+      const subjectsMinted = Number(row.subjects_minted) || 0;
+      const respondents = Number(row.respondents) || 0;
+
+      return {
+        periodStart: new Date(row.period_start),
+        periodEnd: new Date(row.period_end),
+        score: breakdown.score,
+        promoters: breakdown.promoters,
+        passives: breakdown.passives,
+        detractors: breakdown.detractors,
+        responseCount: breakdown.total,
+        commentCount,
+        commentRate: toRate(commentCount, breakdown.total),
+        subjectsMinted,
+        respondents,
+        responseRate: toRate(respondents, subjectsMinted),
+      };
+    },
+  );
+};
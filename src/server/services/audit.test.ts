@@ -0,0 +1,66 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+import { SQL } from "bun";
+import { cleanupTestData, createTestBusiness } from "../test-utils/helpers";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("./database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import {
+  listAuditEntries,
+  recordAuditEntry,
+  recordAuditEntryInTransaction,
+} from "./audit";
+
+describe("Audit Service", () => {
+  let businessId: string;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    businessId = await createTestBusiness(connection);
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  it("should record entries with details", async () => {
+    await recordAuditEntry(businessId, "webhook.secret_rotated", {
+      endpoint_id: "endpoint-1",
+    });
+
+    const [entry] = await listAuditEntries(businessId);
+    expect(entry.action).toBe("webhook.secret_rotated");
+    expect(entry.details).toEqual({ endpoint_id: "endpoint-1" });
+    expect(entry.user_id).toBeNull();
+  });
+
+  it("should list newest entries first and only for the business", async () => {
+    const otherBusinessId = await createTestBusiness(connection, "Other");
+    await recordAuditEntry(businessId, "first");
+    await recordAuditEntry(businessId, "second");
+    await recordAuditEntry(otherBusinessId, "other");
+
+    const entries = await listAuditEntries(businessId);
+    expect(entries.map((entry) => entry.action)).toEqual(["second", "first"]);
+  });
+
+  it("should roll back with the surrounding transaction", async () => {
+    await expect(
+      connection.begin(async (tx) => {
+        await recordAuditEntryInTransaction(tx, businessId, "rolled_back");
+        throw new Error("abort");
+      }),
+    ).rejects.toThrow("abort");
+
+    expect(await listAuditEntries(businessId)).toHaveLength(0);
+  });
+});
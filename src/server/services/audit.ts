@@ -0,0 +1,60 @@
+import type { SQL } from "bun";
+import { db } from "./database";
+
+export interface AuditEntry {
+  id: string;
+  business_id: string;
+  user_id: string | null; // Null for entries written by background work
+  action: string;
+  details: Record<string, unknown>;
+  created_at: Date;
+}
+
+/**
+ * Record an audit entry inside an existing transaction
+ * Use when the entry must commit or roll back with the change it describes
+ */
+export const recordAuditEntryInTransaction = async (
+  tx: SQL,
+  businessId: string,
+  action: string,
+  details: Record<string, unknown> = {},
+  userId: string | null = null,
+): Promise<void> => {
+  await tx`
+    INSERT INTO audit_log (business_id, user_id, action, details)
+    VALUES (${businessId}, ${userId}, ${action}, ${details})
+  `;
+};
+
+/**
+ * Record an audit entry
+ */
+export const recordAuditEntry = async (
+  businessId: string,
+  action: string,
+  details: Record<string, unknown> = {},
+  userId: string | null = null,
+): Promise<void> => {
+  await recordAuditEntryInTransaction(db, businessId, action, details, userId);
+};
+
+/**
+ * Get audit entries for a business, newest first, optionally of one action
+ */
+export const listAuditEntries = async (
+  businessId: string,
+  limit = 50,
+  action: string | null = null,
+): Promise<AuditEntry[]> => {
+  const result = await db`
+    SELECT *
+    FROM audit_log
+    WHERE business_id = ${businessId}
+      AND (${action}::text IS NULL OR action = ${action})
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${limit}
+  `;
+
+  return result as AuditEntry[];
+};
@@ -336,7 +336,7 @@ export const renewSession = async (rawSessionId: string): Promise<boolean> => {
 
 /**
  * Clean up expired tokens and sessions
- * Should be run periodically to prevent database bloat
+ * Run hourly by the auth.cleanup_expired job to prevent database bloat
  */
 export const cleanupExpired = async (): Promise<void> => {
   await db`
@@ -0,0 +1,222 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+import { SQL } from "bun";
+import {
+  OPENING_GRANT_CREDITS,
+  seedOpeningGrants,
+} from "../database/migrations/015_add_credits";
+import { cleanupTestData, createTestBusiness } from "../test-utils/helpers";
+import { getWebhookQueueItems } from "../test-utils/webhooks";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("./database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import {
+  getCreditLedger,
+  getCreditSummary,
+  grantCredits,
+  shouldHoldWebhooks,
+  updateZeroBalanceBehavior,
+} from "./credits";
+import {
+  createSurvey,
+  findSurveyLinkByToken,
+  mintSurveyLinks,
+  recordResponse,
+} from "./surveys";
+import { createWebhookEndpoint, queueWebhookDelivery } from "./webhooks";
+
+describe("Credits Service", () => {
+  let businessId: string;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    businessId = await createTestBusiness(connection);
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const createSurveyLinkId = async (subjectId = "user-1"): Promise<string> => {
+    const survey = await createSurvey(businessId, `survey-${subjectId}`, {
+      title: "Credits Survey",
+    });
+    const result = await mintSurveyLinks(survey, { subject_id: subjectId });
+    const token = new URL(result.links["9"]).pathname.split("/").pop() ?? "";
+    const link = await findSurveyLinkByToken(token);
+    if (!link) throw new Error("Survey link not found");
+    return link.id;
+  };
+
+  describe("getCreditSummary", () => {
+    it("should default to a zero balance that holds webhooks", async () => {
+      const summary = await getCreditSummary(businessId);
+
+      expect(summary).toEqual({
+        balance: 0,
+        zero_balance_behavior: "hold_webhooks",
+      });
+    });
+
+    it("should return null for an unknown business", async () => {
+      const summary = await getCreditSummary(
+        "00000000-0000-0000-0000-000000000000",
+      );
+
+      expect(summary).toBeNull();
+    });
+  });
+
+  describe("grantCredits", () => {
+    it("should add to the balance and record a ledger entry", async () => {
+      await grantCredits(businessId, 1000, "Starter pack");
+      const balance = await grantCredits(businessId, 500, "Top-up");
+
+      expect(balance).toBe(1500);
+
+      const ledger = await getCreditLedger(businessId);
+      expect(ledger).toHaveLength(2);
+      expect(ledger[0].description).toBe("Top-up");
+      expect(ledger[0].balance_after).toBe(1500);
+      expect(ledger[1].entry_type).toBe("grant");
+      expect(ledger[1].amount).toBe(1000);
+    });
+
+    it("should reject non-positive amounts", async () => {
+      await expect(grantCredits(businessId, 0, "Nothing")).rejects.toThrow(
+        "Credit amount must be a positive integer",
+      );
+      await expect(grantCredits(businessId, 1.5, "Fraction")).rejects.toThrow(
+        "Credit amount must be a positive integer",
+      );
+    });
+
+    it("should release held webhooks once the balance recovers", async () => {
+      await connection`
+        INSERT INTO webhook_queue (business_id, survey_id, subject_id, score, webhook_url, webhook_secret, scheduled_for, status)
+        VALUES (
+          ${businessId}, 'survey', 'user-1', 9,
+          'https://example.com/webhook', 'secret', NOW(), 'held'
+        )
+      `;
+      await connection`
+        INSERT INTO credit_balances (business_id, balance)
+        VALUES (${businessId}, -2)
+      `;
+
+      await grantCredits(businessId, 1, "Partial");
+      let [row] = await connection`
+        SELECT status FROM webhook_queue WHERE business_id = ${businessId}
+      `;
+      expect(row.status).toBe("held");
+
+      await grantCredits(businessId, 1, "Settled");
+      [row] = await connection`
+        SELECT status FROM webhook_queue WHERE business_id = ${businessId}
+      `;
+      expect(row.status).toBe("pending");
+    });
+  });
+
+  describe("response debits", () => {
+    it("should charge one credit per recorded response", async () => {
+      await grantCredits(businessId, 10, "Starter pack");
+      const surveyLinkId = await createSurveyLinkId();
+
+      const responseId = await recordResponse(surveyLinkId);
+
+      const summary = await getCreditSummary(businessId);
+      expect(summary?.balance).toBe(9);
+
+      const [debit] = await getCreditLedger(businessId, 1);
+      expect(debit.entry_type).toBe("debit");
+      expect(debit.amount).toBe(-1);
+      expect(debit.response_id).toBe(responseId);
+    });
+
+    it("should let the balance go negative and hold webhooks by default", async () => {
+      const surveyLinkId = await createSurveyLinkId();
+
+      expect(await shouldHoldWebhooks(businessId)).toBe(false);
+
+      await recordResponse(surveyLinkId);
+
+      const summary = await getCreditSummary(businessId);
+      expect(summary?.balance).toBe(-1);
+      expect(await shouldHoldWebhooks(businessId)).toBe(true);
+    });
+
+    it("should refuse responses without credits when configured", async () => {
+      await updateZeroBalanceBehavior(businessId, "refuse");
+      const surveyLinkId = await createSurveyLinkId();
+
+      await expect(recordResponse(surveyLinkId)).rejects.toThrow(
+        "Insufficient credits",
+      );
+
+      const responses = await connection`
+        SELECT id FROM responses WHERE survey_link_id = ${surveyLinkId}
+      `;
+      expect(responses).toHaveLength(0);
+      expect(await getCreditLedger(businessId)).toHaveLength(0);
+    });
+  });
+
+  describe("opening grant migration", () => {
+    it("should keep delivering webhooks for businesses that predate credits", async () => {
+      await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+      });
+      await seedOpeningGrants(connection);
+
+      await recordResponse(await createSurveyLinkId());
+      await queueWebhookDelivery(businessId, {
+        survey_id: "survey-user-1",
+        survey_type: "nps",
+        subject_id: "user-1",
+        score: 9,
+      });
+
+      expect((await getCreditSummary(businessId))?.balance).toBe(
+        OPENING_GRANT_CREDITS - 1,
+      );
+      expect(await shouldHoldWebhooks(businessId)).toBe(false);
+      const [item] = await getWebhookQueueItems(businessId);
+      expect(item.status).toBe("pending");
+      const ledger = await getCreditLedger(businessId);
+      expect(ledger.map((entry) => entry.description)).toEqual([
+        "Response recorded",
+        "Opening balance",
+      ]);
+    });
+
+    it("should leave businesses that already have a balance alone", async () => {
+      await grantCredits(businessId, 5, "Purchase");
+
+      await seedOpeningGrants(connection);
+
+      expect((await getCreditSummary(businessId))?.balance).toBe(5);
+      expect(await getCreditLedger(businessId)).toHaveLength(1);
+    });
+  });
+
+  describe("updateZeroBalanceBehavior", () => {
+    it("should throw for an unknown business", async () => {
+      await expect(
+        updateZeroBalanceBehavior(
+          "00000000-0000-0000-0000-000000000000",
+          "refuse",
+        ),
+      ).rejects.toThrow("Business not found");
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import type { SQL } from "bun";
+import { db } from "./database";
+
+export type ZeroBalanceBehavior = "hold_webhooks" | "refuse";
+
+export interface CreditLedgerEntry {
+  id: string;
+  business_id: string;
+  entry_type: "grant" | "debit";
+  amount: number;
+  balance_after: number;
+  description: string | null;
+  response_id: string | null;
+  created_at: Date;
+}
+
+export interface CreditSummary {
+  balance: number;
+  zero_balance_behavior: ZeroBalanceBehavior;
+}
+
+/**
+ * Record a balance change in the append-only ledger
+ */
+const appendLedgerEntry = async (
+  tx: SQL,
+  entry: {
+    businessId: string;
+    entryType: CreditLedgerEntry["entry_type"];
+    amount: number;
+    balanceAfter: number;
+    description: string;
+    responseId?: string;
+  },
+): Promise<void> => {
+  await tx`
+    INSERT INTO credit_ledger (business_id, entry_type, amount, balance_after, description, response_id)
+    VALUES (
+      ${entry.businessId}, ${entry.entryType}, ${entry.amount},
+      ${entry.balanceAfter}, ${entry.description}, ${entry.responseId ?? null}
+    )
+  `;
+};
+
+/**
+ * Get the current balance and zero-balance behaviour for a business
+ */
+export const getCreditSummary = async (
+  businessId: string,
+): Promise<CreditSummary | null> => {
+  const result = await db`
+    SELECT COALESCE(cb.balance, 0) as balance, b.zero_balance_behavior
+    FROM businesses b
+    LEFT JOIN credit_balances cb ON cb.business_id = b.id
+    WHERE b.id = ${businessId}
+  `;
+
+  if (result.length === 0) {
+    return null;
+  }
+
+  return {
+    balance: Number(result[0].balance),
+    zero_balance_behavior: result[0].zero_balance_behavior,
+  };
+};
+
+/**
+ * Get ledger history for a business, newest first
+ */
+export const getCreditLedger = async (
+  businessId: string,
+  limit = 50,
+): Promise<CreditLedgerEntry[]> => {
+  const result = await db`
+    SELECT *
+    FROM credit_ledger
+    WHERE business_id = ${businessId}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${limit}
+  `;
+
+  return result as CreditLedgerEntry[];
+};
+
+/**
+ * Update what happens when a business runs out of credits
+ */
+export const updateZeroBalanceBehavior = async (
+  businessId: string,
+  behavior: ZeroBalanceBehavior,
+): Promise<void> => {
+  const result = await db`
+    UPDATE businesses
+    SET zero_balance_behavior = ${behavior}, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ${businessId}
+    RETURNING id
+  `;
+
+  if (result.length === 0) {
+    throw new Error("Business not found");
+  }
+};
+
+/**
+ * Add credits to a business balance inside the caller's transaction
+ * Releases held webhooks once the balance is no longer negative
+ */
+export const grantCreditsInTransaction = async (
+  tx: SQL,
+  businessId: string,
+  amount: number,
+  description: string,
+): Promise<number> => {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error("Credit amount must be a positive integer");
+  }
+
+  const [row] = await tx`
+    INSERT INTO credit_balances (business_id, balance)
+    VALUES (${businessId}, ${amount})
+    ON CONFLICT (business_id) DO UPDATE
+    SET balance = credit_balances.balance + EXCLUDED.balance,
+        updated_at = CURRENT_TIMESTAMP
+    RETURNING balance
+  `;
+  const balance = Number(row.balance);
+
+  await appendLedgerEntry(tx, {
+    businessId,
+    entryType: "grant",
+    amount,
+    balanceAfter: balance,
+    description,
+  });
+
+  if (balance >= 0) {
+    // Deliveries for a paused endpoint keep waiting for it to be resumed
+    await tx`
+      UPDATE webhook_queue
+      SET
+        status = CASE
+          WHEN EXISTS (
+            SELECT 1 FROM webhook_endpoints we
+            WHERE we.id = webhook_queue.endpoint_id AND we.paused_at IS NOT NULL
+          )
+          THEN 'paused'
+          ELSE 'pending'
+        END,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE business_id = ${businessId} AND status = 'held'
+    `;
+  }
+
+  return balance;
+};
+
+/**
+ * Add credits to a business balance
+ */
+export const grantCredits = async (
+  businessId: string,
+  amount: number,
+  description: string,
+): Promise<number> => {
+  return await db.begin((tx) =>
+    grantCreditsInTransaction(tx, businessId, amount, description),
+  );
+};
+
+/**
+ * Charge one credit for a newly recorded response
+ * Runs inside the caller's transaction so a refused debit rolls back the response.
+ * With the "refuse" behaviour an empty balance throws; otherwise the balance may go
+ * negative and webhooks are held until credits are granted.
+ */
+export const debitResponseCredit = async (
+  tx: SQL,
+  businessId: string,
+  responseId: string,
+): Promise<number> => {
+  const [business] = await tx`
+    SELECT zero_balance_behavior FROM businesses WHERE id = ${businessId}
+  `;
+
+  const result =
+    business?.zero_balance_behavior === "refuse"
+      ? await tx`
+          UPDATE credit_balances
+          SET balance = balance - 1, updated_at = CURRENT_TIMESTAMP
+          WHERE business_id = ${businessId} AND balance >= 1
+          RETURNING balance
+        `
+      : await tx`
+          INSERT INTO credit_balances (business_id, balance)
+          VALUES (${businessId}, -1)
+          ON CONFLICT (business_id) DO UPDATE
+          SET balance = credit_balances.balance - 1,
+              updated_at = CURRENT_TIMESTAMP
+          RETURNING balance
+        `;
+
+  if (result.length === 0) {
+    throw new Error("Insufficient credits");
+  }
+
+  const balance = Number(result[0].balance);
+
+  await appendLedgerEntry(tx, {
+    businessId,
+    entryType: "debit",
+    amount: -1,
+    balanceAfter: balance,
+    description: "Response recorded",
+    responseId,
+  });
+
+  return balance;
+};
+
+/**
+ * Whether new webhooks for a business should be held for lack of credits
+ */
+export const shouldHoldWebhooks = async (
+  businessId: string,
+): Promise<boolean> => {
+  const result = await db`
+    SELECT balance FROM credit_balances WHERE business_id = ${businessId}
+  `;
+
+  return result.length > 0 && Number(result[0].balance) < 0;
+};
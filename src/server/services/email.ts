@@ -37,6 +37,14 @@ export interface SupportRequestEmailData {
   message: string;
 }
 
+export interface WebhookEndpointPausedEmailData {
+  to: EmailAddress;
+  businessName: string;
+  endpointUrl: string;
+  consecutiveFailures: number;
+  settingsUrl: string;
+}
+
 export class EmailService {
   constructor(private provider: EmailProvider) {}
 
@@ -97,6 +105,26 @@ export class EmailService {
     await this.provider.send(message);
   }
 
+  async sendWebhookEndpointPaused(
+    data: WebhookEndpointPausedEmailData,
+  ): Promise<void> {
+    const fromEmail = process.env.FROM_EMAIL || "test@test.com";
+    const fromName = process.env.FROM_NAME || "Test";
+
+    const message: EmailMessage = {
+      to: data.to,
+      from: {
+        email: fromEmail,
+        name: fromName,
+      },
+      subject: `Webhook endpoint paused for ${data.businessName}`,
+      html: this.renderWebhookEndpointPausedTemplate(data),
+      text: this.renderWebhookEndpointPausedText(data),
+    };
+
+    await this.provider.send(message);
+  }
+
   private renderMagicLinkTemplate(data: MagicLinkEmailData): string {
     return `
 <!DOCTYPE html>
@@ -273,6 +301,64 @@ Subject: ${data.subject}
 Message:
 ${data.message}`;
   }
+
+  private renderWebhookEndpointPausedTemplate(
+    data: WebhookEndpointPausedEmailData,
+  ): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Webhook endpoint paused</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+    <div style="text-align: center; margin-bottom: 40px;">
+      <h1 style="color: #2563eb; margin: 0;">${process.env.APP_NAME || "ClickNPS"}</h1>
+    </div>
+
+    <div style="background: #f8fafc; padding: 30px; border-radius: 8px; margin-bottom: 30px;">
+      <h2 style="margin-top: 0; color: #1f2937;">A webhook endpoint has been paused</h2>
+      <p style="margin-bottom: 20px; color: #4b5563;">
+        The last ${data.consecutiveFailures} deliveries to an endpoint for <strong>${data.businessName}</strong> failed, so we have paused it.
+      </p>
+
+      <div style="background: #fee2e2; padding: 15px; border-radius: 6px; margin-bottom: 20px;">
+        <p style="margin: 0; color: #991b1b; font-size: 14px; word-break: break-all;">
+          <strong>Endpoint:</strong> ${data.endpointUrl}
+        </p>
+      </div>
+
+      <p style="margin-bottom: 20px; color: #4b5563;">
+        New events are being kept and nothing will be lost. Once your endpoint is working again, resume it to send the held deliveries in order.
+      </p>
+
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${data.settingsUrl}"
+           style="display: inline-block; background: #2563eb; color: white; text-decoration: none; padding: 12px 30px; border-radius: 6px; font-weight: 500;">
+          Review Webhooks
+        </a>
+      </div>
+    </div>
+  </div>
+</body>
+</html>`;
+  }
+
+  private renderWebhookEndpointPausedText(
+    data: WebhookEndpointPausedEmailData,
+  ): string {
+    return `Webhook endpoint paused
+
+The last ${data.consecutiveFailures} deliveries to an endpoint for ${data.businessName} failed, so we have paused it.
+
+Endpoint: ${data.endpointUrl}
+
+New events are being kept and nothing will be lost. Once your endpoint is working again, resume it to send the held deliveries in order:
+${data.settingsUrl}`;
+  }
 }
 
 let emailServiceInstance: EmailService | null = null;
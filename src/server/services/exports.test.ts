@@ -0,0 +1,227 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { randomUUID } from "node:crypto";
+import { SQL } from "bun";
+import { cleanupTestData, createTestBusiness } from "../test-utils/helpers";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("./database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import {
+  EXPORT_BATCH_SIZE,
+  getExportFilename,
+  streamResponseExport,
+} from "./exports";
+
+describe("Exports Service", () => {
+  let businessId: string;
+  let surveyId: string;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    businessId = await createTestBusiness(connection);
+    surveyId = randomUUID();
+    await connection`
+      INSERT INTO surveys (id, business_id, survey_id, title)
+      VALUES (${surveyId}, ${businessId}, 'export-survey', 'Export Survey')
+    `;
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const createResponse = async (
+    subjectId: string,
+    score: number,
+    respondedAt: Date,
+    comment: string | null = null,
+  ) => {
+    const linkId = randomUUID();
+    await connection`
+      INSERT INTO survey_links (id, token, survey_id, subject_id, score, expires_at)
+      VALUES (${linkId}, ${randomUUID()}, ${surveyId}, ${subjectId}, ${score}, ${new Date(Date.now() + 86400000)})
+    `;
+    await connection`
+      INSERT INTO responses (survey_link_id, comment, responded_at)
+      VALUES (${linkId}, ${comment}, ${respondedAt})
+    `;
+  };
+
+  const readExport = (
+    filters: { responded_after?: Date; responded_before?: Date },
+    format: "csv" | "ndjson",
+  ) =>
+    new Response(
+      streamResponseExport(
+        businessId,
+        { survey_id: surveyId, ...filters },
+        format,
+      ),
+    ).text();
+
+  test("exports CSV with a header row, oldest first", async () => {
+    await createResponse("user-2", 3, new Date("2025-02-01T00:00:00Z"));
+    await createResponse(
+      "user-1",
+      10,
+      new Date("2025-01-01T00:00:00Z"),
+      'Fast, "friendly"',
+    );
+
+    const csv = await readExport({}, "csv");
+
+    expect(csv).toBe(
+      "survey_id,subject_id,score,category,comment,follow_up_question,follow_up_answer,responded_at\r\n" +
+        'export-survey,user-1,10,promoter,"Fast, ""friendly""",,,2025-01-01T00:00:00.000Z\r\n' +
+        "export-survey,user-2,3,detractor,,,,2025-02-01T00:00:00.000Z\r\n",
+    );
+  });
+
+  test("neutralizes formulas in CSV comments only", async () => {
+    await createResponse(
+      "user-1",
+      8,
+      new Date("2025-01-01T00:00:00Z"),
+      "=HYPERLINK()",
+    );
+
+    const csv = await readExport({}, "csv");
+    const ndjson = await readExport({}, "ndjson");
+
+    expect(csv).toContain(",passive,'=HYPERLINK(),");
+    expect(JSON.parse(ndjson).comment).toBe("=HYPERLINK()");
+  });
+
+  test("exports NDJSON within the date range", async () => {
+    await createResponse("before", 9, new Date("2024-12-31T23:59:59Z"));
+    await createResponse("inside", 7, new Date("2025-01-01T00:00:00Z"));
+    await createResponse("after", 9, new Date("2025-02-01T00:00:00Z"));
+
+    const ndjson = await readExport(
+      {
+        responded_after: new Date("2025-01-01T00:00:00Z"),
+        responded_before: new Date("2025-02-01T00:00:00Z"),
+      },
+      "ndjson",
+    );
+    const lines = ndjson.trim().split("\n");
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toEqual({
+      survey_id: "export-survey",
+      subject_id: "inside",
+      score: 7,
+      category: "passive",
+      comment: null,
+      follow_up: null,
+      responded_at: "2025-01-01T00:00:00.000Z",
+    });
+  });
+
+  test("streams every row across batches exactly once", async () => {
+    const total = EXPORT_BATCH_SIZE + 5;
+    const linkIds = Array.from({ length: total }, () => randomUUID());
+    await connection`
+      INSERT INTO survey_links ${connection(
+        linkIds.map((id, index) => ({
+          id,
+          token: randomUUID(),
+          survey_id: surveyId,
+          subject_id: `user-${index}`,
+          score: index % 11,
+          expires_at: new Date(Date.now() + 86400000),
+        })),
+      )}
+    `;
+    // Identical timestamps make the id the only tie-breaker
+    await connection`
+      INSERT INTO responses ${connection(
+        linkIds.map((id) => ({
+          survey_link_id: id,
+          responded_at: new Date("2025-01-01T00:00:00.123Z"),
+        })),
+      )}
+    `;
+
+    const ndjson = await readExport({}, "ndjson");
+    const subjects = ndjson
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line).subject_id);
+
+    expect(subjects).toHaveLength(total);
+    expect(new Set(subjects).size).toBe(total);
+  });
+
+  test("keeps streaming when the last exported row is deleted", async () => {
+    const total = EXPORT_BATCH_SIZE + 5;
+    const linkIds = Array.from({ length: total }, () => randomUUID());
+    await connection`
+      INSERT INTO survey_links ${connection(
+        linkIds.map((id, index) => ({
+          id,
+          token: randomUUID(),
+          survey_id: surveyId,
+          subject_id: `user-${index}`,
+          score: index % 11,
+          expires_at: new Date(Date.now() + 86400000),
+        })),
+      )}
+    `;
+    await connection`
+      INSERT INTO responses ${connection(
+        linkIds.map((id, index) => ({
+          survey_link_id: id,
+          responded_at: new Date(Date.parse("2025-01-01T00:00:00Z") + index),
+        })),
+      )}
+    `;
+
+    const stream = streamResponseExport(
+      businessId,
+      { survey_id: surveyId },
+      "ndjson",
+    );
+    // Let the first batch buffer, then delete the row it ended on
+    await Bun.sleep(500);
+    await connection`
+      DELETE FROM responses
+      WHERE survey_link_id = ${linkIds[EXPORT_BATCH_SIZE - 1]}
+    `;
+
+    const ndjson = await new Response(stream).text();
+
+    expect(ndjson.trim().split("\n")).toHaveLength(total);
+  });
+
+  test("does not export other businesses' surveys", async () => {
+    await createResponse("user-1", 9, new Date("2025-01-01T00:00:00Z"));
+    const otherBusiness = await createTestBusiness(connection, "Other");
+
+    const csv = await new Response(
+      streamResponseExport(otherBusiness, { survey_id: surveyId }, "csv"),
+    ).text();
+
+    expect(csv).toBe(
+      "survey_id,subject_id,score,category,comment,follow_up_question,follow_up_answer,responded_at\r\n",
+    );
+  });
+
+  test("names downloads after the survey", () => {
+    expect(getExportFilename("onboarding", "csv")).toBe(
+      "onboarding-responses.csv",
+    );
+    expect(getExportFilename("onboarding", "ndjson")).toBe(
+      "onboarding-responses.ndjson",
+    );
+  });
+});
@@ -0,0 +1,169 @@
+import { neutralizeCsvFormula, toCsvRow } from "../utils/csv";
+import type { FollowUpAnswer } from "../utils/follow-up";
+import { getScoreCategory, type SurveyType } from "../utils/survey-types";
+import { db } from "./database";
+
+export type ExportFormat = "csv" | "ndjson";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "ndjson"];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+};
+
+// Rows fetched per query while streaming
+export const EXPORT_BATCH_SIZE = 1000;
+
+const CSV_COLUMNS = [
+  "survey_id",
+  "subject_id",
+  "score",
+  "category",
+  "comment",
+  "follow_up_question",
+  "follow_up_answer",
+  "responded_at",
+];
+
+export interface ResponseExportFilters {
+  survey_id: string; // Internal survey UUID
+  responded_after?: Date; // Inclusive
+  responded_before?: Date; // Exclusive
+}
+
+interface ExportRow {
+  id: string;
+  survey_id: string; // Public survey_id
+  survey_type: SurveyType;
+  subject_id: string;
+  score: number;
+  comment: string | null;
+  follow_up: FollowUpAnswer | null;
+  responded_at: Date;
+  cursor_at: string; // responded_at as Postgres text, for the next cursor
+}
+
+/**
+ * Where the previous batch ended
+ * The timestamp stays as Postgres text because a JS Date would drop the
+ * microseconds Postgres keeps.
+ */
+interface ExportCursor {
+  responded_at: string;
+  id: string;
+}
+
+/**
+ * Fetch the next batch of responses after the cursor, oldest first
+ * The cursor carries the last row's values rather than its ID, so deleting
+ * that row mid-export doesn't end the stream early.
+ */
+const fetchExportBatch = async (
+  businessId: string,
+  filters: ResponseExportFilters,
+  after: ExportCursor | null,
+): Promise<ExportRow[]> => {
+  const result = await db`
+    SELECT r.id, s.survey_id, s.type AS survey_type, sl.subject_id, sl.score, r.comment, r.follow_up, r.responded_at, r.responded_at::text AS cursor_at
+    FROM responses r
+    JOIN survey_links sl ON r.survey_link_id = sl.id
+    JOIN surveys s ON sl.survey_id = s.id
+    WHERE s.business_id = ${businessId}
+      AND s.id = ${filters.survey_id}
+      AND (${filters.responded_after ?? null}::timestamptz IS NULL OR r.responded_at >= ${filters.responded_after ?? null}::timestamptz)
+      AND (${filters.responded_before ?? null}::timestamptz IS NULL OR r.responded_at < ${filters.responded_before ?? null}::timestamptz)
+      AND (
+        ${after?.id ?? null}::uuid IS NULL
+        OR (r.responded_at, r.id) > (${after?.responded_at ?? null}::timestamptz, ${after?.id ?? null}::uuid)
+      )
+    ORDER BY r.responded_at ASC, r.id ASC
+    LIMIT ${EXPORT_BATCH_SIZE}
+  `;
+
+  return result as ExportRow[];
+};
+
+const formatExportRow = (row: ExportRow, format: ExportFormat): string => {
+  const record = {
+    survey_id: row.survey_id,
+    subject_id: row.subject_id,
+    score: row.score,
+    category: getScoreCategory(row.survey_type, row.score),
+    comment: row.comment,
+    follow_up: row.follow_up,
+    responded_at: new Date(row.responded_at).toISOString(),
+  };
+
+  if (format === "ndjson") {
+    return `${JSON.stringify(record)}\n`;
+  }
+
+  return toCsvRow([
+    record.survey_id,
+    record.subject_id,
+    record.score,
+    record.category,
+    // Comments are typed by respondents, so never let them run as formulas
+    neutralizeCsvFormula(record.comment),
+    // Follow-up options are free text set by the business
+    neutralizeCsvFormula(record.follow_up?.question ?? null),
+    neutralizeCsvFormula(record.follow_up?.answer ?? null),
+    record.responded_at,
+  ]);
+};
+
+/**
+ * Stream a survey's responses as CSV or NDJSON, oldest first
+ * Responses are read in batches as the client consumes the stream, so a
+ * large survey is never held in memory at once.
+ */
+export const streamResponseExport = (
+  businessId: string,
+  filters: ResponseExportFilters,
+  format: ExportFormat,
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  let cursor: ExportCursor | null = null;
+  let done = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === "csv") {
+        controller.enqueue(encoder.encode(toCsvRow(CSV_COLUMNS)));
+      }
+    },
+
+    async pull(controller) {
+      if (done) {
+        controller.close();
+        return;
+      }
+
+      const rows = await fetchExportBatch(businessId, filters, cursor);
+      if (rows.length < EXPORT_BATCH_SIZE) {
+        done = true;
+      }
+      if (rows.length === 0) {
+        controller.close();
+        return;
+      }
+
+      const last = rows[rows.length - 1];
+      cursor = { responded_at: last.cursor_at, id: last.id };
+      controller.enqueue(
+        encoder.encode(
+          rows.map((row) => formatExportRow(row, format)).join(""),
+        ),
+      );
+    },
+  });
+};
+
+/**
+ * Download filename for a survey export, e.g. onboarding-responses.csv
+ */
+export const getExportFilename = (
+  publicSurveyId: string,
+  format: ExportFormat,
+): string => `${publicSurveyId}-responses.${format}`;
@@ -0,0 +1,266 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { randomUUID } from "node:crypto";
+import { SQL } from "bun";
+import { cleanupTestData, createTestBusiness } from "../test-utils/helpers";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("./database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import {
+  commitResponseImport,
+  getImportSurvey,
+  type ImportMapping,
+  type ImportSurvey,
+  listResponseImports,
+  parseImportFile,
+  previewResponseImport,
+  suggestImportMapping,
+  validateImportMapping,
+} from "./imports";
+
+const CSV = [
+  "Customer,NPS,Date,Feedback",
+  "cust_1,10,2024-03-15,Love it",
+  "cust_2,3,2024-03-16T09:30:00Z,",
+  "cust_1,8,2024-04-01 12:00,Better",
+].join("\n");
+
+const MAPPING: ImportMapping = {
+  subject_id: 0,
+  score: 1,
+  responded_at: 2,
+  comment: 3,
+};
+
+describe("Imports Service", () => {
+  let businessId: string;
+  let survey: ImportSurvey;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    businessId = await createTestBusiness(connection);
+    await connection`
+      INSERT INTO surveys (id, business_id, survey_id, title)
+      VALUES (${randomUUID()}, ${businessId}, 'import-survey', 'Import Survey')
+    `;
+    survey = (await getImportSurvey(
+      businessId,
+      "import-survey",
+    )) as ImportSurvey;
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  describe("parseImportFile", () => {
+    test("splits the header from the data rows", () => {
+      const file = parseImportFile(CSV);
+      expect(file.headers).toEqual(["Customer", "NPS", "Date", "Feedback"]);
+      expect(file.rows).toHaveLength(3);
+    });
+
+    test("rejects files without responses or with broken quoting", () => {
+      expect(() => parseImportFile("subject,score\n")).toThrow(
+        "The file needs a header row and at least one response",
+      );
+      expect(() => parseImportFile('a,b\n"x,1')).toThrow(
+        "The file is not valid CSV",
+      );
+    });
+  });
+
+  test("suggests a mapping from common header names", () => {
+    expect(
+      suggestImportMapping(["Customer", "NPS", "Date", "Feedback"]),
+    ).toEqual(MAPPING);
+    expect(suggestImportMapping(["score", "when"])).toEqual({
+      subject_id: null,
+      score: 0,
+      responded_at: null,
+      comment: null,
+    });
+  });
+
+  test("validates the mapping against the file", () => {
+    expect(() =>
+      validateImportMapping({ ...MAPPING, responded_at: null }, 4),
+    ).toThrow("Choose the column that holds responded_at");
+    expect(() => validateImportMapping({ ...MAPPING, comment: 7 }, 4)).toThrow(
+      "The mapping refers to a column the file does not have",
+    );
+    expect(() => validateImportMapping({ ...MAPPING, comment: 0 }, 4)).toThrow(
+      "Each column can only be mapped to one field",
+    );
+    expect(() =>
+      validateImportMapping({ ...MAPPING, comment: null }, 4),
+    ).not.toThrow();
+  });
+
+  test("previews valid rows and reports invalid ones without writing", async () => {
+    const csv = [
+      CSV,
+      "bad subject,5,2024-03-15,",
+      "cust_3,11,2024-03-15,",
+      "cust_4,7,03/15/2024,",
+      "cust_5,7,2999-01-01,",
+      "cust_1,10,2024-03-15,Same again",
+    ].join("\n");
+
+    const preview = await previewResponseImport(
+      survey,
+      parseImportFile(csv),
+      MAPPING,
+    );
+
+    expect(preview.total).toBe(8);
+    expect(preview.rows.map((row) => row.line)).toEqual([2, 3, 4]);
+    expect(preview.rows[1]).toMatchObject({
+      subject_id: "cust_2",
+      score: 3,
+      comment: null,
+    });
+    expect(preview.rows[2].responded_at.toISOString()).toBe(
+      "2024-04-01T12:00:00.000Z",
+    );
+    expect(preview.errors.map((error) => error.line)).toEqual([5, 6, 7, 8]);
+    expect(preview.errors[1].message).toBe(
+      "score must be a whole number from 0 to 10",
+    );
+    expect(preview.errors[3].message).toBe(
+      "responded_at cannot be in the future",
+    );
+    expect(preview.duplicates).toBe(1);
+
+    const [{ count }] = await connection`
+      SELECT COUNT(*)::int AS count FROM survey_links
+    `;
+    expect(count).toBe(0);
+  });
+
+  test("checks scores against the survey type's scale", async () => {
+    const csv = [
+      "Customer,Rating,Date,Notes",
+      "cust_1,5,2024-03-15,",
+      "cust_2,0,2024-03-15,",
+      "cust_3,6,2024-03-15,",
+    ].join("\n");
+
+    const preview = await previewResponseImport(
+      { ...survey, type: "csat" },
+      parseImportFile(csv),
+      MAPPING,
+    );
+
+    expect(preview.rows.map((row) => row.line)).toEqual([2]);
+    expect(preview.errors.map((error) => error.message)).toEqual([
+      "score must be a whole number from 1 to 5",
+      "score must be a whole number from 1 to 5",
+    ]);
+  });
+
+  test("imports responses with their original timestamps", async () => {
+    const result = await commitResponseImport(
+      businessId,
+      survey,
+      parseImportFile(CSV),
+      MAPPING,
+      "legacy.csv",
+    );
+
+    expect(result.imported).toBe(3);
+    expect(result.skipped).toBe(0);
+
+    const rows = await connection`
+      SELECT sl.subject_id, sl.score, sl.import_id, sl.expires_at,
+             r.responded_at, r.comment
+      FROM survey_links sl
+      JOIN responses r ON r.survey_link_id = sl.id
+      WHERE sl.survey_id = ${survey.id}
+      ORDER BY r.responded_at
+    `;
+    expect(rows).toHaveLength(3);
+    expect(rows[0].subject_id).toBe("cust_1");
+    expect(rows[0].import_id).toBe(result.import_id);
+    expect(new Date(rows[0].responded_at).toISOString()).toBe(
+      "2024-03-15T00:00:00.000Z",
+    );
+    expect(new Date(rows[0].expires_at).getTime()).toBe(
+      new Date(rows[0].responded_at).getTime(),
+    );
+    expect(rows[0].comment).toBe("Love it");
+
+    const imports = await listResponseImports(survey.id);
+    expect(imports).toHaveLength(1);
+    expect(imports[0]).toMatchObject({ filename: "legacy.csv", row_count: 3 });
+
+    const [audit] = await connection`
+      SELECT action FROM audit_log WHERE business_id = ${businessId}
+    `;
+    expect(audit.action).toBe("responses.imported");
+  });
+
+  test("sends no webhooks and uses no credits", async () => {
+    await commitResponseImport(
+      businessId,
+      survey,
+      parseImportFile(CSV),
+      MAPPING,
+      null,
+    );
+
+    const [{ webhooks }] = await connection`
+      SELECT COUNT(*)::int AS webhooks FROM webhook_queue
+      WHERE business_id = ${businessId}
+    `;
+    const [{ ledger }] = await connection`
+      SELECT COUNT(*)::int AS ledger FROM credit_ledger
+      WHERE business_id = ${businessId}
+    `;
+    expect(webhooks).toBe(0);
+    expect(ledger).toBe(0);
+  });
+
+  test("skips rows an earlier import already brought in", async () => {
+    const file = parseImportFile(CSV);
+    await commitResponseImport(businessId, survey, file, MAPPING, null);
+
+    const preview = await previewResponseImport(survey, file, MAPPING);
+    expect(preview.rows).toHaveLength(0);
+    expect(preview.duplicates).toBe(3);
+
+    await expect(
+      commitResponseImport(businessId, survey, file, MAPPING, null),
+    ).rejects.toThrow("There are no new valid rows to import");
+  });
+
+  test("leaves imported subjects free to be sent new links", async () => {
+    await commitResponseImport(
+      businessId,
+      survey,
+      parseImportFile(CSV),
+      MAPPING,
+      null,
+    );
+
+    await connection`
+      INSERT INTO survey_links (id, token, survey_id, subject_id, score, expires_at)
+      VALUES (${randomUUID()}, ${randomUUID()}, ${survey.id}, 'cust_1', 10, ${new Date(Date.now() + 86400000)})
+    `;
+
+    const [{ count }] = await connection`
+      SELECT COUNT(*)::int AS count FROM survey_links
+      WHERE survey_id = ${survey.id} AND subject_id = 'cust_1' AND score = 10
+    `;
+    expect(count).toBe(2);
+  });
+});
@@ -0,0 +1,396 @@
+import { randomUUID } from "node:crypto";
+import { generateSecureToken } from "../utils/crypto";
+import { parseCsv } from "../utils/csv";
+import {
+  isScoreOnScale,
+  SURVEY_SCALES,
+  type SurveyType,
+} from "../utils/survey-types";
+import { recordAuditEntryInTransaction } from "./audit";
+import { db } from "./database";
+
+export const IMPORT_FIELDS = [
+  "subject_id",
+  "score",
+  "responded_at",
+  "comment",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Column index for each field; only comment may be left unmapped
+export type ImportMapping = Record<ImportField, number | null>;
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 20000;
+
+// Rows shown in the dry-run preview
+export const IMPORT_PREVIEW_ROWS = 10;
+
+// 1000 rows x 8 survey_links columns stays well under Postgres's 65535 parameters
+const IMPORT_INSERT_CHUNK_SIZE = 1000;
+
+const SUBJECT_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export interface ImportSurvey {
+  id: string; // Internal survey UUID
+  survey_id: string; // Public survey_id
+  title: string;
+  type: SurveyType; // Scores must be on this type's scale
+}
+
+export interface ImportFile {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRow {
+  line: number; // Row in the file, counting the header as row 1
+  subject_id: string;
+  score: number;
+  responded_at: Date;
+  comment: string | null;
+}
+
+export interface ImportRowError {
+  line: number;
+  message: string;
+}
+
+export interface ImportPreview {
+  total: number; // Data rows in the file
+  rows: ImportRow[]; // Valid rows not imported before
+  errors: ImportRowError[];
+  duplicates: number; // Valid rows an earlier import already brought in
+}
+
+export interface ImportResult {
+  import_id: string;
+  imported: number;
+  skipped: number; // Invalid and duplicate rows
+}
+
+export interface ResponseImport {
+  id: string;
+  filename: string | null;
+  row_count: number;
+  user_email: string | null; // Who ran the import, if they still exist
+  created_at: Date;
+}
+
+/**
+ * Find a survey to import into by its public survey_id
+ */
+export const getImportSurvey = async (
+  businessId: string,
+  surveyId: string,
+): Promise<ImportSurvey | null> => {
+  const [survey] = await db`
+    SELECT id, survey_id, title, type FROM surveys
+    WHERE business_id = ${businessId} AND survey_id = ${surveyId}
+  `;
+
+  return (survey as ImportSurvey) ?? null;
+};
+
+/**
+ * Split an uploaded CSV into its header row and data rows
+ */
+export const parseImportFile = (text: string): ImportFile => {
+  let rows: string[][];
+  try {
+    rows = parseCsv(text);
+  } catch (error) {
+    throw new Error(
+      `The file is not valid CSV: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+
+  const [headers, ...data] = rows;
+  if (!headers || data.length === 0) {
+    throw new Error("The file needs a header row and at least one response");
+  }
+  if (data.length > MAX_IMPORT_ROWS) {
+    throw new Error(
+      `The file has more than ${MAX_IMPORT_ROWS} rows; split it into smaller files`,
+    );
+  }
+
+  return { headers: headers.map((header) => header.trim()), rows: data };
+};
+
+// Header names other tools commonly use for each field
+const FIELD_HEADER_PATTERNS: Record<ImportField, RegExp> = {
+  subject_id: /subject|customer|user|contact|email|respondent|^id$/i,
+  score: /score|rating|nps|answer/i,
+  responded_at: /date|time|responded|submitted|created/i,
+  comment: /comment|feedback|reason|text|verbatim/i,
+};
+
+/**
+ * Guess which column holds each field from the header names
+ */
+export const suggestImportMapping = (headers: string[]): ImportMapping => {
+  const mapping: ImportMapping = {
+    subject_id: null,
+    score: null,
+    responded_at: null,
+    comment: null,
+  };
+  const used = new Set<number>();
+
+  for (const field of IMPORT_FIELDS) {
+    const index = headers.findIndex(
+      (header, i) => !used.has(i) && FIELD_HEADER_PATTERNS[field].test(header),
+    );
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+
+  return mapping;
+};
+
+/**
+ * Check a mapping against the file's columns
+ */
+export const validateImportMapping = (
+  mapping: ImportMapping,
+  columnCount: number,
+): void => {
+  for (const field of ["subject_id", "score", "responded_at"] as const) {
+    if (mapping[field] === null) {
+      throw new Error(`Choose the column that holds ${field}`);
+    }
+  }
+
+  const columns = IMPORT_FIELDS.map((field) => mapping[field]).filter(
+    (column): column is number => column !== null,
+  );
+  if (columns.some((column) => column < 0 || column >= columnCount)) {
+    throw new Error("The mapping refers to a column the file does not have");
+  }
+  if (new Set(columns).size !== columns.length) {
+    throw new Error("Each column can only be mapped to one field");
+  }
+};
+
+/**
+ * Parse an imported timestamp
+ * Accepts ISO 8601, or a date and time with no zone, which is read as UTC.
+ * Formats such as 01/02/2025 are refused as ambiguous.
+ */
+const parseImportDate = (value: string): Date | null => {
+  let text = value;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    text = `${text}T00:00:00Z`;
+  } else if (/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(text)) {
+    text = `${text.replace(" ", "T")}Z`;
+  } else if (!/^\d{4}-\d{2}-\d{2}T.+(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+    return null;
+  }
+
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const parseImportRow = (
+  row: string[],
+  line: number,
+  mapping: ImportMapping,
+  type: SurveyType,
+): ImportRow | ImportRowError => {
+  const cell = (field: ImportField) => {
+    const column = mapping[field];
+    return column === null ? "" : (row[column] ?? "").trim();
+  };
+
+  const subjectId = cell("subject_id");
+  if (!SUBJECT_ID_PATTERN.test(subjectId) || subjectId.length > 255) {
+    return {
+      line,
+      message:
+        "subject_id must contain only letters, numbers, underscores, and hyphens",
+    };
+  }
+
+  const scoreText = cell("score");
+  const score = Number(scoreText);
+  if (!/^\d+$/.test(scoreText) || !isScoreOnScale(type, score)) {
+    const { min, max } = SURVEY_SCALES[type];
+    return {
+      line,
+      message: `score must be a whole number from ${min} to ${max}`,
+    };
+  }
+
+  const respondedAt = parseImportDate(cell("responded_at"));
+  if (!respondedAt) {
+    return {
+      line,
+      message:
+        "responded_at must be a date such as 2024-03-15 or 2024-03-15T09:30:00Z",
+    };
+  }
+  if (respondedAt.getTime() > Date.now()) {
+    return { line, message: "responded_at cannot be in the future" };
+  }
+
+  return {
+    line,
+    subject_id: subjectId,
+    score,
+    responded_at: respondedAt,
+    comment: cell("comment") || null,
+  };
+};
+
+const importKey = (row: {
+  subject_id: string;
+  score: number;
+  responded_at: Date;
+}) =>
+  `${row.subject_id}|${row.score}|${new Date(row.responded_at).toISOString()}`;
+
+/**
+ * Dry run: validate every row and find the ones already imported
+ * Nothing is written. A row counts as already imported when an earlier
+ * import has the same subject, score and timestamp.
+ */
+export const previewResponseImport = async (
+  survey: ImportSurvey,
+  file: ImportFile,
+  mapping: ImportMapping,
+): Promise<ImportPreview> => {
+  validateImportMapping(mapping, file.headers.length);
+
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  file.rows.forEach((row, index) => {
+    const parsed = parseImportRow(row, index + 2, mapping, survey.type);
+    if ("message" in parsed) {
+      errors.push(parsed);
+    } else {
+      rows.push(parsed);
+    }
+  });
+
+  const existing = await db`
+    SELECT sl.subject_id, sl.score, r.responded_at
+    FROM survey_links sl
+    JOIN responses r ON r.survey_link_id = sl.id
+    WHERE sl.survey_id = ${survey.id} AND sl.import_id IS NOT NULL
+  `;
+  const seen = new Set<string>(existing.map(importKey));
+
+  const fresh = rows.filter((row) => {
+    const key = importKey(row);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    total: file.rows.length,
+    rows: fresh,
+    errors,
+    duplicates: rows.length - fresh.length,
+  };
+};
+
+/**
+ * Import the valid, new rows of a file as historical responses
+ * Each response gets its own link, expired at the moment it was answered so
+ * it can never be clicked. Invalid and duplicate rows are skipped. Imports
+ * go straight into the tables: no webhooks are sent and no credits are used.
+ */
+export const commitResponseImport = async (
+  businessId: string,
+  survey: ImportSurvey,
+  file: ImportFile,
+  mapping: ImportMapping,
+  filename: string | null,
+  userId: string | null = null,
+): Promise<ImportResult> => {
+  const preview = await previewResponseImport(survey, file, mapping);
+  if (preview.rows.length === 0) {
+    throw new Error("There are no new valid rows to import");
+  }
+
+  const importId = randomUUID();
+
+  await db.begin(async (tx) => {
+    await tx`
+      INSERT INTO response_imports (id, business_id, survey_id, user_id, filename, row_count)
+      VALUES (${importId}, ${businessId}, ${survey.id}, ${userId}, ${filename}, ${preview.rows.length})
+    `;
+
+    for (let i = 0; i < preview.rows.length; i += IMPORT_INSERT_CHUNK_SIZE) {
+      const chunk = preview.rows
+        .slice(i, i + IMPORT_INSERT_CHUNK_SIZE)
+        .map((row) => ({ ...row, link_id: randomUUID() }));
+
+      await tx`
+        INSERT INTO survey_links ${tx(
+          chunk.map((row) => ({
+            id: row.link_id,
+            token: generateSecureToken(32),
+            survey_id: survey.id,
+            subject_id: row.subject_id,
+            score: row.score,
+            expires_at: row.responded_at,
+            created_at: row.responded_at,
+            import_id: importId,
+          })),
+        )}
+      `;
+      await tx`
+        INSERT INTO responses ${tx(
+          chunk.map((row) => ({
+            survey_link_id: row.link_id,
+            responded_at: row.responded_at,
+            comment: row.comment,
+          })),
+        )}
+      `;
+    }
+
+    await recordAuditEntryInTransaction(
+      tx,
+      businessId,
+      "responses.imported",
+      {
+        survey_id: survey.survey_id,
+        import_id: importId,
+        filename,
+        imported: preview.rows.length,
+        skipped: preview.errors.length + preview.duplicates,
+      },
+      userId,
+    );
+  });
+
+  return {
+    import_id: importId,
+    imported: preview.rows.length,
+    skipped: preview.errors.length + preview.duplicates,
+  };
+};
+
+/**
+ * List a survey's past imports, newest first
+ */
+export const listResponseImports = async (
+  surveyId: string,
+): Promise<ResponseImport[]> => {
+  const result = await db`
+    SELECT ri.id, ri.filename, ri.row_count, u.email AS user_email, ri.created_at
+    FROM response_imports ri
+    LEFT JOIN users u ON u.id = ri.user_id
+    WHERE ri.survey_id = ${surveyId}
+    ORDER BY ri.created_at DESC
+  `;
+
+  return result as ResponseImport[];
+};
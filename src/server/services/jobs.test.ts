@@ -0,0 +1,371 @@
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { SQL } from "bun";
+import { cleanupTestData } from "../test-utils/helpers";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("./database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import {
+  claimJobs,
+  clearJobDefinitions,
+  defineJob,
+  enqueueJob,
+  getJobRunnerStatus,
+  type Job,
+  listJobSchedules,
+  reclaimExpiredJobs,
+  retryJob,
+  runDueJobsNow,
+  runJob,
+  runScheduledJobNow,
+  scheduleDueJobs,
+  startJobRunner,
+  stopJobRunner,
+  syncJobSchedules,
+  waitForJobRunner,
+} from "./jobs";
+
+describe("Jobs Service", () => {
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    clearJobDefinitions();
+  });
+
+  afterEach(async () => {
+    stopJobRunner();
+    await waitForJobRunner();
+    clearJobDefinitions();
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const getJob = async (id: string): Promise<Job> => {
+    const [job] = await connection`SELECT * FROM jobs WHERE id = ${id}`;
+    return job as Job;
+  };
+
+  const makeScheduleDue = async (name: string) => {
+    await connection`
+      UPDATE job_schedules
+      SET next_run_at = CURRENT_TIMESTAMP - INTERVAL '1 second'
+      WHERE name = ${name}
+    `;
+  };
+
+  describe("running jobs", () => {
+    test("runs an enqueued job and records its result", async () => {
+      const handler = mock(async (payload: Record<string, unknown>) => ({
+        echoed: payload.value,
+      }));
+      defineJob({ name: "test.echo", handler });
+
+      const job = await enqueueJob("test.echo", { value: 42 });
+      await runDueJobsNow();
+
+      expect(handler).toHaveBeenCalledWith({ value: 42 });
+      const finished = await getJob(job.id);
+      expect(finished.status).toBe("completed");
+      expect(finished.attempts).toBe(1);
+      expect(finished.result).toEqual({ echoed: 42 });
+      expect(finished.finished_at).not.toBeNull();
+      expect(finished.locked_by).toBeNull();
+    });
+
+    test("rejects unknown job names", async () => {
+      expect(enqueueJob("test.missing")).rejects.toThrow(
+        "Unknown job: test.missing",
+      );
+    });
+
+    test("leaves jobs scheduled for later alone", async () => {
+      defineJob({ name: "test.later", handler: async () => {} });
+
+      await enqueueJob("test.later", {}, new Date(Date.now() + 60_000));
+
+      expect(await claimJobs("runner-a", 10)).toHaveLength(0);
+    });
+
+    test("never claims the same job twice", async () => {
+      defineJob({ name: "test.claim", handler: async () => {} });
+      for (let i = 0; i < 3; i++) {
+        await enqueueJob("test.claim");
+      }
+
+      const [first, second] = await Promise.all([
+        claimJobs("runner-a", 2),
+        claimJobs("runner-b", 2),
+      ]);
+      const ids = [...first, ...second].map((job) => job.id);
+
+      expect(ids).toHaveLength(3);
+      expect(new Set(ids).size).toBe(3);
+    });
+
+    test("only claims job types registered in this process", async () => {
+      defineJob({ name: "test.elsewhere", handler: async () => {} });
+      await enqueueJob("test.elsewhere");
+      clearJobDefinitions();
+      defineJob({ name: "test.here", handler: async () => {} });
+
+      expect(await claimJobs("runner-a", 10)).toHaveLength(0);
+    });
+  });
+
+  describe("retries", () => {
+    test("retries a failed job with backoff, then gives up", async () => {
+      defineJob({
+        name: "test.flaky",
+        maxAttempts: 2,
+        handler: async () => {
+          throw new Error("Upstream unavailable");
+        },
+      });
+      const job = await enqueueJob("test.flaky");
+
+      await runDueJobsNow();
+      let current = await getJob(job.id);
+      expect(current.status).toBe("pending");
+      expect(current.attempts).toBe(1);
+      expect(current.last_error).toBe("Upstream unavailable");
+      expect(current.run_at.getTime()).toBeGreaterThan(Date.now() + 25_000);
+
+      await connection`UPDATE jobs SET run_at = CURRENT_TIMESTAMP WHERE id = ${job.id}`;
+      await runDueJobsNow();
+      current = await getJob(job.id);
+      expect(current.status).toBe("failed");
+      expect(current.attempts).toBe(2);
+      expect(current.finished_at).not.toBeNull();
+    });
+
+    test("retries a failed job on request", async () => {
+      defineJob({
+        name: "test.retry",
+        maxAttempts: 1,
+        handler: async () => {},
+      });
+      const job = await enqueueJob("test.retry");
+      await connection`
+        UPDATE jobs SET status = 'failed', attempts = 1 WHERE id = ${job.id}
+      `;
+
+      await retryJob(job.id);
+
+      const current = await getJob(job.id);
+      expect(current.status).toBe("pending");
+      expect(current.attempts).toBe(0);
+      expect(retryJob(job.id)).rejects.toThrow(
+        "Only failed jobs can be retried",
+      );
+    });
+
+    test("puts jobs with an expired lease back in the queue", async () => {
+      defineJob({ name: "test.lease", handler: async () => {} });
+      const job = await enqueueJob("test.lease");
+      await claimJobs("runner-a", 1);
+      await connection`
+        UPDATE jobs
+        SET locked_until = CURRENT_TIMESTAMP - INTERVAL '1 second'
+        WHERE id = ${job.id}
+      `;
+
+      expect(await reclaimExpiredJobs()).toBe(1);
+
+      const current = await getJob(job.id);
+      expect(current.status).toBe("pending");
+      expect(current.locked_by).toBeNull();
+      expect(current.last_error).toBe("Lease expired before the job finished");
+    });
+
+    test("does not record a result once another runner holds the lease", async () => {
+      defineJob({ name: "test.overrun", handler: async () => ({ done: 1 }) });
+      const job = await enqueueJob("test.overrun");
+      const [claimed] = await claimJobs("runner-a", 1);
+
+      // runner-a overran its lease and runner-b took the job over
+      await connection`
+        UPDATE jobs SET locked_by = 'runner-b' WHERE id = ${job.id}
+      `;
+      await runJob(claimed);
+
+      const current = await getJob(job.id);
+      expect(current.status).toBe("running");
+      expect(current.locked_by).toBe("runner-b");
+      expect(current.result).toBeNull();
+    });
+  });
+
+  describe("schedules", () => {
+    test("rejects invalid schedules when defining a job", () => {
+      expect(() =>
+        defineJob({
+          name: "test.invalid",
+          schedule: "every day",
+          handler: async () => {},
+        }),
+      ).toThrow("Invalid schedule");
+    });
+
+    test("queues a due schedule once and moves it on", async () => {
+      defineJob({
+        name: "test.hourly",
+        schedule: "0 * * * *",
+        handler: async () => {},
+      });
+      await syncJobSchedules();
+      await makeScheduleDue("test.hourly");
+
+      const queued = await Promise.all([scheduleDueJobs(), scheduleDueJobs()]);
+
+      expect(queued[0] + queued[1]).toBe(1);
+      const [schedule] = await listJobSchedules();
+      expect(schedule.last_status).toBe("pending");
+      expect(schedule.next_run_at.getTime()).toBeGreaterThan(Date.now());
+      expect(schedule.next_run_at.getUTCMinutes()).toBe(0);
+    });
+
+    test("skips a run while the previous one is unfinished", async () => {
+      defineJob({
+        name: "test.minutely",
+        schedule: "* * * * *",
+        handler: async () => {},
+      });
+      defineJob({
+        name: "test.overlapping",
+        schedule: "* * * * *",
+        overlap: true,
+        handler: async () => {},
+      });
+      await syncJobSchedules();
+      await makeScheduleDue("test.minutely");
+      await makeScheduleDue("test.overlapping");
+      expect(await scheduleDueJobs()).toBe(2);
+      await claimJobs("runner-a", 10);
+
+      await makeScheduleDue("test.minutely");
+      await makeScheduleDue("test.overlapping");
+
+      // Only the overlapping job starts again while both are running
+      expect(await scheduleDueJobs()).toBe(1);
+      const [running] = await connection`
+        SELECT COUNT(*)::int AS count FROM jobs WHERE name = 'test.minutely'
+      `;
+      expect(running.count).toBe(1);
+    });
+
+    test("removes schedules that are no longer registered", async () => {
+      defineJob({
+        name: "test.old",
+        schedule: "@every 5m",
+        handler: async () => {},
+      });
+      await syncJobSchedules();
+      clearJobDefinitions();
+      defineJob({
+        name: "test.new",
+        schedule: "@every 5m",
+        handler: async () => {},
+      });
+
+      await syncJobSchedules();
+
+      const schedules = await listJobSchedules();
+      expect(schedules.map((schedule) => schedule.name)).toEqual(["test.new"]);
+    });
+
+    test("runs a scheduled job now without moving its schedule", async () => {
+      defineJob({
+        name: "test.daily",
+        schedule: "0 3 * * *",
+        handler: async () => {},
+      });
+      await syncJobSchedules();
+      const [before] = await listJobSchedules();
+
+      const job = await runScheduledJobNow("test.daily");
+
+      const [after] = await listJobSchedules();
+      expect(after.last_job_id).toBe(job.id);
+      expect(after.next_run_at).toEqual(before.next_run_at);
+      expect(runScheduledJobNow("test.daily")).rejects.toThrow(
+        "Job is already queued or running",
+      );
+      expect(runScheduledJobNow("test.unknown")).rejects.toThrow(
+        "Schedule not found",
+      );
+    });
+  });
+
+  describe("runner", () => {
+    test("starts, runs due jobs and stops", async () => {
+      let ran = false;
+      defineJob({
+        name: "test.runner",
+        handler: async () => {
+          ran = true;
+        },
+      });
+      const job = await enqueueJob("test.runner");
+
+      await startJobRunner({ intervalMs: 60_000 });
+      expect(getJobRunnerStatus().running).toBe(true);
+
+      // Starting twice is harmless
+      await startJobRunner();
+      expect(getJobRunnerStatus().running).toBe(true);
+
+      stopJobRunner();
+      await waitForJobRunner();
+
+      expect(getJobRunnerStatus().running).toBe(false);
+      expect(getJobRunnerStatus().activeJobs).toBe(0);
+      expect(ran).toBe(true);
+      expect((await getJob(job.id)).status).toBe("completed");
+    });
+
+    test("logs a job whose failure could not be recorded", async () => {
+      // Postgres refuses the NUL byte, so recording the failure throws too
+      defineJob({
+        name: "test.unrecordable",
+        handler: async () => {
+          throw new Error("bad \u0000 byte");
+        },
+      });
+      const job = await enqueueJob("test.unrecordable");
+      const consoleError = spyOn(console, "error").mockImplementation(() => {});
+
+      try {
+        await startJobRunner({ intervalMs: 60_000 });
+        stopJobRunner();
+        await waitForJobRunner();
+
+        expect(getJobRunnerStatus().activeJobs).toBe(0);
+        expect(consoleError).toHaveBeenCalledWith(
+          `Error running job ${job.id}:`,
+          expect.anything(),
+        );
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+  });
+});
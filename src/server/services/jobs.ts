@@ -0,0 +1,569 @@
+import { hostname } from "node:os";
+import type { SQL } from "bun";
+import { getNextRunTime, parseSchedule } from "../utils/cron";
+import { db } from "./database";
+
+export type JobStatus = "pending" | "running" | "completed" | "failed";
+
+export type JobPayload = Record<string, unknown>;
+
+export interface Job {
+  id: string;
+  name: string;
+  payload: JobPayload;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_by: string | null;
+  locked_until: Date | null;
+  started_at: Date | null;
+  finished_at: Date | null; // Set once completed or out of attempts
+  result: JobPayload | null; // Whatever the handler returned, for the status page
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface JobSchedule {
+  name: string;
+  schedule: string;
+  next_run_at: Date;
+  last_job_id: string | null;
+  last_status: JobStatus | null;
+  last_started_at: Date | null;
+  last_finished_at: Date | null;
+  last_error: string | null;
+}
+
+// Whatever the handler resolves to is stored as the job's result
+export type JobHandler = (payload: JobPayload) => Promise<unknown>;
+
+export interface JobDefinition {
+  name: string;
+  handler: JobHandler;
+  schedule?: string; // Cron or @every; unscheduled jobs only run when enqueued
+  overlap?: boolean; // Start the next scheduled run while one is still running
+  maxAttempts?: number; // Defaults to DEFAULT_JOB_MAX_ATTEMPTS
+}
+
+export const DEFAULT_JOB_MAX_ATTEMPTS = 3;
+
+// How long a runner may hold a job before another may take it; handlers
+// must finish well within this
+export const JOB_LEASE_SECONDS = 600;
+
+const registry = new Map<string, JobDefinition>();
+
+/**
+ * Register a job type so runners in this process can claim it
+ * Registering a name again replaces its definition.
+ */
+export const defineJob = (definition: JobDefinition): void => {
+  if (definition.schedule) {
+    // Fail at startup rather than when the schedule falls due
+    parseSchedule(definition.schedule);
+  }
+  registry.set(definition.name, definition);
+};
+
+/**
+ * Get every job type registered in this process
+ */
+export const getJobDefinitions = (): JobDefinition[] => [...registry.values()];
+
+/**
+ * Remove every registered job type (for testing)
+ */
+export const clearJobDefinitions = (): void => {
+  registry.clear();
+};
+
+const insertJob = async (
+  sql: SQL,
+  name: string,
+  payload: JobPayload,
+  runAt: Date | null,
+): Promise<Job> => {
+  // Another process may run jobs this one has not registered
+  const maxAttempts =
+    registry.get(name)?.maxAttempts ?? DEFAULT_JOB_MAX_ATTEMPTS;
+
+  const [job] = await sql`
+    INSERT INTO jobs (name, payload, max_attempts, run_at)
+    VALUES (
+      ${name}, ${payload}, ${maxAttempts},
+      COALESCE(${runAt}::timestamptz, CURRENT_TIMESTAMP)
+    )
+    RETURNING *
+  `;
+
+  return job as Job;
+};
+
+/**
+ * Queue a run of a registered job
+ */
+export const enqueueJob = async (
+  name: string,
+  payload: JobPayload = {},
+  runAt: Date | null = null,
+): Promise<Job> => {
+  if (!registry.has(name)) {
+    throw new Error(`Unknown job: ${name}`);
+  }
+
+  return await insertJob(db, name, payload, runAt);
+};
+
+/**
+ * Make job_schedules match the scheduled jobs registered in this process
+ * A schedule keeps its next run time unless its expression changed.
+ */
+export const syncJobSchedules = async (): Promise<void> => {
+  const scheduled = getJobDefinitions().filter(
+    (definition) => definition.schedule,
+  );
+
+  await db.begin(async (tx) => {
+    for (const definition of scheduled) {
+      const schedule = definition.schedule as string;
+      await tx`
+        INSERT INTO job_schedules (name, schedule, next_run_at)
+        VALUES (${definition.name}, ${schedule}, ${getNextRunTime(schedule)})
+        ON CONFLICT (name) DO UPDATE
+        SET
+          schedule = EXCLUDED.schedule,
+          next_run_at = CASE
+            WHEN job_schedules.schedule = EXCLUDED.schedule
+            THEN job_schedules.next_run_at
+            ELSE EXCLUDED.next_run_at
+          END,
+          updated_at = CURRENT_TIMESTAMP
+      `;
+    }
+
+    const names = scheduled.map((definition) => definition.name);
+    if (names.length === 0) {
+      await tx`DELETE FROM job_schedules`;
+    } else {
+      await tx`DELETE FROM job_schedules WHERE name NOT IN ${tx(names)}`;
+    }
+  });
+};
+
+/**
+ * Queue a run of every schedule that has fallen due
+ * Schedules are locked with SKIP LOCKED, so each due time is queued once
+ * however many runners there are. A run is skipped while the previous one
+ * is still waiting to start, or still running unless the job allows overlap.
+ * Returns how many jobs were queued.
+ */
+export const scheduleDueJobs = async (): Promise<number> => {
+  return await db.begin(async (tx) => {
+    const due = await tx`
+      SELECT js.name, js.schedule, j.status AS last_status
+      FROM job_schedules js
+      LEFT JOIN jobs j ON j.id = js.last_job_id
+      WHERE js.next_run_at <= CURRENT_TIMESTAMP
+      FOR UPDATE OF js SKIP LOCKED
+    `;
+
+    let queued = 0;
+    for (const row of due) {
+      const definition = registry.get(row.name);
+      if (!definition) continue;
+
+      const busy =
+        row.last_status === "pending" ||
+        (row.last_status === "running" && !definition.overlap);
+      const job = busy ? null : await insertJob(tx, row.name, {}, null);
+      if (job) queued++;
+
+      await tx`
+        UPDATE job_schedules
+        SET
+          next_run_at = ${getNextRunTime(row.schedule)},
+          last_job_id = COALESCE(${job?.id ?? null}::uuid, last_job_id),
+          updated_at = CURRENT_TIMESTAMP
+        WHERE name = ${row.name}
+      `;
+    }
+
+    return queued;
+  });
+};
+
+/**
+ * Claim due jobs of the types registered in this process
+ * Rows are locked with SKIP LOCKED so runners never claim the same job.
+ */
+export const claimJobs = async (
+  runnerId: string,
+  limit: number,
+): Promise<Job[]> => {
+  const names = [...registry.keys()];
+  if (names.length === 0 || limit < 1) {
+    return [];
+  }
+
+  const result = await db`
+    WITH due AS (
+      SELECT id
+      FROM jobs
+      WHERE status = 'pending'
+        AND run_at <= CURRENT_TIMESTAMP
+        AND name IN ${db(names)}
+      ORDER BY run_at ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    UPDATE jobs
+    SET
+      status = 'running',
+      attempts = attempts + 1,
+      locked_by = ${runnerId},
+      locked_until = CURRENT_TIMESTAMP + ${JOB_LEASE_SECONDS}::int * INTERVAL '1 second',
+      started_at = CURRENT_TIMESTAMP,
+      updated_at = CURRENT_TIMESTAMP
+    FROM due
+    WHERE jobs.id = due.id
+    RETURNING jobs.*
+  `;
+
+  return result as Job[];
+};
+
+/**
+ * Calculate when a failed job runs again: 30 seconds, then 2 minutes,
+ * 8 minutes and so on, capped at an hour
+ */
+export const calculateJobRetryTime = (attempts: number): Date => {
+  const delaySeconds = Math.min(30 * 4 ** (attempts - 1), 3600);
+  return new Date(Date.now() + delaySeconds * 1000);
+};
+
+/**
+ * Run a claimed job and record how it went
+ * A failed job is retried with backoff until it runs out of attempts. The
+ * outcome is only recorded while this runner still holds the lease, so a
+ * run that overran it can't overwrite the run that took over.
+ */
+export const runJob = async (job: Job): Promise<void> => {
+  const definition = registry.get(job.name);
+
+  try {
+    if (!definition) {
+      throw new Error(`Unknown job: ${job.name}`);
+    }
+
+    const result = await definition.handler(job.payload);
+
+    const completed = await db`
+      UPDATE jobs
+      SET
+        status = 'completed',
+        result = ${result ?? null},
+        last_error = NULL,
+        locked_by = NULL,
+        locked_until = NULL,
+        finished_at = CURRENT_TIMESTAMP,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${job.id} AND status = 'running' AND locked_by = ${job.locked_by}
+      RETURNING id
+    `;
+
+    if (completed.length === 0) {
+      console.warn(
+        `Job ${job.name} (${job.id}) lost its lease before finishing`,
+      );
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retry = job.attempts < job.max_attempts;
+
+    const failed = await db`
+      UPDATE jobs
+      SET
+        status = ${retry ? "pending" : "failed"},
+        run_at = ${retry ? calculateJobRetryTime(job.attempts) : job.run_at},
+        last_error = ${message},
+        locked_by = NULL,
+        locked_until = NULL,
+        finished_at = ${retry ? null : new Date()},
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${job.id} AND status = 'running' AND locked_by = ${job.locked_by}
+      RETURNING id
+    `;
+
+    console.error(`Job ${job.name} (${job.id}) failed:`, error);
+    if (failed.length === 0) {
+      console.warn(
+        `Job ${job.name} (${job.id}) lost its lease before finishing`,
+      );
+    }
+  }
+};
+
+/**
+ * Put running jobs whose lease ran out back in the queue
+ * Their runner stopped before recording a result, which counts as a failed
+ * attempt.
+ */
+export const reclaimExpiredJobs = async (): Promise<number> => {
+  const reclaimed = await db`
+    UPDATE jobs
+    SET
+      status = CASE
+        WHEN attempts >= max_attempts THEN 'failed'
+        ELSE 'pending'
+      END,
+      run_at = CURRENT_TIMESTAMP,
+      last_error = 'Lease expired before the job finished',
+      locked_by = NULL,
+      locked_until = NULL,
+      finished_at = CASE
+        WHEN attempts >= max_attempts THEN CURRENT_TIMESTAMP
+      END,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE status = 'running' AND locked_until < CURRENT_TIMESTAMP
+    RETURNING id
+  `;
+
+  return reclaimed.length;
+};
+
+/**
+ * List every schedule with the outcome of its latest run
+ */
+export const listJobSchedules = async (): Promise<JobSchedule[]> => {
+  const result = await db`
+    SELECT
+      js.name, js.schedule, js.next_run_at, js.last_job_id,
+      j.status AS last_status,
+      j.started_at AS last_started_at,
+      j.finished_at AS last_finished_at,
+      j.last_error
+    FROM job_schedules js
+    LEFT JOIN jobs j ON j.id = js.last_job_id
+    ORDER BY js.name ASC
+  `;
+
+  return result as JobSchedule[];
+};
+
+/**
+ * List the most recent jobs, optionally only those with a status
+ */
+export const listRecentJobs = async (
+  limit = 50,
+  status?: JobStatus,
+): Promise<Job[]> => {
+  const result = await db`
+    SELECT *
+    FROM jobs
+    WHERE (${status ?? null}::text IS NULL OR status = ${status ?? null})
+    ORDER BY created_at DESC
+    LIMIT ${limit}
+  `;
+
+  return result as Job[];
+};
+
+/**
+ * Queue a failed job to run again straight away with its full attempts
+ */
+export const retryJob = async (jobId: string): Promise<void> => {
+  const [job] = await db`SELECT status FROM jobs WHERE id = ${jobId}`;
+  if (!job) {
+    throw new Error("Job not found");
+  }
+  if (job.status !== "failed") {
+    throw new Error("Only failed jobs can be retried");
+  }
+
+  await db`
+    UPDATE jobs
+    SET
+      status = 'pending',
+      attempts = 0,
+      run_at = CURRENT_TIMESTAMP,
+      finished_at = NULL,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = ${jobId} AND status = 'failed'
+  `;
+};
+
+/**
+ * Queue a scheduled job to run straight away
+ * Its next scheduled run is unchanged.
+ */
+export const runScheduledJobNow = async (name: string): Promise<Job> => {
+  return await db.begin(async (tx) => {
+    const [schedule] = await tx`
+      SELECT js.name, j.status AS last_status
+      FROM job_schedules js
+      LEFT JOIN jobs j ON j.id = js.last_job_id
+      WHERE js.name = ${name}
+      FOR UPDATE OF js
+    `;
+    if (!schedule) {
+      throw new Error("Schedule not found");
+    }
+    if (
+      schedule.last_status === "pending" ||
+      schedule.last_status === "running"
+    ) {
+      throw new Error("Job is already queued or running");
+    }
+
+    const job = await insertJob(tx, name, {}, null);
+    await tx`
+      UPDATE job_schedules
+      SET last_job_id = ${job.id}, updated_at = CURRENT_TIMESTAMP
+      WHERE name = ${name}
+    `;
+
+    return job;
+  });
+};
+
+export interface JobRunnerOptions {
+  concurrency: number; // Jobs this runner runs at once
+  intervalMs: number; // How often it looks for due jobs
+}
+
+const parsePositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Read runner options from the environment, falling back to defaults
+ */
+export const getJobRunnerOptions = (): JobRunnerOptions => ({
+  concurrency: parsePositiveInt(process.env.JOB_RUNNER_CONCURRENCY, 4),
+  intervalMs: parsePositiveInt(process.env.JOB_RUNNER_INTERVAL_MS, 5000),
+});
+
+/**
+ * Global runner state
+ * Jobs run in the background between ticks; a tick only claims as many as
+ * there are free slots.
+ */
+const runnerId = `${hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+let runnerInterval: Timer | null = null;
+let runnerOptions = getJobRunnerOptions();
+let currentTick: Promise<void> | null = null;
+const activeJobs = new Set<Promise<void>>();
+
+const tick = async (): Promise<void> => {
+  try {
+    const reclaimed = await reclaimExpiredJobs();
+    if (reclaimed > 0) {
+      console.log(`Reclaimed ${reclaimed} jobs with expired leases`);
+    }
+
+    await scheduleDueJobs();
+
+    const jobs = await claimJobs(
+      runnerId,
+      runnerOptions.concurrency - activeJobs.size,
+    );
+    for (const job of jobs) {
+      const running = runJob(job)
+        .catch((error) => {
+          console.error(`Error running job ${job.id}:`, error);
+        })
+        .finally(() => {
+          activeJobs.delete(running);
+        });
+      activeJobs.add(running);
+    }
+  } catch (error) {
+    console.error("Error running jobs:", error);
+  }
+};
+
+const runTick = (): void => {
+  if (currentTick) {
+    // Prevent overlapping ticks
+    return;
+  }
+
+  currentTick = tick().finally(() => {
+    currentTick = null;
+  });
+};
+
+/**
+ * Start running registered jobs and their schedules
+ */
+export const startJobRunner = async (
+  options: Partial<JobRunnerOptions> = {},
+): Promise<void> => {
+  if (runnerInterval) {
+    console.warn("Job runner is already running");
+    return;
+  }
+
+  runnerOptions = { ...getJobRunnerOptions(), ...options };
+  await syncJobSchedules();
+
+  console.log(
+    `Starting job runner ${runnerId} (concurrency ${runnerOptions.concurrency})`,
+  );
+
+  // Run immediately on startup, then on every interval
+  runTick();
+  runnerInterval = setInterval(runTick, runnerOptions.intervalMs);
+};
+
+/**
+ * Stop looking for jobs
+ * Jobs already running carry on; await waitForJobRunner to let them finish.
+ */
+export const stopJobRunner = (): void => {
+  if (runnerInterval) {
+    clearInterval(runnerInterval);
+    runnerInterval = null;
+    console.log("Job runner stopped");
+  }
+};
+
+/**
+ * Wait for the current tick and every running job to finish
+ */
+export const waitForJobRunner = async (): Promise<void> => {
+  await currentTick;
+  await Promise.allSettled([...activeJobs]);
+};
+
+/**
+ * Get runner status for debugging
+ */
+export const getJobRunnerStatus = (): {
+  runnerId: string;
+  running: boolean;
+  activeJobs: number;
+} => {
+  return {
+    runnerId,
+    running: runnerInterval !== null,
+    activeJobs: activeJobs.size,
+  };
+};
+
+/**
+ * Schedule and run every due job, waiting for them to finish (for testing)
+ */
+export const runDueJobsNow = async (): Promise<void> => {
+  await reclaimExpiredJobs();
+  await scheduleDueJobs();
+
+  let jobs = await claimJobs(runnerId, runnerOptions.concurrency);
+  while (jobs.length > 0) {
+    await Promise.allSettled(jobs.map(runJob));
+    jobs = await claimJobs(runnerId, runnerOptions.concurrency);
+  }
+};
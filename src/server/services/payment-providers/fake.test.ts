@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test";
+import type { CreditPack } from "../payments";
+import { FakePaymentProvider } from "./fake";
+
+const pack: CreditPack = {
+  id: "credits_1k",
+  name: "1,000 responses",
+  credits: 1000,
+  amountCents: 500,
+};
+
+describe("FakePaymentProvider", () => {
+  describe("createCheckoutSession", () => {
+    it("should return a local checkout URL for a new session", async () => {
+      const provider = new FakePaymentProvider();
+
+      const first = await provider.createCheckoutSession({
+        businessId: "business-1",
+        pack,
+        successUrl: "http://localhost:3000/success",
+        cancelUrl: "http://localhost:3000/cancel",
+      });
+      const second = await provider.createCheckoutSession({
+        businessId: "business-1",
+        pack,
+        successUrl: "http://localhost:3000/success",
+        cancelUrl: "http://localhost:3000/cancel",
+      });
+
+      expect(first.id).toStartWith("fake_cs_");
+      expect(first.id).not.toBe(second.id);
+      expect(first.url).toContain(
+        `/billing/fake-checkout?session_id=${first.id}`,
+      );
+    });
+  });
+
+  describe("verifyWebhook", () => {
+    it("should accept webhooks it signed", () => {
+      const provider = new FakePaymentProvider("secret");
+      const { payload, headers } = provider.createCompletedWebhook("fake_cs_1");
+
+      expect(provider.verifyWebhook(payload, headers)).toEqual({
+        type: "checkout.completed",
+        sessionId: "fake_cs_1",
+      });
+    });
+
+    it("should reject tampered payloads and missing signatures", () => {
+      const provider = new FakePaymentProvider("secret");
+      const { headers } = provider.createCompletedWebhook("fake_cs_1");
+      const tampered = JSON.stringify({
+        type: "checkout.completed",
+        session_id: "fake_cs_2",
+      });
+
+      expect(() => provider.verifyWebhook(tampered, headers)).toThrow(
+        "Invalid webhook signature",
+      );
+      expect(() => provider.verifyWebhook(tampered, new Headers())).toThrow(
+        "Invalid webhook signature",
+      );
+    });
+
+    it("should ignore other event types", () => {
+      const provider = new FakePaymentProvider("secret");
+      const { payload, headers } = provider.createWebhook({
+        type: "checkout.expired",
+        session_id: "fake_cs_1",
+      });
+
+      expect(provider.verifyWebhook(payload, headers)).toEqual({
+        type: "ignored",
+        sessionId: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import type {
+  CheckoutSession,
+  CheckoutSessionRequest,
+  PaymentEvent,
+  PaymentProvider,
+} from "../payments";
+
+export const FAKE_SIGNATURE_HEADER = "X-Fake-Payment-Signature";
+
+/**
+ * Local payment provider that never touches the network
+ * Checkout URLs point at /billing/fake-checkout, which completes the purchase
+ * by sending a webhook signed with the same secret the provider verifies.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+
+  constructor(private webhookSecret = "fake_webhook_secret") {}
+
+  async createCheckoutSession(
+    _request: CheckoutSessionRequest,
+  ): Promise<CheckoutSession> {
+    const id = `fake_cs_${randomUUID()}`;
+    const baseUrl = process.env.BASE_URL || "http://localhost:3000";
+
+    return {
+      id,
+      url: `${baseUrl}/billing/fake-checkout?session_id=${id}`,
+    };
+  }
+
+  verifyWebhook(payload: string, headers: Headers): PaymentEvent {
+    const signature = headers.get(FAKE_SIGNATURE_HEADER) ?? "";
+    const expected = `sha256=${this.sign(payload)}`;
+
+    if (
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    const event = JSON.parse(payload);
+    if (event.type !== "checkout.completed") {
+      return { type: "ignored", sessionId: null };
+    }
+
+    return { type: "checkout.completed", sessionId: event.session_id };
+  }
+
+  /**
+   * Build a signed "checkout.completed" webhook for a session
+   */
+  createCompletedWebhook(sessionId: string): {
+    payload: string;
+    headers: Headers;
+  } {
+    return this.createWebhook({
+      type: "checkout.completed",
+      session_id: sessionId,
+    });
+  }
+
+  /**
+   * Sign an arbitrary event the way the fake provider would deliver it
+   */
+  createWebhook(event: Record<string, unknown>): {
+    payload: string;
+    headers: Headers;
+  } {
+    const payload = JSON.stringify(event);
+    const headers = new Headers({
+      "Content-Type": "application/json",
+      [FAKE_SIGNATURE_HEADER]: `sha256=${this.sign(payload)}`,
+    });
+
+    return { payload, headers };
+  }
+
+  private sign(payload: string): string {
+    return createHmac("sha256", this.webhookSecret)
+      .update(payload)
+      .digest("hex");
+  }
+}
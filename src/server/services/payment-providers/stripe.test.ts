@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import { createHmac } from "node:crypto";
+import type { CreditPack } from "../payments";
+import { StripeProvider } from "./stripe";
+
+const pack: CreditPack = {
+  id: "credits_1k",
+  name: "1,000 responses",
+  credits: 1000,
+  amountCents: 500,
+};
+
+const signStripePayload = (
+  payload: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000),
+): Headers => {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${payload}`)
+    .digest("hex");
+  return new Headers({ "Stripe-Signature": `t=${timestamp},v1=${signature}` });
+};
+
+const completedEvent = (paymentStatus = "paid") =>
+  JSON.stringify({
+    id: "evt_1",
+    type: "checkout.session.completed",
+    data: { object: { id: "cs_test_1", payment_status: paymentStatus } },
+  });
+
+describe("StripeProvider", () => {
+  let provider: StripeProvider;
+  let mockFetch: ReturnType<typeof mock>;
+
+  beforeEach(() => {
+    mockFetch = mock(async () =>
+      Response.json({
+        id: "cs_test_1",
+        url: "https://checkout.stripe.com/c/pay/cs_test_1",
+      }),
+    );
+
+    provider = new StripeProvider("sk_test_key", "whsec_test");
+    (provider as unknown as { fetch: typeof mockFetch }).fetch = mockFetch;
+  });
+
+  describe("constructor", () => {
+    it("should throw error when keys are missing", () => {
+      expect(() => new StripeProvider("", "whsec_test")).toThrow(
+        "Stripe API key is required",
+      );
+      expect(() => new StripeProvider("sk_test_key", "")).toThrow(
+        "Stripe webhook secret is required",
+      );
+    });
+  });
+
+  describe("createCheckoutSession", () => {
+    it("should create a payment-mode checkout session for the pack", async () => {
+      const session = await provider.createCheckoutSession({
+        businessId: "business-1",
+        pack,
+        successUrl: "http://localhost:3000/success",
+        cancelUrl: "http://localhost:3000/cancel",
+      });
+
+      expect(session).toEqual({
+        id: "cs_test_1",
+        url: "https://checkout.stripe.com/c/pay/cs_test_1",
+      });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://api.stripe.com/v1/checkout/sessions");
+      expect(init.headers.Authorization).toBe("Bearer sk_test_key");
+
+      const body = init.body as URLSearchParams;
+      expect(body.get("mode")).toBe("payment");
+      expect(body.get("client_reference_id")).toBe("business-1");
+      expect(body.get("line_items[0][price_data][unit_amount]")).toBe("500");
+      expect(body.get("metadata[pack_id]")).toBe("credits_1k");
+    });
+
+    it("should surface Stripe API errors", async () => {
+      mockFetch.mockImplementation(async () =>
+        Response.json(
+          { error: { message: "Invalid API Key provided" } },
+          { status: 401 },
+        ),
+      );
+
+      await expect(
+        provider.createCheckoutSession({
+          businessId: "business-1",
+          pack,
+          successUrl: "http://localhost:3000/success",
+          cancelUrl: "http://localhost:3000/cancel",
+        }),
+      ).rejects.toThrow(
+        "Failed to create Stripe checkout session: Stripe API error: Invalid API Key provided",
+      );
+    });
+  });
+
+  describe("verifyWebhook", () => {
+    it("should accept a correctly signed completed checkout", () => {
+      const payload = completedEvent();
+      const headers = signStripePayload(payload, "whsec_test");
+
+      expect(provider.verifyWebhook(payload, headers)).toEqual({
+        type: "checkout.completed",
+        sessionId: "cs_test_1",
+      });
+    });
+
+    it("should reject signatures from another secret", () => {
+      const payload = completedEvent();
+      const headers = signStripePayload(payload, "whsec_other");
+
+      expect(() => provider.verifyWebhook(payload, headers)).toThrow(
+        "Invalid webhook signature",
+      );
+    });
+
+    it("should reject stale timestamps", () => {
+      const payload = completedEvent();
+      const headers = signStripePayload(
+        payload,
+        "whsec_test",
+        Math.floor(Date.now() / 1000) - 3600,
+      );
+
+      expect(() => provider.verifyWebhook(payload, headers)).toThrow(
+        "Invalid webhook signature",
+      );
+    });
+
+    it("should ignore unpaid sessions and other event types", () => {
+      const unpaid = completedEvent("unpaid");
+      const other = JSON.stringify({ type: "customer.created", data: {} });
+
+      expect(
+        provider.verifyWebhook(unpaid, signStripePayload(unpaid, "whsec_test")),
+      ).toEqual({ type: "ignored", sessionId: null });
+      expect(
+        provider.verifyWebhook(other, signStripePayload(other, "whsec_test")),
+      ).toEqual({ type: "ignored", sessionId: null });
+    });
+  });
+});
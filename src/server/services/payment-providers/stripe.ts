@@ -0,0 +1,120 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type {
+  CheckoutSession,
+  CheckoutSessionRequest,
+  PaymentEvent,
+  PaymentProvider,
+} from "../payments";
+
+const STRIPE_API_URL = "https://api.stripe.com/v1";
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export class StripeProvider implements PaymentProvider {
+  readonly name = "stripe";
+  private fetch: typeof fetch = fetch;
+
+  constructor(
+    private apiKey: string,
+    private webhookSecret: string,
+  ) {
+    if (!apiKey) {
+      throw new Error("Stripe API key is required");
+    }
+    if (!webhookSecret) {
+      throw new Error("Stripe webhook secret is required");
+    }
+  }
+
+  async createCheckoutSession(
+    request: CheckoutSessionRequest,
+  ): Promise<CheckoutSession> {
+    const body = new URLSearchParams({
+      mode: "payment",
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl,
+      client_reference_id: request.businessId,
+      "line_items[0][quantity]": "1",
+      "line_items[0][price_data][currency]": "usd",
+      "line_items[0][price_data][unit_amount]": String(
+        request.pack.amountCents,
+      ),
+      "line_items[0][price_data][product_data][name]": `ClickNPS credits: ${request.pack.name}`,
+      "metadata[pack_id]": request.pack.id,
+    });
+
+    try {
+      const response = await this.fetch(`${STRIPE_API_URL}/checkout/sessions`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          `Stripe API error: ${data?.error?.message ?? response.status}`,
+        );
+      }
+
+      return { id: data.id, url: data.url };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(
+          `Failed to create Stripe checkout session: ${error.message}`,
+        );
+      }
+      throw new Error(
+        "Failed to create Stripe checkout session: Unknown error",
+      );
+    }
+  }
+
+  verifyWebhook(payload: string, headers: Headers): PaymentEvent {
+    const header = headers.get("Stripe-Signature") ?? "";
+    const parts = new Map<string, string[]>();
+    for (const part of header.split(",")) {
+      const [key, value] = part.split("=", 2);
+      if (!key || !value) continue;
+      parts.set(key, [...(parts.get(key) ?? []), value]);
+    }
+
+    const timestamp = Number(parts.get("t")?.[0]);
+    const signatures = parts.get("v1") ?? [];
+    const age = Math.abs(Date.now() / 1000 - timestamp);
+
+    if (
+      !Number.isFinite(timestamp) ||
+      age > SIGNATURE_TOLERANCE_SECONDS ||
+      !signatures.some((signature) =>
+        this.matchesSignature(`${timestamp}.${payload}`, signature),
+      )
+    ) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    const event = JSON.parse(payload);
+    const session = event.data?.object;
+    if (
+      event.type !== "checkout.session.completed" ||
+      session?.payment_status !== "paid"
+    ) {
+      return { type: "ignored", sessionId: null };
+    }
+
+    return { type: "checkout.completed", sessionId: session.id };
+  }
+
+  private matchesSignature(signedPayload: string, signature: string): boolean {
+    const expected = createHmac("sha256", this.webhookSecret)
+      .update(signedPayload)
+      .digest("hex");
+
+    return (
+      signature.length === expected.length &&
+      timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    );
+  }
+}
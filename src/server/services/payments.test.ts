@@ -0,0 +1,162 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+import { SQL } from "bun";
+import { cleanupTestData, createTestBusiness } from "../test-utils/helpers";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("./database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import { getCreditLedger, getCreditSummary } from "./credits";
+import { FakePaymentProvider } from "./payment-providers/fake";
+import {
+  findCreditPack,
+  getPaymentProviderName,
+  PaymentService,
+} from "./payments";
+
+describe("Payment Service", () => {
+  let businessId: string;
+  let provider: FakePaymentProvider;
+  let service: PaymentService;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    businessId = await createTestBusiness(connection);
+    provider = new FakePaymentProvider("test_secret");
+    service = new PaymentService(provider);
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  describe("findCreditPack", () => {
+    it("should return known packs and null otherwise", () => {
+      expect(findCreditPack("credits_1k")?.credits).toBe(1000);
+      expect(findCreditPack("credits_unknown")).toBeNull();
+    });
+  });
+
+  describe("getPaymentProviderName", () => {
+    const originalProvider = process.env.PAYMENT_PROVIDER;
+    const originalNodeEnv = process.env.NODE_ENV;
+
+    afterAll(() => {
+      if (originalProvider === undefined) {
+        delete process.env.PAYMENT_PROVIDER;
+      } else {
+        process.env.PAYMENT_PROVIDER = originalProvider;
+      }
+      process.env.NODE_ENV = originalNodeEnv;
+    });
+
+    it("should only default to the fake provider in test and development", () => {
+      delete process.env.PAYMENT_PROVIDER;
+      process.env.NODE_ENV = "development";
+      expect(getPaymentProviderName()).toBe("fake");
+
+      process.env.NODE_ENV = "production";
+      expect(() => getPaymentProviderName()).toThrow(
+        "PAYMENT_PROVIDER environment variable is required",
+      );
+
+      process.env.PAYMENT_PROVIDER = "fake";
+      expect(getPaymentProviderName()).toBe("fake");
+
+      process.env.PAYMENT_PROVIDER = "strpe";
+      expect(() => getPaymentProviderName()).toThrow(
+        "Unknown PAYMENT_PROVIDER: strpe",
+      );
+    });
+  });
+
+  describe("createCheckout", () => {
+    it("should record a pending purchase for the session", async () => {
+      const session = await service.createCheckout(businessId, "credits_5k");
+
+      expect(session.url).toContain(
+        `/billing/fake-checkout?session_id=${session.id}`,
+      );
+
+      const [purchase] = await connection`
+        SELECT * FROM credit_purchases WHERE provider_session_id = ${session.id}
+      `;
+      expect(purchase.business_id).toBe(businessId);
+      expect(purchase.provider).toBe("fake");
+      expect(purchase.credits).toBe(5000);
+      expect(purchase.amount_cents).toBe(2500);
+      expect(purchase.status).toBe("pending");
+    });
+
+    it("should reject unknown packs", async () => {
+      await expect(
+        service.createCheckout(businessId, "credits_unknown"),
+      ).rejects.toThrow("Unknown credit pack");
+    });
+  });
+
+  describe("handleWebhook", () => {
+    it("should grant the purchased credits once", async () => {
+      const session = await service.createCheckout(businessId, "credits_1k");
+      const { payload, headers } = provider.createCompletedWebhook(session.id);
+
+      expect(await service.handleWebhook(payload, headers)).toBe("granted");
+      expect(await service.handleWebhook(payload, headers)).toBe("duplicate");
+
+      const summary = await getCreditSummary(businessId);
+      expect(summary?.balance).toBe(1000);
+
+      const ledger = await getCreditLedger(businessId);
+      expect(ledger).toHaveLength(1);
+      expect(ledger[0].description).toBe("Purchased 1,000 responses");
+
+      const [purchase] = await connection`
+        SELECT status, completed_at FROM credit_purchases
+        WHERE provider_session_id = ${session.id}
+      `;
+      expect(purchase.status).toBe("completed");
+      expect(purchase.completed_at).not.toBeNull();
+    });
+
+    it("should grant once when webhooks arrive concurrently", async () => {
+      const session = await service.createCheckout(businessId, "credits_1k");
+      const { payload, headers } = provider.createCompletedWebhook(session.id);
+
+      const results = await Promise.all([
+        service.handleWebhook(payload, headers),
+        service.handleWebhook(payload, headers),
+      ]);
+
+      expect(results.sort()).toEqual(["duplicate", "granted"]);
+      expect((await getCreditSummary(businessId))?.balance).toBe(1000);
+    });
+
+    it("should reject webhooks with an invalid signature", async () => {
+      const session = await service.createCheckout(businessId, "credits_1k");
+      const { payload } = new FakePaymentProvider(
+        "other_secret",
+      ).createCompletedWebhook(session.id);
+      const { headers } = provider.createCompletedWebhook("different");
+
+      await expect(service.handleWebhook(payload, headers)).rejects.toThrow(
+        "Invalid webhook signature",
+      );
+      expect((await getCreditSummary(businessId))?.balance).toBe(0);
+    });
+
+    it("should ignore sessions it did not create", async () => {
+      const { payload, headers } =
+        provider.createCompletedWebhook("fake_cs_unknown");
+
+      expect(await service.handleWebhook(payload, headers)).toBe("ignored");
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { grantCreditsInTransaction } from "./credits";
+import { db } from "./database";
+
+export interface CreditPack {
+  id: string;
+  name: string;
+  credits: number;
+  amountCents: number;
+}
+
+export interface CheckoutSessionRequest {
+  businessId: string;
+  pack: CreditPack;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string;
+}
+
+export interface PaymentEvent {
+  type: "checkout.completed" | "ignored";
+  sessionId: string | null;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckoutSession(
+    request: CheckoutSessionRequest,
+  ): Promise<CheckoutSession>;
+  /**
+   * Verify a webhook signature and translate the provider's event
+   * Throws "Invalid webhook signature" when verification fails
+   */
+  verifyWebhook(payload: string, headers: Headers): PaymentEvent;
+}
+
+export type PaymentWebhookResult = "granted" | "duplicate" | "ignored";
+
+export const CREDIT_PACKS: CreditPack[] = [
+  {
+    id: "credits_1k",
+    name: "1,000 responses",
+    credits: 1000,
+    amountCents: 500,
+  },
+  {
+    id: "credits_5k",
+    name: "5,000 responses",
+    credits: 5000,
+    amountCents: 2500,
+  },
+  {
+    id: "credits_20k",
+    name: "20,000 responses",
+    credits: 20000,
+    amountCents: 10000,
+  },
+];
+
+export const findCreditPack = (packId: string): CreditPack | null => {
+  return CREDIT_PACKS.find((pack) => pack.id === packId) ?? null;
+};
+
+export class PaymentService {
+  constructor(private provider: PaymentProvider) {}
+
+  getProvider(): PaymentProvider {
+    return this.provider;
+  }
+
+  /**
+   * Start a checkout for a credit pack and record the pending purchase
+   */
+  async createCheckout(
+    businessId: string,
+    packId: string,
+  ): Promise<CheckoutSession> {
+    const pack = findCreditPack(packId);
+    if (!pack) {
+      throw new Error("Unknown credit pack");
+    }
+
+    const baseUrl = process.env.BASE_URL || "http://localhost:3000";
+    const session = await this.provider.createCheckoutSession({
+      businessId,
+      pack,
+      successUrl: `${baseUrl}/settings/billing?purchase=success`,
+      cancelUrl: `${baseUrl}/settings/billing?purchase=cancelled`,
+    });
+
+    await db`
+      INSERT INTO credit_purchases (business_id, provider, provider_session_id, pack_id, credits, amount_cents)
+      VALUES (
+        ${businessId}, ${this.provider.name}, ${session.id},
+        ${pack.id}, ${pack.credits}, ${pack.amountCents}
+      )
+    `;
+
+    return session;
+  }
+
+  /**
+   * Whether a checkout session was started by the business
+   */
+  async isCheckoutForBusiness(
+    businessId: string,
+    sessionId: string,
+  ): Promise<boolean> {
+    const result = await db`
+      SELECT id FROM credit_purchases
+      WHERE provider = ${this.provider.name}
+        AND provider_session_id = ${sessionId}
+        AND business_id = ${businessId}
+    `;
+
+    return result.length > 0;
+  }
+
+  /**
+   * Handle a signed payment webhook
+   * Credits come from the recorded purchase rather than the event body, and
+   * each purchase is completed at most once so provider retries are safe.
+   */
+  async handleWebhook(
+    payload: string,
+    headers: Headers,
+  ): Promise<PaymentWebhookResult> {
+    const event = this.provider.verifyWebhook(payload, headers);
+
+    if (event.type !== "checkout.completed" || !event.sessionId) {
+      return "ignored";
+    }
+
+    const sessionId = event.sessionId;
+    const providerName = this.provider.name;
+
+    return await db.begin(async (tx) => {
+      const [purchase] = await tx`
+        UPDATE credit_purchases
+        SET status = 'completed', completed_at = CURRENT_TIMESTAMP
+        WHERE provider = ${providerName}
+          AND provider_session_id = ${sessionId}
+          AND status = 'pending'
+        RETURNING business_id, credits, pack_id
+      `;
+
+      if (!purchase) {
+        const [existing] = await tx`
+          SELECT id FROM credit_purchases
+          WHERE provider = ${providerName} AND provider_session_id = ${sessionId}
+        `;
+        return existing ? "duplicate" : "ignored";
+      }
+
+      const pack = findCreditPack(purchase.pack_id);
+      await grantCreditsInTransaction(
+        tx,
+        purchase.business_id,
+        purchase.credits,
+        `Purchased ${pack?.name ?? `${purchase.credits} credits`}`,
+      );
+
+      return "granted";
+    });
+  }
+}
+
+/**
+ * The payment provider to use, from PAYMENT_PROVIDER
+ * The fake provider grants credits without payment, so it is only the default
+ * in test and development; elsewhere it has to be chosen explicitly.
+ */
+export const getPaymentProviderName = (): "stripe" | "fake" => {
+  const paymentProvider = process.env.PAYMENT_PROVIDER;
+
+  if (paymentProvider === "stripe" || paymentProvider === "fake") {
+    return paymentProvider;
+  }
+  if (paymentProvider) {
+    throw new Error(`Unknown PAYMENT_PROVIDER: ${paymentProvider}`);
+  }
+  if (
+    process.env.NODE_ENV === "test" ||
+    process.env.NODE_ENV === "development"
+  ) {
+    return "fake";
+  }
+  throw new Error(
+    "PAYMENT_PROVIDER environment variable is required outside test and development (use PAYMENT_PROVIDER=fake to opt in to the fake provider)",
+  );
+};
+
+let paymentServiceInstance: PaymentService | null = null;
+
+export const getPaymentService = (): PaymentService => {
+  if (!paymentServiceInstance) {
+    if (getPaymentProviderName() === "stripe") {
+      const apiKey = process.env.STRIPE_SECRET_KEY;
+      const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+      if (!apiKey || !webhookSecret) {
+        throw new Error(
+          "STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET environment variables are required when PAYMENT_PROVIDER=stripe",
+        );
+      }
+      const { StripeProvider } = require("./payment-providers/stripe");
+      paymentServiceInstance = new PaymentService(
+        new StripeProvider(apiKey, webhookSecret),
+      );
+    } else {
+      const { FakePaymentProvider } = require("./payment-providers/fake");
+      paymentServiceInstance = new PaymentService(new FakePaymentProvider());
+    }
+  }
+  return paymentServiceInstance;
+};
+
+export const setPaymentService = (service: PaymentService): void => {
+  paymentServiceInstance = service;
+};
@@ -18,12 +18,11 @@ import {
   waitForWebhookStatus,
 } from "../test-utils/webhooks";
 import {
+  getWebhookWorkerOptions,
   getWorkerStatus,
   processQueueNow,
   processWebhookItem,
   processWebhookQueue,
-  startWebhookWorker,
-  stopWebhookWorker,
 } from "./queue-worker";
 
 if (!process.env.DATABASE_URL) {
@@ -37,15 +36,23 @@ mock.module("./database", () => ({
   },
 }));
 
+import { clearJobDefinitions, enqueueJob, runDueJobsNow } from "./jobs";
+import { registerScheduledJobs, WEBHOOK_QUEUE_JOB } from "./scheduled-jobs";
+import {
+  claimWebhooks,
+  getWebhookDelivery,
+  listWebhookAttempts,
+  reclaimExpiredWebhookLeases,
+  updateWebhookAfterAttempt,
+} from "./webhooks";
+
 describe("Webhook Queue Worker", () => {
   beforeEach(async () => {
     await cleanupTestData(connection);
     await clearWebhookQueue();
-    stopWebhookWorker(); // Ensure worker is stopped before each test
   });
 
   afterEach(async () => {
-    stopWebhookWorker(); // Clean up worker after each test
     await clearWebhookQueue();
   });
 
@@ -54,29 +61,6 @@ describe("Webhook Queue Worker", () => {
     mock.restore();
   });
 
-  describe("worker lifecycle", () => {
-    test("starts and stops worker", () => {
-      expect(getWorkerStatus().running).toBe(false);
-
-      startWebhookWorker();
-      expect(getWorkerStatus().running).toBe(true);
-
-      stopWebhookWorker();
-      expect(getWorkerStatus().running).toBe(false);
-    });
-
-    test("prevents starting worker twice", () => {
-      startWebhookWorker();
-      expect(getWorkerStatus().running).toBe(true);
-
-      // Should not throw or cause issues
-      startWebhookWorker();
-      expect(getWorkerStatus().running).toBe(true);
-
-      stopWebhookWorker();
-    });
-  });
-
   describe("webhook processing", () => {
     let mockEndpoint: ReturnType<typeof mockWebhookEndpoint>;
     let testPort = 11000; // Start from port 11000 for queue worker tests
@@ -274,6 +258,234 @@ describe("Webhook Queue Worker", () => {
     });
   });
 
+  describe("claiming and leases", () => {
+    let mockEndpoint: ReturnType<typeof mockWebhookEndpoint>;
+    let testPort = 13000; // Start from port 13000 for lease tests
+
+    beforeEach(() => {
+      mockEndpoint = mockWebhookEndpoint(testPort++);
+    });
+
+    afterEach(() => {
+      mockEndpoint.cleanup();
+    });
+
+    const createDueWebhooks = async (businessId: string, count: number) => {
+      const ids: string[] = [];
+      for (let i = 0; i < count; i++) {
+        ids.push(
+          await createTestWebhook(businessId, {
+            webhookUrl: mockEndpoint.url,
+            subjectId: `subject_${i}`,
+            scheduledFor: new Date(Date.now() - (count - i) * 1000),
+          }),
+        );
+      }
+      return ids;
+    };
+
+    test("workers claiming at the same time never share a delivery", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const ids = await createDueWebhooks(businessId, 6);
+
+      const [first, second] = await Promise.all([
+        claimWebhooks("worker-a", 4),
+        claimWebhooks("worker-b", 4),
+      ]);
+      const claimedIds = [...first, ...second].map((item) => item.id);
+
+      expect(claimedIds.sort()).toEqual([...ids].sort());
+      expect(first.every((item) => item.locked_by === "worker-a")).toBe(true);
+      expect(second.every((item) => item.locked_by === "worker-b")).toBe(true);
+      expect(await claimWebhooks("worker-c", 4)).toHaveLength(0);
+    });
+
+    test("claims the oldest deliveries first and leases them", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const ids = await createDueWebhooks(businessId, 3);
+
+      const claimed = await claimWebhooks("worker-a", 2, 30);
+
+      expect(claimed.map((item) => item.id).sort()).toEqual(
+        ids.slice(0, 2).sort(),
+      );
+      const [item] = claimed;
+      expect(item.status).toBe("processing");
+      const leaseMs =
+        new Date(item.locked_until as Date).getTime() - Date.now();
+      expect(leaseMs).toBeGreaterThan(25_000);
+      expect(leaseMs).toBeLessThanOrEqual(30_000);
+    });
+
+    test("sends deliveries whose lease expired again", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const [expiredId, leasedId] = await createDueWebhooks(businessId, 2);
+      await connection`
+        UPDATE webhook_queue
+        SET status = 'processing', locked_by = 'crashed-worker',
+          locked_until = CURRENT_TIMESTAMP - INTERVAL '1 minute'
+        WHERE id = ${expiredId}
+      `;
+      await connection`
+        UPDATE webhook_queue
+        SET status = 'processing', locked_by = 'busy-worker',
+          locked_until = CURRENT_TIMESTAMP + INTERVAL '1 minute'
+        WHERE id = ${leasedId}
+      `;
+
+      await processWebhookQueue();
+
+      const expired = await getWebhookDelivery(businessId, expiredId);
+      expect(expired?.status).toBe("delivered");
+      expect(expired?.locked_by).toBeNull();
+      expect(expired?.locked_until).toBeNull();
+      const leased = await getWebhookDelivery(businessId, leasedId);
+      expect(leased?.status).toBe("processing");
+      expect(leased?.locked_by).toBe("busy-worker");
+      expect(mockEndpoint.getReceivedWebhooks()).toHaveLength(1);
+    });
+
+    test("holds deliveries whose lease expired while the business is out of credits", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const [expiredId] = await createDueWebhooks(businessId, 1);
+      await connection`
+        UPDATE webhook_queue
+        SET status = 'processing', locked_by = 'crashed-worker',
+          locked_until = CURRENT_TIMESTAMP - INTERVAL '1 minute'
+        WHERE id = ${expiredId}
+      `;
+      await connection`
+        INSERT INTO credit_balances (business_id, balance)
+        VALUES (${businessId}, -1)
+        ON CONFLICT (business_id) DO UPDATE SET balance = -1
+      `;
+
+      expect(await reclaimExpiredWebhookLeases()).toBe(1);
+
+      const expired = await getWebhookDelivery(businessId, expiredId);
+      expect(expired?.status).toBe("held");
+      expect(expired?.locked_by).toBeNull();
+      expect(mockEndpoint.getReceivedWebhooks()).toHaveLength(0);
+    });
+
+    test("does not record an attempt once the lease has moved on", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const [id] = await createDueWebhooks(businessId, 1);
+      await claimWebhooks("slow-worker", 1);
+
+      // The lease ran out and another worker claimed the delivery
+      await connection`
+        UPDATE webhook_queue SET locked_by = 'fast-worker' WHERE id = ${id}
+      `;
+
+      const recorded = await updateWebhookAfterAttempt(
+        id,
+        false,
+        0,
+        "Timed out",
+        1,
+        { errorClass: "timeout" },
+        "slow-worker",
+      );
+
+      expect(recorded).toBe(false);
+      const item = await getWebhookDelivery(businessId, id);
+      expect(item?.status).toBe("processing");
+      expect(item?.locked_by).toBe("fast-worker");
+      expect(item?.attempts).toBe(0);
+      expect(await listWebhookAttempts(id)).toHaveLength(0);
+    });
+
+    test("refuses to start with a lease shorter than a send", () => {
+      process.env.WEBHOOK_WORKER_LEASE_SECONDS = "5";
+
+      try {
+        expect(() => registerScheduledJobs()).toThrow(
+          "WEBHOOK_WORKER_LEASE_SECONDS must be at least 20",
+        );
+      } finally {
+        delete process.env.WEBHOOK_WORKER_LEASE_SECONDS;
+        clearJobDefinitions();
+      }
+    });
+
+    test("queues another run when a run fills its batch", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      await createDueWebhooks(businessId, 3);
+      process.env.WEBHOOK_WORKER_BATCH_SIZE = "2";
+
+      try {
+        registerScheduledJobs();
+        await enqueueJob(WEBHOOK_QUEUE_JOB);
+        await runDueJobsNow();
+      } finally {
+        delete process.env.WEBHOOK_WORKER_BATCH_SIZE;
+        clearJobDefinitions();
+      }
+
+      const runs = await connection`
+        SELECT result FROM jobs
+        WHERE name = ${WEBHOOK_QUEUE_JOB} AND status = 'completed'
+        ORDER BY created_at
+      `;
+      expect(runs.map((run: { result: unknown }) => run.result)).toEqual([
+        { processed: 2 },
+        { processed: 1 },
+      ]);
+      const statuses = (await getWebhookQueueItems(businessId)).map(
+        (item) => item.status,
+      );
+      expect(statuses).toEqual(["delivered", "delivered", "delivered"]);
+    });
+
+    test("sends at most the batch size per cycle", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      await createDueWebhooks(businessId, 5);
+
+      await processWebhookQueue({
+        ...getWebhookWorkerOptions(),
+        batchSize: 3,
+        concurrency: 2,
+      });
+
+      const statuses = (await getWebhookQueueItems(businessId)).map(
+        (item) => item.status,
+      );
+      expect(statuses.filter((status) => status === "delivered")).toHaveLength(
+        3,
+      );
+      expect(statuses.filter((status) => status === "pending")).toHaveLength(2);
+    });
+
+    test("reads batch size and concurrency from the environment", () => {
+      process.env.WEBHOOK_WORKER_BATCH_SIZE = "50";
+      process.env.WEBHOOK_WORKER_CONCURRENCY = "not-a-number";
+
+      try {
+        const options = getWebhookWorkerOptions();
+        expect(options.batchSize).toBe(50);
+        expect(options.concurrency).toBe(5);
+      } finally {
+        delete process.env.WEBHOOK_WORKER_BATCH_SIZE;
+        delete process.env.WEBHOOK_WORKER_CONCURRENCY;
+      }
+    });
+
+    test("skips a cycle while one is already running", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      await createDueWebhooks(businessId, 1);
+
+      const running = processWebhookQueue();
+      expect(getWorkerStatus().processing).toBe(true);
+      expect(await processWebhookQueue()).toBe(0);
+
+      expect(await running).toBe(1);
+      expect(getWorkerStatus().processing).toBe(false);
+      const [item] = await getWebhookQueueItems(businessId);
+      expect(item.status).toBe("delivered");
+    });
+  });
+
   describe("integration tests", () => {
     let mockEndpoint: ReturnType<typeof mockWebhookEndpoint>;
     let integrationTestPort = 12000; // Start from port 12000 for integration tests
@@ -302,23 +514,26 @@ describe("Webhook Queue Worker", () => {
       // Advance time so webhook is ready
       await advanceWebhookTime(200); // 200 seconds
 
-      // Start worker and wait for processing
-      startWebhookWorker();
+      // Run the delivery job as a runner would
+      registerScheduledJobs();
+      await enqueueJob(WEBHOOK_QUEUE_JOB);
+      await runDueJobsNow();
+      clearJobDefinitions();
 
-      // Wait for webhook to be delivered
       await waitForWebhookStatus(
         businessId,
         "integration_test",
         "test_user",
         "delivered",
-        10000,
+        1000,
       );
 
       const received = mockEndpoint.getReceivedWebhooks();
       expect(received).toHaveLength(1);
-      expect(received[0].body.survey_id).toBe("integration_test");
-      expect(received[0].body.score).toBe(10);
-      expect(received[0].body.comment).toBe("Perfect score!");
+      expect(received[0].body.type).toBe("response.created");
+      expect(received[0].body.data.survey_id).toBe("integration_test");
+      expect(received[0].body.data.score).toBe(10);
+      expect(received[0].body.data.comment).toBe("Perfect score!");
       expect(received[0].headers["x-clicknps-signature"]).toStartWith(
         "sha256=",
       );
@@ -374,11 +589,18 @@ describe("Webhook Queue Worker", () => {
         // Verify webhook was actually sent with correct payload
         const received = integrationMockEndpoint.getReceivedWebhooks();
         expect(received).toHaveLength(1);
-        expect(received[0].body.survey_id).toBe("test_survey");
-        expect(received[0].body.subject_id).toBe("test_user");
-        expect(received[0].body.score).toBe(9);
-        expect(received[0].body.comment).toBe("Great service!");
-        expect(received[0].body.timestamp).toBeDefined();
+        expect(received[0].body.id).toBe(webhookItem.event_id);
+        expect(received[0].body.type).toBe("response.created");
+        expect(received[0].body.version).toBe(1);
+        expect(received[0].body.created_at).toBeDefined();
+        expect(received[0].body.data).toEqual({
+          survey_id: "test_survey",
+          survey_type: "nps",
+          subject_id: "test_user",
+          score: 9,
+          comment: "Great service!",
+          follow_up: null,
+        });
 
         // Verify proper headers were sent
         expect(received[0].headers["content-type"]).toBe("application/json");
@@ -386,6 +608,9 @@ describe("Webhook Queue Worker", () => {
           "sha256=",
         );
         expect(received[0].headers["x-clicknps-timestamp"]).toBeDefined();
+        expect(received[0].headers["x-clicknps-event"]).toBe(
+          "response.created",
+        );
         expect(received[0].headers["user-agent"]).toBe("ClickNPS-Webhooks/1.0");
       });
 
@@ -408,7 +633,7 @@ describe("Webhook Queue Worker", () => {
         await processWebhookItem(webhookItem);
 
         const received = integrationMockEndpoint.getReceivedWebhooks();
-        expect(received[0].body.comment).toBeNull();
+        expect(received[0].body.data.comment).toBeNull();
       });
     });
 
@@ -617,16 +842,18 @@ describe("Webhook Queue Worker", () => {
         const received = integrationMockEndpoint.getReceivedWebhooks();
         const payload = received[0].body;
 
-        // Check all required fields are present
-        expect(payload).toHaveProperty("survey_id", "payload_test");
-        expect(payload).toHaveProperty("subject_id", "user_123");
-        expect(payload).toHaveProperty("score", 10);
-        expect(payload).toHaveProperty("comment", "Excellent!");
-        expect(payload).toHaveProperty("timestamp");
-
-        // Timestamp should be valid ISO string
-        expect(new Date(payload.timestamp).toISOString()).toBe(
-          payload.timestamp,
+        // Check the envelope and all required data fields are present
+        expect(payload).toHaveProperty("id");
+        expect(payload).toHaveProperty("type", "response.created");
+        expect(payload).toHaveProperty("version", 1);
+        expect(payload.data).toHaveProperty("survey_id", "payload_test");
+        expect(payload.data).toHaveProperty("subject_id", "user_123");
+        expect(payload.data).toHaveProperty("score", 10);
+        expect(payload.data).toHaveProperty("comment", "Excellent!");
+
+        // created_at should be valid ISO string
+        expect(new Date(payload.created_at).toISOString()).toBe(
+          payload.created_at,
         );
       });
     });
@@ -1,55 +1,94 @@
-import type { WebhookPayload, WebhookQueueItem } from "./webhooks";
+import { hostname } from "node:os";
+import type { WebhookQueueItem } from "./webhooks";
 import {
-  getPendingWebhooks,
-  getRetryWebhooks,
+  buildWebhookEvent,
+  claimWebhooks,
+  DEFAULT_WEBHOOK_LEASE_SECONDS,
+  getDeliverySigning,
+  MIN_WEBHOOK_LEASE_SECONDS,
   markWebhookProcessing,
+  reclaimExpiredWebhookLeases,
   sendWebhook,
   updateWebhookAfterAttempt,
 } from "./webhooks";
 
+export interface WebhookWorkerOptions {
+  batchSize: number; // Most deliveries sent per cycle
+  concurrency: number; // Deliveries claimed and sent at once
+  leaseSeconds: number;
+}
+
+const parsePositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
 /**
- * Global worker state
+ * Read worker options from the environment, falling back to defaults
  */
-let workerInterval: Timer | null = null;
-let isProcessing = false;
+export const getWebhookWorkerOptions = (): WebhookWorkerOptions => ({
+  batchSize: parsePositiveInt(process.env.WEBHOOK_WORKER_BATCH_SIZE, 20),
+  concurrency: parsePositiveInt(process.env.WEBHOOK_WORKER_CONCURRENCY, 5),
+  leaseSeconds: parsePositiveInt(
+    process.env.WEBHOOK_WORKER_LEASE_SECONDS,
+    DEFAULT_WEBHOOK_LEASE_SECONDS,
+  ),
+});
 
 /**
- * Process a single webhook item
- * Exported for testing purposes
+ * Refuse a lease too short to cover a send, since another worker would then
+ * pick up deliveries that are still in flight
  */
-export const processWebhookItem = async (
-  item: WebhookQueueItem,
-): Promise<void> => {
-  // Mark as processing to prevent double-processing
-  const marked = await markWebhookProcessing(item.id);
-  if (!marked) {
-    // Another worker picked this up
-    return;
+export const assertWebhookWorkerOptions = (
+  options: WebhookWorkerOptions,
+): void => {
+  if (options.leaseSeconds < MIN_WEBHOOK_LEASE_SECONDS) {
+    throw new Error(
+      `WEBHOOK_WORKER_LEASE_SECONDS must be at least ${MIN_WEBHOOK_LEASE_SECONDS}, twice the delivery timeout`,
+    );
   }
+};
 
-  const payload: WebhookPayload = {
-    survey_id: item.survey_id,
-    subject_id: item.subject_id,
-    score: item.score,
-    comment: item.comment,
-    timestamp: new Date().toISOString(),
-  };
+/**
+ * Global worker state
+ * The id marks the rows this process has claimed; isProcessing only stops
+ * this process overlapping its own cycles, claiming is what keeps separate
+ * runners apart. Cycles are started by the webhooks.process_queue job (see
+ * scheduled-jobs.ts).
+ */
+const workerId = `${hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+let isProcessing = false;
+
+/**
+ * Send a delivery this worker has already claimed and record the attempt
+ */
+const deliverClaimedWebhook = async (item: WebhookQueueItem): Promise<void> => {
+  const event = buildWebhookEvent(item);
 
   try {
+    const signing = await getDeliverySigning(item);
     const result = await sendWebhook(
-      payload,
+      event,
       item.webhook_url,
-      item.webhook_secret,
+      signing.secret,
+      signing.options,
     );
 
-    await updateWebhookAfterAttempt(
+    const recorded = await updateWebhookAfterAttempt(
       item.id,
       result.success,
       result.statusCode,
       result.responseBody,
       item.attempts + 1,
+      result,
+      workerId,
     );
 
+    if (!recorded) {
+      console.warn(`Webhook ${item.id} lease lost; attempt not recorded`);
+      return;
+    }
+
     console.log(
       `Webhook ${item.id} ${result.success ? "delivered" : "failed"}: ${result.statusCode}`,
     );
@@ -61,6 +100,8 @@ export const processWebhookItem = async (
       0,
       error instanceof Error ? error.message : "Unknown error",
       item.attempts + 1,
+      { errorClass: "internal_error" },
+      workerId,
     );
 
     console.error(`Webhook ${item.id} processing error:`, error);
@@ -68,75 +109,74 @@ export const processWebhookItem = async (
 };
 
 /**
- * Process webhook queue - handle both pending and retry webhooks
+ * Process a single webhook item
+ * Exported for testing purposes
  */
-export const processWebhookQueue = async (): Promise<void> => {
-  if (isProcessing) {
-    // Prevent overlapping processing cycles
+export const processWebhookItem = async (
+  item: WebhookQueueItem,
+): Promise<void> => {
+  // Mark as processing to prevent double-processing
+  const marked = await markWebhookProcessing(
+    item.id,
+    workerId,
+    getWebhookWorkerOptions().leaseSeconds,
+  );
+  if (!marked) {
+    // Another worker picked this up
     return;
   }
 
-  isProcessing = true;
-
-  try {
-    // Get pending webhooks (new ones ready to be sent)
-    const pendingWebhooks = await getPendingWebhooks(10);
-
-    // Get retry webhooks (failed ones ready for retry)
-    const retryWebhooks = await getRetryWebhooks(10);
-
-    const allWebhooks = [...pendingWebhooks, ...retryWebhooks];
-
-    if (allWebhooks.length > 0) {
-      console.log(`Processing ${allWebhooks.length} webhooks`);
-
-      // Process webhooks concurrently but with limited parallelism
-      const batchSize = 5;
-      for (let i = 0; i < allWebhooks.length; i += batchSize) {
-        const batch = allWebhooks.slice(i, i + batchSize);
-        await Promise.allSettled(batch.map(processWebhookItem));
-      }
-    }
-  } catch (error) {
-    console.error("Error processing webhook queue:", error);
-  } finally {
-    isProcessing = false;
-  }
+  await deliverClaimedWebhook(item);
 };
 
-/**
- * Start the webhook queue worker
- * Runs every 10 seconds to check for webhooks to process
- */
-export const startWebhookWorker = (): void => {
-  if (workerInterval) {
-    console.warn("Webhook worker is already running");
-    return;
+const runWebhookCycle = async (
+  options: WebhookWorkerOptions,
+): Promise<number> => {
+  const reclaimed = await reclaimExpiredWebhookLeases();
+  if (reclaimed > 0) {
+    console.log(`Reclaimed ${reclaimed} webhooks with expired leases`);
   }
 
-  console.log("Starting webhook queue worker");
+  // Claim only as many as are sent at once, so a lease never has to cover
+  // time spent waiting behind other deliveries
+  const { batchSize, concurrency, leaseSeconds } = options;
+  let processed = 0;
+  while (processed < batchSize) {
+    const claimed = await claimWebhooks(
+      workerId,
+      Math.min(concurrency, batchSize - processed),
+      leaseSeconds,
+    );
+    if (claimed.length === 0) break;
 
-  // Process immediately on startup
-  processWebhookQueue().catch((error) => {
-    console.error("Initial webhook queue processing failed:", error);
-  });
+    console.log(`Processing ${claimed.length} webhooks`);
+    await Promise.allSettled(claimed.map(deliverClaimedWebhook));
+    processed += claimed.length;
+  }
 
-  // Then process every 10 seconds
-  workerInterval = setInterval(() => {
-    processWebhookQueue().catch((error) => {
-      console.error("Webhook queue processing failed:", error);
-    });
-  }, 10_000);
+  return processed;
 };
 
 /**
- * Stop the webhook queue worker
+ * Process webhook queue - handle both pending and retry webhooks
+ * Returns how many deliveries were attempted
  */
-export const stopWebhookWorker = (): void => {
-  if (workerInterval) {
-    clearInterval(workerInterval);
-    workerInterval = null;
-    console.log("Webhook queue worker stopped");
+export const processWebhookQueue = async (
+  options: WebhookWorkerOptions = getWebhookWorkerOptions(),
+): Promise<number> => {
+  if (isProcessing) {
+    // Prevent overlapping processing cycles
+    return 0;
+  }
+
+  isProcessing = true;
+  try {
+    return await runWebhookCycle(options);
+  } catch (error) {
+    console.error("Error processing webhook queue:", error);
+    return 0;
+  } finally {
+    isProcessing = false;
   }
 };
 
@@ -144,11 +184,11 @@ export const stopWebhookWorker = (): void => {
  * Get worker status for debugging
  */
 export const getWorkerStatus = (): {
-  running: boolean;
+  workerId: string;
   processing: boolean;
 } => {
   return {
-    running: workerInterval !== null,
+    workerId,
     processing: isProcessing,
   };
 };
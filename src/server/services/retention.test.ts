@@ -0,0 +1,332 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { randomUUID } from "node:crypto";
+import { SQL } from "bun";
+import { cleanupTestData, createTestBusiness } from "../test-utils/helpers";
+import { createTestWebhook } from "../test-utils/webhooks";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("./database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import { listAuditEntries } from "./audit";
+import {
+  applyRetentionPolicies,
+  getBusinessRetentionPolicy,
+  getLastRetentionPurge,
+  listSurveyRetentionPolicies,
+  purgeBusinessData,
+  purgeExpiredData,
+  setRetentionPolicy,
+} from "./retention";
+
+const daysAgo = (days: number) =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+describe("Retention Service", () => {
+  let businessId: string;
+  let surveyId: string;
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    businessId = await createTestBusiness(connection);
+    surveyId = randomUUID();
+    await connection`
+      INSERT INTO surveys (id, business_id, survey_id, title)
+      VALUES (${surveyId}, ${businessId}, 'retention-survey', 'Retention Survey')
+    `;
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  const createLinkSet = async (subjectId: string, expiresAt: Date) => {
+    const ids: string[] = [];
+    for (const score of [0, 5, 10]) {
+      const id = randomUUID();
+      await connection`
+        INSERT INTO survey_links (id, token, survey_id, subject_id, score, expires_at)
+        VALUES (${id}, ${randomUUID()}, ${surveyId}, ${subjectId}, ${score}, ${expiresAt})
+      `;
+      ids.push(id);
+    }
+    return ids;
+  };
+
+  const countLinks = async (subjectId: string) => {
+    const [row] = await connection`
+      SELECT COUNT(*)::int AS count FROM survey_links
+      WHERE subject_id = ${subjectId}
+    `;
+    return row.count;
+  };
+
+  test("purges long-expired links unless their subject responded", async () => {
+    await createLinkSet("expired-unanswered", daysAgo(31));
+    const [answeredLink] = await createLinkSet("expired-answered", daysAgo(31));
+    await connection`
+      INSERT INTO responses (survey_link_id) VALUES (${answeredLink})
+    `;
+    await createLinkSet("recently-expired", daysAgo(5));
+
+    const counts = await purgeExpiredData();
+
+    expect(counts.surveyLinks).toBe(3);
+    expect(await countLinks("expired-unanswered")).toBe(0);
+    expect(await countLinks("expired-answered")).toBe(3);
+    expect(await countLinks("recently-expired")).toBe(3);
+  });
+
+  test("purges old finished webhook deliveries only", async () => {
+    const oldDelivered = await createTestWebhook(businessId, {
+      status: "delivered",
+    });
+    const oldDead = await createTestWebhook(businessId, { status: "dead" });
+    const oldFailed = await createTestWebhook(businessId, { status: "failed" });
+    const recentDelivered = await createTestWebhook(businessId, {
+      status: "delivered",
+    });
+    await connection`
+      UPDATE webhook_queue SET updated_at = ${daysAgo(31)}
+      WHERE id IN ${connection([oldDelivered, oldDead, oldFailed])}
+    `;
+
+    const counts = await purgeExpiredData();
+
+    expect(counts.webhookDeliveries).toBe(2);
+    const remaining: Array<{ id: string }> =
+      await connection`SELECT id FROM webhook_queue`;
+    expect(remaining.map((row) => row.id).sort()).toEqual(
+      [oldFailed, recentDelivered].sort(),
+    );
+  });
+
+  test("purges old finished jobs except the latest run of a schedule", async () => {
+    const [oldJob, latestRun, runningJob] = await connection`
+      INSERT INTO jobs (name, status, finished_at)
+      VALUES
+        ('test.old', 'completed', ${daysAgo(8)}),
+        ('test.scheduled', 'failed', ${daysAgo(8)}),
+        ('test.running', 'running', NULL)
+      RETURNING id
+    `;
+    await connection`
+      INSERT INTO job_schedules (name, schedule, next_run_at, last_job_id)
+      VALUES ('test.scheduled', '0 3 * * *', ${new Date()}, ${latestRun.id})
+    `;
+
+    const counts = await purgeExpiredData();
+
+    expect(counts.jobs).toBe(1);
+    const remaining: Array<{ id: string }> =
+      await connection`SELECT id FROM jobs`;
+    const ids = remaining.map((row) => row.id);
+    expect(ids).not.toContain(oldJob.id);
+    expect(ids).toContain(latestRun.id);
+    expect(ids).toContain(runningJob.id);
+  });
+
+  describe("retention policies", () => {
+    const createResponse = async (
+      subjectId: string,
+      respondedDaysAgo: number,
+      comment: string | null = "Great",
+      survey = surveyId,
+    ) => {
+      const linkId = randomUUID();
+      await connection`
+        INSERT INTO survey_links (id, token, survey_id, subject_id, score, expires_at, created_at)
+        VALUES (
+          ${linkId}, ${randomUUID()}, ${survey}, ${subjectId}, 9,
+          ${daysAgo(respondedDaysAgo - 30)}, ${daysAgo(respondedDaysAgo)}
+        )
+      `;
+      await connection`
+        INSERT INTO responses (survey_link_id, comment, responded_at)
+        VALUES (${linkId}, ${comment}, ${daysAgo(respondedDaysAgo)})
+      `;
+    };
+
+    const getComments = async () => {
+      const rows: Array<{ subject_id: string; comment: string | null }> =
+        await connection`
+          SELECT sl.subject_id, r.comment
+          FROM responses r
+          JOIN survey_links sl ON sl.id = r.survey_link_id
+          ORDER BY sl.subject_id
+        `;
+      return Object.fromEntries(
+        rows.map((row) => [row.subject_id, row.comment]),
+      );
+    };
+
+    test("saves business and survey policies", async () => {
+      await setRetentionPolicy(businessId, null, {
+        comment_retention_days: 90,
+        response_retention_days: null,
+      });
+      await setRetentionPolicy(businessId, surveyId, {
+        comment_retention_days: null,
+        response_retention_days: 730,
+      });
+
+      expect(await getBusinessRetentionPolicy(businessId)).toEqual({
+        comment_retention_days: 90,
+        response_retention_days: null,
+      });
+      const [survey] = await listSurveyRetentionPolicies(businessId);
+      expect(survey.public_survey_id).toBe("retention-survey");
+      expect(survey.response_retention_days).toBe(730);
+
+      // Clearing both settings returns the survey to the business policy
+      await setRetentionPolicy(businessId, surveyId, {
+        comment_retention_days: null,
+        response_retention_days: null,
+      });
+      const [reset] = await listSurveyRetentionPolicies(businessId);
+      expect(reset.response_retention_days).toBeNull();
+
+      const entries = await listAuditEntries(
+        businessId,
+        10,
+        "retention.policy_updated",
+      );
+      expect(entries).toHaveLength(3);
+    });
+
+    test("rejects invalid days and other businesses' surveys", async () => {
+      const otherBusinessId = await createTestBusiness(connection, "Other");
+
+      expect(
+        setRetentionPolicy(businessId, null, {
+          comment_retention_days: 0,
+          response_retention_days: null,
+        }),
+      ).rejects.toThrow("Retention must be a whole number of days");
+      expect(
+        setRetentionPolicy(otherBusinessId, surveyId, {
+          comment_retention_days: 30,
+          response_retention_days: null,
+        }),
+      ).rejects.toThrow("Survey not found");
+    });
+
+    test("clears comments past the business policy", async () => {
+      await setRetentionPolicy(businessId, null, {
+        comment_retention_days: 90,
+        response_retention_days: null,
+      });
+      await createResponse("old", 100);
+      await createResponse("recent", 10);
+      const oldDelivery = await createTestWebhook(businessId, {
+        surveyId: "retention-survey",
+        comment: "Great",
+        status: "delivered",
+      });
+      await connection`
+        UPDATE webhook_queue SET created_at = ${daysAgo(100)}
+        WHERE id = ${oldDelivery}
+      `;
+
+      const counts = await purgeBusinessData(businessId);
+
+      expect(counts.comments_cleared).toBe(1);
+      expect(counts.webhook_comments_cleared).toBe(1);
+      expect(counts.responses_deleted).toBe(0);
+      expect(await getComments()).toEqual({ old: null, recent: "Great" });
+    });
+
+    test("clears follow-up answers with comments", async () => {
+      await setRetentionPolicy(businessId, null, {
+        comment_retention_days: 90,
+        response_retention_days: null,
+      });
+      const followUp = { question: "What mattered most?", answer: "Price" };
+      await createResponse("old", 100, null);
+      await connection`UPDATE responses SET follow_up = ${followUp}`;
+      const oldDelivery = await createTestWebhook(businessId, {
+        surveyId: "retention-survey",
+        status: "delivered",
+      });
+      await connection`
+        UPDATE webhook_queue
+        SET created_at = ${daysAgo(100)}, follow_up = ${followUp}
+        WHERE id = ${oldDelivery}
+      `;
+
+      const counts = await purgeBusinessData(businessId);
+
+      expect(counts.comments_cleared).toBe(1);
+      expect(counts.webhook_comments_cleared).toBe(1);
+      const [response] = await connection`SELECT follow_up FROM responses`;
+      expect(response.follow_up).toBeNull();
+      const [delivery] = await connection`
+        SELECT follow_up FROM webhook_queue WHERE id = ${oldDelivery}
+      `;
+      expect(delivery.follow_up).toBeNull();
+    });
+
+    test("deletes response data past a survey override", async () => {
+      const otherSurveyId = randomUUID();
+      await connection`
+        INSERT INTO surveys (id, business_id, survey_id, title)
+        VALUES (${otherSurveyId}, ${businessId}, 'kept-survey', 'Kept Survey')
+      `;
+      await setRetentionPolicy(businessId, surveyId, {
+        comment_retention_days: null,
+        response_retention_days: 365,
+      });
+      await createResponse("expired", 400);
+      await createResponse("kept", 100);
+      await createResponse("other-survey", 400, "Great", otherSurveyId);
+      const oldDelivery = await createTestWebhook(businessId, {
+        surveyId: "retention-survey",
+        status: "delivered",
+      });
+      await connection`
+        UPDATE webhook_queue SET created_at = ${daysAgo(400)}
+        WHERE id = ${oldDelivery}
+      `;
+
+      const counts = await purgeBusinessData(businessId);
+
+      expect(counts).toEqual({
+        comments_cleared: 0,
+        responses_deleted: 1,
+        survey_links_deleted: 1,
+        webhook_comments_cleared: 0,
+        webhook_deliveries_deleted: 1,
+      });
+      expect(Object.keys(await getComments())).toEqual([
+        "kept",
+        "other-survey",
+      ]);
+
+      const lastPurge = await getLastRetentionPurge(businessId);
+      expect(lastPurge?.details.responses_deleted).toBe(1);
+    });
+
+    test("purges only businesses with a policy", async () => {
+      const otherBusinessId = await createTestBusiness(connection, "Other");
+      await setRetentionPolicy(businessId, null, {
+        comment_retention_days: 30,
+        response_retention_days: null,
+      });
+
+      expect(await applyRetentionPolicies()).toEqual({
+        businesses: 1,
+        failed: 0,
+      });
+      expect(await getLastRetentionPurge(businessId)).not.toBeNull();
+      expect(await getLastRetentionPurge(otherBusinessId)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,369 @@
+import {
+  type AuditEntry,
+  listAuditEntries,
+  recordAuditEntry,
+  recordAuditEntryInTransaction,
+} from "./audit";
+import { db } from "./database";
+
+// How long data is kept once nothing needs it any more
+export const EXPIRED_LINK_RETENTION_DAYS = 30;
+export const WEBHOOK_QUEUE_RETENTION_DAYS = 30;
+export const FINISHED_JOB_RETENTION_DAYS = 7;
+
+export interface PurgeCounts {
+  surveyLinks: number;
+  webhookDeliveries: number;
+  jobs: number;
+}
+
+/**
+ * Delete data that has outlived its use
+ * - Survey links that expired long ago, unless their subject responded;
+ *   responses belong to a link, so answered link sets are kept
+ * - Delivered and dead webhook deliveries, with their attempts
+ * - Finished jobs
+ */
+export const purgeExpiredData = async (): Promise<PurgeCounts> => {
+  const surveyLinks = await db`
+    DELETE FROM survey_links sl
+    WHERE sl.expires_at < CURRENT_TIMESTAMP - ${EXPIRED_LINK_RETENTION_DAYS}::int * INTERVAL '1 day'
+      AND NOT EXISTS (
+        SELECT 1
+        FROM survey_links answered
+        JOIN responses r ON r.survey_link_id = answered.id
+        WHERE answered.survey_id = sl.survey_id
+          AND answered.subject_id = sl.subject_id
+      )
+    RETURNING sl.id
+  `;
+
+  const webhookDeliveries = await db`
+    DELETE FROM webhook_queue
+    WHERE status IN ('delivered', 'dead')
+      AND updated_at < CURRENT_TIMESTAMP - ${WEBHOOK_QUEUE_RETENTION_DAYS}::int * INTERVAL '1 day'
+    RETURNING id
+  `;
+
+  const jobs = await db`
+    DELETE FROM jobs
+    WHERE status IN ('completed', 'failed')
+      AND finished_at < CURRENT_TIMESTAMP - ${FINISHED_JOB_RETENTION_DAYS}::int * INTERVAL '1 day'
+      AND NOT EXISTS (SELECT 1 FROM job_schedules WHERE last_job_id = jobs.id)
+    RETURNING id
+  `;
+
+  return {
+    surveyLinks: surveyLinks.length,
+    webhookDeliveries: webhookDeliveries.length,
+    jobs: jobs.length,
+  };
+};
+
+export const MAX_RETENTION_DAYS = 3650;
+
+export const RETENTION_PURGE_ACTION = "retention.purged";
+
+export interface RetentionPolicy {
+  comment_retention_days: number | null; // Comments and follow-up answers are cleared after this
+  response_retention_days: number | null; // Responses and links are deleted after this
+}
+
+export interface SurveyRetentionPolicy extends RetentionPolicy {
+  survey_id: string; // Internal survey UUID
+  public_survey_id: string;
+  title: string;
+}
+
+export interface RetentionPurgeCounts {
+  comments_cleared: number;
+  responses_deleted: number;
+  survey_links_deleted: number;
+  webhook_comments_cleared: number;
+  webhook_deliveries_deleted: number;
+}
+
+const daysAgo = (days: number) =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+const NO_POLICY: RetentionPolicy = {
+  comment_retention_days: null,
+  response_retention_days: null,
+};
+
+/**
+ * Get the business-wide retention policy; nulls keep data forever
+ */
+export const getBusinessRetentionPolicy = async (
+  businessId: string,
+): Promise<RetentionPolicy> => {
+  const [policy] = await db`
+    SELECT comment_retention_days, response_retention_days
+    FROM retention_policies
+    WHERE business_id = ${businessId} AND survey_id IS NULL
+  `;
+
+  return (policy as RetentionPolicy) ?? NO_POLICY;
+};
+
+/**
+ * List every survey with its own retention settings; nulls inherit the
+ * business policy
+ */
+export const listSurveyRetentionPolicies = async (
+  businessId: string,
+): Promise<SurveyRetentionPolicy[]> => {
+  const result = await db`
+    SELECT
+      s.id AS survey_id,
+      s.survey_id AS public_survey_id,
+      s.title,
+      rp.comment_retention_days,
+      rp.response_retention_days
+    FROM surveys s
+    LEFT JOIN retention_policies rp ON rp.survey_id = s.id
+    WHERE s.business_id = ${businessId}
+    ORDER BY s.created_at DESC
+  `;
+
+  return result as SurveyRetentionPolicy[];
+};
+
+const validateRetentionDays = (days: number | null) => {
+  if (
+    days !== null &&
+    (!Number.isInteger(days) || days < 1 || days > MAX_RETENTION_DAYS)
+  ) {
+    throw new Error(
+      `Retention must be a whole number of days between 1 and ${MAX_RETENTION_DAYS}`,
+    );
+  }
+};
+
+/**
+ * Set the retention policy for a business, or for one of its surveys
+ * Clearing both settings on a survey returns it to the business policy.
+ */
+export const setRetentionPolicy = async (
+  businessId: string,
+  surveyId: string | null,
+  policy: RetentionPolicy,
+  userId: string | null = null,
+): Promise<void> => {
+  validateRetentionDays(policy.comment_retention_days);
+  validateRetentionDays(policy.response_retention_days);
+
+  let publicSurveyId: string | null = null;
+  if (surveyId) {
+    const [survey] = await db`
+      SELECT survey_id FROM surveys
+      WHERE id = ${surveyId} AND business_id = ${businessId}
+    `;
+    if (!survey) {
+      throw new Error("Survey not found");
+    }
+    publicSurveyId = survey.survey_id;
+  }
+
+  const { comment_retention_days, response_retention_days } = policy;
+
+  if (comment_retention_days === null && response_retention_days === null) {
+    await db`
+      DELETE FROM retention_policies
+      WHERE business_id = ${businessId}
+        AND survey_id IS NOT DISTINCT FROM ${surveyId}::uuid
+    `;
+  } else if (surveyId) {
+    await db`
+      INSERT INTO retention_policies (
+        business_id, survey_id, comment_retention_days, response_retention_days
+      )
+      VALUES (
+        ${businessId}, ${surveyId}, ${comment_retention_days}, ${response_retention_days}
+      )
+      ON CONFLICT (survey_id) WHERE survey_id IS NOT NULL DO UPDATE
+      SET
+        comment_retention_days = EXCLUDED.comment_retention_days,
+        response_retention_days = EXCLUDED.response_retention_days,
+        updated_at = CURRENT_TIMESTAMP
+    `;
+  } else {
+    await db`
+      INSERT INTO retention_policies (
+        business_id, comment_retention_days, response_retention_days
+      )
+      VALUES (${businessId}, ${comment_retention_days}, ${response_retention_days})
+      ON CONFLICT (business_id) WHERE survey_id IS NULL DO UPDATE
+      SET
+        comment_retention_days = EXCLUDED.comment_retention_days,
+        response_retention_days = EXCLUDED.response_retention_days,
+        updated_at = CURRENT_TIMESTAMP
+    `;
+  }
+
+  await recordAuditEntry(
+    businessId,
+    "retention.policy_updated",
+    {
+      survey_id: publicSurveyId,
+      comment_retention_days,
+      response_retention_days,
+    },
+    userId,
+  );
+};
+
+/**
+ * Get the audit entry for the latest purge of a business, if any
+ */
+export const getLastRetentionPurge = async (
+  businessId: string,
+): Promise<AuditEntry | null> => {
+  const [entry] = await listAuditEntries(businessId, 1, RETENTION_PURGE_ACTION);
+  return entry ?? null;
+};
+
+/**
+ * Apply a business's retention policies to its surveys in one transaction
+ * A survey setting wins over the business one. Comments are cleared from
+ * responses and from webhook deliveries; deleting responses also deletes
+ * their link sets and webhook deliveries. Link sets with a response still
+ * inside the window are kept whole. Deliveries being sent are left alone.
+ */
+export const purgeBusinessData = async (
+  businessId: string,
+): Promise<RetentionPurgeCounts> => {
+  return await db.begin(async (tx) => {
+    const surveys = await tx`
+      SELECT
+        s.id,
+        s.survey_id,
+        COALESCE(sp.comment_retention_days, bp.comment_retention_days) AS comment_days,
+        COALESCE(sp.response_retention_days, bp.response_retention_days) AS response_days
+      FROM surveys s
+      LEFT JOIN retention_policies bp
+        ON bp.business_id = s.business_id AND bp.survey_id IS NULL
+      LEFT JOIN retention_policies sp ON sp.survey_id = s.id
+      WHERE s.business_id = ${businessId}
+    `;
+
+    const counts: RetentionPurgeCounts = {
+      comments_cleared: 0,
+      responses_deleted: 0,
+      survey_links_deleted: 0,
+      webhook_comments_cleared: 0,
+      webhook_deliveries_deleted: 0,
+    };
+
+    for (const survey of surveys) {
+      if (survey.response_days !== null) {
+        const cutoff = daysAgo(survey.response_days);
+
+        const responses = await tx`
+          DELETE FROM responses r
+          USING survey_links sl
+          WHERE r.survey_link_id = sl.id
+            AND sl.survey_id = ${survey.id}
+            AND r.responded_at < ${cutoff}
+          RETURNING r.id
+        `;
+
+        // Responses always follow their link, so a set created before the
+        // cutoff only survives through a response that is still kept
+        const links = await tx`
+          DELETE FROM survey_links sl
+          WHERE sl.survey_id = ${survey.id}
+            AND sl.created_at < ${cutoff}
+            AND NOT EXISTS (
+              SELECT 1
+              FROM survey_links answered
+              JOIN responses r ON r.survey_link_id = answered.id
+              WHERE answered.survey_id = sl.survey_id
+                AND answered.subject_id = sl.subject_id
+            )
+          RETURNING sl.id
+        `;
+
+        const deliveries = await tx`
+          DELETE FROM webhook_queue
+          WHERE business_id = ${businessId}
+            AND survey_id = ${survey.survey_id}
+            AND created_at < ${cutoff}
+            AND status <> 'processing'
+          RETURNING id
+        `;
+
+        counts.responses_deleted += responses.length;
+        counts.survey_links_deleted += links.length;
+        counts.webhook_deliveries_deleted += deliveries.length;
+      }
+
+      if (survey.comment_days !== null) {
+        const cutoff = daysAgo(survey.comment_days);
+
+        const comments = await tx`
+          UPDATE responses r
+          SET comment = NULL, follow_up = NULL
+          FROM survey_links sl
+          WHERE r.survey_link_id = sl.id
+            AND sl.survey_id = ${survey.id}
+            AND (r.comment IS NOT NULL OR r.follow_up IS NOT NULL)
+            AND r.responded_at < ${cutoff}
+          RETURNING r.id
+        `;
+
+        const webhookComments = await tx`
+          UPDATE webhook_queue
+          SET comment = NULL, follow_up = NULL, updated_at = CURRENT_TIMESTAMP
+          WHERE business_id = ${businessId}
+            AND survey_id = ${survey.survey_id}
+            AND (comment IS NOT NULL OR follow_up IS NOT NULL)
+            AND created_at < ${cutoff}
+            AND status <> 'processing'
+          RETURNING id
+        `;
+
+        counts.comments_cleared += comments.length;
+        counts.webhook_comments_cleared += webhookComments.length;
+      }
+    }
+
+    await recordAuditEntryInTransaction(
+      tx,
+      businessId,
+      RETENTION_PURGE_ACTION,
+      { ...counts },
+    );
+
+    return counts;
+  });
+};
+
+/**
+ * Apply retention policies for every business that has one
+ * Each business is purged and audit-logged separately, so one failure does
+ * not hold back the rest. Returns how many businesses were purged.
+ */
+export const applyRetentionPolicies = async (): Promise<{
+  businesses: number;
+  failed: number;
+}> => {
+  const businesses = await db`
+    SELECT DISTINCT business_id FROM retention_policies
+  `;
+
+  let failed = 0;
+  for (const { business_id } of businesses) {
+    try {
+      await purgeBusinessData(business_id);
+    } catch (error) {
+      failed++;
+      console.error(
+        `Retention purge failed for business ${business_id}:`,
+        error,
+      );
+    }
+  }
+
+  return { businesses: businesses.length - failed, failed };
+};
@@ -0,0 +1,66 @@
+import { cleanupExpired } from "./auth";
+import { defineJob, enqueueJob } from "./jobs";
+import {
+  assertWebhookWorkerOptions,
+  getWebhookWorkerOptions,
+  processWebhookQueue,
+} from "./queue-worker";
+import { applyRetentionPolicies, purgeExpiredData } from "./retention";
+import { expireWebhookSecrets } from "./webhooks";
+
+export const WEBHOOK_QUEUE_JOB = "webhooks.process_queue";
+export const WEBHOOK_SECRETS_JOB = "webhooks.expire_secrets";
+export const AUTH_CLEANUP_JOB = "auth.cleanup_expired";
+export const DATA_RETENTION_JOB = "data.retention";
+
+/**
+ * Register the background jobs every runner carries out
+ * Call before startJobRunner so their schedules are synced. Throws when the
+ * webhook worker options are unsafe, so a runner fails at startup rather
+ * than on its first delivery.
+ */
+export const registerScheduledJobs = (): void => {
+  assertWebhookWorkerOptions(getWebhookWorkerOptions());
+
+  // Runs overlap so several runners can deliver side by side, each claiming
+  // its own deliveries. A run that fills its batch queues another straight
+  // away, so a backlog is picked up by the next free runner rather than
+  // waiting for the schedule.
+  defineJob({
+    name: WEBHOOK_QUEUE_JOB,
+    schedule: "@every 10s",
+    overlap: true,
+    maxAttempts: 1,
+    handler: async () => {
+      const options = getWebhookWorkerOptions();
+      const processed = await processWebhookQueue(options);
+      if (processed >= options.batchSize) {
+        await enqueueJob(WEBHOOK_QUEUE_JOB);
+      }
+      return { processed };
+    },
+  });
+
+  defineJob({
+    name: WEBHOOK_SECRETS_JOB,
+    schedule: "@every 1m",
+    handler: async () => ({ expired: await expireWebhookSecrets() }),
+  });
+
+  defineJob({
+    name: AUTH_CLEANUP_JOB,
+    schedule: "0 * * * *",
+    handler: async () => {
+      await cleanupExpired();
+    },
+  });
+
+  defineJob({
+    name: DATA_RETENTION_JOB,
+    schedule: "30 3 * * *",
+    handler: async () => ({
+      expired: await purgeExpiredData(),
+      policies: await applyRetentionPolicies(),
+    }),
+  });
+};
@@ -0,0 +1,223 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { randomUUID } from "node:crypto";
+import { SQL } from "bun";
+import { cleanupTestData, createTestBusiness } from "../test-utils/helpers";
+import { createTestWebhook } from "../test-utils/webhooks";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL is required for tests");
+}
+const connection = new SQL(process.env.DATABASE_URL);
+
+mock.module("./database", () => ({
+  get db() {
+    return connection;
+  },
+}));
+
+import { listAuditEntries } from "./audit";
+import {
+  eraseSubjectData,
+  exportSubjectData,
+  verifyErasureReceipt,
+} from "./subjects";
+
+describe("Subjects Service", () => {
+  let businessId: string;
+  let surveyId: string;
+  let otherSurveyId: string;
+
+  const createSurvey = async (publicId: string) => {
+    const id = randomUUID();
+    await connection`
+      INSERT INTO surveys (id, business_id, survey_id, title)
+      VALUES (${id}, ${businessId}, ${publicId}, ${publicId})
+    `;
+    return id;
+  };
+
+  // Mints a link set and answers it with the top score
+  const createResponse = async (
+    survey: string,
+    subjectId: string,
+    comment: string | null = null,
+  ) => {
+    let answered = "";
+    for (const score of [0, 5, 10]) {
+      const id = randomUUID();
+      await connection`
+        INSERT INTO survey_links (id, token, survey_id, subject_id, score, expires_at)
+        VALUES (${id}, ${randomUUID()}, ${survey}, ${subjectId}, ${score}, ${new Date(Date.now() + 86400000)})
+      `;
+      answered = id;
+    }
+    await connection`
+      INSERT INTO responses (survey_link_id, comment)
+      VALUES (${answered}, ${comment})
+    `;
+  };
+
+  const createMintedEvent = async (subjectIds: string[], status: string) => {
+    const [row] = await connection`
+      INSERT INTO webhook_queue (
+        business_id, survey_id, event_type, payload, webhook_url,
+        webhook_secret, scheduled_for, status
+      )
+      VALUES (
+        ${businessId}, 'subject-survey', 'links.minted',
+        ${{ survey_id: "subject-survey", subject_ids: subjectIds, expires_at: null }},
+        'http://localhost:9999', 'test_secret', CURRENT_TIMESTAMP, ${status}
+      )
+      RETURNING id
+    `;
+    return row.id as string;
+  };
+
+  beforeEach(async () => {
+    await cleanupTestData(connection);
+    businessId = await createTestBusiness(connection);
+    surveyId = await createSurvey("subject-survey");
+    otherSurveyId = await createSurvey("other-survey");
+  });
+
+  afterAll(async () => {
+    await connection.end();
+    mock.restore();
+  });
+
+  test("exports links, responses and webhook history for a subject", async () => {
+    await createResponse(surveyId, "user-1", "Great service");
+    await createResponse(otherSurveyId, "user-1");
+    await createResponse(surveyId, "user-2");
+    const deliveryId = await createTestWebhook(businessId, {
+      surveyId: "subject-survey",
+      subjectId: "user-1",
+      comment: "Great service",
+      status: "delivered",
+    });
+    await connection`
+      INSERT INTO webhook_attempts (queue_id, status_code)
+      VALUES (${deliveryId}, 200)
+    `;
+    await createMintedEvent(["user-1", "user-2"], "delivered");
+
+    const data = await exportSubjectData(businessId, "user-1");
+
+    expect(data.subject_id).toBe("user-1");
+    expect(data.survey_id).toBeNull();
+    expect(data.links).toHaveLength(6);
+    expect(data.links[0].url).toContain("/r/");
+    expect(data.responses).toHaveLength(2);
+    expect(data.responses.map((r) => r.comment)).toContain("Great service");
+    expect(data.webhook_deliveries).toHaveLength(2);
+    const delivery = data.webhook_deliveries.find((d) => d.id === deliveryId);
+    expect(delivery?.attempts).toHaveLength(1);
+    expect(delivery?.attempts[0].status_code).toBe(200);
+  });
+
+  test("scopes an export to one survey", async () => {
+    await createResponse(surveyId, "user-1");
+    await createResponse(otherSurveyId, "user-1");
+
+    const data = await exportSubjectData(businessId, "user-1", "other-survey");
+
+    expect(data.survey_id).toBe("other-survey");
+    expect(data.links).toHaveLength(3);
+    expect(data.responses).toHaveLength(1);
+    expect(data.responses[0].survey_id).toBe("other-survey");
+  });
+
+  test("rejects surveys of other businesses", async () => {
+    const otherBusiness = await createTestBusiness(connection, "Other");
+
+    await expect(
+      exportSubjectData(otherBusiness, "user-1", "subject-survey"),
+    ).rejects.toThrow("Survey not found");
+    await expect(
+      eraseSubjectData(otherBusiness, "user-1", "subject-survey"),
+    ).rejects.toThrow("Survey not found");
+  });
+
+  test("erases the subject and cancels pending deliveries", async () => {
+    await createResponse(surveyId, "user-1", "Please forget me");
+    await createResponse(surveyId, "user-2");
+    await createTestWebhook(businessId, {
+      surveyId: "subject-survey",
+      subjectId: "user-1",
+      status: "delivered",
+    });
+    await createTestWebhook(businessId, {
+      surveyId: "subject-survey",
+      subjectId: "user-1",
+      status: "pending",
+    });
+    const kept = await createTestWebhook(businessId, {
+      surveyId: "subject-survey",
+      subjectId: "user-2",
+      status: "pending",
+    });
+    const shared = await createMintedEvent(["user-1", "user-2"], "pending");
+    await createMintedEvent(["user-1"], "pending");
+
+    const receipt = await eraseSubjectData(businessId, "user-1", null, null);
+
+    expect(receipt.responses_deleted).toBe(1);
+    expect(receipt.survey_links_deleted).toBe(3);
+    expect(receipt.webhook_deliveries_deleted).toBe(1);
+    expect(receipt.webhook_deliveries_cancelled).toBe(2);
+    expect(verifyErasureReceipt(receipt)).toBe(true);
+
+    const data = await exportSubjectData(businessId, "user-1");
+    expect(data.links).toHaveLength(0);
+    expect(data.responses).toHaveLength(0);
+    expect(data.webhook_deliveries).toHaveLength(0);
+
+    const remaining: Array<{ id: string; payload: { subject_ids: string[] } }> =
+      await connection`SELECT id, payload FROM webhook_queue ORDER BY id`;
+    expect(remaining.map((row) => row.id).sort()).toEqual(
+      [kept, shared].sort(),
+    );
+    const sharedRow = remaining.find((row) => row.id === shared);
+    expect(sharedRow?.payload.subject_ids).toEqual(["user-2"]);
+
+    const other = await exportSubjectData(businessId, "user-2");
+    expect(other.responses).toHaveLength(1);
+  });
+
+  test("erases only the scoped survey", async () => {
+    await createResponse(surveyId, "user-1");
+    await createResponse(otherSurveyId, "user-1");
+
+    const receipt = await eraseSubjectData(
+      businessId,
+      "user-1",
+      "other-survey",
+    );
+
+    expect(receipt.survey_id).toBe("other-survey");
+    expect(receipt.responses_deleted).toBe(1);
+    const data = await exportSubjectData(businessId, "user-1");
+    expect(data.responses).toHaveLength(1);
+    expect(data.responses[0].survey_id).toBe("subject-survey");
+  });
+
+  test("audit-logs erasures without the raw subject_id", async () => {
+    await createResponse(surveyId, "user-1");
+
+    const receipt = await eraseSubjectData(businessId, "user-1");
+
+    const [entry] = await listAuditEntries(businessId, 1, "subject.erased");
+    expect(entry.details.receipt_id).toBe(receipt.id);
+    expect(entry.details.responses_deleted).toBe(1);
+    expect(JSON.stringify(entry.details)).not.toContain("user-1");
+  });
+
+  test("rejects altered receipts", async () => {
+    const receipt = await eraseSubjectData(businessId, "user-1");
+
+    expect(verifyErasureReceipt({ ...receipt, responses_deleted: 5 })).toBe(
+      false,
+    );
+    expect(verifyErasureReceipt({ ...receipt, signature: "00" })).toBe(false);
+  });
+});
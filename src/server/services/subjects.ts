@@ -0,0 +1,348 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { computeHMAC } from "../utils/crypto";
+import type { FollowUpAnswer } from "../utils/follow-up";
+import { recordAuditEntryInTransaction } from "./audit";
+import { db } from "./database";
+
+export interface SubjectExport {
+  subject_id: string;
+  survey_id: string | null; // Public survey_id the export is limited to
+  exported_at: string;
+  links: Array<{
+    survey_id: string;
+    score: number;
+    url: string;
+    expires_at: string;
+    created_at: string;
+  }>;
+  responses: Array<{
+    id: string;
+    survey_id: string;
+    score: number;
+    comment: string | null;
+    follow_up: FollowUpAnswer | null;
+    responded_at: string;
+  }>;
+  webhook_deliveries: Array<{
+    id: string;
+    event_id: string;
+    event_type: string;
+    survey_id: string;
+    url: string | null;
+    status: string;
+    created_at: string;
+    attempts: Array<{
+      status_code: number;
+      error_class: string | null;
+      attempted_at: string;
+    }>;
+  }>;
+}
+
+export interface ErasureReceipt {
+  id: string;
+  business_id: string;
+  subject_id: string;
+  survey_id: string | null; // Public survey_id the erasure was limited to
+  erased_at: string;
+  survey_links_deleted: number;
+  responses_deleted: number;
+  webhook_deliveries_deleted: number; // Sent deliveries removed from history
+  webhook_deliveries_cancelled: number; // Deliveries that will never be sent
+  signature: string; // HMAC-SHA256 of every other field, hex
+}
+
+// Deliveries not yet sent for good; erasing cancels them
+const UNSENT_STATUSES = ["pending", "processing", "failed", "held", "paused"];
+
+/**
+ * Resolve the optional public survey_id a request is limited to
+ */
+const resolveSurveyScope = async (
+  businessId: string,
+  surveyId: string | null,
+): Promise<{ id: string; survey_id: string } | null> => {
+  if (!surveyId) return null;
+
+  const [survey] = await db`
+    SELECT id, survey_id FROM surveys
+    WHERE business_id = ${businessId} AND survey_id = ${surveyId}
+  `;
+  if (!survey) {
+    throw new Error("Survey not found");
+  }
+
+  return survey;
+};
+
+/**
+ * Collect everything held about a subject: links, responses with their
+ * comments, and webhook deliveries with every attempt
+ * Deliveries include links.minted events that listed the subject.
+ */
+export const exportSubjectData = async (
+  businessId: string,
+  subjectId: string,
+  surveyId: string | null = null,
+): Promise<SubjectExport> => {
+  const survey = await resolveSurveyScope(businessId, surveyId);
+  const surveyPk = survey?.id ?? null;
+  const baseUrl = process.env.BASE_URL || "http://localhost:3000";
+
+  const links = await db`
+    SELECT s.survey_id, sl.score, sl.token, sl.expires_at, sl.created_at
+    FROM survey_links sl
+    JOIN surveys s ON s.id = sl.survey_id
+    WHERE s.business_id = ${businessId}
+      AND sl.subject_id = ${subjectId}
+      AND (${surveyPk}::uuid IS NULL OR s.id = ${surveyPk})
+    ORDER BY sl.created_at ASC, s.survey_id ASC, sl.score ASC
+  `;
+
+  const responses = await db`
+    SELECT r.id, s.survey_id, sl.score, r.comment, r.follow_up, r.responded_at
+    FROM responses r
+    JOIN survey_links sl ON sl.id = r.survey_link_id
+    JOIN surveys s ON s.id = sl.survey_id
+    WHERE s.business_id = ${businessId}
+      AND sl.subject_id = ${subjectId}
+      AND (${surveyPk}::uuid IS NULL OR s.id = ${surveyPk})
+    ORDER BY r.responded_at ASC
+  `;
+
+  const deliveries = await db`
+    SELECT id, event_id, event_type, survey_id, webhook_url, status, created_at
+    FROM webhook_queue
+    WHERE business_id = ${businessId}
+      AND (
+        subject_id = ${subjectId}
+        OR payload->'subject_ids' @> jsonb_build_array(${subjectId}::text)
+      )
+      AND (${survey?.survey_id ?? null}::text IS NULL OR survey_id = ${survey?.survey_id ?? null})
+    ORDER BY created_at ASC
+  `;
+
+  const ids = deliveries.map((delivery: { id: string }) => delivery.id);
+  const attempts =
+    ids.length > 0
+      ? await db`
+          SELECT queue_id, status_code, error_class, attempted_at
+          FROM webhook_attempts
+          WHERE queue_id IN ${db(ids)}
+          ORDER BY attempted_at ASC, id ASC
+        `
+      : [];
+
+  return {
+    subject_id: subjectId,
+    survey_id: survey?.survey_id ?? null,
+    exported_at: new Date().toISOString(),
+    links: links.map(
+      (link: {
+        survey_id: string;
+        score: number;
+        token: string;
+        expires_at: Date;
+        created_at: Date;
+      }) => ({
+        survey_id: link.survey_id,
+        score: link.score,
+        url: `${baseUrl}/r/${link.token}`,
+        expires_at: new Date(link.expires_at).toISOString(),
+        created_at: new Date(link.created_at).toISOString(),
+      }),
+    ),
+    responses: responses.map(
+      (response: {
+        id: string;
+        survey_id: string;
+        score: number;
+        comment: string | null;
+        follow_up: FollowUpAnswer | null;
+        responded_at: Date;
+      }) => ({
+        ...response,
+        responded_at: new Date(response.responded_at).toISOString(),
+      }),
+    ),
+    webhook_deliveries: deliveries.map(
+      (delivery: {
+        id: string;
+        event_id: string;
+        event_type: string;
+        survey_id: string;
+        webhook_url: string | null;
+        status: string;
+        created_at: Date;
+      }) => ({
+        id: delivery.id,
+        event_id: delivery.event_id,
+        event_type: delivery.event_type,
+        survey_id: delivery.survey_id,
+        url: delivery.webhook_url,
+        status: delivery.status,
+        created_at: new Date(delivery.created_at).toISOString(),
+        attempts: attempts
+          .filter(
+            (attempt: { queue_id: string }) => attempt.queue_id === delivery.id,
+          )
+          .map(
+            (attempt: {
+              status_code: number;
+              error_class: string | null;
+              attempted_at: Date;
+            }) => ({
+              status_code: attempt.status_code,
+              error_class: attempt.error_class,
+              attempted_at: new Date(attempt.attempted_at).toISOString(),
+            }),
+          ),
+      }),
+    ),
+  };
+};
+
+// Fields in a fixed order, so the signature never depends on key order
+const receiptSigningPayload = (
+  receipt: Omit<ErasureReceipt, "signature">,
+): string =>
+  JSON.stringify([
+    receipt.id,
+    receipt.business_id,
+    receipt.subject_id,
+    receipt.survey_id,
+    receipt.erased_at,
+    receipt.survey_links_deleted,
+    receipt.responses_deleted,
+    receipt.webhook_deliveries_deleted,
+    receipt.webhook_deliveries_cancelled,
+  ]);
+
+/**
+ * Check that a receipt was issued by this ClickNPS install, unaltered
+ */
+export const verifyErasureReceipt = (receipt: ErasureReceipt): boolean => {
+  const expected = Buffer.from(
+    computeHMAC(receiptSigningPayload(receipt)),
+    "hex",
+  );
+  const actual = Buffer.from(receipt.signature ?? "", "hex");
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * Delete everything held about a subject and return a signed receipt
+ * Removes their links and responses, cancels deliveries not yet sent,
+ * deletes sent ones from history and removes them from links.minted
+ * events that listed other subjects too. The audit log keeps the receipt
+ * with a hash of the subject_id rather than the id itself.
+ */
+export const eraseSubjectData = async (
+  businessId: string,
+  subjectId: string,
+  surveyId: string | null = null,
+  userId: string | null = null,
+): Promise<ErasureReceipt> => {
+  const survey = await resolveSurveyScope(businessId, surveyId);
+  const surveyPk = survey?.id ?? null;
+  const publicSurveyId = survey?.survey_id ?? null;
+
+  const counts = await db.begin(async (tx) => {
+    const responses = await tx`
+      DELETE FROM responses r
+      USING survey_links sl, surveys s
+      WHERE r.survey_link_id = sl.id
+        AND sl.survey_id = s.id
+        AND s.business_id = ${businessId}
+        AND sl.subject_id = ${subjectId}
+        AND (${surveyPk}::uuid IS NULL OR s.id = ${surveyPk})
+      RETURNING r.id
+    `;
+
+    const links = await tx`
+      DELETE FROM survey_links sl
+      USING surveys s
+      WHERE sl.survey_id = s.id
+        AND s.business_id = ${businessId}
+        AND sl.subject_id = ${subjectId}
+        AND (${surveyPk}::uuid IS NULL OR s.id = ${surveyPk})
+      RETURNING sl.id
+    `;
+
+    await tx`
+      UPDATE webhook_queue
+      SET
+        payload = jsonb_set(
+          payload, '{subject_ids}', (payload->'subject_ids') - ${subjectId}::text
+        ),
+        updated_at = CURRENT_TIMESTAMP
+      WHERE business_id = ${businessId}
+        AND event_type = 'links.minted'
+        AND payload->'subject_ids' @> jsonb_build_array(${subjectId}::text)
+        AND (${publicSurveyId}::text IS NULL OR survey_id = ${publicSurveyId})
+    `;
+
+    // A links.minted event left with no subjects has nothing to send
+    const cancelled = await tx`
+      DELETE FROM webhook_queue
+      WHERE business_id = ${businessId}
+        AND status IN ${tx(UNSENT_STATUSES)}
+        AND (
+          subject_id = ${subjectId}
+          OR (
+            event_type = 'links.minted'
+            AND jsonb_array_length(payload->'subject_ids') = 0
+          )
+        )
+        AND (${publicSurveyId}::text IS NULL OR survey_id = ${publicSurveyId})
+      RETURNING id
+    `;
+
+    const deliveries = await tx`
+      DELETE FROM webhook_queue
+      WHERE business_id = ${businessId}
+        AND subject_id = ${subjectId}
+        AND (${publicSurveyId}::text IS NULL OR survey_id = ${publicSurveyId})
+      RETURNING id
+    `;
+
+    const result = {
+      survey_links_deleted: links.length,
+      responses_deleted: responses.length,
+      webhook_deliveries_deleted: deliveries.length,
+      webhook_deliveries_cancelled: cancelled.length,
+    };
+
+    const receiptId = randomUUID();
+    await recordAuditEntryInTransaction(
+      tx,
+      businessId,
+      "subject.erased",
+      {
+        receipt_id: receiptId,
+        subject_hash: computeHMAC(`${businessId}:${subjectId}`),
+        survey_id: publicSurveyId,
+        ...result,
+      },
+      userId,
+    );
+
+    return { receiptId, ...result };
+  });
+
+  const { receiptId, ...deleted } = counts;
+  const receipt = {
+    id: receiptId,
+    business_id: businessId,
+    subject_id: subjectId,
+    survey_id: publicSurveyId,
+    erased_at: new Date().toISOString(),
+    ...deleted,
+  };
+
+  return {
+    ...receipt,
+    signature: computeHMAC(receiptSigningPayload(receipt)),
+  };
+};
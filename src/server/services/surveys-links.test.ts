@@ -30,6 +30,7 @@ import {
   findSurveyLinkWithDetails,
   type MintLinksRequest,
   mintSurveyLinks,
+  mintSurveyLinksBatch,
 } from "./surveys";
 
 const getTokenForScore = async (
@@ -135,6 +136,18 @@ describe("Survey Links Service", () => {
       });
     });
 
+    it("should create one link per score on the survey's scale", async () => {
+      const survey = await createSurvey(testBusinessId, "test-survey-csat", {
+        title: "Support CSAT",
+        type: "csat",
+      });
+
+      const result = await mintSurveyLinks(survey, { subject_id: "ticket-42" });
+
+      expect(survey.type).toBe("csat");
+      expect(Object.keys(result.links)).toEqual(["1", "2", "3", "4", "5"]);
+    });
+
     it("should use default TTL of 30 days when not specified", async () => {
       const survey = await createSurvey(testBusinessId, "test-survey-mint-2", {
         title: "Test Survey",
@@ -172,6 +185,49 @@ describe("Survey Links Service", () => {
       expect(timeDiff).toBeLessThan(5000);
     });
 
+    it("should store the mint-time language on every link", async () => {
+      const survey = await createSurvey(testBusinessId, "test-survey-lang", {
+        title: "Test Survey",
+      });
+
+      await mintSurveyLinks(survey, { subject_id: "user-de", lang: "de" });
+      await mintSurveyLinks(survey, { subject_id: "user-any" });
+
+      const dbLinks = await connection`
+        SELECT subject_id, lang FROM survey_links
+        WHERE survey_id = ${survey.id}
+      `;
+      expect(dbLinks).toHaveLength(22);
+      for (const link of dbLinks) {
+        expect(link.lang).toBe(link.subject_id === "user-de" ? "de" : null);
+      }
+    });
+
+    it("should return the stored language with existing links", async () => {
+      const survey = await createSurvey(testBusinessId, "test-survey-relang", {
+        title: "Test Survey",
+      });
+
+      const first = await mintSurveyLinks(survey, {
+        subject_id: "user-de",
+        lang: "de",
+      });
+      const again = await mintSurveyLinks(survey, {
+        subject_id: "user-de",
+        lang: "pt-BR",
+      });
+      const [batched] = await mintSurveyLinksBatch(
+        survey,
+        ["user-de"],
+        30,
+        "en",
+      );
+
+      expect(first.lang).toBe("de");
+      expect(again.lang).toBe("de");
+      expect(batched.lang).toBe("de");
+    });
+
     it("should create unique tokens for each link", async () => {
       const survey = await createSurvey(testBusinessId, "test-survey-mint-4", {
         title: "Test Survey",
@@ -281,11 +337,13 @@ describe("Survey Links Service", () => {
       const firstResult = await mintSurveyLinks(survey, request);
       expect(Object.keys(firstResult.links)).toHaveLength(11);
       expect(firstResult.response).toBeNull();
+      expect(firstResult.created).toBe(true);
 
       // Second minting for same subject should return identical links
       const secondResult = await mintSurveyLinks(survey, request);
       expect(Object.keys(secondResult.links)).toHaveLength(11);
       expect(secondResult.response).toBeNull();
+      expect(secondResult.created).toBe(false);
 
       // Links should be identical
       expect(secondResult.links).toEqual(firstResult.links);
@@ -368,6 +426,121 @@ describe("Survey Links Service", () => {
     });
   });
 
+  describe("mintSurveyLinksBatch", () => {
+    it("should mint 11 links per subject in input order", async () => {
+      const survey = await createSurvey(testBusinessId, "batch-survey", {
+        title: "Batch Survey",
+      });
+
+      const results = await mintSurveyLinksBatch(
+        survey,
+        ["user-b", "user-a", "user-c"],
+        14,
+      );
+
+      expect(results.map((result) => result.subject_id)).toEqual([
+        "user-b",
+        "user-a",
+        "user-c",
+      ]);
+      for (const result of results) {
+        expect(Object.keys(result.links)).toHaveLength(11);
+        expect(result.response).toBeNull();
+      }
+
+      const expectedExpiry = new Date();
+      expectedExpiry.setDate(expectedExpiry.getDate() + 14);
+      const expiresAt = new Date(results[0].expires_at);
+      expect(
+        Math.abs(expiresAt.getTime() - expectedExpiry.getTime()),
+      ).toBeLessThan(60_000);
+
+      const linkCount = await connection`
+        SELECT COUNT(*) as count FROM survey_links WHERE survey_id = ${survey.id}
+      `;
+      expect(Number(linkCount[0].count)).toBe(33);
+    });
+
+    it("should return existing links for subjects that were already minted", async () => {
+      const survey = await createSurvey(testBusinessId, "batch-idempotent", {
+        title: "Batch Idempotent Survey",
+      });
+      const single = await mintSurveyLinks(survey, {
+        subject_id: "existing-user",
+      });
+
+      const results = await mintSurveyLinksBatch(survey, [
+        "existing-user",
+        "new-user",
+        "existing-user",
+      ]);
+
+      expect(results).toHaveLength(2);
+      expect(results[0].links).toEqual(single.links);
+      expect(results[0].expires_at).toBe(single.expires_at);
+      expect(results.map((result) => result.created)).toEqual([false, true]);
+
+      const again = await mintSurveyLinksBatch(survey, ["new-user"]);
+      expect(again[0].links).toEqual(results[1].links);
+      expect(again[0].created).toBe(false);
+
+      const linkCount = await connection`
+        SELECT COUNT(*) as count FROM survey_links WHERE survey_id = ${survey.id}
+      `;
+      expect(Number(linkCount[0].count)).toBe(22);
+    });
+
+    it("should include the response score for subjects who already responded", async () => {
+      const survey = await createSurvey(testBusinessId, "batch-responded", {
+        title: "Batch Responded Survey",
+      });
+      await mintSurveyLinksBatch(survey, ["responder"]);
+
+      const link = await connection`
+        SELECT id FROM survey_links
+        WHERE survey_id = ${survey.id} AND subject_id = 'responder' AND score = 3
+      `;
+      await connection`
+        INSERT INTO responses (id, survey_link_id)
+        VALUES (${randomUUID()}, ${link[0].id})
+      `;
+
+      const results = await mintSurveyLinksBatch(survey, [
+        "responder",
+        "quiet-user",
+      ]);
+
+      expect(results[0].response).toBe(3);
+      expect(results[1].response).toBeNull();
+    });
+
+    it("should mint across multiple insert chunks", async () => {
+      const survey = await createSurvey(testBusinessId, "batch-large", {
+        title: "Batch Large Survey",
+      });
+      const subjectIds = Array.from(
+        { length: 1200 },
+        (_, index) => `subject-${index}`,
+      );
+
+      const results = await mintSurveyLinksBatch(survey, subjectIds);
+
+      expect(results).toHaveLength(1200);
+      const linkCount = await connection`
+        SELECT COUNT(*) as count FROM survey_links WHERE survey_id = ${survey.id}
+      `;
+      expect(Number(linkCount[0].count)).toBe(13200);
+    });
+
+    it("should return an empty list for no subjects", async () => {
+      const survey = await createSurvey(testBusinessId, "batch-empty", {
+        title: "Batch Empty Survey",
+      });
+
+      expect(await mintSurveyLinksBatch(survey, [])).toEqual([]);
+    });
+  });
+
   describe("findSurveyLinkByToken", () => {
     it("should find valid survey link by token", async () => {
       // Create test survey and links
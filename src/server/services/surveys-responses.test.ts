@@ -31,6 +31,7 @@ import {
   getSurveyStats,
   hasExistingResponse,
   hasExistingResponseForSurvey,
+  listResponses,
   type MintLinksRequest,
   mintSurveyLinks,
   recordResponse,
@@ -542,14 +543,18 @@ describe("Survey Responses Service", () => {
       expect(stats1.comment_count).toBe(1);
       expect(stats1.unique_subjects_count).toBe(3);
       expect(stats1.response_rate).toBe(67);
-      expect(stats1.average_nps).toBe(8.5);
+      expect(stats1.score).toBe(50);
+      expect(stats1.promoters).toBe(1);
+      expect(stats1.passives).toBe(1);
+      expect(stats1.detractors).toBe(0);
 
       // Survey 2: 1 response from 2 subjects = 50% response rate
       expect(stats2.response_count).toBe(1);
       expect(stats2.comment_count).toBe(1);
       expect(stats2.unique_subjects_count).toBe(2);
       expect(stats2.response_rate).toBe(50);
-      expect(stats2.average_nps).toBe(5.0);
+      expect(stats2.score).toBe(-100);
+      expect(stats2.detractors).toBe(1);
     });
 
     it("should handle survey with no links minted", async () => {
@@ -568,7 +573,158 @@ describe("Survey Responses Service", () => {
       expect(surveyStats.comment_count).toBe(0);
       expect(surveyStats.unique_subjects_count).toBe(0);
       expect(surveyStats.response_rate).toBeNull();
-      expect(surveyStats.average_nps).toBeNull();
+      expect(surveyStats.score).toBeNull();
+      expect(surveyStats.promoters).toBe(0);
+    });
+  });
+
+  describe("listResponses", () => {
+    // Record a response for a subject at a fixed time
+    const respond = async (
+      surveyUuid: string,
+      subjectId: string,
+      score: number,
+      respondedAt: string,
+      comment?: string,
+    ): Promise<string> => {
+      const link = await connection`
+        SELECT id FROM survey_links
+        WHERE survey_id = ${surveyUuid} AND subject_id = ${subjectId} AND score = ${score}
+      `;
+      const responseId = await recordResponse(link[0].id, comment);
+      await connection`
+        UPDATE responses SET responded_at = ${new Date(respondedAt)}
+        WHERE id = ${responseId}
+      `;
+      return responseId;
+    };
+
+    let surveyA: Awaited<ReturnType<typeof createSurvey>>;
+    let surveyB: Awaited<ReturnType<typeof createSurvey>>;
+
+    beforeEach(async () => {
+      surveyA = await createSurvey(testBusinessId, "list-a", { title: "A" });
+      surveyB = await createSurvey(testBusinessId, "list-b", { title: "B" });
+
+      for (const subject of ["u1", "u2", "u3"]) {
+        await mintSurveyLinks(surveyA, { subject_id: subject });
+      }
+      await mintSurveyLinks(surveyB, { subject_id: "u4" });
+
+      await respond(surveyA.id, "u1", 10, "2025-01-01T10:00:00Z", "Love it");
+      await respond(surveyA.id, "u2", 3, "2025-01-02T10:00:00Z");
+      await respond(surveyA.id, "u3", 7, "2025-01-03T10:00:00Z", "Okay");
+      await respond(surveyB.id, "u4", 9, "2025-01-04T10:00:00Z");
+    });
+
+    it("should list all responses for the business newest first", async () => {
+      const page = await listResponses(testBusinessId);
+
+      expect(page.responses.map((r) => r.subject_id)).toEqual([
+        "u4",
+        "u3",
+        "u2",
+        "u1",
+      ]);
+      expect(page.responses[0].survey_id).toBe("list-b");
+      expect(page.next_cursor).toBeNull();
+    });
+
+    it("should not include responses from other businesses", async () => {
+      const otherBusinessId = await createTestBusiness(connection, "Other");
+
+      const page = await listResponses(otherBusinessId);
+
+      expect(page.responses).toHaveLength(0);
+    });
+
+    it("should filter by survey, score range and comment presence", async () => {
+      const bySurvey = await listResponses(testBusinessId, {
+        survey_id: surveyB.id,
+      });
+      expect(bySurvey.responses.map((r) => r.subject_id)).toEqual(["u4"]);
+
+      const byScore = await listResponses(testBusinessId, {
+        min_score: 7,
+        max_score: 9,
+      });
+      expect(byScore.responses.map((r) => r.score)).toEqual([9, 7]);
+
+      const withComments = await listResponses(testBusinessId, {
+        has_comment: true,
+      });
+      expect(withComments.responses.map((r) => r.subject_id)).toEqual([
+        "u3",
+        "u1",
+      ]);
+
+      const withoutComments = await listResponses(testBusinessId, {
+        has_comment: false,
+      });
+      expect(withoutComments.responses.map((r) => r.subject_id)).toEqual([
+        "u4",
+        "u2",
+      ]);
+    });
+
+    it("should filter by subject_id and responded_at window", async () => {
+      const bySubject = await listResponses(testBusinessId, {
+        subject_id: "u2",
+      });
+      expect(bySubject.responses).toHaveLength(1);
+      expect(bySubject.responses[0].score).toBe(3);
+
+      const byWindow = await listResponses(testBusinessId, {
+        responded_after: new Date("2025-01-02T00:00:00Z"),
+        responded_before: new Date("2025-01-04T00:00:00Z"),
+      });
+      expect(byWindow.responses.map((r) => r.subject_id)).toEqual(["u3", "u2"]);
+    });
+
+    it("should paginate with a cursor", async () => {
+      const first = await listResponses(testBusinessId, { limit: 3 });
+      expect(first.responses.map((r) => r.subject_id)).toEqual([
+        "u4",
+        "u3",
+        "u2",
+      ]);
+      expect(first.next_cursor).not.toBeNull();
+
+      const second = await listResponses(testBusinessId, {
+        limit: 3,
+        cursor: first.next_cursor ?? undefined,
+      });
+      expect(second.responses.map((r) => r.subject_id)).toEqual(["u1"]);
+      expect(second.next_cursor).toBeNull();
+    });
+
+    it("should keep paging after the cursor's response is deleted", async () => {
+      const first = await listResponses(testBusinessId, { limit: 2 });
+      await connection`DELETE FROM responses WHERE id = ${first.responses[1].id}`;
+
+      const second = await listResponses(testBusinessId, {
+        limit: 2,
+        cursor: first.next_cursor ?? undefined,
+      });
+      expect(second.responses.map((r) => r.subject_id)).toEqual(["u2", "u1"]);
+    });
+
+    it("should reject a malformed cursor", async () => {
+      await expect(
+        listResponses(testBusinessId, { cursor: randomUUID() }),
+      ).rejects.toThrow("Invalid cursor");
+    });
+
+    it("should not reveal another business's responses through a cursor", async () => {
+      const otherBusinessId = await createTestBusiness(connection, "Other");
+      const { next_cursor } = await listResponses(testBusinessId, {
+        limit: 1,
+      });
+
+      const page = await listResponses(otherBusinessId, {
+        cursor: next_cursor ?? undefined,
+      });
+      expect(page.responses).toEqual([]);
     });
   });
 });
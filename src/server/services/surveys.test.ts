@@ -23,7 +23,12 @@ mock.module("./database", () => ({
   },
 }));
 
-import { createSurvey, findSurvey } from "./surveys";
+import {
+  createSurvey,
+  deleteSurvey,
+  findSurvey,
+  updateSurvey,
+} from "./surveys";
 
 describe("Surveys Service", () => {
   let testBusinessId: string;
@@ -163,4 +168,73 @@ describe("Surveys Service", () => {
       }
     });
   });
+
+  describe("updateSurvey", () => {
+    it("should update only the provided fields", async () => {
+      const survey = await createSurvey(testBusinessId, "update-survey", {
+        title: "Original Title",
+        description: "Original description",
+        ttl_days: 14,
+      });
+
+      const updated = await updateSurvey(survey, { title: "New Title" });
+
+      expect(updated.id).toBe(survey.id);
+      expect(updated.survey_id).toBe("update-survey");
+      expect(updated.title).toBe("New Title");
+      expect(updated.description).toBe("Original description");
+      expect(updated.ttl_days).toBe(14);
+    });
+
+    it("should clear nullable fields when set to null", async () => {
+      const survey = await createSurvey(testBusinessId, "clear-survey", {
+        title: "Redirect Survey",
+        description: "Has a description",
+        redirect_url: "https://example.com/thanks",
+        redirect_timing: "post_comment",
+      });
+
+      const updated = await updateSurvey(survey, {
+        description: null,
+        redirect_url: null,
+        redirect_timing: null,
+      });
+
+      expect(updated.description).toBeNull();
+      expect(updated.redirect_url).toBeNull();
+      expect(updated.redirect_timing).toBeNull();
+    });
+  });
+
+  describe("deleteSurvey", () => {
+    it("should delete an existing survey", async () => {
+      await createSurvey(testBusinessId, "delete-survey", {
+        title: "Delete Me",
+      });
+
+      const deleted = await deleteSurvey(testBusinessId, "delete-survey");
+
+      expect(deleted).toBe(true);
+      expect(await findSurvey(testBusinessId, "delete-survey")).toBeNull();
+    });
+
+    it("should return false when survey does not exist", async () => {
+      const deleted = await deleteSurvey(testBusinessId, "missing-survey");
+
+      expect(deleted).toBe(false);
+    });
+
+    it("should not delete surveys belonging to another business", async () => {
+      const otherBusinessId = await createTestBusiness(
+        connection,
+        "Other Business",
+      );
+      await createSurvey(otherBusinessId, "shared-id", { title: "Other" });
+
+      const deleted = await deleteSurvey(testBusinessId, "shared-id");
+
+      expect(deleted).toBe(false);
+      expect(await findSurvey(otherBusinessId, "shared-id")).not.toBeNull();
+    });
+  });
 });
@@ -1,9 +1,21 @@
 import { randomUUID } from "node:crypto";
+import type { SurveyBranding } from "../utils/branding";
 import { generateSecureToken } from "../utils/crypto";
+import { decodeResponseCursor, encodeResponseCursor } from "../utils/cursor";
 import {
   type DatabaseMutationResult,
   hasAffectedRows,
 } from "../utils/database";
+import type { FollowUpAnswer, FollowUpConfig } from "../utils/follow-up";
+import type { Locale, SurveyTranslations } from "../utils/i18n";
+import {
+  calculateSurveyScore,
+  DEFAULT_SURVEY_TYPE,
+  getScaleScores,
+  type SurveyType,
+  tallyScores,
+} from "../utils/survey-types";
+import { debitResponseCredit } from "./credits";
 import { db } from "./database";
 
 export interface Survey {
@@ -15,6 +27,10 @@ export interface Survey {
   ttl_days: number;
   redirect_url: string | null;
   redirect_timing: "pre_comment" | "post_comment" | null;
+  type: SurveyType; // Scale respondents answer on; fixed once created
+  branding: SurveyBranding | null; // Thank-you page look; null uses defaults
+  translations: SurveyTranslations | null; // Per-locale string overrides
+  follow_up: FollowUpConfig | null; // Question asked on the thank-you page
   created_at: Date;
 }
 
@@ -24,6 +40,7 @@ export interface SurveyLink {
   survey_id: string;
   subject_id: string;
   score: number;
+  lang: Locale | null; // Respondent locale chosen at mint time; null follows the browser
   expires_at: Date;
   created_at: Date;
 }
@@ -32,36 +49,70 @@ export interface MintLinksRequest {
   subject_id: string;
   ttl_days?: number; // Optional, defaults to 30
   redirect_url?: string; // Optional, for later use
+  lang?: Locale; // Optional, only applies when the links are first minted
 }
 
 export interface MintLinksResponse {
   links: Record<string, string>; // score -> URL mapping
   expires_at: string;
   response: number | null; // The score if already responded, null otherwise
+  created: boolean; // False when the subject's existing links were returned
+  lang: Locale | null; // Locale the links were minted with
+}
+
+export interface MintLinksBatchResult extends MintLinksResponse {
+  subject_id: string;
 }
 
 export interface SurveyResponse {
   id: string;
   responded_at: Date;
   comment: string | null;
+  follow_up?: FollowUpAnswer | null;
   score: number;
   subject_id: string;
+  imported?: boolean; // Brought in from another tool by a CSV import
+}
+
+export interface ResponseFilters {
+  survey_id?: string; // Internal survey UUID
+  subject_id?: string;
+  min_score?: number;
+  max_score?: number;
+  has_comment?: boolean;
+  responded_after?: Date;
+  responded_before?: Date;
+  cursor?: string; // next_cursor of the previous page
+  limit?: number;
+}
+
+export interface ResponseListItem extends SurveyResponse {
+  survey_id: string; // Public survey_id
+}
+
+export interface ResponsePage {
+  responses: ResponseListItem[];
+  next_cursor: string | null;
 }
 
 interface SurveyStatsRow {
   survey_id: string;
+  type: SurveyType;
   response_count: string;
   comment_count: string;
-  average_nps: string | null;
   unique_subjects_count: string;
   respondents_count: string;
 }
 
 export interface SurveyStats {
   survey_id: string;
+  type: SurveyType;
   response_count: number;
   comment_count: number;
-  average_nps: number | null;
+  score: number | null; // The type's headline score, null when there are no responses
+  promoters: number;
+  passives: number;
+  detractors: number;
   unique_subjects_count: number;
   response_rate: number | null;
 }
@@ -74,7 +125,7 @@ export const findSurvey = async (
   surveyId: string,
 ): Promise<Survey | null> => {
   const result = await db`
-    SELECT id, business_id, survey_id, title, description, ttl_days, redirect_url, redirect_timing, created_at
+    SELECT id, business_id, survey_id, title, description, ttl_days, redirect_url, redirect_timing, type, branding, translations, follow_up, created_at
     FROM surveys
     WHERE business_id = ${businessId} AND survey_id = ${surveyId}
   `;
@@ -91,7 +142,7 @@ export const findSurvey = async (
  */
 export const listSurveys = async (businessId: string): Promise<Survey[]> => {
   const result = await db`
-    SELECT id, business_id, survey_id, title, description, ttl_days, redirect_url, redirect_timing, created_at
+    SELECT id, business_id, survey_id, title, description, ttl_days, redirect_url, redirect_timing, type, branding, translations, follow_up, created_at
     FROM surveys
     WHERE business_id = ${businessId}
     ORDER BY created_at DESC
@@ -112,6 +163,10 @@ export const createSurvey = async (
     ttl_days?: number;
     redirect_url?: string;
     redirect_timing?: "pre_comment" | "post_comment";
+    type?: SurveyType;
+    branding?: SurveyBranding | null;
+    translations?: SurveyTranslations | null;
+    follow_up?: FollowUpConfig | null;
   },
 ): Promise<Survey> => {
   const id = randomUUID();
@@ -120,18 +175,97 @@ export const createSurvey = async (
   const ttlDays = options?.ttl_days || 30;
   const redirectUrl = options?.redirect_url || null;
   const redirectTiming = options?.redirect_timing || null;
+  const type = options?.type || DEFAULT_SURVEY_TYPE;
+  const branding = options?.branding || null;
+  const translations = options?.translations || null;
+  const followUp = options?.follow_up || null;
 
   const result = await db`
-    INSERT INTO surveys (id, business_id, survey_id, title, description, ttl_days, redirect_url, redirect_timing)
-    VALUES (${id}, ${businessId}, ${surveyId}, ${title}, ${description}, ${ttlDays}, ${redirectUrl}, ${redirectTiming})
-    RETURNING id, business_id, survey_id, title, description, ttl_days, redirect_url, redirect_timing, created_at
+    INSERT INTO surveys (id, business_id, survey_id, title, description, ttl_days, redirect_url, redirect_timing, type, branding, translations, follow_up)
+    VALUES (${id}, ${businessId}, ${surveyId}, ${title}, ${description}, ${ttlDays}, ${redirectUrl}, ${redirectTiming}, ${type}, ${branding}, ${translations}, ${followUp})
+    RETURNING id, business_id, survey_id, title, description, ttl_days, redirect_url, redirect_timing, type, branding, translations, follow_up, created_at
   `;
 
   return result[0] as Survey;
 };
 
+export interface UpdateSurveyOptions {
+  title?: string;
+  description?: string | null;
+  ttl_days?: number;
+  redirect_url?: string | null;
+  redirect_timing?: "pre_comment" | "post_comment" | null;
+  branding?: SurveyBranding | null;
+  translations?: SurveyTranslations | null;
+  follow_up?: FollowUpConfig | null;
+}
+
 /**
- * Generate unique survey links for all NPS scores (0-10)
+ * Update an existing survey
+ * Only the provided fields are changed; survey_id and type are immutable
+ */
+export const updateSurvey = async (
+  survey: Survey,
+  updates: UpdateSurveyOptions,
+): Promise<Survey> => {
+  const title = updates.title ?? survey.title;
+  const description =
+    updates.description !== undefined
+      ? updates.description || null
+      : survey.description;
+  const ttlDays = updates.ttl_days ?? survey.ttl_days;
+  const redirectUrl =
+    updates.redirect_url !== undefined
+      ? updates.redirect_url || null
+      : survey.redirect_url;
+  const redirectTiming =
+    updates.redirect_timing !== undefined
+      ? updates.redirect_timing || null
+      : survey.redirect_timing;
+  const branding =
+    updates.branding !== undefined ? updates.branding : survey.branding;
+  const translations =
+    updates.translations !== undefined
+      ? updates.translations
+      : survey.translations;
+  const followUp =
+    updates.follow_up !== undefined ? updates.follow_up : survey.follow_up;
+
+  const result = await db`
+    UPDATE surveys
+    SET
+      title = ${title},
+      description = ${description},
+      ttl_days = ${ttlDays},
+      redirect_url = ${redirectUrl},
+      redirect_timing = ${redirectTiming},
+      branding = ${branding},
+      translations = ${translations},
+      follow_up = ${followUp}
+    WHERE id = ${survey.id}
+    RETURNING id, business_id, survey_id, title, description, ttl_days, redirect_url, redirect_timing, type, branding, translations, follow_up, created_at
+  `;
+
+  return result[0] as Survey;
+};
+
+/**
+ * Delete a survey along with its links and responses
+ */
+export const deleteSurvey = async (
+  businessId: string,
+  surveyId: string,
+): Promise<boolean> => {
+  const result = (await db`
+    DELETE FROM surveys
+    WHERE business_id = ${businessId} AND survey_id = ${surveyId}
+  `) as DatabaseMutationResult;
+
+  return hasAffectedRows(result);
+};
+
+/**
+ * Generate unique survey links for every score on the survey's scale
  * Each link has a unique token and corresponds to one score
  * This operation is idempotent - calling it multiple times with the same
  * survey_id and subject_id returns the same links
@@ -140,11 +274,12 @@ export const mintSurveyLinks = async (
   survey: Survey,
   request: MintLinksRequest,
 ): Promise<MintLinksResponse> => {
-  // Check if links already exist for this subject
+  // Check if links already exist for this subject; imported history aside
   const existingLinksResult = await db`
-    SELECT token, score, expires_at
+    SELECT token, score, lang, expires_at
     FROM survey_links
     WHERE survey_id = ${survey.id} AND subject_id = ${request.subject_id}
+      AND import_id IS NULL
     ORDER BY score
   `;
 
@@ -169,6 +304,8 @@ export const mintSurveyLinks = async (
       links,
       expires_at: expiresAt.toISOString(),
       response: existingResponse ? existingResponse.score : null,
+      created: false,
+      lang: existingLinksResult[0].lang,
     };
   }
 
@@ -177,7 +314,7 @@ export const mintSurveyLinks = async (
   const expiresAt = new Date();
   expiresAt.setDate(expiresAt.getDate() + ttlDays);
 
-  // Generate 11 unique tokens for scores 0-10
+  // Generate a unique token for each score, e.g. 11 for NPS 0-10
   const links: Record<string, string> = {};
   const linkInserts: Array<{
     id: string;
@@ -185,10 +322,11 @@ export const mintSurveyLinks = async (
     survey_id: string;
     subject_id: string;
     score: number;
+    lang: Locale | null;
     expires_at: Date;
   }> = [];
 
-  for (let score = 0; score <= 10; score++) {
+  for (const score of getScaleScores(survey.type)) {
     const token = generateSecureToken(32);
     links[score.toString()] =
       `${process.env.BASE_URL || "http://localhost:3000"}/r/${token}`;
@@ -199,27 +337,134 @@ export const mintSurveyLinks = async (
       survey_id: survey.id,
       subject_id: request.subject_id,
       score,
+      lang: request.lang ?? null,
       expires_at: expiresAt,
     });
   }
 
-  // Insert all links in a transaction for atomicity
-  await db.begin(async (tx) => {
-    for (const link of linkInserts) {
-      await tx`
-        INSERT INTO survey_links (id, token, survey_id, subject_id, score, expires_at)
-        VALUES (${link.id}, ${link.token}, ${link.survey_id}, ${link.subject_id}, ${link.score}, ${link.expires_at})
-      `;
-    }
-  });
+  // Insert all links in a single statement for atomicity
+  await db`INSERT INTO survey_links ${db(linkInserts)}`;
 
   return {
     links,
     expires_at: expiresAt.toISOString(),
     response: null,
+    created: true,
+    lang: request.lang ?? null,
   };
 };
 
+// Postgres caps a statement at 65535 parameters; 500 subjects x 11 links x 7 columns is 38,500
+const MINT_INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Mint links for many subjects at once using set-based inserts
+ * Subjects that already have links keep them (idempotent), and results are returned in input order
+ */
+export const mintSurveyLinksBatch = async (
+  survey: Survey,
+  subjectIds: string[],
+  ttlDays?: number,
+  lang?: Locale,
+): Promise<MintLinksBatchResult[]> => {
+  const uniqueSubjectIds = [...new Set(subjectIds)];
+  if (uniqueSubjectIds.length === 0) {
+    return [];
+  }
+
+  const baseUrl = process.env.BASE_URL || "http://localhost:3000";
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + (ttlDays || survey.ttl_days));
+
+  const { linkRows, responseRows, created } = await db.begin(async (tx) => {
+    const existingRows = await tx`
+      SELECT DISTINCT subject_id
+      FROM survey_links
+      WHERE survey_id = ${survey.id} AND subject_id IN ${tx(uniqueSubjectIds)}
+        AND import_id IS NULL
+    `;
+    const existing = new Set<string>(
+      existingRows.map((row: { subject_id: string }) => row.subject_id),
+    );
+    const newSubjectIds = uniqueSubjectIds.filter((id) => !existing.has(id));
+    const created = new Set<string>();
+
+    for (let i = 0; i < newSubjectIds.length; i += MINT_INSERT_CHUNK_SIZE) {
+      const linkInserts = newSubjectIds
+        .slice(i, i + MINT_INSERT_CHUNK_SIZE)
+        .flatMap((subjectId) =>
+          getScaleScores(survey.type).map((score) => ({
+            id: randomUUID(),
+            token: generateSecureToken(32),
+            survey_id: survey.id,
+            subject_id: subjectId,
+            score,
+            lang: lang ?? null,
+            expires_at: expiresAt,
+          })),
+        );
+
+      // A concurrent mint for the same subject wins; its links are read back below
+      const inserted = await tx`
+        INSERT INTO survey_links ${tx(linkInserts)}
+        ON CONFLICT (survey_id, subject_id, score) WHERE import_id IS NULL
+        DO NOTHING
+        RETURNING subject_id
+      `;
+      for (const row of inserted) {
+        created.add(row.subject_id);
+      }
+    }
+
+    const linkRows = await tx`
+      SELECT subject_id, token, score, lang, expires_at
+      FROM survey_links
+      WHERE survey_id = ${survey.id} AND subject_id IN ${tx(uniqueSubjectIds)}
+        AND import_id IS NULL
+      ORDER BY subject_id, score
+    `;
+    const responseRows = await tx`
+      SELECT sl.subject_id, sl.score
+      FROM responses r
+      JOIN survey_links sl ON r.survey_link_id = sl.id
+      WHERE sl.survey_id = ${survey.id} AND sl.subject_id IN ${tx(uniqueSubjectIds)}
+        AND sl.import_id IS NULL
+    `;
+
+    return { linkRows, responseRows, created };
+  });
+
+  const resultsBySubject = new Map<string, MintLinksBatchResult>();
+  for (const link of linkRows) {
+    let result = resultsBySubject.get(link.subject_id);
+    if (!result) {
+      result = {
+        subject_id: link.subject_id,
+        links: {},
+        expires_at: "",
+        response: null,
+        created: created.has(link.subject_id),
+        lang: link.lang,
+      };
+      resultsBySubject.set(link.subject_id, result);
+    }
+    result.links[link.score.toString()] = `${baseUrl}/r/${link.token}`;
+    result.expires_at = new Date(link.expires_at).toISOString();
+  }
+
+  for (const row of responseRows) {
+    const result = resultsBySubject.get(row.subject_id);
+    if (result) {
+      result.response = row.score;
+    }
+  }
+
+  return uniqueSubjectIds.flatMap((subjectId) => {
+    const result = resultsBySubject.get(subjectId);
+    return result ? [result] : [];
+  });
+};
+
 /**
  * Find a survey link by token
  */
@@ -227,7 +472,7 @@ export const findSurveyLinkByToken = async (
   token: string,
 ): Promise<SurveyLink | null> => {
   const result = await db`
-    SELECT id, token, survey_id, subject_id, score, expires_at, created_at
+    SELECT id, token, survey_id, subject_id, score, lang, expires_at, created_at
     FROM survey_links
     WHERE token = ${token}
   `;
@@ -258,9 +503,9 @@ export const findSurveyLinkWithDetails = async (
   const result = await db`
     SELECT
       sl.id as link_id, sl.token, sl.survey_id as link_survey_id,
-      sl.subject_id, sl.score, sl.expires_at, sl.created_at as link_created_at,
+      sl.subject_id, sl.score, sl.lang, sl.expires_at, sl.created_at as link_created_at,
       s.id as survey_id, s.business_id, s.survey_id as survey_name,
-      s.title, s.description, s.ttl_days, s.redirect_url, s.redirect_timing, s.created_at as survey_created_at
+      s.title, s.description, s.ttl_days, s.redirect_url, s.redirect_timing, s.type, s.branding, s.translations, s.follow_up, s.created_at as survey_created_at
     FROM survey_links sl
     JOIN surveys s ON sl.survey_id = s.id
     WHERE sl.token = ${token}
@@ -276,6 +521,7 @@ export const findSurveyLinkWithDetails = async (
     link_survey_id: string;
     subject_id: string;
     score: number;
+    lang: Locale | null;
     expires_at: Date;
     link_created_at: Date;
     survey_id: string;
@@ -286,6 +532,10 @@ export const findSurveyLinkWithDetails = async (
     ttl_days: number;
     redirect_url: string | null;
     redirect_timing: "pre_comment" | "post_comment" | null;
+    type: SurveyType;
+    branding: SurveyBranding | null;
+    translations: SurveyTranslations | null;
+    follow_up: FollowUpConfig | null;
     survey_created_at: Date;
   };
 
@@ -300,6 +550,7 @@ export const findSurveyLinkWithDetails = async (
     survey_id: row.link_survey_id,
     subject_id: row.subject_id,
     score: row.score,
+    lang: row.lang,
     expires_at: row.expires_at,
     created_at: row.link_created_at,
   };
@@ -313,6 +564,10 @@ export const findSurveyLinkWithDetails = async (
     ttl_days: row.ttl_days,
     redirect_url: row.redirect_url,
     redirect_timing: row.redirect_timing,
+    type: row.type,
+    branding: row.branding,
+    translations: row.translations,
+    follow_up: row.follow_up,
     created_at: row.survey_created_at,
   };
 
@@ -348,6 +603,7 @@ export const hasExistingResponseForSurvey = async (
     FROM responses r
     JOIN survey_links sl ON r.survey_link_id = sl.id
     WHERE sl.survey_id = ${surveyId} AND sl.subject_id = ${subjectId}
+      AND sl.import_id IS NULL
     LIMIT 1
   `;
 
@@ -366,11 +622,13 @@ export const getExistingResponse = async (
       r.id,
       r.responded_at,
       r.comment,
+      r.follow_up,
       sl.score,
       sl.subject_id
     FROM responses r
     JOIN survey_links sl ON r.survey_link_id = sl.id
     WHERE sl.survey_id = ${surveyId} AND sl.subject_id = ${subjectId}
+      AND sl.import_id IS NULL
     LIMIT 1
   `;
 
@@ -382,18 +640,31 @@ export const getExistingResponse = async (
 };
 
 /**
- * Record a response for a survey link
+ * Record a response for a survey link and debit one credit from the business
+ * Throws "Insufficient credits" when the business refuses responses at zero balance
  */
 export const recordResponse = async (
   surveyLinkId: string,
   comment?: string,
+  followUp?: FollowUpAnswer | null,
 ): Promise<string> => {
   const id = randomUUID();
 
-  await db`
-    INSERT INTO responses (id, survey_link_id, comment)
-    VALUES (${id}, ${surveyLinkId}, ${comment || null})
-  `;
+  await db.begin(async (tx) => {
+    await tx`
+      INSERT INTO responses (id, survey_link_id, comment, follow_up)
+      VALUES (${id}, ${surveyLinkId}, ${comment || null}, ${followUp ?? null})
+    `;
+
+    const [owner] = await tx`
+      SELECT s.business_id
+      FROM survey_links sl
+      JOIN surveys s ON sl.survey_id = s.id
+      WHERE sl.id = ${surveyLinkId}
+    `;
+
+    await debitResponseCredit(tx, owner.business_id, id);
+  });
 
   return id;
 };
@@ -414,6 +685,22 @@ export const updateResponseComment = async (
   return hasAffectedRows(result);
 };
 
+/**
+ * Update an existing response with a follow-up answer
+ */
+export const updateResponseFollowUp = async (
+  surveyLinkId: string,
+  followUp: FollowUpAnswer,
+): Promise<boolean> => {
+  const result = (await db`
+    UPDATE responses
+    SET follow_up = ${followUp}
+    WHERE survey_link_id = ${surveyLinkId}
+  `) as DatabaseMutationResult;
+
+  return hasAffectedRows(result);
+};
+
 /**
  * Get all responses for a survey with response details
  */
@@ -425,8 +712,10 @@ export const getSurveyResponses = async (
       r.id,
       r.responded_at,
       r.comment,
+      r.follow_up,
       sl.score,
-      sl.subject_id
+      sl.subject_id,
+      sl.import_id IS NOT NULL AS imported
     FROM responses r
     JOIN survey_links sl ON r.survey_link_id = sl.id
     WHERE sl.survey_id = ${surveyId}
@@ -436,6 +725,64 @@ export const getSurveyResponses = async (
   return result as SurveyResponse[];
 };
 
+/**
+ * List responses across a business with optional filters
+ * Uses keyset pagination on (responded_at, id), newest first. The cursor
+ * carries the last row's values rather than its ID, so it stays valid after
+ * that response is deleted.
+ */
+export const listResponses = async (
+  businessId: string,
+  filters: ResponseFilters = {},
+): Promise<ResponsePage> => {
+  const limit = filters.limit || 50;
+  const cursor = filters.cursor ? decodeResponseCursor(filters.cursor) : null;
+  if (filters.cursor && !cursor) {
+    throw new Error("Invalid cursor");
+  }
+
+  const result = await db`
+    SELECT
+      r.id,
+      r.responded_at,
+      r.responded_at::text AS cursor_at,
+      r.comment,
+      r.follow_up,
+      sl.score,
+      sl.subject_id,
+      s.survey_id
+    FROM responses r
+    JOIN survey_links sl ON r.survey_link_id = sl.id
+    JOIN surveys s ON sl.survey_id = s.id
+    WHERE s.business_id = ${businessId}
+      AND (${filters.survey_id ?? null}::uuid IS NULL OR s.id = ${filters.survey_id ?? null}::uuid)
+      AND (${filters.subject_id ?? null}::text IS NULL OR sl.subject_id = ${filters.subject_id ?? null})
+      AND (${filters.min_score ?? null}::int IS NULL OR sl.score >= ${filters.min_score ?? null}::int)
+      AND (${filters.max_score ?? null}::int IS NULL OR sl.score <= ${filters.max_score ?? null}::int)
+      AND (${filters.has_comment ?? null}::boolean IS NULL OR (COALESCE(r.comment, '') != '') = ${filters.has_comment ?? null}::boolean)
+      AND (${filters.responded_after ?? null}::timestamptz IS NULL OR r.responded_at >= ${filters.responded_after ?? null}::timestamptz)
+      AND (${filters.responded_before ?? null}::timestamptz IS NULL OR r.responded_at < ${filters.responded_before ?? null}::timestamptz)
+      AND (
+        ${cursor?.id ?? null}::uuid IS NULL
+        OR (r.responded_at, r.id) < (${cursor?.responded_at ?? null}::timestamptz, ${cursor?.id ?? null}::uuid)
+      )
+    ORDER BY r.responded_at DESC, r.id DESC
+    LIMIT ${limit + 1}
+  `;
+
+  const rows = result as (ResponseListItem & { cursor_at: string })[];
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  const last = page[page.length - 1];
+
+  return {
+    responses: page.map(({ cursor_at, ...response }) => response),
+    next_cursor: hasMore
+      ? encodeResponseCursor({ responded_at: last.cursor_at, id: last.id })
+      : null,
+  };
+};
+
 /**
  * Get aggregated statistics for all surveys for a business
  */
@@ -445,9 +792,9 @@ export const getSurveyStats = async (
   const result = await db`
     SELECT 
       s.id as survey_id,
+      s.type,
       COUNT(r.id) as response_count,
       COUNT(CASE WHEN r.comment IS NOT NULL AND r.comment != '' THEN 1 END) as comment_count,
-      ROUND(AVG(CASE WHEN r.id IS NOT NULL THEN sl.score END), 1) as average_nps,
       COUNT(DISTINCT sl.subject_id) as unique_subjects_count,
       COUNT(DISTINCT CASE WHEN r.id IS NOT NULL THEN sl.subject_id END) as respondents_count
     FROM surveys s
@@ -458,6 +805,20 @@ export const getSurveyStats = async (
     ORDER BY s.created_at DESC
   `;
 
+  // Categories depend on each survey's scale, so count by score
+  const scoreRows = await db`
+    SELECT sl.survey_id, sl.score, COUNT(*) as count
+    FROM responses r
+    JOIN survey_links sl ON r.survey_link_id = sl.id
+    JOIN surveys s ON sl.survey_id = s.id
+    WHERE s.business_id = ${businessId}
+    GROUP BY sl.survey_id, sl.score
+  `;
+  const scoresBySurvey = Map.groupBy(
+    scoreRows as { survey_id: string; score: number; count: string }[],
+    (row) => row.survey_id,
+  );
+
   return result.map((row: SurveyStatsRow) => {
     const uniqueSubjectsCount = Number(row.unique_subjects_count) || 0;
     const respondentsCount = Number(row.respondents_count) || 0;
@@ -465,12 +826,26 @@ export const getSurveyStats = async (
       uniqueSubjectsCount > 0
         ? Math.round((respondentsCount / uniqueSubjectsCount) * 100)
         : null;
+    const breakdown = calculateSurveyScore(
+      row.type,
+      tallyScores(
+        row.type,
+        (scoresBySurvey.get(row.survey_id) ?? []).map((scoreRow) => ({
+          score: scoreRow.score,
+          count: Number(scoreRow.count),
+        })),
+      ),
+    );
 
     return {
       survey_id: row.survey_id,
+      type: row.type,
       response_count: Number(row.response_count) || 0,
       comment_count: Number(row.comment_count) || 0,
-      average_nps: row.average_nps ? Number(row.average_nps) : null,
+      score: breakdown.score,
+      promoters: breakdown.promoters,
+      passives: breakdown.passives,
+      detractors: breakdown.detractors,
       unique_subjects_count: uniqueSubjectsCount,
       response_rate: responseRate,
     };
@@ -11,6 +11,7 @@ import { SQL } from "bun";
 import { cleanupTestData, createTestBusiness } from "../test-utils/helpers";
 import {
   clearWebhookQueue,
+  createTestEvent,
   createTestWebhook,
   getWebhookQueueItems,
   mockWebhookEndpoint,
@@ -28,16 +29,46 @@ mock.module("./database", () => ({
 }));
 
 import {
+  verifyWebhookSignatureV1,
+  verifyWebhookSignatureV2,
+} from "../utils/webhook-signature";
+import { listAuditEntries } from "./audit";
+import { type EmailMessage, EmailService, setEmailService } from "./email";
+import { createSurvey, deleteSurvey } from "./surveys";
+import {
+  buildWebhookEvent,
   calculateNextRetryTime,
+  classifyWebhookError,
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  expireWebhookSecrets,
+  formatWebhookBody,
   generateWebhookSecret,
   generateWebhookSignature,
+  getDeliverySigning,
+  getMatchingWebhookEndpoints,
+  getPendingWebhooks,
   getRecentWebhookDeliveries,
-  getWebhookSettings,
+  getRetryWebhooks,
+  getWebhookDelivery,
+  listWebhookAttempts,
+  listWebhookEndpoints,
+  MAX_RESPONSE_BODY_LENGTH,
+  MAX_WEBHOOK_ATTEMPTS,
+  MAX_WEBHOOK_ENDPOINTS,
   queueWebhookDelivery,
+  queueWebhookEvent,
+  redeliverFailedWebhooks,
+  redeliverWebhook,
+  resumeWebhookEndpoint,
+  retireSecondaryWebhookSecret,
+  rotateWebhookSecret,
   sendTestWebhook,
   sendWebhook,
   updatePendingWebhookComment,
-  updateWebhookSettings,
+  updateWebhookAfterAttempt,
+  updateWebhookEndpoint,
+  WEBHOOK_PAUSE_THRESHOLD,
 } from "./webhooks";
 
 describe("Webhook Service", () => {
@@ -95,59 +126,491 @@ describe("Webhook Service", () => {
     });
   });
 
-  describe("webhook settings", () => {
-    test("updates webhook settings with auto-generated secret", async () => {
+  describe("webhook endpoints", () => {
+    test("creates an endpoint with auto-generated secret", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        description: "Support CRM",
+      });
+
+      expect(endpoint.url).toBe("https://example.com/webhook");
+      expect(endpoint.secret).toStartWith("whk_");
+      expect(endpoint.description).toBe("Support CRM");
+      expect(endpoint.surveys).toEqual([]);
+    });
+
+    test("creates an endpoint with provided secret and survey scope", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const survey = await createSurvey(businessId, "onboarding", {
+        title: "Onboarding",
+      });
+
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "custom_secret_123",
+        surveyIds: [survey.id],
+      });
+
+      expect(endpoint.secret).toBe("custom_secret_123");
+      expect(endpoint.surveys).toEqual([
+        { id: survey.id, survey_id: "onboarding", title: "Onboarding" },
+      ]);
+    });
+
+    test("rejects surveys from another business", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const otherBusinessId = await createTestBusiness(connection, "Other");
+      const otherSurvey = await createSurvey(otherBusinessId, "other", {
+        title: "Other",
+      });
+
+      await expect(
+        createWebhookEndpoint(businessId, {
+          url: "https://example.com/webhook",
+          surveyIds: [otherSurvey.id],
+        }),
+      ).rejects.toThrow("Survey not found");
+    });
+
+    test("limits the number of endpoints per business", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+
+      for (let i = 0; i < MAX_WEBHOOK_ENDPOINTS; i++) {
+        await createWebhookEndpoint(businessId, {
+          url: `https://example.com/webhook/${i}`,
+        });
+      }
+
+      await expect(
+        createWebhookEndpoint(businessId, {
+          url: "https://example.com/one-too-many",
+        }),
+      ).rejects.toThrow("at most");
+    });
+
+    test("updates URL and scope while keeping the secret", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const survey = await createSurvey(businessId, "nps", { title: "NPS" });
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "original_secret",
+      });
+
+      const updated = await updateWebhookEndpoint(businessId, endpoint.id, {
+        url: "https://example.com/new",
+        surveyIds: [survey.id],
+      });
+
+      expect(updated.url).toBe("https://example.com/new");
+      expect(updated.secret).toBe("original_secret");
+      expect(updated.surveys.map((s) => s.id)).toEqual([survey.id]);
+    });
+
+    test("defaults new endpoints to signature v2", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+      });
+
+      expect(endpoint.signature_version).toBe(2);
+      expect(endpoint.secondary_secret).toBeNull();
+    });
+
+    test("does not change the secret on update", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "first_secret",
+      });
+
+      const updated = await updateWebhookEndpoint(businessId, endpoint.id, {
+        url: "https://example.com/webhook",
+        secret: "ignored_secret",
+      });
+
+      expect(updated.secret).toBe("first_secret");
+      expect(updated.secondary_secret).toBeNull();
+    });
+
+    test("leaves nothing half-saved when saving the scope fails", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const survey = await createSurvey(businessId, "nps", { title: "NPS" });
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+      });
+
+      // Make every event subscription insert fail
+      await connection`
+        CREATE FUNCTION reject_endpoint_event() RETURNS trigger AS $$
+        BEGIN
+          RAISE EXCEPTION 'event insert failed';
+        END;
+        $$ LANGUAGE plpgsql
+      `;
+      await connection`
+        CREATE TRIGGER reject_endpoint_event
+        BEFORE INSERT ON webhook_endpoint_events
+        FOR EACH ROW EXECUTE FUNCTION reject_endpoint_event()
+      `;
+
+      try {
+        await expect(
+          createWebhookEndpoint(businessId, {
+            url: "https://example.com/other",
+            events: ["response.created"],
+          }),
+        ).rejects.toThrow("event insert failed");
+        await expect(
+          updateWebhookEndpoint(businessId, endpoint.id, {
+            url: "https://example.com/new",
+            surveyIds: [survey.id],
+            events: ["response.created"],
+          }),
+        ).rejects.toThrow("event insert failed");
+      } finally {
+        await connection`
+          DROP TRIGGER reject_endpoint_event ON webhook_endpoint_events
+        `;
+        await connection`DROP FUNCTION reject_endpoint_event()`;
+      }
+
+      const endpoints = await listWebhookEndpoints(businessId);
+      expect(endpoints).toHaveLength(1);
+      expect(endpoints[0].url).toBe("https://example.com/webhook");
+      expect(endpoints[0].surveys).toEqual([]);
+      expect(endpoints[0].events).toEqual([]);
+    });
+  });
+
+  describe("secret rotation", () => {
+    test("keeps the old secret active on v2 for the overlap window", async () => {
       const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "first_secret",
+      });
+
+      const rotated = await rotateWebhookSecret(businessId, endpoint.id, {
+        secret: "second_secret",
+        overlapHours: 24,
+      });
+
+      expect(rotated.secret).toBe("second_secret");
+      expect(rotated.secondary_secret).toBe("first_secret");
+      const expiresIn =
+        new Date(rotated.secondary_secret_expires_at as Date).getTime() -
+        Date.now();
+      expect(expiresIn).toBeGreaterThan(23 * 60 * 60 * 1000);
+      expect(expiresIn).toBeLessThanOrEqual(24 * 60 * 60 * 1000);
+    });
+
+    test("auto-generates the new secret when none is provided", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "first_secret",
+      });
+
+      const rotated = await rotateWebhookSecret(businessId, endpoint.id);
+
+      expect(rotated.secret).toStartWith("whk_");
+      expect(rotated.secondary_secret).toBe("first_secret");
+    });
+
+    test("stops using the old secret at once without an overlap", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "first_secret",
+      });
+
+      const rotated = await rotateWebhookSecret(businessId, endpoint.id, {
+        overlapHours: 0,
+      });
+
+      expect(rotated.secondary_secret).toBeNull();
+      expect(rotated.secondary_secret_expires_at).toBeNull();
+    });
+
+    test("keeps the old secret active on v1 for the overlap window", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "first_secret",
+        signatureVersion: 1,
+      });
+
+      const rotated = await rotateWebhookSecret(businessId, endpoint.id, {
+        secret: "second_secret",
+        overlapHours: 24,
+      });
+
+      expect(rotated.secret).toBe("second_secret");
+      expect(rotated.secondary_secret).toBe("first_secret");
+      expect(rotated.secondary_secret_expires_at).not.toBeNull();
+    });
+
+    test("rejects overlaps outside the allowed range", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+      });
+
+      await expect(
+        rotateWebhookSecret(businessId, endpoint.id, { overlapHours: 721 }),
+      ).rejects.toThrow("Overlap must be between 0 and 720 hours");
+      await expect(
+        rotateWebhookSecret(businessId, endpoint.id, { overlapHours: 1.5 }),
+      ).rejects.toThrow("Overlap must be between 0 and 720 hours");
+    });
+
+    test("does not rotate another business's endpoint", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const otherBusinessId = await createTestBusiness(connection, "Other");
+      const endpoint = await createWebhookEndpoint(otherBusinessId, {
+        url: "https://example.com/webhook",
+      });
+
+      await expect(
+        rotateWebhookSecret(businessId, endpoint.id),
+      ).rejects.toThrow("Webhook endpoint not found");
+    });
+
+    test("records rotation and retirement in the audit log", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "first_secret",
+      });
+
+      await rotateWebhookSecret(businessId, endpoint.id, { overlapHours: 1 });
+      await retireSecondaryWebhookSecret(businessId, endpoint.id);
+
+      const [retired] = await listWebhookEndpoints(businessId);
+      expect(retired.secondary_secret).toBeNull();
+      expect(retired.secondary_secret_expires_at).toBeNull();
 
-      const result = await updateWebhookSettings(
+      const entries = await listAuditEntries(businessId);
+      expect(entries.map((entry) => entry.action)).toEqual([
+        "webhook.secret_retired",
+        "webhook.secret_rotated",
+      ]);
+      expect(entries[1].details.endpoint_id).toBe(endpoint.id);
+      expect(entries[1].details.url).toBe("https://example.com/webhook");
+    });
+
+    test("ignores and then clears a previous secret once it expires", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "first_secret",
+      });
+      await rotateWebhookSecret(businessId, endpoint.id, {
+        secret: "second_secret",
+      });
+      await connection`
+        UPDATE webhook_endpoints
+        SET secondary_secret_expires_at = CURRENT_TIMESTAMP - INTERVAL '1 minute'
+        WHERE id = ${endpoint.id}
+      `;
+
+      const [expired] = await listWebhookEndpoints(businessId);
+      expect(expired.secondary_secret).toBeNull();
+
+      expect(await expireWebhookSecrets()).toBe(1);
+      expect(await expireWebhookSecrets()).toBe(0);
+
+      const [stored] = await connection`
+        SELECT secondary_secret FROM webhook_endpoints WHERE id = ${endpoint.id}
+      `;
+      expect(stored.secondary_secret).toBeNull();
+
+      const [entry] = await listAuditEntries(businessId);
+      expect(entry.action).toBe("webhook.secret_expired");
+      expect(entry.user_id).toBeNull();
+      expect(entry.details.endpoint_id).toBe(endpoint.id);
+    });
+
+    test("does not update or delete another business's endpoint", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const otherBusinessId = await createTestBusiness(connection, "Other");
+      const endpoint = await createWebhookEndpoint(otherBusinessId, {
+        url: "https://example.com/webhook",
+      });
+
+      await expect(
+        updateWebhookEndpoint(businessId, endpoint.id, {
+          url: "https://attacker.example.com",
+        }),
+      ).rejects.toThrow("Webhook endpoint not found");
+      await expect(
+        deleteWebhookEndpoint(businessId, endpoint.id),
+      ).rejects.toThrow("Webhook endpoint not found");
+
+      expect(await listWebhookEndpoints(otherBusinessId)).toHaveLength(1);
+    });
+
+    test("matches unscoped endpoints and endpoints scoped to the survey", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const onboarding = await createSurvey(businessId, "onboarding", {
+        title: "Onboarding",
+      });
+      const support = await createSurvey(businessId, "support", {
+        title: "Support",
+      });
+
+      const everything = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/all",
+      });
+      const onboardingOnly = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/onboarding",
+        surveyIds: [onboarding.id],
+      });
+      await createWebhookEndpoint(businessId, {
+        url: "https://example.com/support",
+        surveyIds: [support.id],
+      });
+
+      const matches = await getMatchingWebhookEndpoints(
         businessId,
-        "https://example.com/webhook",
+        "onboarding",
       );
 
-      expect(result.webhook_url).toBe("https://example.com/webhook");
-      expect(result.webhook_secret).toStartWith("whk_");
+      expect(matches.map((m) => m.id)).toEqual([
+        everything.id,
+        onboardingOnly.id,
+      ]);
+    });
+
+    test("keeps an endpoint scoped after its only survey is deleted", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const onboarding = await createSurvey(businessId, "onboarding", {
+        title: "Onboarding",
+      });
+      await createSurvey(businessId, "support", { title: "Support" });
+      await createWebhookEndpoint(businessId, {
+        url: "https://example.com/onboarding",
+        surveyIds: [onboarding.id],
+      });
+
+      await deleteSurvey(businessId, "onboarding");
+
+      const [endpoint] = await listWebhookEndpoints(businessId);
+      expect(endpoint.all_surveys).toBe(false);
+      expect(endpoint.surveys).toEqual([]);
+      expect(
+        await getMatchingWebhookEndpoints(businessId, "support"),
+      ).toHaveLength(0);
+    });
+  });
+
+  describe("event types", () => {
+    test("stores event subscriptions and rejects unknown types", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        events: ["survey.deleted", "response.created"],
+      });
+      expect(endpoint.events).toEqual(["response.created", "survey.deleted"]);
+
+      await expect(
+        createWebhookEndpoint(businessId, {
+          url: "https://example.com/webhook",
+          events: ["response.updated"],
+        }),
+      ).rejects.toThrow("Unknown webhook event type: response.updated");
     });
 
-    test("updates webhook settings with provided secret", async () => {
+    test("matches endpoints subscribed to the event or to every event", async () => {
       const businessId = await createTestBusiness(connection, "Test Business");
-      const customSecret = "custom_secret_123";
 
-      const result = await updateWebhookSettings(
+      const everything = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/all",
+      });
+      const responsesOnly = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/responses",
+        events: ["response.created"],
+      });
+
+      const responseMatches = await getMatchingWebhookEndpoints(
+        businessId,
+        "onboarding",
+        "response.created",
+      );
+      const mintMatches = await getMatchingWebhookEndpoints(
         businessId,
-        "https://example.com/webhook",
-        customSecret,
+        "onboarding",
+        "links.minted",
       );
 
-      expect(result.webhook_url).toBe("https://example.com/webhook");
-      expect(result.webhook_secret).toBe(customSecret);
+      expect(responseMatches.map((m) => m.id)).toEqual([
+        everything.id,
+        responsesOnly.id,
+      ]);
+      expect(mintMatches.map((m) => m.id)).toEqual([everything.id]);
     });
 
-    test("clears webhook settings", async () => {
+    test("fans out one event id and builds the envelope from the payload", async () => {
       const businessId = await createTestBusiness(connection, "Test Business");
+      await createWebhookEndpoint(businessId, { url: "https://example.com/a" });
+      await createWebhookEndpoint(businessId, { url: "https://example.com/b" });
 
-      // Set webhook settings
-      await updateWebhookSettings(businessId, "https://example.com/webhook");
-
-      // Clear them
-      await updateWebhookSettings(businessId, null);
+      await queueWebhookEvent(businessId, "links.minted", {
+        survey_id: "onboarding",
+        subject_ids: ["user-1", "user-2"],
+        expires_at: "2025-02-14T10:30:00.000Z",
+      });
 
-      const settings = await getWebhookSettings(businessId);
-      expect(settings?.webhook_url).toBeNull();
-      expect(settings?.webhook_secret).toBeNull();
+      const queueItems = await getWebhookQueueItems(businessId);
+      expect(queueItems).toHaveLength(2);
+      expect(queueItems[0].event_id).toBe(queueItems[1].event_id);
+      expect(queueItems[0].subject_id).toBeNull();
+      expect(queueItems[0].score).toBeNull();
+
+      const event = buildWebhookEvent(queueItems[0]);
+      expect(event.id).toBe(queueItems[0].event_id);
+      expect(event.type).toBe("links.minted");
+      expect(event.version).toBe(1);
+      expect(event.data).toEqual({
+        survey_id: "onboarding",
+        subject_ids: ["user-1", "user-2"],
+        expires_at: "2025-02-14T10:30:00.000Z",
+      });
     });
 
-    test("gets webhook settings", async () => {
+    test("folds comments only into pending response.created deliveries", async () => {
       const businessId = await createTestBusiness(connection, "Test Business");
+      await createWebhookEndpoint(businessId, { url: "https://example.com/a" });
+
+      await queueWebhookEvent(businessId, "response.comment_added", {
+        survey_id: "onboarding",
+        survey_type: "nps",
+        subject_id: "user-1",
+        score: 9,
+        comment: "First",
+      });
 
-      await updateWebhookSettings(
+      const updated = await updatePendingWebhookComment(
         businessId,
-        "https://example.com/webhook",
-        "test_secret",
+        "onboarding",
+        "user-1",
+        "Second",
       );
 
-      const settings = await getWebhookSettings(businessId);
-      expect(settings?.webhook_url).toBe("https://example.com/webhook");
-      expect(settings?.webhook_secret).toBe("test_secret");
+      expect(updated).toEqual([]);
+      const [item] = await getWebhookQueueItems(businessId);
+      expect(buildWebhookEvent(item).data).toEqual({
+        survey_id: "onboarding",
+        survey_type: "nps",
+        subject_id: "user-1",
+        score: 9,
+        comment: "First",
+        follow_up: null,
+      });
     });
   });
 
@@ -155,26 +618,65 @@ describe("Webhook Service", () => {
     test("queues webhook with default delay", async () => {
       const businessId = await createTestBusiness(connection, "Test Business");
 
-      await updateWebhookSettings(
-        businessId,
-        "https://example.com/webhook",
-        "test_secret",
-      );
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+        secret: "test_secret",
+      });
 
-      const webhookId = await queueWebhookDelivery(businessId, {
+      const webhookIds = await queueWebhookDelivery(businessId, {
         survey_id: "test_survey",
+        survey_type: "nps",
         subject_id: "test_user",
         score: 8,
         comment: "Great service!",
       });
 
-      expect(webhookId).toBeDefined();
+      expect(webhookIds).toHaveLength(1);
 
       const queueItems = await getWebhookQueueItems(businessId);
       expect(queueItems).toHaveLength(1);
       expect(queueItems[0].survey_id).toBe("test_survey");
       expect(queueItems[0].score).toBe(8);
       expect(queueItems[0].status).toBe("pending");
+      expect(queueItems[0].endpoint_id).toBe(endpoint.id);
+      expect(queueItems[0].webhook_secret).toBe("test_secret");
+    });
+
+    test("fans out one queue item per matching endpoint", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const survey = await createSurvey(businessId, "onboarding", {
+        title: "Onboarding",
+      });
+      const other = await createSurvey(businessId, "support", {
+        title: "Support",
+      });
+
+      await createWebhookEndpoint(businessId, {
+        url: "https://example.com/all",
+      });
+      await createWebhookEndpoint(businessId, {
+        url: "https://example.com/onboarding",
+        surveyIds: [survey.id],
+      });
+      await createWebhookEndpoint(businessId, {
+        url: "https://example.com/support",
+        surveyIds: [other.id],
+      });
+
+      const webhookIds = await queueWebhookDelivery(businessId, {
+        survey_id: "onboarding",
+        survey_type: "nps",
+        subject_id: "test_user",
+        score: 9,
+      });
+
+      expect(webhookIds).toHaveLength(2);
+
+      const queueItems = await getWebhookQueueItems(businessId);
+      expect(queueItems.map((item) => item.webhook_url).sort()).toEqual([
+        "https://example.com/all",
+        "https://example.com/onboarding",
+      ]);
     });
 
     test("skips queueing when no webhook configured", async () => {
@@ -182,11 +684,12 @@ describe("Webhook Service", () => {
 
       const webhookId = await queueWebhookDelivery(businessId, {
         survey_id: "test_survey",
+        survey_type: "nps",
         subject_id: "test_user",
         score: 8,
       });
 
-      expect(webhookId).toBeNull();
+      expect(webhookId).toEqual([]);
 
       const queueItems = await getWebhookQueueItems(businessId);
       expect(queueItems).toHaveLength(0);
@@ -194,11 +697,15 @@ describe("Webhook Service", () => {
 
     test("updates pending webhook comment", async () => {
       const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+      });
 
       await createTestWebhook(businessId, {
         surveyId: "test_survey",
         subjectId: "test_user",
         comment: undefined,
+        endpointId: endpoint.id,
       });
 
       const updated = await updatePendingWebhookComment(
@@ -208,7 +715,7 @@ describe("Webhook Service", () => {
         "Updated comment",
       );
 
-      expect(updated).toBe(true);
+      expect(updated).toEqual([endpoint.id]);
 
       const queueItems = await getWebhookQueueItems(businessId);
       expect(queueItems[0].comment).toBe("Updated comment");
@@ -217,13 +724,16 @@ describe("Webhook Service", () => {
 
   describe("webhook delivery", () => {
     test("sends webhook successfully", async () => {
-      const payload = {
-        survey_id: "test_survey",
-        subject_id: "test_user",
-        score: 9,
-        comment: "Excellent!",
-        timestamp: new Date().toISOString(),
-      };
+      const payload = createTestEvent(
+        {
+          survey_id: "test_survey",
+          survey_type: "nps",
+          subject_id: "test_user",
+          score: 9,
+          comment: "Excellent!",
+        },
+        new Date().toISOString(),
+      );
 
       const result = await sendWebhook(
         payload,
@@ -244,13 +754,16 @@ describe("Webhook Service", () => {
     });
 
     test("handles webhook failure", async () => {
-      const payload = {
-        survey_id: "test_survey",
-        subject_id: "test_user",
-        score: 9,
-        comment: null,
-        timestamp: new Date().toISOString(),
-      };
+      const payload = createTestEvent(
+        {
+          survey_id: "test_survey",
+          survey_type: "nps",
+          subject_id: "test_user",
+          score: 9,
+          comment: null,
+        },
+        new Date().toISOString(),
+      );
 
       // Send to non-existent endpoint
       const result = await sendWebhook(
@@ -264,21 +777,81 @@ describe("Webhook Service", () => {
       expect(result.responseBody).toContain("fetch");
     });
 
+    test("sends the flat body to endpoints on payload version 1", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      await createWebhookEndpoint(businessId, {
+        url: mockEndpoint.url,
+        payloadVersion: 1,
+      });
+      await queueWebhookEvent(businessId, "response.created", {
+        survey_id: "onboarding",
+        survey_type: "nps",
+        subject_id: "user-1",
+        score: 9,
+        comment: "Great",
+      });
+
+      const [item] = await getWebhookQueueItems(businessId);
+      const event = buildWebhookEvent(item);
+      const signing = await getDeliverySigning(item);
+      await sendWebhook(
+        event,
+        item.webhook_url,
+        signing.secret,
+        signing.options,
+      );
+
+      const received = mockEndpoint.getReceivedWebhooks();
+      expect(received[0].body as unknown).toEqual({
+        survey_id: "onboarding",
+        subject_id: "user-1",
+        score: 9,
+        comment: "Great",
+        timestamp: event.created_at,
+      });
+      expect(received[0].headers["x-clicknps-event"]).toBe("response.created");
+    });
+
+    test("keeps the envelope for other events on payload version 1", () => {
+      const event = createTestEvent(
+        {
+          survey_id: "onboarding",
+          survey_type: "nps",
+          subject_id: "user-1",
+          score: 9,
+          comment: null,
+        },
+        new Date().toISOString(),
+      );
+      const minted = {
+        ...event,
+        type: "links.minted" as const,
+        data: { survey_id: "onboarding", subject_ids: ["user-1"] },
+      };
+
+      expect(formatWebhookBody(minted, 1)).toEqual(minted);
+      expect(formatWebhookBody(event, 2)).toEqual(event);
+    });
+
     test("sends test webhook", async () => {
       const businessId = await createTestBusiness(connection, "Test Business");
 
-      await updateWebhookSettings(businessId, mockEndpoint.url, "test_secret");
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: mockEndpoint.url,
+        secret: "test_secret",
+      });
 
-      const result = await sendTestWebhook(businessId);
+      const result = await sendTestWebhook(businessId, endpoint.id);
 
       expect(result.success).toBe(true);
       expect(result.statusCode).toBe(200);
 
       const received = mockEndpoint.getReceivedWebhooks();
       expect(received).toHaveLength(1);
-      expect(received[0].body.survey_id).toBe("test");
-      expect(received[0].body.subject_id).toBe("test_user");
-      expect(received[0].body.score).toBe(8);
+      expect(received[0].body.type).toBe("response.created");
+      expect(received[0].body.data.survey_id).toBe("test");
+      expect(received[0].body.data.subject_id).toBe("test_user");
+      expect(received[0].body.data.score).toBe(8);
     });
   });
 
@@ -303,6 +876,171 @@ describe("Webhook Service", () => {
       expect(retries[6].getTime()).toBeGreaterThan(now.getTime() + 86_000_000); // ~24 hours
       expect(retries[7].getTime()).toBeGreaterThan(now.getTime() + 86_000_000); // Still ~24 hours
     });
+
+    test("records every attempt", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const id = await createTestWebhook(businessId);
+
+      await updateWebhookAfterAttempt(id, false, 502, "Bad Gateway", 1);
+      await updateWebhookAfterAttempt(id, true, 200, "OK", 2);
+
+      const attempts = await listWebhookAttempts(id);
+      expect(attempts.map((a) => [a.status_code, a.response_body])).toEqual([
+        [502, "Bad Gateway"],
+        [200, "OK"],
+      ]);
+    });
+
+    test("marks a delivery dead after the last attempt", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const id = await createTestWebhook(businessId);
+
+      await updateWebhookAfterAttempt(
+        id,
+        false,
+        500,
+        "Error",
+        MAX_WEBHOOK_ATTEMPTS - 1,
+      );
+      let delivery = await getWebhookDelivery(businessId, id);
+      expect(delivery?.status).toBe("failed");
+      expect(delivery?.next_retry_at).not.toBeNull();
+
+      await updateWebhookAfterAttempt(
+        id,
+        false,
+        500,
+        "Error",
+        MAX_WEBHOOK_ATTEMPTS,
+      );
+      delivery = await getWebhookDelivery(businessId, id);
+      expect(delivery?.status).toBe("dead");
+      expect(delivery?.next_retry_at).toBeNull();
+
+      await connection`
+        UPDATE webhook_queue SET next_retry_at = CURRENT_TIMESTAMP WHERE id = ${id}
+      `;
+      expect(await getRetryWebhooks()).toHaveLength(0);
+    });
+  });
+
+  describe("redelivery", () => {
+    test("queues a dead delivery with a fresh retry schedule", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const id = await createTestWebhook(businessId);
+      await updateWebhookAfterAttempt(
+        id,
+        false,
+        500,
+        "Error",
+        MAX_WEBHOOK_ATTEMPTS,
+      );
+
+      await redeliverWebhook(businessId, id);
+
+      const delivery = await getWebhookDelivery(businessId, id);
+      expect(delivery?.status).toBe("pending");
+      expect(delivery?.attempts).toBe(0);
+      expect(
+        new Date(delivery?.scheduled_for as Date).getTime(),
+      ).toBeLessThanOrEqual(Date.now());
+      expect(await listWebhookAttempts(id)).toHaveLength(1);
+    });
+
+    test("rejects deliveries that are already queued or belong to another business", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const otherBusinessId = await createTestBusiness(connection, "Other");
+      const pendingId = await createTestWebhook(businessId);
+      const otherId = await createTestWebhook(otherBusinessId, {
+        status: "dead",
+      });
+
+      await expect(redeliverWebhook(businessId, pendingId)).rejects.toThrow(
+        "Webhook delivery is already queued",
+      );
+      await expect(redeliverWebhook(businessId, otherId)).rejects.toThrow(
+        "Webhook delivery not found",
+      );
+    });
+
+    test("redelivers failed and dead deliveries since a point in time", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+      });
+      const recentFailed = await createTestWebhook(businessId, {
+        endpointId: endpoint.id,
+      });
+      const recentDead = await createTestWebhook(businessId);
+      const olderFailed = await createTestWebhook(businessId);
+      const delivered = await createTestWebhook(businessId);
+      await updateWebhookAfterAttempt(recentFailed, false, 503, "", 1);
+      await updateWebhookAfterAttempt(
+        recentDead,
+        false,
+        503,
+        "",
+        MAX_WEBHOOK_ATTEMPTS,
+      );
+      await updateWebhookAfterAttempt(olderFailed, false, 503, "", 1);
+      await updateWebhookAfterAttempt(delivered, true, 200, "OK", 1);
+      await connection`
+        UPDATE webhook_queue
+        SET last_attempt_at = CURRENT_TIMESTAMP - INTERVAL '2 hours'
+        WHERE id = ${olderFailed}
+      `;
+
+      const since = new Date(Date.now() - 60 * 60 * 1000);
+      expect(
+        await redeliverFailedWebhooks(businessId, since, {
+          endpointId: endpoint.id,
+        }),
+      ).toBe(1);
+      expect(await redeliverFailedWebhooks(businessId, since)).toBe(1);
+
+      const statuses = Object.fromEntries(
+        (await getWebhookQueueItems(businessId)).map((item) => [
+          item.id,
+          item.status,
+        ]),
+      );
+      expect(statuses).toEqual({
+        [recentFailed]: "pending",
+        [recentDead]: "pending",
+        [olderFailed]: "failed",
+        [delivered]: "delivered",
+      });
+
+      const entries = await listAuditEntries(businessId);
+      expect(entries).toHaveLength(2);
+      expect(entries[0].action).toBe("webhook.failed_redelivered");
+      expect(entries[0].details.count).toBe(1);
+    });
+
+    test("holds redelivered deliveries while the business is out of credits", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const single = await createTestWebhook(businessId, { status: "dead" });
+      const bulk = await createTestWebhook(businessId);
+      await updateWebhookAfterAttempt(bulk, false, 503, "", 1);
+      await connection`
+        INSERT INTO credit_balances (business_id, balance)
+        VALUES (${businessId}, -1)
+        ON CONFLICT (business_id) DO UPDATE SET balance = -1
+      `;
+
+      expect(await redeliverWebhook(businessId, single)).toBe("held");
+      expect(
+        await redeliverFailedWebhooks(
+          businessId,
+          new Date(Date.now() - 60 * 1000),
+        ),
+      ).toBe(1);
+
+      expect((await getWebhookDelivery(businessId, single))?.status).toBe(
+        "held",
+      );
+      expect((await getWebhookDelivery(businessId, bulk))?.status).toBe("held");
+    });
   });
 
   describe("recent deliveries", () => {
@@ -332,17 +1070,34 @@ describe("Webhook Service", () => {
       const deliveries = await getRecentWebhookDeliveries(businessId, 5);
       expect(deliveries).toHaveLength(5);
     });
+
+    test("filters recent deliveries by status", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+
+      await createTestWebhook(businessId, { status: "dead" });
+      await createTestWebhook(businessId, { status: "delivered" });
+
+      const deliveries = await getRecentWebhookDeliveries(
+        businessId,
+        10,
+        "dead",
+      );
+      expect(deliveries.map((d) => d.status)).toEqual(["dead"]);
+    });
   });
 
   describe("signature verification", () => {
     test("includes correct signature in webhook headers", async () => {
-      const payload = {
-        survey_id: "test_survey",
-        subject_id: "test_user",
-        score: 9,
-        comment: "Test comment",
-        timestamp: new Date().toISOString(),
-      };
+      const payload = createTestEvent(
+        {
+          survey_id: "test_survey",
+          survey_type: "nps",
+          subject_id: "test_user",
+          score: 9,
+          comment: "Test comment",
+        },
+        new Date().toISOString(),
+      );
       const secret = "test_secret_123";
 
       const result = await sendWebhook(payload, mockEndpoint.url, secret);
@@ -362,13 +1117,16 @@ describe("Webhook Service", () => {
     });
 
     test("signature matches expected HMAC-SHA256", async () => {
-      const payload = {
-        survey_id: "test_survey",
-        subject_id: "test_user",
-        score: 8,
-        comment: null,
-        timestamp: "2024-01-01T00:00:00.000Z",
-      };
+      const payload = createTestEvent(
+        {
+          survey_id: "test_survey",
+          survey_type: "nps",
+          subject_id: "test_user",
+          score: 8,
+          comment: null,
+        },
+        "2024-01-01T00:00:00.000Z",
+      );
       const secret = "known_secret";
 
       await sendWebhook(payload, mockEndpoint.url, secret);
@@ -382,17 +1140,119 @@ describe("Webhook Service", () => {
 
       expect(receivedSignature).toBe(expectedSignature);
     });
-  });
 
-  describe("invalid webhook URL handling", () => {
-    test("handles malformed URLs", async () => {
-      const payload = {
+    test("v2 signs timestamp and body with every active secret", async () => {
+      const payload = createTestEvent({
         survey_id: "test_survey",
+        survey_type: "nps",
         subject_id: "test_user",
-        score: 7,
+        score: 8,
         comment: null,
-        timestamp: new Date().toISOString(),
-      };
+      });
+
+      await sendWebhook(payload, mockEndpoint.url, "new_secret", {
+        version: 2,
+        secondarySecret: "old_secret",
+        deliveryId: "delivery-123",
+      });
+
+      const [received] = mockEndpoint.getReceivedWebhooks();
+      const header = received.headers["x-clicknps-signature"];
+      const body = JSON.stringify(payload);
+
+      expect(header).toStartWith(
+        `t=${received.headers["x-clicknps-timestamp"]},v2=`,
+      );
+      expect(received.headers["x-clicknps-delivery-id"]).toBe("delivery-123");
+      expect(verifyWebhookSignatureV2(body, header, "new_secret")).toBe(true);
+      expect(verifyWebhookSignatureV2(body, header, "old_secret")).toBe(true);
+      expect(verifyWebhookSignatureV2(body, header, "other_secret")).toBe(
+        false,
+      );
+    });
+
+    test("v1 signs with the previous secret in its own header during a rotation", async () => {
+      const payload = createTestEvent({
+        survey_id: "test_survey",
+        survey_type: "nps",
+        subject_id: "test_user",
+        score: 8,
+        comment: null,
+      });
+
+      await sendWebhook(payload, mockEndpoint.url, "new_secret", {
+        version: 1,
+        secondarySecret: "old_secret",
+      });
+      await sendWebhook(payload, mockEndpoint.url, "new_secret", {
+        version: 1,
+      });
+
+      const [rotating, settled] = mockEndpoint.getReceivedWebhooks();
+      const body = JSON.stringify(payload);
+
+      expect(
+        verifyWebhookSignatureV1(
+          body,
+          rotating.headers["x-clicknps-signature"],
+          "new_secret",
+        ),
+      ).toBe(true);
+      expect(
+        verifyWebhookSignatureV1(
+          body,
+          rotating.headers["x-clicknps-signature-previous"],
+          "old_secret",
+        ),
+      ).toBe(true);
+      expect(settled.headers["x-clicknps-signature-previous"]).toBeUndefined();
+    });
+
+    test("signs queued deliveries with the endpoint's current secrets", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: mockEndpoint.url,
+        secret: "queued_secret",
+      });
+      await queueWebhookDelivery(
+        businessId,
+        {
+          survey_id: "nps",
+          survey_type: "nps",
+          subject_id: "user-1",
+          score: 9,
+        },
+        0,
+      );
+      await rotateWebhookSecret(businessId, endpoint.id, {
+        secret: "rotated_secret",
+      });
+
+      const [item] = await getWebhookQueueItems(businessId);
+      const signing = await getDeliverySigning(item);
+
+      expect(signing.secret).toBe("rotated_secret");
+      expect(signing.options).toEqual({
+        version: 2,
+        secondarySecret: "queued_secret",
+        deliveryId: item.id,
+        payloadVersion: 2,
+      });
+    });
+  });
+
+  describe("invalid webhook URL handling", () => {
+    test("handles malformed URLs", async () => {
+      const payload = createTestEvent(
+        {
+          survey_id: "test_survey",
+          survey_type: "nps",
+          subject_id: "test_user",
+          score: 7,
+          comment: null,
+        },
+        new Date().toISOString(),
+      );
 
       const result = await sendWebhook(
         payload,
@@ -403,16 +1263,20 @@ describe("Webhook Service", () => {
       expect(result.success).toBe(false);
       expect(result.statusCode).toBe(0);
       expect(result.responseBody).toContain("fetch");
+      expect(result.errorClass).toBe("invalid_url");
     });
 
     test("handles unreachable URLs", async () => {
-      const payload = {
-        survey_id: "test_survey",
-        subject_id: "test_user",
-        score: 6,
-        comment: null,
-        timestamp: new Date().toISOString(),
-      };
+      const payload = createTestEvent(
+        {
+          survey_id: "test_survey",
+          survey_type: "nps",
+          subject_id: "test_user",
+          score: 6,
+          comment: null,
+        },
+        new Date().toISOString(),
+      );
 
       const result = await sendWebhook(
         payload,
@@ -424,6 +1288,259 @@ describe("Webhook Service", () => {
       expect(result.statusCode).toBe(0);
       expect(result.responseBody.length).toBeGreaterThan(0);
     });
+
+    test("classifies refused connections and timeouts", async () => {
+      const payload = createTestEvent({
+        survey_id: "test_survey",
+        survey_type: "nps",
+        subject_id: "test_user",
+        score: 6,
+        comment: null,
+      });
+      const slowServer = Bun.serve({
+        port: 0,
+        async fetch() {
+          await Bun.sleep(500);
+          return new Response("OK");
+        },
+      });
+
+      try {
+        const refused = await sendWebhook(
+          payload,
+          "http://localhost:1/webhook",
+          "test_secret",
+        );
+        const timedOut = await sendWebhook(
+          payload,
+          `http://localhost:${slowServer.port}/webhook`,
+          "test_secret",
+          {},
+          100,
+        );
+
+        expect(refused.errorClass).toBe("connection_error");
+        expect(timedOut.errorClass).toBe("timeout");
+        expect(timedOut.durationMs).toBeGreaterThanOrEqual(90);
+      } finally {
+        slowServer.stop(true);
+      }
+    });
+
+    test("classifies DNS and TLS errors by code", () => {
+      const withCode = (code: string) =>
+        Object.assign(new TypeError("fetch failed"), { code });
+
+      expect(classifyWebhookError(withCode("ENOTFOUND"))).toBe("dns_error");
+      expect(classifyWebhookError(withCode("CERT_HAS_EXPIRED"))).toBe(
+        "tls_error",
+      );
+      expect(classifyWebhookError(withCode("ECONNRESET"))).toBe(
+        "connection_error",
+      );
+    });
+  });
+
+  describe("attempt log", () => {
+    test("records headers, duration and a truncated body for each attempt", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const id = await createTestWebhook(businessId);
+      const badGateway = Bun.serve({
+        port: 0,
+        fetch() {
+          return new Response("x".repeat(MAX_RESPONSE_BODY_LENGTH + 500), {
+            status: 502,
+          });
+        },
+      });
+
+      try {
+        const result = await sendWebhook(
+          createTestEvent({
+            survey_id: "test_survey",
+            survey_type: "nps",
+            subject_id: "test_user",
+            score: 9,
+            comment: null,
+          }),
+          `http://localhost:${badGateway.port}/webhook`,
+          "test_secret",
+          { deliveryId: id },
+        );
+        await updateWebhookAfterAttempt(
+          id,
+          result.success,
+          result.statusCode,
+          result.responseBody,
+          1,
+          result,
+        );
+      } finally {
+        badGateway.stop(true);
+      }
+
+      const [attempt] = await listWebhookAttempts(id);
+      expect(attempt.status_code).toBe(502);
+      expect(attempt.error_class).toBe("http_error");
+      expect(attempt.response_body).toHaveLength(MAX_RESPONSE_BODY_LENGTH);
+      expect(attempt.response_body_truncated).toBe(true);
+      expect(attempt.duration_ms).toBeGreaterThanOrEqual(0);
+      expect(attempt.request_headers["X-ClickNPS-Delivery-Id"]).toBe(id);
+      expect(attempt.request_headers["X-ClickNPS-Signature"]).toStartWith(
+        "sha256=",
+      );
+    });
+  });
+
+  describe("endpoint pausing", () => {
+    let sentEmails: EmailMessage[];
+
+    beforeEach(() => {
+      sentEmails = [];
+      setEmailService(
+        new EmailService({
+          async send(message: EmailMessage) {
+            sentEmails.push(message);
+          },
+        }),
+      );
+    });
+
+    afterEach(() => {
+      setEmailService(null as unknown as EmailService);
+    });
+
+    const createFailingEndpoint = async (businessId: string) => {
+      const endpoint = await createWebhookEndpoint(businessId, {
+        url: "https://example.com/webhook",
+      });
+      await connection`
+        UPDATE webhook_endpoints
+        SET consecutive_failures = ${WEBHOOK_PAUSE_THRESHOLD - 1}
+        WHERE id = ${endpoint.id}
+      `;
+      return endpoint;
+    };
+
+    test("pauses the endpoint after too many failures in a row and alerts owners and admins", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      for (const role of ["owner", "admin", "member"]) {
+        await connection`
+          INSERT INTO users (id, email, business_id, role)
+          VALUES (
+            ${crypto.randomUUID()}, ${`${role}@example.com`}, ${businessId},
+            ${role}
+          )
+        `;
+      }
+      const endpoint = await createFailingEndpoint(businessId);
+      const failingId = await createTestWebhook(businessId, {
+        endpointId: endpoint.id,
+      });
+      const queuedId = await createTestWebhook(businessId, {
+        endpointId: endpoint.id,
+      });
+      const otherId = await createTestWebhook(businessId);
+
+      await updateWebhookAfterAttempt(failingId, false, 503, "", 1);
+
+      const [paused] = await listWebhookEndpoints(businessId);
+      expect(paused.paused_at).not.toBeNull();
+      expect(paused.consecutive_failures).toBe(WEBHOOK_PAUSE_THRESHOLD);
+      expect(paused.paused_deliveries).toBe(2);
+
+      const failing = await getWebhookDelivery(businessId, failingId);
+      expect(failing?.status).toBe("paused");
+      expect(failing?.next_retry_at).toBeNull();
+      expect((await getWebhookDelivery(businessId, queuedId))?.status).toBe(
+        "paused",
+      );
+      expect((await getWebhookDelivery(businessId, otherId))?.status).toBe(
+        "pending",
+      );
+
+      expect(sentEmails.map((message) => message.to.email).sort()).toEqual([
+        "admin@example.com",
+        "owner@example.com",
+      ]);
+      expect(sentEmails[0].text).toContain("https://example.com/webhook");
+
+      const [entry] = await listAuditEntries(businessId);
+      expect(entry.action).toBe("webhook.endpoint_paused");
+      expect(entry.details.consecutive_failures).toBe(WEBHOOK_PAUSE_THRESHOLD);
+    });
+
+    test("a successful attempt resets the failure count", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createFailingEndpoint(businessId);
+      const id = await createTestWebhook(businessId, {
+        endpointId: endpoint.id,
+      });
+
+      await updateWebhookAfterAttempt(id, true, 200, "OK", 1);
+
+      const [updated] = await listWebhookEndpoints(businessId);
+      expect(updated.consecutive_failures).toBe(0);
+      expect(updated.paused_at).toBeNull();
+      expect(sentEmails).toHaveLength(0);
+    });
+
+    test("holds new deliveries for a paused endpoint", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createFailingEndpoint(businessId);
+      const id = await createTestWebhook(businessId, {
+        endpointId: endpoint.id,
+      });
+      await updateWebhookAfterAttempt(id, false, 503, "", 1);
+
+      const [queuedId] = await queueWebhookDelivery(businessId, {
+        survey_id: "test_survey",
+        survey_type: "nps",
+        subject_id: "later_user",
+        score: 9,
+      });
+
+      expect((await getWebhookDelivery(businessId, queuedId))?.status).toBe(
+        "paused",
+      );
+    });
+
+    test("resuming releases waiting deliveries in their original order", async () => {
+      const businessId = await createTestBusiness(connection, "Test Business");
+      const endpoint = await createFailingEndpoint(businessId);
+      const now = Date.now();
+      const ids = [];
+      for (const secondsAgo of [30, 20, 10]) {
+        ids.push(
+          await createTestWebhook(businessId, {
+            endpointId: endpoint.id,
+            scheduledFor: new Date(now - secondsAgo * 1000),
+          }),
+        );
+      }
+      await updateWebhookAfterAttempt(ids[1], false, 503, "", 3);
+
+      await expect(
+        resumeWebhookEndpoint(businessId, crypto.randomUUID()),
+      ).rejects.toThrow("Webhook endpoint not found");
+
+      expect(await resumeWebhookEndpoint(businessId, endpoint.id)).toBe(3);
+
+      const pending = await getPendingWebhooks();
+      expect(pending.map((item) => item.id)).toEqual(ids);
+      expect(pending.every((item) => item.attempts === 0)).toBe(true);
+
+      const [resumed] = await listWebhookEndpoints(businessId);
+      expect(resumed.paused_at).toBeNull();
+      expect(resumed.consecutive_failures).toBe(0);
+      await expect(
+        resumeWebhookEndpoint(businessId, endpoint.id),
+      ).rejects.toThrow("Webhook endpoint is not paused");
+
+      const [entry] = await listAuditEntries(businessId);
+      expect(entry.action).toBe("webhook.endpoint_resumed");
+      expect(entry.details.count).toBe(3);
+    });
   });
 
   describe("queue ordering", () => {
@@ -1,36 +1,205 @@
 import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import type { SQL } from "bun";
 import {
   type DatabaseMutationResult,
   hasAffectedRows,
 } from "../utils/database";
+import type { FollowUpAnswer } from "../utils/follow-up";
+import { DEFAULT_SURVEY_TYPE, type SurveyType } from "../utils/survey-types";
+import {
+  signWebhookV1,
+  signWebhookV2,
+  type WebhookSignatureVersion,
+} from "../utils/webhook-signature";
+import { recordAuditEntry, recordAuditEntryInTransaction } from "./audit";
+import { getBusiness } from "./business";
+import { shouldHoldWebhooks } from "./credits";
 import { db } from "./database";
+import { getEmailService } from "./email";
+import { getBusinessMembers } from "./team";
+
+export const WEBHOOK_EVENT_TYPES = [
+  "response.created",
+  "response.comment_added",
+  "links.minted",
+  "survey.created",
+  "survey.deleted",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+// Bumped when the envelope or an event's data changes incompatibly
+export const WEBHOOK_EVENT_VERSION = 1;
+
+/**
+ * Body format an endpoint receives
+ * 1 is the flat response body sent before event types existed; 2 is the
+ * event envelope.
+ */
+export type WebhookPayloadVersion = 1 | 2;
 
-export interface WebhookSettings {
-  webhook_url: string | null;
-  webhook_secret: string | null;
+export interface WebhookEndpointSurvey {
+  id: string;
+  survey_id: string;
+  title: string;
 }
 
+export interface WebhookEndpoint {
+  id: string;
+  business_id: string;
+  url: string;
+  secret: string;
+  secondary_secret: string | null; // Previous secret, still signs deliveries
+  secondary_secret_expires_at: Date | null;
+  signature_version: WebhookSignatureVersion;
+  payload_version: WebhookPayloadVersion;
+  description: string | null;
+  all_surveys: boolean;
+  surveys: WebhookEndpointSurvey[]; // Only used when all_surveys is false
+  events: WebhookEventType[]; // Empty means every event type
+  consecutive_failures: number;
+  paused_at: Date | null; // Set once WEBHOOK_PAUSE_THRESHOLD failures in a row
+  paused_deliveries: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  secret?: string | null; // Only used on create; see rotateWebhookSecret
+  description?: string | null;
+  surveyIds?: string[]; // Internal survey UUIDs; empty means every survey
+  events?: string[]; // Empty means every event type
+  signatureVersion?: WebhookSignatureVersion; // Keeps the current version when omitted
+  payloadVersion?: WebhookPayloadVersion; // Keeps the current version when omitted
+}
+
+export interface WebhookSigningOptions {
+  version?: WebhookSignatureVersion; // Defaults to 1
+  secondarySecret?: string | null; // Signs alongside the current secret during a rotation
+  deliveryId?: string;
+  payloadVersion?: WebhookPayloadVersion; // Defaults to 2
+}
+
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+
+export const DEFAULT_SECRET_OVERLAP_HOURS = 24;
+export const MAX_SECRET_OVERLAP_HOURS = 720;
+
+// Failed attempts in a row, across all deliveries, before an endpoint pauses
+export const WEBHOOK_PAUSE_THRESHOLD = 20;
+
+export type WebhookDeliveryStatus =
+  | "pending"
+  | "processing"
+  | "delivered"
+  | "failed" // Waiting for its next retry
+  | "held"
+  | "dead" // Out of retries; only a manual redelivery sends it again
+  | "paused"; // Waiting for its endpoint to be resumed
+
+/**
+ * Deliveries that have finished and can be sent again on request
+ */
+export const REDELIVERABLE_STATUSES: WebhookDeliveryStatus[] = [
+  "delivered",
+  "failed",
+  "dead",
+];
+
+// Matches the retry schedule in calculateNextRetryTime
+export const MAX_WEBHOOK_ATTEMPTS = 7;
+
+// How long a worker may hold a claimed delivery before another can take it.
+// Workers refuse to start with less than MIN_WEBHOOK_LEASE_SECONDS.
+export const DEFAULT_WEBHOOK_LEASE_SECONDS = 60;
+
 export interface WebhookQueueItem {
   id: string;
   business_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
   survey_id: string;
-  subject_id: string;
-  score: number;
+  survey_type: SurveyType | null; // Only set for response events
+  subject_id: string | null; // Only set for response events
+  score: number | null; // Only set for response events
   comment: string | null;
+  follow_up: FollowUpAnswer | null;
+  payload: Record<string, unknown> | null; // Data for non-response events
+  endpoint_id: string | null;
   webhook_url: string;
   webhook_secret: string;
   scheduled_for: Date;
-  status: "pending" | "processing" | "delivered" | "failed";
+  status: WebhookDeliveryStatus;
   attempts: number;
   last_attempt_at: Date | null;
   next_retry_at: Date | null;
   response_status_code: number | null;
   response_body: string | null;
+  locked_by: string | null; // Worker holding the delivery while processing
+  locked_until: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
-export interface WebhookPayload {
+/**
+ * Why an attempt failed
+ * http_error means the receiver answered with a non-2xx status; every other
+ * class means no response was received. internal_error is a ClickNPS fault.
+ */
+export type WebhookErrorClass =
+  | "http_error"
+  | "timeout"
+  | "dns_error"
+  | "connection_error"
+  | "tls_error"
+  | "invalid_url"
+  | "internal_error";
+
+export interface WebhookAttempt {
+  id: string;
+  queue_id: string;
+  status_code: number; // 0 when no response was received
+  response_body: string | null;
+  response_body_truncated: boolean;
+  request_headers: Record<string, string>;
+  duration_ms: number | null; // Null for attempts recorded before timing
+  error_class: WebhookErrorClass | null;
+  attempted_at: Date;
+}
+
+export interface WebhookSendResult {
+  success: boolean;
+  statusCode: number;
+  responseBody: string;
+  responseBodyTruncated: boolean;
+  requestHeaders: Record<string, string>;
+  durationMs: number;
+  errorClass: WebhookErrorClass | null;
+}
+
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// A lease covers one send plus its database work, so leave twice the timeout
+export const MIN_WEBHOOK_LEASE_SECONDS = (WEBHOOK_TIMEOUT_MS / 1000) * 2;
+export const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+/**
+ * Data for response.created and response.comment_added
+ */
+export interface ResponseEventData {
+  survey_id: string;
+  survey_type: SurveyType; // The scale the score is on
+  subject_id: string;
+  score: number;
+  comment: string | null;
+  follow_up: FollowUpAnswer | null;
+}
+
+/**
+ * Body sent for response events to endpoints on payload version 1
+ */
+export interface LegacyWebhookPayload {
   survey_id: string;
   subject_id: string;
   score: number;
@@ -38,6 +207,37 @@ export interface WebhookPayload {
   timestamp: string;
 }
 
+/**
+ * Data for links.minted
+ */
+export interface LinksMintedEventData {
+  survey_id: string;
+  subject_ids: string[];
+  expires_at: string;
+}
+
+/**
+ * Data for survey.created and survey.deleted
+ */
+export interface SurveyEventData {
+  survey_id: string;
+  title: string;
+}
+
+/**
+ * Envelope sent to endpoints for every event
+ */
+export interface WebhookEvent<TData = unknown> {
+  id: string;
+  type: WebhookEventType;
+  version: number;
+  created_at: string;
+  data: TData;
+}
+
+const isResponseEvent = (type: WebhookEventType): boolean =>
+  type === "response.created" || type === "response.comment_added";
+
 /**
  * Generate a strong random webhook secret
  */
@@ -47,55 +247,434 @@ export const generateWebhookSecret = (): string => {
 };
 
 /**
- * Update webhook settings for a business
+ * Confirm every survey belongs to the business
+ */
+const assertSurveysBelongToBusiness = async (
+  businessId: string,
+  surveyIds: string[],
+): Promise<void> => {
+  if (surveyIds.length === 0) return;
+
+  const result = await db`
+    SELECT id FROM surveys
+    WHERE business_id = ${businessId} AND id IN ${db(surveyIds)}
+  `;
+
+  if (result.length !== new Set(surveyIds).size) {
+    throw new Error("Survey not found");
+  }
+};
+
+/**
+ * Replace the survey scope of an endpoint
+ */
+const replaceEndpointSurveys = async (
+  tx: SQL,
+  endpointId: string,
+  surveyIds: string[],
+): Promise<void> => {
+  await tx`DELETE FROM webhook_endpoint_surveys WHERE endpoint_id = ${endpointId}`;
+
+  const rows = [...new Set(surveyIds)].map((surveyId) => ({
+    endpoint_id: endpointId,
+    survey_id: surveyId,
+  }));
+  if (rows.length > 0) {
+    await tx`INSERT INTO webhook_endpoint_surveys ${tx(rows)}`;
+  }
+};
+
+/**
+ * Reject event types we don't emit
+ */
+const parseEventTypes = (events: string[]): WebhookEventType[] => {
+  const unknown = events.filter(
+    (event) => !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType),
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown webhook event type: ${unknown[0]}`);
+  }
+  return [...new Set(events)] as WebhookEventType[];
+};
+
+/**
+ * Replace the event subscriptions of an endpoint
+ */
+const replaceEndpointEvents = async (
+  tx: SQL,
+  endpointId: string,
+  events: WebhookEventType[],
+): Promise<void> => {
+  await tx`DELETE FROM webhook_endpoint_events WHERE endpoint_id = ${endpointId}`;
+
+  const rows = events.map((eventType) => ({
+    endpoint_id: endpointId,
+    event_type: eventType,
+  }));
+  if (rows.length > 0) {
+    await tx`INSERT INTO webhook_endpoint_events ${tx(rows)}`;
+  }
+};
+
+// Hide a previous secret once its overlap has ended, even before the
+// expiry sweep clears it
+const activeSecondarySecret = db`
+  CASE
+    WHEN secondary_secret_expires_at IS NULL
+      OR secondary_secret_expires_at > CURRENT_TIMESTAMP
+    THEN secondary_secret
+  END
+`;
+const activeSecondaryExpiry = db`
+  CASE
+    WHEN secondary_secret_expires_at > CURRENT_TIMESTAMP
+    THEN secondary_secret_expires_at
+  END
+`;
+
+/**
+ * List webhook endpoints for a business with their survey scope and events
+ */
+export const listWebhookEndpoints = async (
+  businessId: string,
+): Promise<WebhookEndpoint[]> => {
+  const endpoints = await db`
+    SELECT
+      id, business_id, url, secret, signature_version, payload_version,
+      description,
+      all_surveys, consecutive_failures, paused_at, created_at, updated_at,
+      ${activeSecondarySecret} AS secondary_secret,
+      ${activeSecondaryExpiry} AS secondary_secret_expires_at,
+      (
+        SELECT COUNT(*)::int
+        FROM webhook_queue wq
+        WHERE wq.endpoint_id = webhook_endpoints.id AND wq.status = 'paused'
+      ) AS paused_deliveries
+    FROM webhook_endpoints
+    WHERE business_id = ${businessId}
+    ORDER BY created_at ASC
+  `;
+
+  if (endpoints.length === 0) {
+    return [];
+  }
+
+  const scopes = await db`
+    SELECT wes.endpoint_id, s.id, s.survey_id, s.title
+    FROM webhook_endpoint_surveys wes
+    JOIN surveys s ON s.id = wes.survey_id
+    WHERE wes.endpoint_id IN ${db(endpoints.map((e: { id: string }) => e.id))}
+    ORDER BY s.title ASC
+  `;
+
+  const subscriptions = await db`
+    SELECT endpoint_id, event_type
+    FROM webhook_endpoint_events
+    WHERE endpoint_id IN ${db(endpoints.map((e: { id: string }) => e.id))}
+  `;
+
+  return endpoints.map(
+    (endpoint: Omit<WebhookEndpoint, "surveys" | "events">) => ({
+      ...endpoint,
+      surveys: scopes
+        .filter((scope: { endpoint_id: string }) => {
+          return scope.endpoint_id === endpoint.id;
+        })
+        .map((scope: WebhookEndpointSurvey) => ({
+          id: scope.id,
+          survey_id: scope.survey_id,
+          title: scope.title,
+        })),
+      events: WEBHOOK_EVENT_TYPES.filter((eventType) =>
+        subscriptions.some(
+          (subscription: { endpoint_id: string; event_type: string }) =>
+            subscription.endpoint_id === endpoint.id &&
+            subscription.event_type === eventType,
+        ),
+      ),
+    }),
+  );
+};
+
+/**
+ * Get a single webhook endpoint for a business
+ */
+export const getWebhookEndpoint = async (
+  businessId: string,
+  endpointId: string,
+): Promise<WebhookEndpoint | null> => {
+  const endpoints = await listWebhookEndpoints(businessId);
+  return endpoints.find((endpoint) => endpoint.id === endpointId) ?? null;
+};
+
+/**
+ * Create a webhook endpoint
  * Auto-generates secret if none provided
  */
-export const updateWebhookSettings = async (
+export const createWebhookEndpoint = async (
   businessId: string,
-  webhookUrl: string | null,
-  webhookSecret?: string | null,
-): Promise<{ webhook_url: string | null; webhook_secret: string | null }> => {
-  let finalSecret = webhookSecret;
-
-  // Auto-generate secret if URL is provided but no secret given
-  if (webhookUrl && !webhookSecret) {
-    finalSecret = generateWebhookSecret();
+  input: WebhookEndpointInput,
+): Promise<WebhookEndpoint> => {
+  const [{ count }] = await db`
+    SELECT COUNT(*)::int as count FROM webhook_endpoints WHERE business_id = ${businessId}
+  `;
+  if (count >= MAX_WEBHOOK_ENDPOINTS) {
+    throw new Error(
+      `A business can have at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints`,
+    );
   }
 
-  const result = (await db`
-    UPDATE businesses
-    SET 
-      webhook_url = ${webhookUrl},
-      webhook_secret = ${finalSecret},
+  const surveyIds = input.surveyIds ?? [];
+  const events = parseEventTypes(input.events ?? []);
+  await assertSurveysBelongToBusiness(businessId, surveyIds);
+
+  const endpointId = await db.begin(async (tx) => {
+    const [endpoint] = await tx`
+      INSERT INTO webhook_endpoints (
+        business_id, url, secret, description, all_surveys, signature_version,
+        payload_version
+      )
+      VALUES (
+        ${businessId}, ${input.url}, ${input.secret || generateWebhookSecret()},
+        ${input.description || null}, ${surveyIds.length === 0},
+        ${input.signatureVersion ?? 2}, ${input.payloadVersion ?? 2}
+      )
+      RETURNING id
+    `;
+
+    await replaceEndpointSurveys(tx, endpoint.id, surveyIds);
+    await replaceEndpointEvents(tx, endpoint.id, events);
+
+    return endpoint.id as string;
+  });
+
+  return (await getWebhookEndpoint(businessId, endpointId)) as WebhookEndpoint;
+};
+
+/**
+ * Update a webhook endpoint's URL, description, survey scope, events,
+ * signature version and payload version
+ * The secret only changes through rotateWebhookSecret
+ */
+export const updateWebhookEndpoint = async (
+  businessId: string,
+  endpointId: string,
+  input: WebhookEndpointInput,
+): Promise<WebhookEndpoint> => {
+  const surveyIds = input.surveyIds ?? [];
+  const events = parseEventTypes(input.events ?? []);
+  await assertSurveysBelongToBusiness(businessId, surveyIds);
+
+  await db.begin(async (tx) => {
+    const result = await tx`
+      UPDATE webhook_endpoints
+      SET
+        url = ${input.url},
+        signature_version = COALESCE(${input.signatureVersion ?? null}::smallint, signature_version),
+        payload_version = COALESCE(${input.payloadVersion ?? null}::smallint, payload_version),
+        description = ${input.description || null},
+        all_surveys = ${surveyIds.length === 0},
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${endpointId} AND business_id = ${businessId}
+      RETURNING id
+    `;
+
+    if (result.length === 0) {
+      throw new Error("Webhook endpoint not found");
+    }
+
+    await replaceEndpointSurveys(tx, endpointId, surveyIds);
+    await replaceEndpointEvents(tx, endpointId, events);
+  });
+
+  return (await getWebhookEndpoint(businessId, endpointId)) as WebhookEndpoint;
+};
+
+/**
+ * Replace an endpoint's secret, keeping the old one valid for an overlap
+ * Deliveries are signed with both secrets until the overlap ends: v2 puts
+ * both in its header, v1 adds a second header signed with the previous
+ * secret. Auto-generates the new secret if none is provided.
+ */
+export const rotateWebhookSecret = async (
+  businessId: string,
+  endpointId: string,
+  options: {
+    secret?: string | null;
+    overlapHours?: number;
+    userId?: string | null;
+  } = {},
+): Promise<WebhookEndpoint> => {
+  const overlapHours = options.overlapHours ?? DEFAULT_SECRET_OVERLAP_HOURS;
+  if (
+    !Number.isInteger(overlapHours) ||
+    overlapHours < 0 ||
+    overlapHours > MAX_SECRET_OVERLAP_HOURS
+  ) {
+    throw new Error(
+      `Overlap must be between 0 and ${MAX_SECRET_OVERLAP_HOURS} hours`,
+    );
+  }
+
+  const newSecret = options.secret || generateWebhookSecret();
+
+  const result = await db`
+    UPDATE webhook_endpoints
+    SET
+      secondary_secret = CASE
+        WHEN ${overlapHours}::int > 0 THEN secret
+      END,
+      secondary_secret_expires_at = CASE
+        WHEN ${overlapHours}::int > 0
+        THEN CURRENT_TIMESTAMP + make_interval(hours => ${overlapHours}::int)
+      END,
+      secret = ${newSecret},
       updated_at = CURRENT_TIMESTAMP
-    WHERE id = ${businessId}
-    RETURNING webhook_url, webhook_secret
-  `) as Array<{ webhook_url: string | null; webhook_secret: string | null }>;
+    WHERE id = ${endpointId} AND business_id = ${businessId}
+    RETURNING url, secondary_secret_expires_at
+  `;
 
   if (result.length === 0) {
-    throw new Error("Business not found");
+    throw new Error("Webhook endpoint not found");
   }
 
-  return result[0];
+  await recordAuditEntry(
+    businessId,
+    "webhook.secret_rotated",
+    {
+      endpoint_id: endpointId,
+      url: result[0].url,
+      previous_secret_expires_at: result[0].secondary_secret_expires_at,
+    },
+    options.userId ?? null,
+  );
+
+  return (await getWebhookEndpoint(businessId, endpointId)) as WebhookEndpoint;
 };
 
 /**
- * Get webhook settings for a business
+ * Stop signing with an endpoint's previous secret before its overlap ends
  */
-export const getWebhookSettings = async (
+export const retireSecondaryWebhookSecret = async (
   businessId: string,
-): Promise<WebhookSettings | null> => {
+  endpointId: string,
+  userId: string | null = null,
+): Promise<void> => {
   const result = await db`
-    SELECT webhook_url, webhook_secret
-    FROM businesses
-    WHERE id = ${businessId}
+    UPDATE webhook_endpoints
+    SET
+      secondary_secret = NULL,
+      secondary_secret_expires_at = NULL,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = ${endpointId} AND business_id = ${businessId}
+    RETURNING url
   `;
 
   if (result.length === 0) {
-    return null;
+    throw new Error("Webhook endpoint not found");
+  }
+
+  await recordAuditEntry(
+    businessId,
+    "webhook.secret_retired",
+    { endpoint_id: endpointId, url: result[0].url },
+    userId,
+  );
+};
+
+/**
+ * Clear previous secrets whose overlap has ended
+ * Writes one audit entry per expired secret; returns how many expired.
+ */
+export const expireWebhookSecrets = async (): Promise<number> => {
+  return await db.begin(async (tx) => {
+    const expired = await tx`
+      UPDATE webhook_endpoints
+      SET
+        secondary_secret = NULL,
+        secondary_secret_expires_at = NULL,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE secondary_secret IS NOT NULL
+        AND secondary_secret_expires_at <= CURRENT_TIMESTAMP
+      RETURNING id, business_id, url
+    `;
+
+    for (const endpoint of expired) {
+      await recordAuditEntryInTransaction(
+        tx,
+        endpoint.business_id,
+        "webhook.secret_expired",
+        { endpoint_id: endpoint.id, url: endpoint.url },
+      );
+    }
+
+    return expired.length;
+  });
+};
+
+/**
+ * Delete a webhook endpoint
+ * Deliveries already queued for it are left to finish
+ */
+export const deleteWebhookEndpoint = async (
+  businessId: string,
+  endpointId: string,
+): Promise<void> => {
+  const result = (await db`
+    DELETE FROM webhook_endpoints
+    WHERE id = ${endpointId} AND business_id = ${businessId}
+  `) as DatabaseMutationResult;
+
+  if (!hasAffectedRows(result)) {
+    throw new Error("Webhook endpoint not found");
   }
+};
 
-  return result[0] as WebhookSettings;
+/**
+ * Get the endpoints that should receive an event for a survey
+ * An endpoint matches when it takes all surveys or its scope includes the
+ * survey, and has no event subscriptions or subscribes to the event type.
+ */
+export const getMatchingWebhookEndpoints = async (
+  businessId: string,
+  surveyId: string,
+  eventType: WebhookEventType = "response.created",
+): Promise<
+  Array<{ id: string; url: string; secret: string; paused_at: Date | null }>
+> => {
+  const result = await db`
+    SELECT we.id, we.url, we.secret, we.paused_at
+    FROM webhook_endpoints we
+    WHERE we.business_id = ${businessId}
+      AND (
+        NOT EXISTS (
+          SELECT 1 FROM webhook_endpoint_events wee WHERE wee.endpoint_id = we.id
+        )
+        OR EXISTS (
+          SELECT 1 FROM webhook_endpoint_events wee
+          WHERE wee.endpoint_id = we.id AND wee.event_type = ${eventType}
+        )
+      )
+      AND (
+        we.all_surveys
+        OR EXISTS (
+          SELECT 1
+          FROM webhook_endpoint_surveys wes
+          JOIN surveys s ON s.id = wes.survey_id
+          WHERE wes.endpoint_id = we.id
+            AND s.business_id = ${businessId}
+            AND s.survey_id = ${surveyId}
+        )
+      )
+    ORDER BY we.created_at ASC
+  `;
+
+  return result as Array<{
+    id: string;
+    url: string;
+    secret: string;
+    paused_at: Date | null;
+  }>;
 };
 
 /**
@@ -109,68 +688,229 @@ export const generateWebhookSignature = (
 };
 
 /**
- * Queue a webhook for delivery with specified delay
+ * Queue an event for delivery with specified delay
+ * Fans out one queue item per matching endpoint, all sharing one event id,
+ * leaving out any endpoints in skipEndpointIds.
+ * Response events keep their fields in columns so a pending delivery can
+ * pick up a later comment; other events carry their data in payload.
+ */
+export const queueWebhookEvent = async (
+  businessId: string,
+  eventType: WebhookEventType,
+  data:
+    | (Omit<ResponseEventData, "comment" | "follow_up"> & {
+        comment?: string | null;
+        follow_up?: FollowUpAnswer | null;
+      })
+    | LinksMintedEventData
+    | SurveyEventData,
+  delaySeconds = 0,
+  skipEndpointIds: string[] = [],
+): Promise<string[]> => {
+  const endpoints = (
+    await getMatchingWebhookEndpoints(businessId, data.survey_id, eventType)
+  ).filter((endpoint) => !skipEndpointIds.includes(endpoint.id));
+
+  if (endpoints.length === 0) {
+    // No webhook configured, skip queuing
+    return [];
+  }
+
+  const scheduledFor = new Date();
+  scheduledFor.setSeconds(scheduledFor.getSeconds() + delaySeconds);
+
+  // Out of credits: keep the delivery but hold it until credits are granted
+  const status = (await shouldHoldWebhooks(businessId)) ? "held" : "pending";
+
+  const eventId = randomUUID();
+  const responseData = isResponseEvent(eventType)
+    ? (data as ResponseEventData)
+    : null;
+
+  const rows = endpoints.map((endpoint) => ({
+    id: randomUUID(),
+    business_id: businessId,
+    endpoint_id: endpoint.id,
+    event_id: eventId,
+    event_type: eventType,
+    survey_id: data.survey_id,
+    survey_type: responseData?.survey_type ?? null,
+    subject_id: responseData?.subject_id ?? null,
+    score: responseData?.score ?? null,
+    comment: responseData?.comment || null,
+    follow_up: responseData?.follow_up ?? null,
+    payload: responseData ? null : data,
+    webhook_url: endpoint.url,
+    webhook_secret: endpoint.secret,
+    scheduled_for: scheduledFor,
+    // A paused endpoint keeps its deliveries until it is resumed
+    status: endpoint.paused_at ? "paused" : status,
+  }));
+
+  await db`INSERT INTO webhook_queue ${db(rows)}`;
+
+  return rows.map((row) => row.id);
+};
+
+/**
+ * Queue a response.created event with specified delay
+ * The delay leaves time for an optional comment to be folded in
  */
 export const queueWebhookDelivery = async (
   businessId: string,
   responseData: {
     survey_id: string;
+    survey_type: SurveyType;
     subject_id: string;
     score: number;
     comment?: string | null;
+    follow_up?: FollowUpAnswer | null;
   },
   delaySeconds = 180,
-): Promise<string | null> => {
-  // Get webhook settings for this business
-  const settings = await getWebhookSettings(businessId);
+): Promise<string[]> => {
+  return queueWebhookEvent(
+    businessId,
+    "response.created",
+    responseData,
+    delaySeconds,
+  );
+};
 
-  if (!settings?.webhook_url || !settings?.webhook_secret) {
-    // No webhook configured, skip queuing
-    return null;
+/**
+ * Build the envelope sent for a queue item
+ */
+export const buildWebhookEvent = (item: WebhookQueueItem): WebhookEvent => {
+  const data = isResponseEvent(item.event_type)
+    ? {
+        survey_id: item.survey_id,
+        // Deliveries queued before survey types were added are NPS
+        survey_type: item.survey_type ?? DEFAULT_SURVEY_TYPE,
+        subject_id: item.subject_id,
+        score: item.score,
+        comment: item.comment,
+        follow_up: item.follow_up ?? null,
+      }
+    : (item.payload ?? {});
+
+  return {
+    id: item.event_id,
+    type: item.event_type,
+    version: WEBHOOK_EVENT_VERSION,
+    created_at: new Date(item.created_at).toISOString(),
+    data,
+  };
+};
+
+/**
+ * Body sent for an event, in the endpoint's payload version
+ * Version 1 only changes response events; other events always use the
+ * envelope.
+ */
+export const formatWebhookBody = (
+  event: WebhookEvent,
+  payloadVersion: WebhookPayloadVersion = 2,
+): WebhookEvent | LegacyWebhookPayload => {
+  if (payloadVersion === 2 || !isResponseEvent(event.type)) {
+    return event;
   }
 
-  const scheduledFor = new Date();
-  scheduledFor.setSeconds(scheduledFor.getSeconds() + delaySeconds);
+  const data = event.data as ResponseEventData;
+  return {
+    survey_id: data.survey_id,
+    subject_id: data.subject_id,
+    score: data.score,
+    comment: data.comment,
+    timestamp: event.created_at,
+  };
+};
 
-  const id = randomUUID();
+/**
+ * Resolve how a queued delivery is signed and which body it gets
+ * Uses the endpoint's current settings so a rotation applies to queued items;
+ * deliveries whose endpoint was deleted fall back to the queued secret and v1.
+ */
+export const getDeliverySigning = async (
+  item: WebhookQueueItem,
+): Promise<{ secret: string; options: WebhookSigningOptions }> => {
+  const result = item.endpoint_id
+    ? await db`
+        SELECT
+          secret, ${activeSecondarySecret} AS secondary_secret,
+          signature_version, payload_version
+        FROM webhook_endpoints
+        WHERE id = ${item.endpoint_id}
+      `
+    : [];
 
-  await db`
-    INSERT INTO webhook_queue (
-      id, business_id, survey_id, subject_id, score, comment,
-      webhook_url, webhook_secret, scheduled_for
-    )
-    VALUES (
-      ${id}, ${businessId}, ${responseData.survey_id}, ${responseData.subject_id},
-      ${responseData.score}, ${responseData.comment || null},
-      ${settings.webhook_url}, ${settings.webhook_secret}, ${scheduledFor}
-    )
-  `;
+  if (result.length === 0) {
+    return {
+      secret: item.webhook_secret,
+      options: { version: 1, deliveryId: item.id },
+    };
+  }
 
-  return id;
+  return {
+    secret: result[0].secret,
+    options: {
+      version: result[0].signature_version,
+      secondarySecret: result[0].secondary_secret,
+      deliveryId: item.id,
+      payloadVersion: result[0].payload_version,
+    },
+  };
 };
 
 /**
  * Send HTTP POST webhook with proper headers and signature
+ * v1 signs the body only, with the previous secret in its own header during
+ * a rotation; v2 signs `timestamp.body` with every active secret
  */
 export const sendWebhook = async (
-  payload: WebhookPayload,
+  event: WebhookEvent,
   webhookUrl: string,
   webhookSecret: string,
-): Promise<{ success: boolean; statusCode: number; responseBody: string }> => {
-  const payloadJson = JSON.stringify(payload);
-  const signature = generateWebhookSignature(payloadJson, webhookSecret);
-  const timestamp = Math.floor(Date.now() / 1000).toString();
+  options: WebhookSigningOptions = {},
+  timeoutMs = WEBHOOK_TIMEOUT_MS,
+): Promise<WebhookSendResult> => {
+  const payloadJson = JSON.stringify(
+    formatWebhookBody(event, options.payloadVersion),
+  );
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature =
+    options.version === 2
+      ? signWebhookV2(
+          payloadJson,
+          [webhookSecret, options.secondarySecret].filter(
+            (secret): secret is string => Boolean(secret),
+          ),
+          timestamp,
+        )
+      : signWebhookV1(payloadJson, webhookSecret);
+
+  const requestHeaders = {
+    "Content-Type": "application/json",
+    "X-ClickNPS-Signature": signature,
+    ...(options.version !== 2 && options.secondarySecret
+      ? {
+          "X-ClickNPS-Signature-Previous": signWebhookV1(
+            payloadJson,
+            options.secondarySecret,
+          ),
+        }
+      : {}),
+    "X-ClickNPS-Timestamp": timestamp.toString(),
+    "X-ClickNPS-Delivery-Id": options.deliveryId ?? randomUUID(),
+    "X-ClickNPS-Event": event.type,
+    "User-Agent": "ClickNPS-Webhooks/1.0",
+  };
+  const startedAt = performance.now();
 
   try {
     const response = await fetch(webhookUrl, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-ClickNPS-Signature": `sha256=${signature}`,
-        "X-ClickNPS-Timestamp": timestamp,
-        "User-Agent": "ClickNPS-Webhooks/1.0",
-      },
+      headers: requestHeaders,
       body: payloadJson,
+      signal: AbortSignal.timeout(timeoutMs),
     });
 
     const responseBody = await response.text();
@@ -178,17 +918,42 @@ export const sendWebhook = async (
     return {
       success: response.ok,
       statusCode: response.status,
-      responseBody: responseBody.slice(0, 1000), // Limit stored response size
+      responseBody: responseBody.slice(0, MAX_RESPONSE_BODY_LENGTH),
+      responseBodyTruncated: responseBody.length > MAX_RESPONSE_BODY_LENGTH,
+      requestHeaders,
+      durationMs: Math.round(performance.now() - startedAt),
+      errorClass: response.ok ? null : "http_error",
     };
   } catch (error) {
     return {
       success: false,
       statusCode: 0,
       responseBody: error instanceof Error ? error.message : "Unknown error",
+      responseBodyTruncated: false,
+      requestHeaders,
+      durationMs: Math.round(performance.now() - startedAt),
+      errorClass: classifyWebhookError(error),
     };
   }
 };
 
+/**
+ * Work out why a request got no response from the error fetch threw
+ */
+export const classifyWebhookError = (error: unknown): WebhookErrorClass => {
+  if (!(error instanceof Error)) return "connection_error";
+  if (error.name === "TimeoutError" || error.name === "AbortError") {
+    return "timeout";
+  }
+
+  const code = String((error as Error & { code?: unknown }).code ?? "");
+  if (code === "ERR_INVALID_URL") return "invalid_url";
+  if (code === "ENOTFOUND" || code === "EAI_AGAIN") return "dns_error";
+  if (/CERT|TLS|SSL/i.test(code)) return "tls_error";
+
+  return "connection_error";
+};
+
 /**
  * Calculate next retry time with exponential backoff
  * Retry schedule: 1min, 5min, 30min, 2hr, 6hr, 12hr, 24hr
@@ -203,6 +968,24 @@ export const calculateNextRetryTime = (attempts: number): Date => {
   return nextRetry;
 };
 
+// Deliveries for a paused endpoint wait for it to be resumed, and those of
+// a business out of credits are held, as in queueWebhookEvent
+const pendingUnlessPausedOrHeld = db`
+  CASE
+    WHEN EXISTS (
+      SELECT 1 FROM webhook_endpoints we
+      WHERE we.id = webhook_queue.endpoint_id AND we.paused_at IS NOT NULL
+    )
+    THEN 'paused'
+    WHEN EXISTS (
+      SELECT 1 FROM credit_balances cb
+      WHERE cb.business_id = webhook_queue.business_id AND cb.balance < 0
+    )
+    THEN 'held'
+    ELSE 'pending'
+  END
+`;
+
 /**
  * Get pending webhooks ready for processing
  */
@@ -233,7 +1016,6 @@ export const getRetryWebhooks = async (
     WHERE status = 'failed'
       AND next_retry_at IS NOT NULL
       AND next_retry_at <= CURRENT_TIMESTAMP
-      AND attempts < 7
     ORDER BY next_retry_at ASC
     LIMIT ${limit}
   `;
@@ -242,13 +1024,58 @@ export const getRetryWebhooks = async (
 };
 
 /**
- * Mark webhook as processing to prevent double-processing
+ * Claim due pending and retry webhooks for a worker
+ * Rows are locked with SKIP LOCKED, so workers running side by side never
+ * claim the same delivery, then leased to the worker for `leaseSeconds`.
  */
-export const markWebhookProcessing = async (id: string): Promise<boolean> => {
+export const claimWebhooks = async (
+  workerId: string,
+  limit = 10,
+  leaseSeconds = DEFAULT_WEBHOOK_LEASE_SECONDS,
+): Promise<WebhookQueueItem[]> => {
+  const result = await db`
+    WITH due AS (
+      SELECT id
+      FROM webhook_queue
+      WHERE (status = 'pending' AND scheduled_for <= CURRENT_TIMESTAMP)
+        OR (
+          status = 'failed'
+          AND next_retry_at IS NOT NULL
+          AND next_retry_at <= CURRENT_TIMESTAMP
+        )
+      ORDER BY
+        CASE WHEN status = 'failed' THEN next_retry_at ELSE scheduled_for END ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    UPDATE webhook_queue
+    SET
+      status = 'processing',
+      locked_by = ${workerId},
+      locked_until = CURRENT_TIMESTAMP + ${leaseSeconds}::int * INTERVAL '1 second',
+      updated_at = CURRENT_TIMESTAMP
+    FROM due
+    WHERE webhook_queue.id = due.id
+    RETURNING webhook_queue.*
+  `;
+
+  return result as WebhookQueueItem[];
+};
+
+/**
+ * Mark a single webhook as processing to prevent double-processing
+ */
+export const markWebhookProcessing = async (
+  id: string,
+  workerId: string | null = null,
+  leaseSeconds = DEFAULT_WEBHOOK_LEASE_SECONDS,
+): Promise<boolean> => {
   const result = (await db`
     UPDATE webhook_queue
     SET 
       status = 'processing',
+      locked_by = ${workerId},
+      locked_until = CURRENT_TIMESTAMP + ${leaseSeconds}::int * INTERVAL '1 second',
       updated_at = CURRENT_TIMESTAMP
     WHERE id = ${id} AND status IN ('pending', 'failed')
   `) as DatabaseMutationResult;
@@ -257,7 +1084,35 @@ export const markWebhookProcessing = async (id: string): Promise<boolean> => {
 };
 
 /**
- * Update webhook after delivery attempt
+ * Put deliveries whose lease ran out back in the queue
+ * Their worker stopped before recording an attempt, so the receiver may or
+ * may not have seen them; they are sent again with the same delivery id,
+ * unless their endpoint is paused or the business is out of credits.
+ */
+export const reclaimExpiredWebhookLeases = async (): Promise<number> => {
+  const reclaimed = await db`
+    UPDATE webhook_queue
+    SET
+      status = ${pendingUnlessPausedOrHeld},
+      locked_by = NULL,
+      locked_until = NULL,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE status = 'processing' AND locked_until < CURRENT_TIMESTAMP
+    RETURNING id
+  `;
+
+  return reclaimed.length;
+};
+
+/**
+ * Update webhook after delivery attempt and record the attempt
+ * Failures retry on the backoff schedule until MAX_WEBHOOK_ATTEMPTS, then
+ * the delivery is dead. Each failure also counts against the endpoint; after
+ * WEBHOOK_PAUSE_THRESHOLD in a row the endpoint is paused, its queued
+ * deliveries wait for it to be resumed and owners and admins are emailed.
+ * Given a worker id, nothing is recorded unless that worker still holds the
+ * lease, so a worker whose lease ran out can't overwrite a newer attempt.
+ * Returns whether the attempt was recorded.
  */
 export const updateWebhookAfterAttempt = async (
   id: string,
@@ -265,35 +1120,260 @@ export const updateWebhookAfterAttempt = async (
   statusCode: number,
   responseBody: string,
   attempts: number,
+  details: Partial<
+    Pick<
+      WebhookSendResult,
+      "requestHeaders" | "durationMs" | "errorClass" | "responseBodyTruncated"
+    >
+  > = {},
+  workerId: string | null = null,
+): Promise<boolean> => {
+  const outcome = await db.begin(async (tx) => {
+    const [item] = await tx`
+      SELECT business_id, endpoint_id
+      FROM webhook_queue
+      WHERE id = ${id}
+        AND (${workerId}::text IS NULL OR locked_by = ${workerId})
+      FOR UPDATE
+    `;
+    if (!item) {
+      // Erased while it was being sent, or the lease passed to another worker
+      return { recorded: false, paused: null };
+    }
+
+    let endpoint: {
+      url: string;
+      consecutive_failures: number;
+      paused_at: Date | null;
+    } | null = null;
+    let pausedNow = false;
+
+    if (item.endpoint_id) {
+      if (success) {
+        await tx`
+          UPDATE webhook_endpoints
+          SET consecutive_failures = 0
+          WHERE id = ${item.endpoint_id} AND consecutive_failures > 0
+        `;
+      } else {
+        [endpoint] = await tx`
+          SELECT url, consecutive_failures, paused_at
+          FROM webhook_endpoints
+          WHERE id = ${item.endpoint_id}
+          FOR UPDATE
+        `;
+      }
+    }
+
+    if (endpoint) {
+      endpoint.consecutive_failures += 1;
+      pausedNow =
+        !endpoint.paused_at &&
+        endpoint.consecutive_failures >= WEBHOOK_PAUSE_THRESHOLD;
+
+      await tx`
+        UPDATE webhook_endpoints
+        SET
+          consecutive_failures = ${endpoint.consecutive_failures},
+          paused_at = CASE WHEN ${pausedNow} THEN CURRENT_TIMESTAMP ELSE paused_at END,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${item.endpoint_id}
+      `;
+    }
+
+    const isPaused = !success && (pausedNow || !!endpoint?.paused_at);
+    const isDead = !success && !isPaused && attempts >= MAX_WEBHOOK_ATTEMPTS;
+    const status = success
+      ? "delivered"
+      : isPaused
+        ? "paused"
+        : isDead
+          ? "dead"
+          : "failed";
+    const nextRetryAt =
+      status === "failed" ? calculateNextRetryTime(attempts) : null;
+
+    await tx`
+      UPDATE webhook_queue
+      SET 
+        status = ${status},
+        attempts = ${attempts},
+        last_attempt_at = CURRENT_TIMESTAMP,
+        next_retry_at = ${nextRetryAt},
+        response_status_code = ${statusCode},
+        response_body = ${responseBody},
+        locked_by = NULL,
+        locked_until = NULL,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${id}
+    `;
+
+    await tx`
+      INSERT INTO webhook_attempts (
+        queue_id, status_code, response_body, response_body_truncated,
+        request_headers, duration_ms, error_class
+      )
+      VALUES (
+        ${id}, ${statusCode}, ${responseBody},
+        ${details.responseBodyTruncated ?? false},
+        ${details.requestHeaders ?? {}}, ${details.durationMs ?? null},
+        ${details.errorClass ?? (success || statusCode === 0 ? null : "http_error")}
+      )
+    `;
+
+    if (!pausedNow || !endpoint) {
+      return { recorded: true, paused: null };
+    }
+
+    // Everything still queued for the endpoint waits with it, including
+    // deliveries held for credits; resuming holds them again if needed
+    await tx`
+      UPDATE webhook_queue
+      SET
+        status = 'paused',
+        next_retry_at = NULL,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE endpoint_id = ${item.endpoint_id}
+        AND status IN ('pending', 'failed', 'held')
+    `;
+
+    await recordAuditEntryInTransaction(
+      tx,
+      item.business_id,
+      "webhook.endpoint_paused",
+      {
+        endpoint_id: item.endpoint_id,
+        url: endpoint.url,
+        consecutive_failures: endpoint.consecutive_failures,
+      },
+    );
+
+    return {
+      recorded: true,
+      paused: {
+        businessId: item.business_id as string,
+        url: endpoint.url,
+        consecutiveFailures: endpoint.consecutive_failures as number,
+      },
+    };
+  });
+
+  if (outcome.paused) {
+    await notifyWebhookEndpointPaused(
+      outcome.paused.businessId,
+      outcome.paused.url,
+      outcome.paused.consecutiveFailures,
+    );
+  }
+
+  return outcome.recorded;
+};
+
+/**
+ * Email the owners and admins of a business that an endpoint was paused
+ * Failures are logged rather than thrown; the pause itself has already
+ * been saved.
+ */
+const notifyWebhookEndpointPaused = async (
+  businessId: string,
+  endpointUrl: string,
+  consecutiveFailures: number,
 ): Promise<void> => {
-  const status = success ? "delivered" : "failed";
-  const nextRetryAt = success ? null : calculateNextRetryTime(attempts);
+  try {
+    const business = await getBusiness(businessId);
+    const members = await getBusinessMembers(businessId);
+    const settingsUrl = `${process.env.BASE_URL || "http://localhost:3000"}/settings/webhooks`;
+    const emailService = getEmailService();
 
-  await db`
-    UPDATE webhook_queue
-    SET 
-      status = ${status},
-      attempts = ${attempts},
-      last_attempt_at = CURRENT_TIMESTAMP,
-      next_retry_at = ${nextRetryAt},
-      response_status_code = ${statusCode},
-      response_body = ${responseBody},
-      updated_at = CURRENT_TIMESTAMP
-    WHERE id = ${id}
-  `;
+    for (const member of members) {
+      if (member.role !== "owner" && member.role !== "admin") continue;
+
+      await emailService.sendWebhookEndpointPaused({
+        to: { email: member.email },
+        businessName: business?.business_name || "Your Team",
+        endpointUrl,
+        consecutiveFailures,
+        settingsUrl,
+      });
+    }
+  } catch (error) {
+    console.error("Error sending webhook endpoint paused alert:", error);
+  }
+};
+
+/**
+ * Resume a paused webhook endpoint
+ * Its waiting deliveries are released with a fresh retry schedule. They
+ * keep their scheduled times, so the worker sends them in their original
+ * order. Returns how many were released.
+ */
+export const resumeWebhookEndpoint = async (
+  businessId: string,
+  endpointId: string,
+  userId: string | null = null,
+): Promise<number> => {
+  const hold = await shouldHoldWebhooks(businessId);
+
+  return await db.begin(async (tx) => {
+    const [endpoint] = await tx`
+      SELECT url, paused_at
+      FROM webhook_endpoints
+      WHERE id = ${endpointId} AND business_id = ${businessId}
+      FOR UPDATE
+    `;
+
+    if (!endpoint) {
+      throw new Error("Webhook endpoint not found");
+    }
+    if (!endpoint.paused_at) {
+      throw new Error("Webhook endpoint is not paused");
+    }
+
+    await tx`
+      UPDATE webhook_endpoints
+      SET
+        paused_at = NULL,
+        consecutive_failures = 0,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${endpointId}
+    `;
+
+    const released = await tx`
+      UPDATE webhook_queue
+      SET
+        status = ${hold ? "held" : "pending"},
+        attempts = 0,
+        next_retry_at = NULL,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE endpoint_id = ${endpointId} AND status = 'paused'
+      RETURNING id
+    `;
+
+    await recordAuditEntryInTransaction(
+      tx,
+      businessId,
+      "webhook.endpoint_resumed",
+      { endpoint_id: endpointId, url: endpoint.url, count: released.length },
+      userId,
+    );
+
+    return released.length;
+  });
 };
 
 /**
- * Get recent webhook deliveries for a business (for settings UI)
+ * Get recent webhook deliveries for a business (for settings UI and API)
  */
 export const getRecentWebhookDeliveries = async (
   businessId: string,
   limit = 10,
+  status?: WebhookDeliveryStatus,
 ): Promise<WebhookQueueItem[]> => {
   const result = await db`
     SELECT *
     FROM webhook_queue
     WHERE business_id = ${businessId}
+      AND (${status ?? null}::text IS NULL OR status = ${status ?? null})
     ORDER BY created_at DESC
     LIMIT ${limit}
   `;
@@ -302,15 +1382,133 @@ export const getRecentWebhookDeliveries = async (
 };
 
 /**
- * Update a pending webhook with comment (before it's sent)
+ * Get a single webhook delivery belonging to a business
+ */
+export const getWebhookDelivery = async (
+  businessId: string,
+  deliveryId: string,
+): Promise<WebhookQueueItem | null> => {
+  const result = await db`
+    SELECT *
+    FROM webhook_queue
+    WHERE id = ${deliveryId} AND business_id = ${businessId}
+  `;
+
+  return result.length > 0 ? (result[0] as WebhookQueueItem) : null;
+};
+
+/**
+ * Get every attempt made for a delivery, oldest first
+ */
+export const listWebhookAttempts = async (
+  deliveryId: string,
+): Promise<WebhookAttempt[]> => {
+  const result = await db`
+    SELECT *
+    FROM webhook_attempts
+    WHERE queue_id = ${deliveryId}
+    ORDER BY attempted_at ASC, id ASC
+  `;
+
+  return result as WebhookAttempt[];
+};
+
+/**
+ * Queue a finished delivery to be sent again straight away
+ * Resets the attempt count so the delivery gets the full retry schedule.
+ * Earlier attempts stay in its history. Returns the new status, which is
+ * paused when the delivery's endpoint is, or held when the business is out
+ * of credits.
+ */
+export const redeliverWebhook = async (
+  businessId: string,
+  deliveryId: string,
+): Promise<WebhookDeliveryStatus> => {
+  const delivery = await getWebhookDelivery(businessId, deliveryId);
+  if (!delivery) {
+    throw new Error("Webhook delivery not found");
+  }
+
+  const result = await db`
+    UPDATE webhook_queue
+    SET
+      status = ${pendingUnlessPausedOrHeld},
+      attempts = 0,
+      scheduled_for = CURRENT_TIMESTAMP,
+      next_retry_at = NULL,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = ${deliveryId}
+      AND business_id = ${businessId}
+      AND status IN ${db(REDELIVERABLE_STATUSES)}
+    RETURNING status
+  `;
+
+  if (result.length === 0) {
+    throw new Error("Webhook delivery is already queued");
+  }
+
+  return result[0].status as WebhookDeliveryStatus;
+};
+
+/**
+ * Queue every failed or dead delivery whose last attempt was at or after
+ * `since`, optionally for one endpoint
+ * For recovering after a receiver outage; returns how many were queued.
+ */
+export const redeliverFailedWebhooks = async (
+  businessId: string,
+  since: Date,
+  options: { endpointId?: string | null; userId?: string | null } = {},
+): Promise<number> => {
+  return await db.begin(async (tx) => {
+    const redelivered = await tx`
+      UPDATE webhook_queue
+      SET
+        status = ${pendingUnlessPausedOrHeld},
+        attempts = 0,
+        scheduled_for = CURRENT_TIMESTAMP,
+        next_retry_at = NULL,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE business_id = ${businessId}
+        AND status IN ('failed', 'dead')
+        AND last_attempt_at >= ${since}
+        AND (${options.endpointId ?? null}::uuid IS NULL OR endpoint_id = ${options.endpointId ?? null})
+      RETURNING id
+    `;
+
+    if (redelivered.length > 0) {
+      await recordAuditEntryInTransaction(
+        tx,
+        businessId,
+        "webhook.failed_redelivered",
+        {
+          since: since.toISOString(),
+          endpoint_id: options.endpointId ?? null,
+          count: redelivered.length,
+        },
+        options.userId ?? null,
+      );
+    }
+
+    return redelivered.length;
+  });
+};
+
+const pluckEndpointIds = (rows: Array<{ endpoint_id: string | null }>) =>
+  rows.flatMap((row) => (row.endpoint_id ? [row.endpoint_id] : []));
+
+/**
+ * Update a queued response.created webhook with comment (before it's sent)
+ * Returns the endpoints whose pending delivery picked the comment up; the
+ * others hear about it as response.comment_added.
  */
 export const updatePendingWebhookComment = async (
   businessId: string,
   surveyId: string,
   subjectId: string,
   comment: string,
-): Promise<boolean> => {
-  const result = (await db`
+): Promise<string[]> => {
+  const result = await db`
     UPDATE webhook_queue
     SET
       comment = ${comment},
@@ -318,10 +1516,38 @@ export const updatePendingWebhookComment = async (
     WHERE business_id = ${businessId}
       AND survey_id = ${surveyId}
       AND subject_id = ${subjectId}
-      AND status = 'pending'
-  `) as DatabaseMutationResult;
+      AND event_type = 'response.created'
+      AND status IN ('pending', 'held', 'paused')
+    RETURNING endpoint_id
+  `;
 
-  return hasAffectedRows(result);
+  return pluckEndpointIds(result);
+};
+
+/**
+ * Update a queued response.created webhook with a follow-up answer
+ * Returns the endpoints whose pending delivery picked the answer up
+ */
+export const updatePendingWebhookFollowUp = async (
+  businessId: string,
+  surveyId: string,
+  subjectId: string,
+  followUp: FollowUpAnswer,
+): Promise<string[]> => {
+  const result = await db`
+    UPDATE webhook_queue
+    SET
+      follow_up = ${followUp},
+      updated_at = CURRENT_TIMESTAMP
+    WHERE business_id = ${businessId}
+      AND survey_id = ${surveyId}
+      AND subject_id = ${subjectId}
+      AND event_type = 'response.created'
+      AND status IN ('pending', 'held', 'paused')
+    RETURNING endpoint_id
+  `;
+
+  return pluckEndpointIds(result);
 };
 
 /**
@@ -344,7 +1570,8 @@ export const refreshPendingWebhookTimer = async (
     WHERE business_id = ${businessId}
       AND survey_id = ${surveyId}
       AND subject_id = ${subjectId}
-      AND status = 'pending'
+      AND event_type = 'response.created'
+      AND status IN ('pending', 'held', 'paused')
   `) as DatabaseMutationResult;
 
   return hasAffectedRows(result);
@@ -355,24 +1582,35 @@ export const refreshPendingWebhookTimer = async (
  */
 export const sendTestWebhook = async (
   businessId: string,
+  endpointId: string,
 ): Promise<{ success: boolean; statusCode: number; responseBody: string }> => {
-  const settings = await getWebhookSettings(businessId);
+  const endpoint = await getWebhookEndpoint(businessId, endpointId);
 
-  if (!settings?.webhook_url || !settings?.webhook_secret) {
-    throw new Error("Webhook not configured");
+  if (!endpoint) {
+    throw new Error("Webhook endpoint not found");
   }
 
-  const testPayload: WebhookPayload = {
-    survey_id: "test",
-    subject_id: "test_user",
-    score: 8,
-    comment: "This is a test webhook from ClickNPS",
-    timestamp: new Date().toISOString(),
+  const testEvent: WebhookEvent<ResponseEventData> = {
+    id: randomUUID(),
+    type: "response.created",
+    version: WEBHOOK_EVENT_VERSION,
+    created_at: new Date().toISOString(),
+    data: {
+      survey_id: "test",
+      survey_type: "nps",
+      subject_id: "test_user",
+      score: 8,
+      comment: "This is a test webhook from ClickNPS",
+      follow_up: {
+        question: "What's the main reason for your score?",
+        answer: "Ease of use",
+      },
+    },
   };
 
-  return await sendWebhook(
-    testPayload,
-    settings.webhook_url,
-    settings.webhook_secret,
-  );
+  return await sendWebhook(testEvent, endpoint.url, endpoint.secret, {
+    version: endpoint.signature_version,
+    secondarySecret: endpoint.secondary_secret,
+    payloadVersion: endpoint.payload_version,
+  });
 };
@@ -0,0 +1,263 @@
+import {
+  AlertTriangle,
+  CheckCircle,
+  Coins,
+  History,
+  Settings,
+  ShoppingCart,
+} from "lucide-react";
+import type { JSX } from "react";
+import { Alert } from "../components/alert";
+import { CsrfField } from "../components/csrf-field";
+import { Layout } from "../components/layouts";
+import { PageHeader } from "../components/page-header";
+import type { AuthContext } from "../middleware/auth";
+import type { CreditLedgerEntry, CreditSummary } from "../services/credits";
+import { CREDIT_PACKS } from "../services/payments";
+
+export interface BillingState {
+  updated?: boolean;
+  purchased?: boolean;
+  cancelled?: boolean;
+  error?: string;
+}
+
+export interface BillingProps {
+  auth: AuthContext;
+  summary: CreditSummary;
+  ledger: CreditLedgerEntry[];
+  state?: BillingState;
+  csrfToken: string | null;
+}
+
+export const Billing = (props: BillingProps): JSX.Element => {
+  const { summary, ledger, state, csrfToken } = props;
+
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const getBalanceClass = (balance: number): string => {
+    if (balance < 0) return "text-error";
+    if (balance === 0) return "text-warning";
+    return "text-primary";
+  };
+
+  return (
+    <Layout
+      title="Billing - ClickNPS"
+      description="View your response credit balance and billing history."
+      name="billing"
+      auth={props.auth}
+      csrfToken={props.csrfToken}
+    >
+      <div>
+        <PageHeader
+          title="Billing"
+          description="Each first-click response uses one credit. Credits never expire."
+        />
+
+        {state?.updated && (
+          <div className="mb-6">
+            <Alert
+              type="success"
+              icon={<CheckCircle className="w-6 h-6" />}
+              title="Billing settings updated"
+            />
+          </div>
+        )}
+
+        {state?.purchased && (
+          <div className="mb-6">
+            <Alert
+              type="success"
+              icon={<CheckCircle className="w-6 h-6" />}
+              title="Payment received"
+              description="Your credits will appear below as soon as the payment is confirmed."
+            />
+          </div>
+        )}
+
+        {state?.cancelled && (
+          <div className="mb-6">
+            <Alert
+              type="info"
+              icon={<AlertTriangle className="w-6 h-6" />}
+              title="Checkout cancelled"
+              description="You have not been charged."
+            />
+          </div>
+        )}
+
+        {state?.error && (
+          <div className="mb-6">
+            <Alert
+              type="error"
+              icon={<AlertTriangle className="w-6 h-6" />}
+              title={`Error: ${state.error}`}
+            />
+          </div>
+        )}
+
+        {summary.balance < 0 &&
+          summary.zero_balance_behavior === "hold_webhooks" && (
+            <div className="mb-6">
+              <Alert
+                type="warning"
+                icon={<AlertTriangle className="w-6 h-6" />}
+                title="Webhooks are on hold"
+                description={`You have ${Math.abs(summary.balance)} unpaid responses. Webhook deliveries resume once credits are added.`}
+              />
+            </div>
+          )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+          <div className="card bg-neutral text-neutral-content">
+            <div className="card-body">
+              <h2 className="card-title text-lg">
+                <Coins className="w-5 h-5" />
+                Credit Balance
+              </h2>
+              <div
+                className={`text-5xl font-bold ${getBalanceClass(summary.balance)}`}
+              >
+                {summary.balance.toLocaleString("en-US")}
+              </div>
+              <p className="text-sm opacity-70">
+                responses remaining · $5 per 1,000 responses
+              </p>
+            </div>
+          </div>
+
+          <div className="card bg-neutral text-neutral-content">
+            <div className="card-body">
+              <h2 className="card-title text-lg">
+                <Settings className="w-5 h-5" />
+                When Credits Run Out
+              </h2>
+              <form method="POST" action="/settings/billing">
+                <CsrfField token={csrfToken} />
+                <input type="hidden" name="action" value="update_behavior" />
+
+                <fieldset className="fieldset">
+                  <label className="label cursor-pointer justify-start gap-3">
+                    <input
+                      type="radio"
+                      name="zero_balance_behavior"
+                      value="hold_webhooks"
+                      className="radio radio-primary"
+                      defaultChecked={
+                        summary.zero_balance_behavior === "hold_webhooks"
+                      }
+                    />
+                    <span>
+                      Keep collecting responses, hold webhooks until credits are
+                      added
+                    </span>
+                  </label>
+                  <label className="label cursor-pointer justify-start gap-3">
+                    <input
+                      type="radio"
+                      name="zero_balance_behavior"
+                      value="refuse"
+                      className="radio radio-primary"
+                      defaultChecked={
+                        summary.zero_balance_behavior === "refuse"
+                      }
+                    />
+                    <span>Stop accepting new responses</span>
+                  </label>
+                </fieldset>
+
+                <button type="submit" className="btn btn-primary mt-4">
+                  Save
+                </button>
+              </form>
+            </div>
+          </div>
+        </div>
+
+        <div className="mb-8">
+          <h2 className="text-xl font-bold mb-4">
+            <ShoppingCart className="w-6 h-6 inline mr-2" />
+            Buy Credits
+          </h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {CREDIT_PACKS.map((pack) => (
+              <div
+                key={pack.id}
+                className="card bg-neutral text-neutral-content"
+              >
+                <div className="card-body">
+                  <h3 className="card-title">{pack.name}</h3>
+                  <div className="text-3xl font-bold">
+                    {`$${(pack.amountCents / 100).toFixed(2)}`}
+                  </div>
+                  <form method="POST" action="/settings/billing">
+                    <CsrfField token={csrfToken} />
+                    <input type="hidden" name="action" value="checkout" />
+                    <input type="hidden" name="pack_id" value={pack.id} />
+                    <button type="submit" className="btn btn-primary w-full">
+                      Buy
+                    </button>
+                  </form>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="mb-8">
+          <h2 className="text-xl font-bold mb-4">
+            <History className="w-6 h-6 inline mr-2" />
+            Credit History
+          </h2>
+
+          {ledger.length === 0 ? (
+            <div className="text-center py-12 bg-base-200 rounded-lg">
+              <p className="text-base-content/70">No credit activity yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto bg-neutral rounded-box shadow-md">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Description</th>
+                    <th className="text-right">Amount</th>
+                    <th className="text-right">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ledger.map((entry) => (
+                    <tr key={entry.id}>
+                      <td className="whitespace-nowrap text-sm opacity-70">
+                        {formatDate(entry.created_at)}
+                      </td>
+                      <td>{entry.description}</td>
+                      <td
+                        className={`text-right font-mono ${entry.amount > 0 ? "text-success" : ""}`}
+                      >
+                        {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                      </td>
+                      <td className="text-right font-mono">
+                        {entry.balance_after}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
@@ -6,7 +6,14 @@ import type {
   LatestResponse,
   WeeklyNpsData,
 } from "@server/services/analytics";
+import type { NpsBreakdown } from "@server/utils/nps";
+import {
+  formatScore,
+  getScoreCategory,
+  SURVEY_SCALES,
+} from "@server/utils/survey-types";
 import { CheckCircle } from "lucide-react";
+import type { ReactNode } from "react";
 
 export interface DashboardState {
   success?: string;
@@ -22,12 +29,19 @@ type DashboardProps = {
   state?: DashboardState;
 };
 
-const DeltaIndicator = ({ delta }: { delta: number }) => {
+const DeltaIndicator = ({
+  delta,
+  unit = "%",
+}: {
+  delta: number;
+  unit?: string;
+}) => {
   if (delta === 0) return <span className="text-base-content/50">—</span>;
   const isPositive = delta > 0;
   return (
     <span className={isPositive ? "text-success" : "text-error"}>
-      {isPositive ? "↑" : "↓"} {Math.abs(delta)}%
+      {isPositive ? "↑" : "↓"} {Math.abs(delta)}
+      {unit}
     </span>
   );
 };
@@ -39,47 +53,68 @@ const KpiCard = ({
   delta7d,
   delta30d,
   suffix = "",
+  deltaUnit,
+  children,
 }: {
   title: string;
-  value7d: number;
-  value30d: number;
+  value7d: number | null;
+  value30d: number | null;
   delta7d: number;
   delta30d: number;
   suffix?: string;
+  deltaUnit?: string;
+  children?: ReactNode;
 }) => {
   return (
     <div className="stat">
       <div className="stat-title">{title}</div>
       <div className="stat-value text-primary">
-        {value7d}
-        {suffix}
+        {value7d ?? "—"}
+        {value7d !== null && suffix}
       </div>
       <div className="stat-desc flex gap-4 mt-2">
         <div>
           <span className="font-semibold">7d:</span>{" "}
-          <DeltaIndicator delta={delta7d} />
+          <DeltaIndicator delta={delta7d} unit={deltaUnit} />
         </div>
         <div>
-          <span className="font-semibold">30d:</span> {value30d}
-          {suffix} <DeltaIndicator delta={delta30d} />
+          <span className="font-semibold">30d:</span> {value30d ?? "—"}
+          {value30d !== null && suffix}{" "}
+          <DeltaIndicator delta={delta30d} unit={deltaUnit} />
         </div>
       </div>
+      {children}
     </div>
   );
 };
 
-const ResponseCard = ({ response }: { response: LatestResponse }) => {
-  const getScoreBadgeClass = (score: number): string => {
-    if (score >= 9) return "badge-success";
-    if (score >= 7) return "badge-warning";
-    return "badge-error";
-  };
+const NpsBreakdownSummary = ({ breakdown }: { breakdown: NpsBreakdown }) => (
+  <div className="stat-desc mt-1">
+    <span className="text-success">{`${breakdown.promoters} promoters`}</span> ·{" "}
+    <span className="text-warning">{`${breakdown.passives} passives`}</span> ·{" "}
+    <span className="text-error">{`${breakdown.detractors} detractors`}</span>
+  </div>
+);
 
-  const getScoreLabel = (score: number): string => {
-    if (score >= 9) return "Promoter";
-    if (score >= 7) return "Passive";
-    return "Detractor";
-  };
+const SCORE_BADGE_CLASSES = {
+  promoter: "badge-success",
+  passive: "badge-warning",
+  detractor: "badge-error",
+};
+
+const NPS_CATEGORY_NAMES = {
+  promoter: "Promoter",
+  passive: "Passive",
+  detractor: "Detractor",
+};
+
+const ResponseCard = ({ response }: { response: LatestResponse }) => {
+  const category = getScoreCategory(response.surveyType, response.score);
+  // Other scales' category labels already read as a single response's
+  const categoryName =
+    response.surveyType === "nps"
+      ? NPS_CATEGORY_NAMES[category]
+      : SURVEY_SCALES[response.surveyType].categoryLabels[category];
 
   const formatRelativeTime = (date: Date): string => {
     const now = new Date();
@@ -104,14 +139,16 @@ const ResponseCard = ({ response }: { response: LatestResponse }) => {
             <div className="text-xs text-base-content/50">
               {formatRelativeTime(response.respondedAt)}
             </div>
-            <div className={`badge ${getScoreBadgeClass(response.score)}`}>
-              {response.score}
+            <div className={`badge ${SCORE_BADGE_CLASSES[category]}`}>
+              {response.surveyType === "nps"
+                ? response.score
+                : formatScore(response.surveyType, response.score)}
             </div>
           </div>
         </div>
         <div className="text-sm text-base-content/70">
-          <span className="font-semibold">{getScoreLabel(response.score)}</span>{" "}
-          · {response.subjectId}
+          <span className="font-semibold">{categoryName}</span> ·{" "}
+          {response.subjectId}
         </div>
         {response.comment ? (
           <p className="text-sm line-clamp-2">{response.comment}</p>
@@ -135,11 +172,14 @@ const NpsChart = ({ data }: { data: WeeklyNpsData[] }) => {
 
   const chartData = {
     labels: data.map((week) => week.weekLabel),
-    values: data.map((week) => week.averageNps ?? 0),
+    values: data.map((week) => week.nps),
     tooltips: data.map((week) => ({
       dateRange: formatDateRange(week.weekStart, week.weekEnd),
-      nps: week.averageNps?.toFixed(1) ?? "N/A",
+      score: week.nps?.toString() ?? "N/A",
       responseCount: week.responseCount,
+      promoters: week.promoters,
+      passives: week.passives,
+      detractors: week.detractors,
     })),
   };
 
@@ -209,12 +249,15 @@ export const Dashboard = ({
               delta30d={stats.totalResponses.delta30d}
             />
             <KpiCard
-              title="Average NPS"
-              value7d={stats.averageNps.value7d}
-              value30d={stats.averageNps.value30d}
-              delta7d={stats.averageNps.delta7d}
-              delta30d={stats.averageNps.delta30d}
-            />
+              title="NPS"
+              value7d={stats.nps.value7d}
+              value30d={stats.nps.value30d}
+              delta7d={stats.nps.delta7d}
+              delta30d={stats.nps.delta30d}
+              deltaUnit=" pts"
+            >
+              <NpsBreakdownSummary breakdown={stats.nps.breakdown7d} />
+            </KpiCard>
             <KpiCard
               title="Response Rate"
               value7d={stats.responseRate.value7d}
@@ -0,0 +1,307 @@
+import {
+  AlertTriangle,
+  CalendarClock,
+  CheckCircle,
+  Clock,
+  History,
+  Loader,
+  Play,
+  RotateCcw,
+  XCircle,
+} from "lucide-react";
+import type { JSX } from "react";
+import { Alert } from "../components/alert";
+import { CsrfField } from "../components/csrf-field";
+import { Layout } from "../components/layouts";
+import { PageHeader } from "../components/page-header";
+import type { JobsState } from "../controllers/app/jobs";
+import type { AuthContext } from "../middleware/auth";
+import type { Job, JobSchedule, JobStatus } from "../services/jobs";
+
+export interface JobsStatusProps {
+  auth: AuthContext;
+  schedules: JobSchedule[];
+  recentJobs: Job[];
+  statusFilter?: JobStatus;
+  state?: JobsState;
+  csrfToken: string | null;
+}
+
+const STATUS_FILTERS: Array<{ value?: JobStatus; label: string }> = [
+  { label: "All" },
+  { value: "pending", label: "Pending" },
+  { value: "running", label: "Running" },
+  { value: "completed", label: "Completed" },
+  { value: "failed", label: "Failed" },
+];
+
+const getJobStatusBadge = (status: JobStatus) => {
+  switch (status) {
+    case "completed":
+      return "badge badge-success badge-soft";
+    case "failed":
+      return "badge badge-error badge-soft";
+    case "running":
+      return "badge badge-info badge-soft";
+    default:
+      return "badge badge-warning badge-soft";
+  }
+};
+
+const getJobStatusIcon = (status: JobStatus) => {
+  const iconClass = "w-4 h-4";
+  switch (status) {
+    case "completed":
+      return <CheckCircle className={iconClass} />;
+    case "failed":
+      return <XCircle className={iconClass} />;
+    case "running":
+      return <Loader className={iconClass} />;
+    default:
+      return <Clock className={iconClass} />;
+  }
+};
+
+export const JobsStatus = (props: JobsStatusProps): JSX.Element => {
+  const { schedules, recentJobs, statusFilter, state, csrfToken } = props;
+
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  };
+
+  const formatDuration = (job: Job) => {
+    if (!job.started_at || !job.finished_at) return null;
+    const ms =
+      new Date(job.finished_at).getTime() - new Date(job.started_at).getTime();
+    return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+  };
+
+  return (
+    <Layout
+      title="Background Jobs - ClickNPS"
+      description="Schedules and recent runs of ClickNPS background jobs."
+      name="jobs"
+      auth={props.auth}
+      csrfToken={props.csrfToken}
+    >
+      <div>
+        <PageHeader
+          title="Background Jobs"
+          description="Scheduled work such as webhook delivery, session cleanup and data retention, across every business."
+        />
+
+        {state?.queued && (
+          <div className="mb-6">
+            <Alert
+              type="success"
+              icon={<Play className="w-6 h-6" />}
+              title={`${state.queued.name} has been queued and will run shortly.`}
+            />
+          </div>
+        )}
+
+        {state?.retried && (
+          <div className="mb-6">
+            <Alert
+              type="success"
+              icon={<RotateCcw className="w-6 h-6" />}
+              title={`${state.retried.name} will be retried shortly.`}
+            />
+          </div>
+        )}
+
+        {state?.error && (
+          <div className="mb-6">
+            <Alert
+              type="error"
+              icon={<AlertTriangle className="w-6 h-6" />}
+              title={`Error: ${state.error}`}
+            />
+          </div>
+        )}
+
+        {/* Schedules */}
+        <div className="mb-8">
+          <h2 className="text-xl font-bold mb-4">
+            <CalendarClock className="w-6 h-6 inline mr-2" />
+            Schedules
+          </h2>
+
+          {schedules.length === 0 ? (
+            <div className="hero bg-base-200 rounded-box p-8">
+              <div className="hero-content text-center">
+                <p className="opacity-80">
+                  No schedules yet. They are registered when a job runner
+                  starts.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <ul className="list bg-neutral rounded-box shadow-md">
+              {schedules.map((schedule) => (
+                <li key={schedule.name} className="list-row">
+                  <div className="list-col-grow min-w-0">
+                    <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-3 mb-2">
+                          <span className="text-lg font-semibold font-mono">
+                            {schedule.name}
+                          </span>
+                          <span className="badge badge-outline font-mono">
+                            {schedule.schedule}
+                          </span>
+                          {schedule.last_status && (
+                            <span
+                              className={getJobStatusBadge(
+                                schedule.last_status,
+                              )}
+                            >
+                              {schedule.last_status}
+                            </span>
+                          )}
+                        </div>
+
+                        <div className="flex flex-wrap gap-4 text-xs opacity-60">
+                          <span>
+                            Next run: {formatDate(schedule.next_run_at)}
+                          </span>
+                          <span>
+                            Last finished:{" "}
+                            {schedule.last_finished_at
+                              ? formatDate(schedule.last_finished_at)
+                              : "Never"}
+                          </span>
+                        </div>
+                        {schedule.last_error && (
+                          <div className="text-sm text-error mt-2 break-all">
+                            {schedule.last_error}
+                          </div>
+                        )}
+                      </div>
+
+                      <form method="POST" action="/admin/jobs">
+                        <CsrfField token={csrfToken} />
+                        <input type="hidden" name="action" value="run_now" />
+                        <input
+                          type="hidden"
+                          name="name"
+                          value={schedule.name}
+                        />
+                        <button type="submit" className="btn btn-sm">
+                          <Play className="w-4 h-4" />
+                          Run now
+                        </button>
+                      </form>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Recent Jobs */}
+        <div className="mb-8">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+            <h2 className="text-xl font-bold">
+              <History className="w-6 h-6 inline mr-2" />
+              Recent Jobs
+            </h2>
+            <div className="join">
+              {STATUS_FILTERS.map(({ value, label }) => (
+                <a
+                  key={label}
+                  href={value ? `/admin/jobs?status=${value}` : "/admin/jobs"}
+                  className={`btn btn-sm join-item ${
+                    statusFilter === value ? "btn-active" : ""
+                  }`}
+                >
+                  {label}
+                </a>
+              ))}
+            </div>
+          </div>
+
+          {recentJobs.length === 0 ? (
+            <div className="hero bg-base-200 rounded-box p-8">
+              <div className="hero-content text-center">
+                <p className="opacity-80">No jobs to show.</p>
+              </div>
+            </div>
+          ) : (
+            <ul className="list bg-neutral rounded-box shadow-md">
+              {recentJobs.map((job) => (
+                <li key={job.id} className="list-row">
+                  <div className="list-col-grow min-w-0">
+                    <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-3 mb-2">
+                          <div className="flex items-center gap-2">
+                            {getJobStatusIcon(job.status)}
+                            <span className={getJobStatusBadge(job.status)}>
+                              {job.status}
+                            </span>
+                          </div>
+                          <span className="font-mono">{job.name}</span>
+                        </div>
+
+                        <div className="flex flex-wrap gap-4 text-xs opacity-60">
+                          <span>
+                            Attempts: {job.attempts} of {job.max_attempts}
+                          </span>
+                          <span>Queued: {formatDate(job.created_at)}</span>
+                          {job.status === "pending" && (
+                            <span>Runs: {formatDate(job.run_at)}</span>
+                          )}
+                          {formatDuration(job) && (
+                            <span>Took: {formatDuration(job)}</span>
+                          )}
+                          {job.locked_by && (
+                            <span>
+                              Runner:{" "}
+                              <span className="font-mono">{job.locked_by}</span>
+                            </span>
+                          )}
+                        </div>
+                        {job.result && (
+                          <code className="text-xs bg-base-300 px-2 py-1 rounded font-mono mt-2 inline-block break-all">
+                            {JSON.stringify(job.result)}
+                          </code>
+                        )}
+                        {job.last_error && (
+                          <div className="text-sm text-error mt-2 break-all">
+                            {job.last_error}
+                          </div>
+                        )}
+                      </div>
+
+                      {job.status === "failed" && (
+                        <form method="POST" action="/admin/jobs">
+                          <CsrfField token={csrfToken} />
+                          <input type="hidden" name="action" value="retry" />
+                          <input type="hidden" name="id" value={job.id} />
+                          <input type="hidden" name="name" value={job.name} />
+                          <button type="submit" className="btn btn-sm">
+                            <RotateCcw className="w-4 h-4" />
+                            Retry
+                          </button>
+                        </form>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
@@ -0,0 +1,362 @@
+import {
+  AlertTriangle,
+  Archive,
+  CheckCircle,
+  ClipboardList,
+  History,
+  UserX,
+} from "lucide-react";
+import type { JSX } from "react";
+import { Alert } from "../components/alert";
+import { CsrfField } from "../components/csrf-field";
+import { Layout } from "../components/layouts";
+import { PageHeader } from "../components/page-header";
+import type { AuthContext } from "../middleware/auth";
+import type { AuditEntry } from "../services/audit";
+import {
+  MAX_RETENTION_DAYS,
+  type RetentionPolicy,
+  type RetentionPurgeCounts,
+  type SurveyRetentionPolicy,
+} from "../services/retention";
+import type { ErasureReceipt } from "../services/subjects";
+
+export interface RetentionState {
+  updated?: "business" | "survey";
+  receipt?: ErasureReceipt;
+  error?: string;
+}
+
+export interface RetentionProps {
+  auth: AuthContext;
+  policy: RetentionPolicy;
+  surveys: SurveyRetentionPolicy[];
+  lastPurge: AuditEntry | null;
+  state?: RetentionState;
+  csrfToken: string | null;
+}
+
+const PURGE_COUNT_LABELS: Array<[keyof RetentionPurgeCounts, string]> = [
+  ["comments_cleared", "Comments cleared"],
+  ["responses_deleted", "Responses deleted"],
+  ["survey_links_deleted", "Survey links deleted"],
+  ["webhook_comments_cleared", "Webhook comments cleared"],
+  ["webhook_deliveries_deleted", "Webhook deliveries deleted"],
+];
+
+const formatRetention = (days: number | null): string => {
+  if (days === null) return "Kept forever";
+  if (days % 365 === 0) {
+    const years = days / 365;
+    return `${years} ${years === 1 ? "year" : "years"}`;
+  }
+  return `${days} ${days === 1 ? "day" : "days"}`;
+};
+
+const RetentionFields = ({
+  policy,
+  placeholder,
+}: {
+  policy: RetentionPolicy;
+  placeholder: string;
+}) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <fieldset className="fieldset">
+      <legend className="fieldset-legend">Clear comments after (days)</legend>
+      <input
+        type="number"
+        name="comment_retention_days"
+        min={1}
+        max={MAX_RETENTION_DAYS}
+        defaultValue={policy.comment_retention_days ?? ""}
+        placeholder={placeholder}
+        className="input w-full"
+      />
+    </fieldset>
+    <fieldset className="fieldset">
+      <legend className="fieldset-legend">Delete responses after (days)</legend>
+      <input
+        type="number"
+        name="response_retention_days"
+        min={1}
+        max={MAX_RETENTION_DAYS}
+        defaultValue={policy.response_retention_days ?? ""}
+        placeholder={placeholder}
+        className="input w-full"
+      />
+    </fieldset>
+  </div>
+);
+
+export const Retention = (props: RetentionProps): JSX.Element => {
+  const { policy, surveys, lastPurge, state, csrfToken } = props;
+
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <Layout
+      title="Data Retention - ClickNPS"
+      description="Choose how long ClickNPS keeps your survey responses and comments."
+      name="retention"
+      auth={props.auth}
+      csrfToken={props.csrfToken}
+    >
+      <div>
+        <PageHeader
+          title="Data Retention"
+          description="Choose how long responses and comments are kept. Data past its retention period is purged every night."
+        />
+
+        {state?.updated && (
+          <div className="mb-6">
+            <Alert
+              type="success"
+              icon={<CheckCircle className="w-6 h-6" />}
+              title={
+                state.updated === "business"
+                  ? "Retention policy saved"
+                  : "Survey retention saved"
+              }
+              description="It will be applied at the next nightly purge."
+            />
+          </div>
+        )}
+
+        {state?.receipt && (
+          <div className="mb-6">
+            <Alert
+              type="success"
+              icon={<CheckCircle className="w-6 h-6" />}
+              title={`Erased subject ${state.receipt.subject_id}`}
+              description={`Deleted ${state.receipt.responses_deleted} responses, ${state.receipt.survey_links_deleted} survey links and ${state.receipt.webhook_deliveries_deleted} webhook deliveries; cancelled ${state.receipt.webhook_deliveries_cancelled} pending deliveries.`}
+            />
+            <div className="mt-4">
+              <h3 className="font-semibold mb-2">Erasure receipt</h3>
+              <pre className="bg-base-200 rounded-lg p-4 text-xs overflow-x-auto">
+                {JSON.stringify(state.receipt, null, 2)}
+              </pre>
+            </div>
+          </div>
+        )}
+
+        {state?.error && (
+          <div className="mb-6">
+            <Alert
+              type="error"
+              icon={<AlertTriangle className="w-6 h-6" />}
+              title={`Error: ${state.error}`}
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+          <div className="card bg-neutral text-neutral-content">
+            <div className="card-body">
+              <h2 className="card-title text-lg">
+                <Archive className="w-5 h-5" />
+                Business Policy
+              </h2>
+              <div className="flex flex-wrap gap-2 mb-2">
+                <span className="badge badge-soft">
+                  Comments: {formatRetention(policy.comment_retention_days)}
+                </span>
+                <span className="badge badge-soft">
+                  Responses: {formatRetention(policy.response_retention_days)}
+                </span>
+              </div>
+              <form method="POST" action="/settings/retention">
+                <CsrfField token={csrfToken} />
+                <input type="hidden" name="action" value="update_business" />
+                <RetentionFields policy={policy} placeholder="Keep forever" />
+                <p className="text-sm opacity-70 mt-2">
+                  Deleting a response also deletes its survey links and webhook
+                  deliveries. Leave a field blank to keep that data forever.
+                </p>
+                <button type="submit" className="btn btn-primary mt-4">
+                  Save
+                </button>
+              </form>
+            </div>
+          </div>
+
+          <div className="card bg-neutral text-neutral-content">
+            <div className="card-body">
+              <h2 className="card-title text-lg">
+                <History className="w-5 h-5" />
+                Last Purge
+              </h2>
+              {lastPurge ? (
+                <div>
+                  <p className="text-sm opacity-70 mb-3">
+                    Ran {formatDate(lastPurge.created_at)}
+                  </p>
+                  <table className="table table-sm">
+                    <tbody>
+                      {PURGE_COUNT_LABELS.map(([key, label]) => (
+                        <tr key={key}>
+                          <td>{label}</td>
+                          <td className="text-right font-mono">
+                            {Number(lastPurge.details[key] ?? 0)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm opacity-70">
+                  No purge has run yet. The first one runs the night after a
+                  policy is saved.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="mb-8">
+          <h2 className="text-xl font-bold mb-4">
+            <ClipboardList className="w-6 h-6 inline mr-2" />
+            Survey Overrides
+          </h2>
+
+          {surveys.length === 0 ? (
+            <div className="text-center py-12 bg-base-200 rounded-lg">
+              <p className="text-base-content/70">No surveys yet</p>
+            </div>
+          ) : (
+            <ul className="list bg-neutral rounded-box shadow-md">
+              {surveys.map((survey) => (
+                <li key={survey.survey_id} className="list-row">
+                  <div className="list-col-grow min-w-0">
+                    <div className="flex items-center gap-3 mb-2">
+                      <span className="text-lg font-semibold">
+                        {survey.title}
+                      </span>
+                      <span className="badge badge-outline font-mono">
+                        {survey.public_survey_id}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      <span className="badge badge-soft">
+                        Comments:{" "}
+                        {formatRetention(
+                          survey.comment_retention_days ??
+                            policy.comment_retention_days,
+                        )}
+                      </span>
+                      <span className="badge badge-soft">
+                        Responses:{" "}
+                        {formatRetention(
+                          survey.response_retention_days ??
+                            policy.response_retention_days,
+                        )}
+                      </span>
+                    </div>
+                    <form method="POST" action="/settings/retention">
+                      <CsrfField token={csrfToken} />
+                      <input
+                        type="hidden"
+                        name="action"
+                        value="update_survey"
+                      />
+                      <input
+                        type="hidden"
+                        name="survey_id"
+                        value={survey.survey_id}
+                      />
+                      <RetentionFields
+                        policy={survey}
+                        placeholder="Business policy"
+                      />
+                      <button type="submit" className="btn btn-sm mt-2">
+                        Save
+                      </button>
+                    </form>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="card bg-neutral text-neutral-content mb-8">
+          <div className="card-body">
+            <h2 className="card-title text-lg">
+              <UserX className="w-5 h-5" />
+              Subject Requests
+            </h2>
+            <p className="text-sm opacity-70">
+              Export or erase every link, response, comment and webhook delivery
+              held for a subject_id. Erasure cannot be undone; pending webhook
+              deliveries are cancelled and a signed receipt is shown.
+            </p>
+            <form method="POST" action="/settings/retention">
+              <CsrfField token={csrfToken} />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">Subject ID</legend>
+                  <input
+                    type="text"
+                    name="subject_id"
+                    required
+                    pattern="[a-zA-Z0-9_\-]+"
+                    className="input w-full font-mono"
+                  />
+                </fieldset>
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">Survey</legend>
+                  <select name="subject_survey_id" className="select w-full">
+                    <option value="">All surveys</option>
+                    {surveys.map((survey) => (
+                      <option
+                        key={survey.survey_id}
+                        value={survey.public_survey_id}
+                      >
+                        {survey.title} ({survey.public_survey_id})
+                      </option>
+                    ))}
+                  </select>
+                </fieldset>
+              </div>
+              <label className="label mt-4">
+                <input
+                  type="checkbox"
+                  name="confirm"
+                  value="yes"
+                  className="checkbox checkbox-sm"
+                />
+                I understand erasure permanently deletes this subject's data
+              </label>
+              <div className="flex gap-2 mt-4">
+                <button
+                  type="submit"
+                  name="action"
+                  value="export_subject"
+                  className="btn"
+                >
+                  Export JSON
+                </button>
+                <button
+                  type="submit"
+                  name="action"
+                  value="erase_subject"
+                  className="btn btn-error"
+                >
+                  Erase
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
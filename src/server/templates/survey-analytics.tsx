@@ -0,0 +1,361 @@
+import { ArrowLeft, MessageSquare } from "lucide-react";
+import type { JSX } from "react";
+import { Layout } from "../components/layouts";
+import { PageHeader } from "../components/page-header";
+import type { AuthContext } from "../middleware/auth";
+import {
+  type SurveyAnalytics as SurveyAnalyticsData,
+  type SurveyTrendPoint,
+  TREND_GRANULARITIES,
+  type TrendGranularity,
+} from "../services/analytics";
+import type { Survey } from "../services/surveys";
+import {
+  formatScore,
+  formatSurveyScore,
+  getCategoryScores,
+  getScoreCategory,
+  SURVEY_SCALES,
+  type SurveyType,
+} from "../utils/survey-types";
+
+export type SurveyAnalyticsProps = {
+  auth: AuthContext;
+  survey: Survey;
+  analytics: SurveyAnalyticsData;
+  trend: SurveyTrendPoint[];
+  granularity: TrendGranularity;
+  csrfToken: string | null;
+};
+
+const GRANULARITY_LABELS: Record<TrendGranularity, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+const formatUtc = (date: Date, options: Intl.DateTimeFormatOptions) =>
+  new Intl.DateTimeFormat("en-US", { ...options, timeZone: "UTC" }).format(
+    date,
+  );
+
+const formatPeriodLabel = (
+  point: SurveyTrendPoint,
+  granularity: TrendGranularity,
+): string =>
+  granularity === "month"
+    ? formatUtc(point.periodStart, { month: "short", year: "numeric" })
+    : formatUtc(point.periodStart, { month: "short", day: "numeric" });
+
+const formatPeriodRange = (
+  point: SurveyTrendPoint,
+  granularity: TrendGranularity,
+): string => {
+  if (granularity === "day") {
+    return formatUtc(point.periodStart, {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  }
+  if (granularity === "month") {
+    return formatUtc(point.periodStart, { month: "long", year: "numeric" });
+  }
+
+  const lastDay = new Date(point.periodEnd.getTime() - 24 * 60 * 60 * 1000);
+  const format = (date: Date) =>
+    formatUtc(date, { month: "short", day: "numeric" });
+  return `${format(point.periodStart)} - ${format(lastDay)}`;
+};
+
+// Y axis of the score trend for each type's headline score
+const SCORE_CHART_RANGES: Record<
+  SurveyType,
+  { min: number; max: number; stepSize: number }
+> = {
+  nps: { min: -100, max: 100, stepSize: 50 },
+  csat: { min: 0, max: 100, stepSize: 25 },
+  ces: { min: 1, max: 7, stepSize: 1 },
+  binary: { min: 0, max: 100, stepSize: 25 },
+};
+
+const formatRate = (rate: number | null) => (rate === null ? "—" : `${rate}%`);
+
+const EmptyChart = ({ message }: { message: string }) => (
+  <div className="text-center py-12">
+    <p className="text-base-content/70">No data available</p>
+    <p className="text-sm text-base-content/50 mt-2">{message}</p>
+  </div>
+);
+
+const CategorySplit = ({
+  analytics,
+  type,
+}: {
+  analytics: SurveyAnalyticsData;
+  type: SurveyType;
+}) => {
+  const { promoters, passives, detractors, total } = analytics.breakdown;
+  const share = (count: number) =>
+    total > 0 ? Math.round((count / total) * 100) : 0;
+
+  const labels = SURVEY_SCALES[type].categoryLabels;
+  const categories = [
+    { label: labels.promoter, count: promoters, className: "bg-success" },
+    ...(getCategoryScores(type, "passive").length > 0
+      ? [{ label: labels.passive, count: passives, className: "bg-warning" }]
+      : []),
+    { label: labels.detractor, count: detractors, className: "bg-error" },
+  ];
+
+  return (
+    <div>
+      <div className="flex h-4 w-full rounded-full overflow-hidden bg-base-300">
+        {categories.map(
+          (category) =>
+            category.count > 0 && (
+              <div
+                key={category.label}
+                className={category.className}
+                style={{ width: `${(category.count / total) * 100}%` }}
+              />
+            ),
+        )}
+      </div>
+      <div
+        className={`grid gap-4 mt-4 ${categories.length === 3 ? "grid-cols-3" : "grid-cols-2"}`}
+      >
+        {categories.map((category) => (
+          <div key={category.label}>
+            <div className="flex items-center gap-2 text-sm">
+              <span
+                className={`inline-block w-3 h-3 rounded-full ${category.className}`}
+              />
+              {category.label}
+            </div>
+            <div className="text-2xl font-bold">{share(category.count)}%</div>
+            <div className="text-xs text-base-content/50">
+              {category.count} responses
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const SurveyAnalytics = (props: SurveyAnalyticsProps): JSX.Element => {
+  const { survey, analytics, trend, granularity } = props;
+  const scale = SURVEY_SCALES[survey.type];
+  const labels = trend.map((point) => formatPeriodLabel(point, granularity));
+
+  const scoreChartData = {
+    labels,
+    values: trend.map((point) => point.score),
+    scale: {
+      label: scale.scoreLabel,
+      ...SCORE_CHART_RANGES[survey.type],
+      goodScore: scale.goodScore,
+      fairScore: scale.fairScore,
+      categoryLabels: scale.categoryLabels,
+    },
+    tooltips: trend.map((point) => ({
+      dateRange: formatPeriodRange(point, granularity),
+      score:
+        point.score === null
+          ? "N/A"
+          : formatSurveyScore(survey.type, point.score),
+      responseCount: point.responseCount,
+      promoters: point.promoters,
+      passives: point.passives,
+      detractors: point.detractors,
+    })),
+  };
+
+  const rateChartData = {
+    labels,
+    responseRates: trend.map((point) => point.responseRate),
+    commentRates: trend.map((point) => point.commentRate),
+  };
+
+  return (
+    <Layout
+      title="Survey Analytics - ClickNPS"
+      description="Score distribution, score trend and response rates for a survey."
+      name="survey-analytics"
+      auth={props.auth}
+      csrfToken={props.csrfToken}
+    >
+      <div className="space-y-8">
+        <PageHeader
+          title={
+            <>
+              {survey.title || "Untitled Survey"}
+              <span className="font-normal text-lg text-accent font-mono ml-3 inline-block">
+                {survey.survey_id}
+              </span>
+            </>
+          }
+          description="Survey Analytics"
+        >
+          <a href="/surveys" className="btn btn-ghost">
+            <ArrowLeft size={20} />
+            Back to Surveys
+          </a>
+          <a
+            href={`/surveys/${survey.survey_id}/responses`}
+            className="btn btn-outline"
+          >
+            <MessageSquare size={20} />
+            Responses
+          </a>
+        </PageHeader>
+
+        <div className="card bg-base-200 shadow-sm">
+          <div className="card-body p-0">
+            <div className="stats stats-vertical lg:stats-horizontal">
+              <div className="stat">
+                <div className="stat-title">{scale.scoreLabel}</div>
+                <div className="stat-value text-primary">
+                  {formatSurveyScore(survey.type, analytics.breakdown.score)}
+                </div>
+                <div className="stat-desc">All time</div>
+              </div>
+              <div className="stat">
+                <div className="stat-title">Responses</div>
+                <div className="stat-value text-primary">
+                  {analytics.breakdown.total}
+                </div>
+                <div className="stat-desc">
+                  {analytics.commentCount} with comments
+                </div>
+              </div>
+              <div className="stat">
+                <div className="stat-title">Response Rate</div>
+                <div className="stat-value text-primary">
+                  {formatRate(analytics.responseRate)}
+                </div>
+                <div className="stat-desc">
+                  {analytics.respondents} of {analytics.subjectsMinted} subjects
+                </div>
+              </div>
+              <div className="stat">
+                <div className="stat-title">Comment Rate</div>
+                <div className="stat-value text-primary">
+                  {formatRate(analytics.commentRate)}
+                </div>
+                <div className="stat-desc">Of responses</div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="card bg-base-200 shadow-sm">
+            <div className="card-body">
+              <h2 className="text-2xl font-bold mb-4">Score Distribution</h2>
+              {analytics.breakdown.total === 0 ? (
+                <EmptyChart message="Start collecting responses to see how scores spread" />
+              ) : (
+                <div
+                  style={{
+                    height: "260px",
+                    position: "relative",
+                    width: "100%",
+                  }}
+                >
+                  <canvas
+                    id="score-histogram"
+                    data-chart-data={JSON.stringify({
+                      labels: analytics.scores.map((score) =>
+                        formatScore(survey.type, score),
+                      ),
+                      counts: analytics.distribution,
+                      categories: analytics.scores.map((score) =>
+                        getScoreCategory(survey.type, score),
+                      ),
+                    })}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="card bg-base-200 shadow-sm">
+            <div className="card-body">
+              <h2 className="text-2xl font-bold mb-4">Category Split</h2>
+              {analytics.breakdown.total === 0 ? (
+                <EmptyChart message="Start collecting responses to see the split" />
+              ) : (
+                <CategorySplit analytics={analytics} type={survey.type} />
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <div role="tablist" className="tabs tabs-box">
+            {TREND_GRANULARITIES.map((option) => (
+              <a
+                key={option}
+                role="tab"
+                href={`/surveys/${survey.survey_id}/analytics?granularity=${option}`}
+                className={`tab ${option === granularity ? "tab-active" : ""}`}
+              >
+                {GRANULARITY_LABELS[option]}
+              </a>
+            ))}
+          </div>
+        </div>
+
+        <div className="card bg-base-200 shadow-sm">
+          <div className="card-body">
+            <h2 className="text-2xl font-bold mb-4">
+              {scale.scoreLabel} Over Time
+            </h2>
+            {trend.every((point) => point.responseCount === 0) ? (
+              <EmptyChart message="No responses in this period" />
+            ) : (
+              <div
+                style={{ height: "300px", position: "relative", width: "100%" }}
+              >
+                <canvas
+                  id="nps-chart"
+                  data-chart-data={JSON.stringify(scoreChartData)}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="card bg-base-200 shadow-sm">
+          <div className="card-body">
+            <h2 className="text-2xl font-bold mb-1">
+              Response and Comment Rates
+            </h2>
+            <p className="text-sm text-base-content/50 mb-4">
+              Response rate is the share of subjects sent links in each period
+              who have responded. Comment rate is the share of that period's
+              responses with a comment.
+            </p>
+            {trend.every(
+              (point) =>
+                point.subjectsMinted === 0 && point.responseCount === 0,
+            ) ? (
+              <EmptyChart message="No links were sent in this period" />
+            ) : (
+              <div
+                style={{ height: "300px", position: "relative", width: "100%" }}
+              >
+                <canvas
+                  id="rate-chart"
+                  data-chart-data={JSON.stringify(rateChartData)}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
@@ -0,0 +1,383 @@
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle,
+  FileUp,
+  History,
+} from "lucide-react";
+import type { JSX } from "react";
+import { Alert } from "../components/alert";
+import { CsrfField } from "../components/csrf-field";
+import { Layout } from "../components/layouts";
+import { PageHeader } from "../components/page-header";
+import type { AuthContext } from "../middleware/auth";
+import {
+  IMPORT_FIELDS,
+  IMPORT_PREVIEW_ROWS,
+  type ImportField,
+  type ImportMapping,
+  type ImportPreview,
+  type ImportResult,
+  type ImportSurvey,
+  MAX_IMPORT_ROWS,
+  type ResponseImport,
+} from "../services/imports";
+import { SURVEY_SCALES, type SurveyType } from "../utils/survey-types";
+
+// The uploaded file travels with each step so nothing is stored until commit
+export interface ImportUpload {
+  csv: string;
+  filename: string | null;
+  headers: string[];
+  mapping: ImportMapping;
+}
+
+export type SurveyImportState =
+  | { step: "upload"; error?: string }
+  | { step: "map"; upload: ImportUpload; error?: string }
+  | {
+      step: "preview";
+      upload: ImportUpload;
+      preview: ImportPreview;
+      error?: string;
+    }
+  | { step: "done"; result: ImportResult };
+
+export type SurveyImportProps = {
+  auth: AuthContext;
+  survey: ImportSurvey;
+  imports: ResponseImport[];
+  state: SurveyImportState;
+  createCsrfToken: string | null;
+  csrfToken: string | null;
+};
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  subject_id: "Subject ID",
+  score: "Score",
+  responded_at: "Responded at",
+  comment: "Comment (optional)",
+};
+
+// Errors listed in the preview; the rest are only counted
+const MAX_LISTED_ERRORS = 20;
+
+const formatDate = (date: Date | string): string =>
+  new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "UTC",
+    timeZoneName: "short",
+  }).format(new Date(date));
+
+const UploadFields = ({ upload }: { upload: ImportUpload }) => (
+  <>
+    <input type="hidden" name="csv" value={upload.csv} />
+    <input type="hidden" name="filename" value={upload.filename ?? ""} />
+  </>
+);
+
+// Carries the chosen mapping through steps that don't show the selects
+const HiddenMappingFields = ({ upload }: { upload: ImportUpload }) => (
+  <div>
+    {IMPORT_FIELDS.map((field) => (
+      <input
+        key={field}
+        type="hidden"
+        name={`map_${field}`}
+        value={upload.mapping[field] ?? ""}
+      />
+    ))}
+  </div>
+);
+
+const MappingFields = ({
+  upload,
+  type,
+}: {
+  upload: ImportUpload;
+  type: SurveyType;
+}) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    {IMPORT_FIELDS.map((field) => (
+      <fieldset key={field} className="fieldset">
+        <legend className="fieldset-legend">
+          {field === "score"
+            ? `Score (${SURVEY_SCALES[type].min}-${SURVEY_SCALES[type].max})`
+            : FIELD_LABELS[field]}
+        </legend>
+        <select
+          name={`map_${field}`}
+          defaultValue={upload.mapping[field] ?? ""}
+          className="select w-full"
+        >
+          <option value="">Not in this file</option>
+          {upload.headers.map((header, index) => (
+            // biome-ignore lint/suspicious/noArrayIndexKey: headers can repeat
+            <option key={index} value={index}>
+              {header || `Column ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      </fieldset>
+    ))}
+  </div>
+);
+
+export const SurveyImport = (props: SurveyImportProps): JSX.Element => {
+  const { survey, state, createCsrfToken } = props;
+  const action = `/surveys/${survey.survey_id}/import`;
+  const error = "error" in state ? state.error : undefined;
+
+  return (
+    <Layout
+      title="Import Responses - ClickNPS"
+      description="Import historical NPS responses from another tool."
+      name="survey-import"
+      auth={props.auth}
+      csrfToken={props.csrfToken}
+    >
+      <div>
+        <PageHeader
+          title={
+            <>
+              {survey.title || "Untitled Survey"}
+              <span className="font-normal text-lg text-accent font-mono ml-3 inline-block">
+                {survey.survey_id}
+              </span>
+            </>
+          }
+          description="Import historical responses from another NPS tool. Imported responses show up in trends and reports, but never send webhooks or use credits."
+        >
+          <a
+            href={`/surveys/${survey.survey_id}/responses`}
+            className="btn btn-ghost"
+          >
+            <ArrowLeft size={20} />
+            Back to Responses
+          </a>
+        </PageHeader>
+
+        {error && (
+          <div className="mb-6">
+            <Alert
+              type="error"
+              icon={<AlertTriangle className="w-6 h-6" />}
+              title={`Error: ${error}`}
+            />
+          </div>
+        )}
+
+        {state.step === "upload" && (
+          <div className="card bg-neutral text-neutral-content mb-8">
+            <div className="card-body">
+              <h2 className="card-title text-lg">
+                <FileUp className="w-5 h-5" />
+                1. Upload a CSV
+              </h2>
+              <p className="text-sm opacity-70">
+                The first row must name the columns. Each row needs a subject
+                ID, a score from {SURVEY_SCALES[survey.type].min} to{" "}
+                {SURVEY_SCALES[survey.type].max} and when it was given, such as
+                2024-03-15 or 2024-03-15T09:30:00Z; times without a zone are
+                read as UTC. Up to {MAX_IMPORT_ROWS} rows per file.
+              </p>
+              <form method="POST" action={action} encType="multipart/form-data">
+                <CsrfField token={createCsrfToken} />
+                <input type="hidden" name="action" value="upload" />
+                <input
+                  type="file"
+                  name="file"
+                  accept=".csv,text/csv"
+                  required
+                  className="file-input w-full mt-2"
+                />
+                <button type="submit" className="btn btn-primary mt-4">
+                  Continue
+                </button>
+              </form>
+            </div>
+          </div>
+        )}
+
+        {state.step === "map" && (
+          <div className="card bg-neutral text-neutral-content mb-8">
+            <div className="card-body">
+              <h2 className="card-title text-lg">2. Match the columns</h2>
+              <p className="text-sm opacity-70">
+                {state.upload.filename ?? "Your file"} has{" "}
+                {state.upload.headers.length} columns. Choose which one holds
+                each field.
+              </p>
+              <form method="POST" action={action}>
+                <CsrfField token={createCsrfToken} />
+                <input type="hidden" name="action" value="preview" />
+                <UploadFields upload={state.upload} />
+                <MappingFields upload={state.upload} type={survey.type} />
+                <button type="submit" className="btn btn-primary mt-4">
+                  Preview import
+                </button>
+              </form>
+            </div>
+          </div>
+        )}
+
+        {state.step === "preview" && (
+          <div className="card bg-neutral text-neutral-content mb-8">
+            <div className="card-body">
+              <h2 className="card-title text-lg">3. Check the dry run</h2>
+              <div className="flex flex-wrap gap-2 mb-2">
+                <span className="badge badge-soft">
+                  Rows in file: {state.preview.total}
+                </span>
+                <span className="badge badge-success">
+                  Ready to import: {state.preview.rows.length}
+                </span>
+                <span className="badge badge-error">
+                  Invalid: {state.preview.errors.length}
+                </span>
+                <span className="badge badge-warning">
+                  Already imported: {state.preview.duplicates}
+                </span>
+              </div>
+
+              {state.preview.rows.length > 0 && (
+                <table className="table table-sm">
+                  <thead>
+                    <tr>
+                      <th>Row</th>
+                      <th>Subject ID</th>
+                      <th>Score</th>
+                      <th>Responded at</th>
+                      <th>Comment</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {state.preview.rows
+                      .slice(0, IMPORT_PREVIEW_ROWS)
+                      .map((row) => (
+                        <tr key={row.line}>
+                          <td>{row.line}</td>
+                          <td className="font-mono">{row.subject_id}</td>
+                          <td>{row.score}</td>
+                          <td>{formatDate(row.responded_at)}</td>
+                          <td>{row.comment}</td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              )}
+
+              {state.preview.errors.length > 0 && (
+                <div className="mt-4">
+                  <h3 className="font-semibold mb-2">
+                    These rows will be skipped
+                  </h3>
+                  <ul className="text-sm space-y-1">
+                    {state.preview.errors
+                      .slice(0, MAX_LISTED_ERRORS)
+                      .map((rowError) => (
+                        <li key={rowError.line}>
+                          Row {rowError.line}: {rowError.message}
+                        </li>
+                      ))}
+                  </ul>
+                  {state.preview.errors.length > MAX_LISTED_ERRORS && (
+                    <p className="text-sm opacity-70 mt-1">
+                      and {state.preview.errors.length - MAX_LISTED_ERRORS} more
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2 mt-4">
+                {state.preview.rows.length > 0 && (
+                  <form method="POST" action={action}>
+                    <CsrfField token={createCsrfToken} />
+                    <input type="hidden" name="action" value="commit" />
+                    <UploadFields upload={state.upload} />
+                    <HiddenMappingFields upload={state.upload} />
+                    <button type="submit" className="btn btn-primary">
+                      Import {state.preview.rows.length} responses
+                    </button>
+                  </form>
+                )}
+                <form method="POST" action={action}>
+                  <CsrfField token={createCsrfToken} />
+                  <input type="hidden" name="action" value="map" />
+                  <UploadFields upload={state.upload} />
+                  <HiddenMappingFields upload={state.upload} />
+                  <button type="submit" className="btn btn-ghost">
+                    Change columns
+                  </button>
+                </form>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {state.step === "done" && (
+          <div className="mb-8">
+            <Alert
+              type="success"
+              icon={<CheckCircle className="w-6 h-6" />}
+              title={`Imported ${state.result.imported} responses`}
+              description={
+                state.result.skipped > 0
+                  ? `${state.result.skipped} rows were skipped as invalid or already imported.`
+                  : undefined
+              }
+            />
+            <div className="flex gap-2 mt-4">
+              <a
+                href={`/surveys/${survey.survey_id}/responses`}
+                className="btn btn-primary"
+              >
+                View responses
+              </a>
+              <a href={action} className="btn btn-ghost">
+                Import another file
+              </a>
+            </div>
+          </div>
+        )}
+
+        <div className="mb-8">
+          <h2 className="text-xl font-bold mb-4">
+            <History className="w-6 h-6 inline mr-2" />
+            Past Imports
+          </h2>
+          {props.imports.length === 0 ? (
+            <div className="text-center py-12 bg-base-200 rounded-lg">
+              <p className="text-base-content/70">No imports yet</p>
+            </div>
+          ) : (
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>File</th>
+                  <th>Responses</th>
+                  <th>By</th>
+                  <th>When</th>
+                </tr>
+              </thead>
+              <tbody>
+                {props.imports.map((item) => (
+                  <tr key={item.id}>
+                    <td>{item.filename ?? "Untitled"}</td>
+                    <td>{item.row_count}</td>
+                    <td>{item.user_email ?? "Former member"}</td>
+                    <td>{formatDate(item.created_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
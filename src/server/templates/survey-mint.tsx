@@ -6,6 +6,21 @@ import { Layout } from "../components/layouts";
 import { PageHeader } from "../components/page-header";
 import type { AuthContext } from "../middleware/auth";
 import type { Survey } from "../services/surveys";
+import {
+  buildEmailSnippet,
+  DEFAULT_EMAIL_SNIPPET_STYLE,
+  EMAIL_SNIPPET_STYLE_NAMES,
+  EMAIL_SNIPPET_STYLES,
+  type EmailSnippet,
+  type EmailSnippetStyle,
+} from "../utils/email-snippet";
+import {
+  LOCALE_NAMES,
+  type Locale,
+  matchLocale,
+  SUPPORTED_LOCALES,
+} from "../utils/i18n";
+import { SURVEY_SCALES } from "../utils/survey-types";
 
 export interface SurveyMintState {
   error?: string;
@@ -13,6 +28,8 @@ export interface SurveyMintState {
     subjectId: string;
     links: Record<string, string>;
     expires_at: string;
+    htmlStyle?: EmailSnippetStyle;
+    lang?: Locale; // The links' mint-time locale, for the snippet copy
   };
 }
 
@@ -24,7 +41,52 @@ export type SurveyMintProps = {
   csrfToken: string | null;
 };
 
+/**
+ * Copy-paste HTML and plain text for putting the links in an email
+ */
+const EmailSnippetCard = ({ snippet }: { snippet: EmailSnippet }) => (
+  <div className="card bg-neutral text-neutral-content mb-6">
+    <div className="card-body">
+      <h3 className="card-title">Email Snippet</h3>
+      <p className="text-sm opacity-70 mb-4">
+        Paste the HTML into your email template and the plain text into its text
+        version. Each score links straight to its response.
+      </p>
+      <div
+        className="bg-white rounded p-4 overflow-x-auto"
+        data-element="email-snippet-preview"
+        // biome-ignore lint/security/noDangerouslySetInnerHtml: built from escaped links
+        dangerouslySetInnerHTML={{ __html: snippet.html }}
+      />
+      <label htmlFor="snippetHtml" className="label mt-4">
+        <span className="label-text font-medium">HTML</span>
+      </label>
+      <textarea
+        id="snippetHtml"
+        readOnly
+        rows={6}
+        className="textarea w-full font-mono text-xs"
+        value={snippet.html}
+      />
+      <label htmlFor="snippetText" className="label mt-2">
+        <span className="label-text font-medium">Plain text</span>
+      </label>
+      <textarea
+        id="snippetText"
+        readOnly
+        rows={8}
+        className="textarea w-full font-mono text-xs"
+        value={snippet.text}
+      />
+    </div>
+  </div>
+);
+
 export const SurveyMint = (props: SurveyMintProps): JSX.Element => {
+  const scale = SURVEY_SCALES[props.survey.type];
+  const linkLabel =
+    props.survey.type === "binary" ? "Thumbs Up/Down" : scale.scoreLabel;
+
   return (
     <Layout
       title="Mint Survey Links - ClickNPS"
@@ -43,7 +105,7 @@ export const SurveyMint = (props: SurveyMintProps): JSX.Element => {
               </span>
             </>
           }
-          description="Create a complete set of NPS feedback links (scores 0-10) for a specific customer or subject. Share the appropriate link based on their satisfaction level to streamline feedback collection."
+          description={`Create a complete set of ${linkLabel} feedback links (scores ${scale.min}-${scale.max}) for a specific customer or subject. Share the appropriate link based on their satisfaction level to streamline feedback collection.`}
         >
           <a href="/surveys" className="btn btn-ghost">
             <ArrowLeft size={20} />
@@ -57,7 +119,7 @@ export const SurveyMint = (props: SurveyMintProps): JSX.Element => {
               type="success"
               icon={<CheckCircle className="w-6 h-6" />}
               title="Links generated successfully!"
-              description={`NPS links for subject "${props.state.success.subjectId}" expire on ${new Date(props.state.success.expires_at).toLocaleDateString()}.`}
+              description={`${linkLabel} links for subject "${props.state.success.subjectId}" expire on ${new Date(props.state.success.expires_at).toLocaleDateString()}.`}
             />
           </div>
         )}
@@ -66,7 +128,7 @@ export const SurveyMint = (props: SurveyMintProps): JSX.Element => {
           <div className="card bg-neutral text-neutral-content mb-6">
             <div className="card-body">
               <h3 className="card-title mb-4">
-                Generated NPS Links (Score 0-10):
+                {`Generated ${linkLabel} Links (Score ${scale.min}-${scale.max}):`}
               </h3>
               <div className="grid gap-2 text-sm">
                 {Object.entries(props.state.success.links).map(
@@ -103,6 +165,18 @@ export const SurveyMint = (props: SurveyMintProps): JSX.Element => {
           </div>
         )}
 
+        {props.state?.success && (
+          <EmailSnippetCard
+            snippet={buildEmailSnippet(
+              props.survey.type,
+              props.state.success.links,
+              props.state.success.htmlStyle,
+              // State comes back through the URL, so only trust known locales
+              matchLocale(props.state.success.lang ?? "") ?? undefined,
+            )}
+          />
+        )}
+
         {!props.state?.success && (
           <div className="card bg-neutral text-neutral-content max-w-2xl">
             <div className="card-body">
@@ -160,9 +234,50 @@ export const SurveyMint = (props: SurveyMintProps): JSX.Element => {
                   </p>
                 </fieldset>
 
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">Language</legend>
+                  <select
+                    id="lang"
+                    name="lang"
+                    className="select"
+                    defaultValue=""
+                  >
+                    <option value="">Match the respondent's browser</option>
+                    {SUPPORTED_LOCALES.map((locale) => (
+                      <option key={locale} value={locale}>
+                        {LOCALE_NAMES[locale]}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="label">
+                    Language of the thank you page these links open.
+                  </p>
+                </fieldset>
+
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">
+                    Email Snippet Style
+                  </legend>
+                  <select
+                    id="htmlStyle"
+                    name="htmlStyle"
+                    className="select"
+                    defaultValue={DEFAULT_EMAIL_SNIPPET_STYLE}
+                  >
+                    {EMAIL_SNIPPET_STYLES.map((style) => (
+                      <option key={style} value={style}>
+                        {EMAIL_SNIPPET_STYLE_NAMES[style]}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="label">
+                    How the links look in the email-ready HTML shown with them.
+                  </p>
+                </fieldset>
+
                 <div className="flex flex-col sm:flex-row gap-4 pt-4">
                   <button type="submit" className="btn btn-primary">
-                    Generate NPS Links
+                    {`Generate ${linkLabel} Links`}
                   </button>
                   <a href="/surveys" className="btn btn-ghost">
                     Cancel
@@ -1,10 +1,15 @@
-import { AlertTriangle, ArrowLeft } from "lucide-react";
+import { AlertTriangle, ArrowLeft, MessageSquare } from "lucide-react";
 import type { JSX } from "react";
 import { Alert } from "../components/alert";
 import { CsrfField } from "../components/csrf-field";
 import { Layout } from "../components/layouts";
 import { PageHeader } from "../components/page-header";
+import { en } from "../locales/en";
 import type { AuthContext } from "../middleware/auth";
+import { FOLLOW_UP_LIMITS } from "../utils/follow-up";
+import type { NpsCategory } from "../utils/nps";
+import { SURVEY_SCALES, SURVEY_TYPES } from "../utils/survey-types";
+import { ThankYouHeader } from "./thank-you";
 
 export interface SurveyNewState {
   error?: string;
@@ -17,6 +22,187 @@ export type SurveyNewProps = {
   csrfToken: string | null;
 };
 
+const CATEGORIES: { category: NpsCategory; label: string; score: number }[] = [
+  { category: "promoter", label: "Promoters (9-10)", score: 10 },
+  { category: "passive", label: "Passives (7-8)", score: 8 },
+  { category: "detractor", label: "Detractors (0-6)", score: 3 },
+];
+
+const BrandingFields = () => (
+  <fieldset className="fieldset">
+    <legend className="fieldset-legend">Thank You Page</legend>
+    <p className="label mb-3">
+      Customize the ClickNPS thank you page. Leave a field blank to keep the
+      default shown in the preview.
+    </p>
+
+    <label htmlFor="logoUrl" className="label">
+      <span className="label-text font-medium">Logo URL</span>
+    </label>
+    <input
+      type="url"
+      id="logoUrl"
+      name="logoUrl"
+      placeholder="https://example.com/logo.png"
+      className="input w-full"
+      data-branding="logo_url"
+    />
+
+    <label htmlFor="brandColor" className="label mt-2">
+      <span className="label-text font-medium">Brand Color</span>
+    </label>
+    <input
+      type="text"
+      id="brandColor"
+      name="brandColor"
+      placeholder="#4f46e5"
+      pattern="^#[0-9a-fA-F]{6}$"
+      title="A hex color such as #4f46e5"
+      maxLength={7}
+      className="input font-mono"
+      data-branding="brand_color"
+    />
+    <p className="label">Used for the buttons and the top edge of the card.</p>
+
+    {CATEGORIES.map(({ category, label }) => (
+      <div key={category} className="mt-2" data-category={category}>
+        <label htmlFor={`${category}Headline`} className="label">
+          <span className="label-text font-medium" data-category-label>
+            {label}
+          </span>
+        </label>
+        <input
+          type="text"
+          id={`${category}Headline`}
+          name={`${category}Headline`}
+          placeholder={en[`${category}_headline`]}
+          maxLength={120}
+          className="input w-full"
+          data-branding={`${category}_headline`}
+        />
+        <textarea
+          id={`${category}Body`}
+          name={`${category}Body`}
+          placeholder="Optional message shown below the headline"
+          rows={2}
+          maxLength={500}
+          className="textarea w-full mt-2"
+          data-branding={`${category}_body`}
+        />
+      </div>
+    ))}
+
+    <label htmlFor="commentPrompt" className="label mt-2">
+      <span className="label-text font-medium">Comment Prompt</span>
+    </label>
+    <input
+      type="text"
+      id="commentPrompt"
+      name="commentPrompt"
+      placeholder={en.comment_prompt}
+      maxLength={200}
+      className="input w-full"
+      data-branding="comment_prompt"
+    />
+  </fieldset>
+);
+
+const FollowUpFields = () => (
+  <fieldset className="fieldset">
+    <legend className="fieldset-legend">Follow-up Question</legend>
+    <p className="label mb-3">
+      Optionally ask a multiple-choice question next to the comment box. Each
+      group sees its own answers; leave a group empty to skip it.
+    </p>
+
+    <label htmlFor="followUpQuestion" className="label">
+      <span className="label-text font-medium">Question</span>
+    </label>
+    <input
+      type="text"
+      id="followUpQuestion"
+      name="followUpQuestion"
+      placeholder="What could we improve most?"
+      maxLength={FOLLOW_UP_LIMITS.question}
+      className="input w-full"
+    />
+
+    {CATEGORIES.map(({ category, label }) => (
+      <div key={category} className="mt-2" data-category={category}>
+        <label htmlFor={`${category}FollowUpOptions`} className="label">
+          <span className="label-text font-medium" data-category-label>
+            {label}
+          </span>
+        </label>
+        <textarea
+          id={`${category}FollowUpOptions`}
+          name={`${category}FollowUpOptions`}
+          placeholder="One answer per line"
+          rows={3}
+          className="textarea w-full"
+        />
+      </div>
+    ))}
+  </fieldset>
+);
+
+const BrandingPreview = () => (
+  <div
+    className="w-full max-w-2xl xl:max-w-md xl:sticky xl:top-8"
+    data-element="branding-preview"
+  >
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+      <h2 className="text-lg font-semibold">Thank You Page Preview</h2>
+      <div role="tablist" className="tabs tabs-box tabs-sm">
+        {CATEGORIES.map(({ category, label }, index) => (
+          <button
+            key={category}
+            type="button"
+            role="tab"
+            className={`tab ${index === 0 ? "tab-active" : ""}`}
+            data-action="preview-category"
+            data-category={category}
+          >
+            {label.split(" ")[0]}
+          </button>
+        ))}
+      </div>
+    </div>
+    <div className="card bg-neutral text-neutral-content" data-preview="card">
+      <div className="card-body text-center">
+        <ThankYouHeader
+          surveyType="nps"
+          score={CATEGORIES[0].score}
+          messages={en}
+          preview
+        />
+        <p
+          className="label-text font-medium text-base"
+          data-preview="comment-prompt"
+        >
+          {en.comment_prompt}
+        </p>
+        <textarea
+          rows={3}
+          readOnly
+          tabIndex={-1}
+          className="textarea textarea-bordered w-full pointer-events-none"
+          placeholder={en.comment_placeholder}
+        />
+        <div className="flex justify-center pt-2">
+          <span
+            className="btn btn-primary gap-2 pointer-events-none"
+            data-preview="button"
+          >
+            <MessageSquare className="w-5 h-5" />
+            {en.submit_comment}
+          </span>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
 export const SurveyNew = (props: SurveyNewProps): JSX.Element => {
   return (
     <Layout
@@ -37,183 +223,212 @@ export const SurveyNew = (props: SurveyNewProps): JSX.Element => {
           </a>
         </PageHeader>
 
-        <div className="card bg-neutral text-neutral-content max-w-2xl">
-          <div className="card-body">
-            <form method="POST" action="/surveys/new" className="space-y-6">
-              <CsrfField token={props.createCsrfToken} />
-
-              {props.state?.error && (
-                <Alert
-                  type="error"
-                  icon={<AlertTriangle className="w-6 h-6" />}
-                  title={props.state.error}
-                />
-              )}
-
-              <fieldset className="fieldset">
-                <legend className="fieldset-legend">Survey Name *</legend>
-                <input
-                  type="text"
-                  id="title"
-                  name="title"
-                  placeholder="e.g., Customer Satisfaction Q4 2024"
-                  required
-                  minLength={2}
-                  maxLength={100}
-                  className="input w-full"
-                />
-                <p className="label">
-                  A descriptive name for your survey (2-100 characters).
-                </p>
-              </fieldset>
-
-              <fieldset className="fieldset">
-                <legend className="fieldset-legend">Survey ID *</legend>
-                <input
-                  type="text"
-                  id="surveyId"
-                  name="surveyId"
-                  placeholder="e.g., customer-satisfaction-q4-2024"
-                  required
-                  pattern="^[a-z0-9_-]+$"
-                  title="Survey ID can only contain lowercase letters, numbers, underscores, and hyphens"
-                  style={{ textTransform: "lowercase" }}
-                  className="input font-mono w-full"
-                />
-                <p className="label">
-                  Unique identifier for your survey. Only lowercase letters,
-                  numbers, underscores, and hyphens allowed. Cannot be changed
-                  later.
-                </p>
-              </fieldset>
-
-              <fieldset className="fieldset">
-                <legend className="fieldset-legend">Description</legend>
-                <textarea
-                  id="description"
-                  name="description"
-                  placeholder="Optional description of your survey purpose and context"
-                  rows={3}
-                  maxLength={500}
-                  className="textarea w-full"
-                />
-                <p className="label">
-                  Optional description (up to 500 characters).
-                </p>
-              </fieldset>
-
-              <fieldset className="fieldset">
-                <legend className="fieldset-legend">
-                  Default Link Expiry (Days) *
-                </legend>
-                <input
-                  type="number"
-                  id="ttlDays"
-                  name="ttlDays"
-                  placeholder="30"
-                  defaultValue={30}
-                  required
-                  min={1}
-                  max={365}
-                  className="input"
-                />
-                <p className="label">
-                  Default expiry time for links minted for this survey. Can be
-                  overridden when minting links (1-365 days).
-                </p>
-              </fieldset>
-
-              <fieldset className="fieldset">
-                <legend className="fieldset-legend">Redirect Behavior</legend>
-                <p className="label mb-3">
-                  Choose whether to redirect users to your own page after they
-                  respond, or show the default ClickNPS thank you page where
-                  they will have the option to add a comment.
-                </p>
-                <div className="flex flex-col space-y-3">
-                  <label className="label cursor-pointer justify-start gap-3">
-                    <input
-                      type="radio"
-                      name="redirectTiming"
-                      value=""
-                      defaultChecked
-                      className="radio radio-primary"
-                      data-action="redirect-timing-radio"
-                    />
-                    <span className="label-text">
-                      No redirect (use ClickNPS thank you page)
-                    </span>
-                  </label>
-                  <label className="label cursor-pointer justify-start gap-3">
-                    <input
-                      type="radio"
-                      name="redirectTiming"
-                      value="post_comment"
-                      className="radio radio-primary"
-                      data-action="redirect-timing-radio"
-                    />
-                    <span className="label-text">Redirect after comment</span>
-                  </label>
-                  <label className="label cursor-pointer justify-start gap-3">
-                    <input
-                      type="radio"
-                      name="redirectTiming"
-                      value="pre_comment"
-                      className="radio radio-primary"
-                      data-action="redirect-timing-radio"
-                    />
-                    <span className="label-text">Redirect after click</span>
-                  </label>
-                </div>
+        <div className="flex flex-col xl:flex-row gap-8 items-start">
+          <div className="card bg-neutral text-neutral-content max-w-2xl w-full">
+            <div className="card-body">
+              <form method="POST" action="/surveys/new" className="space-y-6">
+                <CsrfField token={props.createCsrfToken} />
+
+                {props.state?.error && (
+                  <Alert
+                    type="error"
+                    icon={<AlertTriangle className="w-6 h-6" />}
+                    title={props.state.error}
+                  />
+                )}
 
-                <div
-                  className="mt-4 hidden"
-                  data-element="redirect-url-input"
-                  id="redirectUrlInput"
-                >
-                  <label htmlFor="redirectUrl" className="label">
-                    <span className="label-text font-medium">
-                      Redirect URL *
-                    </span>
-                  </label>
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">Survey Name *</legend>
                   <input
-                    type="url"
-                    id="redirectUrl"
-                    name="redirectUrl"
-                    placeholder="https://example.com/thank-you"
+                    type="text"
+                    id="title"
+                    name="title"
+                    placeholder="e.g., Customer Satisfaction Q4 2024"
+                    required
+                    minLength={2}
+                    maxLength={100}
                     className="input w-full"
                   />
                   <p className="label">
-                    Enter the URL where users should be redirected after
-                    responding.
+                    A descriptive name for your survey (2-100 characters).
                   </p>
-                </div>
+                </fieldset>
 
-                <div
-                  className="mt-4 hidden"
-                  data-warning="pre-comment"
-                  id="preCommentWarning"
-                >
-                  <Alert
-                    type="warning"
-                    icon={<AlertTriangle className="w-5 h-5" />}
-                    dismissible={false}
-                    title="Pre-comment redirects reduce written feedback."
-                    description="Users will be immediately redirected to your URL after clicking their score, without the opportunity to provide additional comments."
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">Survey ID *</legend>
+                  <input
+                    type="text"
+                    id="surveyId"
+                    name="surveyId"
+                    placeholder="e.g., customer-satisfaction-q4-2024"
+                    required
+                    pattern="^[a-z0-9_-]+$"
+                    title="Survey ID can only contain lowercase letters, numbers, underscores, and hyphens"
+                    style={{ textTransform: "lowercase" }}
+                    className="input font-mono w-full"
+                  />
+                  <p className="label">
+                    Unique identifier for your survey. Only lowercase letters,
+                    numbers, underscores, and hyphens allowed. Cannot be changed
+                    later.
+                  </p>
+                </fieldset>
+
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">Description</legend>
+                  <textarea
+                    id="description"
+                    name="description"
+                    placeholder="Optional description of your survey purpose and context"
+                    rows={3}
+                    maxLength={500}
+                    className="textarea w-full"
+                  />
+                  <p className="label">
+                    Optional description (up to 500 characters).
+                  </p>
+                </fieldset>
+
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">Survey Type</legend>
+                  <select
+                    id="type"
+                    name="type"
+                    defaultValue="nps"
+                    className="select w-full"
+                    data-action="survey-type"
+                  >
+                    {SURVEY_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {SURVEY_SCALES[type].name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="label">
+                    The scale respondents answer on. Each score gets its own
+                    link. Cannot be changed later.
+                  </p>
+                </fieldset>
+
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">
+                    Default Link Expiry (Days) *
+                  </legend>
+                  <input
+                    type="number"
+                    id="ttlDays"
+                    name="ttlDays"
+                    placeholder="30"
+                    defaultValue={30}
+                    required
+                    min={1}
+                    max={365}
+                    className="input"
                   />
+                  <p className="label">
+                    Default expiry time for links minted for this survey. Can be
+                    overridden when minting links (1-365 days).
+                  </p>
+                </fieldset>
+
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">Redirect Behavior</legend>
+                  <p className="label mb-3">
+                    Choose whether to redirect users to your own page after they
+                    respond, or show the default ClickNPS thank you page where
+                    they will have the option to add a comment.
+                  </p>
+                  <div className="flex flex-col space-y-3">
+                    <label className="label cursor-pointer justify-start gap-3">
+                      <input
+                        type="radio"
+                        name="redirectTiming"
+                        value=""
+                        defaultChecked
+                        className="radio radio-primary"
+                        data-action="redirect-timing-radio"
+                      />
+                      <span className="label-text">
+                        No redirect (use ClickNPS thank you page)
+                      </span>
+                    </label>
+                    <label className="label cursor-pointer justify-start gap-3">
+                      <input
+                        type="radio"
+                        name="redirectTiming"
+                        value="post_comment"
+                        className="radio radio-primary"
+                        data-action="redirect-timing-radio"
+                      />
+                      <span className="label-text">Redirect after comment</span>
+                    </label>
+                    <label className="label cursor-pointer justify-start gap-3">
+                      <input
+                        type="radio"
+                        name="redirectTiming"
+                        value="pre_comment"
+                        className="radio radio-primary"
+                        data-action="redirect-timing-radio"
+                      />
+                      <span className="label-text">Redirect after click</span>
+                    </label>
+                  </div>
+
+                  <div
+                    className="mt-4 hidden"
+                    data-element="redirect-url-input"
+                    id="redirectUrlInput"
+                  >
+                    <label htmlFor="redirectUrl" className="label">
+                      <span className="label-text font-medium">
+                        Redirect URL *
+                      </span>
+                    </label>
+                    <input
+                      type="url"
+                      id="redirectUrl"
+                      name="redirectUrl"
+                      placeholder="https://example.com/thank-you"
+                      className="input w-full"
+                    />
+                    <p className="label">
+                      Enter the URL where users should be redirected after
+                      responding.
+                    </p>
+                  </div>
+
+                  <div
+                    className="mt-4 hidden"
+                    data-warning="pre-comment"
+                    id="preCommentWarning"
+                  >
+                    <Alert
+                      type="warning"
+                      icon={<AlertTriangle className="w-5 h-5" />}
+                      dismissible={false}
+                      title="Pre-comment redirects reduce written feedback."
+                      description="Users will be immediately redirected to your URL after clicking their score, without the opportunity to provide additional comments."
+                    />
+                  </div>
+                </fieldset>
+
+                <BrandingFields />
+
+                <FollowUpFields />
+
+                <div className="flex flex-col sm:flex-row gap-4 pt-4">
+                  <button type="submit" className="btn btn-primary">
+                    Create Survey
+                  </button>
+                  <a href="/surveys" className="btn btn-ghost">
+                    Cancel
+                  </a>
                 </div>
-              </fieldset>
-
-              <div className="flex flex-col sm:flex-row gap-4 pt-4">
-                <button type="submit" className="btn btn-primary">
-                  Create Survey
-                </button>
-                <a href="/surveys" className="btn btn-ghost">
-                  Cancel
-                </a>
-              </div>
-            </form>
+              </form>
+            </div>
           </div>
+
+          <BrandingPreview />
         </div>
       </div>
     </Layout>
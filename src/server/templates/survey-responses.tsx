@@ -1,9 +1,18 @@
-import { ArrowLeft, Calendar, MessageSquare, Users } from "lucide-react";
+import {
+  ArrowLeft,
+  BarChart3,
+  Calendar,
+  Download,
+  MessageSquare,
+  Upload,
+  Users,
+} from "lucide-react";
 import type { JSX } from "react";
 import { Layout } from "../components/layouts";
 import { PageHeader } from "../components/page-header";
 import type { AuthContext } from "../middleware/auth";
 import type { Survey, SurveyResponse } from "../services/surveys";
+import { formatScore, getScoreCategory } from "../utils/survey-types";
 
 export type SurveyResponsesState = Record<string, never>;
 
@@ -15,10 +24,10 @@ export type SurveyResponsesProps = {
   state?: SurveyResponsesState;
 };
 
-const getScoreBadgeClass = (score: number): string => {
-  if (score >= 9) return "badge-success";
-  if (score >= 7) return "badge-warning";
-  return "badge-error";
+const SCORE_BADGE_CLASSES = {
+  promoter: "badge-success",
+  passive: "badge-warning",
+  detractor: "badge-error",
 };
 
 const formatDate = (date: Date): string => {
@@ -56,6 +65,20 @@ export const SurveyResponses = (props: SurveyResponsesProps): JSX.Element => {
             <ArrowLeft size={20} />
             Back to Surveys
           </a>
+          <a
+            href={`/surveys/${props.survey.survey_id}/analytics`}
+            className="btn btn-outline"
+          >
+            <BarChart3 size={20} />
+            Analytics
+          </a>
+          <a
+            href={`/surveys/${props.survey.survey_id}/import`}
+            className="btn btn-outline"
+          >
+            <Upload size={20} />
+            Import
+          </a>
         </PageHeader>
 
         {props.responses.length > 0 ? (
@@ -74,6 +97,32 @@ export const SurveyResponses = (props: SurveyResponsesProps): JSX.Element => {
               </div>
             </div>
 
+            <form
+              method="GET"
+              action={`/surveys/${props.survey.survey_id}/responses/export`}
+              className="flex flex-wrap items-end gap-4 mb-6"
+            >
+              <fieldset className="fieldset">
+                <legend className="fieldset-legend">From</legend>
+                <input type="date" name="from" className="input input-sm" />
+              </fieldset>
+              <fieldset className="fieldset">
+                <legend className="fieldset-legend">To</legend>
+                <input type="date" name="to" className="input input-sm" />
+              </fieldset>
+              <fieldset className="fieldset">
+                <legend className="fieldset-legend">Format</legend>
+                <select name="format" className="select select-sm">
+                  <option value="csv">CSV</option>
+                  <option value="ndjson">NDJSON</option>
+                </select>
+              </fieldset>
+              <button type="submit" className="btn btn-sm btn-outline">
+                <Download className="w-4 h-4" />
+                Export
+              </button>
+            </form>
+
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 items-start">
               {props.responses.map((response) => (
                 <div key={response.id} className="card bg-neutral shadow-md">
@@ -81,11 +130,18 @@ export const SurveyResponses = (props: SurveyResponsesProps): JSX.Element => {
                     <div className="flex items-center justify-between mb-3">
                       <h3 className="card-title text-lg">
                         {response.subject_id}
+                        {response.imported && (
+                          <span className="badge badge-soft badge-sm font-normal">
+                            Imported
+                          </span>
+                        )}
                       </h3>
                       <div
-                        className={`badge ${getScoreBadgeClass(response.score)} badge-lg font-bold`}
+                        className={`badge ${SCORE_BADGE_CLASSES[getScoreCategory(props.survey.type, response.score)]} badge-lg font-bold`}
                       >
-                        {response.score}
+                        {props.survey.type === "nps"
+                          ? response.score
+                          : formatScore(props.survey.type, response.score)}
                       </div>
                     </div>
 
@@ -97,6 +153,17 @@ export const SurveyResponses = (props: SurveyResponsesProps): JSX.Element => {
                         </span>
                       </div>
 
+                      {response.follow_up && (
+                        <div className="pt-2 border-t border-base-300 text-sm">
+                          <p className="opacity-60">
+                            {response.follow_up.question}
+                          </p>
+                          <p className="font-medium">
+                            {response.follow_up.answer}
+                          </p>
+                        </div>
+                      )}
+
                       {response.comment && (
                         <div className="pt-2 border-t border-base-300">
                           <div className="flex items-start gap-2">
@@ -134,6 +201,12 @@ export const SurveyResponses = (props: SurveyResponsesProps): JSX.Element => {
                   >
                     Mint Links
                   </a>
+                  <a
+                    href={`/surveys/${props.survey.survey_id}/import`}
+                    className="btn btn-ghost ml-2"
+                  >
+                    Import Responses
+                  </a>
                 </div>
               </div>
             </div>
@@ -12,6 +12,11 @@ import { Layout } from "../components/layouts";
 import { PageHeader } from "../components/page-header";
 import type { AuthContext } from "../middleware/auth";
 import type { Survey, SurveyStats } from "../services/surveys";
+import {
+  formatSurveyScore,
+  rateSurveyScore,
+  SURVEY_SCALES,
+} from "../utils/survey-types";
 
 export interface SurveysState {
   created?: {
@@ -20,6 +25,28 @@ export interface SurveysState {
   };
 }
 
+// Headline score colour coding; thresholds depend on the survey type
+const SCORE_RATING_COLORS = {
+  good: "text-success",
+  fair: "text-warning",
+  poor: "text-error",
+  none: "text-base-content/60",
+};
+
+/**
+ * Tooltip text such as "3 promoters, 1 passives, 0 detractors"
+ */
+const describeCategorySplit = (stats: SurveyStats): string => {
+  const labels = SURVEY_SCALES[stats.type].categoryLabels;
+  return [
+    `${stats.promoters} ${labels.promoter.toLowerCase()}`,
+    ...(stats.type === "binary"
+      ? []
+      : [`${stats.passives} ${labels.passive.toLowerCase()}`]),
+    `${stats.detractors} ${labels.detractor.toLowerCase()}`,
+  ].join(", ");
+};
+
 type SurveysProps = {
   surveys: Survey[];
   stats: SurveyStats[];
@@ -67,17 +94,9 @@ export const Surveys = (props: SurveysProps): JSX.Element => {
               );
               const responseCount = surveyStats?.response_count || 0;
               const commentCount = surveyStats?.comment_count || 0;
-              const avgNPS = surveyStats?.average_nps;
+              const score = surveyStats?.score ?? null;
               const responseRate = surveyStats?.response_rate ?? null;
 
-              // NPS color coding: 0-6 (red), 7-8 (yellow), 9-10 (green)
-              const getNPSColor = (score: number | null) => {
-                if (score === null) return "text-base-content/60";
-                if (score <= 6) return "text-error";
-                if (score <= 8) return "text-warning";
-                return "text-success";
-              };
-
               // Response rate color coding: <30% (red), 30-70% (yellow), >70% (green)
               const getResponseRateColor = (rate: number | null) => {
                 if (rate === null) return "text-base-content/60";
@@ -121,11 +140,20 @@ export const Surveys = (props: SurveysProps): JSX.Element => {
                           </div>
                           <div className="flex items-center gap-1">
                             <TrendingUp className="w-3 h-3" />
-                            <span className={getNPSColor(avgNPS ?? null)}>
-                              NPS:{" "}
-                              {avgNPS !== null && avgNPS !== undefined
-                                ? avgNPS.toFixed(1)
-                                : "—"}
+                            <span
+                              className={
+                                SCORE_RATING_COLORS[
+                                  rateSurveyScore(survey.type, score) ?? "none"
+                                ]
+                              }
+                              title={
+                                surveyStats
+                                  ? describeCategorySplit(surveyStats)
+                                  : undefined
+                              }
+                            >
+                              {SURVEY_SCALES[survey.type].scoreLabel}:{" "}
+                              {formatSurveyScore(survey.type, score)}
                             </span>
                           </div>
                           <div className="flex items-center gap-1">
@@ -163,6 +191,12 @@ export const Surveys = (props: SurveysProps): JSX.Element => {
                         >
                           View Responses
                         </a>
+                        <a
+                          href={`/surveys/${survey.survey_id}/analytics`}
+                          className="btn btn-sm btn-accent join-item"
+                        >
+                          Analytics
+                        </a>
                       </div>
                     </div>
                   </div>
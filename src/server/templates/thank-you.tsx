@@ -1,64 +1,179 @@
 import { CheckCircle, MessageSquare } from "lucide-react";
+import type { CSSProperties } from "react";
 import { Alert } from "../components/alert";
 import { BaseLayout } from "../components/layouts";
+import type { Messages } from "../locales/en";
+import { getContrastTextColor, type SurveyBranding } from "../utils/branding";
+import { type FollowUpConfig, getFollowUpOptions } from "../utils/follow-up";
+import type { Locale } from "../utils/i18n";
+import {
+  formatScore,
+  getScoreCategory,
+  type SurveyType,
+} from "../utils/survey-types";
 
 interface ResponseState {
   commented?: boolean;
 }
 
 interface ThankYouPageProps {
+  surveyType: SurveyType;
   score: number;
   alreadyResponded: boolean;
   withinCommentWindow?: boolean;
   token: string;
   state?: ResponseState;
+  branding?: SurveyBranding | null;
+  followUp?: FollowUpConfig | null;
+  locale: Locale;
+  messages: Messages; // Catalog strings with the survey's overrides applied
 }
 
+export const SCORE_COLOR_CLASSES = {
+  promoter: "text-success",
+  passive: "text-warning",
+  detractor: "text-error",
+};
+
+/**
+ * Inline styles that paint the page's card and buttons in the brand color
+ */
+export const getBrandStyles = (
+  brandColor: string | undefined,
+): { card?: CSSProperties; button?: CSSProperties } =>
+  brandColor
+    ? {
+        card: { borderTop: `4px solid ${brandColor}` },
+        button: {
+          backgroundColor: brandColor,
+          borderColor: brandColor,
+          color: getContrastTextColor(brandColor),
+        },
+      }
+    : {};
+
+interface ThankYouHeaderProps {
+  surveyType: SurveyType;
+  score: number;
+  messages: Messages;
+  logoUrl?: string;
+  preview?: boolean; // Render empty parts hidden so a preview can fill them in
+}
+
+/**
+ * Logo, headline, body copy and the chosen score
+ */
+export const ThankYouHeader = ({
+  surveyType,
+  score,
+  messages,
+  logoUrl,
+  preview,
+}: ThankYouHeaderProps) => {
+  const category = getScoreCategory(surveyType, score);
+  const body = messages[`${category}_body`];
+
+  return (
+    <div className="mb-6">
+      {(logoUrl || preview) && (
+        <img
+          src={logoUrl}
+          alt=""
+          className={`h-12 max-w-full mx-auto mb-6 object-contain ${logoUrl ? "" : "hidden"}`}
+          data-preview="logo"
+        />
+      )}
+      <h1 className="text-3xl font-bold mb-4" data-preview="headline">
+        {messages[`${category}_headline`]}
+      </h1>
+      {(body || preview) && (
+        <p
+          className={`opacity-80 mb-4 whitespace-pre-line ${body ? "" : "hidden"}`}
+          data-preview="body"
+        >
+          {body}
+        </p>
+      )}
+      <div className="text-center">
+        <span className="text-sm opacity-80">{messages.you_selected} </span>
+        <span
+          className={`text-2xl font-bold ${SCORE_COLOR_CLASSES[category]}`}
+          data-preview="score"
+        >
+          {formatScore(surveyType, score)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+interface FollowUpFieldProps {
+  followUp?: FollowUpConfig | null;
+  surveyType: SurveyType;
+  score: number;
+}
+
+/**
+ * The survey's follow-up question as a radio group, when asked for this score
+ */
+const FollowUpField = ({ followUp, surveyType, score }: FollowUpFieldProps) => {
+  const options = getFollowUpOptions(followUp, surveyType, score);
+  if (!followUp || options.length === 0) {
+    return null;
+  }
+
+  return (
+    <fieldset className="fieldset w-full text-left">
+      <legend className="fieldset-legend text-base">{followUp.question}</legend>
+      {options.map((option) => (
+        <label key={option} className="label cursor-pointer gap-3 py-1">
+          <input
+            type="radio"
+            name="follow_up"
+            value={option}
+            className="radio radio-sm"
+          />
+          <span>{option}</span>
+        </label>
+      ))}
+    </fieldset>
+  );
+};
+
 export const ThankYouPage = ({
+  surveyType,
   score,
   alreadyResponded,
   withinCommentWindow,
   token,
   state,
+  branding,
+  followUp,
+  locale,
+  messages,
 }: ThankYouPageProps) => {
-  const isPromoter = score >= 9;
-  const isPassive = score >= 7 && score <= 8;
-
-  const getScoreMessage = () => {
-    if (isPromoter) {
-      return "Thank you for being a promoter!";
-    }
-    if (isPassive) {
-      return "Thank you for your feedback!";
-    }
-    return "Thank you for your honest feedback!";
-  };
-
-  const getScoreColor = () => {
-    if (isPromoter) return "text-success";
-    if (isPassive) return "text-warning";
-    return "text-error";
-  };
+  const brandStyles = getBrandStyles(branding?.brand_color);
 
   return (
     <BaseLayout
-      title="Thank You - ClickNPS"
-      description="Thank you for your feedback. Your response helps us improve our service."
+      title={messages.page_title}
+      description={messages.page_description}
       name="thank-you"
+      lang={locale}
     >
       <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
         <div className="max-w-2xl w-full">
-          <div className="card bg-neutral text-neutral-content">
+          <div
+            className="card bg-neutral text-neutral-content"
+            style={brandStyles.card}
+          >
             <div className="card-body text-center">
-              <div className="mb-6">
-                <h1 className="text-3xl font-bold mb-4">{getScoreMessage()}</h1>
-                <div className="text-center">
-                  <span className="text-sm opacity-80">You selected: </span>
-                  <span className={`text-2xl font-bold ${getScoreColor()}`}>
-                    {score}/10
-                  </span>
-                </div>
-              </div>
+              <ThankYouHeader
+                surveyType={surveyType}
+                score={score}
+                messages={messages}
+                logoUrl={branding?.logo_url}
+              />
 
               {state?.commented ? (
                 <div className="space-y-4">
@@ -66,8 +181,8 @@ export const ThankYouPage = ({
                     type="success"
                     icon={<CheckCircle className="w-6 h-6" />}
                     dismissible={false}
-                    title="Comment submitted successfully!"
-                    description="Thank you for taking the time to share your detailed feedback with us."
+                    title={messages.commented_title}
+                    description={messages.commented_description}
                   />
                 </div>
               ) : alreadyResponded && !withinCommentWindow ? (
@@ -76,8 +191,8 @@ export const ThankYouPage = ({
                     type="info"
                     icon={<CheckCircle className="w-6 h-6" />}
                     dismissible={false}
-                    title="Response already recorded"
-                    description="We've already captured your feedback for this survey. Thank you for your response!"
+                    title={messages.already_recorded_title}
+                    description={messages.already_recorded_description}
                   />
                 </div>
               ) : alreadyResponded && withinCommentWindow ? (
@@ -86,8 +201,8 @@ export const ThankYouPage = ({
                     type="info"
                     icon={<MessageSquare className="w-6 h-6" />}
                     dismissible={false}
-                    title="Add more context to your response"
-                    description="Your score has been recorded. You still have time to add additional comments if you'd like."
+                    title={messages.add_context_title}
+                    description={messages.add_context_description}
                   />
 
                   <form
@@ -95,10 +210,16 @@ export const ThankYouPage = ({
                     method="POST"
                     className="space-y-4"
                   >
+                    <FollowUpField
+                      followUp={followUp}
+                      surveyType={surveyType}
+                      score={score}
+                    />
+
                     <div className="form-control w-full">
                       <label className="label mb-2" htmlFor="comment">
                         <span className="label-text font-medium">
-                          Share your thoughts (optional)
+                          {messages.comment_prompt_followup}
                         </span>
                       </label>
                       <textarea
@@ -106,7 +227,7 @@ export const ThankYouPage = ({
                         name="comment"
                         rows={4}
                         className="textarea textarea-bordered w-full text-base"
-                        placeholder="Tell us what worked well or what could be improved..."
+                        placeholder={messages.comment_placeholder}
                       />
                     </div>
 
@@ -114,9 +235,10 @@ export const ThankYouPage = ({
                       <button
                         type="submit"
                         className="btn btn-primary btn-lg gap-2"
+                        style={brandStyles.button}
                       >
                         <MessageSquare className="w-5 h-5" />
-                        Submit Comment
+                        {messages.submit_comment}
                       </button>
                     </div>
                   </form>
@@ -128,13 +250,19 @@ export const ThankYouPage = ({
                     method="POST"
                     className="space-y-4"
                   >
+                    <FollowUpField
+                      followUp={followUp}
+                      surveyType={surveyType}
+                      score={score}
+                    />
+
                     <div className="form-control w-full">
                       <label
                         className="label justify-center mb-2"
                         htmlFor="comment"
                       >
                         <span className="label-text font-medium text-base">
-                          Care to share more details? (optional)
+                          {messages.comment_prompt}
                         </span>
                       </label>
                       <textarea
@@ -142,7 +270,7 @@ export const ThankYouPage = ({
                         name="comment"
                         rows={4}
                         className="textarea textarea-bordered w-full text-base"
-                        placeholder="Tell us what worked well or what could be improved..."
+                        placeholder={messages.comment_placeholder}
                       />
                     </div>
 
@@ -150,9 +278,10 @@ export const ThankYouPage = ({
                       <button
                         type="submit"
                         className="btn btn-primary btn-lg gap-2"
+                        style={brandStyles.button}
                       >
                         <MessageSquare className="w-5 h-5" />
-                        Submit Comment
+                        {messages.submit_comment}
                       </button>
                     </div>
                   </form>
@@ -161,7 +290,7 @@ export const ThankYouPage = ({
 
               <div className="mt-8 pt-6 border-t border-base-content/20">
                 <p className="text-xs opacity-60 text-center">
-                  Powered by{" "}
+                  {messages.powered_by}{" "}
                   <a href="https://clicknps.com" className="link link-hover">
                     ClickNPS
                   </a>
@@ -0,0 +1,218 @@
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle,
+  RotateCcw,
+  XCircle,
+} from "lucide-react";
+import type { JSX } from "react";
+import { CsrfField } from "../components/csrf-field";
+import { Layout } from "../components/layouts";
+import { PageHeader } from "../components/page-header";
+import type { AuthContext } from "../middleware/auth";
+import {
+  REDELIVERABLE_STATUSES,
+  type WebhookAttempt,
+  type WebhookErrorClass,
+  type WebhookEvent,
+  type WebhookQueueItem,
+} from "../services/webhooks";
+import { getStatusBadge, getStatusIcon } from "./webhooks";
+
+export type WebhookDeliveryProps = {
+  auth: AuthContext;
+  delivery: WebhookQueueItem;
+  event: WebhookEvent;
+  attempts: WebhookAttempt[];
+  csrfToken: string | null;
+};
+
+const formatDate = (date: Date): string => {
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).format(new Date(date));
+};
+
+const ERROR_CLASS_LABELS: Record<WebhookErrorClass, string> = {
+  http_error: "Your endpoint returned an error status",
+  timeout: "Your endpoint did not respond in time",
+  dns_error: "The endpoint's hostname could not be resolved",
+  connection_error: "Could not connect to your endpoint",
+  tls_error: "The endpoint's TLS certificate was rejected",
+  invalid_url: "The endpoint URL is invalid",
+  internal_error: "ClickNPS failed before sending the request",
+};
+
+const getAttemptIcon = (attempt: WebhookAttempt): JSX.Element => {
+  if (!attempt.error_class && attempt.status_code > 0) {
+    return <CheckCircle className="w-5 h-5 text-success" />;
+  }
+  if (attempt.error_class === "http_error") {
+    return <AlertTriangle className="w-5 h-5 text-warning" />;
+  }
+  return <XCircle className="w-5 h-5 text-error" />;
+};
+
+const getStatusCodeBadgeClass = (statusCode: number): string => {
+  if (statusCode >= 200 && statusCode < 300) return "badge-success";
+  return "badge-error";
+};
+
+export const WebhookDelivery = (props: WebhookDeliveryProps): JSX.Element => {
+  const { delivery, attempts } = props;
+  const canRedeliver = REDELIVERABLE_STATUSES.includes(delivery.status);
+
+  return (
+    <Layout
+      title="Webhook Delivery - ClickNPS"
+      description="Inspect a webhook delivery and every attempt made to send it."
+      name="webhooks"
+      auth={props.auth}
+      csrfToken={props.csrfToken}
+    >
+      <div>
+        <PageHeader
+          title={
+            <>
+              Webhook Delivery
+              <span className="font-normal text-lg text-accent font-mono ml-3 inline-block">
+                {delivery.event_type}
+              </span>
+            </>
+          }
+          description={delivery.webhook_url}
+        >
+          <a href="/settings/webhooks" className="btn btn-ghost">
+            <ArrowLeft size={20} />
+            Back to Webhooks
+          </a>
+        </PageHeader>
+
+        <div className="card bg-neutral shadow-md mb-8">
+          <div className="card-body">
+            <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+              <div className="space-y-2 text-sm">
+                <div className="flex items-center gap-2">
+                  {getStatusIcon(delivery.status)}
+                  <span className={getStatusBadge(delivery.status)}>
+                    {delivery.status}
+                  </span>
+                </div>
+                <div>
+                  Delivery ID: <span className="font-mono">{delivery.id}</span>
+                </div>
+                <div>
+                  Event ID:{" "}
+                  <span className="font-mono">{delivery.event_id}</span>
+                </div>
+                <div className="opacity-70">
+                  Created: {formatDate(delivery.created_at)}
+                </div>
+                {delivery.next_retry_at && (
+                  <div className="opacity-70">
+                    Next retry: {formatDate(delivery.next_retry_at)}
+                  </div>
+                )}
+              </div>
+
+              {canRedeliver && (
+                <form method="POST" action="/settings/webhooks">
+                  <CsrfField token={props.csrfToken} />
+                  <input type="hidden" name="action" value="redeliver" />
+                  <input type="hidden" name="delivery_id" value={delivery.id} />
+                  <button type="submit" className="btn btn-warning">
+                    <RotateCcw className="w-4 h-4" />
+                    Redeliver Now
+                  </button>
+                </form>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <h2 className="text-xl font-bold mb-4">Attempts</h2>
+        {attempts.length === 0 ? (
+          <div className="text-center py-12 bg-base-200 rounded-lg mb-8">
+            <p className="text-base-content/70">No attempts yet</p>
+          </div>
+        ) : (
+          <ul className="timeline timeline-vertical timeline-compact mb-8">
+            {attempts.map((attempt, index) => (
+              <li key={attempt.id}>
+                {index > 0 && <hr />}
+                <div className="timeline-middle">{getAttemptIcon(attempt)}</div>
+                <div className="timeline-end timeline-box bg-neutral w-full min-w-0 space-y-2 mb-4">
+                  <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <span className="font-medium">{`Attempt ${index + 1}`}</span>
+                    <span
+                      className={`badge ${getStatusCodeBadgeClass(attempt.status_code)}`}
+                    >
+                      {attempt.status_code
+                        ? `HTTP ${attempt.status_code}`
+                        : "No response"}
+                    </span>
+                    {attempt.duration_ms !== null && (
+                      <span className="badge badge-outline">
+                        {`${attempt.duration_ms} ms`}
+                      </span>
+                    )}
+                    <span className="opacity-60">
+                      {formatDate(attempt.attempted_at)}
+                    </span>
+                  </div>
+                  {attempt.error_class && (
+                    <div className="text-sm">
+                      {ERROR_CLASS_LABELS[attempt.error_class]}{" "}
+                      <span className="font-mono opacity-60">
+                        {attempt.error_class}
+                      </span>
+                    </div>
+                  )}
+                  {attempt.response_body && (
+                    <div>
+                      <div className="text-xs opacity-60 mb-1">
+                        {attempt.status_code
+                          ? attempt.response_body_truncated
+                            ? "Response body (truncated)"
+                            : "Response body"
+                          : "Error"}
+                      </div>
+                      <pre className="bg-base-100 rounded p-3 text-xs whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+                        {attempt.response_body}
+                      </pre>
+                    </div>
+                  )}
+                  {Object.keys(attempt.request_headers).length > 0 && (
+                    <details className="text-xs">
+                      <summary className="cursor-pointer opacity-70">
+                        Request headers
+                      </summary>
+                      <pre className="bg-base-100 rounded p-3 mt-1 whitespace-pre-wrap break-all">
+                        {Object.entries(attempt.request_headers)
+                          .map(([name, value]) => `${name}: ${value}`)
+                          .join("\n")}
+                      </pre>
+                    </details>
+                  )}
+                </div>
+                {index < attempts.length - 1 && <hr />}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <h2 className="text-xl font-bold mb-4">Payload</h2>
+        <div className="mockup-code w-full bg-base-100">
+          <pre>
+            <code>{JSON.stringify(props.event, null, 2)}</code>
+          </pre>
+        </div>
+      </div>
+    </Layout>
+  );
+};
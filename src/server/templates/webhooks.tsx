@@ -1,11 +1,20 @@
 import {
   AlertTriangle,
   CheckCircle,
+  CirclePause,
   Clock,
   Copy,
+  Eye,
   Loader,
+  Pencil,
+  Play,
+  Plus,
+  RefreshCw,
+  RotateCcw,
   TestTube,
+  Trash2,
   Webhook,
+  XCircle,
   Zap,
 } from "lucide-react";
 import type { JSX } from "react";
@@ -14,17 +23,47 @@ import { CsrfField } from "../components/csrf-field";
 import { Layout } from "../components/layouts";
 import { PageHeader } from "../components/page-header";
 import type { AuthContext } from "../middleware/auth";
-import type { WebhookQueueItem } from "../services/webhooks";
+import type { Survey } from "../services/surveys";
+import {
+  DEFAULT_SECRET_OVERLAP_HOURS,
+  MAX_WEBHOOK_ENDPOINTS,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookEndpoint,
+  type WebhookQueueItem,
+} from "../services/webhooks";
 
 export interface WebhookState {
+  created?: {
+    url: string;
+    secret: string;
+  };
   updated?: {
-    webhook_url: string;
-    webhook_secret: string;
+    url: string;
+  };
+  rotated?: {
+    url: string;
+    secret: string;
+    previousExpiresAt: Date | null; // Null when the old secret stopped at once
+  };
+  deleted?: {
+    url: string;
+  };
+  retired?: {
+    url: string;
+  };
+  redelivered?: {
+    count: number;
+  };
+  resumed?: {
+    url: string;
+    count: number; // Deliveries released from the paused queue
   };
   testSuccess?: {
+    url: string;
     statusCode: number;
   };
   testError?: {
+    url: string;
     statusCode: number;
     message: string;
   };
@@ -33,17 +72,190 @@ export interface WebhookState {
 
 export interface WebhookSettings {
   auth: AuthContext;
-  webhookSettings: {
-    webhook_url: string | null;
-    webhook_secret: string | null;
-  };
+  endpoints: WebhookEndpoint[];
+  surveys: Survey[];
   recentDeliveries: WebhookQueueItem[];
   state?: WebhookState;
   csrfToken: string | null;
 }
 
+const SecretNotice = ({ secret }: { secret: string }): JSX.Element => (
+  <div className="mt-3">
+    <div className="text-sm font-medium mb-2">
+      Webhook Secret (copy this now - it won't be shown again):
+    </div>
+    <div className="bg-base-100 border border-base-300 rounded p-3 mb-3">
+      <code className="text-sm break-all select-all">{secret}</code>
+    </div>
+    <button type="button" className="btn btn-sm btn-success">
+      <Copy className="w-4 h-4" />
+      Copy Secret
+    </button>
+  </div>
+);
+
+export const getStatusBadge = (status: string) => {
+  switch (status) {
+    case "delivered":
+      return "badge badge-success badge-soft";
+    case "failed":
+    case "dead":
+      return "badge badge-error badge-soft";
+    case "pending":
+    case "paused":
+      return "badge badge-warning badge-soft";
+    case "processing":
+      return "badge badge-info badge-soft";
+    default:
+      return "badge badge-neutral badge-soft";
+  }
+};
+
+export const getStatusIcon = (status: string) => {
+  const iconClass = "w-4 h-4";
+  switch (status) {
+    case "delivered":
+      return <CheckCircle className={iconClass} />;
+    case "failed":
+      return <AlertTriangle className={iconClass} />;
+    case "dead":
+      return <XCircle className={iconClass} />;
+    case "pending":
+      return <Clock className={iconClass} />;
+    case "processing":
+      return <Loader className={iconClass} />;
+    case "paused":
+      return <CirclePause className={iconClass} />;
+    default:
+      return <AlertTriangle className={iconClass} />;
+  }
+};
+
+const SECRET_OVERLAP_OPTIONS = [
+  { hours: 0, label: "No overlap - stop using it now" },
+  { hours: 1, label: "1 hour" },
+  { hours: 24, label: "24 hours" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "7 days" },
+];
+
+const SurveyScopeFields = ({
+  surveys,
+  selected,
+}: {
+  surveys: Survey[];
+  selected: string[];
+}): JSX.Element => (
+  <fieldset className="fieldset">
+    <legend className="fieldset-legend">Surveys</legend>
+    {surveys.length === 0 ? (
+      <p className="label">
+        This endpoint will receive responses from every survey.
+      </p>
+    ) : (
+      <>
+        <div className="flex flex-col gap-2 max-h-48 overflow-y-auto">
+          {surveys.map((survey) => (
+            <label
+              key={survey.id}
+              className="label cursor-pointer justify-start gap-3"
+            >
+              <input
+                type="checkbox"
+                name="survey_ids"
+                value={survey.id}
+                defaultChecked={selected.includes(survey.id)}
+                className="checkbox checkbox-sm"
+              />
+              <span>
+                {survey.title}{" "}
+                <span className="font-mono opacity-60">{survey.survey_id}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <p className="label">
+          Leave all unchecked to receive responses from every survey.
+        </p>
+      </>
+    )}
+  </fieldset>
+);
+
+const SignatureVersionField = ({
+  selected,
+}: {
+  selected: number;
+}): JSX.Element => (
+  <fieldset className="fieldset">
+    <legend className="fieldset-legend">Signature Version</legend>
+    <select
+      name="signature_version"
+      defaultValue={String(selected)}
+      className="select w-full"
+    >
+      <option value="2">v2 - signs timestamp and body (recommended)</option>
+      <option value="1">v1 - signs body only (legacy)</option>
+    </select>
+    <p className="label">
+      v2 protects against replayed requests and keeps a rotated secret active
+      for an overlap window.
+    </p>
+  </fieldset>
+);
+
+const PayloadVersionField = ({
+  selected,
+}: {
+  selected: number;
+}): JSX.Element => (
+  <fieldset className="fieldset">
+    <legend className="fieldset-legend">Payload Version</legend>
+    <select
+      name="payload_version"
+      defaultValue={String(selected)}
+      className="select w-full"
+    >
+      <option value="2">v2 - event envelope (recommended)</option>
+      <option value="1">v1 - flat response body (legacy)</option>
+    </select>
+    <p className="label">
+      v1 sends response events as a flat body without the event type; other
+      events always use the envelope.
+    </p>
+  </fieldset>
+);
+
+const EventSubscriptionFields = ({
+  selected,
+}: {
+  selected: string[];
+}): JSX.Element => (
+  <fieldset className="fieldset">
+    <legend className="fieldset-legend">Events</legend>
+    <div className="flex flex-col gap-2">
+      {WEBHOOK_EVENT_TYPES.map((eventType) => (
+        <label
+          key={eventType}
+          className="label cursor-pointer justify-start gap-3"
+        >
+          <input
+            type="checkbox"
+            name="events"
+            value={eventType}
+            defaultChecked={selected.includes(eventType)}
+            className="checkbox checkbox-sm"
+          />
+          <span className="font-mono">{eventType}</span>
+        </label>
+      ))}
+    </div>
+    <p className="label">Leave all unchecked to receive every event type.</p>
+  </fieldset>
+);
+
 export const Webhooks = (props: WebhookSettings): JSX.Element => {
-  const { webhookSettings, recentDeliveries, state, csrfToken } = props;
+  const { endpoints, surveys, recentDeliveries, state, csrfToken } = props;
 
   const formatSecretDisplay = (secret: string | null): string => {
     if (!secret) return "";
@@ -61,37 +273,6 @@ export const Webhooks = (props: WebhookSettings): JSX.Element => {
     });
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "delivered":
-        return "badge badge-success badge-soft";
-      case "failed":
-        return "badge badge-error badge-soft";
-      case "pending":
-        return "badge badge-warning badge-soft";
-      case "processing":
-        return "badge badge-info badge-soft";
-      default:
-        return "badge badge-neutral badge-soft";
-    }
-  };
-
-  const getStatusIcon = (status: string) => {
-    const iconClass = "w-4 h-4";
-    switch (status) {
-      case "delivered":
-        return <CheckCircle className={iconClass} />;
-      case "failed":
-        return <AlertTriangle className={iconClass} />;
-      case "pending":
-        return <Clock className={iconClass} />;
-      case "processing":
-        return <Loader className={iconClass} />;
-      default:
-        return <AlertTriangle className={iconClass} />;
-    }
-  };
-
   const getScoreBadgeClass = (score: number): string => {
     if (score >= 9) return "badge-success";
     if (score >= 7) return "badge-warning";
@@ -113,50 +294,117 @@ export const Webhooks = (props: WebhookSettings): JSX.Element => {
         />
 
         {/* Success Messages */}
-        {state?.updated && (
+        {state?.created && (
           <div className="mb-6">
             <Alert
               type="success"
               icon={<CheckCircle className="w-6 h-6" />}
-              title="Webhook Settings Updated Successfully"
+              title="Webhook Endpoint Added Successfully"
               description={
                 <div>
-                  <div>Your webhook URL has been configured:</div>
+                  <div>Survey responses will be sent to:</div>
                   <div className="bg-base-100 border border-base-300 rounded p-3 mt-2">
                     <code className="text-sm break-all select-all">
-                      {state.updated.webhook_url}
+                      {state.created.url}
                     </code>
                   </div>
-                  {state.updated.webhook_secret && (
-                    <div className="mt-3">
-                      <div className="text-sm font-medium mb-2">
-                        Webhook Secret (copy this now - it won't be shown
-                        again):
-                      </div>
-                      <div className="bg-base-100 border border-base-300 rounded p-3 mb-3">
-                        <code className="text-sm break-all select-all">
-                          {state.updated.webhook_secret}
-                        </code>
-                      </div>
-                      <button type="button" className="btn btn-sm btn-success">
-                        <Copy className="w-4 h-4" />
-                        Copy Secret
-                      </button>
-                    </div>
-                  )}
+                  <SecretNotice secret={state.created.secret} />
                 </div>
               }
             />
           </div>
         )}
 
+        {state?.updated && (
+          <div className="mb-6">
+            <Alert
+              type="success"
+              icon={<CheckCircle className="w-6 h-6" />}
+              title="Webhook Endpoint Updated Successfully"
+              description={
+                <code className="text-sm break-all">{state.updated.url}</code>
+              }
+            />
+          </div>
+        )}
+
+        {state?.rotated && (
+          <div className="mb-6">
+            <Alert
+              type="success"
+              icon={<CheckCircle className="w-6 h-6" />}
+              title="Webhook Secret Rotated"
+              description={
+                <div>
+                  <code className="text-sm break-all">{state.rotated.url}</code>
+                  <div className="mt-2">
+                    {state.rotated.previousExpiresAt
+                      ? `The previous secret keeps signing deliveries until ${formatDate(state.rotated.previousExpiresAt)}.`
+                      : "Deliveries are now signed with the new secret only."}
+                  </div>
+                  <SecretNotice secret={state.rotated.secret} />
+                </div>
+              }
+            />
+          </div>
+        )}
+
+        {state?.deleted && (
+          <div className="mb-6">
+            <Alert
+              type="warning"
+              icon={<Trash2 className="w-6 h-6" />}
+              title={`Webhook endpoint ${state.deleted.url} has been deleted.`}
+            />
+          </div>
+        )}
+
+        {state?.retired && (
+          <div className="mb-6">
+            <Alert
+              type="success"
+              icon={<CheckCircle className="w-6 h-6" />}
+              title={`The previous secret for ${state.retired.url} no longer signs deliveries.`}
+            />
+          </div>
+        )}
+
+        {state?.redelivered && (
+          <div className="mb-6">
+            <Alert
+              type="success"
+              icon={<RotateCcw className="w-6 h-6" />}
+              title={
+                state.redelivered.count === 1
+                  ? "1 delivery queued for redelivery."
+                  : `${state.redelivered.count} deliveries queued for redelivery.`
+              }
+            />
+          </div>
+        )}
+
+        {state?.resumed && (
+          <div className="mb-6">
+            <Alert
+              type="success"
+              icon={<Play className="w-6 h-6" />}
+              title={`Webhook endpoint ${state.resumed.url} has been resumed.`}
+              description={
+                state.resumed.count === 1
+                  ? "1 waiting delivery will be sent in order."
+                  : `${state.resumed.count} waiting deliveries will be sent in order.`
+              }
+            />
+          </div>
+        )}
+
         {state?.testSuccess && (
           <div className="mb-6">
             <Alert
               type="success"
               icon={<CheckCircle className="w-6 h-6" />}
               title="Test Webhook Sent Successfully"
-              description={`Your endpoint responded with status code ${state.testSuccess.statusCode}. Your webhook is working correctly!`}
+              description={`${state.testSuccess.url} responded with status code ${state.testSuccess.statusCode}. Your webhook is working correctly!`}
             />
           </div>
         )}
@@ -167,7 +415,7 @@ export const Webhooks = (props: WebhookSettings): JSX.Element => {
               type="error"
               icon={<AlertTriangle className="w-6 h-6" />}
               title="Test Webhook Failed"
-              description={`Status code: ${state.testError.statusCode || "No response"}. Error: ${state.testError.message}`}
+              description={`${state.testError.url} - Status code: ${state.testError.statusCode || "No response"}. Error: ${state.testError.message}`}
             />
           </div>
         )}
@@ -182,94 +430,423 @@ export const Webhooks = (props: WebhookSettings): JSX.Element => {
           </div>
         )}
 
-        {/* Webhook Configuration Form */}
-        <div className="card bg-neutral text-neutral-content max-w-2xl mb-8">
-          <div className="card-body">
-            <h2 className="card-title text-lg mb-4">
-              <Webhook className="w-5 h-5" />
-              Configure Webhook
-            </h2>
-            <form
-              method="POST"
-              action="/settings/webhooks"
-              className="space-y-6"
-            >
-              <CsrfField token={csrfToken} />
-              <input type="hidden" name="action" value="update" />
-
-              <fieldset className="fieldset">
-                <legend className="fieldset-legend">Webhook URL *</legend>
-                <input
-                  type="url"
-                  id="webhook_url"
-                  name="webhook_url"
-                  required
-                  defaultValue={webhookSettings.webhook_url || ""}
-                  placeholder="https://your-app.com/api/webhooks/clicknps"
-                  className="input w-full"
-                />
-                <p className="label">
-                  The endpoint where survey responses will be sent.
-                </p>
-              </fieldset>
-
-              <fieldset className="fieldset">
-                <legend className="fieldset-legend">
-                  Webhook Secret (optional)
-                </legend>
-                <input
-                  type="text"
-                  id="webhook_secret"
-                  name="webhook_secret"
-                  defaultValue=""
-                  placeholder="Leave empty to auto-generate"
-                  className="input w-full font-mono"
-                />
-                <p className="label">
-                  Used to verify webhook authenticity. Leave empty to
-                  auto-generate a secure secret.
-                  {webhookSettings.webhook_secret && (
-                    <span className="block mt-1">
-                      Current secret:{" "}
-                      <code className="bg-base-300 px-1 rounded">
-                        {formatSecretDisplay(webhookSettings.webhook_secret)}
-                      </code>
-                    </span>
-                  )}
-                </p>
-              </fieldset>
-
-              <div className="flex flex-col sm:flex-row gap-4 pt-4">
-                <button type="submit" className="btn btn-primary">
-                  Save Webhook Settings
-                </button>
+        {/* Webhook Endpoints */}
+        <div className="mb-8">
+          <h2 className="text-xl font-bold mb-4">
+            <Webhook className="w-6 h-6 inline mr-2" />
+            Endpoints
+          </h2>
 
-                {webhookSettings.webhook_url && (
-                  <button
-                    type="button"
-                    className="btn btn-dash"
-                    data-action="test-webhook"
-                  >
-                    <TestTube className="w-4 h-4" />
-                    Test Webhook
-                  </button>
-                )}
-              </div>
-            </form>
+          {endpoints.length === 0 ? (
+            <div className="text-center py-12 bg-base-200 rounded-lg">
+              <p className="text-base-content/70">
+                No webhook endpoints configured
+              </p>
+            </div>
+          ) : (
+            <ul className="list bg-neutral rounded-box shadow-md">
+              {endpoints.map((endpoint) => (
+                <li key={endpoint.id} className="list-row">
+                  <div className="list-col-grow min-w-0">
+                    <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+                      <div className="min-w-0 flex-1 space-y-2">
+                        <div className="font-mono text-sm break-all">
+                          {endpoint.url}
+                        </div>
+                        {endpoint.paused_at && (
+                          <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <span className="badge badge-warning">
+                              <CirclePause className="w-3 h-3" />
+                              Paused
+                            </span>
+                            <span className="opacity-70">
+                              {`Paused ${formatDate(endpoint.paused_at)} after ${endpoint.consecutive_failures} failed attempts in a row. ${endpoint.paused_deliveries} ${endpoint.paused_deliveries === 1 ? "delivery is" : "deliveries are"} waiting.`}
+                            </span>
+                          </div>
+                        )}
+                        {endpoint.description && (
+                          <div className="text-sm opacity-70">
+                            {endpoint.description}
+                          </div>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                          {endpoint.all_surveys ? (
+                            <span className="badge badge-soft">
+                              All surveys
+                            </span>
+                          ) : endpoint.surveys.length === 0 ? (
+                            <span className="badge badge-soft badge-warning">
+                              No surveys
+                            </span>
+                          ) : (
+                            endpoint.surveys.map((survey) => (
+                              <span
+                                key={survey.id}
+                                className="badge badge-soft badge-primary"
+                              >
+                                {survey.title}
+                              </span>
+                            ))
+                          )}
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {endpoint.events.length === 0 ? (
+                            <span className="badge badge-soft">All events</span>
+                          ) : (
+                            endpoint.events.map((eventType) => (
+                              <span
+                                key={eventType}
+                                className="badge badge-soft badge-secondary font-mono"
+                              >
+                                {eventType}
+                              </span>
+                            ))
+                          )}
+                        </div>
+                        <div className="text-xs opacity-60">
+                          Secret:{" "}
+                          <code className="bg-base-300 px-1 rounded">
+                            {formatSecretDisplay(endpoint.secret)}
+                          </code>{" "}
+                          <span className="badge badge-xs badge-outline">
+                            {`Signature v${endpoint.signature_version}`}
+                          </span>{" "}
+                          <span className="badge badge-xs badge-outline">
+                            {`Payload v${endpoint.payload_version}`}
+                          </span>
+                        </div>
+                        {endpoint.secondary_secret && (
+                          <div className="text-xs opacity-60">
+                            Previous secret{" "}
+                            <code className="bg-base-300 px-1 rounded">
+                              {formatSecretDisplay(endpoint.secondary_secret)}
+                            </code>{" "}
+                            {endpoint.secondary_secret_expires_at
+                              ? `still signs deliveries until ${formatDate(endpoint.secondary_secret_expires_at)}`
+                              : "still signs deliveries"}
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="join join-vertical lg:join-horizontal">
+                        {endpoint.paused_at && (
+                          <form
+                            method="POST"
+                            action="/settings/webhooks"
+                            className="inline"
+                          >
+                            <CsrfField token={csrfToken} />
+                            <input
+                              type="hidden"
+                              name="action"
+                              value="resume_endpoint"
+                            />
+                            <input
+                              type="hidden"
+                              name="endpoint_id"
+                              value={endpoint.id}
+                            />
+                            <button
+                              type="submit"
+                              className="btn btn-sm btn-success join-item"
+                              title="Send the waiting deliveries in order"
+                            >
+                              <Play className="w-4 h-4" />
+                              Resume
+                            </button>
+                          </form>
+                        )}
+
+                        <form
+                          method="POST"
+                          action="/settings/webhooks"
+                          className="inline"
+                        >
+                          <CsrfField token={csrfToken} />
+                          <input type="hidden" name="action" value="test" />
+                          <input
+                            type="hidden"
+                            name="endpoint_id"
+                            value={endpoint.id}
+                          />
+                          <button
+                            type="submit"
+                            className="btn btn-sm btn-dash join-item"
+                          >
+                            <TestTube className="w-4 h-4" />
+                            Test
+                          </button>
+                        </form>
+
+                        {endpoint.secondary_secret && (
+                          <form
+                            method="POST"
+                            action="/settings/webhooks"
+                            className="inline"
+                          >
+                            <CsrfField token={csrfToken} />
+                            <input
+                              type="hidden"
+                              name="action"
+                              value="retire_secret"
+                            />
+                            <input
+                              type="hidden"
+                              name="endpoint_id"
+                              value={endpoint.id}
+                            />
+                            <button
+                              type="submit"
+                              className="btn btn-sm btn-warning join-item"
+                              title="Stop signing with the previous secret"
+                            >
+                              Retire Previous Secret
+                            </button>
+                          </form>
+                        )}
+
+                        <form
+                          method="POST"
+                          action="/settings/webhooks"
+                          className="inline"
+                        >
+                          <CsrfField token={csrfToken} />
+                          <input type="hidden" name="action" value="delete" />
+                          <input
+                            type="hidden"
+                            name="endpoint_id"
+                            value={endpoint.id}
+                          />
+                          <button
+                            type="submit"
+                            className="btn btn-sm btn-error join-item"
+                            title="Permanently delete this endpoint"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                            Delete
+                          </button>
+                        </form>
+                      </div>
+                    </div>
+
+                    <details className="collapse collapse-arrow bg-base-100 mt-4">
+                      <summary className="collapse-title text-sm font-medium">
+                        <Pencil className="w-4 h-4 inline mr-2" />
+                        Edit endpoint
+                      </summary>
+                      <div className="collapse-content">
+                        <form
+                          method="POST"
+                          action="/settings/webhooks"
+                          className="space-y-4"
+                        >
+                          <CsrfField token={csrfToken} />
+                          <input type="hidden" name="action" value="update" />
+                          <input
+                            type="hidden"
+                            name="endpoint_id"
+                            value={endpoint.id}
+                          />
+
+                          <fieldset className="fieldset">
+                            <legend className="fieldset-legend">
+                              Webhook URL *
+                            </legend>
+                            <input
+                              type="url"
+                              name="webhook_url"
+                              required
+                              defaultValue={endpoint.url}
+                              className="input w-full"
+                            />
+                          </fieldset>
+
+                          <fieldset className="fieldset">
+                            <legend className="fieldset-legend">
+                              Description
+                            </legend>
+                            <input
+                              type="text"
+                              name="description"
+                              maxLength={255}
+                              defaultValue={endpoint.description ?? ""}
+                              className="input w-full"
+                            />
+                          </fieldset>
+
+                          <SurveyScopeFields
+                            surveys={surveys}
+                            selected={endpoint.surveys.map(
+                              (survey) => survey.id,
+                            )}
+                          />
+
+                          <EventSubscriptionFields selected={endpoint.events} />
+
+                          <SignatureVersionField
+                            selected={endpoint.signature_version}
+                          />
+
+                          <PayloadVersionField
+                            selected={endpoint.payload_version}
+                          />
+
+                          <button type="submit" className="btn btn-primary">
+                            Save Endpoint
+                          </button>
+                        </form>
+                      </div>
+                    </details>
+
+                    <details className="collapse collapse-arrow bg-base-100 mt-2">
+                      <summary className="collapse-title text-sm font-medium">
+                        <RefreshCw className="w-4 h-4 inline mr-2" />
+                        Rotate secret
+                      </summary>
+                      <div className="collapse-content">
+                        <form
+                          method="POST"
+                          action="/settings/webhooks"
+                          className="space-y-4"
+                        >
+                          <CsrfField token={csrfToken} />
+                          <input type="hidden" name="action" value="rotate" />
+                          <input
+                            type="hidden"
+                            name="endpoint_id"
+                            value={endpoint.id}
+                          />
+
+                          <fieldset className="fieldset">
+                            <legend className="fieldset-legend">
+                              Keep the current secret for
+                            </legend>
+                            <select
+                              name="overlap_hours"
+                              defaultValue={String(
+                                DEFAULT_SECRET_OVERLAP_HOURS,
+                              )}
+                              className="select w-full"
+                            >
+                              {SECRET_OVERLAP_OPTIONS.map((option) => (
+                                <option key={option.hours} value={option.hours}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                            <p className="label">
+                              {endpoint.signature_version === 2
+                                ? "Deliveries are signed with both secrets until the overlap ends."
+                                : "Until the overlap ends, deliveries also carry an X-ClickNPS-Signature-Previous header signed with the previous secret."}
+                            </p>
+                          </fieldset>
+
+                          <fieldset className="fieldset">
+                            <legend className="fieldset-legend">
+                              New Secret (optional)
+                            </legend>
+                            <input
+                              type="text"
+                              name="webhook_secret"
+                              defaultValue=""
+                              placeholder="Leave empty to auto-generate"
+                              className="input w-full font-mono"
+                            />
+                          </fieldset>
+
+                          <button type="submit" className="btn btn-warning">
+                            Rotate Secret
+                          </button>
+                        </form>
+                      </div>
+                    </details>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
 
-            {webhookSettings.webhook_url && (
+        {/* Add Endpoint Form */}
+        {endpoints.length < MAX_WEBHOOK_ENDPOINTS && (
+          <div className="card bg-neutral text-neutral-content max-w-2xl mb-8">
+            <div className="card-body">
+              <h2 className="card-title text-lg mb-4">
+                <Plus className="w-5 h-5" />
+                Add Endpoint
+              </h2>
               <form
-                id="test-webhook-form"
                 method="POST"
                 action="/settings/webhooks"
-                className="hidden"
+                className="space-y-6"
               >
                 <CsrfField token={csrfToken} />
-                <input type="hidden" name="action" value="test" />
+                <input type="hidden" name="action" value="create" />
+
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">Webhook URL *</legend>
+                  <input
+                    type="url"
+                    id="webhook_url"
+                    name="webhook_url"
+                    required
+                    placeholder="https://your-app.com/api/webhooks/clicknps"
+                    className="input w-full"
+                  />
+                  <p className="label">
+                    The endpoint where survey responses will be sent.
+                  </p>
+                </fieldset>
+
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">
+                    Description (optional)
+                  </legend>
+                  <input
+                    type="text"
+                    id="description"
+                    name="description"
+                    maxLength={255}
+                    placeholder="e.g. Support team CRM"
+                    className="input w-full"
+                  />
+                </fieldset>
+
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">
+                    Webhook Secret (optional)
+                  </legend>
+                  <input
+                    type="text"
+                    id="webhook_secret"
+                    name="webhook_secret"
+                    defaultValue=""
+                    placeholder="Leave empty to auto-generate"
+                    className="input w-full font-mono"
+                  />
+                  <p className="label">
+                    Used to verify webhook authenticity. Leave empty to
+                    auto-generate a secure secret.
+                  </p>
+                </fieldset>
+
+                <SurveyScopeFields surveys={surveys} selected={[]} />
+
+                <EventSubscriptionFields selected={[]} />
+
+                <SignatureVersionField selected={2} />
+
+                <PayloadVersionField selected={2} />
+
+                <div className="pt-4">
+                  <button type="submit" className="btn btn-primary">
+                    Add Endpoint
+                  </button>
+                </div>
               </form>
-            )}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Recent Webhook Deliveries */}
         <div className="mb-8">
@@ -278,6 +855,53 @@ export const Webhooks = (props: WebhookSettings): JSX.Element => {
             Recent Webhook Deliveries
           </h2>
 
+          <details className="collapse collapse-arrow bg-base-200 mb-4">
+            <summary className="collapse-title text-sm font-medium">
+              <RotateCcw className="w-4 h-4 inline mr-2" />
+              Redeliver failed deliveries
+            </summary>
+            <div className="collapse-content">
+              <form
+                method="POST"
+                action="/settings/webhooks"
+                className="flex flex-col md:flex-row md:items-end gap-4"
+              >
+                <CsrfField token={csrfToken} />
+                <input type="hidden" name="action" value="redeliver_failed" />
+
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">Failed since</legend>
+                  <input
+                    type="datetime-local"
+                    name="since"
+                    required
+                    className="input"
+                  />
+                </fieldset>
+
+                <fieldset className="fieldset">
+                  <legend className="fieldset-legend">Endpoint</legend>
+                  <select name="endpoint_id" defaultValue="" className="select">
+                    <option value="">All endpoints</option>
+                    {endpoints.map((endpoint) => (
+                      <option key={endpoint.id} value={endpoint.id}>
+                        {endpoint.url}
+                      </option>
+                    ))}
+                  </select>
+                </fieldset>
+
+                <button type="submit" className="btn btn-warning">
+                  Redeliver
+                </button>
+              </form>
+              <p className="text-sm opacity-70 mt-2">
+                Queues every failed or dead delivery whose last attempt was at
+                or after this time, for example after your receiver was down.
+              </p>
+            </div>
+          </details>
+
           {recentDeliveries.length === 0 ? (
             <div className="text-center py-12 px-4">
               <div className="hero bg-base-200 rounded-box p-8 max-w-md mx-auto">
@@ -289,7 +913,7 @@ export const Webhooks = (props: WebhookSettings): JSX.Element => {
                     <h3 className="text-xl font-bold mb-2">No webhooks yet</h3>
                     <p className="mb-6 opacity-80">
                       Webhook deliveries will appear here after survey responses
-                      are received. Configure your webhook URL above to start
+                      are received. Add a webhook endpoint above to start
                       receiving notifications.
                     </p>
                   </div>
@@ -310,11 +934,16 @@ export const Webhooks = (props: WebhookSettings): JSX.Element => {
                               {delivery.status}
                             </span>
                           </div>
-                          <div
-                            className={`badge ${getScoreBadgeClass(delivery.score)}`}
-                          >
-                            Score: {delivery.score}
-                          </div>
+                          <span className="badge badge-outline font-mono">
+                            {delivery.event_type}
+                          </span>
+                          {delivery.score !== null && (
+                            <div
+                              className={`badge ${getScoreBadgeClass(delivery.score)}`}
+                            >
+                              Score: {delivery.score}
+                            </div>
+                          )}
                         </div>
 
                         <div className="space-y-2">
@@ -325,10 +954,18 @@ export const Webhooks = (props: WebhookSettings): JSX.Element => {
                                 {delivery.survey_id}
                               </span>
                             </div>
-                            <div className="text-sm opacity-70">
-                              Subject:{" "}
+                            {delivery.subject_id && (
+                              <div className="text-sm opacity-70">
+                                Subject:{" "}
+                                <span className="font-mono">
+                                  {delivery.subject_id}
+                                </span>
+                              </div>
+                            )}
+                            <div className="text-sm opacity-70 break-all">
+                              Endpoint:{" "}
                               <span className="font-mono">
-                                {delivery.subject_id}
+                                {delivery.webhook_url}
                               </span>
                             </div>
                           </div>
@@ -349,6 +986,13 @@ export const Webhooks = (props: WebhookSettings): JSX.Element => {
                       </div>
 
                       <div className="flex items-center gap-2">
+                        <a
+                          href={`/settings/webhooks/deliveries/${delivery.id}`}
+                          className="btn btn-sm btn-ghost"
+                        >
+                          <Eye className="w-4 h-4" />
+                          Details
+                        </a>
                         {delivery.response_status_code ? (
                           <div
                             className={`badge ${
@@ -381,30 +1025,64 @@ export const Webhooks = (props: WebhookSettings): JSX.Element => {
             </h3>
             <div className="text-sm space-y-2">
               <p>
-                • Webhooks are sent 180 seconds after a survey response to allow
-                time for optional comments
+                • response.created is sent 180 seconds after a survey response
+                to allow time for an optional comment; comments added later are
+                sent as response.comment_added
+              </p>
+              <p>
+                • Other events (links.minted, survey.created, survey.deleted)
+                are sent as soon as they happen
+              </p>
+              <p>
+                • Each endpoint receives its own copy of every matching
+                response, with its own secret and retries
               </p>
               <p>
                 • Failed webhooks are retried with exponential backoff: 1min,
-                5min, 30min, 2hr, 6hr, 12hr, 24hr
+                5min, 30min, 2hr, 6hr, 12hr, 24hr. After the last retry the
+                delivery is dead until you redeliver it
               </p>
               <p>
-                • Webhooks include HMAC-SHA256 signature in the{" "}
+                • Webhooks include an HMAC-SHA256 signature in the{" "}
                 <code className="bg-base-100 text-base-content px-1 rounded">
                   X-ClickNPS-Signature
                 </code>{" "}
-                header for verification
+                header. v2 signs the timestamp and body as{" "}
+                <code className="bg-base-100 text-base-content px-1 rounded">
+                  t=&lt;timestamp&gt;,v2=&lt;hex&gt;
+                </code>
+                ; v1 signs the body only as{" "}
+                <code className="bg-base-100 text-base-content px-1 rounded">
+                  sha256=&lt;hex&gt;
+                </code>
+              </p>
+              <p>
+                • Every delivery has a unique{" "}
+                <code className="bg-base-100 text-base-content px-1 rounded">
+                  X-ClickNPS-Delivery-Id
+                </code>{" "}
+                header that stays the same across retries. See the{" "}
+                <a href="/docs/webhooks" className="link">
+                  webhook docs
+                </a>{" "}
+                for verification code and test vectors
               </p>
               <p>• Example payload:</p>
               <div className="mockup-code w-full bg-base-100">
                 <pre>
                   <code>
                     {`{
-    survey_id: "abc123",
-    subject_id: "user42",
-    score: 9,
-    comment: "Loving the product!",
-    timestamp: "2025-09-15T10:01:00Z",
+    id: "4f0c2a9e-8d1b-4c3e-9a57-2b6f1e8d0c44",
+    type: "response.created",
+    version: 1,
+    created_at: "2025-09-15T10:01:00Z",
+    data: {
+      survey_id: "abc123",
+      survey_type: "nps",
+      subject_id: "user42",
+      score: 9,
+      comment: "Loving the product!"
+    }
   }`}
                   </code>
                 </pre>
@@ -1,5 +1,6 @@
 import { randomUUID } from "node:crypto";
 import type { SQL } from "bun";
+import { computeHMAC, generateSecureToken } from "../utils/crypto";
 
 /**
  * Helper function to create URL-encoded state parameter for tests
@@ -41,6 +42,8 @@ export const cleanupTestData = async (db: SQL): Promise<void> => {
   await db`TRUNCATE TABLE user_tokens CASCADE`;
   await db`TRUNCATE TABLE users CASCADE`;
   await db`TRUNCATE TABLE webhook_queue CASCADE`;
+  await db`TRUNCATE TABLE job_schedules CASCADE`;
+  await db`TRUNCATE TABLE jobs CASCADE`;
   // Note: migrations table is intentionally NOT truncated to preserve schema state
 };
 
@@ -74,3 +77,22 @@ export const createTestBusiness = async (
 
   return businessId;
 };
+
+/**
+ * Creates a test API key for a business and returns the plain token
+ * Inserts directly so it works even when the api-keys service is mocked
+ */
+export const createTestApiKey = async (
+  connection: SQL,
+  businessId: string,
+  name = "Test Key",
+): Promise<string> => {
+  const token = `ck_${generateSecureToken(48)}`;
+
+  await connection`
+    INSERT INTO api_keys (id, business_id, key_hash, key_preview, name)
+    VALUES (${randomUUID()}, ${businessId}, ${computeHMAC(token)}, ${token.substring(0, 8)}, ${name})
+  `;
+
+  return token;
+};
@@ -1,6 +1,11 @@
 import { db } from "../services/database";
 import { processQueueNow } from "../services/queue-worker";
-import type { WebhookQueueItem } from "../services/webhooks";
+import type {
+  ResponseEventData,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookQueueItem,
+} from "../services/webhooks";
 
 /**
  * Wait for webhook queue to be processed within timeout
@@ -37,13 +42,7 @@ export const waitForWebhookQueue = async (timeoutMs = 5000): Promise<void> => {
  * Mock webhook endpoint that captures received webhooks
  * Returns a function to get captured webhooks and cleanup
  */
-type WebhookPayload = {
-  survey_id: string;
-  subject_id: string;
-  score: number;
-  comment: string | null;
-  timestamp: string;
-};
+type WebhookPayload = WebhookEvent<ResponseEventData>;
 
 export const mockWebhookEndpoint = (
   port = 9999,
@@ -77,11 +76,18 @@ export const mockWebhookEndpoint = (
         } catch {
           // If JSON parsing fails, create a default payload
           body = {
-            survey_id: "unknown",
-            subject_id: "unknown",
-            score: 0,
-            comment: null,
-            timestamp: new Date().toISOString(),
+            id: "unknown",
+            type: "response.created",
+            version: 0,
+            created_at: new Date().toISOString(),
+            data: {
+              survey_id: "unknown",
+              survey_type: "nps",
+              subject_id: "unknown",
+              score: 0,
+              comment: null,
+              follow_up: null,
+            },
           };
         }
 
@@ -105,6 +111,21 @@ export const mockWebhookEndpoint = (
   };
 };
 
+/**
+ * Build a response.created envelope for sending directly in tests
+ */
+export const createTestEvent = (
+  data: Omit<ResponseEventData, "survey_type" | "follow_up"> &
+    Partial<Pick<ResponseEventData, "survey_type" | "follow_up">>,
+  createdAt = new Date().toISOString(),
+): WebhookEvent<ResponseEventData> => ({
+  id: crypto.randomUUID(),
+  type: "response.created",
+  version: 1,
+  created_at: createdAt,
+  data: { survey_type: "nps", follow_up: null, ...data },
+});
+
 /**
  * Advance time for scheduled webhooks in tests
  * Updates scheduled_for timestamps to simulate time passing
@@ -161,7 +182,7 @@ export const waitForWebhookStatus = async (
   businessId: string,
   surveyId: string,
   subjectId: string,
-  expectedStatus: "pending" | "processing" | "delivered" | "failed",
+  expectedStatus: WebhookDeliveryStatus,
   timeoutMs = 5000,
 ): Promise<WebhookQueueItem> => {
   const startTime = Date.now();
@@ -205,7 +226,8 @@ export const createTestWebhook = async (
     webhookUrl?: string;
     webhookSecret?: string;
     scheduledFor?: Date;
-    status?: "pending" | "processing" | "delivered" | "failed";
+    status?: WebhookDeliveryStatus;
+    endpointId?: string;
   } = {},
 ): Promise<string> => {
   const id = crypto.randomUUID();
@@ -214,14 +236,14 @@ export const createTestWebhook = async (
   await db`
     INSERT INTO webhook_queue (
       id, business_id, survey_id, subject_id, score, comment,
-      webhook_url, webhook_secret, scheduled_for, status
+      webhook_url, webhook_secret, scheduled_for, status, endpoint_id
     )
     VALUES (
       ${id}, ${businessId}, ${options.surveyId || "test_survey"}, 
       ${options.subjectId || "test_subject"}, ${options.score || 8},
       ${options.comment || null}, ${options.webhookUrl || "http://localhost:9999"},
       ${options.webhookSecret || "test_secret"}, ${scheduledFor},
-      ${options.status || "pending"}
+      ${options.status || "pending"}, ${options.endpointId || null}
     )
   `;
 
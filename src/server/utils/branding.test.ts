@@ -0,0 +1,62 @@
+import { describe, expect, it } from "bun:test";
+import { getContrastTextColor, parseSurveyBranding } from "./branding";
+
+describe("branding utils", () => {
+  describe("parseSurveyBranding", () => {
+    it("should treat missing branding as none", () => {
+      expect(parseSurveyBranding(undefined)).toEqual({ branding: null });
+      expect(parseSurveyBranding(null)).toEqual({ branding: null });
+      expect(parseSurveyBranding({ logo_url: " ", brand_color: "" })).toEqual({
+        branding: null,
+      });
+    });
+
+    it("should trim text and lowercase the brand color", () => {
+      expect(
+        parseSurveyBranding({
+          logo_url: "https://example.com/logo.png",
+          brand_color: "#1E40AF",
+          passive_headline: "  Thanks!  ",
+          passive_body: "",
+        }),
+      ).toEqual({
+        branding: {
+          logo_url: "https://example.com/logo.png",
+          brand_color: "#1e40af",
+          passive_headline: "Thanks!",
+        },
+      });
+    });
+
+    it("should reject values it cannot use", () => {
+      expect(parseSurveyBranding("blue")).toEqual({
+        error: "branding must be an object",
+      });
+      expect(parseSurveyBranding({ font: "serif" })).toEqual({
+        error: "Unknown branding field: font",
+      });
+      expect(parseSurveyBranding({ comment_prompt: 5 })).toEqual({
+        error: "comment_prompt must be a string",
+      });
+      expect(parseSurveyBranding({ logo_url: "not a url" })).toEqual({
+        error: "logo_url must be a valid URL",
+      });
+      expect(
+        parseSurveyBranding({ logo_url: "http://example.com/logo.png" }),
+      ).toEqual({ error: "logo_url must use https" });
+      expect(parseSurveyBranding({ brand_color: "#fff" })).toEqual({
+        error: "brand_color must be a hex color such as #4f46e5",
+      });
+      expect(
+        parseSurveyBranding({ promoter_headline: "x".repeat(121) }),
+      ).toEqual({ error: "promoter_headline must be at most 120 characters" });
+    });
+  });
+
+  describe("getContrastTextColor", () => {
+    it("should pick black on light colors and white on dark ones", () => {
+      expect(getContrastTextColor("#ffcc00")).toBe("#000000");
+      expect(getContrastTextColor("#1e40af")).toBe("#ffffff");
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * How a survey's hosted thank-you page looks
+ * Every field is optional; anything left out uses the ClickNPS default.
+ * The copy fields share their names with the locale catalog keys.
+ */
+export interface SurveyBranding {
+  logo_url?: string;
+  brand_color?: string; // #rrggbb
+  promoter_headline?: string;
+  promoter_body?: string;
+  passive_headline?: string;
+  passive_body?: string;
+  detractor_headline?: string;
+  detractor_body?: string;
+  comment_prompt?: string;
+}
+
+export type BrandingField = keyof SurveyBranding;
+
+// Text fields and their maximum lengths
+const BRANDING_TEXT_LIMITS: Record<
+  Exclude<BrandingField, "logo_url" | "brand_color">,
+  number
+> = {
+  promoter_headline: 120,
+  promoter_body: 500,
+  passive_headline: 120,
+  passive_body: 500,
+  detractor_headline: 120,
+  detractor_body: 500,
+  comment_prompt: 200,
+};
+
+export const BRANDING_FIELDS: BrandingField[] = [
+  "logo_url",
+  "brand_color",
+  "promoter_headline",
+  "promoter_body",
+  "passive_headline",
+  "passive_body",
+  "detractor_headline",
+  "detractor_body",
+  "comment_prompt",
+];
+
+export const BRAND_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Validate branding from a form or JSON body
+ * Blank fields are dropped; a branding with no fields left is null.
+ */
+export const parseSurveyBranding = (
+  input: unknown,
+): { error: string } | { branding: SurveyBranding | null } => {
+  if (input === null || input === undefined) {
+    return { branding: null };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "branding must be an object" };
+  }
+
+  const values = input as Record<string, unknown>;
+  const unknownField = Object.keys(values).find(
+    (key) => !BRANDING_FIELDS.includes(key as BrandingField),
+  );
+  if (unknownField) {
+    return { error: `Unknown branding field: ${unknownField}` };
+  }
+
+  const branding: SurveyBranding = {};
+  for (const field of BRANDING_FIELDS) {
+    const value = values[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "string") {
+      return { error: `${field} must be a string` };
+    }
+
+    const text = value.trim();
+    if (!text) continue;
+
+    if (field === "logo_url") {
+      let url: URL;
+      try {
+        url = new URL(text);
+      } catch {
+        return { error: "logo_url must be a valid URL" };
+      }
+      if (url.protocol !== "https:") {
+        return { error: "logo_url must use https" };
+      }
+      if (text.length > 2048) {
+        return { error: "logo_url must be at most 2048 characters" };
+      }
+    } else if (field === "brand_color") {
+      if (!BRAND_COLOR_PATTERN.test(text)) {
+        return { error: "brand_color must be a hex color such as #4f46e5" };
+      }
+    } else if (text.length > BRANDING_TEXT_LIMITS[field]) {
+      return {
+        error: `${field} must be at most ${BRANDING_TEXT_LIMITS[field]} characters`,
+      };
+    }
+
+    branding[field] = field === "brand_color" ? text.toLowerCase() : text;
+  }
+
+  return { branding: Object.keys(branding).length > 0 ? branding : null };
+};
+
+/**
+ * Black or white, whichever reads better on the brand color
+ */
+export const getContrastTextColor = (hex: string): string => {
+  const [r, g, b] = [1, 3, 5].map((i) =>
+    Number.parseInt(hex.slice(i, i + 2), 16),
+  );
+  // Perceived brightness (ITU-R BT.601)
+  return (r * 299 + g * 587 + b * 114) / 1000 >= 150 ? "#000000" : "#ffffff";
+};
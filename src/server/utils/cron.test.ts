@@ -0,0 +1,82 @@
+import { describe, expect, it } from "bun:test";
+import { getNextRunTime, parseSchedule } from "./cron";
+
+const at = (iso: string) => new Date(iso);
+
+describe("cron utils", () => {
+  describe("parseSchedule", () => {
+    it("should parse @every intervals", () => {
+      expect(parseSchedule("@every 10s")).toEqual({
+        type: "every",
+        seconds: 10,
+      });
+      expect(parseSchedule("@every 2h")).toEqual({
+        type: "every",
+        seconds: 7200,
+      });
+    });
+
+    it("should expand ranges, steps and lists", () => {
+      const parsed = parseSchedule("*/15 9-17 * * 1,3,5");
+      if (parsed.type !== "cron") throw new Error("Expected cron schedule");
+
+      expect([...parsed.fields.minutes]).toEqual([0, 15, 30, 45]);
+      expect(parsed.fields.hours.size).toBe(9);
+      expect([...parsed.fields.daysOfWeek]).toEqual([1, 3, 5]);
+    });
+
+    it("should reject invalid schedules", () => {
+      for (const schedule of [
+        "* * * *",
+        "60 * * * *",
+        "*/0 * * * *",
+        "5-1 * * * *",
+        "a * * * *",
+        ", * * * *",
+        "@every 0s",
+        "@every 10d",
+      ]) {
+        expect(() => parseSchedule(schedule)).toThrow();
+      }
+    });
+  });
+
+  describe("getNextRunTime", () => {
+    it("should add the interval for @every schedules", () => {
+      expect(getNextRunTime("@every 10s", at("2025-01-01T00:00:05Z"))).toEqual(
+        at("2025-01-01T00:00:15Z"),
+      );
+    });
+
+    it("should find the next matching minute", () => {
+      expect(getNextRunTime("* * * * *", at("2025-01-01T10:15:30Z"))).toEqual(
+        at("2025-01-01T10:16:00Z"),
+      );
+      expect(getNextRunTime("0 * * * *", at("2025-01-01T10:00:00Z"))).toEqual(
+        at("2025-01-01T11:00:00Z"),
+      );
+    });
+
+    it("should roll over days, months and years", () => {
+      expect(getNextRunTime("30 3 * * *", at("2025-01-01T04:00:00Z"))).toEqual(
+        at("2025-01-02T03:30:00Z"),
+      );
+      expect(getNextRunTime("0 0 1 * *", at("2025-12-15T00:00:00Z"))).toEqual(
+        at("2026-01-01T00:00:00Z"),
+      );
+      expect(getNextRunTime("0 0 29 2 *", at("2025-03-01T00:00:00Z"))).toEqual(
+        at("2028-02-29T00:00:00Z"),
+      );
+    });
+
+    it("should match either restricted day field", () => {
+      // 2025-01-06 is a Monday
+      expect(getNextRunTime("0 12 15 * 1", at("2025-01-02T00:00:00Z"))).toEqual(
+        at("2025-01-06T12:00:00Z"),
+      );
+      expect(getNextRunTime("0 12 * * 7", at("2025-01-06T00:00:00Z"))).toEqual(
+        at("2025-01-12T12:00:00Z"),
+      );
+    });
+  });
+});
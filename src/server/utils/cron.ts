@@ -0,0 +1,159 @@
+/**
+ * Parse and evaluate job schedules
+ * A schedule is either a five-field cron expression (minute hour
+ * day-of-month month day-of-week, evaluated in UTC) or `@every <n>s|m|h`
+ * for jobs that run more often than once a minute.
+ */
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+export type ParsedSchedule =
+  | { type: "cron"; fields: CronFields }
+  | { type: "every"; seconds: number };
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week, 0 and 7 are both Sunday
+];
+
+const EVERY_PATTERN = /^@every (\d+)(s|m|h)$/;
+const UNIT_SECONDS = { s: 1, m: 60, h: 3600 } as const;
+
+const parseField = (field: string, [min, max]: [number, number]) => {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!range || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step: ${part}`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [startText, endText] = range.split("-");
+      start = Number(startText);
+      end = endText === undefined ? (stepText ? max : start) : Number(endText);
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron value: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parse a schedule, throwing on anything invalid
+ */
+export const parseSchedule = (schedule: string): ParsedSchedule => {
+  const every = EVERY_PATTERN.exec(schedule.trim());
+  if (every) {
+    const seconds =
+      Number(every[1]) * UNIT_SECONDS[every[2] as keyof typeof UNIT_SECONDS];
+    if (seconds < 1) {
+      throw new Error(`Invalid schedule: ${schedule}`);
+    }
+    return { type: "every", seconds };
+  }
+
+  const parts = schedule.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Invalid schedule: ${schedule}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+    (part, index) => parseField(part, FIELD_RANGES[index]),
+  );
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    type: "cron",
+    fields: {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      anyDayOfMonth: parts[2] === "*",
+      anyDayOfWeek: parts[4] === "*",
+    },
+  };
+};
+
+// Like cron, a restricted day of month and day of week match either one
+const matchesDay = (fields: CronFields, date: Date): boolean => {
+  const dayOfMonth = fields.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = fields.daysOfWeek.has(date.getUTCDay());
+  if (fields.anyDayOfMonth) return dayOfWeek;
+  if (fields.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+};
+
+/**
+ * Get the first time after `from` that a schedule is due
+ */
+export const getNextRunTime = (schedule: string, from = new Date()): Date => {
+  const parsed = parseSchedule(schedule);
+
+  if (parsed.type === "every") {
+    return new Date(from.getTime() + parsed.seconds * 1000);
+  }
+
+  const { fields } = parsed;
+  const next = new Date(from);
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  // Skip whole months, days and hours that cannot match; five years covers
+  // every valid expression, including 29 February
+  const limit = from.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (next.getTime() <= limit) {
+    if (!fields.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(fields, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!fields.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!fields.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+      continue;
+    }
+    return next;
+  }
+
+  throw new Error(`Schedule never runs: ${schedule}`);
+};
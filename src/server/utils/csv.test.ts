@@ -0,0 +1,71 @@
+import { describe, expect, it } from "bun:test";
+import {
+  escapeCsvValue,
+  neutralizeCsvFormula,
+  parseCsv,
+  toCsvRow,
+} from "./csv";
+
+describe("csv utils", () => {
+  describe("escapeCsvValue", () => {
+    it("should leave plain values unquoted", () => {
+      expect(escapeCsvValue("hello")).toBe("hello");
+      expect(escapeCsvValue(9)).toBe("9");
+      expect(escapeCsvValue(null)).toBe("");
+    });
+
+    it("should quote separators, quotes and line breaks", () => {
+      expect(escapeCsvValue("a,b")).toBe('"a,b"');
+      expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvValue("line\nbreak")).toBe('"line\nbreak"');
+    });
+  });
+
+  describe("neutralizeCsvFormula", () => {
+    it("should prefix text that starts with a formula character", () => {
+      expect(neutralizeCsvFormula("=SUM(A1)")).toBe("'=SUM(A1)");
+      expect(neutralizeCsvFormula("-1+2")).toBe("'-1+2");
+      expect(neutralizeCsvFormula("@cmd")).toBe("'@cmd");
+    });
+
+    it("should leave other text alone", () => {
+      expect(neutralizeCsvFormula("Great = good")).toBe("Great = good");
+      expect(neutralizeCsvFormula(null)).toBeNull();
+    });
+  });
+
+  describe("toCsvRow", () => {
+    it("should join escaped values and end with CRLF", () => {
+      expect(toCsvRow(["a", 1, null, "b,c"])).toBe('a,1,,"b,c"\r\n');
+    });
+  });
+
+  describe("parseCsv", () => {
+    it("should split rows and fields", () => {
+      expect(parseCsv("a,b\r\n1,2\n3,\n")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+        ["3", ""],
+      ]);
+    });
+
+    it("should unquote fields with separators, quotes and line breaks", () => {
+      expect(parseCsv('"a,b","say ""hi""","two\nlines"')).toEqual([
+        ["a,b", 'say "hi"', "two\nlines"],
+      ]);
+    });
+
+    it("should skip blank lines and a byte order mark", () => {
+      expect(parseCsv("\uFEFFa\n\n\nb")).toEqual([["a"], ["b"]]);
+    });
+
+    it("should round-trip rows built with toCsvRow", () => {
+      const values = ["x", 'a "b", c', "line\nbreak"];
+      expect(parseCsv(toCsvRow(values))).toEqual([values]);
+    });
+
+    it("should reject unterminated quotes", () => {
+      expect(() => parseCsv('a,"b')).toThrow("Unterminated quoted field");
+    });
+  });
+});
@@ -0,0 +1,81 @@
+export type CsvValue = string | number | null;
+
+/**
+ * Quote a CSV field when it holds a separator, quote or line break
+ */
+export const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null) return "";
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Stop spreadsheet apps from running untrusted text as a formula by
+ * prefixing cells that start with a formula character with a quote
+ */
+export const neutralizeCsvFormula = (value: string | null): string | null =>
+  value !== null && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+/**
+ * Build one CSV line, terminated with CRLF as RFC 4180 specifies
+ */
+export const toCsvRow = (values: CsvValue[]): string =>
+  `${values.map(escapeCsvValue).join(",")}\r\n`;
+
+/**
+ * Parse CSV text into rows of fields (RFC 4180)
+ * Handles quoted fields with commas, doubled quotes and line breaks, CRLF or
+ * LF line endings and a leading byte order mark. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("Unterminated quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
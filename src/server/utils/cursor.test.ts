@@ -0,0 +1,40 @@
+import { describe, expect, it } from "bun:test";
+import { decodeResponseCursor, encodeResponseCursor } from "./cursor";
+
+describe("cursor utils", () => {
+  const cursor = {
+    responded_at: "2025-01-15 10:30:00.123456+00",
+    id: "11111111-1111-1111-1111-111111111111",
+  };
+
+  it("should round-trip a cursor", () => {
+    const encoded = encodeResponseCursor(cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeResponseCursor(encoded)).toEqual(cursor);
+  });
+
+  it("should accept offsets with minutes and whole seconds", () => {
+    const encoded = encodeResponseCursor({
+      ...cursor,
+      responded_at: "2025-01-15 16:00:00+05:30",
+    });
+
+    expect(decodeResponseCursor(encoded)?.responded_at).toBe(
+      "2025-01-15 16:00:00+05:30",
+    );
+  });
+
+  it("should reject strings it did not issue", () => {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+
+    expect(decodeResponseCursor("not-a-cursor")).toBeNull();
+    expect(decodeResponseCursor(cursor.id)).toBeNull();
+    expect(decodeResponseCursor(encode([cursor.responded_at]))).toBeNull();
+    expect(decodeResponseCursor(encode(["yesterday", cursor.id]))).toBeNull();
+    expect(
+      decodeResponseCursor(encode([cursor.responded_at, "not-a-uuid"])),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Where a page of responses ended, newest first
+ * The timestamp stays as Postgres text because a JS Date would drop the
+ * microseconds Postgres keeps.
+ */
+export interface ResponseCursor {
+  responded_at: string;
+  id: string;
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// timestamptz as Postgres prints it, e.g. 2025-01-15 10:30:00.123456+00
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?[+-]\d{2}(:\d{2}){0,2}$/;
+
+/**
+ * Encode a cursor as an opaque, URL-safe string
+ */
+export const encodeResponseCursor = (cursor: ResponseCursor): string =>
+  Buffer.from(JSON.stringify([cursor.responded_at, cursor.id])).toString(
+    "base64url",
+  );
+
+/**
+ * Decode a cursor from a previous page
+ * Returns null when the string isn't one we issued.
+ */
+export const decodeResponseCursor = (value: string): ResponseCursor | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+  const [respondedAt, id] = parsed;
+  if (
+    typeof respondedAt !== "string" ||
+    typeof id !== "string" ||
+    !TIMESTAMP_PATTERN.test(respondedAt) ||
+    !UUID_PATTERN.test(id)
+  ) {
+    return null;
+  }
+
+  return { responded_at: respondedAt, id };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "bun:test";
+import { buildEmailSnippet, isEmailSnippetStyle } from "./email-snippet";
+import { getScaleScores, type SurveyType } from "./survey-types";
+
+const mintLinks = (type: SurveyType): Record<string, string> =>
+  Object.fromEntries(
+    getScaleScores(type).map((score) => [
+      score,
+      `https://clicknps.com/r/token-${score}`,
+    ]),
+  );
+
+describe("email snippet utils", () => {
+  describe("isEmailSnippetStyle", () => {
+    it("should accept only the known styles", () => {
+      expect(isEmailSnippetStyle("buttons")).toBe(true);
+      expect(isEmailSnippetStyle("color_scale")).toBe(true);
+      expect(isEmailSnippetStyle("compact")).toBe(true);
+      expect(isEmailSnippetStyle("stars")).toBe(false);
+      expect(isEmailSnippetStyle(undefined)).toBe(false);
+    });
+  });
+
+  describe("buildEmailSnippet", () => {
+    it("should lay the links out in a table, lowest score first", () => {
+      const { html } = buildEmailSnippet("nps", mintLinks("nps"));
+
+      expect(html.startsWith('<table role="presentation"')).toBe(true);
+      expect(html).not.toContain("<style");
+      expect(html).not.toContain("class=");
+      expect(html.match(/<a href=/g)).toHaveLength(11);
+      expect(html.indexOf("token-0")).toBeLessThan(html.indexOf("token-10"));
+      expect(html).toContain("Not likely");
+      expect(html).toContain("Very likely");
+    });
+
+    it("should follow the survey type's scale", () => {
+      const { html, text } = buildEmailSnippet("csat", mintLinks("csat"));
+
+      expect(html.match(/<a href=/g)).toHaveLength(5);
+      expect(text.split("\n")).toEqual([
+        "How satisfied were you with your experience?",
+        "",
+        "1 (Very dissatisfied): https://clicknps.com/r/token-1",
+        "2: https://clicknps.com/r/token-2",
+        "3: https://clicknps.com/r/token-3",
+        "4: https://clicknps.com/r/token-4",
+        "5 (Very satisfied): https://clicknps.com/r/token-5",
+      ]);
+    });
+
+    it("should lead thumbs up/down with thumbs up", () => {
+      const { html, text } = buildEmailSnippet("binary", mintLinks("binary"));
+
+      expect(html.indexOf("👍 Yes")).toBeLessThan(html.indexOf("👎 No"));
+      expect(text).toContain("👍 Yes: https://clicknps.com/r/token-1");
+    });
+
+    it("should style the links for each choice", () => {
+      const links = mintLinks("nps");
+
+      expect(buildEmailSnippet("nps", links, "buttons").html).toContain(
+        "border:1px solid #d1d5db",
+      );
+      const colorScale = buildEmailSnippet("nps", links, "color_scale").html;
+      expect(colorScale).toContain("background-color:#dc2626");
+      expect(colorScale).toContain("background-color:#f59e0b");
+      expect(colorScale).toContain("background-color:#16a34a");
+      const compact = buildEmailSnippet("nps", links, "compact").html;
+      expect(compact).toContain("text-decoration:underline");
+      expect(compact).not.toContain("Not likely");
+    });
+
+    it("should write the copy in the given locale", () => {
+      const { html, text } = buildEmailSnippet(
+        "binary",
+        mintLinks("binary"),
+        "buttons",
+        "pt-BR",
+      );
+
+      expect(text.split("\n")[0]).toBe("Isso foi útil?");
+      expect(html).toContain("👍 Sim");
+      expect(
+        buildEmailSnippet("csat", mintLinks("csat"), "buttons", "de").html,
+      ).toContain("Sehr zufrieden");
+    });
+
+    it("should escape links and drop any that are not web links", () => {
+      const { html, text } = buildEmailSnippet("binary", {
+        "0": "javascript:alert(1)",
+        "1": 'https://clicknps.com/r/a"b',
+      });
+
+      expect(html).toContain('href="https://clicknps.com/r/a&quot;b"');
+      expect(html).not.toContain("javascript:");
+      expect(text).not.toContain("javascript:");
+    });
+  });
+});
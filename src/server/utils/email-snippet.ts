@@ -0,0 +1,157 @@
+import { DEFAULT_LOCALE, getMessages, type Locale } from "./i18n";
+import { getScaleScores, SURVEY_SCALES, type SurveyType } from "./survey-types";
+
+export const EMAIL_SNIPPET_STYLES = [
+  "buttons",
+  "color_scale",
+  "compact",
+] as const;
+
+export type EmailSnippetStyle = (typeof EMAIL_SNIPPET_STYLES)[number];
+
+export const DEFAULT_EMAIL_SNIPPET_STYLE: EmailSnippetStyle = "buttons";
+
+export const EMAIL_SNIPPET_STYLE_NAMES: Record<EmailSnippetStyle, string> = {
+  buttons: "Buttons",
+  color_scale: "Color scale",
+  compact: "Compact numbers",
+};
+
+export interface EmailSnippet {
+  html: string;
+  text: string; // Plain-text fallback for the text/plain part
+}
+
+interface SnippetCopy {
+  question: string;
+  low: string;
+  high: string;
+}
+
+/**
+ * The question and scale end labels shown around the links, in the locale
+ */
+const getSnippetCopy = (type: SurveyType, locale: Locale): SnippetCopy => {
+  const messages = getMessages(locale);
+  return {
+    question: messages[`snippet_${type}_question`],
+    low: messages[`snippet_${type}_low`],
+    high: messages[`snippet_${type}_high`],
+  };
+};
+
+// Red to amber to green, as RGB
+const SCALE_STOPS = [
+  [220, 38, 38],
+  [245, 158, 11],
+  [22, 163, 74],
+];
+
+export const isEmailSnippetStyle = (
+  value: unknown,
+): value is EmailSnippetStyle =>
+  EMAIL_SNIPPET_STYLES.includes(value as EmailSnippetStyle);
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Hex color for a score's position on the scale, red at the bottom to green
+ */
+const getScaleColor = (type: SurveyType, score: number): string => {
+  const { min, max } = SURVEY_SCALES[type];
+  const position = ((score - min) / (max - min)) * (SCALE_STOPS.length - 1);
+  const index = Math.min(Math.floor(position), SCALE_STOPS.length - 2);
+  const mix = position - index;
+
+  return `#${SCALE_STOPS[index]
+    .map((channel, i) =>
+      Math.round(channel + (SCALE_STOPS[index + 1][i] - channel) * mix)
+        .toString(16)
+        .padStart(2, "0"),
+    )
+    .join("")}`;
+};
+
+/**
+ * The label on a score's link: the number, or a thumb and word for binary
+ */
+const getLinkLabel = (
+  type: SurveyType,
+  copy: SnippetCopy,
+  score: number,
+): string => {
+  if (type !== "binary") return String(score);
+  return score >= 1 ? `👍 ${copy.high}` : `👎 ${copy.low}`;
+};
+
+const renderCell = (
+  type: SurveyType,
+  copy: SnippetCopy,
+  style: EmailSnippetStyle,
+  score: number,
+  url: string,
+): string => {
+  const label = escapeHtml(getLinkLabel(type, copy, score));
+  const href = escapeHtml(url);
+  const width = type === "binary" ? 96 : 36;
+
+  if (style === "compact") {
+    return `<td align="center" style="padding:0 6px;font-family:Arial,sans-serif;font-size:14px;"><a href="${href}" style="color:#2563eb;text-decoration:underline;">${label}</a></td>`;
+  }
+
+  const color = getScaleColor(type, score);
+  const colors =
+    style === "color_scale"
+      ? `background-color:${color};border:1px solid ${color};color:#ffffff;`
+      : "background-color:#ffffff;border:1px solid #d1d5db;color:#111827;";
+
+  return `<td align="center" style="padding:0 2px;"><a href="${href}" style="display:block;width:${width}px;padding:10px 0;${colors}border-radius:4px;font-family:Arial,sans-serif;font-size:15px;font-weight:bold;line-height:20px;text-align:center;text-decoration:none;">${label}</a></td>`;
+};
+
+/**
+ * Email-safe HTML and plain text for a set of minted links
+ * The HTML uses nested tables and inline styles only, so it renders in
+ * clients that ignore stylesheets. Links run from the lowest score up,
+ * except thumbs up/down, which leads with thumbs up. The copy follows the
+ * links' mint-time locale.
+ */
+export const buildEmailSnippet = (
+  type: SurveyType,
+  links: Record<string, string>,
+  style: EmailSnippetStyle = DEFAULT_EMAIL_SNIPPET_STYLE,
+  locale: Locale = DEFAULT_LOCALE,
+): EmailSnippet => {
+  const copy = getSnippetCopy(type, locale);
+  // Only web links, so a tampered link can never run script in a preview
+  const scores = getScaleScores(type).filter((score) =>
+    /^https?:\/\//.test(links[score] ?? ""),
+  );
+  if (type === "binary") scores.reverse();
+
+  const cells = scores
+    .map((score) => renderCell(type, copy, style, score, links[score]))
+    .join("");
+  // Binary links carry their own labels; the compact row stays one line
+  const endLabels =
+    type === "binary" || style === "compact"
+      ? ""
+      : `<tr><td style="padding-top:6px;"><table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"><tr><td align="left" style="font-family:Arial,sans-serif;font-size:12px;color:#6b7280;">${escapeHtml(copy.low)}</td><td align="right" style="font-family:Arial,sans-serif;font-size:12px;color:#6b7280;">${escapeHtml(copy.high)}</td></tr></table></td></tr>`;
+
+  const html = `<table role="presentation" cellpadding="0" cellspacing="0" border="0"><tr><td style="padding-bottom:12px;font-family:Arial,sans-serif;font-size:16px;color:#111827;">${escapeHtml(copy.question)}</td></tr><tr><td><table role="presentation" cellpadding="0" cellspacing="0" border="0"><tr>${cells}</tr></table></td></tr>${endLabels}</table>`;
+
+  const { min, max } = SURVEY_SCALES[type];
+  const lines = scores.map((score) => {
+    let label = getLinkLabel(type, copy, score);
+    if (type !== "binary" && score === min) label += ` (${copy.low})`;
+    if (type !== "binary" && score === max) label += ` (${copy.high})`;
+    return `${label}: ${links[score]}`;
+  });
+
+  return { html, text: [copy.question, "", ...lines].join("\n") };
+};
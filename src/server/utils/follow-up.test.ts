@@ -0,0 +1,117 @@
+import { describe, expect, it } from "bun:test";
+import {
+  getFollowUpOptions,
+  parseFollowUpConfig,
+  resolveFollowUpAnswer,
+} from "./follow-up";
+
+const followUp = {
+  question: "What mattered most?",
+  options: {
+    promoter: ["Speed", "Support"],
+    passive: [],
+    detractor: ["Price"],
+  },
+};
+
+describe("follow-up utils", () => {
+  describe("parseFollowUpConfig", () => {
+    it("should treat a missing question as none", () => {
+      expect(parseFollowUpConfig(undefined)).toEqual({ followUp: null });
+      expect(parseFollowUpConfig(null)).toEqual({ followUp: null });
+    });
+
+    it("should trim, drop blanks and dedupe options", () => {
+      expect(
+        parseFollowUpConfig({
+          question: " What mattered most? ",
+          options: { promoter: [" Speed", "", "Speed", "Support "] },
+        }),
+      ).toEqual({
+        followUp: {
+          question: "What mattered most?",
+          options: {
+            promoter: ["Speed", "Support"],
+            passive: [],
+            detractor: [],
+          },
+        },
+      });
+    });
+
+    it("should reject malformed config", () => {
+      expect(parseFollowUpConfig("Why?")).toEqual({
+        error: "follow_up must be an object",
+      });
+      expect(
+        parseFollowUpConfig({ question: "", options: { promoter: ["A"] } }),
+      ).toEqual({ error: "follow_up.question is required" });
+      expect(
+        parseFollowUpConfig({ question: "Why?", options: { fans: ["A"] } }),
+      ).toEqual({ error: "Unknown follow_up category: fans" });
+      expect(
+        parseFollowUpConfig({ question: "Why?", options: { passive: "A" } }),
+      ).toEqual({
+        error: "follow_up.options.passive must be a list of strings",
+      });
+    });
+
+    it("should require options for at least one category", () => {
+      expect(
+        parseFollowUpConfig({ question: "Why?", options: { promoter: [" "] } }),
+      ).toEqual({ error: "follow_up needs options for at least one category" });
+    });
+
+    it("should enforce length limits", () => {
+      expect(
+        parseFollowUpConfig({
+          question: "Why?",
+          options: { detractor: Array.from({ length: 11 }, (_, i) => `${i}`) },
+        }),
+      ).toEqual({
+        error: "follow_up.options.detractor can have at most 10 options",
+      });
+      expect(
+        parseFollowUpConfig({
+          question: "Why?",
+          options: { detractor: ["a".repeat(101)] },
+        }),
+      ).toEqual({ error: "follow_up options must be at most 100 characters" });
+    });
+  });
+
+  describe("getFollowUpOptions", () => {
+    it("should return the options for the score's category", () => {
+      expect(getFollowUpOptions(followUp, "nps", 10)).toEqual([
+        "Speed",
+        "Support",
+      ]);
+      expect(getFollowUpOptions(followUp, "nps", 7)).toEqual([]);
+      expect(getFollowUpOptions(followUp, "nps", 0)).toEqual(["Price"]);
+      expect(getFollowUpOptions(null, "nps", 10)).toEqual([]);
+    });
+
+    it("should follow the survey type's categories", () => {
+      expect(getFollowUpOptions(followUp, "csat", 4)).toEqual([
+        "Speed",
+        "Support",
+      ]);
+      expect(getFollowUpOptions(followUp, "binary", 0)).toEqual(["Price"]);
+    });
+  });
+
+  describe("resolveFollowUpAnswer", () => {
+    it("should snapshot the question with an offered answer", () => {
+      expect(resolveFollowUpAnswer(followUp, "nps", 9, "Support")).toEqual({
+        question: "What mattered most?",
+        answer: "Support",
+      });
+    });
+
+    it("should ignore answers that were not offered for the score", () => {
+      expect(resolveFollowUpAnswer(followUp, "nps", 3, "Support")).toBeNull();
+      expect(resolveFollowUpAnswer(followUp, "nps", 9, "")).toBeNull();
+      expect(resolveFollowUpAnswer(null, "nps", 9, "Support")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { NPS_CATEGORIES, type NpsCategory } from "./nps";
+import { getScoreCategory, type SurveyType } from "./survey-types";
+
+/**
+ * A survey's follow-up question, asked on the thank-you page
+ * Each category gets its own options; a category without options is not asked.
+ */
+export interface FollowUpConfig {
+  question: string;
+  options: Record<NpsCategory, string[]>;
+}
+
+/**
+ * A respondent's answer, with the question as it was asked
+ */
+export interface FollowUpAnswer {
+  question: string;
+  answer: string;
+}
+
+export const FOLLOW_UP_LIMITS = {
+  question: 200,
+  option: 100,
+  options: 10, // Per category
+};
+
+/**
+ * Validate a follow-up question from a form or JSON body
+ * Blank options are dropped; a question with no options left is an error.
+ */
+export const parseFollowUpConfig = (
+  input: unknown,
+): { error: string } | { followUp: FollowUpConfig | null } => {
+  if (input === null || input === undefined) {
+    return { followUp: null };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "follow_up must be an object" };
+  }
+
+  const { question, options } = input as Record<string, unknown>;
+  if (typeof question !== "string" || !question.trim()) {
+    return { error: "follow_up.question is required" };
+  }
+  if (question.trim().length > FOLLOW_UP_LIMITS.question) {
+    return {
+      error: `follow_up.question must be at most ${FOLLOW_UP_LIMITS.question} characters`,
+    };
+  }
+  if (
+    typeof options !== "object" ||
+    options === null ||
+    Array.isArray(options)
+  ) {
+    return {
+      error:
+        "follow_up.options must be an object keyed by promoter, passive and detractor",
+    };
+  }
+
+  const unknownKey = Object.keys(options).find(
+    (key) => !NPS_CATEGORIES.includes(key as NpsCategory),
+  );
+  if (unknownKey) {
+    return { error: `Unknown follow_up category: ${unknownKey}` };
+  }
+
+  const parsed: Record<NpsCategory, string[]> = {
+    promoter: [],
+    passive: [],
+    detractor: [],
+  };
+  for (const category of NPS_CATEGORIES) {
+    const values = (options as Record<string, unknown>)[category];
+    if (values === undefined || values === null) continue;
+    if (
+      !Array.isArray(values) ||
+      values.some((value) => typeof value !== "string")
+    ) {
+      return {
+        error: `follow_up.options.${category} must be a list of strings`,
+      };
+    }
+
+    const cleaned = [
+      ...new Set(values.map((value: string) => value.trim()).filter(Boolean)),
+    ];
+    if (cleaned.length > FOLLOW_UP_LIMITS.options) {
+      return {
+        error: `follow_up.options.${category} can have at most ${FOLLOW_UP_LIMITS.options} options`,
+      };
+    }
+    if (cleaned.some((value) => value.length > FOLLOW_UP_LIMITS.option)) {
+      return {
+        error: `follow_up options must be at most ${FOLLOW_UP_LIMITS.option} characters`,
+      };
+    }
+    parsed[category] = cleaned;
+  }
+
+  if (NPS_CATEGORIES.every((category) => parsed[category].length === 0)) {
+    return { error: "follow_up needs options for at least one category" };
+  }
+
+  return { followUp: { question: question.trim(), options: parsed } };
+};
+
+/**
+ * The options shown for a score; empty when the question is not asked
+ */
+export const getFollowUpOptions = (
+  followUp: FollowUpConfig | null | undefined,
+  type: SurveyType,
+  score: number,
+): string[] => followUp?.options[getScoreCategory(type, score)] ?? [];
+
+/**
+ * Match a submitted answer to the options offered for the score
+ * Returns null for anything that was not on offer.
+ */
+export const resolveFollowUpAnswer = (
+  followUp: FollowUpConfig | null | undefined,
+  type: SurveyType,
+  score: number,
+  answer: string,
+): FollowUpAnswer | null => {
+  if (
+    !followUp ||
+    !getFollowUpOptions(followUp, type, score).includes(answer)
+  ) {
+    return null;
+  }
+  return { question: followUp.question, answer };
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "bun:test";
+import { de } from "../locales/de";
+import { en } from "../locales/en";
+import { ptBR } from "../locales/pt-br";
+import {
+  getMessages,
+  matchLocale,
+  negotiateLocale,
+  parseSurveyTranslations,
+  resolveLocale,
+} from "./i18n";
+
+describe("i18n utils", () => {
+  it("should give every catalog the same keys", () => {
+    const keys = Object.keys(en).sort();
+    expect(Object.keys(de).sort()).toEqual(keys);
+    expect(Object.keys(ptBR).sort()).toEqual(keys);
+  });
+
+  describe("matchLocale", () => {
+    it("should match exact tags regardless of case", () => {
+      expect(matchLocale("de")).toBe("de");
+      expect(matchLocale("PT-br")).toBe("pt-BR");
+    });
+
+    it("should fall back to the primary language", () => {
+      expect(matchLocale("de-AT")).toBe("de");
+      expect(matchLocale("pt")).toBe("pt-BR");
+      expect(matchLocale("en-GB")).toBe("en");
+    });
+
+    it("should return null for unsupported languages", () => {
+      expect(matchLocale("fr")).toBeNull();
+      expect(matchLocale("")).toBeNull();
+    });
+  });
+
+  describe("negotiateLocale", () => {
+    it("should pick the highest quality supported language", () => {
+      expect(negotiateLocale("fr-FR,fr;q=0.9,de;q=0.8,en;q=0.7")).toBe("de");
+      expect(negotiateLocale("en;q=0.5, pt-BR")).toBe("pt-BR");
+    });
+
+    it("should skip refused languages and wildcards", () => {
+      expect(negotiateLocale("de;q=0, *")).toBe("en");
+    });
+
+    it("should default to English", () => {
+      expect(negotiateLocale(null)).toBe("en");
+      expect(negotiateLocale("ja")).toBe("en");
+    });
+  });
+
+  describe("resolveLocale", () => {
+    it("should prefer the link's lang over the browser", () => {
+      expect(resolveLocale("pt-BR", "de")).toBe("pt-BR");
+      expect(resolveLocale(null, "de")).toBe("de");
+    });
+  });
+
+  describe("getMessages", () => {
+    it("should return the catalog for the locale", () => {
+      expect(getMessages("de").submit_comment).toBe("Kommentar senden");
+    });
+
+    it("should layer branding copy and then the survey's translations", () => {
+      const messages = getMessages("de", {
+        branding: {
+          brand_color: "#1e40af",
+          promoter_headline: "You made our day!",
+          comment_prompt: "Anything else?",
+        },
+        translations: {
+          de: { promoter_headline: "Sie haben uns den Tag versüßt!" },
+          "pt-BR": { passive_headline: "Quase lá" },
+        },
+      });
+
+      expect(messages.promoter_headline).toBe("Sie haben uns den Tag versüßt!");
+      expect(messages.passive_headline).toBe(de.passive_headline);
+      expect(messages.comment_prompt).toBe("Anything else?");
+      expect(messages.comment_prompt_followup).toBe("Anything else?");
+      expect("brand_color" in messages).toBe(false);
+    });
+
+    it("should use the positive headline on scales other than NPS", () => {
+      expect(getMessages("en", { type: "csat" }).promoter_headline).toBe(
+        en.positive_headline,
+      );
+      expect(getMessages("en", { type: "nps" }).promoter_headline).toBe(
+        en.promoter_headline,
+      );
+      expect(
+        getMessages("en", {
+          type: "binary",
+          branding: { promoter_headline: "Glad it helped!" },
+        }).promoter_headline,
+      ).toBe("Glad it helped!");
+    });
+  });
+
+  describe("parseSurveyTranslations", () => {
+    it("should treat missing translations as none", () => {
+      expect(parseSurveyTranslations(null)).toEqual({ translations: null });
+      expect(parseSurveyTranslations({ de: { powered_by: " " } })).toEqual({
+        translations: null,
+      });
+    });
+
+    it("should trim the overrides", () => {
+      expect(
+        parseSurveyTranslations({ "pt-BR": { submit_comment: " Enviar " } }),
+      ).toEqual({ translations: { "pt-BR": { submit_comment: "Enviar" } } });
+    });
+
+    it("should reject values it cannot use", () => {
+      expect(parseSurveyTranslations(["de"])).toEqual({
+        error: "translations must be an object keyed by locale",
+      });
+      expect(parseSurveyTranslations({ fr: {} })).toEqual({
+        error: "Unsupported locale: fr. Use one of: en, de, pt-BR",
+      });
+      expect(parseSurveyTranslations({ de: "Hallo" })).toEqual({
+        error: "translations.de must be an object",
+      });
+      expect(parseSurveyTranslations({ de: { greeting: "Hallo" } })).toEqual({
+        error: "Unknown message key: greeting",
+      });
+      expect(parseSurveyTranslations({ de: { powered_by: 1 } })).toEqual({
+        error: "translations.de.powered_by must be a string",
+      });
+      expect(
+        parseSurveyTranslations({ de: { powered_by: "x".repeat(501) } }),
+      ).toEqual({
+        error: "translations.de.powered_by must be at most 500 characters",
+      });
+    });
+  });
+});
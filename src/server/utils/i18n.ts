@@ -0,0 +1,195 @@
+import { de } from "../locales/de";
+import { en, type MessageKey, type Messages } from "../locales/en";
+import { ptBR } from "../locales/pt-br";
+import type { SurveyBranding } from "./branding";
+import type { SurveyType } from "./survey-types";
+
+export const SUPPORTED_LOCALES = ["en", "de", "pt-BR"] as const;
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Each locale's name in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  de: "Deutsch",
+  "pt-BR": "Português (Brasil)",
+};
+
+const CATALOGS: Record<Locale, Messages> = {
+  en,
+  de,
+  "pt-BR": ptBR,
+};
+
+const MESSAGE_KEYS = Object.keys(en) as MessageKey[];
+const MAX_OVERRIDE_LENGTH = 500;
+
+/**
+ * Per-survey string overrides, keyed by locale then message key
+ */
+export type SurveyTranslations = Partial<Record<Locale, Partial<Messages>>>;
+
+/**
+ * Match a language tag such as "de-AT" or "pt" to a supported locale
+ * An exact match wins, then the first locale with the same primary language.
+ */
+export const matchLocale = (tag: string): Locale | null => {
+  const normalized = tag.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+
+  const exact = SUPPORTED_LOCALES.find(
+    (locale) => locale.toLowerCase() === normalized,
+  );
+  if (exact) {
+    return exact;
+  }
+
+  const language = normalized.split("-")[0];
+  return (
+    SUPPORTED_LOCALES.find(
+      (locale) => locale.toLowerCase().split("-")[0] === language,
+    ) ?? null
+  );
+};
+
+/**
+ * Pick the best supported locale from an Accept-Language header
+ */
+export const negotiateLocale = (acceptLanguage: string | null): Locale => {
+  if (!acceptLanguage) {
+    return DEFAULT_LOCALE;
+  }
+
+  const ranked = acceptLanguage
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith("q="));
+      const quality = q ? Number.parseFloat(q.slice(2)) : 1;
+      return { tag, quality: Number.isNaN(quality) ? 0 : quality, index };
+    })
+    .filter((entry) => entry.quality > 0 && entry.tag !== "*")
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { tag } of ranked) {
+    const locale = matchLocale(tag);
+    if (locale) {
+      return locale;
+    }
+  }
+
+  return DEFAULT_LOCALE;
+};
+
+/**
+ * The locale for a respondent: the link's lang from mint time, else their browser's
+ */
+export const resolveLocale = (
+  lang: string | null | undefined,
+  acceptLanguage: string | null,
+): Locale =>
+  (lang ? matchLocale(lang) : null) ?? negotiateLocale(acceptLanguage);
+
+/**
+ * Strings for a locale with the survey's own copy layered on top
+ * Branding applies in every locale; translations override it per locale.
+ */
+export const getMessages = (
+  locale: Locale,
+  survey?: {
+    type?: SurveyType;
+    branding?: SurveyBranding | null;
+    translations?: SurveyTranslations | null;
+  },
+): Messages => {
+  const brandingCopy: Partial<Messages> = Object.fromEntries(
+    Object.entries(survey?.branding ?? {}).filter(([key]) =>
+      MESSAGE_KEYS.includes(key as MessageKey),
+    ),
+  );
+  if (brandingCopy.comment_prompt) {
+    brandingCopy.comment_prompt_followup = brandingCopy.comment_prompt;
+  }
+
+  const translated = survey?.translations?.[locale];
+  const messages = {
+    ...CATALOGS[locale],
+    ...brandingCopy,
+    ...translated,
+  };
+
+  // "Promoter" only means something on the NPS scale
+  if (
+    survey?.type &&
+    survey.type !== "nps" &&
+    !brandingCopy.promoter_headline &&
+    !translated?.promoter_headline
+  ) {
+    messages.promoter_headline = messages.positive_headline;
+  }
+
+  return messages;
+};
+
+/**
+ * Validate per-survey translation overrides from a JSON body
+ * Blank strings are dropped; overrides with nothing left are null.
+ */
+export const parseSurveyTranslations = (
+  input: unknown,
+): { error: string } | { translations: SurveyTranslations | null } => {
+  if (input === null || input === undefined) {
+    return { translations: null };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "translations must be an object keyed by locale" };
+  }
+
+  const translations: SurveyTranslations = {};
+  for (const [tag, strings] of Object.entries(input)) {
+    const locale = SUPPORTED_LOCALES.find((supported) => supported === tag);
+    if (!locale) {
+      return {
+        error: `Unsupported locale: ${tag}. Use one of: ${SUPPORTED_LOCALES.join(", ")}`,
+      };
+    }
+    if (
+      typeof strings !== "object" ||
+      strings === null ||
+      Array.isArray(strings)
+    ) {
+      return { error: `translations.${tag} must be an object` };
+    }
+
+    const overrides: Partial<Messages> = {};
+    for (const [key, value] of Object.entries(strings)) {
+      if (!MESSAGE_KEYS.includes(key as MessageKey)) {
+        return { error: `Unknown message key: ${key}` };
+      }
+      if (typeof value !== "string") {
+        return { error: `translations.${tag}.${key} must be a string` };
+      }
+
+      const text = value.trim();
+      if (!text) continue;
+      if (text.length > MAX_OVERRIDE_LENGTH) {
+        return {
+          error: `translations.${tag}.${key} must be at most ${MAX_OVERRIDE_LENGTH} characters`,
+        };
+      }
+      overrides[key as MessageKey] = text;
+    }
+
+    if (Object.keys(overrides).length > 0) {
+      translations[locale] = overrides;
+    }
+  }
+
+  return {
+    translations: Object.keys(translations).length > 0 ? translations : null,
+  };
+};
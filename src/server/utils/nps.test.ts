@@ -0,0 +1,68 @@
+import { describe, expect, it } from "bun:test";
+import { calculateNps, getNpsCategory } from "./nps";
+
+describe("nps utils", () => {
+  describe("getNpsCategory", () => {
+    it("should classify scores by the standard NPS bands", () => {
+      expect(getNpsCategory(0)).toBe("detractor");
+      expect(getNpsCategory(6)).toBe("detractor");
+      expect(getNpsCategory(7)).toBe("passive");
+      expect(getNpsCategory(8)).toBe("passive");
+      expect(getNpsCategory(9)).toBe("promoter");
+      expect(getNpsCategory(10)).toBe("promoter");
+    });
+  });
+
+  describe("calculateNps", () => {
+    it("should subtract detractor percentage from promoter percentage", () => {
+      expect(
+        calculateNps({ promoters: 6, passives: 2, detractors: 2 }),
+      ).toEqual({
+        score: 40,
+        promoters: 6,
+        passives: 2,
+        detractors: 2,
+        total: 10,
+      });
+    });
+
+    it("should span -100 to 100", () => {
+      expect(
+        calculateNps({ promoters: 5, passives: 0, detractors: 0 }).score,
+      ).toBe(100);
+      expect(
+        calculateNps({ promoters: 0, passives: 0, detractors: 3 }).score,
+      ).toBe(-100);
+      expect(
+        calculateNps({ promoters: 0, passives: 4, detractors: 0 }).score,
+      ).toBe(0);
+    });
+
+    it("should round to a whole number without returning -0", () => {
+      expect(
+        calculateNps({ promoters: 1, passives: 1, detractors: 1 }).score,
+      ).toBe(0);
+      expect(
+        calculateNps({ promoters: 1, passives: 0, detractors: 2 }).score,
+      ).toBe(-33);
+      expect(
+        Object.is(
+          calculateNps({ promoters: 0, passives: 300, detractors: 1 }).score,
+          0,
+        ),
+      ).toBe(true);
+    });
+
+    it("should return a null score when there are no responses", () => {
+      expect(
+        calculateNps({ promoters: 0, passives: 0, detractors: 0 }),
+      ).toEqual({
+        score: null,
+        promoters: 0,
+        passives: 0,
+        detractors: 0,
+        total: 0,
+      });
+    });
+  });
+});
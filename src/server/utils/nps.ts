@@ -0,0 +1,47 @@
+export type NpsCategory = "promoter" | "passive" | "detractor";
+
+export const NPS_CATEGORIES: NpsCategory[] = [
+  "promoter",
+  "passive",
+  "detractor",
+];
+
+export interface NpsCounts {
+  promoters: number;
+  passives: number;
+  detractors: number;
+}
+
+export interface NpsBreakdown extends NpsCounts {
+  score: number | null; // -100..100, null when there are no responses
+  total: number;
+}
+
+/**
+ * Classify a 0-10 score: promoters 9-10, passives 7-8, detractors 0-6
+ */
+export const getNpsCategory = (score: number): NpsCategory => {
+  if (score >= 9) return "promoter";
+  if (score >= 7) return "passive";
+  return "detractor";
+};
+
+/**
+ * Net Promoter Score: % promoters minus % detractors, rounded to a whole number
+ */
+export const calculateNps = (counts: NpsCounts): NpsBreakdown => {
+  const { promoters, passives, detractors } = counts;
+  const total = promoters + passives + detractors;
+
+  return {
+    // "+ 0" turns a rounded -0 into 0
+    score:
+      total > 0
+        ? Math.round(((promoters - detractors) / total) * 100) + 0
+        : null,
+    promoters,
+    passives,
+    detractors,
+    total,
+  };
+};
@@ -4,6 +4,7 @@ export function createRouteHandler(handlers: {
   GET?: (req: BunRequest) => Response | Promise<Response>;
   POST?: (req: BunRequest) => Response | Promise<Response>;
   PUT?: (req: BunRequest) => Response | Promise<Response>;
+  PATCH?: (req: BunRequest) => Response | Promise<Response>;
   DELETE?: (req: BunRequest) => Response | Promise<Response>;
 }) {
   return async (req: BunRequest) => {
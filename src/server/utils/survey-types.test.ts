@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test";
+import {
+  calculateSurveyScore,
+  describeCategory,
+  formatScore,
+  formatSurveyScore,
+  getCategoryScores,
+  getScaleScores,
+  getScoreCategory,
+  isScoreOnScale,
+  rateSurveyScore,
+  tallyScores,
+} from "./survey-types";
+
+describe("survey type utils", () => {
+  describe("getScaleScores", () => {
+    it("should list every score on the scale, lowest first", () => {
+      expect(getScaleScores("nps")).toHaveLength(11);
+      expect(getScaleScores("csat")).toEqual([1, 2, 3, 4, 5]);
+      expect(getScaleScores("ces")).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(getScaleScores("binary")).toEqual([0, 1]);
+    });
+  });
+
+  describe("isScoreOnScale", () => {
+    it("should only accept whole scores within the scale", () => {
+      expect(isScoreOnScale("nps", 0)).toBe(true);
+      expect(isScoreOnScale("csat", 0)).toBe(false);
+      expect(isScoreOnScale("csat", 6)).toBe(false);
+      expect(isScoreOnScale("ces", 4.5)).toBe(false);
+      expect(isScoreOnScale("binary", 1)).toBe(true);
+    });
+  });
+
+  describe("getScoreCategory", () => {
+    it("should sort scores into categories by the type's bands", () => {
+      expect(getScoreCategory("nps", 8)).toBe("passive");
+      expect(getScoreCategory("csat", 4)).toBe("promoter");
+      expect(getScoreCategory("csat", 3)).toBe("passive");
+      expect(getScoreCategory("ces", 3)).toBe("detractor");
+      expect(getScoreCategory("binary", 0)).toBe("detractor");
+      expect(getCategoryScores("binary", "passive")).toEqual([]);
+    });
+  });
+
+  describe("describeCategory", () => {
+    it("should name the category with the scores it covers", () => {
+      expect(describeCategory("nps", "detractor")).toBe("Detractors (0-6)");
+      expect(describeCategory("csat", "passive")).toBe("Neutral (3)");
+      expect(describeCategory("binary", "promoter")).toBe("Thumbs up");
+    });
+  });
+
+  describe("formatScore", () => {
+    it("should show the score the way the respondent saw it", () => {
+      expect(formatScore("nps", 7)).toBe("7/10");
+      expect(formatScore("csat", 4)).toBe("4/5");
+      expect(formatScore("binary", 1)).toBe("👍");
+      expect(formatScore("binary", 0)).toBe("👎");
+    });
+  });
+
+  describe("calculateSurveyScore", () => {
+    const rows = [
+      { score: 5, count: 3 },
+      { score: 3, count: 1 },
+      { score: 1, count: 1 },
+    ];
+
+    it("should score CSAT as the share of satisfied responses", () => {
+      expect(calculateSurveyScore("csat", tallyScores("csat", rows))).toEqual({
+        score: 60,
+        promoters: 3,
+        passives: 1,
+        detractors: 1,
+        total: 5,
+      });
+    });
+
+    it("should score CES as the average to one decimal", () => {
+      expect(calculateSurveyScore("ces", tallyScores("ces", rows)).score).toBe(
+        3.8,
+      );
+    });
+
+    it("should keep NPS as promoters minus detractors", () => {
+      expect(
+        calculateSurveyScore(
+          "nps",
+          tallyScores("nps", [
+            { score: 10, count: 2 },
+            { score: 0, count: 1 },
+          ]),
+        ).score,
+      ).toBe(33);
+    });
+
+    it("should return a null score without responses", () => {
+      expect(calculateSurveyScore("csat", tallyScores("csat", [])).score).toBe(
+        null,
+      );
+    });
+  });
+
+  describe("formatSurveyScore and rateSurveyScore", () => {
+    it("should format and rate headline scores on the type's scale", () => {
+      expect(formatSurveyScore("csat", 87)).toBe("87%");
+      expect(formatSurveyScore("ces", 5)).toBe("5.0");
+      expect(formatSurveyScore("nps", null)).toBe("—");
+      expect(rateSurveyScore("nps", 30)).toBe("good");
+      expect(rateSurveyScore("csat", 70)).toBe("fair");
+      expect(rateSurveyScore("ces", 3.9)).toBe("poor");
+      expect(rateSurveyScore("binary", null)).toBe(null);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import {
+  calculateNps,
+  getNpsCategory,
+  type NpsBreakdown,
+  type NpsCategory,
+  type NpsCounts,
+} from "./nps";
+
+export const SURVEY_TYPES = ["nps", "csat", "ces", "binary"] as const;
+
+export type SurveyType = (typeof SURVEY_TYPES)[number];
+
+export const DEFAULT_SURVEY_TYPE: SurveyType = "nps";
+
+/**
+ * How a survey type is scored
+ * Every type sorts its scores into the three NPS categories, so branding,
+ * follow-up questions and stats work the same way for all of them. A score
+ * is a promoter from promoterMin up, a passive from passiveMin up, and a
+ * detractor below that.
+ */
+export interface SurveyScale {
+  name: string;
+  min: number;
+  max: number;
+  promoterMin: number;
+  passiveMin: number;
+  scoreLabel: string; // Headline metric, e.g. "NPS"
+  goodScore: number; // Headline scores from here up are good...
+  fairScore: number; // ...from here up fair, and poor below
+  categoryLabels: Record<NpsCategory, string>;
+}
+
+export const SURVEY_SCALES: Record<SurveyType, SurveyScale> = {
+  nps: {
+    name: "NPS (0-10)",
+    min: 0,
+    max: 10,
+    promoterMin: 9,
+    passiveMin: 7,
+    scoreLabel: "NPS",
+    goodScore: 30,
+    fairScore: 0,
+    categoryLabels: {
+      promoter: "Promoters",
+      passive: "Passives",
+      detractor: "Detractors",
+    },
+  },
+  csat: {
+    name: "CSAT (1-5)",
+    min: 1,
+    max: 5,
+    promoterMin: 4,
+    passiveMin: 3,
+    scoreLabel: "CSAT",
+    goodScore: 80,
+    fairScore: 60,
+    categoryLabels: {
+      promoter: "Satisfied",
+      passive: "Neutral",
+      detractor: "Dissatisfied",
+    },
+  },
+  ces: {
+    name: "CES (1-7)",
+    min: 1,
+    max: 7,
+    promoterMin: 5,
+    passiveMin: 4,
+    scoreLabel: "CES",
+    goodScore: 5,
+    fairScore: 4,
+    categoryLabels: {
+      promoter: "Easy",
+      passive: "Neutral",
+      detractor: "Difficult",
+    },
+  },
+  binary: {
+    name: "Thumbs up/down",
+    min: 0,
+    max: 1,
+    promoterMin: 1,
+    passiveMin: 1, // No passives
+    scoreLabel: "Positive",
+    goodScore: 80,
+    fairScore: 60,
+    categoryLabels: {
+      promoter: "Thumbs up",
+      passive: "Neutral",
+      detractor: "Thumbs down",
+    },
+  },
+};
+
+export const isSurveyType = (value: unknown): value is SurveyType =>
+  SURVEY_TYPES.includes(value as SurveyType);
+
+/**
+ * Every score a respondent can pick, lowest first
+ */
+export const getScaleScores = (type: SurveyType): number[] => {
+  const { min, max } = SURVEY_SCALES[type];
+  return Array.from({ length: max - min + 1 }, (_, index) => min + index);
+};
+
+export const isScoreOnScale = (type: SurveyType, score: number): boolean => {
+  const { min, max } = SURVEY_SCALES[type];
+  return Number.isInteger(score) && score >= min && score <= max;
+};
+
+export const getScoreCategory = (
+  type: SurveyType,
+  score: number,
+): NpsCategory => {
+  if (type === "nps") return getNpsCategory(score);
+
+  const { promoterMin, passiveMin } = SURVEY_SCALES[type];
+  if (score >= promoterMin) return "promoter";
+  if (score >= passiveMin) return "passive";
+  return "detractor";
+};
+
+/**
+ * The scores in a category, e.g. [9, 10]; empty for binary passives
+ */
+export const getCategoryScores = (
+  type: SurveyType,
+  category: NpsCategory,
+): number[] =>
+  getScaleScores(type).filter(
+    (score) => getScoreCategory(type, score) === category,
+  );
+
+/**
+ * A category with the scores it covers, e.g. "Promoters (9-10)"
+ */
+export const describeCategory = (
+  type: SurveyType,
+  category: NpsCategory,
+): string => {
+  const label = SURVEY_SCALES[type].categoryLabels[category];
+  const scores = getCategoryScores(type, category);
+  if (type === "binary" || scores.length === 0) return label;
+
+  const first = scores[0];
+  const last = scores[scores.length - 1];
+  return first === last ? `${label} (${first})` : `${label} (${first}-${last})`;
+};
+
+/**
+ * A score as the respondent saw it: "7/10", or a thumb for binary surveys
+ */
+export const formatScore = (type: SurveyType, score: number): string => {
+  if (type === "binary") return score >= 1 ? "👍" : "👎";
+  return `${score}/${SURVEY_SCALES[type].max}`;
+};
+
+export interface SurveyScoreCounts extends NpsCounts {
+  scoreSum: number; // Sum of every score, for averages
+}
+
+/**
+ * Tally per-score response counts into categories
+ */
+export const tallyScores = (
+  type: SurveyType,
+  rows: { score: number; count: number }[],
+): SurveyScoreCounts => {
+  const counts: SurveyScoreCounts = {
+    promoters: 0,
+    passives: 0,
+    detractors: 0,
+    scoreSum: 0,
+  };
+  for (const { score, count } of rows) {
+    const category = getScoreCategory(type, score);
+    if (category === "promoter") counts.promoters += count;
+    else if (category === "passive") counts.passives += count;
+    else counts.detractors += count;
+    counts.scoreSum += score * count;
+  }
+  return counts;
+};
+
+/**
+ * Category split plus the type's headline score
+ * NPS is promoters minus detractors (-100..100), CSAT and binary are the
+ * share of satisfied or positive responses (0..100), and CES is the average
+ * score to one decimal. The score is null when there are no responses.
+ */
+export const calculateSurveyScore = (
+  type: SurveyType,
+  counts: SurveyScoreCounts,
+): NpsBreakdown => {
+  const breakdown = calculateNps(counts);
+  if (type === "nps" || breakdown.total === 0) return breakdown;
+
+  return {
+    ...breakdown,
+    score:
+      type === "ces"
+        ? Math.round((counts.scoreSum / breakdown.total) * 10) / 10
+        : Math.round((counts.promoters / breakdown.total) * 100),
+  };
+};
+
+/**
+ * A headline score for display: "42", "87%" or "5.3"
+ */
+export const formatSurveyScore = (
+  type: SurveyType,
+  score: number | null,
+): string => {
+  if (score === null) return "—";
+  if (type === "csat" || type === "binary") return `${score}%`;
+  if (type === "ces") return score.toFixed(1);
+  return String(score);
+};
+
+/**
+ * How a headline score rates on its type's scale, for colour coding
+ */
+export const rateSurveyScore = (
+  type: SurveyType,
+  score: number | null,
+): "good" | "fair" | "poor" | null => {
+  if (score === null) return null;
+  const { goodScore, fairScore } = SURVEY_SCALES[type];
+  if (score >= goodScore) return "good";
+  if (score >= fairScore) return "fair";
+  return "poor";
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "bun:test";
+import {
+  parseWebhookSignatureV2,
+  signWebhookV1,
+  signWebhookV2,
+  verifyWebhookSignatureV1,
+  verifyWebhookSignatureV2,
+} from "./webhook-signature";
+
+// Test vectors published in docs/webhooks.md
+const body =
+  '{"id":"evt_test","type":"response.created","version":1,"created_at":"2025-01-01T00:00:00.000Z","data":{"survey_id":"onboarding","subject_id":"user_42","score":9,"comment":null}}';
+const timestamp = 1735689600;
+const v1Header =
+  "sha256=78619828f1eff0706e1e7e77c68e910803df22163f2c5ad062881ab18eae4bd3";
+const v2Header =
+  "t=1735689600,v2=5fed07256f8ad7c460da70ac22781e8c77530629f3bd1ec423fdcdeb6fc7a65e";
+const v2RotationHeader =
+  "t=1735689600,v2=822f9fdbbbee4975ee7b2f2173228c2aa22846faf5fe63ad7cb935a4faeeb030,v2=5fed07256f8ad7c460da70ac22781e8c77530629f3bd1ec423fdcdeb6fc7a65e";
+
+describe("webhook signatures", () => {
+  describe("test vectors", () => {
+    it("should produce the documented v1 header", () => {
+      expect(signWebhookV1(body, "whk_test_secret")).toBe(v1Header);
+    });
+
+    it("should produce the documented v2 header", () => {
+      expect(signWebhookV2(body, ["whk_test_secret"], timestamp)).toBe(
+        v2Header,
+      );
+    });
+
+    it("should produce one v2 signature per active secret", () => {
+      expect(
+        signWebhookV2(body, ["whk_new_secret", "whk_test_secret"], timestamp),
+      ).toBe(v2RotationHeader);
+    });
+  });
+
+  describe("parseWebhookSignatureV2", () => {
+    it("should split timestamp and signatures", () => {
+      const parsed = parseWebhookSignatureV2(v2RotationHeader);
+
+      expect(parsed.timestamp).toBe(timestamp);
+      expect(parsed.signatures).toHaveLength(2);
+    });
+
+    it("should ignore unknown parts", () => {
+      expect(parseWebhookSignatureV2("t=abc,v1=xyz")).toEqual({
+        timestamp: null,
+        signatures: [],
+      });
+    });
+  });
+
+  describe("verifyWebhookSignatureV2", () => {
+    it("should accept the documented header within tolerance", () => {
+      expect(
+        verifyWebhookSignatureV2(body, v2Header, "whk_test_secret", {
+          now: timestamp + 60,
+        }),
+      ).toBe(true);
+    });
+
+    it("should accept either secret during rotation", () => {
+      expect(
+        verifyWebhookSignatureV2(body, v2RotationHeader, "whk_new_secret", {
+          now: timestamp,
+        }),
+      ).toBe(true);
+      expect(
+        verifyWebhookSignatureV2(body, v2RotationHeader, "whk_test_secret", {
+          now: timestamp,
+        }),
+      ).toBe(true);
+    });
+
+    it("should reject replays outside the tolerance window", () => {
+      expect(
+        verifyWebhookSignatureV2(body, v2Header, "whk_test_secret", {
+          now: timestamp + 301,
+        }),
+      ).toBe(false);
+    });
+
+    it("should reject a changed timestamp or body", () => {
+      const shifted = v2Header.replace("t=1735689600", "t=1735689601");
+
+      expect(
+        verifyWebhookSignatureV2(body, shifted, "whk_test_secret", {
+          now: timestamp,
+        }),
+      ).toBe(false);
+      expect(
+        verifyWebhookSignatureV2(
+          body.replace('"score":9', '"score":10'),
+          v2Header,
+          "whk_test_secret",
+          { now: timestamp },
+        ),
+      ).toBe(false);
+    });
+
+    it("should reject the wrong secret and missing headers", () => {
+      expect(
+        verifyWebhookSignatureV2(body, v2Header, "whk_other", {
+          now: timestamp,
+        }),
+      ).toBe(false);
+      expect(verifyWebhookSignatureV2(body, null, "whk_test_secret")).toBe(
+        false,
+      );
+      expect(
+        verifyWebhookSignatureV2(body, v1Header, "whk_test_secret", {
+          now: timestamp,
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("verifyWebhookSignatureV1", () => {
+    it("should accept the documented header", () => {
+      expect(verifyWebhookSignatureV1(body, v1Header, "whk_test_secret")).toBe(
+        true,
+      );
+    });
+
+    it("should reject the wrong secret or format", () => {
+      expect(verifyWebhookSignatureV1(body, v1Header, "whk_other")).toBe(false);
+      expect(verifyWebhookSignatureV1(body, v2Header, "whk_test_secret")).toBe(
+        false,
+      );
+    });
+  });
+});
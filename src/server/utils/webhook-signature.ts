@@ -0,0 +1,114 @@
+/**
+ * Webhook signature helpers
+ * Only depends on node:crypto so consumers can copy this file to verify
+ * deliveries. See docs/webhooks.md for the scheme and test vectors.
+ */
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export type WebhookSignatureVersion = 1 | 2;
+
+// Reject v2 deliveries whose timestamp is further than this from now
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const hmacHex = (secret: string, value: string): string => {
+  return createHmac("sha256", secret).update(value).digest("hex");
+};
+
+const safeEqualHex = (a: string, b: string): boolean => {
+  if (a.length !== b.length || !/^[a-f0-9]+$/.test(b)) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(a, "hex"), Buffer.from(b, "hex"));
+};
+
+/**
+ * v1 header value: HMAC-SHA256 of the body only
+ * Format: sha256=<hex>
+ */
+export const signWebhookV1 = (body: string, secret: string): string => {
+  return `sha256=${hmacHex(secret, body)}`;
+};
+
+/**
+ * v2 header value: HMAC-SHA256 of `<timestamp>.<body>` for every active secret
+ * Format: t=<unix seconds>,v2=<hex>[,v2=<hex>]
+ */
+export const signWebhookV2 = (
+  body: string,
+  secrets: string[],
+  timestamp: number,
+): string => {
+  const signatures = secrets.map(
+    (secret) => `v2=${hmacHex(secret, `${timestamp}.${body}`)}`,
+  );
+  return [`t=${timestamp}`, ...signatures].join(",");
+};
+
+/**
+ * Split a v2 header into its timestamp and signatures
+ */
+export const parseWebhookSignatureV2 = (
+  header: string,
+): { timestamp: number | null; signatures: string[] } => {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=", 2);
+    if (key === "t" && /^\d+$/.test(value ?? "")) {
+      timestamp = Number.parseInt(value, 10);
+    } else if (key === "v2" && value) {
+      signatures.push(value);
+    }
+  }
+
+  return { timestamp, signatures };
+};
+
+/**
+ * Verify a v2 X-ClickNPS-Signature header against the raw request body
+ * Accepts any of the given secrets so receivers can rotate too
+ */
+export const verifyWebhookSignatureV2 = (
+  body: string,
+  header: string | null,
+  secrets: string | string[],
+  options: { toleranceSeconds?: number; now?: number } = {},
+): boolean => {
+  if (!header) {
+    return false;
+  }
+
+  const { timestamp, signatures } = parseWebhookSignatureV2(header);
+  if (timestamp === null || signatures.length === 0) {
+    return false;
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance =
+    options.toleranceSeconds ?? WEBHOOK_SIGNATURE_TOLERANCE_SECONDS;
+  if (Math.abs(now - timestamp) > tolerance) {
+    return false;
+  }
+
+  const candidates = Array.isArray(secrets) ? secrets : [secrets];
+  return candidates.some((secret) => {
+    const expected = hmacHex(secret, `${timestamp}.${body}`);
+    return signatures.some((signature) => safeEqualHex(expected, signature));
+  });
+};
+
+/**
+ * Verify a v1 X-ClickNPS-Signature header
+ * v1 has no timestamp in the signature, so it cannot detect replays
+ */
+export const verifyWebhookSignatureV1 = (
+  body: string,
+  header: string | null,
+  secret: string,
+): boolean => {
+  if (!header?.startsWith("sha256=")) {
+    return false;
+  }
+  return safeEqualHex(hmacHex(secret, body), header.slice("sha256=".length));
+};
@@ -0,0 +1,22 @@
+import {
+  startJobRunner,
+  stopJobRunner,
+  waitForJobRunner,
+} from "./services/jobs";
+import { registerScheduledJobs } from "./services/scheduled-jobs";
+
+// Runs background jobs, including webhook delivery, without the web server.
+// Start as many as needed; each claims its own jobs and deliveries.
+// Migrations are left to main.ts.
+registerScheduledJobs();
+await startJobRunner();
+
+const shutdown = async (signal: string) => {
+  console.log(`Received ${signal}, finishing running jobs`);
+  stopJobRunner();
+  await waitForJobRunner();
+  process.exit(0);
+};
+
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));